@@ -0,0 +1,149 @@
+import {
+    Action,
+    ActionExample,
+    HandlerCallback,
+    IAgentRuntime,
+    Memory,
+    State,
+} from "@elizaos/core";
+import {
+    extractContactName,
+    findAgentUserByName,
+    saveContact,
+} from "../services/contacts";
+
+const ADD_VERBS_REGEX =
+    /\b(agrega|agregar|añade|añadir|guarda|guardar|add|save|nuevo|new)\b/i;
+
+export const addContactAction: Action = {
+    name: "ADD_CONTACT",
+    similes: ["SAVE_CONTACT", "AGREGAR_CONTACTO", "NEW_CONTACT"],
+    description:
+        "Guarda una dirección con un nombre en la libreta de contactos del usuario para enviarle transferencias por nombre",
+
+    validate: async (_agent: IAgentRuntime, memory: Memory, _state?: State) => {
+        const text = memory.content?.text || "";
+        return /\bcontact/i.test(text) && ADD_VERBS_REGEX.test(text);
+    },
+
+    handler: async (
+        agent: IAgentRuntime,
+        memory: Memory,
+        state?: State,
+        _options?: any,
+        callback?: HandlerCallback
+    ) => {
+        try {
+            // Obtener el userId desde memory o state
+            const userId = memory.userId || state?.userId;
+
+            if (!userId) {
+                callback?.(
+                    {
+                        text: "No se pudo identificar tu cuenta. Por favor inténtalo de nuevo o contacta a soporte.",
+                    },
+                    []
+                );
+                return false;
+            }
+
+            const text = memory.content?.text || "";
+            const name = extractContactName(text);
+            if (!name) {
+                callback?.(
+                    {
+                        text: 'No entendí el nombre del contacto. Por ejemplo: "agregar contacto Maria 0x1234..."',
+                    },
+                    []
+                );
+                return false;
+            }
+
+            // Sin dirección, el nombre puede ser el de otro usuario de la tienda
+            let address = text.match(/0x[a-fA-F0-9]{40}/)?.[0];
+            if (!address) {
+                const agentUser = await findAgentUserByName(agent, name);
+                if (!agentUser) {
+                    callback?.(
+                        {
+                            text: `No encontré ningún usuario llamado ${name}. Indica su dirección, por ejemplo: "agregar contacto ${name} 0x1234..."`,
+                        },
+                        []
+                    );
+                    return false;
+                }
+                if ("error" in agentUser) {
+                    callback?.({ text: agentUser.error }, []);
+                    return false;
+                }
+                address = agentUser.address;
+            }
+
+            const contact = await saveContact(agent, userId, name, address);
+
+            callback?.(
+                {
+                    text: [
+                        `✅ Contacto guardado: ${contact.name}`,
+                        `Dirección: ${contact.address}${
+                            contact.contactUserId
+                                ? " (usuario de la tienda)"
+                                : ""
+                        }`,
+                        "",
+                        `Ahora puedes decir "envía 10 AISHOP a ${contact.name}".`,
+                    ].join("\n"),
+                    contact,
+                },
+                []
+            );
+
+            return true;
+        } catch (error) {
+            console.error("Error al guardar contacto:", error);
+            callback?.(
+                {
+                    text: `Error al guardar contacto: ${
+                        error instanceof Error
+                            ? error.message
+                            : "Error desconocido"
+                    }`,
+                },
+                []
+            );
+            return false;
+        }
+    },
+    examples: [
+        [
+            {
+                user: "{{user1}}",
+                content: {
+                    text: "Agregar contacto Maria 0x1234567890abcdef1234567890abcdef12345678",
+                },
+            },
+            {
+                user: "{{agentName}}",
+                content: {
+                    text: "Guardando a Maria en tus contactos...",
+                    action: "ADD_CONTACT",
+                },
+            },
+        ],
+        [
+            {
+                user: "{{user1}}",
+                content: {
+                    text: "Save Juan as a contact",
+                },
+            },
+            {
+                user: "{{agentName}}",
+                content: {
+                    text: "Buscando a Juan entre los usuarios de la tienda...",
+                    action: "ADD_CONTACT",
+                },
+            },
+        ],
+    ] as ActionExample[][],
+};
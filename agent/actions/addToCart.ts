@@ -0,0 +1,184 @@
+import {
+    Action,
+    ActionExample,
+    HandlerCallback,
+    IAgentRuntime,
+    Memory,
+    State,
+} from "@elizaos/core";
+import { COUPON_REGEX } from "./applyCoupon";
+import {
+    getProductCatalog,
+    type Product,
+    type ProductCatalogService,
+} from "../services/catalog";
+import { addToCart } from "../services/cart";
+import { findRequestedProduct } from "./productDetails";
+
+const CART_REGEX = /\b(carrito|cesta|cart|basket)\b/i;
+const ADD_REGEX =
+    /\b(añade|añadir|añádeme|agrega|agregar|agrégame|mete|meter|pon|poner|add|put)\b/i;
+
+// Producto y cantidad de mensajes como "añade 2 TSHIRT-001 al carrito". La
+// cantidad se busca después de quitar el SKU, que también lleva dígitos.
+export function parseCartRequest(
+    catalog: ProductCatalogService,
+    text: string
+): { product?: Product; quantity?: number } {
+    const product = findRequestedProduct(
+        catalog,
+        text.replace(CART_REGEX, " ").replace(ADD_REGEX, " ")
+    );
+    const withoutSku = product
+        ? text.replace(
+              new RegExp(
+                  product.sku.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"),
+                  "gi"
+              ),
+              " "
+          )
+        : text;
+    const quantity = withoutSku.match(/\b(\d+)\b/);
+    return {
+        product,
+        quantity: quantity ? Number(quantity[1]) : undefined,
+    };
+}
+
+export const addToCartAction: Action = {
+    name: "ADD_TO_CART",
+    similes: ["AÑADIR_AL_CARRITO", "AGREGAR_AL_CARRITO", "ADD_PRODUCT"],
+    description:
+        "Añade unidades de un producto del catálogo al carrito del usuario en esta conversación",
+
+    validate: async (_agent: IAgentRuntime, memory: Memory, _state?: State) => {
+        const text = memory.content?.text || "";
+        // "pon el cupón X en mi carrito" es APPLY_COUPON
+        return (
+            CART_REGEX.test(text) &&
+            ADD_REGEX.test(text) &&
+            !COUPON_REGEX.test(text)
+        );
+    },
+
+    handler: async (
+        agent: IAgentRuntime,
+        memory: Memory,
+        state?: State,
+        _options?: any,
+        callback?: HandlerCallback
+    ) => {
+        try {
+            // Obtener el userId desde memory o state
+            const userId = memory.userId || state?.userId;
+
+            if (!userId) {
+                callback?.(
+                    {
+                        text: "No se pudo identificar tu cuenta. Por favor inténtalo de nuevo o contacta a soporte.",
+                    },
+                    []
+                );
+                return false;
+            }
+
+            const catalog = getProductCatalog(agent);
+            if (!catalog) {
+                callback?.(
+                    {
+                        text: "El catálogo de productos no está disponible en este momento.",
+                    },
+                    []
+                );
+                return false;
+            }
+
+            const { product, quantity = 1 } = parseCartRequest(
+                catalog,
+                memory.content?.text || ""
+            );
+            if (!product) {
+                callback?.(
+                    {
+                        text: 'No encontré ese producto. Indica su SKU, por ejemplo: "añade 2 TSHIRT-001 al carrito".',
+                    },
+                    []
+                );
+                return false;
+            }
+
+            const { cart, error } = await addToCart(
+                agent,
+                catalog,
+                userId,
+                memory.roomId,
+                product.sku,
+                quantity
+            );
+            if (!cart) {
+                callback?.({ text: error }, []);
+                return false;
+            }
+
+            const units = cart.items.reduce(
+                (sum, item) => sum + item.quantity,
+                0
+            );
+            callback?.(
+                {
+                    text: `🛒 Añadí ${quantity} × ${product.title} al carrito. Ahora tienes ${units} ${
+                        units === 1 ? "artículo" : "artículos"
+                    }. Di "ver carrito" para revisarlo o "pagar" para finalizar la compra.`,
+                    cart: cart.items,
+                },
+                []
+            );
+            return true;
+        } catch (error) {
+            console.error("Error al añadir al carrito:", error);
+            callback?.(
+                {
+                    text: `Error al añadir al carrito: ${
+                        error instanceof Error
+                            ? error.message
+                            : "Error desconocido"
+                    }`,
+                },
+                []
+            );
+            return false;
+        }
+    },
+    examples: [
+        [
+            {
+                user: "{{user1}}",
+                content: {
+                    text: "Añade 2 TSHIRT-001 al carrito",
+                },
+            },
+            {
+                user: "{{agentName}}",
+                content: {
+                    text: "Añadiendo las camisetas a tu carrito...",
+                    action: "ADD_TO_CART",
+                },
+            },
+        ],
+        [
+            {
+                user: "{{user1}}",
+                content: {
+                    text: "Add the Mantle hoodie to my cart",
+                },
+            },
+            {
+                user: "{{agentName}}",
+                content: {
+                    text: "Adding the hoodie to your cart...",
+                    action: "ADD_TO_CART",
+                },
+            },
+        ],
+    ] as ActionExample[][],
+};
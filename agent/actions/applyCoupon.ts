@@ -0,0 +1,223 @@
+import {
+    Action,
+    ActionExample,
+    HandlerCallback,
+    IAgentRuntime,
+    Memory,
+    State,
+} from "@elizaos/core";
+import { parsePaymentToken } from "./checkout";
+import { getProductCatalog, type PaymentToken } from "../services/catalog";
+import {
+    formatOrderLines,
+    getCart,
+    quoteCart,
+    setCartCoupon,
+} from "../services/cart";
+import {
+    discountQuote,
+    evaluateCoupon,
+    formatQuoteDiscount,
+    getCoupons,
+} from "../services/promotions";
+
+export const COUPON_REGEX =
+    /\b(cup[oó]n|c[oó]digo (de )?descuento|c[oó]digo promocional|coupon|promo code|discount code)\b/i;
+const REMOVE_COUPON_REGEX =
+    /\b(quita|quitar|elimina|eliminar|borra|remove)\b/i;
+
+// Código del cupón en el mensaje: primero los cupones configurados y, si no,
+// la palabra que sigue a "cupón"/"coupon" para avisar de que no existe
+export function parseCouponCode(
+    text: string,
+    codes: string[]
+): string | undefined {
+    const known = codes.find((code) => {
+        const escaped = code.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+        return new RegExp(
+            `(^|[^A-Z0-9_-])${escaped}([^A-Z0-9_-]|$)`,
+            "i"
+        ).test(text);
+    });
+    if (known) return known.toUpperCase();
+    return text
+        .match(
+            /\b(?:cup[oó]n|coupon|c[oó]digo(?: de descuento| promocional)?|code)\s+([A-Z0-9_-]{3,})/i
+        )?.[1]
+        ?.toUpperCase();
+}
+
+export const applyCouponAction: Action = {
+    name: "APPLY_COUPON",
+    similes: ["APLICAR_CUPON", "USE_COUPON", "REDEEM_COUPON", "REMOVE_COUPON"],
+    description:
+        "Aplica un cupón de descuento (porcentaje o importe fijo) al carrito del usuario o lo quita; el descuento se valida de nuevo al pagar",
+
+    validate: async (_agent: IAgentRuntime, memory: Memory, _state?: State) =>
+        COUPON_REGEX.test(memory.content?.text || ""),
+
+    handler: async (
+        agent: IAgentRuntime,
+        memory: Memory,
+        state?: State,
+        _options?: any,
+        callback?: HandlerCallback
+    ) => {
+        try {
+            // Obtener el userId desde memory o state
+            const userId = memory.userId || state?.userId;
+
+            if (!userId) {
+                callback?.(
+                    {
+                        text: "No se pudo identificar tu cuenta. Por favor inténtalo de nuevo o contacta a soporte.",
+                    },
+                    []
+                );
+                return false;
+            }
+
+            const text = memory.content?.text || "";
+            const cart = await getCart(agent, userId, memory.roomId);
+            if (REMOVE_COUPON_REGEX.test(text)) {
+                if (!cart.coupon) {
+                    callback?.(
+                        { text: "Tu carrito no tiene ningún cupón aplicado." },
+                        []
+                    );
+                    return false;
+                }
+                await setCartCoupon(agent, userId, memory.roomId);
+                callback?.(
+                    { text: `Quité el cupón ${cart.coupon} de tu carrito.` },
+                    []
+                );
+                return true;
+            }
+
+            const coupons = getCoupons(agent);
+            const code = parseCouponCode(
+                text,
+                coupons.map((coupon) => coupon.code)
+            );
+            if (!code) {
+                callback?.(
+                    {
+                        text: 'Indícame el código del cupón, por ejemplo "aplica el cupón VERANO10".',
+                    },
+                    []
+                );
+                return false;
+            }
+
+            const catalog = getProductCatalog(agent);
+            if (!catalog) {
+                callback?.(
+                    {
+                        text: "El catálogo de productos no está disponible en este momento.",
+                    },
+                    []
+                );
+                return false;
+            }
+
+            // Un descuento fijo se calcula en su moneda; uno porcentual en la
+            // moneda pedida
+            const fixedToken = coupons.find(
+                (coupon) =>
+                    coupon.code.toUpperCase() === code &&
+                    coupon.type === "fixed"
+            )?.token;
+            const token = (fixedToken?.toUpperCase() ??
+                parsePaymentToken(text)) as PaymentToken;
+            const { quote, error } = quoteCart(catalog, cart, token);
+            if (!quote) {
+                callback?.(
+                    {
+                        text:
+                            cart.items.length === 0
+                                ? "Añade productos al carrito antes de aplicar un cupón."
+                                : error,
+                    },
+                    []
+                );
+                return false;
+            }
+
+            const result = await evaluateCoupon(
+                agent,
+                code,
+                userId,
+                token,
+                quote.total
+            );
+            if (!result.coupon) {
+                callback?.({ text: result.error }, []);
+                return false;
+            }
+
+            await setCartCoupon(agent, userId, memory.roomId, code);
+            const discounted = discountQuote(quote, code, result.discount);
+            callback?.(
+                {
+                    text: [
+                        `🏷️ Cupón ${code} aplicado a tu carrito:`,
+                        ...formatOrderLines(quote.lines, token),
+                        ...formatQuoteDiscount(discounted),
+                        "",
+                        `Di "pagar con ${token}" para finalizar la compra con el descuento.`,
+                    ].join("\n"),
+                    coupon: code,
+                    quote: discounted,
+                },
+                []
+            );
+            return true;
+        } catch (error) {
+            console.error("Error al aplicar el cupón:", error);
+            callback?.(
+                {
+                    text: `Error al aplicar el cupón: ${
+                        error instanceof Error
+                            ? error.message
+                            : "Error desconocido"
+                    }`,
+                },
+                []
+            );
+            return false;
+        }
+    },
+    examples: [
+        [
+            {
+                user: "{{user1}}",
+                content: {
+                    text: "Aplica el cupón VERANO10 a mi carrito",
+                },
+            },
+            {
+                user: "{{agentName}}",
+                content: {
+                    text: "Comprobando el cupón...",
+                    action: "APPLY_COUPON",
+                },
+            },
+        ],
+        [
+            {
+                user: "{{user1}}",
+                content: {
+                    text: "Use coupon WELCOME5",
+                },
+            },
+            {
+                user: "{{agentName}}",
+                content: {
+                    text: "Applying your coupon...",
+                    action: "APPLY_COUPON",
+                },
+            },
+        ],
+    ] as ActionExample[][],
+};
@@ -13,7 +13,8 @@ import {
     initWalletProvider,
     initUserWalletProvider,
 } from "../providers/wallet";
-import { TOKENS, isERC20Token } from "../config/token";
+import { mantleSepoliaTestnet } from "../config/chains";
+import { getERC20Tokens } from "../config/token";
 import { userHasWallet, getUserWallet } from "./createWallet";
 
 function extractEthereumWalletAddress(text: string): Address | null {
@@ -22,6 +23,12 @@ function extractEthereumWalletAddress(text: string): Address | null {
     return matches ? (matches[0] as Address) : null;
 }
 
+function formatBalances(balances: Record<string, string>): string[] {
+    return Object.entries(balances).map(
+        ([symbol, balance]) => `${symbol}: ${balance}`
+    );
+}
+
 export function generateId(): `${string}-${string}-${string}-${string}-${string}` {
     return "xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx".replace(
         /[xy]/g,
@@ -108,35 +115,36 @@ export const checkBalanceAction: Action = {
                     MNT: nativeBalanceFormatted,
                 };
 
-                // Obtener balance del token AISHOP
-                const aishopToken = TOKENS.AISHOP;
-                if (isERC20Token(aishopToken)) {
+                // Obtener balance de cada token ERC20 registrado
+                for (const token of getERC20Tokens(
+                    agent,
+                    mantleSepoliaTestnet.id
+                )) {
                     try {
                         const tokenBalance = await publicClient.readContract({
-                            address: aishopToken.address,
+                            address: token.address,
                             abi: erc20Abi,
                             functionName: "balanceOf",
                             args: [addressFromMessage],
                         });
 
-                        balances.AISHOP = formatUnits(
+                        balances[token.symbol] = formatUnits(
                             tokenBalance,
-                            aishopToken.decimals
+                            token.decimals
                         );
                     } catch (error) {
                         console.error(
-                            "Error al obtener balance de AISHOP:",
+                            `Error al obtener balance de ${token.symbol}:`,
                             error
                         );
-                        balances.AISHOP = "Error al obtener balance";
+                        balances[token.symbol] = "Error al obtener balance";
                     }
                 }
 
                 // Crear el mensaje de respuesta
                 const balanceText = [
                     `Balances en Mantle Sepolia Testnet para ${addressFromMessage}:`,
-                    `MNT: ${balances.MNT}`,
-                    `AISHOP: ${balances.AISHOP}`,
+                    ...formatBalances(balances),
                     "",
                     `Ver en Explorer: https://sepolia.mantlescan.xyz/address/${addressFromMessage}`,
                 ].join("\n");
@@ -214,18 +222,22 @@ export const checkBalanceAction: Action = {
                 MNT: nativeBalance,
             };
 
-            // Obtener balance del token AISHOP
-            const aishopToken = TOKENS.AISHOP;
-            if (isERC20Token(aishopToken)) {
+            // Obtener balance de cada token ERC20 registrado
+            for (const token of getERC20Tokens(
+                agent,
+                mantleSepoliaTestnet.id
+            )) {
                 try {
-                    const tokenBalance =
+                    balances[token.symbol] =
                         await userWalletProvider.getTokenBalance(
-                            aishopToken.address
+                            token.address
                         );
-                    balances.AISHOP = tokenBalance;
                 } catch (error) {
-                    console.error("Error al obtener balance de AISHOP:", error);
-                    balances.AISHOP = "Error al obtener balance";
+                    console.error(
+                        `Error al obtener balance de ${token.symbol}:`,
+                        error
+                    );
+                    balances[token.symbol] = "Error al obtener balance";
                 }
             }
 
@@ -234,8 +246,7 @@ export const checkBalanceAction: Action = {
                 `📊 Tus Balances en Mantle Sepolia Testnet:`,
                 "",
                 `Dirección: ${userAddress}`,
-                `MNT: ${balances.MNT}`,
-                `AISHOP: ${balances.AISHOP}`,
+                ...formatBalances(balances),
                 "",
                 `Ver en Explorer: https://sepolia.mantlescan.xyz/address/${userAddress}`,
             ].join("\n");
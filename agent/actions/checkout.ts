@@ -0,0 +1,599 @@
+import {
+    Action,
+    ActionExample,
+    HandlerCallback,
+    IAgentRuntime,
+    Memory,
+    State,
+} from "@elizaos/core";
+import {
+    formatEther,
+    parseEther,
+    parseUnits,
+    type Address,
+    type Hash,
+    type PublicClient,
+} from "viem";
+
+import { initUserWalletProvider } from "../providers/wallet";
+import { mantleSepoliaTestnet } from "../config/chains";
+import { getTokenBySymbol, isERC20Token } from "../config/token";
+import { getUserWallet, userHasWallet } from "./createWallet";
+import { executeMNTTransfer } from "./transfer";
+import { executeERC20Transfer, prepareERC20Transfer } from "./transferERC20";
+import {
+    getProductCatalog,
+    PAYMENT_TOKENS,
+    type PaymentToken,
+} from "../services/catalog";
+import {
+    clearCart,
+    formatOrderLines,
+    getCart,
+    quoteCart,
+} from "../services/cart";
+import {
+    createOrder,
+    getMerchantAddress,
+    getOrder,
+    isPaymentInProgress,
+    listOrders,
+    notifyOrderRoom,
+    transitionOrder,
+    updateOrder,
+    type Order,
+} from "../services/orders";
+import {
+    cancelPendingIntent,
+    createPendingIntent,
+    formatIntentQuote,
+    getPendingIntent,
+    type IntentExecutor,
+    type IntentReleaser,
+    type PendingIntent,
+} from "../services/pendingIntents";
+import {
+    applyCartCoupon,
+    formatQuoteDiscount,
+    rewardPaidOrder,
+} from "../services/promotions";
+import { getSpendingPolicy } from "../services/spendingPolicy";
+import {
+    createReceiptClient,
+    getTransactionOutcome,
+} from "../services/ledger";
+import { parseTransferIntentFallback } from "../services/intentParser";
+import { withFeeBuffer } from "../services/gasSponsorship";
+
+const CHECKOUT_REGEX =
+    /\b(checkout|check out|finalizar (la )?compra|tramitar (el )?pedido|comprar (el )?carrito)\b/i;
+const PAY_REGEX = /\b(pagar|paga|pago|pay)\b/i;
+const CART_REGEX = /\b(carrito|cesta|cart|basket|pedido|order|compra)\b/i;
+const DEFAULT_PAYMENT_TOKEN: PaymentToken = "AISHOP";
+
+// "pagar" también sirve para transferencias ("paga 5 MNT a María"): sin
+// nombrar el carrito o el pedido solo es un pago del carrito si el mensaje no
+// trae un importe ni un destinatario
+export function isCheckoutRequest(text: string): boolean {
+    if (CHECKOUT_REGEX.test(text)) return true;
+    if (!PAY_REGEX.test(text)) return false;
+    if (CART_REGEX.test(text)) return true;
+    const transfer = parseTransferIntentFallback(text, [...PAYMENT_TOKENS]);
+    return !transfer.amount && !transfer.recipient;
+}
+
+// Moneda pedida en el mensaje ("pagar con MNT"); AISHOP si no se indica
+export function parsePaymentToken(text: string): PaymentToken {
+    return (
+        PAYMENT_TOKENS.find((token) =>
+            new RegExp(`\\b${token}\\b`, "i").test(text)
+        ) ?? DEFAULT_PAYMENT_TOKEN
+    );
+}
+
+// Marca pagado un pedido de CHECKOUT cuya transacción se confirmó y vacía el
+// carrito que pagó
+async function markCheckoutPaid(
+    agent: IAgentRuntime,
+    order: Order,
+    txHash?: string
+) {
+    const paid = await transitionOrder(agent, order.id, "paid", {
+        txHash,
+        payer: (await getUserWallet(agent, order.userId))?.address as
+            | Address
+            | undefined,
+        paidAt: Date.now(),
+    });
+    await clearCart(agent, order.userId, order.roomId);
+    return paid;
+}
+
+// Paga un pedido confirmado con la misma transferencia que TRANSFER_ERC20 o
+// TRANSFER_MNT
+export const executeCheckout: IntentExecutor = async (
+    agent,
+    intent,
+    memory,
+    callback
+) => {
+    const order = await getOrder(agent, intent.params.orderId);
+    if (!order || order.userId !== intent.userId) {
+        return {
+            success: false,
+            error: `No encontré el pedido ${intent.params.orderId}.`,
+        };
+    }
+    if (order.status !== "awaiting_payment") {
+        return {
+            success: false,
+            error: `El pedido ${order.id} ya no espera pago (estado: ${order.status}).`,
+        };
+    }
+
+    const transfer =
+        order.token === "MNT" ? executeMNTTransfer : executeERC20Transfer;
+    return payCheckoutOrder(
+        agent,
+        intent,
+        order,
+        () => transfer(agent, intent, memory, callback),
+        callback
+    );
+};
+
+// Envía el pago del pedido con `transfer`. El pedido pasa a pagado si el
+// recibo confirma la transacción y se cancela, liberando su cupón, si
+// revierte o no llega a enviarse. Si se envió pero el recibo no llega, sigue
+// esperando el pago con su hash hasta que reconcileCheckoutPayments sepa cómo
+// terminó.
+export async function payCheckoutOrder(
+    agent: IAgentRuntime,
+    intent: PendingIntent,
+    order: Order,
+    transfer: () => ReturnType<IntentExecutor>,
+    callback?: HandlerCallback
+): ReturnType<IntentExecutor> {
+    let result: Awaited<ReturnType<IntentExecutor>>;
+    try {
+        result = await transfer();
+    } catch (error) {
+        // La transacción pudo enviarse antes del error, p. ej. si el recibo
+        // no llegó a tiempo
+        const sent = await getPendingIntent(agent, intent.userId, intent.code);
+        if (sent?.txHash) {
+            await updateOrder(agent, order.id, {
+                txHash: sent.txHash,
+                paymentSentAt: sent.sentAt,
+            });
+            return {
+                success: false,
+                txHash: sent.txHash,
+                error: `La transacción ${sent.txHash} se envió pero aún no se ha confirmado. El pedido ${order.id} quedará pagado en cuanto se confirme.`,
+            };
+        }
+        result = {
+            success: false,
+            error: error instanceof Error ? error.message : "Error desconocido",
+        };
+    }
+    if (!result.success) {
+        await transitionOrder(agent, order.id, "cancelled", {
+            txHash: result.txHash,
+            cancelledAt: Date.now(),
+        });
+        return {
+            ...result,
+            error: `${
+                result.error ?? `La transacción ${result.txHash} falló.`
+            } El pedido ${order.id} se canceló.`,
+        };
+    }
+
+    const paid = await markCheckoutPaid(agent, order, result.txHash);
+
+    callback?.(
+        {
+            text: `🧾 Pedido ${order.id} pagado: ${order.total} ${order.token}. ¡Gracias por tu compra!`,
+            order: paid.order,
+        },
+        []
+    );
+    // Cupón y cashback se aplican después de avisar del pago
+    if (paid.order) {
+        await rewardPaidOrder(agent, paid.order);
+    }
+    return result;
+}
+
+// Cancela el pedido de un código de pago que se canceló o expiró, para que
+// no quede esperando un pago que ya no puede llegar
+export const releaseCheckout: IntentReleaser = async (agent, intent) => {
+    const order = await getOrder(agent, intent.params.orderId);
+    if (
+        order?.status !== "awaiting_payment" ||
+        order.paymentCode !== intent.code
+    ) {
+        return;
+    }
+    await transitionOrder(agent, order.id, "cancelled", {
+        cancelledAt: Date.now(),
+    });
+};
+
+// Concilia los pedidos de CHECKOUT cuyo pago se envió sin que llegara el
+// recibo: pasan a pagados cuando la transacción se confirma y se cancelan si
+// falla. Devuelve cuántos pedidos cambiaron de estado.
+export async function reconcileCheckoutPayments(
+    agent: IAgentRuntime,
+    publicClient: Pick<
+        PublicClient,
+        "getTransactionReceipt" | "getTransaction"
+    > = createReceiptClient(agent, mantleSepoliaTestnet)
+): Promise<number> {
+    let settled = 0;
+    for (const order of await listOrders(agent, {
+        status: "awaiting_payment",
+    })) {
+        if (!order.txHash || order.invoiceId) continue;
+        const outcome = await getTransactionOutcome(
+            publicClient,
+            order.txHash as Hash,
+            order.paymentSentAt
+        );
+        if (outcome === "pending") continue;
+
+        if (outcome === "confirmed") {
+            const paid = await markCheckoutPaid(agent, order, order.txHash);
+            if (!paid.order) continue;
+            await notifyOrderRoom(
+                agent,
+                paid.order,
+                `🧾 Pedido ${order.id} pagado: ${order.total} ${order.token}. ¡Gracias por tu compra!`
+            );
+            await rewardPaidOrder(agent, paid.order);
+        } else {
+            const cancelled = await transitionOrder(
+                agent,
+                order.id,
+                "cancelled",
+                { cancelledAt: Date.now() }
+            );
+            if (!cancelled.order) continue;
+            await notifyOrderRoom(
+                agent,
+                cancelled.order,
+                `La transacción ${order.txHash} del pedido ${order.id} falló y el pedido se canceló. Tu carrito sigue disponible para volver a pagarlo.`
+            );
+        }
+        settled++;
+    }
+    return settled;
+}
+
+// Cancela los pedidos de CHECKOUT que el usuario dejó sin pagar en la sala,
+// junto con sus códigos, para que dos confirmaciones no cobren dos veces el
+// mismo carrito. Si el pago de alguno ya se envió no cancela ninguno.
+export async function cancelOpenCheckouts(
+    agent: IAgentRuntime,
+    userId: string,
+    roomId: string
+): Promise<{ error?: string }> {
+    const open = (await listOrders(agent, { userId })).filter(
+        (order) =>
+            order.roomId === roomId &&
+            !order.invoiceId &&
+            (order.status === "created" ||
+                order.status === "awaiting_payment")
+    );
+    for (const order of open) {
+        if (await isPaymentInProgress(agent, order)) {
+            return {
+                error: `El pago del pedido ${order.id} está en curso. Espera a que se confirme antes de volver a pagar.`,
+            };
+        }
+    }
+
+    for (const order of open) {
+        if (order.paymentCode) {
+            await cancelPendingIntent(
+                agent,
+                userId,
+                roomId,
+                order.paymentCode
+            );
+        }
+        await transitionOrder(agent, order.id, "cancelled", {
+            cancelledAt: Date.now(),
+        });
+    }
+    return {};
+}
+
+export const checkoutAction: Action = {
+    name: "CHECKOUT",
+    similes: ["PAGAR", "PAGAR_CARRITO", "FINALIZAR_COMPRA", "PLACE_ORDER"],
+    description:
+        "Crea un pedido con el carrito del usuario, cotiza el total en AISHOP o MNT y lo paga a la dirección del comercio desde la wallet del usuario tras confirmar el código",
+
+    validate: async (_agent: IAgentRuntime, memory: Memory, _state?: State) => {
+        const text = memory.content?.text || "";
+        // "paga 10 AISHOP a 0x..." es una transferencia, no un pedido, y
+        // pagar con una factura es CREATE_INVOICE
+        return (
+            isCheckoutRequest(text) &&
+            !/0x[a-fA-F0-9]{40}/.test(text) &&
+            !/\b(factura|invoice|payment request|qr)\b/i.test(text)
+        );
+    },
+
+    handler: async (
+        agent: IAgentRuntime,
+        memory: Memory,
+        state?: State,
+        _options?: any,
+        callback?: HandlerCallback
+    ) => {
+        try {
+            // Obtener el userId desde memory o state
+            const userId = memory.userId || state?.userId;
+
+            if (!userId) {
+                callback?.(
+                    {
+                        text: "No se pudo identificar tu cuenta. Por favor inténtalo de nuevo o contacta a soporte.",
+                    },
+                    []
+                );
+                return false;
+            }
+
+            if (!(await userHasWallet(agent, userId))) {
+                callback?.(
+                    {
+                        text: "Necesitas crear una wallet antes de poder pagar. Puedes decirme 'crear wallet' para configurar una.",
+                    },
+                    []
+                );
+                return false;
+            }
+
+            const catalog = getProductCatalog(agent);
+            if (!catalog) {
+                callback?.(
+                    {
+                        text: "El catálogo de productos no está disponible en este momento.",
+                    },
+                    []
+                );
+                return false;
+            }
+
+            // Un nuevo pedido reemplaza al anterior sin pagar, que además
+            // libera el uso de su cupón antes de volver a cotizar
+            const previous = await cancelOpenCheckouts(
+                agent,
+                userId,
+                memory.roomId
+            );
+            if (previous.error) {
+                callback?.({ text: previous.error }, []);
+                return false;
+            }
+
+            const token = parsePaymentToken(memory.content?.text || "");
+            const cart = await getCart(agent, userId, memory.roomId);
+            const cartQuote = quoteCart(catalog, cart, token);
+            const { quote, error } = cartQuote.quote
+                ? await applyCartCoupon(agent, cart, cartQuote.quote)
+                : cartQuote;
+            if (!quote) {
+                callback?.({ text: error }, []);
+                return false;
+            }
+
+            const merchant = getMerchantAddress(agent);
+            if (!merchant) {
+                callback?.(
+                    {
+                        text: "La tienda no tiene una dirección de cobro configurada. Por favor contacta a soporte.",
+                    },
+                    []
+                );
+                return false;
+            }
+
+            const userWalletProvider = await initUserWalletProvider(
+                agent,
+                userId
+            );
+            if (!userWalletProvider) {
+                callback?.(
+                    {
+                        text: "No se pudo acceder a tu wallet. Por favor contacta a soporte.",
+                    },
+                    []
+                );
+                return false;
+            }
+
+            // Mismas comprobaciones que una transferencia: política de gasto,
+            // balance y gas
+            let estimatedGas: bigint;
+            let gasPrice: bigint;
+            let sponsoredGas = false;
+            if (token === "MNT") {
+                const publicClient = userWalletProvider.getPublicClient();
+                const fromAddress = userWalletProvider.getAddress();
+                const value = parseEther(quote.total);
+                let balance: bigint;
+                [estimatedGas, gasPrice, balance] = await Promise.all([
+                    publicClient.estimateGas({
+                        account: fromAddress,
+                        to: merchant,
+                        value,
+                    }),
+                    publicClient.getGasPrice(),
+                    publicClient.getBalance({ address: fromAddress }),
+                ]);
+
+                const decision = await getSpendingPolicy(agent)?.checkSpending(
+                    {
+                        userId,
+                        action: "CHECKOUT",
+                        token: "MNT",
+                        amount: quote.total,
+                        decimals: 18,
+                        recipient: merchant,
+                    }
+                );
+                if (decision && !decision.allowed) {
+                    callback?.(
+                        { text: `🚫 Pago bloqueado: ${decision.reason}` },
+                        []
+                    );
+                    return false;
+                }
+                if (balance < value + withFeeBuffer(estimatedGas * gasPrice)) {
+                    callback?.(
+                        {
+                            text: `Balance insuficiente para pagar ${quote.total} MNT más el gas. Tienes ${formatEther(
+                                balance
+                            )} MNT.`,
+                        },
+                        []
+                    );
+                    return false;
+                }
+            } else {
+                const tokenConfig = getTokenBySymbol(
+                    agent,
+                    mantleSepoliaTestnet.id,
+                    token
+                );
+                if (!tokenConfig || !isERC20Token(tokenConfig)) {
+                    callback?.(
+                        {
+                            text: `No se encontró configuración para el token ${token} o no es un token ERC20.`,
+                        },
+                        []
+                    );
+                    return false;
+                }
+
+                const prepared = await prepareERC20Transfer(agent, {
+                    userId,
+                    provider: userWalletProvider,
+                    token: tokenConfig,
+                    to: merchant,
+                    amount: parseUnits(quote.total, tokenConfig.decimals),
+                    action: "CHECKOUT",
+                });
+                if (prepared.error) {
+                    callback?.({ text: prepared.error }, []);
+                    return false;
+                }
+                ({ estimatedGas, gasPrice, sponsoredGas } = prepared.quote);
+            }
+
+            const order = await createOrder(agent, {
+                userId,
+                roomId: memory.roomId,
+                items: quote.lines,
+                token,
+                total: quote.total,
+                merchant,
+                coupon: quote.coupon,
+            });
+
+            // El pago se confirma con el mismo código que una transferencia
+            const intent = await createPendingIntent(agent, {
+                userId,
+                roomId: memory.roomId,
+                action: "CHECKOUT",
+                params: {
+                    orderId: order.id,
+                    to: merchant,
+                    amount: quote.total,
+                    symbol: token,
+                },
+                quote: {
+                    recipient: merchant,
+                    recipientName: `Tienda · pedido ${order.id}`,
+                    amount: quote.total,
+                    symbol: token,
+                    estimatedGas: estimatedGas.toString(),
+                    estimatedFee: formatEther(estimatedGas * gasPrice),
+                    sponsoredGas,
+                },
+            });
+            const { order: awaiting } = await transitionOrder(
+                agent,
+                order.id,
+                "awaiting_payment",
+                { paymentCode: intent.code }
+            );
+
+            callback?.(
+                {
+                    text: [
+                        `🧾 Pedido ${order.id}`,
+                        ...formatOrderLines(quote.lines, token),
+                        ...formatQuoteDiscount(quote),
+                        `Total: ${quote.total} ${token}`,
+                        "",
+                        formatIntentQuote(intent),
+                    ].join("\n"),
+                    order: awaiting,
+                },
+                []
+            );
+            return true;
+        } catch (error) {
+            console.error("Error al procesar el pago:", error);
+            callback?.(
+                {
+                    text: `Error al procesar el pago: ${
+                        error instanceof Error
+                            ? error.message
+                            : "Error desconocido"
+                    }`,
+                },
+                []
+            );
+            return false;
+        }
+    },
+    examples: [
+        [
+            {
+                user: "{{user1}}",
+                content: {
+                    text: "Quiero pagar el carrito con AISHOP",
+                },
+            },
+            {
+                user: "{{agentName}}",
+                content: {
+                    text: "Preparando tu pedido para que confirmes el pago...",
+                    action: "CHECKOUT",
+                },
+            },
+        ],
+        [
+            {
+                user: "{{user1}}",
+                content: {
+                    text: "Checkout and pay with MNT",
+                },
+            },
+            {
+                user: "{{agentName}}",
+                content: {
+                    text: "Creating your order and quoting the total in MNT...",
+                    action: "CHECKOUT",
+                },
+            },
+        ],
+    ] as ActionExample[][],
+};
@@ -0,0 +1,210 @@
+import {
+    Action,
+    ActionExample,
+    HandlerCallback,
+    IAgentRuntime,
+    Memory,
+    State,
+} from "@elizaos/core";
+
+import { executeMNTTransfer } from "./transfer";
+import { executeERC20Transfer } from "./transferERC20";
+import { executeCheckout, releaseCheckout } from "./checkout";
+import {
+    cancelPendingIntent,
+    claimPendingIntent,
+    completePendingIntent,
+    getPendingIntent,
+    parseIntentReply,
+    type IntentExecutor,
+    type IntentReleaser,
+    type PendingIntent,
+} from "../services/pendingIntents";
+
+// Ejecutores de cada acción que mueve fondos, indexados por nombre de acción
+const INTENT_EXECUTORS: Record<string, IntentExecutor> = {
+    TRANSFER_MNT: executeMNTTransfer,
+    TRANSFER_ERC20: executeERC20Transfer,
+    CHECKOUT: executeCheckout,
+};
+
+// Acciones que reservan algo al crear la intención y deben liberarlo si no
+// se confirma
+const INTENT_RELEASERS: Record<string, IntentReleaser> = {
+    CHECKOUT: releaseCheckout,
+};
+
+export async function releaseIntent(
+    agent: IAgentRuntime,
+    intent: PendingIntent
+): Promise<void> {
+    await INTENT_RELEASERS[intent.action]?.(agent, intent);
+}
+
+export const confirmIntentAction: Action = {
+    name: "CONFIRM_TRANSACTION",
+    similes: ["CONFIRMAR", "CONFIRM", "CANCEL_TRANSACTION", "CANCELAR"],
+    description:
+        "Ejecuta o cancela una operación pendiente cuando el usuario responde 'confirmar <código>' o 'cancelar <código>'",
+
+    validate: async (_agent: IAgentRuntime, memory: Memory, _state?: State) => {
+        return parseIntentReply(memory.content?.text || "") !== null;
+    },
+
+    handler: async (
+        agent: IAgentRuntime,
+        memory: Memory,
+        state?: State,
+        _options?: any,
+        callback?: HandlerCallback
+    ) => {
+        try {
+            // Obtener el userId desde memory o state
+            const userId = memory.userId || state?.userId;
+
+            if (!userId) {
+                callback?.(
+                    {
+                        text: "No se pudo identificar tu cuenta. Por favor inténtalo de nuevo o contacta a soporte.",
+                    },
+                    []
+                );
+                return false;
+            }
+
+            const reply = parseIntentReply(memory.content?.text || "");
+            if (!reply) {
+                callback?.(
+                    {
+                        text: "No encontré el código de la operación. Responde 'confirmar <código>' con el código del resumen.",
+                    },
+                    []
+                );
+                return false;
+            }
+
+            if (!reply.confirmed) {
+                const pending = await getPendingIntent(
+                    agent,
+                    userId,
+                    reply.code
+                );
+                const cancelled = await cancelPendingIntent(
+                    agent,
+                    userId,
+                    memory.roomId,
+                    reply.code
+                );
+                if (cancelled && pending) {
+                    await releaseIntent(agent, pending);
+                }
+                callback?.(
+                    {
+                        text: cancelled
+                            ? `Operación ${reply.code} cancelada. No se envió ninguna transacción.`
+                            : "No encontré una operación pendiente con ese código en esta conversación.",
+                    },
+                    []
+                );
+                return cancelled;
+            }
+
+            // Solo el mismo usuario, en la misma sala, puede confirmar
+            const { intent, error } = await claimPendingIntent(
+                agent,
+                userId,
+                memory.roomId,
+                reply.code
+            );
+            if (!intent) {
+                callback?.({ text: error }, []);
+                return false;
+            }
+
+            const executor = INTENT_EXECUTORS[intent.action];
+            if (!executor) {
+                await completePendingIntent(agent, intent, {
+                    success: false,
+                    error: `Acción no soportada: ${intent.action}`,
+                });
+                callback?.(
+                    {
+                        text: `No se puede ejecutar la operación: acción ${intent.action} no soportada.`,
+                    },
+                    []
+                );
+                return false;
+            }
+
+            let result: Awaited<ReturnType<IntentExecutor>>;
+            try {
+                result = await executor(agent, intent, memory, callback);
+            } catch (executionError) {
+                result = {
+                    success: false,
+                    error:
+                        executionError instanceof Error
+                            ? executionError.message
+                            : "Error desconocido",
+                };
+            }
+            await completePendingIntent(agent, intent, result);
+
+            if (!result.success && result.error) {
+                callback?.(
+                    {
+                        text: `No se pudo completar la operación ${intent.code}: ${result.error}`,
+                    },
+                    []
+                );
+            }
+
+            return result.success;
+        } catch (error) {
+            console.error("Error al confirmar operación:", error);
+            callback?.(
+                {
+                    text: `Error al confirmar operación: ${
+                        error instanceof Error
+                            ? error.message
+                            : "Error desconocido"
+                    }`,
+                },
+                []
+            );
+            return false;
+        }
+    },
+    examples: [
+        [
+            {
+                user: "{{user1}}",
+                content: {
+                    text: "Confirmar K7QX2M",
+                },
+            },
+            {
+                user: "{{agentName}}",
+                content: {
+                    text: "Ejecutando la operación confirmada...",
+                    action: "CONFIRM_TRANSACTION",
+                },
+            },
+        ],
+        [
+            {
+                user: "{{user1}}",
+                content: {
+                    text: "Cancelar K7QX2M",
+                },
+            },
+            {
+                user: "{{agentName}}",
+                content: {
+                    text: "Cancelando la operación pendiente...",
+                    action: "CONFIRM_TRANSACTION",
+                },
+            },
+        ],
+    ] as ActionExample[][],
+};
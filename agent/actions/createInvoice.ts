@@ -0,0 +1,294 @@
+import {
+    Action,
+    ActionExample,
+    HandlerCallback,
+    IAgentRuntime,
+    Memory,
+    State,
+} from "@elizaos/core";
+import type { Address } from "viem";
+
+import { mantleSepoliaTestnet } from "../config/chains";
+import { getTokenBySymbol, isERC20Token } from "../config/token";
+import { parsePaymentToken } from "./checkout";
+import {
+    getProductCatalog,
+    PAYMENT_TOKENS,
+    type PaymentToken,
+} from "../services/catalog";
+import { formatOrderLines, getCart, quoteCart } from "../services/cart";
+import {
+    createOrder,
+    getMerchantAddress,
+    transitionOrder,
+} from "../services/orders";
+import { applyCartCoupon, formatQuoteDiscount } from "../services/promotions";
+import {
+    createInvoice,
+    createInvoiceClient,
+    INVOICE_TTL_MS,
+    type Invoice,
+} from "../services/invoices";
+
+const INVOICE_REGEX =
+    /\b(factura|facturar|solicitud de pago|cobro|qr|invoice|payment request|payment link)\b/i;
+
+// Importe explícito ("factura de 25 AISHOP"); sin él se factura el carrito
+export function parseInvoiceAmount(
+    text: string
+): { amount: string; token: PaymentToken } | null {
+    const match = text.match(
+        new RegExp(
+            `(\\d+(?:[.,]\\d+)?)\\s*(${PAYMENT_TOKENS.join("|")})\\b`,
+            "i"
+        )
+    );
+    if (!match) return null;
+    return {
+        amount: match[1].replace(",", "."),
+        token: match[2].toUpperCase() as PaymentToken,
+    };
+}
+
+function getInvoiceTtl(agent: IAgentRuntime): number {
+    const minutes = Number(agent.getSetting("INVOICE_TTL_MINUTES"));
+    return minutes > 0 ? minutes * 60 * 1000 : INVOICE_TTL_MS;
+}
+
+export const createInvoiceAction: Action = {
+    name: "CREATE_INVOICE",
+    similes: ["FACTURA", "PAYMENT_REQUEST", "PAY_WITH_EXTERNAL_WALLET"],
+    description:
+        "Genera una solicitud de pago (importe, token, expiración, URI EIP-681 y QR) para pagar el carrito o un importe desde una wallet externa; el pago se detecta automáticamente",
+
+    validate: async (_agent: IAgentRuntime, memory: Memory, _state?: State) => {
+        const text = memory.content?.text || "";
+        return INVOICE_REGEX.test(text) && !/\bINV-[A-Z0-9]+\b/i.test(text);
+    },
+
+    handler: async (
+        agent: IAgentRuntime,
+        memory: Memory,
+        state?: State,
+        _options?: any,
+        callback?: HandlerCallback
+    ) => {
+        try {
+            // Obtener el userId desde memory o state
+            const userId = memory.userId || state?.userId;
+
+            if (!userId) {
+                callback?.(
+                    {
+                        text: "No se pudo identificar tu cuenta. Por favor inténtalo de nuevo o contacta a soporte.",
+                    },
+                    []
+                );
+                return false;
+            }
+
+            const merchant = getMerchantAddress(agent);
+            if (!merchant) {
+                callback?.(
+                    {
+                        text: "La tienda no tiene una dirección de cobro configurada. Por favor contacta a soporte.",
+                    },
+                    []
+                );
+                return false;
+            }
+
+            const text = memory.content?.text || "";
+            const requested = parseInvoiceAmount(text);
+            const token: PaymentToken =
+                requested?.token ?? parsePaymentToken(text);
+
+            // Todo lo que puede fallar antes de la factura se comprueba antes
+            // de crear el pedido, que reserva el uso del cupón
+            const tokenConfig = getTokenBySymbol(
+                agent,
+                mantleSepoliaTestnet.id,
+                token
+            );
+            if (!tokenConfig) {
+                callback?.(
+                    {
+                        text: `No se encontró configuración para el token ${token}.`,
+                    },
+                    []
+                );
+                return false;
+            }
+
+            const payer = text.match(/0x[a-fA-F0-9]{40}/)?.[0] as
+                | Address
+                | undefined;
+            const fromBlock = await createInvoiceClient(
+                agent
+            ).getBlockNumber();
+
+            let amount: string;
+            let lines: string[] = [];
+            let orderId: string | undefined;
+
+            if (requested) {
+                amount = requested.amount;
+            } else {
+                // Sin importe se factura el carrito como un pedido nuevo
+                const catalog = getProductCatalog(agent);
+                if (!catalog) {
+                    callback?.(
+                        {
+                            text: "El catálogo de productos no está disponible en este momento.",
+                        },
+                        []
+                    );
+                    return false;
+                }
+                const cart = await getCart(agent, userId, memory.roomId);
+                const cartQuote = quoteCart(catalog, cart, token);
+                const { quote, error } = cartQuote.quote
+                    ? await applyCartCoupon(agent, cart, cartQuote.quote)
+                    : cartQuote;
+                if (!quote) {
+                    callback?.(
+                        {
+                            text: `${error} También puedes pedir una factura por un importe, por ejemplo "factura de 25 AISHOP".`,
+                        },
+                        []
+                    );
+                    return false;
+                }
+                amount = quote.total;
+                lines = [
+                    ...formatOrderLines(quote.lines, token),
+                    ...formatQuoteDiscount(quote),
+                ];
+                orderId = (
+                    await createOrder(agent, {
+                        userId,
+                        roomId: memory.roomId,
+                        items: quote.lines,
+                        token,
+                        total: quote.total,
+                        merchant,
+                        coupon: quote.coupon,
+                    })
+                ).id;
+            }
+
+            let invoice: Invoice;
+            try {
+                invoice = await createInvoice(
+                    agent,
+                    {
+                        userId,
+                        roomId: memory.roomId,
+                        token,
+                        tokenAddress: isERC20Token(tokenConfig)
+                            ? tokenConfig.address
+                            : undefined,
+                        decimals: tokenConfig.decimals,
+                        amount,
+                        merchant,
+                        payer,
+                        orderId,
+                        fromBlock,
+                    },
+                    getInvoiceTtl(agent)
+                );
+            } catch (error) {
+                // Sin factura el pedido no se puede pagar: se cancela y
+                // libera el cupón
+                if (orderId) {
+                    await transitionOrder(agent, orderId, "cancelled", {
+                        cancelledAt: Date.now(),
+                    });
+                }
+                throw error;
+            }
+            const order = orderId
+                ? (
+                      await transitionOrder(
+                          agent,
+                          orderId,
+                          "awaiting_payment",
+                          { invoiceId: invoice.id }
+                      )
+                  ).order
+                : undefined;
+
+            callback?.(
+                {
+                    text: [
+                        `🧾 Factura ${invoice.id}${order ? ` · pedido ${order.id}` : ""}`,
+                        ...lines,
+                        "",
+                        `Importe: ${invoice.amount} ${invoice.token}`,
+                        `Pagar a: ${invoice.merchant} (${mantleSepoliaTestnet.name})`,
+                        `Expira: ${new Date(invoice.expiresAt).toISOString()}`,
+                        "",
+                        `Envía exactamente ${invoice.amount} ${invoice.token}: los decimales ${invoice.reference} identifican tu pago.${
+                            payer
+                                ? ` También reconoceré los pagos desde ${payer}.`
+                                : ""
+                        }`,
+                        "Escanea el QR o abre este enlace en tu wallet:",
+                        invoice.uri,
+                    ].join("\n"),
+                    invoice,
+                    order,
+                    uri: invoice.uri,
+                    qrPayload: invoice.uri,
+                },
+                []
+            );
+            return true;
+        } catch (error) {
+            console.error("Error al crear la factura:", error);
+            callback?.(
+                {
+                    text: `Error al crear la factura: ${
+                        error instanceof Error
+                            ? error.message
+                            : "Error desconocido"
+                    }`,
+                },
+                []
+            );
+            return false;
+        }
+    },
+    examples: [
+        [
+            {
+                user: "{{user1}}",
+                content: {
+                    text: "Quiero pagar mi carrito desde mi wallet externa, dame una factura en AISHOP",
+                },
+            },
+            {
+                user: "{{agentName}}",
+                content: {
+                    text: "Generando la factura de tu carrito...",
+                    action: "CREATE_INVOICE",
+                },
+            },
+        ],
+        [
+            {
+                user: "{{user1}}",
+                content: {
+                    text: "Create a payment request for 2.5 MNT",
+                },
+            },
+            {
+                user: "{{agentName}}",
+                content: {
+                    text: "Creating your payment request...",
+                    action: "CREATE_INVOICE",
+                },
+            },
+        ],
+    ] as ActionExample[][],
+};
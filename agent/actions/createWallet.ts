@@ -12,6 +12,11 @@ import { createWalletClient, http, formatEther, type Address } from "viem";
 import { privateKeyToAccount } from "viem/accounts";
 import { generatePrivateKey } from "viem/accounts";
 import { mantleSepoliaTestnet } from "../config/chains";
+import {
+    storeUserWallet,
+    isEncryptedWalletRecord,
+    type UserWalletData,
+} from "../services/keystore";
 
 export function generateId(): `${string}-${string}-${string}-${string}-${string}` {
     return "xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx".replace(
@@ -41,22 +46,16 @@ async function userHasWallet(
     }
 }
 
-// Función para guardar la wallet del usuario
+// Función para guardar la wallet del usuario. La clave privada se cifra con la
+// clave maestra (keystore v3) antes de llegar al cache.
 async function saveUserWallet(
     agent: IAgentRuntime,
     userId: string,
-    walletData: {
-        address: Address;
-        privateKey: string;
-        createdAt: number;
-    }
+    walletData: UserWalletData
 ): Promise<boolean> {
     try {
         // Guardar en la base de datos del agente
-        await agent.cacheManager.set(
-            `user_wallet:${userId}`,
-            JSON.stringify(walletData)
-        );
+        await storeUserWallet(agent, userId, walletData);
 
         // También registrar la dirección para búsqueda inversa (address -> userId)
         await agent.cacheManager.set(
@@ -71,11 +70,12 @@ async function saveUserWallet(
     }
 }
 
-// Función para obtener la wallet del usuario
+// Función para obtener la wallet del usuario. Solo devuelve datos públicos:
+// la clave privada se descifra únicamente en initUserWalletProvider.
 async function getUserWallet(
     agent: IAgentRuntime,
     userId: string
-): Promise<{ address: Address; privateKey: string } | null> {
+): Promise<{ address: Address; encrypted: boolean } | null> {
     try {
         const walletData = await agent.cacheManager.get(
             `user_wallet:${userId}`
@@ -88,7 +88,7 @@ async function getUserWallet(
                 : walletData;
         return {
             address: parsedData.address as Address,
-            privateKey: parsedData.privateKey,
+            encrypted: isEncryptedWalletRecord(parsedData),
         };
     } catch (error) {
         console.error("Error al obtener wallet de usuario:", error);
@@ -320,4 +320,4 @@ export const createWalletAction: Action = {
 };
 
 // Exportar funciones útiles para otras acciones
-export { userHasWallet, getUserWallet };
+export { userHasWallet, getUserWallet, saveUserWallet };
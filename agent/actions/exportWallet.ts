@@ -0,0 +1,239 @@
+import {
+    Action,
+    ActionExample,
+    HandlerCallback,
+    IAgentRuntime,
+    Memory,
+    State,
+} from "@elizaos/core";
+import { randomInt } from "crypto";
+
+import { getUserWallet } from "./createWallet";
+import { forgetSecretMessage } from "./importWallet";
+import { encryptPrivateKey, unlockUserWallet } from "../services/keystore";
+
+// Solicitud de exportación pendiente de confirmación
+interface PendingExport {
+    code: string;
+    roomId: string;
+    expiresAt: number;
+}
+
+const EXPORT_REQUEST_PREFIX = "wallet_export:";
+const EXPORT_REQUEST_TTL_MS = 5 * 60 * 1000;
+const MIN_PASSWORD_LENGTH = 8;
+
+function extractConfirmation(
+    text: string
+): { code: string; password?: string } | null {
+    const codeMatch = text.match(/\b(\d{6})\b/);
+    if (!codeMatch) return null;
+    const passwordMatch = text.match(
+        /(?:contraseña|contrasena|password)[:\s]+(\S+)/i
+    );
+    return { code: codeMatch[1], password: passwordMatch?.[1] };
+}
+
+function isConfirmation(text: string): boolean {
+    return (
+        text.includes("confirmar exportación") ||
+        text.includes("confirmar exportacion") ||
+        text.includes("confirm export")
+    );
+}
+
+export const exportWalletAction: Action = {
+    name: "EXPORT_WALLET",
+    similes: ["EXPORTAR_WALLET", "BACKUP_WALLET", "RESPALDAR_WALLET"],
+    description:
+        "Exporta la wallet del usuario como un keystore JSON cifrado con su propia contraseña, previa confirmación con un código",
+
+    validate: async (_agent: IAgentRuntime, memory: Memory, _state?: State) => {
+        const text = (memory.content?.text || "").toLowerCase();
+        return (
+            text.includes("exportar wallet") ||
+            text.includes("exportar mi wallet") ||
+            text.includes("export wallet") ||
+            text.includes("export my wallet") ||
+            text.includes("respaldar wallet") ||
+            isConfirmation(text)
+        );
+    },
+
+    handler: async (
+        agent: IAgentRuntime,
+        memory: Memory,
+        state?: State,
+        _options?: any,
+        callback?: HandlerCallback
+    ) => {
+        try {
+            // Obtener el userId desde memory o state
+            const userId = memory.userId || state?.userId;
+
+            if (!userId) {
+                callback?.(
+                    {
+                        text: "No se pudo identificar tu cuenta. Por favor inténtalo de nuevo o contacta a soporte.",
+                    },
+                    []
+                );
+                return false;
+            }
+
+            const wallet = await getUserWallet(agent, userId);
+            if (!wallet) {
+                callback?.(
+                    {
+                        text: "No tienes una wallet registrada. Puedes crear una con 'crear wallet' o importarla con 'importar wallet'.",
+                    },
+                    []
+                );
+                return false;
+            }
+
+            const text = memory.content?.text || "";
+            const requestKey = `${EXPORT_REQUEST_PREFIX}${userId}`;
+
+            // Paso 1: emitir un código de confirmación de un solo uso
+            if (!isConfirmation(text.toLowerCase())) {
+                const pending: PendingExport = {
+                    code: randomInt(0, 1_000_000).toString().padStart(6, "0"),
+                    roomId: memory.roomId,
+                    expiresAt: Date.now() + EXPORT_REQUEST_TTL_MS,
+                };
+                await agent.cacheManager.set(requestKey, pending, {
+                    expires: pending.expiresAt,
+                });
+
+                callback?.(
+                    {
+                        text: [
+                            `⚠️ Vas a exportar la wallet \`${wallet.address}\`.`,
+                            "",
+                            "Quien tenga el respaldo y su contraseña controlará tus fondos. Para continuar responde en los próximos 5 minutos con:",
+                            "",
+                            `confirmar exportación ${pending.code} contraseña: <contraseña de al menos ${MIN_PASSWORD_LENGTH} caracteres>`,
+                            "",
+                            "La contraseña cifrará el respaldo; no se guarda y no podremos recuperarla.",
+                        ].join("\n"),
+                    },
+                    []
+                );
+                return true;
+            }
+
+            // Paso 2: verificar el código y generar el keystore
+            const confirmation = extractConfirmation(text);
+            // El mensaje de confirmación incluye la contraseña del respaldo
+            await forgetSecretMessage(agent, memory);
+
+            const pending =
+                await agent.cacheManager.get<PendingExport>(requestKey);
+            if (
+                !pending ||
+                pending.expiresAt < Date.now() ||
+                pending.roomId !== memory.roomId ||
+                pending.code !== confirmation?.code
+            ) {
+                callback?.(
+                    {
+                        text: "El código de confirmación no es válido o expiró. Escribe 'exportar wallet' para solicitar uno nuevo.",
+                    },
+                    []
+                );
+                return false;
+            }
+
+            const password = confirmation.password;
+            if (!password || password.length < MIN_PASSWORD_LENGTH) {
+                callback?.(
+                    {
+                        text: `Incluye una contraseña de al menos ${MIN_PASSWORD_LENGTH} caracteres: confirmar exportación ${pending.code} contraseña: <contraseña>`,
+                    },
+                    []
+                );
+                return false;
+            }
+
+            // El código es de un solo uso
+            await agent.cacheManager.delete(requestKey);
+
+            const privateKey = await unlockUserWallet(agent, userId);
+            if (!privateKey) {
+                callback?.(
+                    {
+                        text: "No se pudo acceder a tu wallet. Por favor contacta a soporte.",
+                    },
+                    []
+                );
+                return false;
+            }
+
+            const keystore = await encryptPrivateKey(privateKey, password);
+
+            callback?.(
+                {
+                    text: [
+                        "🔐 Este es el respaldo cifrado de tu wallet (keystore v3):",
+                        "",
+                        "```json",
+                        JSON.stringify(keystore),
+                        "```",
+                        "",
+                        "Guárdalo junto con tu contraseña en un lugar seguro. Puedes importarlo en MetaMask u otra wallet, o usarlo con 'recuperar wallet'.",
+                    ].join("\n"),
+                    keystore,
+                },
+                []
+            );
+
+            return true;
+        } catch (error) {
+            console.error("Error al exportar wallet:", error);
+            callback?.(
+                {
+                    text: `Error al exportar wallet: ${
+                        error instanceof Error
+                            ? error.message
+                            : "Error desconocido"
+                    }`,
+                },
+                []
+            );
+            return false;
+        }
+    },
+    examples: [
+        [
+            {
+                user: "{{user1}}",
+                content: {
+                    text: "Exportar wallet",
+                },
+            },
+            {
+                user: "{{agentName}}",
+                content: {
+                    text: "Te enviaré un código de confirmación para exportar tu wallet...",
+                    action: "EXPORT_WALLET",
+                },
+            },
+        ],
+        [
+            {
+                user: "{{user1}}",
+                content: {
+                    text: "Confirmar exportación 482913 contraseña: respaldo-seguro-2024",
+                },
+            },
+            {
+                user: "{{agentName}}",
+                content: {
+                    text: "Generando el respaldo cifrado de tu wallet...",
+                    action: "EXPORT_WALLET",
+                },
+            },
+        ],
+    ] as ActionExample[][],
+};
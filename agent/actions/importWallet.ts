@@ -0,0 +1,214 @@
+import {
+    Action,
+    ActionExample,
+    HandlerCallback,
+    IAgentRuntime,
+    Memory,
+    State,
+} from "@elizaos/core";
+
+import {
+    userHasWallet,
+    getUserWallet,
+    saveUserWallet,
+    getUserIdByAddress,
+    generateId,
+} from "./createWallet";
+import { parseWalletSecret } from "../services/hdWallet";
+
+// Borra de la memoria del agente el mensaje que contiene la frase o la clave
+// privada, para que no quede guardado en el historial de la conversación
+export async function forgetSecretMessage(
+    agent: IAgentRuntime,
+    memory: Memory
+): Promise<void> {
+    if (!memory.id) return;
+    try {
+        await agent.messageManager.removeMemory(memory.id);
+    } catch (error) {
+        console.error("Error al eliminar el mensaje con secretos:", error);
+    }
+}
+
+export const importWalletAction: Action = {
+    name: "IMPORT_WALLET",
+    similes: ["IMPORTAR_WALLET", "IMPORT_PRIVATE_KEY", "IMPORT_MNEMONIC"],
+    description:
+        "Importa una wallet existente a partir de una frase semilla BIP-39 (con ruta de derivación opcional) o de una clave privada",
+
+    validate: async (_agent: IAgentRuntime, memory: Memory, _state?: State) => {
+        const text = (memory.content?.text || "").toLowerCase();
+        return (
+            text.includes("importar wallet") ||
+            text.includes("importar mi wallet") ||
+            text.includes("import wallet") ||
+            text.includes("import my wallet")
+        );
+    },
+
+    handler: async (
+        agent: IAgentRuntime,
+        memory: Memory,
+        state?: State,
+        _options?: any,
+        callback?: HandlerCallback
+    ) => {
+        try {
+            // Obtener el userId desde memory o state
+            const userId = memory.userId || state?.userId;
+
+            if (!userId) {
+                callback?.(
+                    {
+                        text: "No se pudo identificar tu cuenta. Por favor inténtalo de nuevo o contacta a soporte.",
+                    },
+                    []
+                );
+                return false;
+            }
+
+            const text = memory.content?.text || "";
+            const imported = parseWalletSecret(text);
+
+            // El mensaje puede contener secretos aunque no sean válidos
+            await forgetSecretMessage(agent, memory);
+
+            if (!imported) {
+                callback?.(
+                    {
+                        text: [
+                            "No encontré una frase semilla válida ni una clave privada en tu mensaje.",
+                            "",
+                            "Formatos aceptados:",
+                            "- importar wallet <12 o 24 palabras>",
+                            "- importar wallet <12 o 24 palabras> m/44'/60'/0'/0/1",
+                            "- importar wallet 0x<clave privada>",
+                        ].join("\n"),
+                    },
+                    []
+                );
+                return false;
+            }
+
+            // Un usuario con wallet debe usar la recuperación, que archiva la anterior
+            if (await userHasWallet(agent, userId)) {
+                const wallet = await getUserWallet(agent, userId);
+                callback?.(
+                    {
+                        text: `Ya tienes una wallet registrada (\`${wallet?.address}\`). Si quieres reemplazarla por la wallet importada usa "recuperar wallet" con la misma frase o clave.`,
+                    },
+                    []
+                );
+                return false;
+            }
+
+            // Evitar que dos usuarios compartan la misma dirección
+            const owner = await getUserIdByAddress(agent, imported.address);
+            if (owner && owner !== userId) {
+                callback?.(
+                    {
+                        text: "Esta wallet ya está asociada a otra cuenta y no puede importarse.",
+                    },
+                    []
+                );
+                return false;
+            }
+
+            const createdAt = Date.now();
+            const saved = await saveUserWallet(agent, userId, {
+                address: imported.address,
+                privateKey: imported.privateKey,
+                createdAt,
+                derivationPath: imported.derivationPath,
+            });
+
+            if (!saved) {
+                callback?.(
+                    {
+                        text: "Hubo un problema al guardar tu wallet. Por favor inténtalo de nuevo más tarde.",
+                    },
+                    []
+                );
+                return false;
+            }
+
+            await agent.documentsManager.createMemory({
+                id: generateId(),
+                userId: userId,
+                agentId: memory.agentId,
+                content: {
+                    text: `Se ha importado una wallet para el usuario: ${imported.address}`,
+                    action: "IMPORT_WALLET",
+                    walletAddress: imported.address,
+                    derivationPath: imported.derivationPath,
+                    createdAt,
+                },
+                roomId: memory.roomId,
+            });
+
+            callback?.(
+                {
+                    text: [
+                        "✅ ¡Tu wallet ha sido importada con éxito!",
+                        "",
+                        "Tu dirección pública es:",
+                        `\`${imported.address}\``,
+                        ...(imported.derivationPath
+                            ? [`Ruta de derivación: ${imported.derivationPath}`]
+                            : []),
+                        "",
+                        "Tu clave quedó cifrada y el mensaje con tu frase o clave privada fue eliminado del historial.",
+                    ].join("\n"),
+                },
+                []
+            );
+
+            return true;
+        } catch (error) {
+            console.error("Error al importar wallet:", error);
+            callback?.(
+                {
+                    text: `Error al importar wallet: ${
+                        error instanceof Error
+                            ? error.message
+                            : "Error desconocido"
+                    }`,
+                },
+                []
+            );
+            return false;
+        }
+    },
+    examples: [
+        [
+            {
+                user: "{{user1}}",
+                content: {
+                    text: "Importar wallet test test test test test test test test test test test junk",
+                },
+            },
+            {
+                user: "{{agentName}}",
+                content: {
+                    text: "Importando tu wallet...",
+                    action: "IMPORT_WALLET",
+                },
+            },
+        ],
+        [
+            {
+                user: "{{user1}}",
+                content: {
+                    text: "Import wallet 0x59c6995e998f97a5a0044966f0945389dc9e86dae88c7a8412f4603b6b78690d",
+                },
+            },
+            {
+                user: "{{agentName}}",
+                content: {
+                    text: "Importando tu wallet a partir de la clave privada...",
+                    action: "IMPORT_WALLET",
+                },
+            },
+        ],
+    ] as ActionExample[][],
+};
@@ -0,0 +1,116 @@
+import {
+    Action,
+    ActionExample,
+    HandlerCallback,
+    IAgentRuntime,
+    Memory,
+    State,
+} from "@elizaos/core";
+import { formatInvoiceStatus, getInvoice } from "../services/invoices";
+
+const INVOICE_ID_REGEX = /\bINV-[A-Z0-9]{8}\b/i;
+
+export const invoiceStatusAction: Action = {
+    name: "INVOICE_STATUS",
+    similes: ["ESTADO_FACTURA", "CHECK_INVOICE", "PAYMENT_STATUS"],
+    description:
+        "Muestra el estado de una factura (INV-...) y los pagos recibidos para ella",
+
+    validate: async (_agent: IAgentRuntime, memory: Memory, _state?: State) =>
+        INVOICE_ID_REGEX.test(memory.content?.text || ""),
+
+    handler: async (
+        agent: IAgentRuntime,
+        memory: Memory,
+        state?: State,
+        _options?: any,
+        callback?: HandlerCallback
+    ) => {
+        try {
+            // Obtener el userId desde memory o state
+            const userId = memory.userId || state?.userId;
+
+            if (!userId) {
+                callback?.(
+                    {
+                        text: "No se pudo identificar tu cuenta. Por favor inténtalo de nuevo o contacta a soporte.",
+                    },
+                    []
+                );
+                return false;
+            }
+
+            const id = (memory.content?.text || "").match(
+                INVOICE_ID_REGEX
+            )?.[0];
+            const invoice = id ? await getInvoice(agent, id) : null;
+            // Solo quien pidió la factura puede consultarla
+            if (!invoice || invoice.userId !== userId) {
+                callback?.(
+                    {
+                        text: `No encontré la factura ${id?.toUpperCase()}.`,
+                    },
+                    []
+                );
+                return false;
+            }
+
+            callback?.(
+                {
+                    text: [
+                        `🧾 Factura ${invoice.id}: ${formatInvoiceStatus(invoice)}`,
+                        `Importe: ${invoice.amount} ${invoice.token}`,
+                        `Recibido: ${invoice.paid} ${invoice.token}`,
+                        ...(invoice.orderId
+                            ? [`Pedido: ${invoice.orderId}`]
+                            : []),
+                        ...invoice.payments.map(
+                            (payment) =>
+                                `• ${payment.amount} ${invoice.token} desde ${payment.from} (${payment.hash})`
+                        ),
+                        ...(invoice.status === "open" ||
+                        invoice.status === "partially_paid"
+                            ? [
+                                  `Expira: ${new Date(invoice.expiresAt).toISOString()}`,
+                                  invoice.uri,
+                              ]
+                            : []),
+                    ].join("\n"),
+                    invoice,
+                },
+                []
+            );
+            return true;
+        } catch (error) {
+            console.error("Error al consultar la factura:", error);
+            callback?.(
+                {
+                    text: `Error al consultar la factura: ${
+                        error instanceof Error
+                            ? error.message
+                            : "Error desconocido"
+                    }`,
+                },
+                []
+            );
+            return false;
+        }
+    },
+    examples: [
+        [
+            {
+                user: "{{user1}}",
+                content: {
+                    text: "¿Ya llegó el pago de la factura INV-K7QX2MAB?",
+                },
+            },
+            {
+                user: "{{agentName}}",
+                content: {
+                    text: "Consultando la factura...",
+                    action: "INVOICE_STATUS",
+                },
+            },
+        ],
+    ] as ActionExample[][],
+};
@@ -0,0 +1,142 @@
+import {
+    Action,
+    ActionExample,
+    HandlerCallback,
+    IAgentRuntime,
+    Memory,
+    State,
+} from "@elizaos/core";
+import type { Address } from "viem";
+import { getUserIdByAddress } from "./createWallet";
+
+export const listContactsAction: Action = {
+    name: "LIST_CONTACTS",
+    similes: ["MY_CONTACTS", "MIS_CONTACTOS", "SHOW_CONTACTS"],
+    description: "Muestra la libreta de contactos del usuario",
+
+    validate: async (_agent: IAgentRuntime, memory: Memory, _state?: State) => {
+        const text = (memory.content?.text || "").toLowerCase();
+        return (
+            text.includes("mis contactos") ||
+            text.includes("lista de contactos") ||
+            text.includes("listar contactos") ||
+            text.includes("ver contactos") ||
+            text.includes("my contacts") ||
+            text.includes("list contacts") ||
+            text.includes("show contacts")
+        );
+    },
+
+    handler: async (
+        agent: IAgentRuntime,
+        memory: Memory,
+        state?: State,
+        _options?: any,
+        callback?: HandlerCallback
+    ) => {
+        try {
+            // Obtener el userId desde memory o state
+            const userId = memory.userId || state?.userId;
+
+            if (!userId) {
+                callback?.(
+                    {
+                        text: "No se pudo identificar tu cuenta. Por favor inténtalo de nuevo o contacta a soporte.",
+                    },
+                    []
+                );
+                return false;
+            }
+
+            const contacts = await agent.databaseAdapter.getContacts({
+                agentId: agent.agentId,
+                userId,
+            });
+
+            if (contacts.length === 0) {
+                callback?.(
+                    {
+                        text: 'Todavía no tienes contactos. Agrega uno con "agregar contacto Maria 0x1234...".',
+                    },
+                    []
+                );
+                return true;
+            }
+
+            // La búsqueda inversa marca también las wallets de la tienda
+            // creadas después de guardar el contacto
+            const lines = await Promise.all(
+                contacts.map(async (contact) => {
+                    const owner =
+                        contact.contactUserId ??
+                        (await getUserIdByAddress(
+                            agent,
+                            contact.address as Address
+                        ));
+                    return `• ${contact.name}: ${contact.address}${
+                        owner ? " (usuario de la tienda)" : ""
+                    }`;
+                })
+            );
+
+            callback?.(
+                {
+                    text: [
+                        `📒 Tus contactos (${contacts.length}):`,
+                        "",
+                        ...lines,
+                    ].join("\n"),
+                    contacts,
+                },
+                []
+            );
+
+            return true;
+        } catch (error) {
+            console.error("Error al obtener contactos:", error);
+            callback?.(
+                {
+                    text: `Error al obtener contactos: ${
+                        error instanceof Error
+                            ? error.message
+                            : "Error desconocido"
+                    }`,
+                },
+                []
+            );
+            return false;
+        }
+    },
+    examples: [
+        [
+            {
+                user: "{{user1}}",
+                content: {
+                    text: "Muéstrame mis contactos",
+                },
+            },
+            {
+                user: "{{agentName}}",
+                content: {
+                    text: "Aquí está tu libreta de contactos...",
+                    action: "LIST_CONTACTS",
+                },
+            },
+        ],
+        [
+            {
+                user: "{{user1}}",
+                content: {
+                    text: "Show my contacts",
+                },
+            },
+            {
+                user: "{{agentName}}",
+                content: {
+                    text: "Estos son tus contactos guardados...",
+                    action: "LIST_CONTACTS",
+                },
+            },
+        ],
+    ] as ActionExample[][],
+};
@@ -0,0 +1,132 @@
+import {
+    Action,
+    ActionExample,
+    HandlerCallback,
+    IAgentRuntime,
+    Memory,
+    State,
+} from "@elizaos/core";
+import {
+    formatOrderSummary,
+    listOrders,
+    ORDER_ID_REGEX,
+} from "../services/orders";
+
+const MY_ORDERS_REGEX =
+    /\b(mis pedidos|mis compras|mis [oó]rdenes|historial de pedidos|my orders|my purchases|order history)\b/i;
+// Se muestran los más recientes para no saturar el chat
+const MAX_LISTED_ORDERS = 10;
+
+export const myOrdersAction: Action = {
+    name: "MY_ORDERS",
+    similes: ["MIS_PEDIDOS", "LIST_ORDERS", "ORDER_HISTORY"],
+    description:
+        "Lista los pedidos del usuario con su total, moneda y estado (creado, esperando pago, pagado, entregado, cancelado o reembolsado)",
+
+    validate: async (_agent: IAgentRuntime, memory: Memory, _state?: State) => {
+        const text = memory.content?.text || "";
+        return MY_ORDERS_REGEX.test(text) && !ORDER_ID_REGEX.test(text);
+    },
+
+    handler: async (
+        agent: IAgentRuntime,
+        memory: Memory,
+        state?: State,
+        _options?: any,
+        callback?: HandlerCallback
+    ) => {
+        try {
+            // Obtener el userId desde memory o state
+            const userId = memory.userId || state?.userId;
+
+            if (!userId) {
+                callback?.(
+                    {
+                        text: "No se pudo identificar tu cuenta. Por favor inténtalo de nuevo o contacta a soporte.",
+                    },
+                    []
+                );
+                return false;
+            }
+
+            const orders = await listOrders(agent, { userId });
+            if (orders.length === 0) {
+                callback?.(
+                    {
+                        text: "Todavía no tienes pedidos. Añade productos al carrito y págalo para crear uno.",
+                        orders,
+                    },
+                    []
+                );
+                return true;
+            }
+
+            const listed = orders.slice(0, MAX_LISTED_ORDERS);
+            callback?.(
+                {
+                    text: [
+                        `🧾 Tus pedidos (${orders.length}):`,
+                        ...listed.map(
+                            (order) => `• ${formatOrderSummary(order)}`
+                        ),
+                        ...(orders.length > listed.length
+                            ? [
+                                  `...y ${orders.length - listed.length} más antiguos.`,
+                              ]
+                            : []),
+                        "",
+                        "Pregúntame por un pedido (ORD-...) para ver su detalle.",
+                    ].join("\n"),
+                    orders: listed,
+                },
+                []
+            );
+            return true;
+        } catch (error) {
+            console.error("Error al listar los pedidos:", error);
+            callback?.(
+                {
+                    text: `Error al listar los pedidos: ${
+                        error instanceof Error
+                            ? error.message
+                            : "Error desconocido"
+                    }`,
+                },
+                []
+            );
+            return false;
+        }
+    },
+    examples: [
+        [
+            {
+                user: "{{user1}}",
+                content: {
+                    text: "Muéstrame mis pedidos",
+                },
+            },
+            {
+                user: "{{agentName}}",
+                content: {
+                    text: "Buscando tus pedidos...",
+                    action: "MY_ORDERS",
+                },
+            },
+        ],
+        [
+            {
+                user: "{{user1}}",
+                content: {
+                    text: "Show my order history",
+                },
+            },
+            {
+                user: "{{agentName}}",
+                content: {
+                    text: "Here are your orders...",
+                    action: "MY_ORDERS",
+                },
+            },
+        ],
+    ] as ActionExample[][],
+};
@@ -0,0 +1,168 @@
+import {
+    Action,
+    ActionExample,
+    HandlerCallback,
+    IAgentRuntime,
+    Memory,
+    State,
+} from "@elizaos/core";
+import { formatUnits, parseUnits } from "viem";
+import {
+    CASHBACK_TOKEN,
+    formatCoupon,
+    getAvailableCoupons,
+    getCashbackHistory,
+    getLoyalty,
+} from "../services/promotions";
+
+const REWARDS_REGEX =
+    /\b(recompensas?|cashback|puntos|fidelidad|mis cupones|cupones disponibles|promociones|rewards?|loyalty|my coupons|promotions)\b/i;
+const APPLY_REGEX =
+    /\b(aplica|aplicar|usa|usar|canjea|canjear|apply|use|redeem)\b/i;
+
+export const myRewardsAction: Action = {
+    name: "MY_REWARDS",
+    similes: ["MIS_RECOMPENSAS", "CASHBACK", "LOYALTY", "AVAILABLE_COUPONS"],
+    description:
+        "Muestra el cashback en AISHOP que el usuario ha recibido por sus compras, el programa de fidelidad y los cupones que todavía puede usar",
+
+    validate: async (_agent: IAgentRuntime, memory: Memory, _state?: State) => {
+        const text = memory.content?.text || "";
+        return REWARDS_REGEX.test(text) && !APPLY_REGEX.test(text);
+    },
+
+    handler: async (
+        agent: IAgentRuntime,
+        memory: Memory,
+        state?: State,
+        _options?: any,
+        callback?: HandlerCallback
+    ) => {
+        try {
+            // Obtener el userId desde memory o state
+            const userId = memory.userId || state?.userId;
+
+            if (!userId) {
+                callback?.(
+                    {
+                        text: "No se pudo identificar tu cuenta. Por favor inténtalo de nuevo o contacta a soporte.",
+                    },
+                    []
+                );
+                return false;
+            }
+
+            const history = await getCashbackHistory(agent, userId);
+            const earned = history
+                .filter((entry) => entry.status === "sent")
+                .reduce(
+                    (sum, entry) => sum + parseUnits(entry.amount, 18),
+                    0n
+                );
+
+            const coupons = await getAvailableCoupons(agent, userId);
+
+            const loyalty = getLoyalty(agent);
+            callback?.(
+                {
+                    text: [
+                        `🎁 Cashback recibido: ${formatUnits(earned, 18)} ${CASHBACK_TOKEN}`,
+                        ...history
+                            .slice(-10)
+                            .reverse()
+                            .map(
+                                (entry) =>
+                                    `• ${entry.amount} ${CASHBACK_TOKEN} · pedido ${entry.orderId} · ${
+                                        entry.status === "sent"
+                                            ? "enviado"
+                                            : entry.status === "pending"
+                                              ? "enviándose"
+                                              : "pendiente de revisión por la tienda"
+                                    }`
+                            ),
+                        "",
+                        loyalty
+                            ? `Programa de fidelidad: recibes un ${loyalty.cashbackPercent}% en ${CASHBACK_TOKEN} por cada pedido pagado en ${CASHBACK_TOKEN}${
+                                  loyalty.maxCashbackPerOrder
+                                      ? ` (máximo ${loyalty.maxCashbackPerOrder} ${CASHBACK_TOKEN} por pedido)`
+                                      : ""
+                              }.`
+                            : "El programa de fidelidad no está activo en este momento.",
+                        "",
+                        ...(coupons.length > 0
+                            ? [
+                                  "🏷️ Cupones disponibles:",
+                                  ...coupons.map(
+                                      (coupon) =>
+                                          `• ${formatCoupon(coupon)}${
+                                              coupon.remainingUses !== undefined
+                                                  ? ` (te quedan ${coupon.remainingUses} usos)`
+                                                  : ""
+                                          }`
+                                  ),
+                                  'Di "aplica el cupón <CÓDIGO>" para usarlo en tu carrito.',
+                              ]
+                            : ["No hay cupones disponibles para ti ahora mismo."]),
+                    ].join("\n"),
+                    cashback: history,
+                    earned: formatUnits(earned, 18),
+                    coupons: coupons.map((coupon) => ({
+                        code: coupon.code.toUpperCase(),
+                        type: coupon.type,
+                        value: coupon.value,
+                        token: coupon.token,
+                        expiresAt: coupon.expiresAt,
+                        remainingUses: coupon.remainingUses,
+                    })),
+                },
+                []
+            );
+            return true;
+        } catch (error) {
+            console.error("Error al consultar las recompensas:", error);
+            callback?.(
+                {
+                    text: `Error al consultar las recompensas: ${
+                        error instanceof Error
+                            ? error.message
+                            : "Error desconocido"
+                    }`,
+                },
+                []
+            );
+            return false;
+        }
+    },
+    examples: [
+        [
+            {
+                user: "{{user1}}",
+                content: {
+                    text: "¿Cuánto cashback llevo? ¿Tengo cupones?",
+                },
+            },
+            {
+                user: "{{agentName}}",
+                content: {
+                    text: "Consultando tus recompensas...",
+                    action: "MY_REWARDS",
+                },
+            },
+        ],
+        [
+            {
+                user: "{{user1}}",
+                content: {
+                    text: "Show my rewards",
+                },
+            },
+            {
+                user: "{{agentName}}",
+                content: {
+                    text: "Here are your rewards...",
+                    action: "MY_REWARDS",
+                },
+            },
+        ],
+    ] as ActionExample[][],
+};
@@ -0,0 +1,136 @@
+import {
+    Action,
+    ActionExample,
+    HandlerCallback,
+    IAgentRuntime,
+    Memory,
+    State,
+} from "@elizaos/core";
+import { formatOrderLines } from "../services/cart";
+import {
+    getOrder,
+    ORDER_ID_REGEX,
+    ORDER_STATUS_LABELS,
+    type Order,
+} from "../services/orders";
+import { REFUND_REGEX } from "./requestRefund";
+
+const TX_URL = "https://sepolia.mantlescan.xyz/tx/";
+
+function formatDate(timestamp: number): string {
+    return new Date(timestamp).toISOString();
+}
+
+export function formatOrderDetails(order: Order): string {
+    return [
+        `🧾 Pedido ${order.id}: ${ORDER_STATUS_LABELS[order.status]}`,
+        ...formatOrderLines(order.items, order.token),
+        `Total: ${order.total} ${order.token}`,
+        `Creado: ${formatDate(order.createdAt)}`,
+        ...(order.invoiceId ? [`Factura: ${order.invoiceId}`] : []),
+        ...(order.paidAt
+            ? [`Pagado: ${formatDate(order.paidAt)} (${TX_URL}${order.txHash})`]
+            : []),
+        ...(order.fulfilledAt
+            ? [`Entregado: ${formatDate(order.fulfilledAt)}`]
+            : []),
+        ...(order.cancelledAt
+            ? [`Cancelado: ${formatDate(order.cancelledAt)}`]
+            : []),
+        ...(order.refundRequest && order.status !== "refunded"
+            ? [
+                  `Reembolso solicitado: ${formatDate(order.refundRequest.requestedAt)}${
+                      order.refundRequest.reason
+                          ? ` (${order.refundRequest.reason})`
+                          : ""
+                  }`,
+              ]
+            : []),
+        ...(order.refund?.refundedAt
+            ? [
+                  `Reembolsado: ${order.refund.amount} ${order.token} a ${order.refund.to} (${TX_URL}${order.refund.txHash})`,
+              ]
+            : []),
+    ].join("\n");
+}
+
+export const orderStatusAction: Action = {
+    name: "ORDER_STATUS",
+    similes: ["ESTADO_PEDIDO", "TRACK_ORDER", "ORDER_DETAILS"],
+    description:
+        "Muestra el detalle y el estado de un pedido (ORD-...): productos, pago, entrega y reembolso",
+
+    validate: async (_agent: IAgentRuntime, memory: Memory, _state?: State) => {
+        const text = memory.content?.text || "";
+        return ORDER_ID_REGEX.test(text) && !REFUND_REGEX.test(text);
+    },
+
+    handler: async (
+        agent: IAgentRuntime,
+        memory: Memory,
+        state?: State,
+        _options?: any,
+        callback?: HandlerCallback
+    ) => {
+        try {
+            // Obtener el userId desde memory o state
+            const userId = memory.userId || state?.userId;
+
+            if (!userId) {
+                callback?.(
+                    {
+                        text: "No se pudo identificar tu cuenta. Por favor inténtalo de nuevo o contacta a soporte.",
+                    },
+                    []
+                );
+                return false;
+            }
+
+            const id = (memory.content?.text || "").match(ORDER_ID_REGEX)?.[0];
+            const order = id ? await getOrder(agent, id) : null;
+            // Solo el cliente que hizo el pedido puede consultarlo
+            if (!order || order.userId !== userId) {
+                callback?.(
+                    {
+                        text: `No encontré el pedido ${id?.toUpperCase()}.`,
+                    },
+                    []
+                );
+                return false;
+            }
+
+            callback?.({ text: formatOrderDetails(order), order }, []);
+            return true;
+        } catch (error) {
+            console.error("Error al consultar el pedido:", error);
+            callback?.(
+                {
+                    text: `Error al consultar el pedido: ${
+                        error instanceof Error
+                            ? error.message
+                            : "Error desconocido"
+                    }`,
+                },
+                []
+            );
+            return false;
+        }
+    },
+    examples: [
+        [
+            {
+                user: "{{user1}}",
+                content: {
+                    text: "¿Cómo va mi pedido ORD-K7QX2MAB?",
+                },
+            },
+            {
+                user: "{{agentName}}",
+                content: {
+                    text: "Consultando el pedido...",
+                    action: "ORDER_STATUS",
+                },
+            },
+        ],
+    ] as ActionExample[][],
+};
@@ -0,0 +1,155 @@
+import {
+    Action,
+    ActionExample,
+    HandlerCallback,
+    IAgentRuntime,
+    Memory,
+    State,
+} from "@elizaos/core";
+import {
+    formatProductPrice,
+    getProductCatalog,
+    parseProductQuery,
+    type Product,
+    type ProductCatalogService,
+} from "../services/catalog";
+import { toProductContent } from "./searchProducts";
+
+const DETAILS_REGEX =
+    /\b(sku|detalles?|informaci[oó]n|info|cu[aá]nto cuesta|precio de|details?|price of|tell me about)\b/i;
+
+// El producto se elige por SKU; si no se menciona ninguno, por la mejor
+// coincidencia del texto con el catálogo
+export function findRequestedProduct(
+    catalog: ProductCatalogService,
+    text: string
+): Product | undefined {
+    const upper = text.toUpperCase();
+    const bySku = catalog
+        .getProducts()
+        .find((product) =>
+            new RegExp(
+                `(^|[^A-Z0-9-])${product.sku.toUpperCase().replace(/[.*+?^${}()|[\]\\]/g, "\\$&")}([^A-Z0-9-]|$)`
+            ).test(upper)
+        );
+    if (bySku) return bySku;
+
+    const query = parseProductQuery(text.replace(DETAILS_REGEX, " "));
+    if (!query.query) return undefined;
+    return catalog.search({ query: query.query, limit: 1 })[0]?.product;
+}
+
+export const productDetailsAction: Action = {
+    name: "PRODUCT_DETAILS",
+    similes: ["DETALLES_PRODUCTO", "PRODUCT_INFO", "SHOW_PRODUCT"],
+    description:
+        "Muestra la ficha de un producto del catálogo: descripción, precio en AISHOP o MNT, stock, imágenes y categorías",
+
+    validate: async (_agent: IAgentRuntime, memory: Memory, _state?: State) =>
+        DETAILS_REGEX.test(memory.content?.text || ""),
+
+    handler: async (
+        agent: IAgentRuntime,
+        memory: Memory,
+        _state?: State,
+        _options?: any,
+        callback?: HandlerCallback
+    ) => {
+        try {
+            const catalog = getProductCatalog(agent);
+            if (!catalog) {
+                callback?.(
+                    {
+                        text: "El catálogo de productos no está disponible en este momento.",
+                    },
+                    []
+                );
+                return false;
+            }
+
+            const product = findRequestedProduct(
+                catalog,
+                memory.content?.text || ""
+            );
+            if (!product) {
+                callback?.(
+                    {
+                        text: 'No encontré ese producto. Indica su SKU, por ejemplo: "detalles del SKU TSHIRT-001".',
+                    },
+                    []
+                );
+                return false;
+            }
+
+            callback?.(
+                {
+                    text: [
+                        `🛍️ ${product.title} (SKU ${product.sku})`,
+                        ...(product.description ? [product.description] : []),
+                        "",
+                        `Precio: ${formatProductPrice(product)}`,
+                        `Stock: ${
+                            product.stock > 0
+                                ? `${product.stock} unidades`
+                                : "agotado"
+                        }`,
+                        ...(product.categories.length > 0
+                            ? [`Categorías: ${product.categories.join(", ")}`]
+                            : []),
+                        ...(product.images.length > 0
+                            ? ["Imágenes:", ...product.images]
+                            : []),
+                    ].join("\n"),
+                    product: toProductContent(product),
+                },
+                []
+            );
+            return true;
+        } catch (error) {
+            console.error("Error al obtener el producto:", error);
+            callback?.(
+                {
+                    text: `Error al obtener el producto: ${
+                        error instanceof Error
+                            ? error.message
+                            : "Error desconocido"
+                    }`,
+                },
+                []
+            );
+            return false;
+        }
+    },
+    examples: [
+        [
+            {
+                user: "{{user1}}",
+                content: {
+                    text: "Detalles del SKU TSHIRT-001",
+                },
+            },
+            {
+                user: "{{agentName}}",
+                content: {
+                    text: "Buscando la ficha del producto...",
+                    action: "PRODUCT_DETAILS",
+                },
+            },
+        ],
+        [
+            {
+                user: "{{user1}}",
+                content: {
+                    text: "Tell me about the Mantle hoodie",
+                },
+            },
+            {
+                user: "{{agentName}}",
+                content: {
+                    text: "Looking up the Mantle hoodie...",
+                    action: "PRODUCT_DETAILS",
+                },
+            },
+        ],
+    ] as ActionExample[][],
+};
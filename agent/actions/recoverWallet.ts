@@ -0,0 +1,252 @@
+import {
+    Action,
+    ActionExample,
+    HandlerCallback,
+    IAgentRuntime,
+    Memory,
+    State,
+} from "@elizaos/core";
+
+import {
+    getUserWallet,
+    saveUserWallet,
+    getUserIdByAddress,
+    generateId,
+} from "./createWallet";
+import { forgetSecretMessage } from "./importWallet";
+import { parseWalletSecret, type DerivedWallet } from "../services/hdWallet";
+import {
+    archiveUserWallet,
+    decryptKeystore,
+    type KeystoreV3,
+} from "../services/keystore";
+import { privateKeyToAccount } from "viem/accounts";
+
+// Extrae un keystore v3 exportado (JSON) y su contraseña del mensaje
+async function parseKeystoreBackup(text: string): Promise<DerivedWallet | null> {
+    const jsonStart = text.indexOf("{");
+    const jsonEnd = text.lastIndexOf("}");
+    if (jsonStart === -1 || jsonEnd <= jsonStart) return null;
+
+    let keystore: KeystoreV3;
+    try {
+        keystore = JSON.parse(text.slice(jsonStart, jsonEnd + 1));
+    } catch {
+        return null;
+    }
+    if (keystore?.version !== 3 || !keystore.crypto) return null;
+
+    const passwordMatch = text.match(
+        /(?:contraseña|contrasena|password)[:\s]+(\S+)/i
+    );
+    if (!passwordMatch) {
+        throw new Error(
+            "Incluye la contraseña del respaldo, por ejemplo: contraseña: <tu contraseña>"
+        );
+    }
+
+    const privateKey = await decryptKeystore(
+        keystore,
+        passwordMatch[1],
+        "La contraseña del respaldo no es correcta o el keystore está dañado."
+    );
+    return {
+        address: privateKeyToAccount(privateKey).address,
+        privateKey,
+    };
+}
+
+export const recoverWalletAction: Action = {
+    name: "RECOVER_WALLET",
+    similes: ["RESTORE_WALLET", "RECUPERAR_WALLET", "RESTAURAR_WALLET"],
+    description:
+        "Recupera el acceso a una wallet desde una frase semilla BIP-39 o un respaldo keystore exportado; la wallet actual se archiva",
+
+    validate: async (_agent: IAgentRuntime, memory: Memory, _state?: State) => {
+        const text = (memory.content?.text || "").toLowerCase();
+        return (
+            text.includes("recuperar wallet") ||
+            text.includes("restaurar wallet") ||
+            text.includes("recover wallet") ||
+            text.includes("restore wallet")
+        );
+    },
+
+    handler: async (
+        agent: IAgentRuntime,
+        memory: Memory,
+        state?: State,
+        _options?: any,
+        callback?: HandlerCallback
+    ) => {
+        try {
+            // Obtener el userId desde memory o state
+            const userId = memory.userId || state?.userId;
+
+            if (!userId) {
+                callback?.(
+                    {
+                        text: "No se pudo identificar tu cuenta. Por favor inténtalo de nuevo o contacta a soporte.",
+                    },
+                    []
+                );
+                return false;
+            }
+
+            const text = memory.content?.text || "";
+            let recovered: DerivedWallet | null;
+            try {
+                recovered =
+                    (await parseKeystoreBackup(text)) ??
+                    parseWalletSecret(text);
+            } finally {
+                await forgetSecretMessage(agent, memory);
+            }
+
+            if (!recovered) {
+                callback?.(
+                    {
+                        text: [
+                            "No encontré datos de recuperación válidos en tu mensaje.",
+                            "",
+                            "Puedes recuperar tu wallet con:",
+                            "- recuperar wallet <12 o 24 palabras> [ruta m/44'/60'/0'/0/N]",
+                            "- recuperar wallet <JSON del respaldo exportado> contraseña: <contraseña>",
+                        ].join("\n"),
+                    },
+                    []
+                );
+                return false;
+            }
+
+            const owner = await getUserIdByAddress(agent, recovered.address);
+            if (owner && owner !== userId) {
+                callback?.(
+                    {
+                        text: "Esta wallet ya está asociada a otra cuenta y no puede recuperarse aquí.",
+                    },
+                    []
+                );
+                return false;
+            }
+
+            const current = await getUserWallet(agent, userId);
+            if (current?.address === recovered.address) {
+                callback?.(
+                    {
+                        text: `Tu wallet \`${recovered.address}\` ya está activa. No fue necesario recuperarla.`,
+                    },
+                    []
+                );
+                return true;
+            }
+
+            // Archivar la wallet anterior antes de reemplazarla
+            const previousAddress = await archiveUserWallet(agent, userId);
+            if (previousAddress) {
+                await agent.cacheManager.delete(
+                    `address_to_user:${previousAddress}`
+                );
+            }
+
+            const createdAt = Date.now();
+            const saved = await saveUserWallet(agent, userId, {
+                address: recovered.address,
+                privateKey: recovered.privateKey,
+                createdAt,
+                derivationPath: recovered.derivationPath,
+            });
+
+            if (!saved) {
+                callback?.(
+                    {
+                        text: "Hubo un problema al guardar tu wallet recuperada. Por favor inténtalo de nuevo más tarde.",
+                    },
+                    []
+                );
+                return false;
+            }
+
+            await agent.documentsManager.createMemory({
+                id: generateId(),
+                userId: userId,
+                agentId: memory.agentId,
+                content: {
+                    text: `Se ha recuperado la wallet del usuario: ${recovered.address}`,
+                    action: "RECOVER_WALLET",
+                    walletAddress: recovered.address,
+                    previousAddress,
+                    createdAt,
+                },
+                roomId: memory.roomId,
+            });
+
+            callback?.(
+                {
+                    text: [
+                        "✅ Tu wallet ha sido recuperada.",
+                        "",
+                        "Dirección activa:",
+                        `\`${recovered.address}\``,
+                        ...(previousAddress
+                            ? [
+                                  "",
+                                  `Tu wallet anterior (\`${previousAddress}\`) quedó archivada y cifrada; contacta a soporte si necesitas acceder a ella.`,
+                              ]
+                            : []),
+                        "",
+                        "El mensaje con tus datos de recuperación fue eliminado del historial.",
+                    ].join("\n"),
+                },
+                []
+            );
+
+            return true;
+        } catch (error) {
+            console.error("Error al recuperar wallet:", error);
+            callback?.(
+                {
+                    text: `Error al recuperar wallet: ${
+                        error instanceof Error
+                            ? error.message
+                            : "Error desconocido"
+                    }`,
+                },
+                []
+            );
+            return false;
+        }
+    },
+    examples: [
+        [
+            {
+                user: "{{user1}}",
+                content: {
+                    text: "Recuperar wallet test test test test test test test test test test test junk",
+                },
+            },
+            {
+                user: "{{agentName}}",
+                content: {
+                    text: "Recuperando tu wallet a partir de la frase semilla...",
+                    action: "RECOVER_WALLET",
+                },
+            },
+        ],
+        [
+            {
+                user: "{{user1}}",
+                content: {
+                    text: 'Restore wallet {"version":3,"crypto":{...}} password: mi-respaldo-seguro',
+                },
+            },
+            {
+                user: "{{agentName}}",
+                content: {
+                    text: "Restaurando tu wallet desde el respaldo cifrado...",
+                    action: "RECOVER_WALLET",
+                },
+            },
+        ],
+    ] as ActionExample[][],
+};
@@ -0,0 +1,119 @@
+import {
+    Action,
+    ActionExample,
+    HandlerCallback,
+    IAgentRuntime,
+    Memory,
+    State,
+} from "@elizaos/core";
+import { extractContactName } from "../services/contacts";
+
+const REMOVE_VERBS_REGEX =
+    /\b(elimina|eliminar|borra|borrar|quita|quitar|remove|delete)\b/i;
+
+export const removeContactAction: Action = {
+    name: "REMOVE_CONTACT",
+    similes: ["DELETE_CONTACT", "ELIMINAR_CONTACTO", "BORRAR_CONTACTO"],
+    description: "Elimina un contacto de la libreta del usuario por su nombre",
+
+    validate: async (_agent: IAgentRuntime, memory: Memory, _state?: State) => {
+        const text = memory.content?.text || "";
+        return /\bcontact/i.test(text) && REMOVE_VERBS_REGEX.test(text);
+    },
+
+    handler: async (
+        agent: IAgentRuntime,
+        memory: Memory,
+        state?: State,
+        _options?: any,
+        callback?: HandlerCallback
+    ) => {
+        try {
+            // Obtener el userId desde memory o state
+            const userId = memory.userId || state?.userId;
+
+            if (!userId) {
+                callback?.(
+                    {
+                        text: "No se pudo identificar tu cuenta. Por favor inténtalo de nuevo o contacta a soporte.",
+                    },
+                    []
+                );
+                return false;
+            }
+
+            const name = extractContactName(memory.content?.text || "");
+            if (!name) {
+                callback?.(
+                    {
+                        text: 'No entendí qué contacto eliminar. Por ejemplo: "eliminar contacto Maria"',
+                    },
+                    []
+                );
+                return false;
+            }
+
+            const removed = await agent.databaseAdapter.removeContact({
+                agentId: agent.agentId,
+                userId,
+                name,
+            });
+
+            callback?.(
+                {
+                    text: removed
+                        ? `🗑️ Eliminé a ${name} de tus contactos.`
+                        : `No tienes ningún contacto llamado ${name}.`,
+                },
+                []
+            );
+
+            return removed;
+        } catch (error) {
+            console.error("Error al eliminar contacto:", error);
+            callback?.(
+                {
+                    text: `Error al eliminar contacto: ${
+                        error instanceof Error
+                            ? error.message
+                            : "Error desconocido"
+                    }`,
+                },
+                []
+            );
+            return false;
+        }
+    },
+    examples: [
+        [
+            {
+                user: "{{user1}}",
+                content: {
+                    text: "Eliminar contacto Maria",
+                },
+            },
+            {
+                user: "{{agentName}}",
+                content: {
+                    text: "Eliminando a Maria de tus contactos...",
+                    action: "REMOVE_CONTACT",
+                },
+            },
+        ],
+        [
+            {
+                user: "{{user1}}",
+                content: {
+                    text: "Remove Juan from my contacts",
+                },
+            },
+            {
+                user: "{{agentName}}",
+                content: {
+                    text: "Quitando a Juan de tu libreta...",
+                    action: "REMOVE_CONTACT",
+                },
+            },
+        ],
+    ] as ActionExample[][],
+};
@@ -0,0 +1,160 @@
+import {
+    Action,
+    ActionExample,
+    HandlerCallback,
+    IAgentRuntime,
+    Memory,
+    State,
+} from "@elizaos/core";
+import { COUPON_REGEX } from "./applyCoupon";
+import { getProductCatalog } from "../services/catalog";
+import { clearCart, removeFromCart } from "../services/cart";
+import { parseCartRequest } from "./addToCart";
+
+const CART_REGEX = /\b(carrito|cesta|cart|basket)\b/i;
+const REMOVE_REGEX =
+    /\b(quita|quitar|quítame|elimina|eliminar|saca|sacar|borra|borrar|vacía|vaciar|remove|delete|empty|clear)\b/i;
+const EMPTY_REGEX = /\b(vacía|vaciar|empty|clear|todo el carrito)\b/i;
+
+export const removeFromCartAction: Action = {
+    name: "REMOVE_FROM_CART",
+    similes: ["QUITAR_DEL_CARRITO", "ELIMINAR_DEL_CARRITO", "EMPTY_CART"],
+    description:
+        "Quita unidades de un producto del carrito del usuario, o vacía el carrito completo",
+
+    validate: async (_agent: IAgentRuntime, memory: Memory, _state?: State) => {
+        const text = memory.content?.text || "";
+        // "quita el cupón del carrito" es APPLY_COUPON
+        return (
+            CART_REGEX.test(text) &&
+            REMOVE_REGEX.test(text) &&
+            !COUPON_REGEX.test(text)
+        );
+    },
+
+    handler: async (
+        agent: IAgentRuntime,
+        memory: Memory,
+        state?: State,
+        _options?: any,
+        callback?: HandlerCallback
+    ) => {
+        try {
+            // Obtener el userId desde memory o state
+            const userId = memory.userId || state?.userId;
+
+            if (!userId) {
+                callback?.(
+                    {
+                        text: "No se pudo identificar tu cuenta. Por favor inténtalo de nuevo o contacta a soporte.",
+                    },
+                    []
+                );
+                return false;
+            }
+
+            const text = memory.content?.text || "";
+            const catalog = getProductCatalog(agent);
+            const { product, quantity } = catalog
+                ? parseCartRequest(catalog, text.replace(REMOVE_REGEX, " "))
+                : {};
+
+            if (!product) {
+                if (!EMPTY_REGEX.test(text)) {
+                    callback?.(
+                        {
+                            text: 'No encontré ese producto en tu carrito. Indica su SKU, por ejemplo: "quita TSHIRT-001 del carrito".',
+                        },
+                        []
+                    );
+                    return false;
+                }
+                await clearCart(agent, userId, memory.roomId);
+                callback?.(
+                    { text: "🛒 Vacié tu carrito.", cart: [] },
+                    []
+                );
+                return true;
+            }
+
+            const cart = await removeFromCart(
+                agent,
+                userId,
+                memory.roomId,
+                product.sku,
+                quantity
+            );
+            if (!cart) {
+                callback?.(
+                    {
+                        text: `${product.title} no está en tu carrito.`,
+                    },
+                    []
+                );
+                return false;
+            }
+
+            callback?.(
+                {
+                    text: `🛒 Quité ${
+                        quantity === undefined
+                            ? product.title
+                            : `${quantity} × ${product.title}`
+                    } del carrito.${
+                        cart.items.length === 0
+                            ? " Tu carrito quedó vacío."
+                            : ""
+                    }`,
+                    cart: cart.items,
+                },
+                []
+            );
+            return true;
+        } catch (error) {
+            console.error("Error al quitar del carrito:", error);
+            callback?.(
+                {
+                    text: `Error al quitar del carrito: ${
+                        error instanceof Error
+                            ? error.message
+                            : "Error desconocido"
+                    }`,
+                },
+                []
+            );
+            return false;
+        }
+    },
+    examples: [
+        [
+            {
+                user: "{{user1}}",
+                content: {
+                    text: "Quita 1 TSHIRT-001 del carrito",
+                },
+            },
+            {
+                user: "{{agentName}}",
+                content: {
+                    text: "Quitando la camiseta de tu carrito...",
+                    action: "REMOVE_FROM_CART",
+                },
+            },
+        ],
+        [
+            {
+                user: "{{user1}}",
+                content: {
+                    text: "Empty my cart",
+                },
+            },
+            {
+                user: "{{agentName}}",
+                content: {
+                    text: "Emptying your cart...",
+                    action: "REMOVE_FROM_CART",
+                },
+            },
+        ],
+    ] as ActionExample[][],
+};
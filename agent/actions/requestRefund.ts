@@ -0,0 +1,171 @@
+import {
+    Action,
+    ActionExample,
+    HandlerCallback,
+    IAgentRuntime,
+    Memory,
+    State,
+} from "@elizaos/core";
+import {
+    canTransition,
+    formatOrderSummary,
+    getOrder,
+    listOrders,
+    ORDER_ID_REGEX,
+    requestRefund,
+} from "../services/orders";
+
+export const REFUND_REGEX =
+    /\b(reembolso|reembolsar|reembolsa|devoluci[oó]n|devolver|devu[eé]lveme|cancelar|cancela|anular|refund|cancel)\b/i;
+const ORDER_WORD_REGEX = /\b(pedido|compra|orden|order|purchase)\b/i;
+
+// Motivo opcional: "... porque llegó roto", "motivo: talla incorrecta"
+export function parseRefundReason(text: string): string | undefined {
+    const reason = text
+        .match(/\b(?:porque|ya que|motivo:?|because|reason:?)\s+(.+)$/i)?.[1]
+        ?.trim();
+    return reason || undefined;
+}
+
+export const requestRefundAction: Action = {
+    name: "REQUEST_REFUND",
+    similes: ["REEMBOLSO", "CANCELAR_PEDIDO", "CANCEL_ORDER", "RETURN_ORDER"],
+    description:
+        "Cancela un pedido sin pagar o solicita el reembolso de un pedido pagado; la tienda revisa la solicitud y devuelve el pago a la wallet que pagó",
+
+    validate: async (_agent: IAgentRuntime, memory: Memory, _state?: State) => {
+        const text = memory.content?.text || "";
+        return (
+            REFUND_REGEX.test(text) &&
+            (ORDER_ID_REGEX.test(text) || ORDER_WORD_REGEX.test(text))
+        );
+    },
+
+    handler: async (
+        agent: IAgentRuntime,
+        memory: Memory,
+        state?: State,
+        _options?: any,
+        callback?: HandlerCallback
+    ) => {
+        try {
+            // Obtener el userId desde memory o state
+            const userId = memory.userId || state?.userId;
+
+            if (!userId) {
+                callback?.(
+                    {
+                        text: "No se pudo identificar tu cuenta. Por favor inténtalo de nuevo o contacta a soporte.",
+                    },
+                    []
+                );
+                return false;
+            }
+
+            const text = memory.content?.text || "";
+            const id = text.match(ORDER_ID_REGEX)?.[0];
+            if (!id) {
+                // Sin id no se adivina el pedido: se listan los candidatos
+                const candidates = (await listOrders(agent, { userId })).filter(
+                    (order) =>
+                        canTransition(order.status, "cancelled") ||
+                        (canTransition(order.status, "refunded") &&
+                            !order.refundRequest)
+                );
+                callback?.(
+                    {
+                        text:
+                            candidates.length > 0
+                                ? [
+                                      "¿Qué pedido quieres cancelar o reembolsar? Indícame su código:",
+                                      ...candidates.map(
+                                          (order) =>
+                                              `• ${formatOrderSummary(order)}`
+                                      ),
+                                  ].join("\n")
+                                : "No tienes pedidos que se puedan cancelar o reembolsar.",
+                        orders: candidates,
+                    },
+                    []
+                );
+                return candidates.length > 0;
+            }
+
+            const order = await getOrder(agent, id);
+            // Solo el cliente que hizo el pedido puede pedir su reembolso
+            if (!order || order.userId !== userId) {
+                callback?.(
+                    { text: `No encontré el pedido ${id.toUpperCase()}.` },
+                    []
+                );
+                return false;
+            }
+
+            const result = await requestRefund(
+                agent,
+                order.id,
+                parseRefundReason(text)
+            );
+            if (result.error) {
+                callback?.({ text: result.error }, []);
+                return false;
+            }
+
+            callback?.(
+                {
+                    text: result.cancelled
+                        ? `🛑 Pedido ${order.id} cancelado. No se te cobró nada.`
+                        : `📨 Solicitud de reembolso del pedido ${order.id} registrada. Cuando la tienda la apruebe te devolveremos el pago (menos el cashback recibido) a ${order.payer ?? "la wallet que pagó"} y te avisaré aquí.`,
+                    order: result.order,
+                },
+                []
+            );
+            return true;
+        } catch (error) {
+            console.error("Error al solicitar el reembolso:", error);
+            callback?.(
+                {
+                    text: `Error al solicitar el reembolso: ${
+                        error instanceof Error
+                            ? error.message
+                            : "Error desconocido"
+                    }`,
+                },
+                []
+            );
+            return false;
+        }
+    },
+    examples: [
+        [
+            {
+                user: "{{user1}}",
+                content: {
+                    text: "Quiero un reembolso del pedido ORD-K7QX2MAB porque llegó roto",
+                },
+            },
+            {
+                user: "{{agentName}}",
+                content: {
+                    text: "Registrando tu solicitud de reembolso...",
+                    action: "REQUEST_REFUND",
+                },
+            },
+        ],
+        [
+            {
+                user: "{{user1}}",
+                content: {
+                    text: "Cancel my order",
+                },
+            },
+            {
+                user: "{{agentName}}",
+                content: {
+                    text: "Which order would you like to cancel?",
+                    action: "REQUEST_REFUND",
+                },
+            },
+        ],
+    ] as ActionExample[][],
+};
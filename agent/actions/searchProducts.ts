@@ -0,0 +1,149 @@
+import {
+    Action,
+    ActionExample,
+    HandlerCallback,
+    IAgentRuntime,
+    Memory,
+    State,
+} from "@elizaos/core";
+import {
+    formatProductPrice,
+    getProductCatalog,
+    parseProductQuery,
+    type Product,
+} from "../services/catalog";
+
+const SEARCH_REGEX =
+    /\b(busca|buscar|búscame|buscame|tienes|tienen|vendes|venden|productos?|cat[aá]logo|search|find|products?|catalog|sell)\b/i;
+
+export function formatProductSummary(product: Product): string {
+    const stock =
+        product.stock > 0 ? `${product.stock} disponibles` : "agotado";
+    return `• ${product.title} (SKU ${product.sku}): ${formatProductPrice(product)} · ${stock}`;
+}
+
+// Datos del producto devueltos en el contenido de la respuesta
+export function toProductContent(product: Product) {
+    return {
+        sku: product.sku,
+        title: product.title,
+        description: product.description,
+        price: product.price,
+        stock: product.stock,
+        images: product.images,
+        categories: product.categories,
+    };
+}
+
+export const searchProductsAction: Action = {
+    name: "SEARCH_PRODUCTS",
+    similes: ["BUSCAR_PRODUCTOS", "FIND_PRODUCTS", "LIST_PRODUCTS", "CATALOG"],
+    description:
+        "Busca productos en el catálogo de la tienda por nombre, categoría o precio máximo en AISHOP o MNT",
+
+    validate: async (_agent: IAgentRuntime, memory: Memory, _state?: State) => {
+        const text = memory.content?.text || "";
+        return SEARCH_REGEX.test(text) && !/\bsku\b/i.test(text);
+    },
+
+    handler: async (
+        agent: IAgentRuntime,
+        memory: Memory,
+        _state?: State,
+        _options?: any,
+        callback?: HandlerCallback
+    ) => {
+        try {
+            const catalog = getProductCatalog(agent);
+            if (!catalog || catalog.getProducts().length === 0) {
+                callback?.(
+                    {
+                        text: "El catálogo de productos no está disponible en este momento.",
+                    },
+                    []
+                );
+                return false;
+            }
+
+            const query = parseProductQuery(memory.content?.text || "");
+            const matches = await catalog.searchProducts(agent, query);
+
+            if (matches.length === 0) {
+                callback?.(
+                    {
+                        text: "No encontré productos que coincidan con tu búsqueda. Prueba con otras palabras o pide ver el catálogo.",
+                        products: [],
+                    },
+                    []
+                );
+                return true;
+            }
+
+            callback?.(
+                {
+                    text: [
+                        query.query
+                            ? `Productos para "${query.query}":`
+                            : "Productos del catálogo:",
+                        ...matches.map((match) =>
+                            formatProductSummary(match.product)
+                        ),
+                        "",
+                        'Pide "detalles del SKU ..." para ver un producto.',
+                    ].join("\n"),
+                    products: matches.map((match) =>
+                        toProductContent(match.product)
+                    ),
+                    query,
+                },
+                []
+            );
+            return true;
+        } catch (error) {
+            console.error("Error al buscar productos:", error);
+            callback?.(
+                {
+                    text: `Error al buscar productos: ${
+                        error instanceof Error
+                            ? error.message
+                            : "Error desconocido"
+                    }`,
+                },
+                []
+            );
+            return false;
+        }
+    },
+    examples: [
+        [
+            {
+                user: "{{user1}}",
+                content: {
+                    text: "¿Tienes camisetas por menos de 30 AISHOP?",
+                },
+            },
+            {
+                user: "{{agentName}}",
+                content: {
+                    text: "Buscando camisetas en el catálogo...",
+                    action: "SEARCH_PRODUCTS",
+                },
+            },
+        ],
+        [
+            {
+                user: "{{user1}}",
+                content: {
+                    text: "Search products for hoodies",
+                },
+            },
+            {
+                user: "{{agentName}}",
+                content: {
+                    text: "Looking for hoodies in the catalog...",
+                    action: "SEARCH_PRODUCTS",
+                },
+            },
+        ],
+    ] as ActionExample[][],
+};
@@ -0,0 +1,143 @@
+import {
+    Action,
+    ActionExample,
+    HandlerCallback,
+    IAgentRuntime,
+    LedgerStatus,
+    Memory,
+    State,
+} from "@elizaos/core";
+
+const HISTORY_LIMIT = 10;
+
+const STATUS_LABELS: Record<LedgerStatus, string> = {
+    [LedgerStatus.PENDING]: "⏳ Pendiente",
+    [LedgerStatus.CONFIRMED]: "✅ Confirmada",
+    [LedgerStatus.FAILED]: "❌ Fallida",
+};
+
+export const transactionHistoryAction: Action = {
+    name: "TRANSACTION_HISTORY",
+    similes: ["HISTORIAL", "MY_TRANSACTIONS", "MIS_TRANSACCIONES"],
+    description:
+        "Muestra las últimas transacciones que el agente envió para el usuario, con su estado",
+
+    validate: async (_agent: IAgentRuntime, memory: Memory, _state?: State) => {
+        const text = (memory.content?.text || "").toLowerCase();
+        return (
+            text.includes("historial") ||
+            text.includes("mis transacciones") ||
+            text.includes("transaction history") ||
+            text.includes("my transactions")
+        );
+    },
+
+    handler: async (
+        agent: IAgentRuntime,
+        memory: Memory,
+        state?: State,
+        _options?: any,
+        callback?: HandlerCallback
+    ) => {
+        try {
+            // Obtener el userId desde memory o state
+            const userId = memory.userId || state?.userId;
+
+            if (!userId) {
+                callback?.(
+                    {
+                        text: "No se pudo identificar tu cuenta. Por favor inténtalo de nuevo o contacta a soporte.",
+                    },
+                    []
+                );
+                return false;
+            }
+
+            const entries = await agent.databaseAdapter.getLedgerEntries({
+                agentId: agent.agentId,
+                userId,
+                count: HISTORY_LIMIT,
+            });
+
+            if (entries.length === 0) {
+                callback?.(
+                    {
+                        text: "Todavía no tienes transacciones registradas.",
+                    },
+                    []
+                );
+                return true;
+            }
+
+            const lines = entries.map((entry) =>
+                [
+                    `${STATUS_LABELS[entry.status] ?? entry.status} · ${entry.action}`,
+                    `  ${entry.amount} ${entry.token} → ${entry.to}`,
+                    `  ${new Date(Number(entry.createdAt)).toISOString()}${
+                        entry.blockNumber ? ` · bloque ${entry.blockNumber}` : ""
+                    }`,
+                    `  Hash: ${entry.hash}`,
+                ].join("\n")
+            );
+
+            callback?.(
+                {
+                    text: [
+                        `📜 Tus últimas ${entries.length} transacciones:`,
+                        "",
+                        lines.join("\n\n"),
+                    ].join("\n"),
+                    transactions: entries,
+                },
+                []
+            );
+
+            return true;
+        } catch (error) {
+            console.error("Error al obtener historial:", error);
+            callback?.(
+                {
+                    text: `Error al obtener historial: ${
+                        error instanceof Error
+                            ? error.message
+                            : "Error desconocido"
+                    }`,
+                },
+                []
+            );
+            return false;
+        }
+    },
+    examples: [
+        [
+            {
+                user: "{{user1}}",
+                content: {
+                    text: "Muéstrame mi historial de transacciones",
+                },
+            },
+            {
+                user: "{{agentName}}",
+                content: {
+                    text: "Buscando tus últimas transacciones...",
+                    action: "TRANSACTION_HISTORY",
+                },
+            },
+        ],
+        [
+            {
+                user: "{{user1}}",
+                content: {
+                    text: "Show my transactions",
+                },
+            },
+            {
+                user: "{{agentName}}",
+                content: {
+                    text: "Aquí están tus transacciones recientes...",
+                    action: "TRANSACTION_HISTORY",
+                },
+            },
+        ],
+    ] as ActionExample[][],
+};
@@ -5,38 +5,39 @@ import {
     IAgentRuntime,
     Memory,
     State,
+    UUID,
 } from "@elizaos/core";
 
 import {
     parseEther,
     formatEther,
     type Address,
-    type Hash,
-    createWalletClient,
-    http,
     type Hex,
     type ByteArray,
 } from "viem";
 
-import { privateKeyToAccount } from "viem/accounts";
 import {
     initUserWalletProvider,
 } from "../providers/wallet";
 import { mantleSepoliaTestnet } from "../config/chains";
-import { userHasWallet, getUserWallet } from "./createWallet";
-
-function extractEthereumWalletAddress(text: string): Address | null {
-    const ethAddressRegex = /0x[a-fA-F0-9]{40}/g;
-    const matches = text.match(ethAddressRegex);
-    return matches ? (matches[0] as Address) : null;
-}
-
-function extractAmount(text: string): string | null {
-    // Busca patrones como "0.1 MNT", "1.5 MNT", "1 MNT", etc.
-    const amountRegex = /(\d+(\.\d+)?)\s*(MNT|mnt)/i;
-    const match = text.match(amountRegex);
-    return match ? match[1] : null;
-}
+import { userHasWallet } from "./createWallet";
+import {
+    createPendingIntent,
+    formatIntentQuote,
+    recordIntentTransaction,
+    type IntentExecutor,
+} from "../services/pendingIntents";
+import { getSpendingPolicy } from "../services/spendingPolicy";
+import { recordLedgerEntry } from "../services/ledger";
+import { withFeeBuffer } from "../services/gasSponsorship";
+import {
+    findTokenSymbol,
+    INTENT_CHAIN_IDS,
+    isTransferRequest,
+    parseTransferIntent,
+    resolveIntentAmount,
+    resolveRecipient,
+} from "../services/intentParser";
 
 export function generateId(): `${string}-${string}-${string}-${string}-${string}` {
     return "xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx".replace(
@@ -49,28 +50,165 @@ export function generateId(): `${string}-${string}-${string}-${string}-${string}
     ) as `${string}-${string}-${string}-${string}-${string}`;
 }
 
+// Ejecuta una transferencia de MNT previamente confirmada por el usuario
+export const executeMNTTransfer: IntentExecutor = async (
+    agent,
+    intent,
+    memory,
+    callback
+) => {
+    const userWalletProvider = await initUserWalletProvider(
+        agent,
+        intent.userId
+    );
+    if (!userWalletProvider) {
+        return {
+            success: false,
+            error: "No se pudo acceder a tu wallet. Por favor contacta a soporte.",
+        };
+    }
+
+    const to = intent.params.to as Address;
+    const amountStr = intent.params.amount;
+    const value = parseEther(amountStr);
+
+    // Los límites pudieron agotarse mientras el resumen esperaba confirmación
+    const spendingPolicy = getSpendingPolicy(agent);
+    const spending = {
+        userId: intent.userId,
+        action: intent.action,
+        token: "MNT",
+        amount: amountStr,
+        decimals: 18,
+        recipient: to,
+    };
+    const decision = await spendingPolicy?.checkSpending(spending);
+    if (decision && !decision.allowed) {
+        return { success: false, error: decision.reason };
+    }
+
+    const fromAddress = userWalletProvider.getAddress();
+    const publicClient = userWalletProvider.getPublicClient();
+
+    // El balance pudo cambiar desde que se generó el resumen
+    const currentBalance = await publicClient.getBalance({
+        address: fromAddress,
+    });
+    if (currentBalance < value) {
+        return {
+            success: false,
+            error: `Balance insuficiente para realizar la transferencia. Tienes ${formatEther(
+                currentBalance
+            )} MNT y estás intentando enviar ${amountStr} MNT.`,
+        };
+    }
+
+    // Notificar que se está procesando la transacción
+    callback?.(
+        {
+            text: `Procesando transferencia de ${amountStr} MNT desde tu wallet personal (${fromAddress}) hacia ${to}...`,
+        },
+        []
+    );
+
+    const walletClient = userWalletProvider.getWalletClient();
+    // Realizar la transacción
+    const txHash = await walletClient.sendTransaction({
+        account: walletClient.account,
+        data: "0x" as Hex,
+        to,
+        value,
+        kzg: {
+            blobToKzgCommitment: (_: ByteArray): ByteArray => {
+                throw new Error("Function not implemented.");
+            },
+            computeBlobKzgProof: (
+                _blob: ByteArray,
+                _commitment: ByteArray
+            ): ByteArray => {
+                throw new Error("Function not implemented.");
+            },
+        },
+        chain: undefined,
+    });
+    await recordIntentTransaction(agent, intent, txHash);
+    await spendingPolicy?.recordSpending({ ...spending, hash: txHash });
+    await recordLedgerEntry(agent, {
+        userId: intent.userId as UUID,
+        roomId: memory.roomId,
+        action: intent.action,
+        chainId: mantleSepoliaTestnet.id,
+        from: fromAddress,
+        to: to,
+        token: "MNT",
+        amount: amountStr,
+        hash: txHash,
+    });
+
+    // Esperar a que se confirme la transacción
+    const receipt = await publicClient.waitForTransactionReceipt({
+        hash: txHash,
+        confirmations: 1, // Esperar al menos 1 confirmación
+    });
+
+    // Crear mensaje de éxito con detalles de la transacción
+    const successText = [
+        `✅ Transferencia completada con éxito:`,
+        ``,
+        `Cantidad: ${amountStr} MNT`,
+        `De: ${fromAddress} (tu wallet)`,
+        `Para: ${to}`,
+        `Hash de Transacción: ${txHash}`,
+        `Estado: ${receipt.status === "success" ? "Exitoso" : "Pendiente"}`,
+        ``,
+        `Ver en el explorador: https://sepolia.mantlescan.xyz/tx/${txHash}`,
+    ].join("\n");
+
+    // Guardar en memoria los detalles de la transacción
+    await agent.documentsManager.createMemory({
+        id: generateId(),
+        userId: memory.userId,
+        agentId: memory.agentId,
+        content: {
+            text: successText,
+            action: "TRANSFER_MNT",
+            transaction: {
+                hash: txHash,
+                from: fromAddress,
+                to: to,
+                amount: amountStr,
+                blockNumber: receipt.blockNumber,
+                status: receipt.status,
+            },
+        },
+        roomId: memory.roomId,
+    });
+
+    // Devolver mensaje de éxito
+    callback?.(
+        {
+            text: successText,
+        },
+        []
+    );
+
+    return { success: receipt.status === "success", txHash };
+};
+
 export const transferMNTAction: Action = {
     name: "TRANSFER_MNT",
     similes: ["SEND_MNT", "TRANSFER_MANTLE", "SEND_FUNDS"],
     description:
-        "Transfer MNT tokens to a specified wallet address on Mantle network",
+        "Quote a transfer of MNT tokens to a specified wallet address on Mantle network; it is sent only after the user confirms the quote code",
 
     validate: async (_agent: IAgentRuntime, memory: Memory, _state?: State) => {
-        const text = (memory.content?.text || "").toLowerCase();
-
-        // Verificar si el texto incluye palabras clave relacionadas con transferencias
-        const hasTransferIntent =
-            text.includes("transfer") ||
-            text.includes("send") ||
-            text.includes("enviar") ||
-            text.includes("transferir");
+        const text = memory.content?.text || "";
 
-        // Verificar si hay una dirección Ethereum y una cantidad
-        const hasAddress =
-            extractEthereumWalletAddress(memory.content?.text || "") !== null;
-        const hasAmount = extractAmount(memory.content?.text || "") !== null;
-
-        return hasTransferIntent && hasAddress && hasAmount;
+        // Un verbo de transferencia (en español o inglés) y el token MNT; la
+        // cantidad y el destinatario se interpretan en el handler
+        return (
+            isTransferRequest(text) && findTokenSymbol(text, ["MNT"]) !== null
+        );
     },
 
     handler: async (
@@ -123,9 +261,28 @@ export const transferMNTAction: Action = {
                 return false;
             }
 
-            // Obtener dirección de destino del mensaje
-            const to = extractEthereumWalletAddress(memory.content?.text);
-            if (!to) {
+            // Interpretar cantidad, destinatario y red del mensaje
+            const transferIntent = await parseTransferIntent(
+                agent,
+                memory.content?.text || "",
+                { symbols: ["MNT"], state }
+            );
+
+            if (
+                transferIntent.chain &&
+                INTENT_CHAIN_IDS[transferIntent.chain] !==
+                    mantleSepoliaTestnet.id
+            ) {
+                callback?.(
+                    {
+                        text: `Por ahora solo puedo transferir en ${mantleSepoliaTestnet.name}.`,
+                    },
+                    []
+                );
+                return false;
+            }
+
+            if (!transferIntent.recipient) {
                 callback?.(
                     {
                         text: "No se pudo identificar una dirección de wallet válida en tu mensaje. Por favor, proporciona una dirección en formato 0x...",
@@ -135,9 +292,18 @@ export const transferMNTAction: Action = {
                 return false;
             }
 
-            // Obtener cantidad a transferir del mensaje
-            const amountStr = extractAmount(memory.content?.text || "");
-            if (!amountStr) {
+            const recipient = await resolveRecipient(
+                agent,
+                userId,
+                transferIntent.recipient
+            );
+            if ("error" in recipient) {
+                callback?.({ text: recipient.error }, []);
+                return false;
+            }
+            const to = recipient.address;
+
+            if (!transferIntent.amount) {
                 callback?.(
                     {
                         text: "No se pudo identificar la cantidad de MNT a transferir. Por favor, especifica una cantidad (por ejemplo, '0.1 MNT').",
@@ -147,18 +313,64 @@ export const transferMNTAction: Action = {
                 return false;
             }
 
-            // Convertir la cantidad a Wei (unidad más pequeña)
-            const value = parseEther(amountStr);
-
             // Obtener información de la wallet del usuario
             const fromAddress = userWalletProvider.getAddress();
             const publicClient = userWalletProvider.getPublicClient();
 
-            // Verificar balance antes de la transferencia
-            const currentBalance = await publicClient.getBalance({
-                address: fromAddress,
+            // Balance y gas: los montos relativos ("la mitad", "todo") se
+            // calculan sobre lo que queda después de pagar el gas
+            const [currentBalance, estimatedGas, gasPrice] = await Promise.all([
+                publicClient.getBalance({ address: fromAddress }),
+                publicClient.estimateGas({
+                    account: fromAddress,
+                    to,
+                    value: 0n,
+                }),
+                publicClient.getGasPrice(),
+            ]);
+            const maxFee = withFeeBuffer(estimatedGas * gasPrice);
+            const spendable =
+                currentBalance > maxFee ? currentBalance - maxFee : 0n;
+
+            // Convertir la cantidad a Wei (unidad más pequeña)
+            const value = resolveIntentAmount(
+                transferIntent.amount,
+                spendable,
+                parseEther
+            );
+            if (value <= 0n) {
+                callback?.(
+                    {
+                        text: `No tienes MNT suficiente para esa transferencia. Tienes ${formatEther(
+                            currentBalance
+                        )} MNT.`,
+                    },
+                    []
+                );
+                return false;
+            }
+            const amountStr = formatEther(value);
+
+            // Consultar la política de gasto antes de preparar el resumen
+            const decision = await getSpendingPolicy(agent)?.checkSpending({
+                userId,
+                action: "TRANSFER_MNT",
+                token: "MNT",
+                amount: amountStr,
+                decimals: 18,
+                recipient: to,
             });
+            if (decision && !decision.allowed) {
+                callback?.(
+                    {
+                        text: `🚫 Transferencia bloqueada: ${decision.reason}`,
+                    },
+                    []
+                );
+                return false;
+            }
 
+            // Verificar balance antes de la transferencia
             if (currentBalance < value) {
                 callback?.(
                     {
@@ -171,80 +383,25 @@ export const transferMNTAction: Action = {
                 return false;
             }
 
-            // Notificar que se está procesando la transacción
-            callback?.(
-                {
-                    text: `Procesando transferencia de ${amountStr} MNT desde tu wallet personal (${fromAddress}) hacia ${to}...`,
-                },
-                []
-            );
-
-            const walletClient = userWalletProvider.getWalletClient();
-            // Realizar la transacción
-            const txHash = await walletClient.sendTransaction({
-                account: walletClient.account,
-                data: "0x" as Hex,
-                to,
-                value,
-                kzg: {
-                    blobToKzgCommitment: (_: ByteArray): ByteArray => {
-                        throw new Error("Function not implemented.");
-                    },
-                    computeBlobKzgProof: (
-                        _blob: ByteArray,
-                        _commitment: ByteArray
-                    ): ByteArray => {
-                        throw new Error("Function not implemented.");
-                    },
-                },
-                chain: undefined,
-            });
-
-            // Esperar a que se confirme la transacción
-            const receipt = await publicClient.waitForTransactionReceipt({
-                hash: txHash,
-                confirmations: 1, // Esperar al menos 1 confirmación
-            });
-
-            // Crear mensaje de éxito con detalles de la transacción
-            const successText = [
-                `✅ Transferencia completada con éxito:`,
-                ``,
-                `Cantidad: ${amountStr} MNT`,
-                `De: ${fromAddress} (tu wallet)`,
-                `Para: ${to}`,
-                `Hash de Transacción: ${txHash}`,
-                `Estado: ${
-                    receipt.status === "success" ? "Exitoso" : "Pendiente"
-                }`,
-                ``,
-                `Ver en el explorador: https://sepolia.mantlescan.xyz/tx/${txHash}`,
-            ].join("\n");
-
-            // Guardar en memoria los detalles de la transacción
-            await agent.documentsManager.createMemory({
-                id: generateId(),
-                userId: memory.userId,
-                agentId: memory.agentId,
-                content: {
-                    text: successText,
-                    action: "TRANSFER_MNT",
-                    transaction: {
-                        hash: txHash,
-                        from: fromAddress,
-                        to: to,
-                        amount: amountStr,
-                        blockNumber: receipt.blockNumber,
-                        status: receipt.status,
-                    },
-                },
+            // Registrar la intención y pedir confirmación explícita
+            const intent = await createPendingIntent(agent, {
+                userId,
                 roomId: memory.roomId,
+                action: "TRANSFER_MNT",
+                params: { to, amount: amountStr },
+                quote: {
+                    recipient: to,
+                    recipientName: recipient.name,
+                    amount: amountStr,
+                    symbol: "MNT",
+                    estimatedGas: estimatedGas.toString(),
+                    estimatedFee: formatEther(estimatedGas * gasPrice),
+                },
             });
 
-            // Devolver mensaje de éxito
             callback?.(
                 {
-                    text: successText,
+                    text: formatIntentQuote(intent),
                 },
                 []
             );
@@ -276,7 +433,7 @@ export const transferMNTAction: Action = {
             {
                 user: "{{agentName}}",
                 content: {
-                    text: "Procesando tu transferencia de MNT...",
+                    text: "Preparando el resumen de tu transferencia de MNT para que lo confirmes...",
                     action: "TRANSFER_MNT",
                 },
             },
@@ -311,5 +468,20 @@ export const transferMNTAction: Action = {
                 },
             },
         ],
+        [
+            {
+                user: "{{user1}}",
+                content: {
+                    text: "Manda 2,5 MNT a 0x1234567890abcdef1234567890abcdef12345678",
+                },
+            },
+            {
+                user: "{{agentName}}",
+                content: {
+                    text: "Preparando el resumen para enviar 2.5 MNT...",
+                    action: "TRANSFER_MNT",
+                },
+            },
+        ],
     ] as ActionExample[][],
 };
@@ -5,17 +5,52 @@ import {
     IAgentRuntime,
     Memory,
     State,
+    UUID,
 } from "@elizaos/core";
 
-import { parseUnits, formatUnits, type Address, parseAbi } from "viem";
+import {
+    parseUnits,
+    formatUnits,
+    formatEther,
+    type Address,
+    type Hash,
+    parseAbi,
+} from "viem";
 
 import {
     initWalletProvider,
     initUserWalletProvider,
+    type WalletProvider,
 } from "../providers/wallet";
 import { mantleSepoliaTestnet } from "../config/chains";
-import { TOKENS, isERC20Token } from "../config/token";
+import {
+    getERC20Tokens,
+    getTokenBySymbol,
+    isERC20Token,
+    type ERC20TokenConfig,
+} from "../config/token";
 import { userHasWallet, getUserWallet } from "./createWallet";
+import {
+    createPendingIntent,
+    formatIntentQuote,
+    recordIntentTransaction,
+    type IntentExecutor,
+} from "../services/pendingIntents";
+import { getSpendingPolicy } from "../services/spendingPolicy";
+import { recordLedgerEntry } from "../services/ledger";
+import {
+    planGasDrip,
+    sponsorGas,
+    withFeeBuffer,
+} from "../services/gasSponsorship";
+import {
+    findTokenSymbol,
+    INTENT_CHAIN_IDS,
+    isTransferRequest,
+    parseTransferIntent,
+    resolveIntentAmount,
+    resolveRecipient,
+} from "../services/intentParser";
 
 // ABI para la función transfer de ERC20
 const erc20TransferAbi = parseAbi([
@@ -23,25 +58,10 @@ const erc20TransferAbi = parseAbi([
     "function balanceOf(address owner) view returns (uint256)",
 ]);
 
-function extractEthereumWalletAddress(text: string): Address | null {
-    const ethAddressRegex = /0x[a-fA-F0-9]{40}/g;
-    const matches = text.match(ethAddressRegex);
-    return matches ? (matches[0] as Address) : null;
-}
-
-function extractTokenTransferInfo(
-    text: string
-): { amount: string; symbol: string } | null {
-    // Busca patrones como "100 AISHOP", "1.5 AISHOP", "10 aishop", etc.
-    const transferRegex = /(\d+(\.\d+)?)\s*(AISHOP|aishop)/i;
-    const match = text.match(transferRegex);
-
-    if (!match) return null;
-
-    return {
-        amount: match[1],
-        symbol: match[3].toUpperCase(),
-    };
+function getERC20Symbols(agent: IAgentRuntime): string[] {
+    return getERC20Tokens(agent, mantleSepoliaTestnet.id).map(
+        (token) => token.symbol
+    );
 }
 
 export function generateId(): `${string}-${string}-${string}-${string}-${string}` {
@@ -55,33 +75,341 @@ export function generateId(): `${string}-${string}-${string}-${string}-${string}
     ) as `${string}-${string}-${string}-${string}-${string}`;
 }
 
+// Verifica que la wallet tenga tokens suficientes; devuelve el mensaje de error
+async function checkTokenBalance(
+    publicClient: ReturnType<WalletProvider["getPublicClient"]>,
+    token: ERC20TokenConfig,
+    owner: Address,
+    amount: bigint,
+    amountStr: string
+): Promise<string | null> {
+    try {
+        const tokenBalance = await publicClient.readContract({
+            address: token.address,
+            abi: erc20TransferAbi,
+            functionName: "balanceOf",
+            args: [owner],
+        });
+
+        if (tokenBalance < amount) {
+            const formattedBalance = formatUnits(tokenBalance, token.decimals);
+            return `Balance insuficiente para realizar la transferencia. Tienes ${formattedBalance} ${token.symbol} y estás intentando enviar ${amountStr} ${token.symbol}.`;
+        }
+    } catch (error) {
+        console.error("Error al verificar balance de tokens:", error);
+        // Continuamos incluso si hay error en la verificación de balance
+    }
+    return null;
+}
+
+export interface ERC20TransferQuote {
+    estimatedGas: bigint;
+    gasPrice: bigint;
+    // El agente recargará el gas de la wallet antes de enviar
+    sponsoredGas: boolean;
+}
+
+// Comprueba la política de gasto, el balance y el gas de una transferencia
+// antes de pedir confirmación. La usan TRANSFER_ERC20 y CHECKOUT.
+export async function prepareERC20Transfer(
+    agent: IAgentRuntime,
+    params: {
+        userId: string;
+        provider: WalletProvider;
+        token: ERC20TokenConfig;
+        to: Address;
+        amount: bigint;
+        action?: string;
+    }
+): Promise<
+    | { quote: ERC20TransferQuote; error?: undefined }
+    | { quote?: undefined; error: string }
+> {
+    const { userId, provider, token, to, amount } = params;
+    const amountStr = formatUnits(amount, token.decimals);
+
+    const decision = await getSpendingPolicy(agent)?.checkSpending({
+        userId,
+        action: params.action ?? "TRANSFER_ERC20",
+        token: token.symbol,
+        amount: amountStr,
+        decimals: token.decimals,
+        recipient: to,
+    });
+    if (decision && !decision.allowed) {
+        return { error: `🚫 Transferencia bloqueada: ${decision.reason}` };
+    }
+
+    const fromAddress = provider.getAddress();
+    const publicClient = provider.getPublicClient();
+    const balanceError = await checkTokenBalance(
+        publicClient,
+        token,
+        fromAddress,
+        amount,
+        amountStr
+    );
+    if (balanceError) {
+        return { error: balanceError };
+    }
+
+    // Estimar el gas para incluirlo en el resumen
+    const [estimatedGas, gasPrice, nativeBalance] = await Promise.all([
+        publicClient.estimateContractGas({
+            account: fromAddress,
+            address: token.address,
+            abi: erc20TransferAbi,
+            functionName: "transfer",
+            args: [to, amount],
+        }),
+        publicClient.getGasPrice(),
+        publicClient.getBalance({ address: fromAddress }),
+    ]);
+
+    // Sin MNT para el gas solo se continúa si el agente lo patrocina
+    const gasDrip = await planGasDrip(
+        agent,
+        userId,
+        nativeBalance,
+        withFeeBuffer(estimatedGas * gasPrice)
+    );
+    if (gasDrip.error) {
+        return { error: gasDrip.error };
+    }
+
+    return {
+        quote: { estimatedGas, gasPrice, sponsoredGas: gasDrip.amount > 0n },
+    };
+}
+
+// Ejecuta una transferencia ERC20 previamente confirmada por el usuario
+// Firma y envía la transferencia desde `provider` y la registra en el
+// ledger. No comprueba políticas ni balance ni espera el recibo: eso queda
+// para quien llama.
+export async function sendERC20Transfer(
+    agent: IAgentRuntime,
+    params: {
+        provider: WalletProvider;
+        token: ERC20TokenConfig;
+        to: Address;
+        amount: bigint;
+        userId: string;
+        roomId?: UUID;
+        action: string;
+    }
+): Promise<Hash> {
+    const { provider, token, to, amount } = params;
+    const hash = await provider.getWalletClient().writeContract({
+        account: provider.getAccount(),
+        address: token.address,
+        abi: erc20TransferAbi,
+        functionName: "transfer",
+        args: [to, amount],
+        chain: mantleSepoliaTestnet,
+    });
+    await recordLedgerEntry(agent, {
+        userId: params.userId as UUID,
+        roomId: params.roomId,
+        action: params.action,
+        chainId: mantleSepoliaTestnet.id,
+        from: provider.getAddress(),
+        to,
+        token: token.symbol,
+        amount: formatUnits(amount, token.decimals),
+        hash,
+    });
+    return hash;
+}
+
+export const executeERC20Transfer: IntentExecutor = async (
+    agent,
+    intent,
+    memory,
+    callback
+) => {
+    const token = getTokenBySymbol(
+        agent,
+        mantleSepoliaTestnet.id,
+        intent.params.symbol
+    );
+    if (!token || !isERC20Token(token)) {
+        return {
+            success: false,
+            error: `No se encontró configuración para el token ${intent.params.symbol} o no es un token ERC20.`,
+        };
+    }
+
+    const userWalletProvider = await initUserWalletProvider(
+        agent,
+        intent.userId
+    );
+    if (!userWalletProvider) {
+        return {
+            success: false,
+            error: "No se pudo acceder a tu wallet. Por favor contacta a soporte.",
+        };
+    }
+
+    const toAddress = intent.params.to as Address;
+    const amount = intent.params.amount;
+    const amountInSmallestUnit = parseUnits(amount, token.decimals);
+
+    // Los límites pudieron agotarse mientras el resumen esperaba confirmación
+    const spendingPolicy = getSpendingPolicy(agent);
+    const spending = {
+        userId: intent.userId,
+        action: intent.action,
+        token: token.symbol,
+        amount,
+        decimals: token.decimals,
+        recipient: toAddress,
+    };
+    const decision = await spendingPolicy?.checkSpending(spending);
+    if (decision && !decision.allowed) {
+        return { success: false, error: decision.reason };
+    }
+
+    const fromAddress = userWalletProvider.getAddress();
+    const publicClient = userWalletProvider.getPublicClient();
+
+    // El balance pudo cambiar desde que se generó el resumen
+    const balanceError = await checkTokenBalance(
+        publicClient,
+        token,
+        fromAddress,
+        amountInSmallestUnit,
+        amount
+    );
+    if (balanceError) {
+        return { success: false, error: balanceError };
+    }
+
+    // Si la wallet no tiene MNT para el gas, el agente puede recargarla
+    const [estimatedGas, gasPrice, nativeBalance] = await Promise.all([
+        publicClient.estimateContractGas({
+            account: fromAddress,
+            address: token.address,
+            abi: erc20TransferAbi,
+            functionName: "transfer",
+            args: [toAddress, amountInSmallestUnit],
+        }),
+        publicClient.getGasPrice(),
+        publicClient.getBalance({ address: fromAddress }),
+    ]);
+    const gasDrip = await planGasDrip(
+        agent,
+        intent.userId,
+        nativeBalance,
+        withFeeBuffer(estimatedGas * gasPrice)
+    );
+    if (gasDrip.error) {
+        return { success: false, error: gasDrip.error };
+    }
+    if (gasDrip.amount > 0n) {
+        callback?.(
+            {
+                text: `⛽ Recargando ${formatEther(gasDrip.amount)} MNT de gas en tu wallet desde la wallet del agente...`,
+            },
+            []
+        );
+        await sponsorGas(agent, {
+            userId: intent.userId,
+            roomId: memory.roomId,
+            address: fromAddress,
+            amount: gasDrip.amount,
+        });
+    }
+
+    // Notificar que se está procesando la transacción
+    callback?.(
+        {
+            text: `Procesando transferencia de ${amount} ${token.symbol} desde tu wallet personal (${fromAddress}) hacia ${toAddress}...`,
+        },
+        []
+    );
+
+    // Realizar la transacción de token ERC20
+    // La cuenta local firma la transacción; con solo la dirección viem
+    // pediría al nodo que firme (eth_sendTransaction)
+    const txHash = await sendERC20Transfer(agent, {
+        provider: userWalletProvider,
+        token,
+        to: toAddress,
+        amount: amountInSmallestUnit,
+        userId: intent.userId,
+        roomId: memory.roomId,
+        action: intent.action,
+    });
+    await recordIntentTransaction(agent, intent, txHash);
+    await spendingPolicy?.recordSpending({ ...spending, hash: txHash });
+
+    // Esperar a que se confirme la transacción
+    const receipt = await publicClient.waitForTransactionReceipt({
+        hash: txHash,
+        confirmations: 1, // Esperar al menos 1 confirmación
+    });
+
+    // Crear mensaje de éxito con detalles de la transacción
+    const successText = [
+        `✅ Transferencia de token ERC20 completada con éxito:`,
+        ``,
+        `Token: ${token.symbol} (${token.name})`,
+        `Cantidad: ${amount} ${token.symbol}`,
+        `De: ${fromAddress} (tu wallet)`,
+        `Para: ${toAddress}`,
+        `Hash de Transacción: ${txHash}`,
+        `Estado: ${receipt.status === "success" ? "Exitoso" : "Pendiente"}`,
+        ``,
+        `Ver en el explorador: https://sepolia.mantlescan.xyz/tx/${txHash}`,
+    ].join("\n");
+
+    // Guardar en memoria los detalles de la transacción
+    await agent.documentsManager.createMemory({
+        id: generateId(),
+        userId: memory.userId,
+        agentId: memory.agentId,
+        content: {
+            text: successText,
+            action: "TRANSFER_ERC20",
+            transaction: {
+                hash: txHash,
+                from: fromAddress,
+                to: toAddress,
+                token: token.symbol,
+                tokenAddress: token.address,
+                amount,
+                blockNumber: receipt.blockNumber,
+                status: receipt.status,
+            },
+        },
+        roomId: memory.roomId,
+    });
+
+    // Devolver mensaje de éxito
+    callback?.(
+        {
+            text: successText,
+        },
+        []
+    );
+
+    return { success: receipt.status === "success", txHash };
+};
+
 export const transferERC20Action: Action = {
     name: "TRANSFER_ERC20",
     similes: ["SEND_AISHOP", "TRANSFER_TOKEN", "SEND_TOKEN"],
     description:
-        "Transfer ERC20 tokens (like AISHOP) to a specified wallet address on Mantle network",
-
-    validate: async (_agent: IAgentRuntime, memory: Memory, _state?: State) => {
-        const text = (memory.content?.text || "").toLowerCase();
-
-        // Verificar si el texto incluye palabras clave relacionadas con transferencias
-        const hasTransferIntent =
-            text.includes("transfer") ||
-            text.includes("send") ||
-            text.includes("enviar") ||
-            text.includes("transferir");
-
-        // Verificar si menciona AISHOP
-        const mentionsAishop = text.includes("aishop");
+        "Quote a transfer of ERC20 tokens (like AISHOP) to a specified wallet address on Mantle network; it is sent only after the user confirms the quote code",
 
-        // Verificar si hay una dirección Ethereum y una cantidad
-        const hasAddress =
-            extractEthereumWalletAddress(memory.content?.text || "") !== null;
-        const hasTokenInfo =
-            extractTokenTransferInfo(memory.content?.text || "") !== null;
+    validate: async (agent: IAgentRuntime, memory: Memory, _state?: State) => {
+        const text = memory.content?.text || "";
 
+        // Un verbo de transferencia (en español o inglés) y un token ERC20
+        // registrado; cantidad y destinatario se interpretan en el handler
         return (
-            hasTransferIntent && mentionsAishop && hasAddress && hasTokenInfo
+            isTransferRequest(text) &&
+            findTokenSymbol(text, getERC20Symbols(agent)) !== null
         );
     },
 
@@ -135,11 +463,28 @@ export const transferERC20Action: Action = {
                 return false;
             }
 
-            // Obtener dirección de destino del mensaje
-            const toAddress = extractEthereumWalletAddress(
-                memory.content?.text || ""
+            // Interpretar token, cantidad, destinatario y red del mensaje
+            const transferIntent = await parseTransferIntent(
+                agent,
+                memory.content?.text || "",
+                { symbols: getERC20Symbols(agent), state }
             );
-            if (!toAddress) {
+
+            if (
+                transferIntent.chain &&
+                INTENT_CHAIN_IDS[transferIntent.chain] !==
+                    mantleSepoliaTestnet.id
+            ) {
+                callback?.(
+                    {
+                        text: `Por ahora solo puedo transferir en ${mantleSepoliaTestnet.name}.`,
+                    },
+                    []
+                );
+                return false;
+            }
+
+            if (!transferIntent.recipient) {
                 callback?.(
                     {
                         text: "No se pudo identificar una dirección de wallet válida en tu mensaje. Por favor, proporciona una dirección en formato 0x...",
@@ -149,11 +494,18 @@ export const transferERC20Action: Action = {
                 return false;
             }
 
-            // Obtener información del token y cantidad a transferir
-            const tokenInfo = extractTokenTransferInfo(
-                memory.content?.text || ""
+            const recipient = await resolveRecipient(
+                agent,
+                userId,
+                transferIntent.recipient
             );
-            if (!tokenInfo) {
+            if ("error" in recipient) {
+                callback?.({ text: recipient.error }, []);
+                return false;
+            }
+            const toAddress = recipient.address;
+
+            if (!transferIntent.token || !transferIntent.amount) {
                 callback?.(
                     {
                         text: "No se pudo identificar la cantidad y el tipo de token a transferir. Por favor, especifica una cantidad y el token (por ejemplo, '100 AISHOP').",
@@ -163,123 +515,91 @@ export const transferERC20Action: Action = {
                 return false;
             }
 
-            // Obtener la configuración del token desde TOKENS
-            const token = TOKENS[tokenInfo.symbol as keyof typeof TOKENS];
+            // Resolver el token en el registro de la cadena
+            const token = getTokenBySymbol(
+                agent,
+                mantleSepoliaTestnet.id,
+                transferIntent.token
+            );
             if (!token || !isERC20Token(token)) {
                 callback?.(
                     {
-                        text: `No se encontró configuración para el token ${tokenInfo.symbol} o no es un token ERC20.`,
+                        text: `No se encontró configuración para el token ${transferIntent.token} o no es un token ERC20.`,
                     },
                     []
                 );
                 return false;
             }
 
-            // Convertir la cantidad a la unidad más pequeña según los decimales del token
-            const amountInSmallestUnit = parseUnits(
-                tokenInfo.amount,
-                token.decimals
-            );
-
             // Obtener la información de la wallet del usuario
             const fromAddress = userWalletProvider.getAddress();
-            const walletClient = userWalletProvider.getWalletClient();
             const publicClient = userWalletProvider.getPublicClient();
 
-            // Verificar el balance de tokens antes de la transferencia
-            try {
-                const tokenBalance = await publicClient.readContract({
-                    address: token.address,
-                    abi: erc20TransferAbi,
-                    functionName: "balanceOf",
-                    args: [fromAddress],
-                });
-
-                if (tokenBalance < amountInSmallestUnit) {
-                    const formattedBalance = formatUnits(
-                        tokenBalance,
-                        token.decimals
-                    );
-
-                    callback?.(
-                        {
-                            text: `Balance insuficiente para realizar la transferencia. Tienes ${formattedBalance} ${token.symbol} y estás intentando enviar ${tokenInfo.amount} ${token.symbol}.`,
-                        },
-                        []
-                    );
-                    return false;
-                }
-            } catch (error) {
-                console.error("Error al verificar balance de tokens:", error);
-                // Continuamos incluso si hay error en la verificación de balance
-            }
-
-            // Notificar que se está procesando la transacción
-            callback?.(
-                {
-                    text: `Procesando transferencia de ${tokenInfo.amount} ${token.symbol} desde tu wallet personal (${fromAddress}) hacia ${toAddress}...`,
-                },
-                []
+            // Convertir la cantidad a la unidad más pequeña según los
+            // decimales del token; "la mitad" o "todo" se calculan sobre el
+            // balance de la wallet
+            const available =
+                transferIntent.amount.type === "absolute"
+                    ? 0n
+                    : await publicClient.readContract({
+                          address: token.address,
+                          abi: erc20TransferAbi,
+                          functionName: "balanceOf",
+                          args: [fromAddress],
+                      });
+            const amountInSmallestUnit = resolveIntentAmount(
+                transferIntent.amount,
+                available,
+                (value) => parseUnits(value, token.decimals)
             );
-
-            // Realizar la transacción de token ERC20
-            const txHash = await walletClient.writeContract({
-                account: fromAddress,
-                address: token.address,
-                abi: erc20TransferAbi,
-                functionName: "transfer",
-                args: [toAddress, amountInSmallestUnit],
-                chain: mantleSepoliaTestnet,
-            });
-
-            // Esperar a que se confirme la transacción
-            const receipt = await publicClient.waitForTransactionReceipt({
-                hash: txHash,
-                confirmations: 1, // Esperar al menos 1 confirmación
+            if (amountInSmallestUnit <= 0n) {
+                callback?.(
+                    {
+                        text: `No tienes ${token.symbol} suficiente para esa transferencia.`,
+                    },
+                    []
+                );
+                return false;
+            }
+            const amount = formatUnits(amountInSmallestUnit, token.decimals);
+
+            const prepared = await prepareERC20Transfer(agent, {
+                userId,
+                provider: userWalletProvider,
+                token,
+                to: toAddress,
+                amount: amountInSmallestUnit,
             });
+            if (prepared.error) {
+                callback?.({ text: prepared.error }, []);
+                return false;
+            }
+            const { estimatedGas, gasPrice, sponsoredGas } = prepared.quote;
 
-            // Crear mensaje de éxito con detalles de la transacción
-            const successText = [
-                `✅ Transferencia de token ERC20 completada con éxito:`,
-                ``,
-                `Token: ${token.symbol} (${token.name})`,
-                `Cantidad: ${tokenInfo.amount} ${token.symbol}`,
-                `De: ${fromAddress} (tu wallet)`,
-                `Para: ${toAddress}`,
-                `Hash de Transacción: ${txHash}`,
-                `Estado: ${
-                    receipt.status === "success" ? "Exitoso" : "Pendiente"
-                }`,
-                ``,
-                `Ver en el explorador: https://sepolia.mantlescan.xyz/tx/${txHash}`,
-            ].join("\n");
-
-            // Guardar en memoria los detalles de la transacción
-            await agent.documentsManager.createMemory({
-                id: generateId(),
-                userId: memory.userId,
-                agentId: memory.agentId,
-                content: {
-                    text: successText,
-                    action: "TRANSFER_ERC20",
-                    transaction: {
-                        hash: txHash,
-                        from: fromAddress,
-                        to: toAddress,
-                        token: token.symbol,
-                        tokenAddress: token.address,
-                        amount: tokenInfo.amount,
-                        blockNumber: receipt.blockNumber,
-                        status: receipt.status,
-                    },
-                },
+            // Registrar la intención y pedir confirmación explícita
+            const intent = await createPendingIntent(agent, {
+                userId,
                 roomId: memory.roomId,
+                action: "TRANSFER_ERC20",
+                params: {
+                    to: toAddress,
+                    amount,
+                    symbol: token.symbol,
+                },
+                quote: {
+                    recipient: toAddress,
+                    recipientName: recipient.name,
+                    amount,
+                    symbol: token.symbol,
+                    estimatedGas: estimatedGas.toString(),
+                    estimatedFee: formatEther(estimatedGas * gasPrice),
+                    sponsoredGas,
+                },
             });
 
-            // Devolver mensaje de éxito
             callback?.(
                 {
-                    text: successText,
+                    text: formatIntentQuote(intent),
                 },
                 []
             );
@@ -311,7 +631,7 @@ export const transferERC20Action: Action = {
             {
                 user: "{{agentName}}",
                 content: {
-                    text: "Procesando tu transferencia de tokens AISHOP...",
+                    text: "Preparando el resumen de tu transferencia de AISHOP para que lo confirmes...",
                     action: "TRANSFER_ERC20",
                 },
             },
@@ -346,5 +666,20 @@ export const transferERC20Action: Action = {
                 },
             },
         ],
+        [
+            {
+                user: "{{user1}}",
+                content: {
+                    text: "Send half my AISHOP to 0x1234567890abcdef1234567890abcdef12345678",
+                },
+            },
+            {
+                user: "{{agentName}}",
+                content: {
+                    text: "Preparando el resumen para enviar la mitad de tus AISHOP...",
+                    action: "TRANSFER_ERC20",
+                },
+            },
+        ],
     ] as ActionExample[][],
 };
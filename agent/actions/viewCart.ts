@@ -0,0 +1,193 @@
+import {
+    Action,
+    ActionExample,
+    HandlerCallback,
+    IAgentRuntime,
+    Memory,
+    State,
+} from "@elizaos/core";
+import { COUPON_REGEX } from "./applyCoupon";
+import { getProductCatalog, PAYMENT_TOKENS } from "../services/catalog";
+import { formatOrderLines, getCart, quoteCart } from "../services/cart";
+import { applyCartCoupon } from "../services/promotions";
+
+const VIEW_CART_REGEX =
+    /\b(ver|muestra|mostrar|mu[eé]strame|revisa|qu[eé] hay en|qu[eé] tengo en|mi|view|show|see|my)\b.*\b(carrito|cesta|cart|basket)\b/i;
+const EDIT_CART_REGEX =
+    /\b(añade|agrega|quita|elimina|vacía|vaciar|add|remove|empty|clear)\b/i;
+
+export const viewCartAction: Action = {
+    name: "VIEW_CART",
+    similes: ["VER_CARRITO", "SHOW_CART", "MY_CART"],
+    description:
+        "Muestra los productos del carrito del usuario y el total en AISHOP o MNT",
+
+    validate: async (_agent: IAgentRuntime, memory: Memory, _state?: State) => {
+        const text = memory.content?.text || "";
+        return (
+            VIEW_CART_REGEX.test(text) &&
+            !EDIT_CART_REGEX.test(text) &&
+            !COUPON_REGEX.test(text)
+        );
+    },
+
+    handler: async (
+        agent: IAgentRuntime,
+        memory: Memory,
+        state?: State,
+        _options?: any,
+        callback?: HandlerCallback
+    ) => {
+        try {
+            // Obtener el userId desde memory o state
+            const userId = memory.userId || state?.userId;
+
+            if (!userId) {
+                callback?.(
+                    {
+                        text: "No se pudo identificar tu cuenta. Por favor inténtalo de nuevo o contacta a soporte.",
+                    },
+                    []
+                );
+                return false;
+            }
+
+            const catalog = getProductCatalog(agent);
+            if (!catalog) {
+                callback?.(
+                    {
+                        text: "El catálogo de productos no está disponible en este momento.",
+                    },
+                    []
+                );
+                return false;
+            }
+
+            const cart = await getCart(agent, userId, memory.roomId);
+            if (cart.items.length === 0) {
+                callback?.(
+                    {
+                        text: 'Tu carrito está vacío. Busca productos y di "añade <SKU> al carrito".',
+                        cart: [],
+                    },
+                    []
+                );
+                return true;
+            }
+
+            // Total en cada moneda que aceptan todos los productos
+            const quotes = PAYMENT_TOKENS.map((token) =>
+                quoteCart(catalog, cart, token)
+            );
+            const payable = quotes.flatMap((result) =>
+                result.quote ? [result.quote] : []
+            );
+            const lines = payable[0]?.lines ?? [];
+            // El cupón del carrito se descuenta en las monedas donde es válido
+            const discounted = await Promise.all(
+                payable.map((quote) => applyCartCoupon(agent, cart, quote))
+            );
+            const totals = discounted.map(
+                (result, i) => result.quote ?? payable[i]
+            );
+            const withCoupon = totals.filter((quote) => quote.coupon);
+            const couponLines = !cart.coupon
+                ? []
+                : withCoupon.length > 0
+                  ? [
+                        `🏷️ Cupón ${cart.coupon}: ${withCoupon
+                            .map(
+                                (quote) =>
+                                    `-${quote.coupon?.discount} ${quote.token}`
+                            )
+                            .join(" o ")}`,
+                    ]
+                  : [`🏷️ ${discounted[0]?.error ?? `Cupón ${cart.coupon}`}`];
+
+            callback?.(
+                {
+                    text: [
+                        "🛒 Tu carrito:",
+                        ...(payable.length > 0
+                            ? formatOrderLines(lines, payable[0].token)
+                            : cart.items.map(
+                                  (item) =>
+                                      `• ${item.quantity} × ${
+                                          catalog.getProduct(item.sku)?.title ??
+                                          item.sku
+                                      } (SKU ${item.sku})`
+                              )),
+                        ...couponLines,
+                        "",
+                        ...(payable.length > 0
+                            ? [
+                                  `Total: ${totals
+                                      .map(
+                                          (quote) =>
+                                              `${quote.total} ${quote.token}`
+                                      )
+                                      .join(" o ")}`,
+                                  `Di "pagar con ${payable[0].token}" para finalizar la compra.`,
+                              ]
+                            : [
+                                  quotes[0].error ??
+                                      "No hay una moneda en la que se puedan pagar todos los productos.",
+                              ]),
+                    ].join("\n"),
+                    cart: cart.items,
+                    coupon: cart.coupon,
+                    totals: Object.fromEntries(
+                        totals.map((quote) => [quote.token, quote.total])
+                    ),
+                },
+                []
+            );
+            return true;
+        } catch (error) {
+            console.error("Error al mostrar el carrito:", error);
+            callback?.(
+                {
+                    text: `Error al mostrar el carrito: ${
+                        error instanceof Error
+                            ? error.message
+                            : "Error desconocido"
+                    }`,
+                },
+                []
+            );
+            return false;
+        }
+    },
+    examples: [
+        [
+            {
+                user: "{{user1}}",
+                content: {
+                    text: "¿Qué hay en mi carrito?",
+                },
+            },
+            {
+                user: "{{agentName}}",
+                content: {
+                    text: "Revisando tu carrito...",
+                    action: "VIEW_CART",
+                },
+            },
+        ],
+        [
+            {
+                user: "{{user1}}",
+                content: {
+                    text: "Show my cart",
+                },
+            },
+            {
+                user: "{{agentName}}",
+                content: {
+                    text: "Here is your cart...",
+                    action: "VIEW_CART",
+                },
+            },
+        ],
+    ] as ActionExample[][],
+};
@@ -18,6 +18,11 @@ export const mantleChain = {
     },
 } as const satisfies Chain;
 
+// El RPC de Mantle Sepolia se puede apuntar a otro nodo (por ejemplo el
+// devnet local de las pruebas de integración) con MANTLE_SEPOLIA_RPC_URL
+const mantleSepoliaRpcUrl =
+    process.env.MANTLE_SEPOLIA_RPC_URL || "https://rpc.sepolia.mantle.xyz";
+
 export const mantleSepoliaTestnet = {
     id: 5003,
     name: "Mantle Sepolia Testnet",
@@ -27,10 +32,35 @@ export const mantleSepoliaTestnet = {
         symbol: "MNT",
     },
     rpcUrls: {
-        default: { http: ["https://rpc.sepolia.mantle.xyz"] },
-        public: { http: ["https://rpc.sepolia.mantle.xyz"] },
+        default: { http: [mantleSepoliaRpcUrl] },
+        public: { http: [mantleSepoliaRpcUrl] },
     },
     blockExplorers: {
         default: { name: "Explorer", url: "https://sepolia.mantlescan.xyz/" },
     },
 } as const satisfies Chain;
+
+// El staking de mETH de HiveFi se ejecuta en Ethereum
+export const ethereumChain = {
+    id: 1,
+    name: "Ethereum",
+    nativeCurrency: {
+        decimals: 18,
+        name: "Ether",
+        symbol: "ETH",
+    },
+    rpcUrls: {
+        default: { http: ["https://eth.llamarpc.com"] },
+        public: { http: ["https://eth.llamarpc.com"] },
+    },
+    blockExplorers: {
+        default: { name: "Etherscan", url: "https://etherscan.io" },
+    },
+} as const satisfies Chain;
+
+// Cadenas soportadas indexadas por chainId
+export const CHAINS_BY_ID: Record<number, Chain> = {
+    [ethereumChain.id]: ethereumChain,
+    [mantleChain.id]: mantleChain,
+    [mantleSepoliaTestnet.id]: mantleSepoliaTestnet,
+};
@@ -1,4 +1,10 @@
-import type { Address } from "viem";
+import {
+    ServiceType,
+    type IAgentRuntime,
+    type ITokenRegistryService,
+    type TokenListEntry,
+} from "@elizaos/core";
+import { zeroAddress, type Address } from "viem";
 
 interface BaseTokenConfig {
     symbol: string;
@@ -16,41 +22,58 @@ interface ERC20TokenConfig extends BaseTokenConfig {
 }
 
 type TokenConfig = NativeTokenConfig | ERC20TokenConfig;
-export type { TokenConfig };
+export type { TokenConfig, ERC20TokenConfig };
 
-type TokensConfig = {
-    [K in string]: TokenConfig;
-};
+// En las listas de tokens la moneda nativa usa la dirección cero
+export function isNativeToken(token: TokenListEntry): boolean {
+    return token.address.toLowerCase() === zeroAddress;
+}
 
-export const TOKENS: TokensConfig = {
-    MNT: {
-        type: 'native',
-        symbol: "MNT",
-        name: "Mantle",
-        decimals: 18,
-    },
-    AISHOP: {
+export function toTokenConfig(token: TokenListEntry): TokenConfig {
+    if (isNativeToken(token)) {
+        return {
+            type: 'native',
+            symbol: token.symbol,
+            name: token.name,
+            decimals: token.decimals,
+        };
+    }
+    return {
         type: 'erc20',
-        symbol: "AISHOP",
-        name: "AI Shop Agent",
-        address: "0x0E02649Db4d1Aa8c202aA44EA99e3606d12a21b1" as Address,
-        decimals: 18,
-    },
-} as const;
+        symbol: token.symbol,
+        name: token.name,
+        address: token.address as Address,
+        decimals: token.decimals,
+    };
+}
 
-export type TokenSymbol = keyof typeof TOKENS;
+function getTokenRegistry(runtime: IAgentRuntime) {
+    return runtime.getService<ITokenRegistryService>(
+        ServiceType.TOKEN_REGISTRY
+    );
+}
 
-// Helper functions to get token data
-export function getTokenBySymbol(symbol: TokenSymbol): TokenConfig {
-    return TOKENS[symbol];
+// Helper functions to resolve tokens through the token registry
+export function getTokenBySymbol(
+    runtime: IAgentRuntime,
+    chainId: number,
+    symbol: string
+): TokenConfig | undefined {
+    const token = getTokenRegistry(runtime)?.getToken(chainId, symbol);
+    return token ? toTokenConfig(token) : undefined;
 }
 
-export function getTokenByAddress(address: string): ERC20TokenConfig | undefined {
-    const normalizedAddress = address.toLowerCase();
-    const token = Object.values(TOKENS).find(
-        token => token.type === 'erc20' && token.address.toLowerCase() === normalizedAddress
+export function getTokenByAddress(
+    runtime: IAgentRuntime,
+    chainId: number,
+    address: string
+): ERC20TokenConfig | undefined {
+    const token = getTokenRegistry(runtime)?.getTokenByAddress(
+        chainId,
+        address
     );
-    return token?.type === 'erc20' ? token : undefined;
+    const config = token ? toTokenConfig(token) : undefined;
+    return config?.type === 'erc20' ? config : undefined;
 }
 
 // Helper to check if a token is ERC20
@@ -58,19 +81,12 @@ export function isERC20Token(token: TokenConfig): token is ERC20TokenConfig {
     return token.type === 'erc20';
 }
 
-// Get all ERC20 tokens
-export function getERC20Tokens(): ERC20TokenConfig[] {
-    return Object.values(TOKENS).filter(isERC20Token);
-}
-
-// Derived maps for specific use cases
-export const TOKEN_ADDRESSES: Record<string, Address> = {};
-export const TOKEN_DECIMALS: Record<string, number> = {};
-
-// Initialize the derived maps
-for (const [symbol, token] of Object.entries(TOKENS)) {
-    if (token.type === 'erc20') {
-        TOKEN_ADDRESSES[symbol] = token.address;
-    }
-    TOKEN_DECIMALS[symbol] = token.decimals;
+// Get all ERC20 tokens of a chain
+export function getERC20Tokens(
+    runtime: IAgentRuntime,
+    chainId: number
+): ERC20TokenConfig[] {
+    return (getTokenRegistry(runtime)?.getTokens(chainId) ?? [])
+        .map(toTokenConfig)
+        .filter(isERC20Token);
 }
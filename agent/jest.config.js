@@ -3,6 +3,12 @@ export default {
     preset: "ts-jest",
     testEnvironment: "node",
     extensionsToTreatAsEsm: [".ts"],
+    // Shared test helpers and the devnet integration test fixtures
+    testPathIgnorePatterns: [
+        "/node_modules/",
+        "/__tests__/helpers/",
+        "/__tests__/devnet/",
+    ],
     moduleNameMapper: {
         "^(\\.{1,2}/.*)\\.js$": "$1",
     },
@@ -0,0 +1,39 @@
+import type { IAgentRuntime, Memory, Provider, State } from "@elizaos/core";
+import { formatProductSummary } from "../actions/searchProducts";
+import { getProductCatalog, parseProductQuery } from "../services/catalog";
+
+// Productos que se añaden al estado en cada mensaje
+const MAX_CONTEXT_PRODUCTS = 3;
+
+// Inyecta en composeState los productos del catálogo relacionados con el
+// mensaje. Solo usa la búsqueda por palabras para no calcular un embedding
+// extra en cada mensaje; la búsqueda semántica queda para SEARCH_PRODUCTS.
+export const productCatalogProvider: Provider = {
+    async get(
+        runtime: IAgentRuntime,
+        memory: Memory,
+        _state?: State
+    ): Promise<string> {
+        try {
+            const catalog = getProductCatalog(runtime);
+            if (!catalog) return "";
+
+            const query = parseProductQuery(memory.content?.text || "");
+            if (!query.query) return "";
+
+            const matches = catalog.search({
+                ...query,
+                limit: MAX_CONTEXT_PRODUCTS,
+            });
+            if (matches.length === 0) return "";
+
+            return [
+                "Productos del catálogo relacionados con el mensaje:",
+                ...matches.map((match) => formatProductSummary(match.product)),
+            ].join("\n");
+        } catch (error) {
+            console.error("Error en el proveedor del catálogo:", error);
+            return "";
+        }
+    },
+};
@@ -14,18 +14,23 @@ import {
 import { privateKeyToAccount } from "viem/accounts";
 import type { Provider, IAgentRuntime, Memory, State } from "@elizaos/core";
 import { mantleSepoliaTestnet } from "../config/chains";
-import { TOKENS, isERC20Token } from "../config/token";
-import { getUserWallet, userHasWallet } from "../actions/createWallet";
+import { getTokenBySymbol, isERC20Token } from "../config/token";
+import { userHasWallet } from "../actions/createWallet";
+import { unlockUserWallet } from "../services/keystore";
 
-class WalletProvider {
+const DEFAULT_RPC_URL = mantleSepoliaTestnet.rpcUrls.default.http[0];
+
+export class WalletProvider {
     private account: ReturnType<typeof privateKeyToAccount>;
     private walletClient: WalletClient;
+    private rpcUrl: string;
 
     constructor(
         privateKey: `0x${string}`,
-        rpcUrl = "https://rpc.sepolia.mantle.xyz"
+        rpcUrl = DEFAULT_RPC_URL
     ) {
         this.account = privateKeyToAccount(privateKey);
+        this.rpcUrl = rpcUrl;
 
         this.walletClient = createWalletClient({
             account: this.account,
@@ -44,7 +49,7 @@ class WalletProvider {
 
     async getBalance(): Promise<string> {
         try {
-            const balance = await publicClient.getBalance({
+            const balance = await this.getPublicClient().getBalance({
                 address: this.account.address,
             });
             return formatEther(balance);
@@ -102,10 +107,11 @@ class WalletProvider {
         return this.walletClient;
     }
 
+    // Lecturas y recibos por el mismo RPC que envía las transacciones
     getPublicClient(): PublicClient<HttpTransport, Chain, Account | undefined> {
         const publicClient = createPublicClient({
             chain: mantleSepoliaTestnet,
-            transport: http("https://rpc.sepolia.mantle.xyz"),
+            transport: http(this.rpcUrl),
         });
         return publicClient;
     }
@@ -117,23 +123,17 @@ export async function initUserWalletProvider(
     userId: string
 ): Promise<WalletProvider | null> {
     try {
-        // Obtener la wallet del usuario desde el storage
-        const userWallet = await getUserWallet(runtime, userId);
-        if (!userWallet) {
+        // Descifrar la clave privada del usuario con la clave maestra
+        const privateKey = await unlockUserWallet(runtime, userId);
+        if (!privateKey) {
             console.error("No se encontró una wallet para el usuario", userId);
             return null;
         }
 
-        // Normalizar la clave privada
-        const normalizedKey = userWallet.privateKey.startsWith("0x")
-            ? (userWallet.privateKey as `0x${string}`)
-            : (`0x${userWallet.privateKey}` as `0x${string}`);
-
         const rpcUrl =
-            runtime.getSetting("EVM_RPC_URL") ||
-            "https://rpc.sepolia.mantle.xyz";
+            runtime.getSetting("EVM_RPC_URL") || DEFAULT_RPC_URL;
 
-        return new WalletProvider(normalizedKey, rpcUrl);
+        return new WalletProvider(privateKey, rpcUrl);
     } catch (error) {
         console.error(
             "Error al inicializar el proveedor de wallet del usuario:",
@@ -158,8 +158,7 @@ export function initWalletProvider(
             ? (privateKey as `0x${string}`)
             : (`0x${privateKey}` as `0x${string}`);
         const rpcUrl =
-            runtime.getSetting("EVM_RPC_URL") ||
-            "https://rpc.sepolia.mantle.xyz";
+            runtime.getSetting("EVM_RPC_URL") || DEFAULT_RPC_URL;
 
         return new WalletProvider(normalizedKey, rpcUrl);
     } catch (error) {
@@ -168,11 +167,13 @@ export function initWalletProvider(
     }
 }
 
-// Create a public client for read-only operations
-const publicClient = createPublicClient({
-    chain: mantleSepoliaTestnet,
-    transport: http("https://rpc.sepolia.mantle.xyz"),
-});
+// Create a public client for read-only operations on the configured RPC
+function getReadClient(runtime: IAgentRuntime) {
+    return createPublicClient({
+        chain: mantleSepoliaTestnet,
+        transport: http(runtime.getSetting("EVM_RPC_URL") || DEFAULT_RPC_URL),
+    });
+}
 
 // Export the provider for use in the plugin
 export const walletProvider: Provider = {
@@ -194,6 +195,7 @@ export const walletProvider: Provider = {
                 memory.content?.text?.match(/0x[a-fA-F0-9]{40}/i);
             if (addressMatch) {
                 const address = addressMatch[0].toLowerCase() as `0x${string}`;
+                const publicClient = getReadClient(runtime);
                 try {
                     // Obtener balance de MNT
                     const nativeBalance = await publicClient.getBalance({
@@ -202,9 +204,13 @@ export const walletProvider: Provider = {
 
                     // Obtener balance de AISHOP si está configurado
                     let aishopBalance = "No disponible";
-                    const aishopToken = TOKENS.AISHOP;
+                    const aishopToken = getTokenBySymbol(
+                        runtime,
+                        mantleSepoliaTestnet.id,
+                        "AISHOP"
+                    );
 
-                    if (isERC20Token(aishopToken)) {
+                    if (aishopToken && isERC20Token(aishopToken)) {
                         try {
                             const erc20Abi = [
                                 {
@@ -304,9 +310,13 @@ export const walletProvider: Provider = {
 
                 // Obtener balance de AISHOP
                 let aishopBalance = "No disponible";
-                const aishopToken = TOKENS.AISHOP;
+                const aishopToken = getTokenBySymbol(
+                    runtime,
+                    mantleSepoliaTestnet.id,
+                    "AISHOP"
+                );
 
-                if (isERC20Token(aishopToken)) {
+                if (aishopToken && isERC20Token(aishopToken)) {
                     try {
                         const tokenBalance = await provider.getTokenBalance(
                             aishopToken.address
@@ -0,0 +1,40 @@
+import type { IAgentRuntime } from "@elizaos/core";
+
+// Escrituras en curso por clave. El cache solo ofrece get/set, así que dos
+// actualizaciones concurrentes de la misma clave perderían cambios si no se
+// encadenan.
+const queues = new Map<string, Promise<unknown>>();
+
+// Lee, modifica y guarda un valor del cache de forma serializada dentro del
+// proceso. Devuelve el valor guardado.
+export async function updateCacheEntry<T>(
+    runtime: IAgentRuntime,
+    key: string,
+    update: (current: T | undefined) => T
+): Promise<T> {
+    const queueKey = `${runtime.agentId}:${key}`;
+    const next = (queues.get(queueKey) ?? Promise.resolve())
+        .catch(() => undefined)
+        .then(async () => {
+            const updated = update(await runtime.cacheManager.get<T>(key));
+            await runtime.cacheManager.set(key, updated);
+            return updated;
+        });
+    queues.set(queueKey, next);
+    try {
+        return await next;
+    } finally {
+        if (queues.get(queueKey) === next) queues.delete(queueKey);
+    }
+}
+
+// Igual que updateCacheEntry para una lista, que empieza vacía
+export function updateCacheIndex<T>(
+    runtime: IAgentRuntime,
+    key: string,
+    update: (entries: T[]) => T[]
+): Promise<T[]> {
+    return updateCacheEntry<T[]>(runtime, key, (entries) =>
+        update(entries ?? [])
+    );
+}
@@ -0,0 +1,202 @@
+import type { IAgentRuntime } from "@elizaos/core";
+import { formatUnits, parseUnits } from "viem";
+import type { PaymentToken, ProductCatalogService } from "./catalog";
+import type { OrderLine } from "./orders";
+
+// Carrito de un usuario en una conversación. Solo guarda SKU y cantidades;
+// títulos y precios se leen del catálogo al mostrarlo o pagarlo.
+export interface Cart {
+    userId: string;
+    roomId: string;
+    items: CartItem[];
+    // Cupón aplicado con APPLY_COUPON; se valida de nuevo al pagar
+    coupon?: string;
+    updatedAt: number;
+}
+
+export interface CartItem {
+    sku: string;
+    quantity: number;
+}
+
+export interface CartQuote {
+    token: PaymentToken;
+    lines: OrderLine[];
+    total: string;
+    // Total antes del cupón, si se aplicó uno
+    subtotal?: string;
+    coupon?: { code: string; discount: string };
+}
+
+export const CART_PREFIX = "cart:";
+// Los precios se suman con esta precisión para no perder decimales
+const PRICE_DECIMALS = 18;
+
+function cartKey(userId: string, roomId: string): string {
+    return `${CART_PREFIX}${userId}:${roomId}`;
+}
+
+export async function getCart(
+    runtime: IAgentRuntime,
+    userId: string,
+    roomId: string
+): Promise<Cart> {
+    return (
+        (await runtime.cacheManager.get<Cart>(cartKey(userId, roomId))) ?? {
+            userId,
+            roomId,
+            items: [],
+            updatedAt: Date.now(),
+        }
+    );
+}
+
+async function saveCart(runtime: IAgentRuntime, cart: Cart): Promise<Cart> {
+    const saved = { ...cart, updatedAt: Date.now() };
+    await runtime.cacheManager.set(cartKey(cart.userId, cart.roomId), saved);
+    return saved;
+}
+
+export async function setCartCoupon(
+    runtime: IAgentRuntime,
+    userId: string,
+    roomId: string,
+    coupon?: string
+): Promise<Cart> {
+    const cart = await getCart(runtime, userId, roomId);
+    return saveCart(runtime, { ...cart, coupon: coupon?.toUpperCase() });
+}
+
+export async function clearCart(
+    runtime: IAgentRuntime,
+    userId: string,
+    roomId: string
+): Promise<void> {
+    await runtime.cacheManager.delete(cartKey(userId, roomId));
+}
+
+// Añade unidades de un producto sin superar el stock disponible
+export async function addToCart(
+    runtime: IAgentRuntime,
+    catalog: ProductCatalogService,
+    userId: string,
+    roomId: string,
+    sku: string,
+    quantity: number
+): Promise<
+    { cart: Cart; error?: undefined } | { cart?: undefined; error: string }
+> {
+    const product = catalog.getProduct(sku);
+    if (!product) {
+        return { error: `No existe ningún producto con SKU ${sku}.` };
+    }
+    if (!Number.isInteger(quantity) || quantity <= 0) {
+        return { error: "La cantidad debe ser un número entero mayor que 0." };
+    }
+
+    const cart = await getCart(runtime, userId, roomId);
+    const existing = cart.items.find((item) => item.sku === product.sku);
+    const total = (existing?.quantity ?? 0) + quantity;
+    if (total > product.stock) {
+        return {
+            error:
+                product.stock > 0
+                    ? `Solo quedan ${product.stock} unidades de ${product.title}${
+                          existing
+                              ? ` y ya tienes ${existing.quantity} en el carrito`
+                              : ""
+                      }.`
+                    : `${product.title} está agotado.`,
+        };
+    }
+
+    const items = existing
+        ? cart.items.map((item) =>
+              item.sku === product.sku ? { ...item, quantity: total } : item
+          )
+        : [...cart.items, { sku: product.sku, quantity }];
+    return { cart: await saveCart(runtime, { ...cart, items }) };
+}
+
+// Quita `quantity` unidades del producto, o todas si no se indica
+export async function removeFromCart(
+    runtime: IAgentRuntime,
+    userId: string,
+    roomId: string,
+    sku: string,
+    quantity?: number
+): Promise<Cart | null> {
+    const cart = await getCart(runtime, userId, roomId);
+    const existing = cart.items.find(
+        (item) => item.sku === sku.toUpperCase()
+    );
+    if (!existing) return null;
+
+    const remaining =
+        quantity === undefined ? 0 : Math.max(existing.quantity - quantity, 0);
+    const items =
+        remaining > 0
+            ? cart.items.map((item) =>
+                  item === existing ? { ...item, quantity: remaining } : item
+              )
+            : cart.items.filter((item) => item !== existing);
+    return saveCart(runtime, { ...cart, items });
+}
+
+// Calcula el total del carrito en el token elegido. Todos los productos
+// deben tener precio en ese token y stock suficiente.
+export function quoteCart(
+    catalog: ProductCatalogService,
+    cart: Cart,
+    token: PaymentToken
+):
+    | { quote: CartQuote; error?: undefined }
+    | { quote?: undefined; error: string } {
+    if (cart.items.length === 0) {
+        return { error: "Tu carrito está vacío." };
+    }
+
+    const lines: OrderLine[] = [];
+    let total = 0n;
+    for (const item of cart.items) {
+        const product = catalog.getProduct(item.sku);
+        if (!product) {
+            return {
+                error: `El producto ${item.sku} ya no está en el catálogo. Quítalo del carrito para continuar.`,
+            };
+        }
+        const unitPrice = product.price[token];
+        if (!unitPrice) {
+            return {
+                error: `${product.title} no se puede pagar en ${token}. Elige otra moneda o quítalo del carrito.`,
+            };
+        }
+        if (item.quantity > product.stock) {
+            return {
+                error: `Solo quedan ${product.stock} unidades de ${product.title}.`,
+            };
+        }
+
+        const subtotal =
+            parseUnits(unitPrice, PRICE_DECIMALS) * BigInt(item.quantity);
+        total += subtotal;
+        lines.push({
+            sku: product.sku,
+            title: product.title,
+            quantity: item.quantity,
+            unitPrice,
+            subtotal: formatUnits(subtotal, PRICE_DECIMALS),
+        });
+    }
+
+    return {
+        quote: { token, lines, total: formatUnits(total, PRICE_DECIMALS) },
+    };
+}
+
+export function formatOrderLines(lines: OrderLine[], token: string): string[] {
+    return lines.map(
+        (line) =>
+            `• ${line.quantity} × ${line.title} (SKU ${line.sku}): ${line.subtotal} ${token}`
+    );
+}
@@ -0,0 +1,586 @@
+import {
+    elizaLogger,
+    Service,
+    ServiceType,
+    stringToUuid,
+    type IAgentRuntime,
+    type UUID,
+} from "@elizaos/core";
+import fs from "fs";
+import path from "path";
+
+// Monedas en las que se puede fijar el precio de un producto
+export const PAYMENT_TOKENS = ["AISHOP", "MNT"] as const;
+export type PaymentToken = (typeof PAYMENT_TOKENS)[number];
+
+export interface Product {
+    sku: string;
+    title: string;
+    description: string;
+    // Precio decimal por moneda, p. ej. { AISHOP: "25", MNT: "1.5" }
+    price: Partial<Record<PaymentToken, string>>;
+    stock: number;
+    images: string[];
+    categories: string[];
+}
+
+export interface ProductQuery {
+    query: string;
+    category?: string;
+    maxPrice?: number;
+    token?: PaymentToken;
+    inStockOnly?: boolean;
+    limit?: number;
+}
+
+export interface ProductMatch {
+    product: Product;
+    score: number;
+}
+
+// Ventas descontadas del stock de un producto. `base` es el stock que traía
+// el catálogo al contarlas: si se carga un catálogo con otro stock, la tienda
+// ya lo actualizó y las ventas anteriores dejan de restarse.
+interface StockAdjustment {
+    base: number;
+    sold: number;
+}
+
+const STOCK_PREFIX = "product_stock:";
+
+const CATALOG_EXTENSIONS = [".json", ".csv"];
+const DEFAULT_SEARCH_LIMIT = 5;
+// Separador de imágenes y categorías dentro de una celda CSV
+const CSV_LIST_SEPARATOR = "|";
+
+// Palabras de la petición que no describen el producto buscado
+const QUERY_STOPWORDS = new Set([
+    "busca",
+    "buscar",
+    "búscame",
+    "buscame",
+    "muestra",
+    "muéstrame",
+    "muestrame",
+    "tienes",
+    "tienen",
+    "hay",
+    "quiero",
+    "ver",
+    "producto",
+    "productos",
+    "catalogo",
+    "catálogo",
+    "de",
+    "del",
+    "la",
+    "el",
+    "los",
+    "las",
+    "un",
+    "una",
+    "unos",
+    "unas",
+    "en",
+    "para",
+    "con",
+    "que",
+    "algún",
+    "algun",
+    "alguna",
+    "search",
+    "find",
+    "show",
+    "me",
+    "products",
+    "product",
+    "catalog",
+    "do",
+    "you",
+    "have",
+    "any",
+    "a",
+    "an",
+    "the",
+    "for",
+    "with",
+    "in",
+    "of",
+]);
+
+function normalize(text: string): string {
+    return text
+        .toLowerCase()
+        .normalize("NFD")
+        .replace(/\p{Diacritic}/gu, "");
+}
+
+function tokenize(text: string): string[] {
+    return normalize(text)
+        .split(/[^a-z0-9-]+/)
+        .filter((term) => term.length > 1 && !QUERY_STOPWORDS.has(term));
+}
+
+function isPaymentToken(symbol: string): symbol is PaymentToken {
+    return (PAYMENT_TOKENS as readonly string[]).includes(symbol);
+}
+
+// Valida un producto del catálogo; los precios deben ser decimales positivos
+function parseProduct(raw: unknown, source: string): Product {
+    const item = raw as Record<string, unknown>;
+    const invalid = (reason: string) =>
+        new Error(
+            `Producto inválido en ${source} (${reason}): ${JSON.stringify(raw)}`
+        );
+    if (!item || typeof item !== "object") throw invalid("no es un objeto");
+    if (typeof item.sku !== "string" || !item.sku.trim()) {
+        throw invalid("falta sku");
+    }
+    if (typeof item.title !== "string" || !item.title.trim()) {
+        throw invalid("falta title");
+    }
+
+    const price: Product["price"] = {};
+    for (const [symbol, value] of Object.entries(
+        (item.price as Record<string, unknown>) ?? {}
+    )) {
+        const token = symbol.toUpperCase();
+        if (!isPaymentToken(token)) throw invalid(`moneda ${symbol}`);
+        const amount = String(value).trim();
+        if (!/^\d+(\.\d+)?$/.test(amount) || Number(amount) <= 0) {
+            throw invalid(`precio ${symbol}`);
+        }
+        price[token] = amount;
+    }
+    if (Object.keys(price).length === 0) throw invalid("sin precio");
+
+    const stock = Number(item.stock ?? 0);
+    if (!Number.isInteger(stock) || stock < 0) throw invalid("stock");
+
+    const list = (value: unknown) =>
+        Array.isArray(value) ? value.map(String).filter(Boolean) : [];
+    return {
+        sku: item.sku.trim(),
+        title: item.title.trim(),
+        description:
+            typeof item.description === "string" ? item.description.trim() : "",
+        price,
+        stock,
+        images: list(item.images),
+        categories: list(item.categories),
+    };
+}
+
+// Acepta un arreglo de productos o un objeto { products: [...] }
+export function parseProductsJson(json: unknown, source: string): Product[] {
+    const items = Array.isArray(json)
+        ? json
+        : (json as { products?: unknown })?.products;
+    if (!Array.isArray(items)) {
+        throw new Error(`Catálogo inválido en ${source}: falta "products"`);
+    }
+    return items.map((item) => parseProduct(item, source));
+}
+
+// Divide una línea CSV respetando comillas dobles ("" escapa una comilla)
+function splitCsvLine(line: string): string[] {
+    const cells: string[] = [];
+    let cell = "";
+    let quoted = false;
+    for (let i = 0; i < line.length; i++) {
+        const char = line[i];
+        if (quoted) {
+            if (char === '"' && line[i + 1] === '"') {
+                cell += '"';
+                i++;
+            } else if (char === '"') {
+                quoted = false;
+            } else {
+                cell += char;
+            }
+        } else if (char === '"') {
+            quoted = true;
+        } else if (char === ",") {
+            cells.push(cell);
+            cell = "";
+        } else {
+            cell += char;
+        }
+    }
+    cells.push(cell);
+    return cells.map((value) => value.trim());
+}
+
+// CSV con cabecera sku,title,description,price_aishop,price_mnt,stock,images,
+// categories; imágenes y categorías van separadas por "|"
+export function parseProductsCsv(text: string, source: string): Product[] {
+    const lines = text
+        .split(/\r?\n/)
+        .filter((line) => line.trim().length > 0);
+    if (lines.length === 0) return [];
+
+    const header = splitCsvLine(lines[0]).map((column) =>
+        column.toLowerCase()
+    );
+    if (!header.includes("sku") || !header.includes("title")) {
+        throw new Error(
+            `Catálogo CSV inválido en ${source}: la cabecera debe incluir sku y title`
+        );
+    }
+
+    return lines.slice(1).map((line) => {
+        const cells = splitCsvLine(line);
+        const row = Object.fromEntries(
+            header.map((column, index) => [column, cells[index] ?? ""])
+        );
+        const list = (value: string) =>
+            value
+                .split(CSV_LIST_SEPARATOR)
+                .map((entry) => entry.trim())
+                .filter(Boolean);
+        const price: Record<string, string> = {};
+        for (const token of PAYMENT_TOKENS) {
+            const value = row[`price_${token.toLowerCase()}`];
+            if (value) price[token] = value;
+        }
+        return parseProduct(
+            {
+                sku: row.sku,
+                title: row.title,
+                description: row.description,
+                price,
+                stock: row.stock === "" ? 0 : Number(row.stock),
+                images: list(row.images ?? ""),
+                categories: list(row.categories ?? ""),
+            },
+            source
+        );
+    });
+}
+
+// Texto indexado en la base de conocimiento para responder preguntas. No
+// incluye el stock, que cambia con cada venta: las acciones lo leen del
+// catálogo al responder.
+export function formatProductKnowledge(product: Product): string {
+    return [
+        `Producto ${product.title} (SKU ${product.sku})`,
+        product.description,
+        `Precio: ${formatProductPrice(product)}`,
+        product.categories.length > 0
+            ? `Categorías: ${product.categories.join(", ")}`
+            : "",
+    ]
+        .filter(Boolean)
+        .join("\n");
+}
+
+export function formatProductPrice(product: Product): string {
+    return PAYMENT_TOKENS.filter((token) => product.price[token])
+        .map((token) => `${product.price[token]} ${token}`)
+        .join(" o ");
+}
+
+// Extrae filtros de frases como "busca camisetas de menos de 30 AISHOP"
+export function parseProductQuery(text: string): ProductQuery {
+    const query: ProductQuery = { query: text };
+    const maxPrice = text.match(
+        /\b(?:menos de|por menos de|hasta|máximo|maximo|under|below|less than|up to|max)\s+(\d+(?:[.,]\d+)?)\s*(aishop|mnt)?\b/i
+    );
+    if (maxPrice) {
+        query.maxPrice = Number(maxPrice[1].replace(",", "."));
+        if (maxPrice[2]) {
+            query.token = maxPrice[2].toUpperCase() as PaymentToken;
+        }
+        query.query = text.replace(maxPrice[0], " ");
+    }
+    if (/\b(en stock|disponibles?|in stock|available)\b/i.test(text)) {
+        query.inStockOnly = true;
+    }
+    query.query = tokenize(query.query)
+        .filter(
+            (term) => !/^(aishop|mnt|stock|disponibles?|available)$/.test(term)
+        )
+        .join(" ");
+    return query;
+}
+
+// Catálogo de productos de la tienda. Carga archivos JSON o CSV (setting
+// PRODUCT_CATALOG, rutas separadas por comas a archivos o directorios) e
+// indexa cada producto con el RAGKnowledgeManager para que el agente pueda
+// responder preguntas sobre ellos.
+export class ProductCatalogService extends Service {
+    private products = new Map<string, Product>();
+    // Stock de cada producto tal como lo trae el catálogo, antes de ventas
+    private catalogStock = new Map<string, number>();
+
+    constructor(private readonly defaultCatalogPaths: string[] = []) {
+        super();
+    }
+
+    static get serviceType(): ServiceType {
+        return ServiceType.PRODUCT_CATALOG;
+    }
+
+    async initialize(runtime: IAgentRuntime): Promise<void> {
+        const configured = runtime.getSetting("PRODUCT_CATALOG");
+        const catalogPaths = configured
+            ? configured
+                  .split(",")
+                  .map((catalogPath) => catalogPath.trim())
+                  .filter(Boolean)
+            : this.defaultCatalogPaths;
+
+        for (const catalogPath of catalogPaths) {
+            this.loadFromPath(catalogPath);
+        }
+        await this.loadSales(runtime);
+
+        // Sin embeddings el catálogo sigue funcionando con búsqueda por texto
+        try {
+            const indexed = await this.indexKnowledge(runtime);
+            elizaLogger.info(
+                `Indexed ${indexed} products in the knowledge base`
+            );
+        } catch (error) {
+            elizaLogger.warn(
+                "Could not index the product catalog:",
+                error instanceof Error ? error.message : error
+            );
+        }
+    }
+
+    // Carga un catálogo o un directorio de catálogos; devuelve los productos
+    loadFromPath(catalogPath: string): number {
+        const resolved = path.resolve(catalogPath);
+        if (fs.statSync(resolved).isDirectory()) {
+            return fs
+                .readdirSync(resolved)
+                .filter((file) =>
+                    CATALOG_EXTENSIONS.includes(
+                        path.extname(file).toLowerCase()
+                    )
+                )
+                .sort()
+                .reduce(
+                    (total, file) =>
+                        total + this.loadFromPath(path.join(resolved, file)),
+                    0
+                );
+        }
+
+        const content = fs.readFileSync(resolved, "utf8");
+        const products =
+            path.extname(resolved).toLowerCase() === ".csv"
+                ? parseProductsCsv(content, resolved)
+                : parseProductsJson(JSON.parse(content), resolved);
+        const loaded = this.addProducts(products);
+        elizaLogger.info(`Loaded ${loaded} products from ${resolved}`);
+        return loaded;
+    }
+
+    // Un SKU repetido reemplaza al anterior, así un catálogo posterior puede
+    // corregir precios o stock
+    addProducts(products: Product[]): number {
+        for (const product of products) {
+            this.products.set(product.sku.toUpperCase(), product);
+            this.catalogStock.set(product.sku.toUpperCase(), product.stock);
+        }
+        return products.length;
+    }
+
+    // Descuenta las ventas guardadas del stock recién cargado
+    private async loadSales(runtime: IAgentRuntime): Promise<void> {
+        for (const [sku, base] of this.catalogStock) {
+            const adjustment = await runtime.cacheManager.get<StockAdjustment>(
+                `${STOCK_PREFIX}${sku}`
+            );
+            const product = this.products.get(sku);
+            if (product && adjustment?.base === base) {
+                product.stock = Math.max(base - adjustment.sold, 0);
+            }
+        }
+    }
+
+    // Suma (delta positivo) o resta unidades del stock y guarda las ventas
+    // para que sobrevivan a un reinicio. El stock nunca baja de 0 ni supera
+    // el del catálogo.
+    async adjustStock(
+        runtime: IAgentRuntime,
+        sku: string,
+        delta: number
+    ): Promise<Product | undefined> {
+        const product = this.getProduct(sku);
+        if (!product) return undefined;
+
+        const key = product.sku.toUpperCase();
+        const base = this.catalogStock.get(key) ?? product.stock;
+        product.stock = Math.min(Math.max(product.stock + delta, 0), base);
+        const adjustment: StockAdjustment = {
+            base,
+            sold: base - product.stock,
+        };
+        await runtime.cacheManager.set(`${STOCK_PREFIX}${key}`, adjustment);
+        return product;
+    }
+
+    getProduct(sku: string): Product | undefined {
+        return this.products.get(sku.trim().toUpperCase());
+    }
+
+    getProducts(): Product[] {
+        return Array.from(this.products.values());
+    }
+
+    // Id estable del producto en la base de conocimiento del agente
+    knowledgeId(runtime: IAgentRuntime, sku: string): UUID {
+        return stringToUuid(`product:${runtime.agentId}:${sku.toUpperCase()}`);
+    }
+
+    // Indexa los productos nuevos o modificados; los que no cambiaron no se
+    // vuelven a calcular para no repetir embeddings en cada arranque
+    async indexKnowledge(runtime: IAgentRuntime): Promise<number> {
+        let indexed = 0;
+        for (const product of this.products.values()) {
+            const id = this.knowledgeId(runtime, product.sku);
+            const text = formatProductKnowledge(product);
+            const [existing] = await runtime.ragKnowledgeManager.getKnowledge({
+                id,
+                agentId: runtime.agentId,
+            });
+            if (existing?.content.text === text) continue;
+            if (existing) await runtime.ragKnowledgeManager.removeKnowledge(id);
+
+            await runtime.ragKnowledgeManager.createKnowledge({
+                id,
+                agentId: runtime.agentId,
+                content: {
+                    text,
+                    metadata: {
+                        type: "product",
+                        source: "product_catalog",
+                        sku: product.sku,
+                    },
+                },
+            });
+            indexed++;
+        }
+        return indexed;
+    }
+
+    // Productos que cumplen los filtros de categoría, precio y stock
+    private filterProducts(query: ProductQuery): Product[] {
+        const category = query.category ? normalize(query.category) : null;
+        return this.getProducts().filter((product) => {
+            if (query.inStockOnly && product.stock <= 0) return false;
+            if (
+                category &&
+                !product.categories.some(
+                    (candidate) => normalize(candidate) === category
+                )
+            ) {
+                return false;
+            }
+            if (query.maxPrice !== undefined) {
+                const maxPrice = query.maxPrice;
+                const tokens = query.token ? [query.token] : PAYMENT_TOKENS;
+                return tokens.some(
+                    (token) =>
+                        product.price[token] !== undefined &&
+                        Number(product.price[token]) <= maxPrice
+                );
+            }
+            return true;
+        });
+    }
+
+    // Búsqueda por palabras sobre título, SKU, categorías y descripción
+    search(query: ProductQuery): ProductMatch[] {
+        const terms = tokenize(query.query);
+        return this.filterProducts(query)
+            .map((product) => ({
+                product,
+                score: scoreProduct(product, terms),
+            }))
+            .filter((match) => terms.length === 0 || match.score > 0)
+            .sort(
+                (a, b) =>
+                    b.score - a.score ||
+                    a.product.title.localeCompare(b.product.title)
+            )
+            .slice(0, query.limit ?? DEFAULT_SEARCH_LIMIT);
+    }
+
+    // Combina la búsqueda semántica de la base de conocimiento con la
+    // búsqueda por palabras; los productos de ambas suben al principio
+    async searchProducts(
+        runtime: IAgentRuntime,
+        query: ProductQuery
+    ): Promise<ProductMatch[]> {
+        const limit = query.limit ?? DEFAULT_SEARCH_LIMIT;
+        const keywordMatches = this.search({
+            ...query,
+            limit: Number.MAX_SAFE_INTEGER,
+        });
+        if (!query.query) return keywordMatches.slice(0, limit);
+
+        // La búsqueda semántica no conoce los filtros, se aplican aquí
+        const allowed = new Set(
+            this.filterProducts(query).map((product) => product.sku)
+        );
+        const scores = new Map<string, number>();
+        for (const match of keywordMatches) {
+            scores.set(match.product.sku, match.score);
+        }
+        try {
+            const knowledge = await runtime.ragKnowledgeManager.getKnowledge({
+                query: query.query,
+                limit,
+            });
+            for (const item of knowledge) {
+                const sku = item.content.metadata?.sku;
+                if (item.content.metadata?.type !== "product" || !sku) continue;
+                const product = this.getProduct(String(sku));
+                if (!product || !allowed.has(product.sku)) continue;
+                scores.set(
+                    product.sku,
+                    (scores.get(product.sku) ?? 0) + 10 * (item.score ?? 1)
+                );
+            }
+        } catch (error) {
+            console.error(
+                "Error en la búsqueda semántica de productos:",
+                error
+            );
+        }
+
+        return Array.from(scores.entries())
+            .map(([sku, score]) => ({
+                product: this.getProduct(sku) as Product,
+                score,
+            }))
+            .sort((a, b) => b.score - a.score)
+            .slice(0, limit);
+    }
+}
+
+function scoreProduct(product: Product, terms: string[]): number {
+    const title = normalize(product.title);
+    const description = normalize(product.description);
+    const categories = product.categories.map(normalize);
+    let score = 0;
+    for (const term of terms) {
+        if (normalize(product.sku) === term) score += 10;
+        if (title.includes(term)) score += 3;
+        if (categories.some((category) => category.includes(term))) score += 2;
+        if (description.includes(term)) score += 1;
+    }
+    return score;
+}
+
+export function getProductCatalog(
+    runtime: IAgentRuntime
+): ProductCatalogService | null {
+    return runtime.getService<ProductCatalogService>(
+        ServiceType.PRODUCT_CATALOG
+    );
+}
@@ -0,0 +1,128 @@
+import type { Contact, IAgentRuntime, UUID } from "@elizaos/core";
+import { getAddress, isAddress, type Address } from "viem";
+import { getUserIdByAddress, getUserWallet } from "../actions/createWallet";
+
+const MAX_CONTACT_NAME_LENGTH = 40;
+
+// Palabras que separan el nombre del contacto del resto del mensaje
+const NAME_TERMINATORS = new Set([
+    "con",
+    "with",
+    "en",
+    "at",
+    "es",
+    "is",
+    "=",
+    ":",
+    "->",
+    "dirección",
+    "direccion",
+    "address",
+    "wallet",
+]);
+const NAME_PREFIXES = new Set(["a", "al", "nuevo", "new", "llamado", "named"]);
+
+// Extrae el nombre de frases como "agregar contacto Maria 0x...",
+// "add contact \"Maria Lopez\" with 0x...", "guarda a Juan como contacto" o
+// "borra a Juan de mis contactos"
+export function extractContactName(text: string): string | null {
+    const withoutAddress = text.replace(/0x[a-fA-F0-9]{40}/g, " ").trim();
+
+    const quoted = withoutAddress.match(/["“']([^"”']+)["”']/);
+    if (quoted) return cleanContactName(quoted[1]);
+
+    const beforeKeyword = withoutAddress.match(
+        /\b(?:agrega|agregar|añade|añadir|guarda|guardar|add|save|elimina|eliminar|borra|borrar|quita|quitar|remove|delete)\s+(.+?)\s+(?:como|as|de|from)\s+(?:un\s+|a\s+|mis\s+|my\s+)?(?:contactos?|contacts?)\b/i
+    );
+    if (beforeKeyword) return cleanContactName(beforeKeyword[1]);
+
+    const afterKeyword = withoutAddress.match(/\b(?:contacto|contact)\s+(.+)$/i);
+    if (!afterKeyword) return null;
+
+    const words: string[] = [];
+    for (const word of afterKeyword[1].split(/\s+/)) {
+        const lower = word.toLowerCase();
+        if (words.length === 0 && NAME_PREFIXES.has(lower)) continue;
+        if (NAME_TERMINATORS.has(lower)) break;
+        words.push(word);
+    }
+    return cleanContactName(words.join(" "));
+}
+
+function cleanContactName(name: string): string | null {
+    const cleaned = name
+        .replace(/^@/, "")
+        .replace(/^(a|al)\s+/i, "")
+        .replace(/[.,;:!?¿¡]+$/, "")
+        .trim();
+    if (!cleaned || cleaned.length > MAX_CONTACT_NAME_LENGTH) return null;
+    return /^\p{L}[\p{L}\d _.-]*$/u.test(cleaned) ? cleaned : null;
+}
+
+// Guarda (o actualiza) un contacto. Si la dirección es la wallet de otro
+// usuario del agente se enlaza con su userId mediante `address_to_user:`.
+export async function saveContact(
+    runtime: IAgentRuntime,
+    userId: UUID,
+    name: string,
+    address: string
+): Promise<Contact> {
+    if (!isAddress(address)) {
+        throw new Error(`La dirección ${address} no es válida.`);
+    }
+    const checksummed = getAddress(address);
+    const contactUserId = await getUserIdByAddress(runtime, checksummed);
+
+    const contact: Contact = {
+        agentId: runtime.agentId,
+        userId,
+        name,
+        address: checksummed,
+        contactUserId: (contactUserId as UUID) ?? null,
+        createdAt: Date.now(),
+    };
+    await runtime.databaseAdapter.upsertContact(contact);
+    return contact;
+}
+
+export async function findContact(
+    runtime: IAgentRuntime,
+    userId: UUID,
+    name: string
+): Promise<Contact | null> {
+    return runtime.databaseAdapter.getContactByName({
+        agentId: runtime.agentId,
+        userId,
+        name,
+    });
+}
+
+// Busca, entre las cuentas con ese nombre visible o usuario, la que tiene
+// wallet en el agente. Solo se acepta si hay una y su dirección vuelve a ella
+// por la búsqueda inversa `address_to_user:`.
+export async function findAgentUserByName(
+    runtime: IAgentRuntime,
+    name: string
+): Promise<{ userId: UUID; address: Address } | { error: string } | null> {
+    const matches: { userId: UUID; address: Address }[] = [];
+    for (const account of await runtime.databaseAdapter.getAccountsByName(
+        name
+    )) {
+        const wallet = await getUserWallet(runtime, account.id);
+        if (!wallet) continue;
+        const owner = await getUserIdByAddress(runtime, wallet.address);
+        if (owner !== account.id) continue;
+        matches.push({
+            userId: account.id,
+            address: getAddress(wallet.address),
+        });
+    }
+
+    if (matches.length === 0) return null;
+    if (matches.length > 1) {
+        return {
+            error: `Hay varios usuarios llamados ${name}. Guarda su dirección como contacto para elegir a cuál enviar.`,
+        };
+    }
+    return matches[0];
+}
@@ -0,0 +1,192 @@
+import type {
+    GasSponsorshipSettings,
+    IAgentRuntime,
+    UUID,
+} from "@elizaos/core";
+import { formatEther, parseEther, type Address, type Hash } from "viem";
+import { mantleSepoliaTestnet } from "../config/chains";
+import { initWalletProvider } from "../providers/wallet";
+import { recordLedgerEntry } from "./ledger";
+import { updateCacheIndex } from "./cacheIndex";
+
+// Recarga de gas enviada a la wallet de un usuario
+interface GasDripRecord {
+    // Cantidad en wei
+    amount: string;
+    hash: string;
+    timestamp: number;
+    // Se guarda "pending" al enviar, para que cuente en la cuota aunque el
+    // recibo no llegue; los registros anteriores no tienen estado
+    status?: "pending" | "confirmed";
+}
+
+export interface GasDripPlan {
+    // MNT (wei) a enviar antes de la transacción; 0 si no hace falta
+    amount: bigint;
+    error?: string;
+}
+
+export const GAS_SPONSORSHIP_PREFIX = "gas_sponsorship:";
+const WINDOW_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_DRIP_AMOUNT = "0.05";
+// Margen sobre la comisión estimada por si el precio del gas sube
+const FEE_BUFFER_PERCENT = 20n;
+
+// Configuración de `settings.gasSponsorship` del personaje, si está activa
+export function getGasSponsorship(
+    runtime: IAgentRuntime
+): GasSponsorshipSettings | null {
+    const settings = runtime.character.settings?.gasSponsorship;
+    return settings?.enabled ? settings : null;
+}
+
+export function withFeeBuffer(fee: bigint): bigint {
+    return fee + (fee * FEE_BUFFER_PERCENT) / 100n;
+}
+
+async function getDripHistory(
+    runtime: IAgentRuntime,
+    userId: string
+): Promise<GasDripRecord[]> {
+    const history =
+        (await runtime.cacheManager.get<GasDripRecord[]>(
+            `${GAS_SPONSORSHIP_PREFIX}${userId}`
+        )) ?? [];
+    return history.filter(isRecent);
+}
+
+function isRecent(record: GasDripRecord): boolean {
+    return record.timestamp > Date.now() - WINDOW_MS;
+}
+
+async function updateDripHistory(
+    runtime: IAgentRuntime,
+    userId: string,
+    update: (history: GasDripRecord[]) => GasDripRecord[]
+): Promise<void> {
+    await updateCacheIndex<GasDripRecord>(
+        runtime,
+        `${GAS_SPONSORSHIP_PREFIX}${userId}`,
+        (history) => update(history.filter(isRecent))
+    );
+}
+
+// Decide cuánto MNT debe recibir la wallet para pagar `requiredFee`,
+// respetando las cuotas diarias del usuario
+export async function planGasDrip(
+    runtime: IAgentRuntime,
+    userId: string,
+    balance: bigint,
+    requiredFee: bigint
+): Promise<GasDripPlan> {
+    if (balance >= requiredFee) {
+        return { amount: 0n };
+    }
+
+    const settings = getGasSponsorship(runtime);
+    if (!settings) {
+        return {
+            amount: 0n,
+            error: `No tienes suficiente MNT para pagar el gas. Necesitas ~${formatEther(
+                requiredFee
+            )} MNT y tienes ${formatEther(balance)} MNT.`,
+        };
+    }
+
+    const shortfall = requiredFee - balance;
+    const drip = parseEther(settings.dripAmount ?? DEFAULT_DRIP_AMOUNT);
+    const amount = shortfall > drip ? shortfall : drip;
+    const history = await getDripHistory(runtime, userId);
+
+    if (
+        settings.maxDripsPerDay !== undefined &&
+        history.length >= settings.maxDripsPerDay
+    ) {
+        return {
+            amount: 0n,
+            error: `Alcanzaste el máximo de ${settings.maxDripsPerDay} recargas de gas patrocinadas en 24 horas. Deposita MNT en tu wallet para continuar.`,
+        };
+    }
+
+    if (settings.maxPerUserPerDay !== undefined) {
+        const max = parseEther(settings.maxPerUserPerDay);
+        const sponsored = history.reduce(
+            (total, record) => total + BigInt(record.amount),
+            0n
+        );
+        if (sponsored + amount > max) {
+            return {
+                amount: 0n,
+                error: `Superarías el límite de ${settings.maxPerUserPerDay} MNT de gas patrocinado en 24 horas. Deposita MNT en tu wallet para continuar.`,
+            };
+        }
+    }
+
+    return { amount };
+}
+
+// Envía la recarga desde la wallet del agente (EVM_PRIVATE_KEY) y espera a
+// que se confirme, para que la transacción del usuario ya pueda pagar el gas.
+// La recarga cuenta en la cuota desde que se envía; solo se descuenta si la
+// transacción revierte.
+export async function sponsorGas(
+    runtime: IAgentRuntime,
+    params: {
+        userId: string;
+        roomId?: UUID;
+        address: Address;
+        amount: bigint;
+    }
+): Promise<Hash> {
+    const agentWallet = initWalletProvider(runtime);
+    if (!agentWallet) {
+        throw new Error(
+            "La wallet del agente no está configurada para patrocinar gas."
+        );
+    }
+
+    const hash = await agentWallet.getWalletClient().sendTransaction({
+        account: agentWallet.getAccount(),
+        to: params.address,
+        value: params.amount,
+        chain: mantleSepoliaTestnet,
+        kzg: undefined,
+    });
+    await recordLedgerEntry(runtime, {
+        userId: params.userId as UUID,
+        roomId: params.roomId,
+        action: "GAS_SPONSORSHIP",
+        chainId: mantleSepoliaTestnet.id,
+        from: agentWallet.getAddress(),
+        to: params.address,
+        token: "MNT",
+        amount: formatEther(params.amount),
+        hash,
+    });
+    await updateDripHistory(runtime, params.userId, (history) => [
+        ...history,
+        {
+            amount: params.amount.toString(),
+            hash,
+            timestamp: Date.now(),
+            status: "pending",
+        },
+    ]);
+
+    const receipt = await agentWallet
+        .getPublicClient()
+        .waitForTransactionReceipt({ hash });
+    await updateDripHistory(runtime, params.userId, (history) =>
+        receipt.status === "success"
+            ? history.map((record) =>
+                  record.hash === hash
+                      ? { ...record, status: "confirmed" }
+                      : record
+              )
+            : history.filter((record) => record.hash !== hash)
+    );
+    if (receipt.status !== "success") {
+        throw new Error(`La recarga de gas ${hash} falló.`);
+    }
+    return hash;
+}
@@ -0,0 +1,135 @@
+import { createHash } from "crypto";
+import { toHex, type Address, type Hex } from "viem";
+import {
+    english,
+    spanish,
+    mnemonicToAccount,
+    privateKeyToAccount,
+} from "viem/accounts";
+
+// Ruta de derivación estándar de Ethereum (BIP-44, coin type 60)
+export const DEFAULT_DERIVATION_PATH = "m/44'/60'/0'/0/0";
+
+export type DerivationPath = `m/44'/60'/${string}`;
+
+const DERIVATION_PATH_REGEX = /m\/44'\/60'\/\d+'\/\d+\/\d+/;
+const PRIVATE_KEY_REGEX = /\b(0x)?[a-fA-F0-9]{64}\b/;
+const MNEMONIC_LENGTHS = [12, 15, 18, 21, 24];
+
+function normalizeWord(word: string): string {
+    return word.normalize("NFKD").toLowerCase();
+}
+
+const WORDLISTS = [english, spanish].map((wordlist) =>
+    wordlist.map(normalizeWord)
+);
+
+export interface DerivedWallet {
+    address: Address;
+    privateKey: Hex;
+    derivationPath?: DerivationPath;
+}
+
+// Valida una frase BIP-39 (lista de palabras y checksum) en inglés o español
+export function validateMnemonic(mnemonic: string): boolean {
+    const words = mnemonic.trim().split(/\s+/).map(normalizeWord);
+    if (!MNEMONIC_LENGTHS.includes(words.length)) return false;
+
+    return WORDLISTS.some((wordlist) => {
+        const indices = words.map((word) => wordlist.indexOf(word));
+        if (indices.some((index) => index === -1)) return false;
+
+        const bits = indices
+            .map((index) => index.toString(2).padStart(11, "0"))
+            .join("");
+        const checksumLength = words.length / 3;
+        const entropyBits = bits.slice(0, bits.length - checksumLength);
+        const checksumBits = bits.slice(bits.length - checksumLength);
+
+        const entropy = Buffer.from(
+            entropyBits.match(/.{8}/g)?.map((byte) => Number.parseInt(byte, 2)) ??
+                []
+        );
+        const hash = createHash("sha256").update(entropy).digest();
+        const expectedChecksum = Array.from(hash)
+            .map((byte) => byte.toString(2).padStart(8, "0"))
+            .join("")
+            .slice(0, checksumLength);
+
+        return checksumBits === expectedChecksum;
+    });
+}
+
+// Busca en el texto una secuencia de 12-24 palabras que forme una frase válida
+export function extractMnemonic(text: string): string | null {
+    const words = text
+        .replace(/[^\p{L}\s]/gu, " ")
+        .trim()
+        .split(/\s+/)
+        .filter(Boolean);
+
+    for (const length of [...MNEMONIC_LENGTHS].reverse()) {
+        for (let start = 0; start + length <= words.length; start++) {
+            const candidate = words.slice(start, start + length).join(" ");
+            if (validateMnemonic(candidate)) {
+                return candidate.toLowerCase();
+            }
+        }
+    }
+    return null;
+}
+
+export function extractPrivateKey(text: string): Hex | null {
+    const match = text.match(PRIVATE_KEY_REGEX);
+    if (!match) return null;
+    const key = match[0];
+    return (key.startsWith("0x") ? key : `0x${key}`) as Hex;
+}
+
+export function extractDerivationPath(text: string): DerivationPath | null {
+    const match = text.match(DERIVATION_PATH_REGEX);
+    return match ? (match[0] as DerivationPath) : null;
+}
+
+// Deriva la cuenta de una frase BIP-39 en la ruta indicada
+export function deriveFromMnemonic(
+    mnemonic: string,
+    path: DerivationPath = DEFAULT_DERIVATION_PATH as DerivationPath
+): DerivedWallet {
+    const account = mnemonicToAccount(mnemonic.normalize("NFKD"), { path });
+    const privateKey = account.getHdKey().privateKey;
+    if (!privateKey) {
+        throw new Error("No se pudo derivar la clave privada de la frase");
+    }
+    return {
+        address: account.address,
+        privateKey: toHex(privateKey),
+        derivationPath: path,
+    };
+}
+
+export function walletFromPrivateKey(privateKey: Hex): DerivedWallet {
+    return {
+        address: privateKeyToAccount(privateKey).address,
+        privateKey,
+    };
+}
+
+// Interpreta el material de una wallet en el mensaje: frase BIP-39 (con ruta
+// de derivación opcional) o clave privada en hexadecimal
+export function parseWalletSecret(text: string): DerivedWallet | null {
+    const mnemonic = extractMnemonic(text);
+    if (mnemonic) {
+        return deriveFromMnemonic(
+            mnemonic,
+            extractDerivationPath(text) ?? undefined
+        );
+    }
+
+    const privateKey = extractPrivateKey(text);
+    if (privateKey) {
+        return walletFromPrivateKey(privateKey);
+    }
+
+    return null;
+}
@@ -0,0 +1,405 @@
+import {
+    composeContext,
+    elizaLogger,
+    generateObject,
+    ModelClass,
+    type IAgentRuntime,
+    type State,
+    type UUID,
+} from "@elizaos/core";
+import { getAddress, isAddress, type Address } from "viem";
+import { z } from "zod";
+import { mantleChain, mantleSepoliaTestnet } from "../config/chains";
+import { findAgentUserByName, findContact } from "./contacts";
+
+// Intención de transferencia extraída de un mensaje del usuario. Se obtiene
+// con generateObject y, si el modelo falla o no está disponible, con un
+// analizador de expresiones regulares determinista.
+const amountSchema = z.discriminatedUnion("type", [
+    z.object({
+        type: z.literal("absolute"),
+        value: z
+            .string()
+            .describe('Decimal amount using "." as separator, e.g. "2.5"'),
+    }),
+    z.object({
+        type: z.literal("percent"),
+        value: z
+            .number()
+            .describe("Percentage of the balance, 0-100; half is 50"),
+    }),
+    z.object({ type: z.literal("all") }),
+]);
+
+const recipientSchema = z.object({
+    type: z.enum(["address", "ens", "contact"]),
+    value: z
+        .string()
+        .describe(
+            "0x address, ENS-style name (name.eth) or contact name as written"
+        ),
+});
+
+export const transferIntentSchema = z.object({
+    token: z
+        .string()
+        .nullable()
+        .describe("Token symbol to send, uppercase, or null"),
+    amount: amountSchema.nullable(),
+    recipient: recipientSchema.nullable(),
+    chain: z.enum(["mantle", "mantle-sepolia"]).nullable(),
+});
+
+export type TransferIntent = z.infer<typeof transferIntentSchema>;
+export type IntentAmount = z.infer<typeof amountSchema>;
+export type IntentRecipient = z.infer<typeof recipientSchema>;
+
+// Genera la intención con el modelo; se puede sustituir en las pruebas
+export type IntentGenerator = (
+    runtime: IAgentRuntime,
+    context: string
+) => Promise<unknown>;
+
+export const INTENT_CHAIN_IDS: Record<
+    NonNullable<TransferIntent["chain"]>,
+    number
+> = {
+    mantle: mantleChain.id,
+    "mantle-sepolia": mantleSepoliaTestnet.id,
+};
+
+const transferIntentTemplate = `Extract the transfer the user is asking for. The message can be in Spanish or English.
+
+Known tokens: {{tokens}}
+
+Rules:
+- token: one of the known tokens, or null if none is mentioned.
+- amount: "absolute" with a decimal string ("2,5" becomes "2.5"), "percent" for fractions ("half"/"la mitad" is 50, "10%" is 10), "all" for "all"/"todo", or null.
+- recipient: "address" for 0x addresses (copy it exactly), "ens" for names like alice.eth, "contact" for a person's name (e.g. "Maria"), or null.
+- chain: "mantle" for mainnet, "mantle-sepolia" for sepolia/testnet, or null if not mentioned.
+
+Message: {{message}}`;
+
+const ADDRESS_REGEX = /0x[a-fA-F0-9]{40}/;
+const ENS_REGEX = /\b[a-z0-9-]+(?:\.[a-z0-9-]+)*\.(?:eth|mnt)\b/i;
+const DECIMAL_REGEX = /^\d+(\.\d+)?$/;
+
+// Verbos que indican una transferencia, en español e inglés
+const TRANSFER_VERBS_REGEX =
+    /\b(transfer\w*|send\w*|pay|give|env[ií]\w*|mand\w*|transfier\w*|p[aá]ga\w*|p[aá]sa\w*)\b/i;
+
+// Palabras que pueden ir entre la preposición y el destinatario
+const RECIPIENT_STOPWORDS = new Set([
+    "a",
+    "al",
+    "la",
+    "el",
+    "de",
+    "del",
+    "mi",
+    "my",
+    "the",
+    "wallet",
+    "cuenta",
+    "account",
+    "address",
+    "dirección",
+    "direccion",
+    "esta",
+    "this",
+    "contacto",
+    "contact",
+]);
+
+function escapeRegex(value: string): string {
+    return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+// Convierte "2,5" o "1,000.50" a "2.5" y "1000.50". Una coma seguida de
+// exactamente tres dígitos se toma como separador de miles.
+export function normalizeDecimal(value: string): string | null {
+    let normalized = value.trim();
+    if (normalized.includes(",") && normalized.includes(".")) {
+        normalized = normalized.replace(/,/g, "");
+    } else if (/^\d{1,3}(,\d{3})+$/.test(normalized)) {
+        normalized = normalized.replace(/,/g, "");
+    } else {
+        normalized = normalized.replace(",", ".");
+    }
+    return DECIMAL_REGEX.test(normalized) ? normalized : null;
+}
+
+// Indica si el mensaje pide una transferencia, sin llamar al modelo
+export function isTransferRequest(text: string): boolean {
+    return TRANSFER_VERBS_REGEX.test(text);
+}
+
+// Primer símbolo conocido que aparece como palabra en el texto
+export function findTokenSymbol(
+    text: string,
+    symbols: string[]
+): string | null {
+    let found: { symbol: string; index: number } | null = null;
+    for (const symbol of symbols) {
+        const match = new RegExp(`\\b${escapeRegex(symbol)}\\b`, "i").exec(
+            text
+        );
+        if (match && (!found || match.index < found.index)) {
+            found = { symbol: symbol.toUpperCase(), index: match.index };
+        }
+    }
+    return found?.symbol ?? null;
+}
+
+function extractAmount(
+    text: string,
+    token: string | null
+): IntentAmount | null {
+    // Las direcciones contienen dígitos que no son montos
+    const withoutAddresses = text.replace(new RegExp(ADDRESS_REGEX, "g"), " ");
+
+    const percent = withoutAddresses.match(
+        /(\d+(?:[.,]\d+)?)\s*(?:%|por\s*ciento|percent)/i
+    );
+    if (percent) {
+        const value = Number(normalizeDecimal(percent[1]));
+        if (value > 0 && value <= 100) return { type: "percent", value };
+    }
+
+    const number = "(\\d+(?:[.,]\\d+)*)";
+    const withToken =
+        token &&
+        withoutAddresses.match(
+            new RegExp(`${number}\\s*${escapeRegex(token)}\\b`, "i")
+        );
+    if (withToken) {
+        const value = normalizeDecimal(withToken[1]);
+        if (value) return { type: "absolute", value };
+    }
+
+    if (/\b(half|mitad)\b/i.test(withoutAddresses)) {
+        return { type: "percent", value: 50 };
+    }
+    if (/\b(quarter|cuarto)\b/i.test(withoutAddresses)) {
+        return { type: "percent", value: 25 };
+    }
+    if (
+        /\b(all|everything|todo|todos|toda|todas)\b/i.test(withoutAddresses)
+    ) {
+        return { type: "all" };
+    }
+
+    const bare = withoutAddresses.match(
+        new RegExp(`(?:^|\\s)${number}(?=\\s|$)`)
+    );
+    const value = bare ? normalizeDecimal(bare[1]) : null;
+    return value ? { type: "absolute", value } : null;
+}
+
+function extractRecipient(text: string): IntentRecipient | null {
+    const address = text.match(ADDRESS_REGEX);
+    if (address) return { type: "address", value: address[0] };
+
+    const ens = text.match(ENS_REGEX);
+    if (ens) return { type: "ens", value: ens[0].toLowerCase() };
+
+    // Nombre después de "a", "para" o "to", saltando artículos y similares
+    const words = text.split(/\s+/);
+    for (let i = 0; i < words.length - 1; i++) {
+        if (!/^(a|al|para|to|for)$/i.test(words[i])) continue;
+        for (let j = i + 1; j < words.length; j++) {
+            const word = words[j]
+                .replace(/^@/, "")
+                .replace(/[.,;:!?¿¡]+$/, "");
+            if (!word) continue;
+            if (RECIPIENT_STOPWORDS.has(word.toLowerCase())) continue;
+            if (/^\p{L}[\p{L}\d_.-]*$/u.test(word)) {
+                return { type: "contact", value: word };
+            }
+            break;
+        }
+    }
+    return null;
+}
+
+function extractChain(text: string): TransferIntent["chain"] {
+    if (/\b(sepolia|testnet)\b/i.test(text)) return "mantle-sepolia";
+    if (/\bmainnet\b/i.test(text)) return "mantle";
+    return null;
+}
+
+// Analizador determinista usado cuando el modelo no responde
+export function parseTransferIntentFallback(
+    text: string,
+    symbols: string[]
+): TransferIntent {
+    const token = findTokenSymbol(text, symbols);
+    return {
+        token,
+        amount: extractAmount(text, token),
+        recipient: extractRecipient(text),
+        chain: extractChain(text),
+    };
+}
+
+const generateWithModel: IntentGenerator = async (runtime, context) => {
+    const result = await generateObject({
+        runtime,
+        context,
+        modelClass: ModelClass.SMALL,
+        // El agente resuelve otra copia de zod que la de core
+        schema: transferIntentSchema as unknown as Parameters<
+            typeof generateObject
+        >[0]["schema"],
+        schemaName: "TransferIntent",
+        schemaDescription: "Token transfer requested by the user",
+    });
+    return result.object;
+};
+
+// Corrige la salida del modelo con lo que se puede comprobar en el texto:
+// las direcciones deben aparecer tal cual y el token debe ser conocido
+function sanitizeIntent(
+    intent: TransferIntent,
+    text: string,
+    symbols: string[],
+    fallback: TransferIntent
+): TransferIntent {
+    const token =
+        intent.token &&
+        symbols.some(
+            (symbol) => symbol.toUpperCase() === intent.token?.toUpperCase()
+        )
+            ? intent.token.toUpperCase()
+            : fallback.token;
+
+    let amount = intent.amount;
+    if (amount?.type === "absolute") {
+        const value = normalizeDecimal(amount.value);
+        amount = value ? { type: "absolute", value } : fallback.amount;
+    } else if (
+        amount?.type === "percent" &&
+        !(amount.value > 0 && amount.value <= 100)
+    ) {
+        amount = fallback.amount;
+    }
+
+    let recipient = intent.recipient;
+    if (
+        recipient?.type === "address" &&
+        !text.toLowerCase().includes(recipient.value.toLowerCase())
+    ) {
+        recipient = fallback.recipient;
+    }
+
+    return {
+        token,
+        amount: amount ?? fallback.amount,
+        recipient: recipient ?? fallback.recipient,
+        chain: intent.chain ?? fallback.chain,
+    };
+}
+
+// Extrae la intención de transferencia de `text` para los tokens indicados.
+// Con INTENT_PARSER=regex no se consulta al modelo.
+export async function parseTransferIntent(
+    runtime: IAgentRuntime,
+    text: string,
+    options: {
+        symbols: string[];
+        state?: State;
+        generate?: IntentGenerator;
+    }
+): Promise<TransferIntent> {
+    const fallback = parseTransferIntentFallback(text, options.symbols);
+    if (runtime.getSetting("INTENT_PARSER") === "regex") {
+        return fallback;
+    }
+
+    try {
+        const context = composeContext({
+            state: {
+                ...options.state,
+                tokens: options.symbols.join(", "),
+                message: text,
+            } as State,
+            template: transferIntentTemplate,
+        });
+        const generated = await (options.generate ?? generateWithModel)(
+            runtime,
+            context
+        );
+        const parsed = transferIntentSchema.safeParse(generated);
+        if (!parsed.success) {
+            elizaLogger.warn(
+                "Intent parser returned an invalid object, using regex fallback:",
+                parsed.error.message
+            );
+            return fallback;
+        }
+        return sanitizeIntent(parsed.data, text, options.symbols, fallback);
+    } catch (error) {
+        elizaLogger.warn(
+            "Intent parser failed, using regex fallback:",
+            error instanceof Error ? error.message : error
+        );
+        return fallback;
+    }
+}
+
+// Monto en la unidad mínima del token. `available` es lo que se puede
+// enviar (para MNT, el balance menos el gas).
+export function resolveIntentAmount(
+    amount: IntentAmount,
+    available: bigint,
+    parse: (value: string) => bigint
+): bigint {
+    switch (amount.type) {
+        case "absolute":
+            return parse(amount.value);
+        case "percent":
+            // Dos decimales de precisión en el porcentaje
+            return (
+                (available * BigInt(Math.round(amount.value * 100))) / 10000n
+            );
+        case "all":
+            return available;
+    }
+}
+
+// Convierte el destinatario en una dirección; devuelve el mensaje de error
+// si no se puede resolver. Los nombres se buscan primero en los contactos del
+// usuario y luego entre los usuarios del agente por su nombre visible.
+export async function resolveRecipient(
+    runtime: IAgentRuntime,
+    userId: UUID,
+    recipient: IntentRecipient
+): Promise<{ address: Address; name?: string } | { error: string }> {
+    if (recipient.type === "address") {
+        return isAddress(recipient.value)
+            ? { address: getAddress(recipient.value) }
+            : { error: `La dirección ${recipient.value} no es válida.` };
+    }
+
+    const contact = await findContact(runtime, userId, recipient.value);
+    if (contact) {
+        return { address: getAddress(contact.address), name: contact.name };
+    }
+
+    if (recipient.type === "ens") {
+        return {
+            error: `Mantle no tiene un registro de nombres para resolver ${recipient.value}. Por favor usa la dirección 0x... o guárdala como contacto.`,
+        };
+    }
+
+    const agentUser = await findAgentUserByName(runtime, recipient.value);
+    if (agentUser) {
+        return "error" in agentUser
+            ? agentUser
+            : { address: agentUser.address, name: recipient.value };
+    }
+
+    return {
+        error: `No encontré a ${recipient.value} en tus contactos. Guárdalo con "agregar contacto ${recipient.value} 0x..." o usa su dirección.`,
+    };
+}
@@ -0,0 +1,917 @@
+import {
+    elizaLogger,
+    stringToUuid,
+    type IAgentRuntime,
+    type ShopOrderRefund,
+    type UUID,
+} from "@elizaos/core";
+import { randomInt } from "crypto";
+import {
+    createPublicClient,
+    formatUnits,
+    http,
+    parseAbiItem,
+    parseUnits,
+    type Account,
+    type Address,
+    type Chain,
+    type Hash,
+    type HttpTransport,
+    type PublicClient,
+} from "viem";
+import { mantleSepoliaTestnet } from "../config/chains";
+import {
+    initWalletProvider,
+    type WalletProvider,
+} from "../providers/wallet";
+import { updateCacheEntry, updateCacheIndex } from "./cacheIndex";
+import type { PaymentToken } from "./catalog";
+import { clearCart } from "./cart";
+import { getTransactionOutcome } from "./ledger";
+import { sendRefund, transitionOrder, type Order } from "./orders";
+import { rewardPaidOrder } from "./promotions";
+
+// Solicitud de pago para wallets externas. Todas las facturas cobran en la
+// misma dirección del comercio, así que cada importe lleva una referencia
+// única en sus decimales para poder asociar las transferencias entrantes.
+export interface Invoice {
+    id: string;
+    userId: string;
+    roomId: string;
+    token: PaymentToken;
+    // Dirección del contrato ERC-20; no existe para MNT nativo
+    tokenAddress?: Address;
+    decimals: number;
+    // Importe a pagar, referencia incluida
+    amount: string;
+    reference: string;
+    merchant: Address;
+    chainId: number;
+    // URI EIP-681, que es también el contenido del código QR
+    uri: string;
+    status: InvoiceStatus;
+    paid: string;
+    payments: InvoicePayment[];
+    // Bloque desde el que se buscan pagos
+    fromBlock: string;
+    createdAt: number;
+    expiresAt: number;
+    settledAt?: number;
+    // Wallet que paga; se aprende del primer pago si no se indicó
+    payer?: Address;
+    orderId?: string;
+    // Recibido que no se pudo cobrar (exceso, pago tardío o pedido que ya no
+    // esperaba el pago) y que queda por devolver
+    refundDue?: string;
+    refunds?: ShopOrderRefund[];
+}
+
+export interface InvoicePayment {
+    hash: string;
+    from: Address;
+    amount: string;
+    blockNumber: string;
+    timestamp: number;
+    // Llegó con la factura ya expirada; no cuenta en `paid`
+    late?: boolean;
+}
+
+export type InvoiceStatus =
+    | "open"
+    | "partially_paid"
+    | "paid"
+    | "overpaid"
+    | "expired";
+
+export const INVOICE_PREFIX = "invoice:";
+// Facturas que vigila el watcher: las abiertas y las expiradas durante el
+// plazo de pagos tardíos
+const OPEN_INVOICES_KEY = `${INVOICE_PREFIX}open`;
+const CURSOR_KEY = `${INVOICE_PREFIX}cursor`;
+export const INVOICE_TTL_MS = 60 * 60 * 1000;
+export const INVOICE_POLL_INTERVAL_MS = 15 * 1000;
+// Tiempo tras expirar en que aún se anotan los pagos para devolverlos
+export const LATE_PAYMENT_WINDOW_MS = 24 * 60 * 60 * 1000;
+// Bloques revisados como máximo en cada pasada del watcher
+const MAX_BLOCKS_PER_SCAN = 200n;
+
+// La referencia ocupa los decimales 3 a 6 del importe (0.00XXXX)
+const REFERENCE_DECIMALS = 6;
+const REFERENCE_DIGITS = 4;
+const REFERENCE_MODULUS = 10n ** BigInt(REFERENCE_DIGITS);
+
+const ID_ALPHABET = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789";
+const ID_LENGTH = 8;
+
+const transferEvent = parseAbiItem(
+    "event Transfer(address indexed from, address indexed to, uint256 value)"
+);
+
+function invoiceKey(id: string): string {
+    return `${INVOICE_PREFIX}${id.toUpperCase()}`;
+}
+
+function generateInvoiceId(): string {
+    let id = "";
+    for (let i = 0; i < ID_LENGTH; i++) {
+        id += ID_ALPHABET[randomInt(ID_ALPHABET.length)];
+    }
+    return `INV-${id}`;
+}
+
+// Referencia de un importe: sus decimales 3 a 6
+export function amountReference(amount: bigint, decimals: number): string {
+    const unit = 10n ** BigInt(decimals - REFERENCE_DECIMALS);
+    return ((amount / unit) % REFERENCE_MODULUS)
+        .toString()
+        .padStart(REFERENCE_DIGITS, "0");
+}
+
+// URI de pago EIP-681: transferencia nativa o llamada a transfer() del token
+export function buildPaymentUri(params: {
+    merchant: Address;
+    chainId: number;
+    amount: bigint;
+    tokenAddress?: Address;
+}): string {
+    return params.tokenAddress
+        ? `ethereum:${params.tokenAddress}@${params.chainId}/transfer?address=${params.merchant}&uint256=${params.amount}`
+        : `ethereum:${params.merchant}@${params.chainId}?value=${params.amount}`;
+}
+
+export async function getInvoice(
+    runtime: IAgentRuntime,
+    id: string
+): Promise<Invoice | null> {
+    return (await runtime.cacheManager.get<Invoice>(invoiceKey(id))) ?? null;
+}
+
+async function saveInvoice(
+    runtime: IAgentRuntime,
+    invoice: Invoice
+): Promise<void> {
+    await runtime.cacheManager.set(invoiceKey(invoice.id), invoice);
+}
+
+// Aplica un cambio sobre la factura guardada, no sobre la copia leída antes
+// de esperar a la red: así el watcher y los reembolsos no se pisan
+function updateInvoice(
+    runtime: IAgentRuntime,
+    invoice: Invoice,
+    update: (current: Invoice) => Invoice
+): Promise<Invoice> {
+    return updateCacheEntry<Invoice>(
+        runtime,
+        invoiceKey(invoice.id),
+        (current) => update(current ?? invoice)
+    );
+}
+
+async function getWatchedInvoices(
+    runtime: IAgentRuntime
+): Promise<Invoice[]> {
+    const ids =
+        (await runtime.cacheManager.get<string[]>(OPEN_INVOICES_KEY)) ?? [];
+    const invoices = await Promise.all(
+        ids.map((id) => getInvoice(runtime, id))
+    );
+    return invoices.filter((invoice): invoice is Invoice => invoice !== null);
+}
+
+export async function getOpenInvoices(
+    runtime: IAgentRuntime
+): Promise<Invoice[]> {
+    return (await getWatchedInvoices(runtime)).filter(isOpen);
+}
+
+// El índice se actualiza serializado para no perder una factura creada
+// mientras el watcher revisaba bloques
+async function removeOpenInvoice(
+    runtime: IAgentRuntime,
+    id: string
+): Promise<void> {
+    await updateCacheIndex<string>(runtime, OPEN_INVOICES_KEY, (ids) =>
+        ids.filter((openId) => openId !== id)
+    );
+}
+
+export async function createInvoice(
+    runtime: IAgentRuntime,
+    data: Pick<
+        Invoice,
+        | "userId"
+        | "roomId"
+        | "token"
+        | "tokenAddress"
+        | "decimals"
+        | "merchant"
+        | "payer"
+        | "orderId"
+    > & { amount: string; fromBlock: bigint },
+    ttlMs = INVOICE_TTL_MS
+): Promise<Invoice> {
+    if (data.decimals < REFERENCE_DECIMALS) {
+        throw new Error(
+            `${data.token} tiene ${data.decimals} decimales; se necesitan al menos ${REFERENCE_DECIMALS} para la referencia del pago`
+        );
+    }
+
+    // La referencia no puede repetirse entre facturas vigiladas del mismo
+    // token, para poder asociar también los pagos tardíos
+    const used = new Set(
+        (await getWatchedInvoices(runtime))
+            .filter((invoice) => invoice.token === data.token)
+            .map((invoice) => invoice.reference)
+    );
+    const base = parseUnits(data.amount, data.decimals);
+    const unit = 10n ** BigInt(data.decimals - REFERENCE_DECIMALS);
+    let amount = base;
+    let reference = "";
+    for (let attempt = 0; attempt < 20; attempt++) {
+        amount = base + BigInt(randomInt(1, Number(REFERENCE_MODULUS))) * unit;
+        reference = amountReference(amount, data.decimals);
+        if (!used.has(reference)) break;
+    }
+    if (used.has(reference)) {
+        throw new Error(
+            "Hay demasiadas facturas abiertas. Inténtalo en unos minutos."
+        );
+    }
+
+    const chainId = mantleSepoliaTestnet.id;
+    const createdAt = Date.now();
+    const invoice: Invoice = {
+        id: generateInvoiceId(),
+        userId: data.userId,
+        roomId: data.roomId,
+        token: data.token,
+        tokenAddress: data.tokenAddress,
+        decimals: data.decimals,
+        amount: formatUnits(amount, data.decimals),
+        reference,
+        merchant: data.merchant,
+        chainId,
+        uri: buildPaymentUri({
+            merchant: data.merchant,
+            chainId,
+            amount,
+            tokenAddress: data.tokenAddress,
+        }),
+        status: "open",
+        paid: "0",
+        payments: [],
+        fromBlock: data.fromBlock.toString(),
+        createdAt,
+        expiresAt: createdAt + ttlMs,
+        payer: data.payer,
+        orderId: data.orderId,
+    };
+    await saveInvoice(runtime, invoice);
+    await updateCacheIndex<string>(runtime, OPEN_INVOICES_KEY, (ids) => [
+        ...ids,
+        invoice.id,
+    ]);
+    return invoice;
+}
+
+function isOpen(invoice: Invoice): boolean {
+    return invoice.status === "open" || invoice.status === "partially_paid";
+}
+
+function remaining(invoice: Invoice): bigint {
+    return (
+        parseUnits(invoice.amount, invoice.decimals) -
+        parseUnits(invoice.paid, invoice.decimals)
+    );
+}
+
+function hasReference(invoice: Invoice, value: bigint): boolean {
+    return amountReference(value, invoice.decimals) === invoice.reference;
+}
+
+// Un pago desde la wallet de la factura solo es suyo si trae su referencia o
+// no supera lo pendiente; si no, puede ser otra compra desde esa wallet
+function isFromPayer(
+    invoice: Invoice,
+    payment: { from: Address; value: bigint }
+): boolean {
+    return (
+        invoice.payer?.toLowerCase() === payment.from.toLowerCase() &&
+        (payment.value <= remaining(invoice) ||
+            hasReference(invoice, payment.value))
+    );
+}
+
+// Elige la factura a la que corresponde un pago entrante, por orden:
+// importe pendiente exacto, wallet que paga y referencia en los decimales
+export function matchPayment(
+    invoices: Invoice[],
+    payment: {
+        token: PaymentToken;
+        to: Address;
+        from: Address;
+        value: bigint;
+        timestamp: number;
+    }
+): Invoice | undefined {
+    const candidates = invoices.filter(
+        (invoice) =>
+            isOpen(invoice) &&
+            invoice.token === payment.token &&
+            invoice.merchant.toLowerCase() === payment.to.toLowerCase() &&
+            invoice.expiresAt >= payment.timestamp
+    );
+    return (
+        candidates.find((invoice) => remaining(invoice) === payment.value) ??
+        candidates.find((invoice) => isFromPayer(invoice, payment)) ??
+        candidates.find((invoice) => hasReference(invoice, payment.value))
+    );
+}
+
+// Pago que llega con la factura ya vencida. Se asocia por la wallet que paga
+// o por la referencia, y solo a facturas que no llegaron a pagarse.
+export function matchLatePayment(
+    invoices: Invoice[],
+    payment: {
+        token: PaymentToken;
+        to: Address;
+        from: Address;
+        value: bigint;
+        timestamp: number;
+    }
+): Invoice | undefined {
+    const candidates = invoices.filter(
+        (invoice) =>
+            (isOpen(invoice) || invoice.status === "expired") &&
+            invoice.token === payment.token &&
+            invoice.merchant.toLowerCase() === payment.to.toLowerCase() &&
+            invoice.expiresAt < payment.timestamp
+    );
+    return (
+        candidates.find((invoice) => isFromPayer(invoice, payment)) ??
+        candidates.find((invoice) => hasReference(invoice, payment.value))
+    );
+}
+
+function addRefundDue(invoice: Invoice, amount: bigint): Invoice {
+    const due = parseUnits(invoice.refundDue ?? "0", invoice.decimals);
+    return {
+        ...invoice,
+        refundDue: formatUnits(due + amount, invoice.decimals),
+    };
+}
+
+// Anota un pago tardío: no paga la factura, queda pendiente de devolver
+export function applyLatePayment(
+    invoice: Invoice,
+    payment: InvoicePayment
+): Invoice {
+    if (invoice.payments.some((existing) => existing.hash === payment.hash)) {
+        return invoice;
+    }
+    return addRefundDue(
+        {
+            ...invoice,
+            payments: [...invoice.payments, { ...payment, late: true }],
+            payer: invoice.payer ?? payment.from,
+        },
+        parseUnits(payment.amount, invoice.decimals)
+    );
+}
+
+// Suma un pago a la factura. Repetir el mismo hash no cambia nada.
+export function applyPayment(
+    invoice: Invoice,
+    payment: InvoicePayment
+): Invoice {
+    if (invoice.payments.some((existing) => existing.hash === payment.hash)) {
+        return invoice;
+    }
+
+    const paid =
+        parseUnits(invoice.paid, invoice.decimals) +
+        parseUnits(payment.amount, invoice.decimals);
+    const due = parseUnits(invoice.amount, invoice.decimals);
+    const status: InvoiceStatus =
+        paid < due ? "partially_paid" : paid === due ? "paid" : "overpaid";
+    return {
+        ...invoice,
+        paid: formatUnits(paid, invoice.decimals),
+        payments: [...invoice.payments, payment],
+        payer: invoice.payer ?? payment.from,
+        status,
+        settledAt: status === "partially_paid" ? undefined : payment.timestamp,
+    };
+}
+
+export function formatInvoiceStatus(invoice: Invoice): string {
+    switch (invoice.status) {
+        case "open":
+            return "pendiente de pago";
+        case "partially_paid":
+            return `pago parcial: ${invoice.paid} de ${invoice.amount} ${invoice.token}`;
+        case "paid":
+            return "pagada";
+        case "overpaid":
+            return `pagada con exceso: ${invoice.paid} de ${invoice.amount} ${invoice.token}`;
+        case "expired":
+            return invoice.payments.length > 0
+                ? `expirada con ${invoice.paid} ${invoice.token} recibidos`
+                : "expirada";
+    }
+}
+
+async function notifyRoom(
+    runtime: IAgentRuntime,
+    invoice: Invoice,
+    text: string,
+    event: string = invoice.status
+): Promise<void> {
+    await runtime.messageManager.createMemory({
+        id: stringToUuid(`invoice-${invoice.id}-${event}`),
+        userId: runtime.agentId,
+        agentId: runtime.agentId,
+        roomId: invoice.roomId as UUID,
+        content: { text, action: "INVOICE_SETTLED", invoice },
+        createdAt: Date.now(),
+    });
+}
+
+// Cierra la factura: marca pagado el pedido asociado o lo cancela si expira,
+// anota lo que haya que devolver y avisa en la sala donde se pidió. Las
+// expiradas siguen en el índice durante el plazo de pagos tardíos.
+async function settleInvoice(
+    runtime: IAgentRuntime,
+    invoice: Invoice
+): Promise<void> {
+    const lastPayment = invoice.payments[invoice.payments.length - 1];
+
+    if (invoice.status === "expired") {
+        // Lo recibido en parte no paga el pedido: se cancela y se devuelve
+        const cancelled = invoice.orderId
+            ? await transitionOrder(runtime, invoice.orderId, "cancelled", {
+                  cancelledAt: Date.now(),
+              })
+            : undefined;
+        const received = parseUnits(invoice.paid, invoice.decimals);
+        const expired =
+            received > 0n
+                ? await updateInvoice(runtime, invoice, (current) =>
+                      addRefundDue(current, received)
+                  )
+                : invoice;
+        await notifyRoom(
+            runtime,
+            expired,
+            [
+                `⌛ La factura ${invoice.id} expiró (${formatInvoiceStatus(invoice)}).`,
+                ...(cancelled?.order
+                    ? [`Pedido ${invoice.orderId} cancelado.`]
+                    : []),
+                ...(received > 0n
+                    ? [
+                          `La tienda te devolverá los ${invoice.paid} ${invoice.token} recibidos.`,
+                      ]
+                    : []),
+            ].join("\n")
+        );
+        return;
+    }
+
+    await removeOpenInvoice(runtime, invoice.id);
+    let orderLine: string[] = [];
+    let paidOrder: Order | undefined;
+    // Exceso pagado, o todo lo recibido si el pedido ya no esperaba el pago
+    let refundDue = invoice.status === "overpaid" ? -remaining(invoice) : 0n;
+    if (invoice.orderId) {
+        const paid = await transitionOrder(runtime, invoice.orderId, "paid", {
+            txHash: lastPayment?.hash,
+            payer: invoice.payer,
+            paidAt: invoice.settledAt,
+        });
+        if (paid.order) {
+            await clearCart(runtime, paid.order.userId, paid.order.roomId);
+            paidOrder = paid.order;
+            orderLine = [`Pedido ${invoice.orderId} pagado.`];
+        } else {
+            refundDue = parseUnits(invoice.paid, invoice.decimals);
+            orderLine = [
+                `El pedido ${invoice.orderId} ya no esperaba el pago; la tienda te devolverá los ${invoice.paid} ${invoice.token}.`,
+            ];
+        }
+    }
+    const settled =
+        refundDue > 0n
+            ? await updateInvoice(runtime, invoice, (current) =>
+                  addRefundDue(current, refundDue)
+              )
+            : invoice;
+
+    await notifyRoom(
+        runtime,
+        settled,
+        [
+            `✅ Factura ${invoice.id} ${formatInvoiceStatus(invoice)}.`,
+            ...orderLine,
+            // Si el pedido ya no lo esperaba, el exceso va en la devolución
+            ...(invoice.status === "overpaid" &&
+            (paidOrder || !invoice.orderId)
+                ? [
+                      `Recibimos ${formatUnits(-remaining(invoice), invoice.decimals)} ${invoice.token} de más; la tienda te lo devolverá.`,
+                  ]
+                : []),
+            `Última transacción: https://sepolia.mantlescan.xyz/tx/${lastPayment?.hash}`,
+        ].join("\n")
+    );
+    // Cupón y cashback se aplican después de avisar del pago
+    if (paidOrder) {
+        await rewardPaidOrder(runtime, paidOrder);
+    }
+}
+
+type InvoiceClient = PublicClient<HttpTransport, Chain, Account | undefined>;
+
+interface IncomingPayment extends InvoicePayment {
+    token: PaymentToken;
+    to: Address;
+    // Importe en la unidad mínima del token
+    value: bigint;
+}
+
+// Transferencias de AISHOP (logs Transfer) y de MNT nativo (transacciones de
+// cada bloque) hacia las direcciones de cobro entre dos bloques
+async function findIncomingPayments(
+    publicClient: InvoiceClient,
+    invoices: Invoice[],
+    fromBlock: bigint,
+    toBlock: bigint
+): Promise<IncomingPayment[]> {
+    const payments: IncomingPayment[] = [];
+    const timestamps = new Map<bigint, number>();
+    const getTimestamp = async (blockNumber: bigint) => {
+        if (!timestamps.has(blockNumber)) {
+            const block = await publicClient.getBlock({ blockNumber });
+            timestamps.set(blockNumber, Number(block.timestamp) * 1000);
+        }
+        return timestamps.get(blockNumber) as number;
+    };
+
+    const erc20Targets = new Map<string, Invoice>();
+    const nativeMerchants = new Set<string>();
+    for (const invoice of invoices) {
+        if (invoice.tokenAddress) {
+            erc20Targets.set(
+                `${invoice.tokenAddress}:${invoice.merchant}`.toLowerCase(),
+                invoice
+            );
+        } else {
+            nativeMerchants.add(invoice.merchant.toLowerCase());
+        }
+    }
+
+    for (const invoice of erc20Targets.values()) {
+        const logs = await publicClient.getLogs({
+            address: invoice.tokenAddress,
+            event: transferEvent,
+            args: { to: invoice.merchant },
+            fromBlock,
+            toBlock,
+        });
+        for (const log of logs) {
+            if (!log.args.from || !log.args.value || !log.transactionHash) {
+                continue;
+            }
+            payments.push({
+                token: invoice.token,
+                to: invoice.merchant,
+                from: log.args.from,
+                value: log.args.value,
+                hash: log.transactionHash,
+                amount: formatUnits(log.args.value, invoice.decimals),
+                blockNumber: log.blockNumber.toString(),
+                timestamp: await getTimestamp(log.blockNumber),
+            });
+        }
+    }
+
+    if (nativeMerchants.size > 0) {
+        for (
+            let blockNumber = fromBlock;
+            blockNumber <= toBlock;
+            blockNumber++
+        ) {
+            const block = await publicClient.getBlock({
+                blockNumber,
+                includeTransactions: true,
+            });
+            for (const tx of block.transactions) {
+                if (
+                    !tx.to ||
+                    !nativeMerchants.has(tx.to.toLowerCase()) ||
+                    tx.value === 0n
+                ) {
+                    continue;
+                }
+                // Una transacción revertida también aparece en el bloque
+                const receipt = await publicClient.getTransactionReceipt({
+                    hash: tx.hash as Hash,
+                });
+                if (receipt.status !== "success") continue;
+                payments.push({
+                    token: "MNT",
+                    to: tx.to,
+                    from: tx.from,
+                    value: tx.value,
+                    hash: tx.hash,
+                    amount: formatUnits(tx.value, 18),
+                    blockNumber: blockNumber.toString(),
+                    timestamp: Number(block.timestamp) * 1000,
+                });
+            }
+        }
+    }
+
+    return payments.sort(
+        (a, b) => Number(BigInt(a.blockNumber) - BigInt(b.blockNumber))
+    );
+}
+
+export function createInvoiceClient(runtime: IAgentRuntime): InvoiceClient {
+    const rpcUrl = runtime.getSetting("EVM_RPC_URL") || undefined;
+    const publicClient = createPublicClient({
+        chain: mantleSepoliaTestnet,
+        transport: http(rpcUrl),
+    });
+    return publicClient;
+}
+
+// Revisa los bloques nuevos, asocia los pagos a facturas abiertas, anota los
+// que llegan tarde y cierra las pagadas o expiradas. Devuelve el número de facturas actualizadas.
+export async function scanInvoicePayments(
+    runtime: IAgentRuntime,
+    publicClient: InvoiceClient = createInvoiceClient(runtime)
+): Promise<number> {
+    const watched = await getWatchedInvoices(runtime);
+    if (watched.length === 0) {
+        // Sin facturas no hace falta seguir la cadena; la próxima empieza
+        // desde su propio bloque
+        await runtime.cacheManager.delete(CURSOR_KEY);
+        return 0;
+    }
+
+    const latest = await publicClient.getBlockNumber();
+    const cursor = await runtime.cacheManager.get<string>(CURSOR_KEY);
+    const fromBlock = cursor
+        ? BigInt(cursor) + 1n
+        : watched.reduce(
+              (min, invoice) =>
+                  BigInt(invoice.fromBlock) < min
+                      ? BigInt(invoice.fromBlock)
+                      : min,
+              latest
+          );
+    const toBlock =
+        latest - fromBlock >= MAX_BLOCKS_PER_SCAN
+            ? fromBlock + MAX_BLOCKS_PER_SCAN - 1n
+            : latest;
+
+    const invoices = new Map(watched.map((invoice) => [invoice.id, invoice]));
+    const changed = new Set<string>();
+    const late = new Set<string>();
+    if (fromBlock <= toBlock) {
+        const payments = await findIncomingPayments(
+            publicClient,
+            watched,
+            fromBlock,
+            toBlock
+        );
+        for (const { token, to, value, ...payment } of payments) {
+            const invoice = matchPayment([...invoices.values()], {
+                token,
+                to,
+                from: payment.from,
+                value,
+                timestamp: payment.timestamp,
+            });
+            if (invoice) {
+                invoices.set(
+                    invoice.id,
+                    await updateInvoice(runtime, invoice, (current) =>
+                        applyPayment(current, payment)
+                    )
+                );
+                changed.add(invoice.id);
+                continue;
+            }
+
+            const expired = matchLatePayment([...invoices.values()], {
+                token,
+                to,
+                from: payment.from,
+                value,
+                timestamp: payment.timestamp,
+            });
+            if (!expired) {
+                elizaLogger.warn(
+                    `Pago sin factura: ${payment.amount} ${token} de ${payment.from} (${payment.hash})`
+                );
+                continue;
+            }
+            const updated = await updateInvoice(runtime, expired, (current) =>
+                applyLatePayment(current, payment)
+            );
+            invoices.set(updated.id, updated);
+            late.add(updated.id);
+            await notifyRoom(
+                runtime,
+                updated,
+                `⌛ Recibimos ${payment.amount} ${token} para la factura ${updated.id}, que ya había expirado; la tienda te los devolverá.`,
+                `late-${payment.hash}`
+            );
+        }
+        await runtime.cacheManager.set(CURSOR_KEY, toBlock.toString());
+    }
+
+    // Solo expiran las facturas cuyos bloques ya se revisaron hasta el final
+    const now = Date.now();
+    for (const invoice of invoices.values()) {
+        if (toBlock !== latest) continue;
+        if (isOpen(invoice) && invoice.expiresAt < now) {
+            invoices.set(
+                invoice.id,
+                await updateInvoice(runtime, invoice, (current) =>
+                    isOpen(current)
+                        ? { ...current, status: "expired" }
+                        : current
+                )
+            );
+            changed.add(invoice.id);
+        } else if (
+            invoice.status === "expired" &&
+            invoice.expiresAt + LATE_PAYMENT_WINDOW_MS < now
+        ) {
+            await removeOpenInvoice(runtime, invoice.id);
+        }
+    }
+
+    for (const id of changed) {
+        const invoice = invoices.get(id) as Invoice;
+        if (!isOpen(invoice)) {
+            await settleInvoice(runtime, invoice);
+        }
+    }
+    return new Set([...changed, ...late]).size;
+}
+
+// Inicia el watcher de facturas; devuelve una función para detenerlo
+export function startInvoiceWatcher(
+    runtime: IAgentRuntime,
+    intervalMs = INVOICE_POLL_INTERVAL_MS
+): () => void {
+    let running = false;
+    const timer = setInterval(async () => {
+        if (running) return;
+        running = true;
+        try {
+            await scanInvoicePayments(runtime);
+        } catch (error) {
+            elizaLogger.error("Error scanning invoice payments:", error);
+        } finally {
+            running = false;
+        }
+    }, intervalMs);
+    return () => clearInterval(timer);
+}
+
+// Reembolsos de facturas enviándose en este proceso
+const refundsInFlight = new Set<string>();
+
+// Devuelve lo pendiente de una factura a la wallet que la pagó. Como en los
+// pedidos, el hash se guarda antes de esperar el recibo y solo se reenvía si
+// la transacción falló o el nodo la descartó.
+export async function refundInvoice(
+    runtime: IAgentRuntime,
+    id: string,
+    merchant: WalletProvider | null = initWalletProvider(runtime)
+): Promise<
+    | { refund: ShopOrderRefund; error?: undefined }
+    | { refund?: undefined; error: string }
+> {
+    const invoice = await getInvoice(runtime, id);
+    if (!invoice) {
+        return { error: `No existe la factura ${id.toUpperCase()}.` };
+    }
+    const pending = invoice.refunds?.find((refund) => !refund.refundedAt);
+    if (!pending && !invoice.refundDue) {
+        return {
+            error: `La factura ${invoice.id} no tiene nada pendiente de devolver.`,
+        };
+    }
+    if (!invoice.payer) {
+        return {
+            error: `No se conoce la wallet que pagó la factura ${invoice.id}; devuélvelo manualmente.`,
+        };
+    }
+    if (refundsInFlight.has(invoice.id)) {
+        return {
+            error: `El reembolso de la factura ${invoice.id} ya está en curso.`,
+        };
+    }
+
+    if (!merchant) {
+        return { error: "La wallet del comercio no está configurada." };
+    }
+    if (
+        merchant.getAddress().toLowerCase() !== invoice.merchant.toLowerCase()
+    ) {
+        return {
+            error: `La factura ${invoice.id} se cobró en ${invoice.merchant}, que no es la wallet del agente; devuélvelo manualmente.`,
+        };
+    }
+
+    refundsInFlight.add(invoice.id);
+    try {
+        const publicClient = merchant.getPublicClient();
+        let refund = pending;
+        if (refund) {
+            const outcome = await getTransactionOutcome(
+                publicClient,
+                refund.txHash as Hash,
+                refund.sentAt
+            );
+            if (outcome === "pending") {
+                return {
+                    error: `El reembolso ${refund.txHash} de la factura ${invoice.id} todavía no se ha confirmado.`,
+                };
+            }
+            if (outcome === "failed") refund = undefined;
+        }
+
+        if (!refund) {
+            const amount = invoice.refundDue as string;
+            const txHash = await sendRefund(runtime, merchant, {
+                to: invoice.payer,
+                token: invoice.token,
+                amount,
+                userId: invoice.userId,
+                roomId: invoice.roomId,
+            });
+            const sent = {
+                amount,
+                to: invoice.payer,
+                txHash,
+                sentAt: Date.now(),
+            };
+            refund = sent;
+            // Un reembolso fallido se sustituye por el nuevo
+            await updateInvoice(runtime, invoice, (current) => ({
+                ...current,
+                refunds: [
+                    ...(current.refunds ?? []).filter(
+                        (entry) => entry.refundedAt
+                    ),
+                    sent,
+                ],
+            }));
+            const receipt = await publicClient.waitForTransactionReceipt({
+                hash: txHash as Hash,
+            });
+            if (receipt.status !== "success") {
+                return {
+                    error: `La transacción de reembolso ${txHash} falló; puedes reintentarlo.`,
+                };
+            }
+        }
+
+        // Sobre la factura actual, por si el watcher anotó otro pago tardío
+        const refunded = { ...refund, refundedAt: Date.now() };
+        const settled = await updateInvoice(runtime, invoice, (current) => {
+            const due =
+                parseUnits(current.refundDue ?? "0", current.decimals) -
+                parseUnits(refunded.amount, current.decimals);
+            return {
+                ...current,
+                refundDue:
+                    due > 0n ? formatUnits(due, current.decimals) : undefined,
+                refunds: [
+                    ...(current.refunds ?? []).filter(
+                        (entry) => entry.txHash !== refunded.txHash
+                    ),
+                    refunded,
+                ],
+            };
+        });
+        await notifyRoom(
+            runtime,
+            settled,
+            [
+                `↩️ Te devolvimos ${refund.amount} ${invoice.token} de la factura ${invoice.id} a ${invoice.payer}.`,
+                `Transacción: https://sepolia.mantlescan.xyz/tx/${refund.txHash}`,
+            ].join("\n"),
+            `refund-${refund.txHash}`
+        );
+        return { refund: refunded };
+    } finally {
+        refundsInFlight.delete(invoice.id);
+    }
+}
@@ -0,0 +1,586 @@
+import type { IAgentRuntime } from "@elizaos/core";
+import {
+    createCipheriv,
+    createDecipheriv,
+    randomBytes,
+    randomUUID,
+    scrypt,
+    timingSafeEqual,
+} from "crypto";
+import { keccak256, type Address, type Hex } from "viem";
+import { privateKeyToAccount } from "viem/accounts";
+import { updateCacheIndex } from "./cacheIndex";
+
+// Keystore compatible con el formato Ethereum v3 (geth, MetaMask, ethers).
+// El cifrado es aes-128-ctr con una clave derivada por scrypt, y la integridad
+// se verifica con un MAC keccak256 sobre la segunda mitad de la clave derivada
+// y el texto cifrado, tal como define la especificación v3.
+export interface KeystoreV3 {
+    version: 3;
+    id: string;
+    address: string;
+    crypto: {
+        ciphertext: string;
+        cipherparams: { iv: string };
+        cipher: "aes-128-ctr";
+        kdf: "scrypt";
+        kdfparams: {
+            dklen: number;
+            salt: string;
+            n: number;
+            r: number;
+            p: number;
+        };
+        mac: string;
+    };
+}
+
+// Registro persistido en el cache bajo `user_wallet:<userId>`, o bajo
+// `user_wallet_archive:<userId>:<address>` si es una wallet archivada
+export interface EncryptedWalletRecord {
+    address: Address;
+    keystore: KeystoreV3;
+    createdAt: number;
+    // Ruta BIP-44 si la wallet se importó desde una frase semilla
+    derivationPath?: string;
+    // Solo en wallets archivadas al recuperar otra
+    archivedAt?: number;
+}
+
+export interface UserWalletData {
+    address: Address;
+    privateKey: string;
+    createdAt: number;
+    derivationPath?: string;
+    archivedAt?: number;
+}
+
+export const USER_WALLET_PREFIX = "user_wallet:";
+export const USER_WALLET_INDEX_KEY = "user_wallet_index";
+export const USER_WALLET_ARCHIVE_PREFIX = "user_wallet_archive:";
+// Ids `<userId>:<address>` de las wallets archivadas, para poder rotarlas
+export const USER_WALLET_ARCHIVE_INDEX_KEY = "user_wallet_archive_index";
+
+function walletKey(userId: string): string {
+    return `${USER_WALLET_PREFIX}${userId}`;
+}
+
+function archiveKey(archiveId: string): string {
+    return `${USER_WALLET_ARCHIVE_PREFIX}${archiveId}`;
+}
+
+// Parámetros de scrypt: N=2^14 mantiene el descifrado por debajo de ~100ms,
+// necesario porque cada acción de wallet descifra la clave del usuario
+const SCRYPT_N = 1 << 14;
+const SCRYPT_R = 8;
+const SCRYPT_P = 1;
+const SCRYPT_DKLEN = 32;
+
+// Límites para keystores importados: los de geth y MetaMask usan N=2^18, r=8
+// y p=1. Valores mayores harían reservar gigabytes con un solo mensaje.
+const MAX_SCRYPT_N = 1 << 18;
+const MAX_SCRYPT_R = 8;
+const MAX_SCRYPT_P = 4;
+
+function assertKdfParams(params: KeystoreV3["crypto"]["kdfparams"]): void {
+    const { n, r, p, dklen } = params ?? ({} as typeof params);
+    if (
+        !Number.isInteger(n) ||
+        n < 2 ||
+        n > MAX_SCRYPT_N ||
+        (n & (n - 1)) !== 0 ||
+        !Number.isInteger(r) ||
+        r < 1 ||
+        r > MAX_SCRYPT_R ||
+        !Number.isInteger(p) ||
+        p < 1 ||
+        p > MAX_SCRYPT_P ||
+        dklen !== SCRYPT_DKLEN
+    ) {
+        throw new Error(
+            `Parámetros scrypt no soportados (n=${n}, r=${r}, p=${p}, dklen=${dklen}); el máximo es n=${MAX_SCRYPT_N}, r=${MAX_SCRYPT_R}, p=${MAX_SCRYPT_P} y dklen=${SCRYPT_DKLEN}`
+        );
+    }
+}
+
+function deriveKey(
+    password: string,
+    salt: Buffer,
+    params: { n: number; r: number; p: number; dklen: number }
+): Promise<Buffer> {
+    return new Promise((resolve, reject) => {
+        scrypt(
+            password.normalize("NFKC"),
+            salt,
+            params.dklen,
+            {
+                N: params.n,
+                r: params.r,
+                p: params.p,
+                // scrypt necesita ~128 * r * (N + p) bytes; se duplica para
+                // aceptar keystores importados con parámetros estándar
+                // (N=2^18). assertKdfParams acota n, r y p antes de llegar aquí.
+                maxmem: 2 * 128 * params.r * (params.n + params.p + 2),
+            },
+            (error, derivedKey) => {
+                if (error) reject(error);
+                else resolve(derivedKey);
+            }
+        );
+    });
+}
+
+function computeMac(derivedKey: Buffer, ciphertext: Buffer): string {
+    const macBody = Buffer.concat([derivedKey.subarray(16, 32), ciphertext]);
+    return keccak256(macBody).slice(2);
+}
+
+function normalizePrivateKey(privateKey: string): Hex {
+    return privateKey.startsWith("0x")
+        ? (privateKey as Hex)
+        : (`0x${privateKey}` as Hex);
+}
+
+// Cifra una clave privada con la contraseña dada y devuelve un keystore v3
+export async function encryptPrivateKey(
+    privateKey: string,
+    password: string
+): Promise<KeystoreV3> {
+    const normalizedKey = normalizePrivateKey(privateKey);
+    const account = privateKeyToAccount(normalizedKey);
+
+    const salt = randomBytes(32);
+    const iv = randomBytes(16);
+    const kdfparams = {
+        dklen: SCRYPT_DKLEN,
+        salt: salt.toString("hex"),
+        n: SCRYPT_N,
+        r: SCRYPT_R,
+        p: SCRYPT_P,
+    };
+
+    const derivedKey = await deriveKey(password, salt, kdfparams);
+    const cipher = createCipheriv(
+        "aes-128-ctr",
+        derivedKey.subarray(0, 16),
+        iv
+    );
+    const ciphertext = Buffer.concat([
+        cipher.update(Buffer.from(normalizedKey.slice(2), "hex")),
+        cipher.final(),
+    ]);
+
+    return {
+        version: 3,
+        id: randomUUID(),
+        address: account.address.slice(2).toLowerCase(),
+        crypto: {
+            ciphertext: ciphertext.toString("hex"),
+            cipherparams: { iv: iv.toString("hex") },
+            cipher: "aes-128-ctr",
+            kdf: "scrypt",
+            kdfparams,
+            mac: computeMac(derivedKey, ciphertext),
+        },
+    };
+}
+
+// Descifra un keystore v3; lanza `wrongPasswordMessage` si la contraseña no
+// es correcta
+export async function decryptKeystore(
+    keystore: KeystoreV3,
+    password: string,
+    wrongPasswordMessage = "Clave maestra incorrecta o keystore corrupto"
+): Promise<Hex> {
+    if (keystore.version !== 3) {
+        throw new Error(
+            `Versión de keystore no soportada: ${keystore.version}`
+        );
+    }
+    if (
+        keystore.crypto.kdf !== "scrypt" ||
+        keystore.crypto.cipher !== "aes-128-ctr"
+    ) {
+        throw new Error(
+            `Keystore no soportado: ${keystore.crypto.kdf}/${keystore.crypto.cipher}`
+        );
+    }
+
+    const { kdfparams } = keystore.crypto;
+    assertKdfParams(kdfparams);
+    const ciphertext = Buffer.from(keystore.crypto.ciphertext, "hex");
+    const derivedKey = await deriveKey(
+        password,
+        Buffer.from(kdfparams.salt, "hex"),
+        kdfparams
+    );
+
+    const expectedMac = Buffer.from(computeMac(derivedKey, ciphertext), "hex");
+    const storedMac = Buffer.from(keystore.crypto.mac, "hex");
+    if (
+        expectedMac.length !== storedMac.length ||
+        !timingSafeEqual(expectedMac, storedMac)
+    ) {
+        throw new Error(wrongPasswordMessage);
+    }
+
+    const decipher = createDecipheriv(
+        "aes-128-ctr",
+        derivedKey.subarray(0, 16),
+        Buffer.from(keystore.crypto.cipherparams.iv, "hex")
+    );
+    const privateKey = Buffer.concat([
+        decipher.update(ciphertext),
+        decipher.final(),
+    ]);
+
+    return `0x${privateKey.toString("hex")}` as Hex;
+}
+
+// Obtener la clave maestra con la que se cifran las wallets de los usuarios
+export function getMasterKey(runtime: IAgentRuntime): string {
+    const masterKey = runtime.getSetting("WALLET_MASTER_KEY");
+    if (!masterKey) {
+        throw new Error(
+            "WALLET_MASTER_KEY no está configurada. No es posible custodiar wallets de usuario."
+        );
+    }
+    return masterKey;
+}
+
+// Clave maestra anterior, usada solo durante una rotación
+function getPreviousMasterKey(runtime: IAgentRuntime): string | null {
+    return runtime.getSetting("WALLET_MASTER_KEY_PREVIOUS") || null;
+}
+
+export function isEncryptedWalletRecord(
+    record: unknown
+): record is EncryptedWalletRecord {
+    return (
+        typeof record === "object" &&
+        record !== null &&
+        "keystore" in record &&
+        typeof (record as EncryptedWalletRecord).keystore === "object"
+    );
+}
+
+function parseWalletRecord(raw: unknown): Record<string, unknown> | null {
+    if (!raw) return null;
+    return typeof raw === "string"
+        ? JSON.parse(raw)
+        : (raw as Record<string, unknown>);
+}
+
+// Registrar el userId en el índice para poder recorrer todas las wallets
+export async function indexUserWallet(
+    runtime: IAgentRuntime,
+    userId: string
+): Promise<void> {
+    const index =
+        (await runtime.cacheManager.get<string[]>(USER_WALLET_INDEX_KEY)) ??
+        [];
+    if (!index.includes(userId)) {
+        await runtime.cacheManager.set(USER_WALLET_INDEX_KEY, [
+            ...index,
+            userId,
+        ]);
+    }
+}
+
+export async function getIndexedWalletUsers(
+    runtime: IAgentRuntime
+): Promise<string[]> {
+    return (
+        (await runtime.cacheManager.get<string[]>(USER_WALLET_INDEX_KEY)) ?? []
+    );
+}
+
+// Cifra la clave privada con la clave maestra actual y la guarda en el cache
+export async function storeUserWallet(
+    runtime: IAgentRuntime,
+    userId: string,
+    walletData: UserWalletData
+): Promise<void> {
+    await saveEncryptedRecord(runtime, walletKey(userId), walletData);
+    await indexUserWallet(runtime, userId);
+}
+
+// Descifra la clave del usuario. Si el registro está cifrado con la clave
+// anterior (rotación en curso) o todavía en texto plano, se vuelve a cifrar
+// con la clave maestra actual antes de devolverla.
+export async function unlockUserWallet(
+    runtime: IAgentRuntime,
+    userId: string
+): Promise<Hex | null> {
+    const record = parseWalletRecord(
+        await runtime.cacheManager.get(walletKey(userId))
+    );
+    if (!record) return null;
+
+    const masterKey = getMasterKey(runtime);
+
+    if (!isEncryptedWalletRecord(record)) {
+        const privateKey = normalizePrivateKey(record.privateKey as string);
+        await storeUserWallet(runtime, userId, {
+            address: record.address as Address,
+            privateKey,
+            createdAt: (record.createdAt as number) ?? Date.now(),
+        });
+        return privateKey;
+    }
+
+    try {
+        return await decryptKeystore(record.keystore, masterKey);
+    } catch (error) {
+        const previousKey = getPreviousMasterKey(runtime);
+        if (!previousKey) throw error;
+
+        const privateKey = await decryptKeystore(record.keystore, previousKey);
+        await saveEncryptedRecord(runtime, walletKey(userId), {
+            address: record.address,
+            privateKey,
+            createdAt: record.createdAt,
+            derivationPath: record.derivationPath,
+        });
+        return privateKey;
+    }
+}
+
+async function saveEncryptedRecord(
+    runtime: IAgentRuntime,
+    key: string,
+    walletData: UserWalletData,
+    masterKey = getMasterKey(runtime)
+): Promise<void> {
+    const keystore = await encryptPrivateKey(walletData.privateKey, masterKey);
+    const record: EncryptedWalletRecord = {
+        address: walletData.address,
+        keystore,
+        createdAt: walletData.createdAt,
+        derivationPath: walletData.derivationPath,
+        archivedAt: walletData.archivedAt,
+    };
+    await runtime.cacheManager.set(key, JSON.stringify(record));
+}
+
+async function canDecrypt(
+    keystore: KeystoreV3,
+    password: string
+): Promise<boolean> {
+    try {
+        await decryptKeystore(keystore, password);
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+// Guarda una copia del registro actual antes de reemplazar la wallet del
+// usuario, para que una recuperación nunca pierda acceso a fondos anteriores.
+// La copia se cifra con la clave maestra actual aunque el registro siguiera
+// en texto plano.
+export async function archiveUserWallet(
+    runtime: IAgentRuntime,
+    userId: string
+): Promise<Address | null> {
+    const privateKey = await unlockUserWallet(runtime, userId);
+    if (!privateKey) return null;
+
+    // unlockUserWallet deja el registro cifrado con la clave actual
+    const record = parseWalletRecord(
+        await runtime.cacheManager.get(walletKey(userId))
+    ) as unknown as EncryptedWalletRecord;
+    const archiveId = `${userId}:${record.address}`;
+    await saveEncryptedRecord(runtime, archiveKey(archiveId), {
+        address: record.address,
+        privateKey,
+        createdAt: record.createdAt,
+        derivationPath: record.derivationPath,
+        archivedAt: Date.now(),
+    });
+    await updateCacheIndex<string>(
+        runtime,
+        USER_WALLET_ARCHIVE_INDEX_KEY,
+        (ids) => (ids.includes(archiveId) ? ids : [...ids, archiveId])
+    );
+    return record.address;
+}
+
+// Descifra una wallet archivada con la clave maestra actual
+export async function unlockArchivedWallet(
+    runtime: IAgentRuntime,
+    userId: string,
+    address: string
+): Promise<Hex | null> {
+    const record = parseWalletRecord(
+        await runtime.cacheManager.get(archiveKey(`${userId}:${address}`))
+    );
+    if (!record) return null;
+    if (!isEncryptedWalletRecord(record)) {
+        return normalizePrivateKey(record.privateKey as string);
+    }
+    return decryptKeystore(record.keystore, getMasterKey(runtime));
+}
+
+async function getArchivedWalletIds(runtime: IAgentRuntime): Promise<string[]> {
+    return (
+        (await runtime.cacheManager.get<string[]>(
+            USER_WALLET_ARCHIVE_INDEX_KEY
+        )) ?? []
+    );
+}
+
+// Vuelve a cifrar un registro con la nueva clave maestra. Devuelve false si
+// no existe o si ya se rotó en una ejecución anterior.
+async function rotateRecord(
+    runtime: IAgentRuntime,
+    key: string,
+    currentKey: string,
+    nextKey: string
+): Promise<boolean> {
+    const record = parseWalletRecord(await runtime.cacheManager.get(key));
+    if (!record) return false;
+
+    if (
+        isEncryptedWalletRecord(record) &&
+        (await canDecrypt(record.keystore, nextKey))
+    ) {
+        return false;
+    }
+
+    const privateKey = isEncryptedWalletRecord(record)
+        ? await decryptKeystore(record.keystore, currentKey)
+        : normalizePrivateKey(record.privateKey as string);
+
+    await saveEncryptedRecord(
+        runtime,
+        key,
+        {
+            address: record.address as Address,
+            privateKey,
+            createdAt: (record.createdAt as number) ?? Date.now(),
+            derivationPath: record.derivationPath as string | undefined,
+            archivedAt: record.archivedAt as number | undefined,
+        },
+        nextKey
+    );
+    return true;
+}
+
+// Vuelve a cifrar todas las wallets indexadas, y las archivadas de esos
+// usuarios, con una nueva clave maestra. Devuelve los userIds (o los ids
+// `<userId>:<address>` de las archivadas) que no se pudieron rotar para
+// revisarlos manualmente.
+export async function rotateMasterKey(
+    runtime: IAgentRuntime,
+    currentKey: string,
+    nextKey: string,
+    userIds?: string[]
+): Promise<{ rotated: string[]; failed: string[] }> {
+    const rotated: string[] = [];
+    const failed: string[] = [];
+    const users = userIds ?? (await getIndexedWalletUsers(runtime));
+    const archived = (await getArchivedWalletIds(runtime)).filter(
+        (archiveId) => !userIds || userIds.includes(archiveId.split(":")[0])
+    );
+    const targets = [
+        ...users.map((id) => ({ id, key: walletKey(id) })),
+        ...archived.map((id) => ({ id, key: archiveKey(id) })),
+    ];
+
+    for (const { id, key } of targets) {
+        try {
+            if (await rotateRecord(runtime, key, currentKey, nextKey)) {
+                rotated.push(id);
+            }
+        } catch (error) {
+            console.error(`Error al rotar la wallet ${id}:`, error);
+            failed.push(id);
+        }
+    }
+
+    return { rotated, failed };
+}
+
+// Usuarios que comparten sala con el agente. Los registros creados antes del
+// índice no aparecen en él, y el cache no permite listar sus claves, así que
+// se buscan entre los participantes de las salas del agente.
+async function getAgentParticipants(
+    runtime: IAgentRuntime
+): Promise<string[]> {
+    const db = runtime.databaseAdapter;
+    const participants = new Set<string>();
+    for (const roomId of await db.getRoomsForParticipant(runtime.agentId)) {
+        for (const userId of await db.getParticipantsForRoom(roomId)) {
+            if (userId !== runtime.agentId) participants.add(userId);
+        }
+    }
+    return Array.from(participants);
+}
+
+// Migración: cifra los registros `user_wallet:*` que aún guardan la clave en
+// texto plano, recorriendo el índice y los participantes de las salas del
+// agente. Los userIds que no aparezcan en ninguno pueden pasarse a mano.
+// También cifra las wallets archivadas que sigan en texto plano.
+export async function migrateUserWallets(
+    runtime: IAgentRuntime,
+    userIds: string[] = []
+): Promise<{ migrated: string[]; failed: string[] }> {
+    const migrated: string[] = [];
+    const failed: string[] = [];
+    const indexed = await getIndexedWalletUsers(runtime);
+    const participants = await getAgentParticipants(runtime);
+    const candidates = Array.from(
+        new Set([...indexed, ...participants, ...userIds])
+    );
+
+    for (const userId of candidates) {
+        try {
+            const record = parseWalletRecord(
+                await runtime.cacheManager.get(walletKey(userId))
+            );
+            if (!record) continue;
+
+            if (!isEncryptedWalletRecord(record)) {
+                await saveEncryptedRecord(runtime, walletKey(userId), {
+                    address: record.address as Address,
+                    privateKey: record.privateKey as string,
+                    createdAt: (record.createdAt as number) ?? Date.now(),
+                });
+                migrated.push(userId);
+            }
+            await indexUserWallet(runtime, userId);
+        } catch (error) {
+            console.error(
+                `Error al migrar la wallet del usuario ${userId}:`,
+                error
+            );
+            failed.push(userId);
+        }
+    }
+
+    for (const archiveId of await getArchivedWalletIds(runtime)) {
+        try {
+            const record = parseWalletRecord(
+                await runtime.cacheManager.get(archiveKey(archiveId))
+            );
+            if (!record || isEncryptedWalletRecord(record)) continue;
+
+            await saveEncryptedRecord(runtime, archiveKey(archiveId), {
+                address: record.address as Address,
+                privateKey: record.privateKey as string,
+                createdAt: (record.createdAt as number) ?? Date.now(),
+                archivedAt: record.archivedAt as number | undefined,
+            });
+            migrated.push(archiveId);
+        } catch (error) {
+            console.error(
+                `Error al migrar la wallet archivada ${archiveId}:`,
+                error
+            );
+            failed.push(archiveId);
+        }
+    }
+
+    return { migrated, failed };
+}
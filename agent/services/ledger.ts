@@ -0,0 +1,176 @@
+import {
+    elizaLogger,
+    LedgerStatus,
+    type IAgentRuntime,
+    type LedgerEntry,
+} from "@elizaos/core";
+import {
+    createPublicClient,
+    http,
+    TransactionNotFoundError,
+    TransactionReceiptNotFoundError,
+    type Chain,
+    type Hash,
+    type PublicClient,
+} from "viem";
+import { CHAINS_BY_ID, mantleSepoliaTestnet } from "../config/chains";
+
+export const LEDGER_POLL_INTERVAL_MS = 15 * 1000;
+// Una transacción sin recibo después de este tiempo, y que el nodo ya no
+// conoce, se considera descartada
+const DROPPED_AFTER_MS = 30 * 60 * 1000;
+
+export type TransactionState = "mined" | "pending" | "dropped" | "unknown";
+
+// Estado de una transacción enviada. "dropped" solo se devuelve cuando el nodo
+// confirma que no tiene ni el recibo ni la transacción; un error del RPC da
+// "unknown" para que quien llama vuelva a intentarlo más tarde.
+export async function getTransactionState(
+    publicClient: Pick<
+        PublicClient,
+        "getTransactionReceipt" | "getTransaction"
+    >,
+    hash: Hash
+): Promise<TransactionState> {
+    try {
+        await publicClient.getTransactionReceipt({ hash });
+        return "mined";
+    } catch (error) {
+        if (!(error instanceof TransactionReceiptNotFoundError)) {
+            return "unknown";
+        }
+    }
+    try {
+        await publicClient.getTransaction({ hash });
+        return "pending";
+    } catch (error) {
+        return error instanceof TransactionNotFoundError
+            ? "dropped"
+            : "unknown";
+    }
+}
+
+// Resultado de una transacción que el agente envió en `sentAt`: confirmada,
+// fallida (revirtió o el nodo la descartó hace tiempo, y puede reenviarse) o
+// todavía pendiente
+export async function getTransactionOutcome(
+    publicClient: Pick<
+        PublicClient,
+        "getTransactionReceipt" | "getTransaction"
+    >,
+    hash: Hash,
+    sentAt = 0
+): Promise<"confirmed" | "failed" | "pending"> {
+    const state = await getTransactionState(publicClient, hash);
+    if (state === "mined") {
+        const receipt = await publicClient.getTransactionReceipt({ hash });
+        return receipt.status === "success" ? "confirmed" : "failed";
+    }
+    if (state === "dropped" && Date.now() - sentAt > DROPPED_AFTER_MS) {
+        return "failed";
+    }
+    return "pending";
+}
+
+// Las wallets del agente envían por EVM_RPC_URL, así que los recibos de
+// Mantle Sepolia se consultan en el mismo nodo
+export function createReceiptClient(runtime: IAgentRuntime, chain: Chain) {
+    const rpcUrl =
+        chain.id === mantleSepoliaTestnet.id
+            ? runtime.getSetting("EVM_RPC_URL") || undefined
+            : undefined;
+    return createPublicClient({ chain, transport: http(rpcUrl) });
+}
+
+// Registra una transacción enviada por el agente como pendiente. Un error al
+// escribir el ledger no debe hacer fallar una transacción ya enviada.
+export async function recordLedgerEntry(
+    runtime: IAgentRuntime,
+    entry: Omit<LedgerEntry, "agentId" | "status" | "createdAt">
+): Promise<void> {
+    try {
+        await runtime.databaseAdapter.createLedgerEntry({
+            ...entry,
+            agentId: runtime.agentId,
+            status: LedgerStatus.PENDING,
+            createdAt: Date.now(),
+        });
+    } catch (error) {
+        console.error("Error al registrar la transacción en el ledger:", error);
+    }
+}
+
+// Consulta los recibos de las transacciones pendientes y actualiza su estado
+export async function pollPendingTransactions(
+    runtime: IAgentRuntime
+): Promise<number> {
+    const pending = await runtime.databaseAdapter.getLedgerEntries({
+        agentId: runtime.agentId,
+        status: LedgerStatus.PENDING,
+    });
+
+    let updated = 0;
+    for (const entry of pending) {
+        const chain = CHAINS_BY_ID[entry.chainId];
+        if (!chain) continue;
+
+        const publicClient = createReceiptClient(runtime, chain);
+        try {
+            const receipt = await publicClient.getTransactionReceipt({
+                hash: entry.hash as Hash,
+            });
+            await runtime.databaseAdapter.updateLedgerEntryStatus({
+                hash: entry.hash,
+                status:
+                    receipt.status === "success"
+                        ? LedgerStatus.CONFIRMED
+                        : LedgerStatus.FAILED,
+                blockNumber: Number(receipt.blockNumber),
+            });
+            updated++;
+        } catch (error) {
+            // Un error del RPC no dice nada de la transacción: sigue pendiente
+            if (!(error instanceof TransactionReceiptNotFoundError)) continue;
+            if (Date.now() - Number(entry.createdAt) <= DROPPED_AFTER_MS) {
+                continue;
+            }
+            // Sin recibo tras el plazo: solo falla si el nodo la descartó
+            const state = await getTransactionState(
+                publicClient,
+                entry.hash as Hash
+            );
+            if (state === "dropped") {
+                await runtime.databaseAdapter.updateLedgerEntryStatus({
+                    hash: entry.hash,
+                    status: LedgerStatus.FAILED,
+                });
+                updated++;
+            }
+        }
+    }
+    return updated;
+}
+
+// Inicia el poller de recibos, que después de cada ronda llama a `onPolled`
+// para conciliar lo que dependía de esas transacciones; devuelve una función
+// para detenerlo
+export function startLedgerPoller(
+    runtime: IAgentRuntime,
+    onPolled?: (runtime: IAgentRuntime) => Promise<unknown>,
+    intervalMs = LEDGER_POLL_INTERVAL_MS
+): () => void {
+    let running = false;
+    const timer = setInterval(async () => {
+        if (running) return;
+        running = true;
+        try {
+            await pollPendingTransactions(runtime);
+            await onPolled?.(runtime);
+        } catch (error) {
+            elizaLogger.error("Error polling ledger receipts:", error);
+        } finally {
+            running = false;
+        }
+    }, intervalMs);
+    return () => clearInterval(timer);
+}
@@ -0,0 +1,578 @@
+import {
+    Service,
+    ServiceType,
+    stringToUuid,
+    type IAgentRuntime,
+    type IOrderService,
+    type ShopOrder,
+    type ShopOrderFilter,
+    type ShopOrderLine,
+    type ShopOrderStatus,
+    type UUID,
+} from "@elizaos/core";
+import { randomInt } from "crypto";
+import {
+    formatUnits,
+    parseEther,
+    parseUnits,
+    type Address,
+    type Hash,
+} from "viem";
+import { mantleSepoliaTestnet } from "../config/chains";
+import { getTokenBySymbol, isERC20Token } from "../config/token";
+import {
+    initWalletProvider,
+    type WalletProvider,
+} from "../providers/wallet";
+import { sendERC20Transfer } from "../actions/transferERC20";
+import { updateCacheEntry, updateCacheIndex } from "./cacheIndex";
+import { getTransactionOutcome, recordLedgerEntry } from "./ledger";
+import { getProductCatalog, type PaymentToken } from "./catalog";
+import { getInvoice, refundInvoice } from "./invoices";
+import { getPendingIntent } from "./pendingIntents";
+import {
+    CASHBACK_TOKEN,
+    getCashbackHistory,
+    releaseCouponUse,
+    reserveCouponUse,
+} from "./promotions";
+
+// Pedido creado al pagar un carrito. Se guarda en el cache junto a un índice
+// con los ids de todos los pedidos, porque el cache no permite listar claves.
+// Los tipos viven en core para que la API de administración los comparta.
+export interface Order extends ShopOrder {
+    token: PaymentToken;
+    merchant: Address;
+    payer?: Address;
+}
+
+export type OrderLine = ShopOrderLine;
+
+export type OrderStatus = ShopOrderStatus;
+
+// Estados a los que puede pasar un pedido desde cada estado
+export const ORDER_TRANSITIONS: Record<OrderStatus, OrderStatus[]> = {
+    created: ["awaiting_payment", "cancelled"],
+    awaiting_payment: ["paid", "cancelled"],
+    paid: ["fulfilled", "refunded"],
+    fulfilled: ["refunded"],
+    cancelled: [],
+    refunded: [],
+};
+
+export const ORDER_STATUS_LABELS: Record<OrderStatus, string> = {
+    created: "creado",
+    awaiting_payment: "esperando pago",
+    paid: "pagado",
+    fulfilled: "entregado",
+    cancelled: "cancelado",
+    refunded: "reembolsado",
+};
+
+export const ORDER_PREFIX = "order:";
+const ORDER_INDEX_KEY = `${ORDER_PREFIX}index`;
+
+// Sin caracteres ambiguos (0/O, 1/I), como los códigos de confirmación
+const ORDER_ID_ALPHABET = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789";
+const ORDER_ID_LENGTH = 8;
+export const ORDER_ID_REGEX = /\bORD-[A-Z0-9]{8}\b/i;
+
+function orderKey(id: string): string {
+    return `${ORDER_PREFIX}${id.toUpperCase()}`;
+}
+
+function generateOrderId(): string {
+    let id = "";
+    for (let i = 0; i < ORDER_ID_LENGTH; i++) {
+        id += ORDER_ID_ALPHABET[randomInt(ORDER_ID_ALPHABET.length)];
+    }
+    return `ORD-${id}`;
+}
+
+// Dirección que cobra los pedidos: MERCHANT_ADDRESS o, si no está
+// configurada, la wallet del agente
+export function getMerchantAddress(runtime: IAgentRuntime): Address | null {
+    const configured = runtime.getSetting("MERCHANT_ADDRESS");
+    if (configured) {
+        if (!/^0x[a-fA-F0-9]{40}$/.test(configured)) {
+            throw new Error(`MERCHANT_ADDRESS inválida: ${configured}`);
+        }
+        return configured as Address;
+    }
+    return initWalletProvider(runtime)?.getAddress() ?? null;
+}
+
+// Crea el pedido reservando el uso de su cupón; falla si ya no quedan usos
+export async function createOrder(
+    runtime: IAgentRuntime,
+    data: Pick<
+        Order,
+        "userId" | "roomId" | "items" | "token" | "total" | "merchant"
+    > &
+        Partial<Pick<Order, "coupon">>
+): Promise<Order> {
+    const now = Date.now();
+    const order: Order = {
+        ...data,
+        id: generateOrderId(),
+        status: "created",
+        createdAt: now,
+        updatedAt: now,
+    };
+    const reserved = await reserveCouponUse(runtime, order);
+    if (reserved.error) throw new Error(reserved.error);
+    await runtime.cacheManager.set(orderKey(order.id), order);
+    await updateCacheIndex<string>(runtime, ORDER_INDEX_KEY, (ids) => [
+        ...ids,
+        order.id,
+    ]);
+    return order;
+}
+
+export async function getOrder(
+    runtime: IAgentRuntime,
+    id: string
+): Promise<Order | null> {
+    return (await runtime.cacheManager.get<Order>(orderKey(id))) ?? null;
+}
+
+export async function updateOrder(
+    runtime: IAgentRuntime,
+    id: string,
+    changes: Partial<Omit<Order, "id" | "userId" | "createdAt">>
+): Promise<Order | null> {
+    const order = await getOrder(runtime, id);
+    if (!order) return null;
+
+    return updateCacheEntry<Order>(runtime, orderKey(id), (current) => ({
+        ...(current ?? order),
+        ...changes,
+        updatedAt: Date.now(),
+    }));
+}
+
+export function canTransition(from: OrderStatus, to: OrderStatus): boolean {
+    return ORDER_TRANSITIONS[from].includes(to);
+}
+
+// Cambia el estado del pedido si la transición está permitida. La
+// comprobación y el cambio se serializan: de dos transiciones simultáneas al
+// mismo estado solo una gana, y solo esa mueve stock y cupones.
+export async function transitionOrder(
+    runtime: IAgentRuntime,
+    id: string,
+    status: OrderStatus,
+    changes: Partial<
+        Omit<Order, "id" | "userId" | "createdAt" | "status">
+    > = {}
+): Promise<
+    { order: Order; error?: undefined } | { order?: undefined; error: string }
+> {
+    const order = await getOrder(runtime, id);
+    if (!order) {
+        return { error: `No existe el pedido ${id.toUpperCase()}.` };
+    }
+    let previous: OrderStatus | undefined;
+    const updated = await updateCacheEntry<Order>(
+        runtime,
+        orderKey(order.id),
+        (current) => {
+            const stored = current ?? order;
+            if (!canTransition(stored.status, status)) return stored;
+            previous = stored.status;
+            return { ...stored, ...changes, status, updatedAt: Date.now() };
+        }
+    );
+    if (!previous) {
+        return {
+            error: `El pedido ${updated.id} está ${ORDER_STATUS_LABELS[updated.status]} y no puede pasar a ${ORDER_STATUS_LABELS[status]}.`,
+        };
+    }
+    if (status === "paid") await updateOrderStock(runtime, updated, -1);
+    // Lo ya entregado no vuelve al almacén al reembolsarse
+    if (status === "refunded" && previous === "paid") {
+        await updateOrderStock(runtime, updated, 1);
+    }
+    if (status === "cancelled") await releaseCouponUse(runtime, updated);
+    return { order: updated };
+}
+
+// Las unidades de un pedido salen del stock al pagarse y vuelven si se
+// reembolsa antes de entregarse
+async function updateOrderStock(
+    runtime: IAgentRuntime,
+    order: Order,
+    direction: 1 | -1
+): Promise<void> {
+    const catalog = getProductCatalog(runtime);
+    if (!catalog) return;
+    for (const line of order.items) {
+        await catalog.adjustStock(runtime, line.sku, direction * line.quantity);
+    }
+}
+
+// Pedidos del índice, del más reciente al más antiguo
+export async function listOrders(
+    runtime: IAgentRuntime,
+    filter: ShopOrderFilter = {}
+): Promise<Order[]> {
+    const index =
+        (await runtime.cacheManager.get<string[]>(ORDER_INDEX_KEY)) ?? [];
+    const orders: Order[] = [];
+    for (const id of [...index].reverse()) {
+        const order = await getOrder(runtime, id);
+        if (!order) continue;
+        if (filter.userId && order.userId !== filter.userId) continue;
+        if (filter.status && order.status !== filter.status) continue;
+        if (
+            filter.refundRequested !== undefined &&
+            Boolean(order.refundRequest) !== filter.refundRequested
+        ) {
+            continue;
+        }
+        orders.push(order);
+    }
+    return orders;
+}
+
+export function formatOrderSummary(order: Order): string {
+    return `${order.id} · ${order.total} ${order.token} · ${ORDER_STATUS_LABELS[order.status]} · ${new Date(order.createdAt).toISOString().slice(0, 10)}`;
+}
+
+export async function notifyOrderRoom(
+    runtime: IAgentRuntime,
+    order: Order,
+    text: string
+): Promise<void> {
+    await runtime.messageManager.createMemory({
+        id: stringToUuid(`order-${order.id}-${order.status}`),
+        userId: runtime.agentId,
+        agentId: runtime.agentId,
+        roomId: order.roomId as UUID,
+        content: { text, action: "ORDER_UPDATED", order },
+        createdAt: Date.now(),
+    });
+}
+
+// El pago del pedido ya se envió, o su código se está ejecutando, y todavía
+// no se sabe si se cobró
+export async function isPaymentInProgress(
+    runtime: IAgentRuntime,
+    order: Order
+): Promise<boolean> {
+    if (order.status !== "awaiting_payment") return false;
+    if (order.txHash) return true;
+    if (!order.paymentCode) return false;
+    const intent = await getPendingIntent(
+        runtime,
+        order.userId,
+        order.paymentCode
+    );
+    return intent?.status === "executing";
+}
+
+// Un pedido sin pagar se cancela directamente; uno pagado queda con la
+// solicitud registrada para que la tienda envíe el reembolso
+export async function requestRefund(
+    runtime: IAgentRuntime,
+    id: string,
+    reason?: string
+): Promise<
+    | { order: Order; cancelled: boolean; error?: undefined }
+    | { order?: undefined; cancelled?: undefined; error: string }
+> {
+    const order = await getOrder(runtime, id);
+    if (!order) {
+        return { error: `No existe el pedido ${id.toUpperCase()}.` };
+    }
+
+    if (await isPaymentInProgress(runtime, order)) {
+        return {
+            error: `El pago del pedido ${order.id} está en curso. Podrás pedir el reembolso cuando se confirme.`,
+        };
+    }
+    if (canTransition(order.status, "cancelled")) {
+        const cancelled = await transitionOrder(
+            runtime,
+            order.id,
+            "cancelled",
+            { cancelledAt: Date.now() }
+        );
+        return cancelled.order
+            ? { order: cancelled.order, cancelled: true }
+            : { error: cancelled.error };
+    }
+    if (!canTransition(order.status, "refunded")) {
+        return {
+            error: `El pedido ${order.id} está ${ORDER_STATUS_LABELS[order.status]} y no se puede reembolsar.`,
+        };
+    }
+    if (order.refundRequest) {
+        return {
+            error: `Ya solicitaste el reembolso del pedido ${order.id}; la tienda lo está revisando.`,
+        };
+    }
+
+    const updated = await updateOrder(runtime, order.id, {
+        refundRequest: { reason, requestedAt: Date.now() },
+    });
+    return { order: updated as Order, cancelled: false };
+}
+
+export async function fulfilOrder(
+    runtime: IAgentRuntime,
+    id: string
+): Promise<
+    { order: Order; error?: undefined } | { order?: undefined; error: string }
+> {
+    const result = await transitionOrder(runtime, id, "fulfilled", {
+        fulfilledAt: Date.now(),
+    });
+    if (result.order) {
+        await notifyOrderRoom(
+            runtime,
+            result.order,
+            `📦 Tu pedido ${result.order.id} fue entregado. ¡Gracias por tu compra!`
+        );
+    }
+    return result;
+}
+
+// Reembolsos enviándose en este proceso, para no pagar dos veces el mismo
+const refundsInFlight = new Set<string>();
+
+// Devuelve el total del pedido desde la wallet del comercio a la wallet que
+// pagó. El hash se guarda en el pedido antes de esperar el recibo: si el
+// proceso se reinicia, el siguiente intento consulta esa transacción en lugar
+// de enviar otra. Solo se reenvía si falló o si el nodo la descartó.
+export async function refundOrder(
+    runtime: IAgentRuntime,
+    id: string,
+    reason?: string,
+    merchant: WalletProvider | null = initWalletProvider(runtime)
+): Promise<
+    { order: Order; error?: undefined } | { order?: undefined; error: string }
+> {
+    const order = await getOrder(runtime, id);
+    if (!order) {
+        return { error: `No existe el pedido ${id.toUpperCase()}.` };
+    }
+    if (!canTransition(order.status, "refunded")) {
+        return {
+            error: `El pedido ${order.id} está ${ORDER_STATUS_LABELS[order.status]} y no se puede reembolsar.`,
+        };
+    }
+    if (!order.payer) {
+        return {
+            error: `No se conoce la wallet que pagó el pedido ${order.id}; reembólsalo manualmente.`,
+        };
+    }
+    if (refundsInFlight.has(order.id)) {
+        return {
+            error: `El reembolso del pedido ${order.id} ya está en curso.`,
+        };
+    }
+
+    if (!merchant) {
+        return { error: "La wallet del comercio no está configurada." };
+    }
+    if (merchant.getAddress().toLowerCase() !== order.merchant.toLowerCase()) {
+        return {
+            error: `El pedido ${order.id} se cobró en ${order.merchant}, que no es la wallet del agente; reembólsalo manualmente.`,
+        };
+    }
+
+    refundsInFlight.add(order.id);
+    try {
+        const amount = await getRefundAmount(runtime, order);
+        const publicClient = merchant.getPublicClient();
+        let hash = order.refund?.txHash as Hash | undefined;
+        let sentAt = order.refund?.sentAt;
+        if (hash) {
+            const outcome = await getTransactionOutcome(
+                publicClient,
+                hash,
+                sentAt
+            );
+            if (outcome === "pending") {
+                return {
+                    error: `El reembolso ${hash} del pedido ${order.id} todavía no se ha confirmado.`,
+                };
+            }
+            if (outcome === "failed") hash = undefined;
+        }
+
+        if (!hash) {
+            hash = await sendRefund(runtime, merchant, {
+                to: order.payer,
+                token: order.token,
+                amount,
+                userId: order.userId,
+                roomId: order.roomId,
+            });
+            sentAt = Date.now();
+            await updateOrder(runtime, order.id, {
+                refund: {
+                    amount,
+                    to: order.payer,
+                    txHash: hash,
+                    reason: reason ?? order.refundRequest?.reason,
+                    sentAt,
+                },
+            });
+            const receipt = await publicClient.waitForTransactionReceipt({
+                hash,
+            });
+            if (receipt.status !== "success") {
+                return {
+                    error: `La transacción de reembolso ${hash} falló; puedes reintentarlo.`,
+                };
+            }
+        }
+
+        const refunded = await transitionOrder(runtime, order.id, "refunded", {
+            refund: {
+                amount,
+                to: order.payer,
+                txHash: hash,
+                reason: reason ?? order.refundRequest?.reason,
+                sentAt,
+                refundedAt: Date.now(),
+            },
+        });
+        if (refunded.order) {
+            await notifyOrderRoom(
+                runtime,
+                refunded.order,
+                [
+                    `↩️ Reembolsamos ${amount} ${order.token} del pedido ${order.id} a ${order.payer}.`,
+                    `Transacción: https://sepolia.mantlescan.xyz/tx/${hash}`,
+                ].join("\n")
+            );
+        }
+        return refunded;
+    } finally {
+        refundsInFlight.delete(order.id);
+    }
+}
+
+// Decimales del token de pago según el registro de tokens; MNT es nativo
+function getPaymentTokenDecimals(
+    runtime: IAgentRuntime,
+    token: PaymentToken
+): number {
+    if (token === "MNT") return 18;
+    const config = getTokenBySymbol(runtime, mantleSepoliaTestnet.id, token);
+    if (!config) {
+        throw new Error(
+            `No se encontró configuración para el token ${token}.`
+        );
+    }
+    return config.decimals;
+}
+
+// Lo cobrado por el pedido, que con factura incluye los decimales de la
+// referencia, menos el cashback ya enviado
+async function getRefundAmount(
+    runtime: IAgentRuntime,
+    order: Order
+): Promise<string> {
+    const decimals = getPaymentTokenDecimals(runtime, order.token);
+    const invoice = order.invoiceId
+        ? await getInvoice(runtime, order.invoiceId)
+        : null;
+    let amount = parseUnits(invoice?.amount ?? order.total, decimals);
+    if (order.token === CASHBACK_TOKEN) {
+        const cashback = (await getCashbackHistory(runtime, order.userId)).find(
+            (entry) => entry.orderId === order.id && entry.status === "sent"
+        );
+        if (cashback) amount -= parseUnits(cashback.amount, decimals);
+    }
+    return formatUnits(amount, decimals);
+}
+
+// Envía un reembolso desde la wallet del comercio, en MNT nativo o en el
+// token ERC-20 con que se pagó, y lo anota en el ledger
+export async function sendRefund(
+    runtime: IAgentRuntime,
+    merchant: WalletProvider,
+    refund: {
+        to: Address;
+        token: PaymentToken;
+        amount: string;
+        userId: string;
+        roomId: string;
+    }
+): Promise<Hash> {
+    const { to, amount } = refund;
+    if (refund.token === "MNT") {
+        const hash = await merchant.getWalletClient().sendTransaction({
+            account: merchant.getAccount(),
+            to,
+            value: parseEther(amount),
+            chain: mantleSepoliaTestnet,
+            kzg: undefined,
+        });
+        await recordLedgerEntry(runtime, {
+            userId: refund.userId as UUID,
+            roomId: refund.roomId as UUID,
+            action: "REFUND",
+            chainId: mantleSepoliaTestnet.id,
+            from: merchant.getAddress(),
+            to,
+            token: "MNT",
+            amount,
+            hash,
+        });
+        return hash;
+    }
+
+    const token = getTokenBySymbol(
+        runtime,
+        mantleSepoliaTestnet.id,
+        refund.token
+    );
+    if (!token || !isERC20Token(token)) {
+        throw new Error(
+            `No se encontró configuración para el token ${refund.token}.`
+        );
+    }
+    return sendERC20Transfer(runtime, {
+        provider: merchant,
+        token,
+        to,
+        amount: parseUnits(amount, token.decimals),
+        userId: refund.userId,
+        roomId: refund.roomId as UUID,
+        action: "REFUND",
+    });
+}
+
+// Expone los pedidos como servicio para la API de administración
+export class OrderService extends Service implements IOrderService {
+    static get serviceType(): ServiceType {
+        return ServiceType.SHOP_ORDERS;
+    }
+
+    async initialize(_runtime: IAgentRuntime): Promise<void> {}
+
+    listOrders(runtime: IAgentRuntime, filter?: ShopOrderFilter) {
+        return listOrders(runtime, filter);
+    }
+
+    getOrder(runtime: IAgentRuntime, id: string) {
+        return getOrder(runtime, id);
+    }
+
+    fulfilOrder(runtime: IAgentRuntime, id: string) {
+        return fulfilOrder(runtime, id);
+    }
+
+    refundOrder(runtime: IAgentRuntime, id: string, reason?: string) {
+        return refundOrder(runtime, id, reason);
+    }
+
+    refundInvoice(runtime: IAgentRuntime, id: string) {
+        return refundInvoice(runtime, id);
+    }
+}
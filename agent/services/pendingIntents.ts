@@ -0,0 +1,318 @@
+import {
+    elizaLogger,
+    type HandlerCallback,
+    type IAgentRuntime,
+    type Memory,
+} from "@elizaos/core";
+import { randomInt } from "crypto";
+import { updateCacheIndex } from "./cacheIndex";
+
+// Intención de mover fondos que espera la confirmación explícita del usuario.
+// Se guarda en el cache (persistente) para que un reinicio del agente no la
+// pierda, y su estado impide que una confirmación se ejecute dos veces.
+export interface PendingIntent {
+    code: string;
+    userId: string;
+    roomId: string;
+    // Acción que ejecutará la intención (TRANSFER_MNT, TRANSFER_ERC20, ...)
+    action: string;
+    // Parámetros serializables que necesita el ejecutor de la acción
+    params: Record<string, string>;
+    quote: IntentQuote;
+    status: PendingIntentStatus;
+    createdAt: number;
+    expiresAt: number;
+    txHash?: string;
+    // Momento en que se envió la transacción
+    sentAt?: number;
+    error?: string;
+}
+
+export interface IntentQuote {
+    recipient: string;
+    // Nombre del contacto o usuario al que se resolvió el destinatario
+    recipientName?: string;
+    amount: string;
+    symbol: string;
+    estimatedGas: string;
+    estimatedFee: string;
+    // El agente recarga el gas de la wallet del usuario antes de enviar
+    sponsoredGas?: boolean;
+}
+
+export type PendingIntentStatus =
+    | "pending"
+    | "executing"
+    | "executed"
+    | "failed"
+    | "cancelled";
+
+export type IntentExecutor = (
+    agent: IAgentRuntime,
+    intent: PendingIntent,
+    memory: Memory,
+    callback?: HandlerCallback
+) => Promise<{ success: boolean; txHash?: string; error?: string }>;
+
+// Libera lo que una intención reservaba (p. ej. el pedido de un CHECKOUT)
+// cuando se cancela o expira sin confirmarse
+export type IntentReleaser = (
+    agent: IAgentRuntime,
+    intent: PendingIntent
+) => Promise<void>;
+
+export const PENDING_INTENT_PREFIX = "pending_intent:";
+export const PENDING_INTENT_TTL_MS = 10 * 60 * 1000;
+// Claves de todas las intenciones guardadas, para poder borrar las expiradas
+export const PENDING_INTENT_INDEX_KEY = "pending_intent_index";
+export const INTENT_SWEEP_INTERVAL_MS = 60 * 1000;
+
+// Sin caracteres ambiguos (0/O, 1/I) para que el código sea fácil de copiar
+const CODE_ALPHABET = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789";
+const CODE_LENGTH = 6;
+// Un código válido usa solo el alfabeto y tiene al menos un dígito, para que
+// palabras como "pedido" en "confirmar pedido" no se tomen por un código
+const CODE_PATTERN = `(?=[A-HJ-NP-Z]{0,${CODE_LENGTH - 1}}[2-9])[A-HJ-NP-Z2-9]{${CODE_LENGTH}}`;
+
+// Confirmaciones en curso en este proceso, para descartar mensajes duplicados
+const inFlight = new Set<string>();
+
+function intentKey(userId: string, code: string): string {
+    return `${PENDING_INTENT_PREFIX}${userId}:${code.toUpperCase()}`;
+}
+
+function generateCode(): string {
+    let code = "";
+    do {
+        code = "";
+        for (let i = 0; i < CODE_LENGTH; i++) {
+            code += CODE_ALPHABET[randomInt(CODE_ALPHABET.length)];
+        }
+    } while (!/[2-9]/.test(code));
+    return code;
+}
+
+// Interpreta "confirmar <código>" o "cancelar <código>"
+export function parseIntentReply(
+    text: string
+): { code: string; confirmed: boolean } | null {
+    const match = text.match(
+        new RegExp(
+            `\\b(confirm|confirmar|confirmo|cancel|cancelar)\\s+(${CODE_PATTERN})\\b`,
+            "i"
+        )
+    );
+    if (!match) return null;
+    return {
+        code: match[2].toUpperCase(),
+        confirmed: !match[1].toLowerCase().startsWith("cancel"),
+    };
+}
+
+export async function createPendingIntent(
+    runtime: IAgentRuntime,
+    data: Pick<PendingIntent, "userId" | "roomId" | "action" | "params" | "quote">,
+    ttlMs = PENDING_INTENT_TTL_MS
+): Promise<PendingIntent> {
+    const createdAt = Date.now();
+    const intent: PendingIntent = {
+        ...data,
+        code: generateCode(),
+        status: "pending",
+        createdAt,
+        expiresAt: createdAt + ttlMs,
+    };
+    const key = intentKey(intent.userId, intent.code);
+    await runtime.cacheManager.set(key, intent);
+    await updateCacheIndex<string>(
+        runtime,
+        PENDING_INTENT_INDEX_KEY,
+        (keys) => [...keys, key]
+    );
+    return intent;
+}
+
+export async function getPendingIntent(
+    runtime: IAgentRuntime,
+    userId: string,
+    code: string
+): Promise<PendingIntent | null> {
+    return (
+        (await runtime.cacheManager.get<PendingIntent>(
+            intentKey(userId, code)
+        )) ?? null
+    );
+}
+
+async function saveIntent(
+    runtime: IAgentRuntime,
+    intent: PendingIntent
+): Promise<void> {
+    await runtime.cacheManager.set(intentKey(intent.userId, intent.code), intent);
+}
+
+// Reserva la intención para ejecutarla. El estado "executing" se persiste
+// antes de enviar la transacción: si el agente se reinicia a mitad de camino,
+// la intención no vuelve a quedar disponible y no puede repetirse.
+export async function claimPendingIntent(
+    runtime: IAgentRuntime,
+    userId: string,
+    roomId: string,
+    code: string
+): Promise<
+    | { intent: PendingIntent; error?: undefined }
+    | { intent?: undefined; error: string }
+> {
+    const key = intentKey(userId, code);
+    if (inFlight.has(key)) {
+        return { error: "Esta operación ya se está ejecutando." };
+    }
+    inFlight.add(key);
+
+    try {
+        const intent = await getPendingIntent(runtime, userId, code);
+        if (!intent || intent.roomId !== roomId) {
+            return {
+                error: "No encontré una operación pendiente con ese código en esta conversación.",
+            };
+        }
+        if (intent.status !== "pending") {
+            return {
+                error: `Esta operación ya fue procesada (estado: ${intent.status}).`,
+            };
+        }
+        // El barrido borra la intención y libera lo que reservaba
+        if (intent.expiresAt < Date.now()) {
+            return {
+                error: "El código expiró. Vuelve a solicitar la operación para obtener un nuevo resumen.",
+            };
+        }
+
+        const claimed: PendingIntent = { ...intent, status: "executing" };
+        await saveIntent(runtime, claimed);
+        return { intent: claimed };
+    } finally {
+        inFlight.delete(key);
+    }
+}
+
+// Guarda la transacción de la intención en cuanto se envía, para que un
+// error al esperar el recibo no pierda su hash
+export async function recordIntentTransaction(
+    runtime: IAgentRuntime,
+    intent: PendingIntent,
+    txHash: string
+): Promise<void> {
+    await saveIntent(runtime, { ...intent, txHash, sentAt: Date.now() });
+}
+
+export async function completePendingIntent(
+    runtime: IAgentRuntime,
+    intent: PendingIntent,
+    result: { success: boolean; txHash?: string; error?: string }
+): Promise<PendingIntent> {
+    const current =
+        (await getPendingIntent(runtime, intent.userId, intent.code)) ??
+        intent;
+    const completed: PendingIntent = {
+        ...current,
+        status: result.success ? "executed" : "failed",
+        txHash: result.txHash ?? current.txHash,
+        error: result.error,
+    };
+    await saveIntent(runtime, completed);
+    return completed;
+}
+
+export async function cancelPendingIntent(
+    runtime: IAgentRuntime,
+    userId: string,
+    roomId: string,
+    code: string
+): Promise<boolean> {
+    const intent = await getPendingIntent(runtime, userId, code);
+    if (!intent || intent.roomId !== roomId || intent.status !== "pending") {
+        return false;
+    }
+    await saveIntent(runtime, { ...intent, status: "cancelled" });
+    return true;
+}
+
+// Texto del resumen que el usuario debe confirmar
+export function formatIntentQuote(intent: PendingIntent): string {
+    const minutes = Math.round((intent.expiresAt - intent.createdAt) / 60000);
+    return [
+        "📝 Revisa la operación antes de ejecutarla:",
+        "",
+        `Cantidad: ${intent.quote.amount} ${intent.quote.symbol}`,
+        `Para: ${
+            intent.quote.recipientName
+                ? `${intent.quote.recipientName} (${intent.quote.recipient})`
+                : intent.quote.recipient
+        }`,
+        `Gas estimado: ${intent.quote.estimatedGas} unidades (~${intent.quote.estimatedFee} MNT)${
+            intent.quote.sponsoredGas ? " · lo cubre el agente" : ""
+        }`,
+        `Expira: ${new Date(intent.expiresAt).toISOString()} (en ${minutes} minutos)`,
+        "",
+        `Para ejecutarla responde: confirmar ${intent.code}`,
+        `Para descartarla responde: cancelar ${intent.code}`,
+    ].join("\n");
+}
+
+// Borra del cache las intenciones expiradas. Las que siguen "executing" se
+// conservan porque su transacción puede estar todavía en vuelo. Devuelve las
+// intenciones que expiraron sin confirmarse.
+export async function pruneExpiredIntents(
+    runtime: IAgentRuntime,
+    now = Date.now()
+): Promise<PendingIntent[]> {
+    const expired: PendingIntent[] = [];
+    const removed = new Set<string>();
+    for (const key of (await runtime.cacheManager.get<string[]>(
+        PENDING_INTENT_INDEX_KEY
+    )) ?? []) {
+        const intent = await runtime.cacheManager.get<PendingIntent>(key);
+        if (
+            intent &&
+            (intent.expiresAt >= now || intent.status === "executing")
+        ) {
+            continue;
+        }
+        if (intent?.status === "pending") expired.push(intent);
+        await runtime.cacheManager.delete(key);
+        removed.add(key);
+    }
+    if (removed.size > 0) {
+        await updateCacheIndex<string>(
+            runtime,
+            PENDING_INTENT_INDEX_KEY,
+            (keys) => keys.filter((key) => !removed.has(key))
+        );
+    }
+    return expired;
+}
+
+// Inicia el barrido de intenciones expiradas, que pasa a `onExpired` las que
+// nadie confirmó; devuelve una función para detenerlo
+export function startIntentSweeper(
+    runtime: IAgentRuntime,
+    onExpired?: IntentReleaser,
+    intervalMs = INTENT_SWEEP_INTERVAL_MS
+): () => void {
+    let running = false;
+    const timer = setInterval(async () => {
+        if (running) return;
+        running = true;
+        try {
+            for (const intent of await pruneExpiredIntents(runtime)) {
+                await onExpired?.(runtime, intent);
+            }
+        } catch (error) {
+            elizaLogger.error("Error pruning expired intents:", error);
+        } finally {
+            running = false;
+        }
+    }, intervalMs);
+    return () => clearInterval(timer);
+}
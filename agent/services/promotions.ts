@@ -0,0 +1,514 @@
+import {
+    stringToUuid,
+    type CouponSettings,
+    type IAgentRuntime,
+    type LoyaltySettings,
+    type UUID,
+} from "@elizaos/core";
+import { formatUnits, parseUnits, type Address, type Hash } from "viem";
+import { mantleSepoliaTestnet } from "../config/chains";
+import { getTokenBySymbol, isERC20Token } from "../config/token";
+import { initWalletProvider, type WalletProvider } from "../providers/wallet";
+import { sendERC20Transfer } from "../actions/transferERC20";
+import { updateCacheEntry } from "./cacheIndex";
+import type { Cart, CartQuote } from "./cart";
+import { getTransactionOutcome } from "./ledger";
+import type { Order } from "./orders";
+
+// Uso de un cupón. Cada pedido reserva su uso al crearse, para que dos pagos
+// en curso no superen los límites; un pedido cancelado lo devuelve.
+export interface CouponUsage {
+    uses: number;
+    users: Record<string, number>;
+    orders: string[];
+}
+
+// Cashback de un pedido, enviado desde la wallet del comercio
+export interface CashbackRecord {
+    orderId: string;
+    // Importe decimal en CASHBACK_TOKEN
+    amount: string;
+    to: Address;
+    status: "pending" | "sent" | "failed";
+    txHash?: Hash;
+    error?: string;
+    createdAt: number;
+    sentAt?: number;
+}
+
+export const COUPON_PREFIX = "coupon:";
+export const CASHBACK_PREFIX = "cashback:";
+export const CASHBACK_TOKEN = "AISHOP";
+// Misma precisión que los totales del carrito
+const PRICE_DECIMALS = 18;
+
+function usageKey(code: string): string {
+    return `${COUPON_PREFIX}${code.toUpperCase()}`;
+}
+
+function cashbackKey(userId: string): string {
+    return `${CASHBACK_PREFIX}${userId}`;
+}
+
+// Cupones de `settings.promotions` del personaje
+export function getCoupons(runtime: IAgentRuntime): CouponSettings[] {
+    return runtime.character?.settings?.promotions?.coupons ?? [];
+}
+
+export function findCoupon(
+    runtime: IAgentRuntime,
+    code: string
+): CouponSettings | undefined {
+    return getCoupons(runtime).find(
+        (coupon) => coupon.code.toUpperCase() === code.toUpperCase()
+    );
+}
+
+// Programa de fidelidad, si está activo
+export function getLoyalty(runtime: IAgentRuntime): LoyaltySettings | null {
+    const loyalty = runtime.character?.settings?.promotions?.loyalty;
+    return loyalty?.enabled && loyalty.cashbackPercent ? loyalty : null;
+}
+
+const EMPTY_USAGE: CouponUsage = { uses: 0, users: {}, orders: [] };
+
+export async function getCouponUsage(
+    runtime: IAgentRuntime,
+    code: string
+): Promise<CouponUsage> {
+    return (
+        (await runtime.cacheManager.get<CouponUsage>(usageKey(code))) ??
+        EMPTY_USAGE
+    );
+}
+
+// Motivo por el que el usuario ya no puede usar el cupón, si lo hay
+function couponLimitError(
+    coupon: CouponSettings,
+    usage: CouponUsage,
+    userId: string
+): string | undefined {
+    const name = coupon.code.toUpperCase();
+    if (coupon.maxUses !== undefined && usage.uses >= coupon.maxUses) {
+        return `El cupón ${name} ya se agotó.`;
+    }
+    if (
+        coupon.maxUsesPerUser !== undefined &&
+        (usage.users[userId] ?? 0) >= coupon.maxUsesPerUser
+    ) {
+        return `Ya usaste el cupón ${name} el máximo de veces permitido.`;
+    }
+}
+
+// Cupones vigentes que el usuario todavía puede usar
+export async function getAvailableCoupons(
+    runtime: IAgentRuntime,
+    userId: string
+): Promise<(CouponSettings & { remainingUses?: number })[]> {
+    const available: (CouponSettings & { remainingUses?: number })[] = [];
+    for (const coupon of getCoupons(runtime)) {
+        if (coupon.expiresAt && Date.parse(coupon.expiresAt) <= Date.now()) {
+            continue;
+        }
+        const usage = await getCouponUsage(runtime, coupon.code);
+        const used = usage.users[userId] ?? 0;
+        if (coupon.maxUses !== undefined && usage.uses >= coupon.maxUses) {
+            continue;
+        }
+        if (
+            coupon.maxUsesPerUser !== undefined &&
+            used >= coupon.maxUsesPerUser
+        ) {
+            continue;
+        }
+        available.push({
+            ...coupon,
+            remainingUses:
+                coupon.maxUsesPerUser !== undefined
+                    ? coupon.maxUsesPerUser - used
+                    : undefined,
+        });
+    }
+    return available;
+}
+
+// Porcentaje de `amount`, ambos en unidades mínimas con PRICE_DECIMALS
+function percentOf(amount: bigint, percent: string): bigint {
+    return (
+        (amount * parseUnits(percent, PRICE_DECIMALS)) /
+        (100n * 10n ** BigInt(PRICE_DECIMALS))
+    );
+}
+
+export function formatCoupon(coupon: CouponSettings): string {
+    const value =
+        coupon.type === "percentage"
+            ? `${coupon.value}% de descuento`
+            : `${coupon.value} ${coupon.token} de descuento`;
+    return [
+        `${coupon.code.toUpperCase()}: ${value}`,
+        ...(coupon.minTotal ? [`en compras desde ${coupon.minTotal}`] : []),
+        ...(coupon.expiresAt ? [`hasta ${coupon.expiresAt}`] : []),
+    ].join(", ");
+}
+
+// Comprueba expiración, moneda, mínimo y límites de uso, y calcula el
+// descuento sobre `total`
+export async function evaluateCoupon(
+    runtime: IAgentRuntime,
+    code: string,
+    userId: string,
+    token: string,
+    total: string
+): Promise<
+    | { coupon: CouponSettings; discount: string; error?: undefined }
+    | { coupon?: undefined; discount?: undefined; error: string }
+> {
+    const coupon = findCoupon(runtime, code);
+    if (!coupon) {
+        return { error: `El cupón ${code.toUpperCase()} no existe.` };
+    }
+    const name = coupon.code.toUpperCase();
+    if (coupon.expiresAt && Date.parse(coupon.expiresAt) <= Date.now()) {
+        return { error: `El cupón ${name} expiró el ${coupon.expiresAt}.` };
+    }
+    if (
+        coupon.type === "fixed" &&
+        coupon.token?.toUpperCase() !== token.toUpperCase()
+    ) {
+        return {
+            error: `El cupón ${name} solo se aplica a pagos en ${coupon.token}.`,
+        };
+    }
+
+    const amount = parseUnits(total, PRICE_DECIMALS);
+    if (
+        coupon.minTotal &&
+        amount < parseUnits(coupon.minTotal, PRICE_DECIMALS)
+    ) {
+        return {
+            error: `El cupón ${name} requiere una compra mínima de ${coupon.minTotal} ${token}.`,
+        };
+    }
+
+    const limitError = couponLimitError(
+        coupon,
+        await getCouponUsage(runtime, name),
+        userId
+    );
+    if (limitError) return { error: limitError };
+
+    const discount =
+        coupon.type === "percentage"
+            ? percentOf(amount, coupon.value)
+            : parseUnits(coupon.value, PRICE_DECIMALS);
+    // Un pedido gratis no se puede pagar con una transferencia
+    if (discount >= amount) {
+        return {
+            error: `El cupón ${name} cubre todo el pedido; añade más productos para usarlo.`,
+        };
+    }
+    return { coupon, discount: formatUnits(discount, PRICE_DECIMALS) };
+}
+
+// Aplica al total el cupón guardado en el carrito, si lo hay
+export async function applyCartCoupon(
+    runtime: IAgentRuntime,
+    cart: Cart,
+    quote: CartQuote
+): Promise<
+    { quote: CartQuote; error?: undefined } | { quote?: undefined; error: string }
+> {
+    if (!cart.coupon) return { quote };
+
+    const { coupon, discount, error } = await evaluateCoupon(
+        runtime,
+        cart.coupon,
+        cart.userId,
+        quote.token,
+        quote.total
+    );
+    if (!coupon) {
+        return {
+            error: `${error} Quita el cupón diciendo "quitar cupón" para continuar.`,
+        };
+    }
+    return { quote: discountQuote(quote, coupon.code, discount) };
+}
+
+export function discountQuote(
+    quote: CartQuote,
+    code: string,
+    discount: string
+): CartQuote {
+    return {
+        ...quote,
+        subtotal: quote.total,
+        total: formatUnits(
+            parseUnits(quote.total, PRICE_DECIMALS) -
+                parseUnits(discount, PRICE_DECIMALS),
+            PRICE_DECIMALS
+        ),
+        coupon: { code: code.toUpperCase(), discount },
+    };
+}
+
+export function formatQuoteDiscount(quote: CartQuote): string[] {
+    return quote.coupon
+        ? [
+              `Subtotal: ${quote.subtotal} ${quote.token}`,
+              `Cupón ${quote.coupon.code}: -${quote.coupon.discount} ${quote.token}`,
+          ]
+        : [];
+}
+
+function addCouponUse(usage: CouponUsage, order: Order): CouponUsage {
+    return {
+        uses: usage.uses + 1,
+        users: {
+            ...usage.users,
+            [order.userId]: (usage.users[order.userId] ?? 0) + 1,
+        },
+        orders: [...usage.orders, order.id],
+    };
+}
+
+// Reserva un uso del cupón para un pedido nuevo. Los límites se comprueban
+// otra vez con la escritura serializada, porque otro pedido pudo reservar el
+// último uso desde que se aplicó el cupón al carrito.
+export async function reserveCouponUse(
+    runtime: IAgentRuntime,
+    order: Order
+): Promise<{ error?: string }> {
+    if (!order.coupon) return {};
+    const coupon = findCoupon(runtime, order.coupon.code);
+    if (!coupon) {
+        return { error: `El cupón ${order.coupon.code} no existe.` };
+    }
+
+    let error: string | undefined;
+    await updateCacheEntry<CouponUsage>(
+        runtime,
+        usageKey(coupon.code),
+        (usage = EMPTY_USAGE) => {
+            if (usage.orders.includes(order.id)) return usage;
+            error = couponLimitError(coupon, usage, order.userId);
+            return error ? usage : addCouponUse(usage, order);
+        }
+    );
+    return { error };
+}
+
+// Devuelve el uso reservado por un pedido cancelado
+export async function releaseCouponUse(
+    runtime: IAgentRuntime,
+    order: Order
+): Promise<void> {
+    if (!order.coupon) return;
+    await updateCacheEntry<CouponUsage>(
+        runtime,
+        usageKey(order.coupon.code),
+        (usage = EMPTY_USAGE) => {
+            if (!usage.orders.includes(order.id)) return usage;
+            const { [order.userId]: used = 0, ...users } = usage.users;
+            return {
+                uses: Math.max(usage.uses - 1, 0),
+                users:
+                    used > 1 ? { ...users, [order.userId]: used - 1 } : users,
+                orders: usage.orders.filter((id) => id !== order.id),
+            };
+        }
+    );
+}
+
+// Cuenta el uso del cupón de un pedido pagado que no lo reservó al crearse;
+// un pedido ya contado no vuelve a contar
+export async function recordCouponRedemption(
+    runtime: IAgentRuntime,
+    order: Order
+): Promise<void> {
+    if (!order.coupon) return;
+    await updateCacheEntry<CouponUsage>(
+        runtime,
+        usageKey(order.coupon.code),
+        (usage = EMPTY_USAGE) =>
+            usage.orders.includes(order.id)
+                ? usage
+                : addCouponUse(usage, order)
+    );
+}
+
+export async function getCashbackHistory(
+    runtime: IAgentRuntime,
+    userId: string
+): Promise<CashbackRecord[]> {
+    return (
+        (await runtime.cacheManager.get<CashbackRecord[]>(
+            cashbackKey(userId)
+        )) ?? []
+    );
+}
+
+async function saveCashback(
+    runtime: IAgentRuntime,
+    userId: string,
+    record: CashbackRecord
+): Promise<void> {
+    const history = await getCashbackHistory(runtime, userId);
+    await runtime.cacheManager.set(cashbackKey(userId), [
+        ...history.filter((entry) => entry.orderId !== record.orderId),
+        record,
+    ]);
+}
+
+// Cashback que corresponde a un pedido pagado en CASHBACK_TOKEN
+export function calculateCashback(
+    loyalty: LoyaltySettings,
+    order: Pick<Order, "token" | "total">
+): string | null {
+    if (order.token !== CASHBACK_TOKEN || !loyalty.cashbackPercent) {
+        return null;
+    }
+    let amount = percentOf(
+        parseUnits(order.total, PRICE_DECIMALS),
+        loyalty.cashbackPercent
+    );
+    if (loyalty.maxCashbackPerOrder) {
+        const max = parseUnits(loyalty.maxCashbackPerOrder, PRICE_DECIMALS);
+        if (amount > max) amount = max;
+    }
+    return amount > 0n ? formatUnits(amount, PRICE_DECIMALS) : null;
+}
+
+async function notifyCashback(
+    runtime: IAgentRuntime,
+    order: Order,
+    record: CashbackRecord
+): Promise<void> {
+    await runtime.messageManager.createMemory({
+        id: stringToUuid(`cashback-${order.id}`),
+        userId: runtime.agentId,
+        agentId: runtime.agentId,
+        roomId: order.roomId as UUID,
+        content: {
+            text: [
+                `🎁 Recibiste ${record.amount} ${CASHBACK_TOKEN} de cashback por el pedido ${order.id}.`,
+                `Transacción: https://sepolia.mantlescan.xyz/tx/${record.txHash}`,
+            ].join("\n"),
+            action: "CASHBACK_CREDITED",
+            cashback: record,
+        },
+        createdAt: Date.now(),
+    });
+}
+
+// Envía el cashback del pedido a la wallet que lo pagó, con la misma
+// transferencia ERC20 que TRANSFER_ERC20 pero firmada por el comercio. Un
+// pedido solo recibe cashback una vez; los errores quedan en el historial y
+// un cashback fallido se puede reintentar. Si ya se envió una transacción,
+// solo se repite cuando revirtió o el nodo la descartó.
+export async function creditCashback(
+    runtime: IAgentRuntime,
+    order: Order,
+    merchant: WalletProvider | null = initWalletProvider(runtime)
+): Promise<CashbackRecord | null> {
+    const loyalty = getLoyalty(runtime);
+    const amount = loyalty ? calculateCashback(loyalty, order) : null;
+    if (!amount || !order.payer) return null;
+
+    const previous = (await getCashbackHistory(runtime, order.userId)).find(
+        (entry) => entry.orderId === order.id
+    );
+    if (previous && previous.status !== "failed") return null;
+    if (previous?.txHash) {
+        const outcome = merchant
+            ? await getTransactionOutcome(
+                  merchant.getPublicClient(),
+                  previous.txHash,
+                  previous.createdAt
+              )
+            : "pending";
+        if (outcome === "pending") return null;
+        if (outcome === "confirmed") {
+            const sent: CashbackRecord = {
+                ...previous,
+                status: "sent",
+                error: undefined,
+                sentAt: Date.now(),
+            };
+            await saveCashback(runtime, order.userId, sent);
+            await notifyCashback(runtime, order, sent);
+            return sent;
+        }
+    }
+
+    let record: CashbackRecord = {
+        orderId: order.id,
+        amount,
+        to: order.payer,
+        status: "pending",
+        createdAt: Date.now(),
+    };
+    await saveCashback(runtime, order.userId, record);
+
+    try {
+        const token = getTokenBySymbol(
+            runtime,
+            mantleSepoliaTestnet.id,
+            CASHBACK_TOKEN
+        );
+        if (!token || !isERC20Token(token)) {
+            throw new Error(
+                `No se encontró configuración para el token ${CASHBACK_TOKEN}.`
+            );
+        }
+        if (!merchant) {
+            throw new Error("La wallet del comercio no está configurada.");
+        }
+
+        const txHash = await sendERC20Transfer(runtime, {
+            provider: merchant,
+            token,
+            to: order.payer,
+            amount: parseUnits(amount, token.decimals),
+            userId: order.userId,
+            roomId: order.roomId as UUID,
+            action: "CASHBACK",
+        });
+        record = { ...record, txHash };
+        await saveCashback(runtime, order.userId, record);
+
+        const receipt = await merchant
+            .getPublicClient()
+            .waitForTransactionReceipt({ hash: txHash });
+        if (receipt.status !== "success") {
+            throw new Error(`La transacción de cashback ${txHash} falló.`);
+        }
+        record = { ...record, status: "sent", sentAt: Date.now() };
+        await saveCashback(runtime, order.userId, record);
+        await notifyCashback(runtime, order, record);
+    } catch (error) {
+        console.error("Error al enviar el cashback:", error);
+        record = {
+            ...record,
+            status: "failed",
+            error: error instanceof Error ? error.message : "Error desconocido",
+        };
+        await saveCashback(runtime, order.userId, record);
+    }
+    return record;
+}
+
+// Se llama cuando un pedido pasa a pagado: cuenta el uso del cupón y envía
+// el cashback
+export async function rewardPaidOrder(
+    runtime: IAgentRuntime,
+    order: Order
+): Promise<void> {
+    try {
+        await recordCouponRedemption(runtime, order);
+        await creditCashback(runtime, order);
+    } catch (error) {
+        console.error("Error al aplicar las promociones del pedido:", error);
+    }
+}
@@ -0,0 +1,168 @@
+import {
+    Service,
+    ServiceType,
+    type IAgentRuntime,
+    type ISpendingPolicyService,
+    type SpendingDecision,
+    type SpendingPolicySettings,
+    type SpendingRequest,
+    type TokenSpendingLimits,
+} from "@elizaos/core";
+import { formatUnits, parseUnits } from "viem";
+
+// Movimiento registrado en el historial de gasto del usuario
+interface SpendingRecord {
+    action: string;
+    token: string;
+    // Cantidad en la unidad mínima del token
+    amount: string;
+    decimals: number;
+    recipient?: string;
+    hash?: string;
+    timestamp: number;
+}
+
+export const SPENDING_HISTORY_PREFIX = "spending_history:";
+const WINDOW_MS = 24 * 60 * 60 * 1000;
+
+// Motor de políticas de gasto. Lee las reglas de `settings.spendingPolicy`
+// del personaje y el historial de las últimas 24h de cada usuario en el cache.
+// Se registra como servicio para que otros plugins (HiveFi) lo consulten.
+export class SpendingPolicyService
+    extends Service
+    implements ISpendingPolicyService
+{
+    private runtime: IAgentRuntime | null = null;
+
+    static get serviceType(): ServiceType {
+        return ServiceType.SPENDING_POLICY;
+    }
+
+    async initialize(runtime: IAgentRuntime): Promise<void> {
+        this.runtime = runtime;
+    }
+
+    private getRuntime(): IAgentRuntime {
+        if (!this.runtime) {
+            throw new Error("SpendingPolicyService no está inicializado");
+        }
+        return this.runtime;
+    }
+
+    private getSettings(): SpendingPolicySettings {
+        return this.getRuntime().character.settings?.spendingPolicy ?? {};
+    }
+
+    private getTokenLimits(token: string): TokenSpendingLimits {
+        const settings = this.getSettings();
+        return settings.tokens?.[token.toUpperCase()] ?? settings.default ?? {};
+    }
+
+    private async getHistory(userId: string): Promise<SpendingRecord[]> {
+        const history =
+            (await this.getRuntime().cacheManager.get<SpendingRecord[]>(
+                `${SPENDING_HISTORY_PREFIX}${userId}`
+            )) ?? [];
+        const since = Date.now() - WINDOW_MS;
+        return history.filter((record) => record.timestamp > since);
+    }
+
+    async checkSpending(request: SpendingRequest): Promise<SpendingDecision> {
+        const settings = this.getSettings();
+        const recipient = request.recipient?.toLowerCase();
+
+        if (recipient) {
+            const denylist = (settings.denylist ?? []).map((address) =>
+                address.toLowerCase()
+            );
+            if (denylist.includes(recipient)) {
+                return {
+                    allowed: false,
+                    reason: `La dirección ${request.recipient} está bloqueada por la política de gasto.`,
+                };
+            }
+
+            const allowlist = (settings.allowlist ?? []).map((address) =>
+                address.toLowerCase()
+            );
+            if (allowlist.length > 0 && !allowlist.includes(recipient)) {
+                return {
+                    allowed: false,
+                    reason: `La dirección ${request.recipient} no está en la lista de destinatarios permitidos.`,
+                };
+            }
+        }
+
+        const token = request.token.toUpperCase();
+        const amount = parseUnits(request.amount, request.decimals);
+        const limits = this.getTokenLimits(token);
+
+        if (limits.maxPerTransaction !== undefined) {
+            const max = parseUnits(limits.maxPerTransaction, request.decimals);
+            if (amount > max) {
+                return {
+                    allowed: false,
+                    reason: `El máximo por operación es ${limits.maxPerTransaction} ${token} y solicitaste ${request.amount} ${token}.`,
+                };
+            }
+        }
+
+        const history = await this.getHistory(request.userId);
+
+        if (
+            settings.maxTransactionsPerDay !== undefined &&
+            history.length >= settings.maxTransactionsPerDay
+        ) {
+            return {
+                allowed: false,
+                reason: `Alcanzaste el máximo de ${settings.maxTransactionsPerDay} operaciones en 24 horas. Inténtalo más tarde.`,
+            };
+        }
+
+        if (limits.maxPerDay !== undefined) {
+            const max = parseUnits(limits.maxPerDay, request.decimals);
+            const spent = history
+                .filter((record) => record.token === token)
+                .reduce((total, record) => total + BigInt(record.amount), 0n);
+            if (spent + amount > max) {
+                const remaining = spent >= max ? 0n : max - spent;
+                return {
+                    allowed: false,
+                    reason: `Superarías el límite de ${limits.maxPerDay} ${token} en 24 horas. Disponible ahora: ${formatUnits(
+                        remaining,
+                        request.decimals
+                    )} ${token}.`,
+                };
+            }
+        }
+
+        return { allowed: true };
+    }
+
+    async recordSpending(
+        request: SpendingRequest & { hash?: string }
+    ): Promise<void> {
+        const history = await this.getHistory(request.userId);
+        history.push({
+            action: request.action,
+            token: request.token.toUpperCase(),
+            amount: parseUnits(request.amount, request.decimals).toString(),
+            decimals: request.decimals,
+            recipient: request.recipient,
+            hash: request.hash,
+            timestamp: Date.now(),
+        });
+        await this.getRuntime().cacheManager.set(
+            `${SPENDING_HISTORY_PREFIX}${request.userId}`,
+            history
+        );
+    }
+}
+
+export function getSpendingPolicy(
+    runtime: IAgentRuntime
+): ISpendingPolicyService | null {
+    return runtime.getService<ISpendingPolicyService>(
+        ServiceType.SPENDING_POLICY
+    );
+}
@@ -0,0 +1,234 @@
+import {
+    elizaLogger,
+    Service,
+    ServiceType,
+    type IAgentRuntime,
+    type ITokenRegistryService,
+    type TokenList,
+    type TokenListEntry,
+} from "@elizaos/core";
+import fs from "fs";
+import path from "path";
+import {
+    createPublicClient,
+    erc20Abi,
+    getAddress,
+    http,
+    isAddress,
+    type Address,
+    type PublicClient,
+} from "viem";
+import { CHAINS_BY_ID } from "../config/chains";
+import { isNativeToken } from "../config/token";
+
+// Token cuya decimals en la lista no coincide con la del contrato
+export interface DecimalsMismatch {
+    chainId: number;
+    symbol: string;
+    address: string;
+    listed: number;
+    onChain: number;
+}
+
+// Solo se necesita leer decimals() de los contratos
+export type ChainClientFactory = (
+    chainId: number
+) => Pick<PublicClient, "readContract"> | null;
+
+const TOKEN_LIST_EXTENSION = ".json";
+
+// Cliente de solo lectura para validar tokens de las cadenas conocidas
+function defaultClientFactory(
+    chainId: number
+): Pick<PublicClient, "readContract"> | null {
+    const chain = CHAINS_BY_ID[chainId];
+    if (!chain) return null;
+    return createPublicClient({
+        chain,
+        transport: http(undefined, { timeout: 5000, retryCount: 1 }),
+    });
+}
+
+// Valida la forma mínima de una lista de tokens (formato Uniswap token-list)
+function parseTokenList(json: unknown, source: string): TokenList {
+    const list = json as TokenList;
+    if (!list || typeof list !== "object" || !Array.isArray(list.tokens)) {
+        throw new Error(`Lista de tokens inválida en ${source}: falta "tokens"`);
+    }
+    for (const token of list.tokens) {
+        if (
+            !Number.isInteger(token.chainId) ||
+            typeof token.symbol !== "string" ||
+            !isAddress(token.address) ||
+            !Number.isInteger(token.decimals) ||
+            token.decimals < 0 ||
+            token.decimals > 255
+        ) {
+            throw new Error(
+                `Token inválido en ${source}: ${JSON.stringify(token)}`
+            );
+        }
+    }
+    return list;
+}
+
+// Registro de tokens por chainId. Carga listas en formato Uniswap token-list
+// desde disco (setting TOKEN_LISTS, rutas separadas por comas a archivos o
+// directorios) y comprueba on-chain las decimals de cada ERC20. Se registra
+// como servicio para que HiveFi resuelva símbolos con el mismo registro.
+export class TokenRegistryService
+    extends Service
+    implements ITokenRegistryService
+{
+    private tokens = new Map<number, Map<string, TokenListEntry>>();
+
+    constructor(
+        private readonly defaultListPaths: string[] = [],
+        private readonly clientFactory: ChainClientFactory = defaultClientFactory
+    ) {
+        super();
+    }
+
+    static get serviceType(): ServiceType {
+        return ServiceType.TOKEN_REGISTRY;
+    }
+
+    async initialize(runtime: IAgentRuntime): Promise<void> {
+        const configured = runtime.getSetting("TOKEN_LISTS");
+        const listPaths = configured
+            ? configured
+                  .split(",")
+                  .map((listPath) => listPath.trim())
+                  .filter(Boolean)
+            : this.defaultListPaths;
+
+        for (const listPath of listPaths) {
+            this.loadFromPath(listPath);
+        }
+
+        if (runtime.getSetting("TOKEN_LISTS_SKIP_VALIDATION") !== "true") {
+            await this.validateDecimals();
+        }
+    }
+
+    // Carga una lista o un directorio de listas; devuelve los tokens cargados
+    loadFromPath(listPath: string): number {
+        const resolved = path.resolve(listPath);
+        if (fs.statSync(resolved).isDirectory()) {
+            return fs
+                .readdirSync(resolved)
+                .filter((file) => file.endsWith(TOKEN_LIST_EXTENSION))
+                .sort()
+                .reduce(
+                    (total, file) =>
+                        total + this.loadFromPath(path.join(resolved, file)),
+                    0
+                );
+        }
+
+        const list = parseTokenList(
+            JSON.parse(fs.readFileSync(resolved, "utf8")),
+            resolved
+        );
+        const loaded = this.addTokenList(list);
+        elizaLogger.info(
+            `Loaded ${loaded} tokens from token list "${list.name}" (${resolved})`
+        );
+        return loaded;
+    }
+
+    // Registra los tokens de una lista. Un símbolo repetido en la misma
+    // cadena reemplaza al anterior, así una lista posterior puede corregirlo.
+    addTokenList(list: TokenList): number {
+        for (const token of list.tokens) {
+            let chainTokens = this.tokens.get(token.chainId);
+            if (!chainTokens) {
+                chainTokens = new Map();
+                this.tokens.set(token.chainId, chainTokens);
+            }
+            chainTokens.set(token.symbol.toUpperCase(), {
+                ...token,
+                address: getAddress(token.address),
+            });
+        }
+        return list.tokens.length;
+    }
+
+    getToken(chainId: number, symbol: string): TokenListEntry | undefined {
+        return this.tokens.get(chainId)?.get(symbol.toUpperCase());
+    }
+
+    getTokenByAddress(
+        chainId: number,
+        address: string
+    ): TokenListEntry | undefined {
+        const normalizedAddress = address.toLowerCase();
+        return this.getTokens(chainId).find(
+            (token) => token.address.toLowerCase() === normalizedAddress
+        );
+    }
+
+    getTokens(chainId: number): TokenListEntry[] {
+        return Array.from(this.tokens.get(chainId)?.values() ?? []);
+    }
+
+    // Compara las decimals de cada ERC20 con las del contrato. Si no
+    // coinciden se usa el valor on-chain, que es el que manda al convertir
+    // montos; si el contrato no responde se conserva el valor de la lista.
+    async validateDecimals(): Promise<DecimalsMismatch[]> {
+        const mismatches: DecimalsMismatch[] = [];
+
+        for (const [chainId, chainTokens] of this.tokens) {
+            const client = this.clientFactory(chainId);
+            if (!client) continue;
+
+            const erc20Tokens = Array.from(chainTokens.values()).filter(
+                (token) => !isNativeToken(token)
+            );
+            await Promise.all(
+                erc20Tokens.map(async (token) => {
+                    try {
+                        const onChain = await client.readContract({
+                            address: token.address as Address,
+                            abi: erc20Abi,
+                            functionName: "decimals",
+                        });
+                        if (onChain !== token.decimals) {
+                            mismatches.push({
+                                chainId,
+                                symbol: token.symbol,
+                                address: token.address,
+                                listed: token.decimals,
+                                onChain,
+                            });
+                            chainTokens.set(token.symbol.toUpperCase(), {
+                                ...token,
+                                decimals: onChain,
+                            });
+                        }
+                    } catch (error) {
+                        elizaLogger.warn(
+                            `Could not validate decimals for ${token.symbol} on chain ${chainId}:`,
+                            error instanceof Error ? error.message : error
+                        );
+                    }
+                })
+            );
+        }
+
+        for (const mismatch of mismatches) {
+            elizaLogger.warn(
+                `Token list decimals for ${mismatch.symbol} on chain ${mismatch.chainId} (${mismatch.listed}) differ from the contract (${mismatch.onChain}); using on-chain value`
+            );
+        }
+        return mismatches;
+    }
+}
+
+export function getTokenRegistry(
+    runtime: IAgentRuntime
+): ITokenRegistryService | null {
+    return runtime.getService<ITokenRegistryService>(
+        ServiceType.TOKEN_REGISTRY
+    );
+}
@@ -0,0 +1,585 @@
+import type { IAgentRuntime } from "@elizaos/core";
+import { describe, it, expect } from "@jest/globals";
+import { ProductCatalogService, type Product } from "../../services/catalog";
+import {
+    addToCart,
+    getCart,
+    quoteCart,
+    removeFromCart,
+} from "../../services/cart";
+import { parseCartRequest } from "../../actions/addToCart";
+import {
+    cancelOpenCheckouts,
+    isCheckoutRequest,
+    parsePaymentToken,
+    payCheckoutOrder,
+    reconcileCheckoutPayments,
+    releaseCheckout,
+} from "../../actions/checkout";
+import {
+    createOrder,
+    getOrder,
+    requestRefund,
+    transitionOrder,
+    type Order,
+    type OrderLine,
+} from "../../services/orders";
+import {
+    claimPendingIntent,
+    createPendingIntent,
+    getPendingIntent,
+    pruneExpiredIntents,
+    recordIntentTransaction,
+    type PendingIntent,
+} from "../../services/pendingIntents";
+import { evaluateCoupon } from "../../services/promotions";
+import { createMerchant } from "./helpers/merchant";
+import { createTestRuntime } from "./helpers/runtime";
+
+const PRODUCTS: Product[] = [
+    {
+        sku: "TSHIRT-001",
+        title: "Camiseta AI Shop",
+        description: "",
+        price: { AISHOP: "25", MNT: "2.5" },
+        stock: 3,
+        images: [],
+        categories: ["ropa"],
+    },
+    {
+        sku: "MUG-001",
+        title: "Taza AISHOP",
+        description: "",
+        price: { AISHOP: "12.75" },
+        stock: 100,
+        images: [],
+        categories: ["hogar"],
+    },
+];
+
+// Runtime whose product catalog service, if any, is `catalog`
+function createRuntime(catalog: ProductCatalogService | null = null) {
+    return createTestRuntime({ service: catalog });
+}
+
+function createCatalog(): ProductCatalogService {
+    const catalog = new ProductCatalogService();
+    // Copies, since paid orders change the stock
+    catalog.addProducts(PRODUCTS.map((product) => ({ ...product })));
+    return catalog;
+}
+
+describe("Cart", () => {
+    it("should keep a separate cart per user and room", async () => {
+        const { runtime } = createRuntime();
+        const catalog = createCatalog();
+
+        await addToCart(runtime, catalog, "user-1", "room-1", "tshirt-001", 2);
+        await addToCart(runtime, catalog, "user-1", "room-1", "TSHIRT-001", 1);
+        await addToCart(runtime, catalog, "user-1", "room-2", "MUG-001", 1);
+
+        expect((await getCart(runtime, "user-1", "room-1")).items).toEqual([
+            { sku: "TSHIRT-001", quantity: 3 },
+        ]);
+        expect((await getCart(runtime, "user-1", "room-2")).items).toEqual([
+            { sku: "MUG-001", quantity: 1 },
+        ]);
+        expect((await getCart(runtime, "user-2", "room-1")).items).toEqual(
+            []
+        );
+    });
+
+    it("should reject unknown products and quantities above stock", async () => {
+        const { runtime } = createRuntime();
+        const catalog = createCatalog();
+
+        const unknown = await addToCart(
+            runtime,
+            catalog,
+            "user-1",
+            "room-1",
+            "HAT-001",
+            1
+        );
+        expect(unknown.error).toContain("HAT-001");
+
+        await addToCart(runtime, catalog, "user-1", "room-1", "TSHIRT-001", 2);
+        const overStock = await addToCart(
+            runtime,
+            catalog,
+            "user-1",
+            "room-1",
+            "TSHIRT-001",
+            2
+        );
+        expect(overStock.error).toContain("Solo quedan 3");
+    });
+
+    it("should remove some or all units of a product", async () => {
+        const { runtime } = createRuntime();
+        const catalog = createCatalog();
+        await addToCart(runtime, catalog, "user-1", "room-1", "MUG-001", 5);
+
+        const partial = await removeFromCart(
+            runtime,
+            "user-1",
+            "room-1",
+            "mug-001",
+            2
+        );
+        expect(partial?.items).toEqual([{ sku: "MUG-001", quantity: 3 }]);
+
+        const removed = await removeFromCart(
+            runtime,
+            "user-1",
+            "room-1",
+            "MUG-001"
+        );
+        expect(removed?.items).toEqual([]);
+        expect(
+            await removeFromCart(runtime, "user-1", "room-1", "MUG-001")
+        ).toBeNull();
+    });
+
+    it("should quote the total in the chosen token", async () => {
+        const { runtime } = createRuntime();
+        const catalog = createCatalog();
+        await addToCart(runtime, catalog, "user-1", "room-1", "TSHIRT-001", 2);
+        await addToCart(runtime, catalog, "user-1", "room-1", "MUG-001", 3);
+        const cart = await getCart(runtime, "user-1", "room-1");
+
+        const { quote } = quoteCart(catalog, cart, "AISHOP");
+        expect(quote?.total).toBe("88.25");
+        expect(quote?.lines.map((line) => line.subtotal)).toEqual([
+            "50",
+            "38.25",
+        ]);
+
+        // The mug has no MNT price
+        expect(quoteCart(catalog, cart, "MNT").error).toContain("MNT");
+    });
+});
+
+describe("Cart requests", () => {
+    it("should parse the product and quantity without reading the SKU digits", () => {
+        const catalog = createCatalog();
+
+        expect(
+            parseCartRequest(catalog, "añade 2 TSHIRT-001 al carrito")
+        ).toMatchObject({ product: { sku: "TSHIRT-001" }, quantity: 2 });
+        expect(
+            parseCartRequest(catalog, "add the taza to my cart")
+        ).toMatchObject({ product: { sku: "MUG-001" }, quantity: undefined });
+    });
+
+    it("should not take transfers for checkouts", () => {
+        expect(isCheckoutRequest("pagar")).toBe(true);
+        expect(isCheckoutRequest("pagar con MNT")).toBe(true);
+        expect(isCheckoutRequest("Quiero pagar el carrito con AISHOP")).toBe(
+            true
+        );
+        expect(isCheckoutRequest("Checkout and pay with MNT")).toBe(true);
+        expect(isCheckoutRequest("pay for my order")).toBe(true);
+
+        expect(isCheckoutRequest("paga 5 MNT a Maria")).toBe(false);
+        expect(isCheckoutRequest("pay Maria 10 AISHOP")).toBe(false);
+        expect(isCheckoutRequest("paga a Juan")).toBe(false);
+        expect(isCheckoutRequest("¿Cuál es mi balance?")).toBe(false);
+    });
+
+    it("should default checkout payments to AISHOP", () => {
+        expect(parsePaymentToken("pagar con mnt")).toBe("MNT");
+        expect(parsePaymentToken("quiero pagar el carrito")).toBe("AISHOP");
+    });
+});
+
+describe("Checkout", () => {
+    // Order awaiting payment with the confirmation code that pays it
+    async function awaitingOrder(
+        runtime: IAgentRuntime,
+        ttlMs?: number,
+        items: OrderLine[] = [],
+        coupon?: Order["coupon"]
+    ) {
+        const order = await createOrder(runtime, {
+            userId: "user-1",
+            roomId: "room-1",
+            items,
+            token: "AISHOP",
+            total: "25",
+            merchant: "0x1111111111111111111111111111111111111111",
+            coupon,
+        });
+        const intent = await createPendingIntent(
+            runtime,
+            {
+                userId: "user-1",
+                roomId: "room-1",
+                action: "CHECKOUT",
+                params: { orderId: order.id },
+                quote: {
+                    recipient: order.merchant,
+                    amount: order.total,
+                    symbol: order.token,
+                    estimatedGas: "21000",
+                    estimatedFee: "0.0001",
+                },
+            },
+            ttlMs
+        );
+        await transitionOrder(runtime, order.id, "awaiting_payment", {
+            paymentCode: intent.code,
+        });
+        return { order, intent };
+    }
+
+    it("should cancel the order of an expired payment code", async () => {
+        const { runtime } = createRuntime();
+        const { order } = await awaitingOrder(runtime, -1);
+
+        for (const intent of await pruneExpiredIntents(runtime)) {
+            await releaseCheckout(runtime, intent);
+        }
+
+        const cancelled = await getOrder(runtime, order.id);
+        expect(cancelled?.status).toBe("cancelled");
+        expect(cancelled?.cancelledAt).toBeDefined();
+    });
+
+    it("should take paid units out of stock and restore refunded ones", async () => {
+        const catalog = createCatalog();
+        const { runtime, store } = createRuntime(catalog);
+        const { order } = await awaitingOrder(runtime, undefined, [
+            {
+                sku: "TSHIRT-001",
+                title: "Camiseta AI Shop",
+                quantity: 2,
+                unitPrice: "25",
+                subtotal: "50",
+            },
+        ]);
+
+        await transitionOrder(runtime, order.id, "paid");
+        expect(catalog.getProduct("TSHIRT-001")?.stock).toBe(1);
+        expect(
+            (
+                await addToCart(
+                    runtime,
+                    catalog,
+                    "user-2",
+                    "room-1",
+                    "TSHIRT-001",
+                    2
+                )
+            ).error
+        ).toBe("Solo quedan 1 unidades de Camiseta AI Shop.");
+
+        // Sales survive a restart of the catalog
+        const reloaded = new ProductCatalogService();
+        reloaded.addProducts(PRODUCTS.map((product) => ({ ...product })));
+        await reloaded.initialize(runtime);
+        expect(reloaded.getProduct("TSHIRT-001")?.stock).toBe(1);
+
+        await transitionOrder(runtime, order.id, "refunded");
+        expect(catalog.getProduct("TSHIRT-001")?.stock).toBe(3);
+        expect(store.get("product_stock:TSHIRT-001")).toEqual({
+            base: 3,
+            sold: 0,
+        });
+    });
+
+    it("should take the stock once when two payments of an order race", async () => {
+        const catalog = createCatalog();
+        const { runtime } = createRuntime(catalog);
+        const { order } = await awaitingOrder(runtime, undefined, [
+            {
+                sku: "TSHIRT-001",
+                title: "Camiseta AI Shop",
+                quantity: 2,
+                unitPrice: "25",
+                subtotal: "50",
+            },
+        ]);
+
+        const results = await Promise.all([
+            transitionOrder(runtime, order.id, "paid", { txHash: "0xa" }),
+            transitionOrder(runtime, order.id, "paid", { txHash: "0xb" }),
+        ]);
+
+        expect(results.filter((result) => result.order)).toHaveLength(1);
+        expect(results[1].error).toContain("no puede pasar a pagado");
+        expect(catalog.getProduct("TSHIRT-001")?.stock).toBe(1);
+        expect((await getOrder(runtime, order.id))?.txHash).toBe("0xa");
+    });
+
+    it("should not restock orders refunded after delivery", async () => {
+        const catalog = createCatalog();
+        const { runtime } = createRuntime(catalog);
+        const { order } = await awaitingOrder(runtime, undefined, [
+            {
+                sku: "TSHIRT-001",
+                title: "Camiseta AI Shop",
+                quantity: 1,
+                unitPrice: "25",
+                subtotal: "25",
+            },
+        ]);
+
+        await transitionOrder(runtime, order.id, "paid");
+        await transitionOrder(runtime, order.id, "fulfilled");
+        await transitionOrder(runtime, order.id, "refunded");
+
+        expect(catalog.getProduct("TSHIRT-001")?.stock).toBe(2);
+    });
+
+    it("should stop counting old sales once the catalog stock changes", async () => {
+        const catalog = createCatalog();
+        const { runtime } = createRuntime(catalog);
+        await catalog.adjustStock(runtime, "TSHIRT-001", -2);
+
+        const restocked = new ProductCatalogService();
+        restocked.addProducts([{ ...PRODUCTS[0], stock: 10 }]);
+        await restocked.initialize(runtime);
+
+        expect(restocked.getProduct("TSHIRT-001")?.stock).toBe(10);
+    });
+
+    it("should only cancel orders still waiting for that code", async () => {
+        const { runtime } = createRuntime();
+        const { order, intent } = await awaitingOrder(runtime);
+        await transitionOrder(runtime, order.id, "paid");
+        await releaseCheckout(runtime, intent);
+        expect((await getOrder(runtime, order.id))?.status).toBe("paid");
+
+        // A newer code replaced this one on the order
+        const other = await awaitingOrder(runtime);
+        await releaseCheckout(runtime, { ...other.intent, code: "ZZZZZ2" });
+        expect((await getOrder(runtime, other.order.id))?.status).toBe(
+            "awaiting_payment"
+        );
+    });
+
+    it("should cancel earlier unpaid checkouts of the room", async () => {
+        const { runtime } = createRuntime();
+        const first = await awaitingOrder(runtime);
+        const second = await awaitingOrder(runtime);
+        const invoiced = await createOrder(runtime, {
+            userId: "user-1",
+            roomId: "room-1",
+            items: [],
+            token: "AISHOP",
+            total: "25",
+            merchant: first.order.merchant,
+        });
+        await transitionOrder(runtime, invoiced.id, "awaiting_payment", {
+            invoiceId: "INV-1",
+        });
+
+        expect(await cancelOpenCheckouts(runtime, "user-1", "room-1")).toEqual(
+            {}
+        );
+
+        for (const { order, intent } of [first, second]) {
+            expect((await getOrder(runtime, order.id))?.status).toBe(
+                "cancelled"
+            );
+            expect(
+                (await getPendingIntent(runtime, "user-1", intent.code))
+                    ?.status
+            ).toBe("cancelled");
+        }
+        // Invoices are paid from other wallets and stay open
+        expect((await getOrder(runtime, invoiced.id))?.status).toBe(
+            "awaiting_payment"
+        );
+    });
+
+    it("should keep checkouts whose payment is being sent", async () => {
+        const { runtime } = createRuntime();
+        const paying = await awaitingOrder(runtime);
+        const unpaid = await awaitingOrder(runtime);
+        await claimPendingIntent(
+            runtime,
+            "user-1",
+            "room-1",
+            paying.intent.code
+        );
+
+        expect(
+            (await cancelOpenCheckouts(runtime, "user-1", "room-1")).error
+        ).toBe(
+            `El pago del pedido ${paying.order.id} está en curso. Espera a que se confirme antes de volver a pagar.`
+        );
+        expect((await getOrder(runtime, unpaid.order.id))?.status).toBe(
+            "awaiting_payment"
+        );
+    });
+    // Runtime with a single-use coupon, the user's wallet and an order paid
+    // with it whose payment code is being confirmed
+    async function payingOrder() {
+        const { runtime, messages } = createTestRuntime({
+            character: {
+                settings: {
+                    promotions: {
+                        coupons: [
+                            {
+                                code: "UNICO",
+                                type: "percentage",
+                                value: "50",
+                                maxUses: 1,
+                            },
+                        ],
+                    },
+                },
+            },
+            cache: {
+                "user_wallet:user-1": {
+                    address: "0x2222222222222222222222222222222222222222",
+                },
+            },
+        });
+        const { order, intent } = await awaitingOrder(runtime, undefined, [], {
+            code: "UNICO",
+            discount: "25",
+        });
+        const { intent: claimed } = await claimPendingIntent(
+            runtime,
+            "user-1",
+            "room-1",
+            intent.code
+        );
+        return {
+            runtime,
+            messages,
+            order: (await getOrder(runtime, order.id)) as Order,
+            intent: claimed as PendingIntent,
+        };
+    }
+
+    async function couponError(runtime: IAgentRuntime) {
+        const { error } = await evaluateCoupon(
+            runtime,
+            "UNICO",
+            "user-2",
+            "AISHOP",
+            "30"
+        );
+        return error;
+    }
+
+    it("should cancel the order and free its coupon when the payment reverts", async () => {
+        const { runtime, order, intent } = await payingOrder();
+        expect(await couponError(runtime)).toContain("agotó");
+
+        const result = await payCheckoutOrder(
+            runtime,
+            intent,
+            order,
+            async () => ({ success: false, txHash: "0xtx1" })
+        );
+
+        expect(result.error).toBe(
+            `La transacción 0xtx1 falló. El pedido ${order.id} se canceló.`
+        );
+        const cancelled = await getOrder(runtime, order.id);
+        expect(cancelled?.status).toBe("cancelled");
+        expect(cancelled?.txHash).toBe("0xtx1");
+        expect(await couponError(runtime)).toBeUndefined();
+    });
+
+    it("should cancel the order when the payment is never sent", async () => {
+        const refused = await payingOrder();
+        const result = await payCheckoutOrder(
+            refused.runtime,
+            refused.intent,
+            refused.order,
+            async () => ({ success: false, error: "Balance insuficiente." })
+        );
+        expect(result.error).toBe(
+            `Balance insuficiente. El pedido ${refused.order.id} se canceló.`
+        );
+        expect(
+            (await getOrder(refused.runtime, refused.order.id))?.status
+        ).toBe("cancelled");
+
+        // An RPC error before sending leaves no transaction on the intent
+        const broken = await payingOrder();
+        await payCheckoutOrder(
+            broken.runtime,
+            broken.intent,
+            broken.order,
+            async () => {
+                throw new Error("fetch failed");
+            }
+        );
+        expect(
+            (await getOrder(broken.runtime, broken.order.id))?.status
+        ).toBe("cancelled");
+        expect(await couponError(broken.runtime)).toBeUndefined();
+    });
+
+    it("should settle payments whose receipt timed out once they are mined", async () => {
+        const { runtime, messages, order, intent } = await payingOrder();
+
+        const result = await payCheckoutOrder(
+            runtime,
+            intent,
+            order,
+            async () => {
+                await recordIntentTransaction(runtime, intent, "0xtx1");
+                throw new Error("Timed out while waiting for transaction");
+            }
+        );
+
+        expect(result).toMatchObject({ success: false, txHash: "0xtx1" });
+        const sent = await getOrder(runtime, order.id);
+        expect(sent).toMatchObject({
+            status: "awaiting_payment",
+            txHash: "0xtx1",
+        });
+        expect(sent?.paymentSentAt).toBeDefined();
+        // The payment may still arrive, so the order cannot be cancelled
+        expect((await requestRefund(runtime, order.id)).error).toBe(
+            `El pago del pedido ${order.id} está en curso. Podrás pedir el reembolso cuando se confirme.`
+        );
+
+        const pending = createMerchant({ lookup: "pending" }).merchant;
+        expect(
+            await reconcileCheckoutPayments(runtime, pending.getPublicClient())
+        ).toBe(0);
+        expect((await getOrder(runtime, order.id))?.status).toBe(
+            "awaiting_payment"
+        );
+
+        const mined = createMerchant({ lookup: "mined" }).merchant;
+        expect(
+            await reconcileCheckoutPayments(runtime, mined.getPublicClient())
+        ).toBe(1);
+        expect(await getOrder(runtime, order.id)).toMatchObject({
+            status: "paid",
+            txHash: "0xtx1",
+            payer: "0x2222222222222222222222222222222222222222",
+        });
+        expect(messages.map((m) => m.content.text)).toEqual([
+            `🧾 Pedido ${order.id} pagado: 25 AISHOP. ¡Gracias por tu compra!`,
+        ]);
+    });
+
+    it("should cancel timed out payments that the ledger finds reverted", async () => {
+        const { runtime, order, intent } = await payingOrder();
+        await payCheckoutOrder(runtime, intent, order, async () => {
+            await recordIntentTransaction(runtime, intent, "0xtx1");
+            throw new Error("Timed out while waiting for transaction");
+        });
+
+        const reverted = createMerchant({
+            lookup: "mined",
+            minedStatus: "reverted",
+        }).merchant;
+        expect(
+            await reconcileCheckoutPayments(runtime, reverted.getPublicClient())
+        ).toBe(1);
+        expect((await getOrder(runtime, order.id))?.status).toBe("cancelled");
+        expect(await couponError(runtime)).toBeUndefined();
+    });
+});
@@ -0,0 +1,229 @@
+import type { RAGKnowledgeItem, UUID } from "@elizaos/core";
+import { describe, it, expect } from "@jest/globals";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import {
+    ProductCatalogService,
+    parseProductQuery,
+    parseProductsCsv,
+    parseProductsJson,
+    type Product,
+} from "../../services/catalog";
+import { findRequestedProduct } from "../../actions/productDetails";
+import { createTestRuntime } from "./helpers/runtime";
+
+const AGENT_ID = "00000000-0000-0000-0000-000000000000" as UUID;
+
+const PRODUCTS: Product[] = [
+    {
+        sku: "TSHIRT-001",
+        title: "Camiseta AI Shop",
+        description: "Camiseta de algodón orgánico",
+        price: { AISHOP: "25", MNT: "2.5" },
+        stock: 40,
+        images: [],
+        categories: ["ropa", "camisetas"],
+    },
+    {
+        sku: "HOODIE-001",
+        title: "Sudadera Mantle",
+        description: "Sudadera con capucha",
+        price: { AISHOP: "60" },
+        stock: 0,
+        images: [],
+        categories: ["ropa", "sudaderas"],
+    },
+    {
+        sku: "MUG-001",
+        title: "Taza AISHOP",
+        description: "Taza de cerámica para café",
+        price: { MNT: "1.2" },
+        stock: 100,
+        images: [],
+        categories: ["hogar"],
+    },
+];
+
+// Runtime con una base de conocimiento en memoria; `semantic` son los SKU que
+// devuelve la búsqueda semántica
+function createRuntime(semantic: string[] = []) {
+    const knowledge = new Map<UUID, RAGKnowledgeItem>();
+    const { runtime } = createTestRuntime({
+        agentId: AGENT_ID,
+        extra: {
+            ragKnowledgeManager: {
+                getKnowledge: async (params: { id?: UUID; query?: string }) => {
+                    if (params.id) {
+                        const item = knowledge.get(params.id);
+                        return item ? [item] : [];
+                    }
+                    return semantic.map((sku) => ({
+                        id: sku as UUID,
+                        agentId: AGENT_ID,
+                        content: {
+                            text: sku,
+                            metadata: { type: "product", sku },
+                        },
+                        score: 1,
+                    }));
+                },
+                createKnowledge: async (item: RAGKnowledgeItem) => {
+                    knowledge.set(item.id, item);
+                },
+                removeKnowledge: async (id: UUID) => {
+                    knowledge.delete(id);
+                },
+            },
+        },
+    });
+    return { runtime, knowledge };
+}
+
+function createCatalog(): ProductCatalogService {
+    const catalog = new ProductCatalogService();
+    catalog.addProducts(PRODUCTS);
+    return catalog;
+}
+
+describe("catalog parsing", () => {
+    it("should parse JSON catalogs and validate prices", () => {
+        const [product] = parseProductsJson(
+            { products: [{ sku: "A-1", title: "A", price: { aishop: 10 } }] },
+            "test.json"
+        );
+        expect(product).toMatchObject({
+            sku: "A-1",
+            price: { AISHOP: "10" },
+            stock: 0,
+            images: [],
+        });
+
+        expect(() =>
+            parseProductsJson([{ sku: "A-1", title: "A", price: { USDC: "1" } }], "x")
+        ).toThrow("moneda USDC");
+        expect(() =>
+            parseProductsJson([{ sku: "A-1", title: "A", price: {} }], "x")
+        ).toThrow("sin precio");
+    });
+
+    it("should parse CSV catalogs with quoted cells and list columns", () => {
+        const [product] = parseProductsCsv(
+            [
+                "sku,title,description,price_aishop,price_mnt,stock,images,categories",
+                'MUG-001,Taza,"Taza de 350 ml, ""edición"" Mantle",12,,7,a.png|b.png,hogar|tazas',
+            ].join("\n"),
+            "test.csv"
+        );
+        expect(product).toEqual({
+            sku: "MUG-001",
+            title: "Taza",
+            description: 'Taza de 350 ml, "edición" Mantle',
+            price: { AISHOP: "12" },
+            stock: 7,
+            images: ["a.png", "b.png"],
+            categories: ["hogar", "tazas"],
+        });
+    });
+
+    it("should load catalog directories", () => {
+        const dir = fs.mkdtempSync(path.join(os.tmpdir(), "catalog-"));
+        fs.writeFileSync(
+            path.join(dir, "a.json"),
+            JSON.stringify([PRODUCTS[0]])
+        );
+        fs.writeFileSync(
+            path.join(dir, "b.csv"),
+            "sku,title,price_mnt,stock\nMUG-001,Taza,1.2,3\n"
+        );
+        fs.writeFileSync(path.join(dir, "notes.txt"), "ignored");
+
+        const catalog = new ProductCatalogService();
+        expect(catalog.loadFromPath(dir)).toBe(2);
+        expect(catalog.getProduct("mug-001")?.stock).toBe(3);
+    });
+});
+
+describe("parseProductQuery", () => {
+    it("should extract price limits and stock filters", () => {
+        expect(
+            parseProductQuery("busca camisetas por menos de 30 AISHOP en stock")
+        ).toEqual({
+            query: "camisetas",
+            maxPrice: 30,
+            token: "AISHOP",
+            inStockOnly: true,
+        });
+        expect(parseProductQuery("Search products for hoodies")).toEqual({
+            query: "hoodies",
+        });
+    });
+});
+
+describe("ProductCatalogService", () => {
+    it("should rank keyword matches and apply filters", () => {
+        const catalog = createCatalog();
+
+        expect(
+            catalog.search({ query: "ropa" }).map((match) => match.product.sku)
+        ).toEqual(["TSHIRT-001", "HOODIE-001"]);
+        expect(
+            catalog
+                .search({ query: "ropa", inStockOnly: true })
+                .map((match) => match.product.sku)
+        ).toEqual(["TSHIRT-001"]);
+        expect(
+            catalog
+                .search({ query: "", maxPrice: 2, token: "MNT" })
+                .map((match) => match.product.sku)
+        ).toEqual(["MUG-001"]);
+    });
+
+    it("should index products once and reindex changed ones", async () => {
+        const catalog = createCatalog();
+        const { runtime, knowledge } = createRuntime();
+
+        expect(await catalog.indexKnowledge(runtime)).toBe(3);
+        expect(await catalog.indexKnowledge(runtime)).toBe(0);
+
+        // El stock no se indexa: una venta no obliga a reindexar
+        catalog.addProducts([{ ...PRODUCTS[0], stock: 1 }]);
+        expect(await catalog.indexKnowledge(runtime)).toBe(0);
+
+        catalog.addProducts([
+            { ...PRODUCTS[0], price: { AISHOP: "20", MNT: "2" } },
+        ]);
+        expect(await catalog.indexKnowledge(runtime)).toBe(1);
+
+        const item = knowledge.get(catalog.knowledgeId(runtime, "TSHIRT-001"));
+        expect(item?.content.metadata).toMatchObject({
+            type: "product",
+            sku: "TSHIRT-001",
+        });
+        expect(item?.content.text).toContain("20 AISHOP");
+        expect(item?.content.text).not.toContain("unidades");
+    });
+
+    it("should merge semantic matches that pass the filters", async () => {
+        const catalog = createCatalog();
+        const { runtime } = createRuntime(["MUG-001", "HOODIE-001"]);
+
+        const matches = await catalog.searchProducts(runtime, {
+            query: "desayuno",
+            inStockOnly: true,
+        });
+        expect(matches.map((match) => match.product.sku)).toEqual(["MUG-001"]);
+    });
+
+    it("should find the requested product by SKU or title", () => {
+        const catalog = createCatalog();
+
+        expect(
+            findRequestedProduct(catalog, "detalles del sku hoodie-001")?.sku
+        ).toBe("HOODIE-001");
+        expect(
+            findRequestedProduct(catalog, "Tell me about the taza")?.sku
+        ).toBe("MUG-001");
+        expect(findRequestedProduct(catalog, "detalles")).toBeUndefined();
+    });
+});
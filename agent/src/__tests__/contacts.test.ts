@@ -0,0 +1,176 @@
+import type { Account, Contact, UUID } from "@elizaos/core";
+import { describe, it, expect } from "@jest/globals";
+import { getAddress } from "viem";
+import { extractContactName, saveContact } from "../../services/contacts";
+import { resolveRecipient } from "../../services/intentParser";
+import { createTestRuntime } from "./helpers/runtime";
+
+const AGENT_ID = "00000000-0000-0000-0000-000000000000" as UUID;
+const USER_ID = "11111111-1111-1111-1111-111111111111" as UUID;
+const MARIA_ID = "22222222-2222-2222-2222-222222222222" as UUID;
+const MARIA_ADDRESS = getAddress("0x1234567890abcdef1234567890abcdef12345678");
+const OTHER_ADDRESS = getAddress("0x00000000000000000000000000000000000000aa");
+
+// Runtime con contactos y cuentas en memoria y un cache con las wallets
+function createRuntime(accounts: Account[], cache: Record<string, unknown>) {
+    const contacts: Contact[] = [];
+    const sameContact = (contact: Contact, params: Partial<Contact>) =>
+        contact.userId === params.userId &&
+        contact.name.toLowerCase() === params.name?.toLowerCase();
+
+    return createTestRuntime({
+        agentId: AGENT_ID,
+        cache,
+        databaseAdapter: {
+            getAccountsByName: async (name: string) =>
+                accounts.filter(
+                    (account) =>
+                        account.name.toLowerCase() === name.toLowerCase() ||
+                        account.username.toLowerCase() === name.toLowerCase()
+                ),
+            upsertContact: async (contact: Contact) => {
+                const index = contacts.findIndex((existing) =>
+                    sameContact(existing, contact)
+                );
+                if (index >= 0) contacts.splice(index, 1);
+                contacts.push(contact);
+            },
+            getContactByName: async (params: Partial<Contact>) =>
+                contacts.find((contact) => sameContact(contact, params)) ??
+                null,
+        },
+    }).runtime;
+}
+
+function account(id: UUID, name: string, username: string): Account {
+    return { id, name, username };
+}
+
+function walletCache(userId: UUID, address: string) {
+    return {
+        [`user_wallet:${userId}`]: { address },
+        [`address_to_user:${address}`]: userId,
+    };
+}
+
+describe("extractContactName", () => {
+    it.each([
+        [`Agregar contacto Maria ${MARIA_ADDRESS}`, "Maria"],
+        [`add contact "Maria Lopez" with ${MARIA_ADDRESS}`, "Maria Lopez"],
+        [`nuevo contacto Juan: ${MARIA_ADDRESS}`, "Juan"],
+        ["Guarda a Juan como contacto", "Juan"],
+        ["Save Juan as a contact", "Juan"],
+        ["Eliminar contacto Maria", "Maria"],
+        ["borra a Lucía de mis contactos", "Lucía"],
+        ["Remove Juan from my contacts", "Juan"],
+    ])("should extract the name from %p", (text, expected) => {
+        expect(extractContactName(text)).toBe(expected);
+    });
+
+    it("should return null without a name", () => {
+        expect(extractContactName(`agregar contacto ${MARIA_ADDRESS}`)).toBeNull();
+        expect(extractContactName("muéstrame mis contactos")).toBeNull();
+    });
+});
+
+describe("saveContact", () => {
+    it("should link addresses of agent users through the reverse lookup", async () => {
+        const runtime = createRuntime([], walletCache(MARIA_ID, MARIA_ADDRESS));
+
+        const linked = await saveContact(
+            runtime,
+            USER_ID,
+            "Maria",
+            MARIA_ADDRESS.toLowerCase()
+        );
+        expect(linked.address).toBe(MARIA_ADDRESS);
+        expect(linked.contactUserId).toBe(MARIA_ID);
+
+        const external = await saveContact(
+            runtime,
+            USER_ID,
+            "Proveedor",
+            OTHER_ADDRESS
+        );
+        expect(external.contactUserId).toBeNull();
+
+        await expect(
+            saveContact(runtime, USER_ID, "Mal", "0x1234")
+        ).rejects.toThrow(/no es válida/);
+    });
+});
+
+describe("resolveRecipient", () => {
+    it("should resolve contact names ignoring case", async () => {
+        const runtime = createRuntime([], {});
+        await saveContact(runtime, USER_ID, "Proveedor", OTHER_ADDRESS);
+
+        expect(
+            await resolveRecipient(runtime, USER_ID, {
+                type: "contact",
+                value: "proveedor",
+            })
+        ).toEqual({ address: OTHER_ADDRESS, name: "Proveedor" });
+    });
+
+    it("should pay another agent user by display name", async () => {
+        // Wallets created before the index existed resolve as well
+        const runtime = createRuntime(
+            [account(MARIA_ID, "Maria", "maria_g")],
+            walletCache(MARIA_ID, MARIA_ADDRESS)
+        );
+
+        expect(
+            await resolveRecipient(runtime, USER_ID, {
+                type: "contact",
+                value: "maria_g",
+            })
+        ).toEqual({ address: MARIA_ADDRESS, name: "maria_g" });
+    });
+
+    it("should refuse ambiguous or unknown names", async () => {
+        const otherMaria = "33333333-3333-3333-3333-333333333333" as UUID;
+        const runtime = createRuntime(
+            [
+                account(MARIA_ID, "Maria", "maria_g"),
+                account(otherMaria, "Maria", "maria_p"),
+            ],
+            {
+                ...walletCache(MARIA_ID, MARIA_ADDRESS),
+                ...walletCache(otherMaria, OTHER_ADDRESS),
+            }
+        );
+
+        const ambiguous = await resolveRecipient(runtime, USER_ID, {
+            type: "contact",
+            value: "Maria",
+        });
+        expect(ambiguous).toEqual({
+            error: expect.stringContaining("varios usuarios"),
+        });
+
+        const unknown = await resolveRecipient(runtime, USER_ID, {
+            type: "contact",
+            value: "Pedro",
+        });
+        expect(unknown).toEqual({
+            error: expect.stringContaining("No encontré a Pedro"),
+        });
+    });
+
+    it("should ignore wallets whose reverse lookup points elsewhere", async () => {
+        const runtime = createRuntime(
+            [account(MARIA_ID, "Maria", "maria_g")],
+            {
+                [`user_wallet:${MARIA_ID}`]: { address: MARIA_ADDRESS },
+                [`address_to_user:${MARIA_ADDRESS}`]: USER_ID,
+            }
+        );
+
+        const result = await resolveRecipient(runtime, USER_ID, {
+            type: "contact",
+            value: "Maria",
+        });
+        expect(result).toHaveProperty("error");
+    });
+});
@@ -0,0 +1,121 @@
+import { spawn, spawnSync, type ChildProcess } from "child_process";
+import net from "net";
+
+// Cuentas por defecto de anvil; ganache genera las mismas con este mnemónico
+const DEVNET_MNEMONIC = "test test test test test test test test test test test junk";
+export const DEVNET_FUNDED_KEY =
+    "0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80" as const;
+// Segunda cuenta, usada como wallet del agente (EVM_PRIVATE_KEY)
+export const DEVNET_AGENT_KEY =
+    "0x59c6995e998f97a5a0044966f0945389dc9e86dae88c7a8412f4603b6b78690d" as const;
+
+const STARTUP_TIMEOUT_MS = 30 * 1000;
+
+export interface Devnet {
+    rpcUrl: string;
+    stop: () => Promise<void>;
+}
+
+type DevnetNode = "anvil" | "ganache";
+
+function isInstalled(command: string): boolean {
+    const result = spawnSync(command, ["--version"], {
+        stdio: "ignore",
+        timeout: 10 * 1000,
+    });
+    return !result.error && result.status === 0;
+}
+
+// Usa DEVNET_NODE si está definido; si no, el primero instalado
+export function findDevnetNode(): DevnetNode | null {
+    const configured = process.env.DEVNET_NODE as DevnetNode | undefined;
+    if (configured) {
+        return isInstalled(configured) ? configured : null;
+    }
+    return (["anvil", "ganache"] as const).find(isInstalled) ?? null;
+}
+
+async function getFreePort(): Promise<number> {
+    return new Promise((resolve, reject) => {
+        const server = net.createServer();
+        server.unref();
+        server.on("error", reject);
+        server.listen(0, "127.0.0.1", () => {
+            const { port } = server.address() as net.AddressInfo;
+            server.close(() => resolve(port));
+        });
+    });
+}
+
+function nodeArgs(node: DevnetNode, port: number, chainId: number): string[] {
+    if (node === "anvil") {
+        return [
+            "--host", "127.0.0.1",
+            "--port", String(port),
+            "--chain-id", String(chainId),
+            "--mnemonic", DEVNET_MNEMONIC,
+            "--silent",
+        ];
+    }
+    return [
+        "--server.host", "127.0.0.1",
+        "--server.port", String(port),
+        "--chain.chainId", String(chainId),
+        "--wallet.mnemonic", DEVNET_MNEMONIC,
+        "--logging.quiet",
+    ];
+}
+
+async function waitForRpc(rpcUrl: string, child: ChildProcess): Promise<void> {
+    const deadline = Date.now() + STARTUP_TIMEOUT_MS;
+    while (Date.now() < deadline) {
+        if (child.exitCode !== null) {
+            throw new Error(`El nodo local terminó con código ${child.exitCode}`);
+        }
+        try {
+            const response = await fetch(rpcUrl, {
+                method: "POST",
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify({
+                    jsonrpc: "2.0",
+                    id: 1,
+                    method: "eth_chainId",
+                    params: [],
+                }),
+            });
+            if (response.ok) return;
+        } catch {
+            // Todavía no acepta conexiones
+        }
+        await new Promise((resolve) => setTimeout(resolve, 250));
+    }
+    throw new Error("El nodo local no respondió a tiempo");
+}
+
+// Inicia un nodo EVM local con el chainId indicado
+export async function startDevnet(
+    node: DevnetNode,
+    chainId: number
+): Promise<Devnet> {
+    const port = await getFreePort();
+    const rpcUrl = `http://127.0.0.1:${port}`;
+    const child = spawn(node, nodeArgs(node, port, chainId), {
+        stdio: "ignore",
+    });
+
+    const stop = async () => {
+        if (child.exitCode !== null) return;
+        const exited = new Promise((resolve) => child.once("exit", resolve));
+        child.kill();
+        await exited;
+    };
+
+    try {
+        await waitForRpc(rpcUrl, child);
+    } catch (error) {
+        await stop();
+        throw error;
+    }
+
+    return { rpcUrl, stop };
+}
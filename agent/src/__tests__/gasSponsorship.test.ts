@@ -0,0 +1,108 @@
+import type { GasSponsorshipSettings } from "@elizaos/core";
+import { describe, it, expect } from "@jest/globals";
+import { parseEther } from "viem";
+import {
+    GAS_SPONSORSHIP_PREFIX,
+    planGasDrip,
+} from "../../services/gasSponsorship";
+import { createTestRuntime } from "./helpers/runtime";
+
+const USER_ID = "user-1";
+
+function createRuntime(
+    gasSponsorship?: GasSponsorshipSettings,
+    cache: Record<string, unknown> = {}
+) {
+    return createTestRuntime({
+        character: { settings: { gasSponsorship } },
+        cache,
+    }).runtime;
+}
+
+function dripHistory(amounts: string[], timestamp = Date.now()) {
+    return {
+        [`${GAS_SPONSORSHIP_PREFIX}${USER_ID}`]: amounts.map((amount, i) => ({
+            amount: parseEther(amount).toString(),
+            hash: `0x${i}`,
+            timestamp,
+        })),
+    };
+}
+
+describe("planGasDrip", () => {
+    it("should not drip when the wallet can pay the fee", async () => {
+        const runtime = createRuntime({ enabled: true });
+        const plan = await planGasDrip(
+            runtime,
+            USER_ID,
+            parseEther("1"),
+            parseEther("0.001")
+        );
+        expect(plan).toEqual({ amount: 0n });
+    });
+
+    it("should refuse when sponsorship is disabled", async () => {
+        const runtime = createRuntime({ enabled: false, dripAmount: "1" });
+        const plan = await planGasDrip(runtime, USER_ID, 0n, parseEther("0.001"));
+        expect(plan.amount).toBe(0n);
+        expect(plan.error).toContain("No tienes suficiente MNT");
+    });
+
+    it("should drip at least the configured amount", async () => {
+        const runtime = createRuntime({ enabled: true, dripAmount: "0.05" });
+
+        const small = await planGasDrip(
+            runtime,
+            USER_ID,
+            0n,
+            parseEther("0.001")
+        );
+        expect(small).toEqual({ amount: parseEther("0.05") });
+
+        // Si falta más que la recarga se cubre toda la diferencia
+        const large = await planGasDrip(
+            runtime,
+            USER_ID,
+            parseEther("0.02"),
+            parseEther("0.1")
+        );
+        expect(large).toEqual({ amount: parseEther("0.08") });
+    });
+
+    it("should enforce the daily drip count", async () => {
+        const runtime = createRuntime(
+            { enabled: true, maxDripsPerDay: 2 },
+            dripHistory(["0.05", "0.05"])
+        );
+        const plan = await planGasDrip(runtime, USER_ID, 0n, parseEther("0.001"));
+        expect(plan.amount).toBe(0n);
+        expect(plan.error).toContain("2 recargas de gas");
+    });
+
+    it("should enforce the daily amount per user", async () => {
+        const runtime = createRuntime(
+            { enabled: true, dripAmount: "0.05", maxPerUserPerDay: "0.12" },
+            dripHistory(["0.05"])
+        );
+        expect(
+            await planGasDrip(runtime, USER_ID, 0n, parseEther("0.001"))
+        ).toEqual({ amount: parseEther("0.05") });
+
+        const exceeded = await planGasDrip(
+            runtime,
+            USER_ID,
+            0n,
+            parseEther("0.1")
+        );
+        expect(exceeded.error).toContain("0.12 MNT");
+    });
+
+    it("should ignore drips older than 24 hours", async () => {
+        const runtime = createRuntime(
+            { enabled: true, maxDripsPerDay: 1 },
+            dripHistory(["0.05"], Date.now() - 25 * 60 * 60 * 1000)
+        );
+        const plan = await planGasDrip(runtime, USER_ID, 0n, parseEther("0.001"));
+        expect(plan).toEqual({ amount: parseEther("0.05") });
+    });
+});
@@ -0,0 +1,48 @@
+import { describe, it, expect } from "@jest/globals";
+import {
+    extractMnemonic,
+    parseWalletSecret,
+    validateMnemonic,
+} from "../../services/hdWallet";
+
+// Frase de prueba pública de Hardhat/Anvil
+const TEST_MNEMONIC =
+    "test test test test test test test test test test test junk";
+
+describe("HD wallet", () => {
+    it("should validate BIP-39 checksums", () => {
+        expect(validateMnemonic(TEST_MNEMONIC)).toBe(true);
+        expect(
+            validateMnemonic(
+                "test test test test test test test test test test test test"
+            )
+        ).toBe(false);
+    });
+
+    it("should find a mnemonic inside a chat message", () => {
+        expect(extractMnemonic(`Importar wallet: ${TEST_MNEMONIC}, gracias`)).toBe(
+            TEST_MNEMONIC
+        );
+    });
+
+    it("should derive the default and custom paths", () => {
+        expect(parseWalletSecret(TEST_MNEMONIC)?.address).toBe(
+            "0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266"
+        );
+        const second = parseWalletSecret(
+            `${TEST_MNEMONIC} m/44'/60'/0'/0/1`
+        );
+        expect(second?.address).toBe(
+            "0x70997970C51812dc3A010C7d01b50e0d17dc79C8"
+        );
+        expect(second?.derivationPath).toBe("m/44'/60'/0'/0/1");
+    });
+
+    it("should accept raw private keys", () => {
+        expect(
+            parseWalletSecret(
+                "import wallet 59c6995e998f97a5a0044966f0945389dc9e86dae88c7a8412f4603b6b78690d"
+            )?.address
+        ).toBe("0x70997970C51812dc3A010C7d01b50e0d17dc79C8");
+    });
+});
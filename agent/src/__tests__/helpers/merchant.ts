@@ -0,0 +1,58 @@
+import {
+    TransactionNotFoundError,
+    TransactionReceiptNotFoundError,
+    type Address,
+    type Hash,
+} from "viem";
+import type { WalletProvider } from "../../../providers/wallet";
+
+export const MERCHANT = "0x1111111111111111111111111111111111111111" as Address;
+
+export interface MerchantOptions {
+    // Receipt of the transactions the merchant sends
+    receiptStatus?: "success" | "reverted";
+    // How the node reports earlier transactions, and their receipt if mined
+    lookup?: "mined" | "pending" | "dropped";
+    minedStatus?: "success" | "reverted";
+}
+
+// Merchant wallet that records the native and token transfers it sends
+export function createMerchant(options: MerchantOptions = {}) {
+    const receiptStatus = options.receiptStatus ?? "success";
+    const lookup = options.lookup ?? "mined";
+    const minedStatus = options.minedStatus ?? receiptStatus;
+    const sent: { to: Address; value: bigint }[] = [];
+    const transfers: { to: Address; amount: bigint }[] = [];
+    const nextHash = () => `0xtx${sent.length + transfers.length}`;
+
+    const merchant = {
+        getAddress: () => MERCHANT,
+        getAccount: () => ({ address: MERCHANT }),
+        getWalletClient: () => ({
+            sendTransaction: async (tx: { to: Address; value: bigint }) => {
+                sent.push(tx);
+                return nextHash();
+            },
+            writeContract: async ({ args }: { args: [Address, bigint] }) => {
+                transfers.push({ to: args[0], amount: args[1] });
+                return nextHash();
+            },
+        }),
+        getPublicClient: () => ({
+            waitForTransactionReceipt: async () => ({ status: receiptStatus }),
+            getTransactionReceipt: async ({ hash }: { hash: Hash }) => {
+                if (lookup !== "mined") {
+                    throw new TransactionReceiptNotFoundError({ hash });
+                }
+                return { status: minedStatus };
+            },
+            getTransaction: async ({ hash }: { hash: Hash }) => {
+                if (lookup === "dropped") {
+                    throw new TransactionNotFoundError({ hash });
+                }
+                return { hash };
+            },
+        }),
+    } as unknown as WalletProvider;
+    return { merchant, sent, transfers };
+}
@@ -0,0 +1,55 @@
+import type { IAgentRuntime, LedgerEntry, Memory } from "@elizaos/core";
+
+export const AGENT_ID = "00000000-0000-0000-0000-000000000000";
+
+export interface TestRuntimeOptions {
+    agentId?: string;
+    // Read live, so tests can change a setting after creating the runtime
+    settings?: Record<string, string>;
+    // Initial cache entries
+    cache?: Record<string, unknown>;
+    character?: unknown;
+    // Returned by getService for any service type
+    service?: unknown;
+    // Database methods besides createLedgerEntry
+    databaseAdapter?: Record<string, unknown>;
+    // Other runtime members, such as ragKnowledgeManager
+    extra?: Record<string, unknown>;
+}
+
+// Minimal runtime with an in-memory cache that records room notifications
+// and ledger entries
+export function createTestRuntime(options: TestRuntimeOptions = {}) {
+    const store = new Map<string, unknown>(Object.entries(options.cache ?? {}));
+    const messages: Memory[] = [];
+    const ledger: LedgerEntry[] = [];
+    const settings = options.settings ?? {};
+    const runtime = {
+        agentId: options.agentId ?? AGENT_ID,
+        character: options.character,
+        getSetting: (key: string) => settings[key] ?? null,
+        getService: () => options.service ?? null,
+        cacheManager: {
+            get: async (key: string) => store.get(key),
+            set: async (key: string, value: unknown) => {
+                store.set(key, value);
+            },
+            delete: async (key: string) => {
+                store.delete(key);
+            },
+        },
+        messageManager: {
+            createMemory: async (memory: Memory) => {
+                messages.push(memory);
+            },
+        },
+        databaseAdapter: {
+            createLedgerEntry: async (entry: LedgerEntry) => {
+                ledger.push(entry);
+            },
+            ...options.databaseAdapter,
+        },
+        ...options.extra,
+    } as unknown as IAgentRuntime;
+    return { runtime, store, messages, ledger };
+}
@@ -0,0 +1,249 @@
+import type { IAgentRuntime } from "@elizaos/core";
+import { describe, it, expect } from "@jest/globals";
+import { parseUnits } from "viem";
+import {
+    isTransferRequest,
+    normalizeDecimal,
+    parseTransferIntent,
+    parseTransferIntentFallback,
+    resolveIntentAmount,
+    type TransferIntent,
+} from "../../services/intentParser";
+
+const SYMBOLS = ["MNT", "AISHOP", "USDC"];
+const ADDRESS = "0x1234567890abcdef1234567890abcdef12345678";
+
+function runtimeWithSettings(settings: Record<string, string> = {}) {
+    return {
+        getSetting: (key: string) => settings[key] ?? null,
+    } as unknown as IAgentRuntime;
+}
+
+// Corpus bilingüe: mensaje y la intención que debe extraer el analizador
+// determinista
+const corpus: Array<[string, TransferIntent]> = [
+    [
+        `Transfiere 0.01 MNT a la wallet ${ADDRESS}`,
+        {
+            token: "MNT",
+            amount: { type: "absolute", value: "0.01" },
+            recipient: { type: "address", value: ADDRESS },
+            chain: null,
+        },
+    ],
+    [
+        "manda 2,5 MNT a Juan",
+        {
+            token: "MNT",
+            amount: { type: "absolute", value: "2.5" },
+            recipient: { type: "contact", value: "Juan" },
+            chain: null,
+        },
+    ],
+    [
+        "send half my AISHOP to Maria",
+        {
+            token: "AISHOP",
+            amount: { type: "percent", value: 50 },
+            recipient: { type: "contact", value: "Maria" },
+            chain: null,
+        },
+    ],
+    [
+        "envía la mitad de mis aishop a @carlos",
+        {
+            token: "AISHOP",
+            amount: { type: "percent", value: 50 },
+            recipient: { type: "contact", value: "carlos" },
+            chain: null,
+        },
+    ],
+    [
+        "Send all my MNT to alice.eth on sepolia",
+        {
+            token: "MNT",
+            amount: { type: "all" },
+            recipient: { type: "ens", value: "alice.eth" },
+            chain: "mantle-sepolia",
+        },
+    ],
+    [
+        `Pásale todo el USDC a ${ADDRESS} en mainnet`,
+        {
+            token: "USDC",
+            amount: { type: "all" },
+            recipient: { type: "address", value: ADDRESS },
+            chain: "mantle",
+        },
+    ],
+    [
+        "transfer 25% of my AISHOP to bob.mnt",
+        {
+            token: "AISHOP",
+            amount: { type: "percent", value: 25 },
+            recipient: { type: "ens", value: "bob.mnt" },
+            chain: null,
+        },
+    ],
+    [
+        "págale 1,000.50 AISHOP a Lucía por la cena",
+        {
+            token: "AISHOP",
+            amount: { type: "absolute", value: "1000.50" },
+            recipient: { type: "contact", value: "Lucía" },
+            chain: null,
+        },
+    ],
+    [
+        "Send 40 AISHOP",
+        {
+            token: "AISHOP",
+            amount: { type: "absolute", value: "40" },
+            recipient: null,
+            chain: null,
+        },
+    ],
+    [
+        `enviar 100 a ${ADDRESS}`,
+        {
+            token: null,
+            amount: { type: "absolute", value: "100" },
+            recipient: { type: "address", value: ADDRESS },
+            chain: null,
+        },
+    ],
+];
+
+describe("parseTransferIntentFallback", () => {
+    it.each(corpus)("should parse %p", (text, expected) => {
+        expect(parseTransferIntentFallback(text, SYMBOLS)).toEqual(expected);
+    });
+});
+
+describe("isTransferRequest", () => {
+    it("should detect transfer verbs in Spanish and English", () => {
+        for (const [text] of corpus) {
+            expect(isTransferRequest(text)).toBe(true);
+        }
+        expect(isTransferRequest("¿Cuál es mi balance de MNT?")).toBe(false);
+        expect(isTransferRequest("swap 1 MNT for USDC")).toBe(false);
+    });
+});
+
+describe("normalizeDecimal", () => {
+    it("should accept comma decimals and thousands separators", () => {
+        expect(normalizeDecimal("2,5")).toBe("2.5");
+        expect(normalizeDecimal("1,000")).toBe("1000");
+        expect(normalizeDecimal("1,000.25")).toBe("1000.25");
+        expect(normalizeDecimal("abc")).toBeNull();
+    });
+});
+
+describe("parseTransferIntent", () => {
+    it("should use the model output when it is valid", async () => {
+        const intent = await parseTransferIntent(
+            runtimeWithSettings(),
+            "send half my AISHOP to my sister Maria",
+            {
+                symbols: SYMBOLS,
+                generate: async () => ({
+                    token: "aishop",
+                    amount: { type: "percent", value: 50 },
+                    recipient: { type: "contact", value: "Maria" },
+                    chain: null,
+                }),
+            }
+        );
+        expect(intent).toEqual({
+            token: "AISHOP",
+            amount: { type: "percent", value: 50 },
+            recipient: { type: "contact", value: "Maria" },
+            chain: null,
+        });
+    });
+
+    it("should discard addresses that are not in the message", async () => {
+        const intent = await parseTransferIntent(
+            runtimeWithSettings(),
+            `manda 2,5 MNT a ${ADDRESS}`,
+            {
+                symbols: SYMBOLS,
+                generate: async () => ({
+                    token: "MNT",
+                    amount: { type: "absolute", value: "2,5" },
+                    recipient: {
+                        type: "address",
+                        value: "0x0000000000000000000000000000000000000001",
+                    },
+                    chain: null,
+                }),
+            }
+        );
+        expect(intent.amount).toEqual({ type: "absolute", value: "2.5" });
+        expect(intent.recipient).toEqual({ type: "address", value: ADDRESS });
+    });
+
+    it("should fall back to regex when the model fails", async () => {
+        const [text, expected] = corpus[1];
+        const failing = await parseTransferIntent(runtimeWithSettings(), text, {
+            symbols: SYMBOLS,
+            generate: async () => {
+                throw new Error("model unavailable");
+            },
+        });
+        expect(failing).toEqual(expected);
+
+        const invalid = await parseTransferIntent(runtimeWithSettings(), text, {
+            symbols: SYMBOLS,
+            generate: async () => ({ token: 42 }),
+        });
+        expect(invalid).toEqual(expected);
+    });
+
+    it("should skip the model when INTENT_PARSER is regex", async () => {
+        const [text, expected] = corpus[2];
+        const intent = await parseTransferIntent(
+            runtimeWithSettings({ INTENT_PARSER: "regex" }),
+            text,
+            {
+                symbols: SYMBOLS,
+                generate: async () => {
+                    throw new Error("should not be called");
+                },
+            }
+        );
+        expect(intent).toEqual(expected);
+    });
+});
+
+describe("resolveIntentAmount", () => {
+    const parse = (value: string) => parseUnits(value, 18);
+    const available = parseUnits("10", 18);
+
+    it("should resolve absolute, percent and all amounts", () => {
+        expect(
+            resolveIntentAmount(
+                { type: "absolute", value: "2.5" },
+                available,
+                parse
+            )
+        ).toBe(parseUnits("2.5", 18));
+        expect(
+            resolveIntentAmount(
+                { type: "percent", value: 50 },
+                available,
+                parse
+            )
+        ).toBe(parseUnits("5", 18));
+        expect(
+            resolveIntentAmount(
+                { type: "percent", value: 12.5 },
+                available,
+                parse
+            )
+        ).toBe(parseUnits("1.25", 18));
+        expect(resolveIntentAmount({ type: "all" }, available, parse)).toBe(
+            available
+        );
+    });
+});
@@ -0,0 +1,548 @@
+import type { IAgentRuntime } from "@elizaos/core";
+import { describe, it, expect } from "@jest/globals";
+import { parseEther, parseUnits, type Address } from "viem";
+import {
+    amountReference,
+    applyLatePayment,
+    applyPayment,
+    buildPaymentUri,
+    createInvoice,
+    getInvoice,
+    getOpenInvoices,
+    LATE_PAYMENT_WINDOW_MS,
+    matchLatePayment,
+    matchPayment,
+    refundInvoice,
+    scanInvoicePayments,
+    type Invoice,
+} from "../../services/invoices";
+import { createOrder, getOrder, updateOrder } from "../../services/orders";
+import { parseInvoiceAmount } from "../../actions/createInvoice";
+import { createMerchant, MERCHANT } from "./helpers/merchant";
+import { createTestRuntime } from "./helpers/runtime";
+
+const PAYER = "0x2222222222222222222222222222222222222222" as Address;
+const OTHER = "0x3333333333333333333333333333333333333333" as Address;
+const AISHOP = "0x4444444444444444444444444444444444444444" as Address;
+
+function newInvoice(
+    runtime: IAgentRuntime,
+    overrides: {
+        token?: "AISHOP" | "MNT";
+        amount?: string;
+        ttlMs?: number;
+    } = {}
+) {
+    const token = overrides.token ?? "AISHOP";
+    return createInvoice(
+        runtime,
+        {
+            userId: "user-1",
+            roomId: "room-1",
+            token,
+            tokenAddress: token === "AISHOP" ? AISHOP : undefined,
+            decimals: 18,
+            amount: overrides.amount ?? "25",
+            merchant: MERCHANT,
+            fromBlock: 100n,
+        },
+        overrides.ttlMs
+    );
+}
+
+function payment(hash: string, from: Address, amount: string) {
+    return { hash, from, amount, blockNumber: "101", timestamp: Date.now() };
+}
+
+// Moves an invoice's expiry into the past, as if time had gone by
+async function expire(runtime: IAgentRuntime, id: string, agoMs = 60_000) {
+    const invoice = (await getInvoice(runtime, id)) as Invoice;
+    await runtime.cacheManager.set(`invoice:${invoice.id}`, {
+        ...invoice,
+        expiresAt: Date.now() - agoMs,
+    });
+}
+
+// Chain client with fixed Transfer logs and native transactions per block
+function createClient(chain: {
+    latest: bigint;
+    logs?: { from: Address; value: bigint; hash: string; block: bigint }[];
+    txs?: { from: Address; value: bigint; hash: string; block: bigint }[];
+}) {
+    return {
+        getBlockNumber: async () => chain.latest,
+        getLogs: async () =>
+            (chain.logs ?? []).map((log) => ({
+                args: { from: log.from, to: MERCHANT, value: log.value },
+                transactionHash: log.hash,
+                blockNumber: log.block,
+            })),
+        getBlock: async ({ blockNumber }: { blockNumber: bigint }) => ({
+            timestamp: BigInt(Math.floor(Date.now() / 1000)),
+            transactions: (chain.txs ?? [])
+                .filter((tx) => tx.block === blockNumber)
+                .map((tx) => ({ ...tx, to: MERCHANT })),
+        }),
+        getTransactionReceipt: async () => ({ status: "success" }),
+    } as unknown as Parameters<typeof scanInvoicePayments>[1];
+}
+
+describe("Invoice requests", () => {
+    it("should build EIP-681 URIs for tokens and native MNT", () => {
+        expect(
+            buildPaymentUri({
+                merchant: MERCHANT,
+                chainId: 5003,
+                amount: 25n,
+                tokenAddress: AISHOP,
+            })
+        ).toBe(
+            `ethereum:${AISHOP}@5003/transfer?address=${MERCHANT}&uint256=25`
+        );
+        expect(
+            buildPaymentUri({ merchant: MERCHANT, chainId: 5003, amount: 10n })
+        ).toBe(`ethereum:${MERCHANT}@5003?value=10`);
+    });
+
+    it("should parse explicit invoice amounts", () => {
+        expect(parseInvoiceAmount("factura de 2,5 mnt")).toEqual({
+            amount: "2.5",
+            token: "MNT",
+        });
+        expect(parseInvoiceAmount("dame una factura del carrito")).toBeNull();
+    });
+
+    it("should issue invoices with a unique reference in the amount", async () => {
+        const { runtime } = createTestRuntime();
+        const first = await newInvoice(runtime);
+        const second = await newInvoice(runtime);
+
+        for (const invoice of [first, second]) {
+            const amount = parseUnits(invoice.amount, 18);
+            expect(amount > parseUnits("25", 18)).toBe(true);
+            expect(amount < parseUnits("25.01", 18)).toBe(true);
+            expect(amountReference(amount, 18)).toBe(invoice.reference);
+            expect(invoice.uri).toContain(`uint256=${amount}`);
+        }
+        expect(first.reference).not.toBe(second.reference);
+        expect((await getOpenInvoices(runtime)).map((i) => i.id)).toEqual([
+            first.id,
+            second.id,
+        ]);
+    });
+});
+
+describe("Invoice matching", () => {
+    it("should match exact amounts, then the payer, then the reference", async () => {
+        const { runtime } = createTestRuntime();
+        const invoice = await newInvoice(runtime);
+        const other = await newInvoice(runtime);
+        const base = {
+            token: "AISHOP" as const,
+            to: MERCHANT,
+            timestamp: Date.now(),
+        };
+
+        expect(
+            matchPayment([invoice, other], {
+                ...base,
+                from: OTHER,
+                value: parseUnits(other.amount, 18),
+            })?.id
+        ).toBe(other.id);
+
+        // A partial payment is matched by its reference digits
+        const partialValue =
+            parseUnits("10", 18) +
+            (parseUnits(invoice.amount, 18) % parseUnits("0.01", 18));
+        expect(
+            matchPayment([invoice, other], {
+                ...base,
+                from: PAYER,
+                value: partialValue,
+            })?.id
+        ).toBe(invoice.id);
+
+        // Once the payer is known, amounts from that wallet up to what is
+        // left count
+        const partial = applyPayment(invoice, payment("0xa", PAYER, "10"));
+        expect(
+            matchPayment([partial, other], {
+                ...base,
+                from: PAYER,
+                value: parseUnits("1", 18),
+            })?.id
+        ).toBe(invoice.id);
+        // A larger payment without the reference is another purchase
+        expect(
+            matchPayment([partial], {
+                ...base,
+                from: PAYER,
+                value: parseUnits("40", 18),
+            })
+        ).toBeUndefined();
+        const expired: Invoice = {
+            ...partial,
+            status: "expired",
+            expiresAt: 0,
+        };
+        expect(
+            matchLatePayment([expired], {
+                ...base,
+                from: PAYER,
+                value: parseUnits("40", 18),
+            })
+        ).toBeUndefined();
+
+        // Expired and other-token invoices never match
+        expect(
+            matchPayment([{ ...invoice, expiresAt: 0 }], {
+                ...base,
+                from: OTHER,
+                value: parseUnits(invoice.amount, 18),
+            })
+        ).toBeUndefined();
+        expect(
+            matchPayment([invoice], {
+                ...base,
+                token: "MNT",
+                from: OTHER,
+                value: parseUnits(invoice.amount, 18),
+            })
+        ).toBeUndefined();
+    });
+
+    it("should track partial payments and overpayments", async () => {
+        const { runtime } = createTestRuntime();
+        const invoice = await newInvoice(runtime, { amount: "20" });
+
+        const partial = applyPayment(invoice, payment("0xa", PAYER, "5"));
+        expect(partial).toMatchObject({
+            status: "partially_paid",
+            paid: "5",
+            payer: PAYER,
+        });
+        // Replaying the same transaction changes nothing
+        expect(applyPayment(partial, payment("0xa", PAYER, "5"))).toBe(
+            partial
+        );
+
+        const overpaid = applyPayment(partial, payment("0xb", PAYER, "16"));
+        expect(overpaid.status).toBe("overpaid");
+        expect(overpaid.paid).toBe("21");
+        expect(overpaid.settledAt).toBeDefined();
+    });
+
+    it("should set late payments aside to be returned", async () => {
+        const { runtime } = createTestRuntime();
+        const invoice = await newInvoice(runtime, { amount: "20" });
+        const expired: Invoice = {
+            ...applyPayment(invoice, payment("0xa", PAYER, "5")),
+            status: "expired",
+            expiresAt: Date.now() - 1,
+        };
+        const late = {
+            token: "AISHOP" as const,
+            to: MERCHANT,
+            from: PAYER,
+            value: parseUnits("15", 18),
+            timestamp: Date.now(),
+        };
+
+        expect(matchLatePayment([expired], late)?.id).toBe(invoice.id);
+        // Paid invoices and payments before the expiry are not late
+        expect(
+            matchLatePayment([{ ...expired, status: "paid" }], late)
+        ).toBeUndefined();
+        expect(
+            matchLatePayment([expired], { ...late, timestamp: 0 })
+        ).toBeUndefined();
+
+        const updated = applyLatePayment(expired, payment("0xb", PAYER, "15"));
+        expect(updated).toMatchObject({
+            status: "expired",
+            paid: "5",
+            refundDue: "15",
+        });
+        expect(updated.payments[1]).toMatchObject({ hash: "0xb", late: true });
+        expect(applyLatePayment(updated, payment("0xb", PAYER, "15"))).toBe(
+            updated
+        );
+    });
+});
+
+describe("Invoice watcher", () => {
+    it("should settle invoices from Transfer logs and mark their orders paid", async () => {
+        const { runtime, messages } = createTestRuntime();
+        const order = await createOrder(runtime, {
+            userId: "user-1",
+            roomId: "room-1",
+            items: [],
+            token: "AISHOP",
+            total: "25",
+            merchant: MERCHANT,
+        });
+        await updateOrder(runtime, order.id, { status: "awaiting_payment" });
+        const invoice = await createInvoice(runtime, {
+            userId: "user-1",
+            roomId: "room-1",
+            token: "AISHOP",
+            tokenAddress: AISHOP,
+            decimals: 18,
+            amount: "25",
+            merchant: MERCHANT,
+            orderId: order.id,
+            fromBlock: 100n,
+        });
+
+        const updated = await scanInvoicePayments(
+            runtime,
+            createClient({
+                latest: 105n,
+                logs: [
+                    {
+                        from: PAYER,
+                        value: parseUnits(invoice.amount, 18),
+                        hash: "0xpaid",
+                        block: 103n,
+                    },
+                ],
+            })
+        );
+
+        expect(updated).toBe(1);
+        expect((await getInvoice(runtime, invoice.id))?.status).toBe("paid");
+        expect(await getOpenInvoices(runtime)).toEqual([]);
+        expect(await getOrder(runtime, order.id)).toMatchObject({
+            status: "paid",
+            txHash: "0xpaid",
+        });
+        expect(messages).toHaveLength(1);
+        expect(messages[0].roomId).toBe("room-1");
+        expect(messages[0].content.text).toContain(invoice.id);
+    });
+
+    it("should accumulate native MNT payments and expire unpaid invoices", async () => {
+        const { runtime, messages } = createTestRuntime();
+        const mnt = await newInvoice(runtime, { token: "MNT", amount: "2" });
+        const expired = await newInvoice(runtime, { ttlMs: -1 });
+
+        await scanInvoicePayments(
+            runtime,
+            createClient({
+                latest: 101n,
+                txs: [
+                    {
+                        from: PAYER,
+                        value:
+                            parseUnits("1", 18) +
+                            (parseUnits(mnt.amount, 18) %
+                                parseUnits("0.01", 18)),
+                        hash: "0xmnt",
+                        block: 101n,
+                    },
+                ],
+            })
+        );
+
+        expect(await getInvoice(runtime, mnt.id)).toMatchObject({
+            status: "partially_paid",
+            payer: PAYER,
+        });
+        expect((await getInvoice(runtime, expired.id))?.status).toBe(
+            "expired"
+        );
+        expect((await getOpenInvoices(runtime)).map((i) => i.id)).toEqual([
+            mnt.id,
+        ]);
+        expect(messages.map((m) => m.content.text)).toEqual([
+            expect.stringContaining("expiró"),
+        ]);
+    });
+
+    it("should cancel partly paid orders on expiry and record late payments", async () => {
+        const { runtime, store, messages } = createTestRuntime();
+        const order = await createOrder(runtime, {
+            userId: "user-1",
+            roomId: "room-1",
+            items: [],
+            token: "AISHOP",
+            total: "25",
+            merchant: MERCHANT,
+        });
+        await updateOrder(runtime, order.id, { status: "awaiting_payment" });
+        const invoice = await createInvoice(runtime, {
+            userId: "user-1",
+            roomId: "room-1",
+            token: "AISHOP",
+            tokenAddress: AISHOP,
+            decimals: 18,
+            amount: "25",
+            merchant: MERCHANT,
+            orderId: order.id,
+            fromBlock: 100n,
+        });
+        const partial = {
+            from: PAYER,
+            value:
+                parseUnits("10", 18) +
+                (parseUnits(invoice.amount, 18) % parseUnits("0.01", 18)),
+            hash: "0xpartial",
+            block: 101n,
+        };
+        await scanInvoicePayments(
+            runtime,
+            createClient({ latest: 101n, logs: [partial] })
+        );
+
+        await expire(runtime, invoice.id);
+        await scanInvoicePayments(runtime, createClient({ latest: 102n }));
+
+        const expired = await getInvoice(runtime, invoice.id);
+        expect(expired).toMatchObject({
+            status: "expired",
+            refundDue: expired?.paid,
+        });
+        expect((await getOrder(runtime, order.id))?.status).toBe("cancelled");
+        expect(messages[0].content.text).toContain("te devolverá");
+
+        // A payment after the expiry is kept to be returned
+        const late = {
+            from: PAYER,
+            value: parseUnits("5", 18),
+            hash: "0xlate",
+        };
+        await scanInvoicePayments(
+            runtime,
+            createClient({
+                latest: 103n,
+                logs: [{ ...late, block: 103n }],
+            })
+        );
+        expect(await getInvoice(runtime, invoice.id)).toMatchObject({
+            paid: expired?.paid,
+            refundDue: String(Number(expired?.paid) + 5),
+        });
+        expect(messages[1].content.text).toContain("ya había expirado");
+
+        // Once the late payment window is over the invoice is no longer watched
+        await expire(runtime, invoice.id, LATE_PAYMENT_WINDOW_MS + 1);
+        await scanInvoicePayments(runtime, createClient({ latest: 104n }));
+        expect(store.get("invoice:open")).toEqual([]);
+    });
+});
+
+describe("Invoice watcher writes", () => {
+    it("should keep refunds recorded while it was reading the chain", async () => {
+        const { runtime } = createTestRuntime();
+        const invoice = await newInvoice(runtime);
+        const refund = {
+            amount: "1",
+            to: PAYER,
+            txHash: "0xrefund",
+            sentAt: Date.now(),
+        };
+        const client = createClient({
+            latest: 101n,
+            logs: [
+                {
+                    from: PAYER,
+                    value: parseUnits(invoice.amount, 18),
+                    hash: "0xpaid",
+                    block: 101n,
+                },
+            ],
+        });
+        const getLogs = client.getLogs;
+        // A refund is saved while the watcher waits for the logs
+        client.getLogs = (async (...args: Parameters<typeof getLogs>) => {
+            const current = (await getInvoice(runtime, invoice.id)) as Invoice;
+            await runtime.cacheManager.set(`invoice:${invoice.id}`, {
+                ...current,
+                refunds: [refund],
+            });
+            return getLogs(...args);
+        }) as typeof getLogs;
+
+        await scanInvoicePayments(runtime, client);
+
+        expect(await getInvoice(runtime, invoice.id)).toMatchObject({
+            status: "paid",
+            refunds: [refund],
+        });
+    });
+});
+
+describe("Invoice refunds", () => {
+    it("should return an overpayment from the merchant wallet", async () => {
+        const { runtime, messages } = createTestRuntime();
+        const invoice = await newInvoice(runtime, {
+            token: "MNT",
+            amount: "2",
+        });
+        await scanInvoicePayments(
+            runtime,
+            createClient({
+                latest: 101n,
+                txs: [
+                    {
+                        from: PAYER,
+                        value: parseUnits(invoice.amount, 18) + parseEther("1"),
+                        hash: "0xover",
+                        block: 101n,
+                    },
+                ],
+            })
+        );
+        expect((await getInvoice(runtime, invoice.id))?.refundDue).toBe("1");
+
+        const { merchant, sent } = createMerchant();
+        const refunded = await refundInvoice(runtime, invoice.id, merchant);
+
+        expect(sent).toEqual([
+            expect.objectContaining({ to: PAYER, value: parseEther("1") }),
+        ]);
+        expect(refunded.refund).toMatchObject({
+            amount: "1",
+            to: PAYER,
+            txHash: "0xtx1",
+        });
+        expect(await getInvoice(runtime, invoice.id)).toMatchObject({
+            refundDue: undefined,
+            refunds: [
+                expect.objectContaining({ refundedAt: expect.any(Number) }),
+            ],
+        });
+        expect(messages[messages.length - 1].content.text).toContain(
+            "0xtx1"
+        );
+
+        const again = await refundInvoice(runtime, invoice.id, merchant);
+        expect(again.error).toContain("no tiene nada pendiente");
+        expect(sent).toHaveLength(1);
+    });
+
+    it("should wait for a refund that is still pending", async () => {
+        const { runtime } = createTestRuntime();
+        const invoice = await newInvoice(runtime);
+        await runtime.cacheManager.set(`invoice:${invoice.id}`, {
+            ...invoice,
+            payer: PAYER,
+            refundDue: "3",
+            refunds: [
+                {
+                    amount: "3",
+                    to: PAYER,
+                    txHash: "0xsent",
+                    sentAt: Date.now(),
+                },
+            ],
+        });
+        const { merchant, sent } = createMerchant({ lookup: "pending" });
+
+        const result = await refundInvoice(runtime, invoice.id, merchant);
+
+        expect(result.error).toContain("todavía no se ha confirmado");
+        expect(sent).toHaveLength(0);
+    });
+});
@@ -0,0 +1,182 @@
+import { describe, it, expect } from "@jest/globals";
+import { generatePrivateKey, privateKeyToAccount } from "viem/accounts";
+import {
+    archiveUserWallet,
+    decryptKeystore,
+    encryptPrivateKey,
+    migrateUserWallets,
+    rotateMasterKey,
+    unlockArchivedWallet,
+    unlockUserWallet,
+} from "../../services/keystore";
+import { createTestRuntime } from "./helpers/runtime";
+
+// Runtime with static settings and the participants of the agent's rooms
+function createRuntime(
+    settings: Record<string, string>,
+    rooms: Record<string, string[]> = {}
+) {
+    const { runtime, store } = createTestRuntime({
+        agentId: "agent",
+        settings,
+        databaseAdapter: {
+            getRoomsForParticipant: async () => Object.keys(rooms),
+            getParticipantsForRoom: async (roomId: string) =>
+                rooms[roomId] ?? [],
+        },
+    });
+    return { runtime, store, settings };
+}
+
+describe("Keystore", () => {
+    it("should round-trip a private key through a v3 keystore", async () => {
+        const privateKey = generatePrivateKey();
+        const keystore = await encryptPrivateKey(privateKey, "master");
+
+        expect(keystore.version).toBe(3);
+        expect(keystore.crypto.cipher).toBe("aes-128-ctr");
+        expect(keystore.address).toBe(
+            privateKeyToAccount(privateKey).address.slice(2).toLowerCase()
+        );
+        expect(JSON.stringify(keystore)).not.toContain(privateKey.slice(2));
+        expect(await decryptKeystore(keystore, "master")).toBe(privateKey);
+    });
+
+    it("should reject the wrong master key", async () => {
+        const keystore = await encryptPrivateKey(generatePrivateKey(), "a");
+        await expect(decryptKeystore(keystore, "b")).rejects.toThrow();
+    });
+
+    it("should refuse scrypt parameters above the import limits", async () => {
+        const keystore = await encryptPrivateKey(generatePrivateKey(), "a");
+        const withParams = (params: object) => ({
+            ...keystore,
+            crypto: {
+                ...keystore.crypto,
+                kdfparams: { ...keystore.crypto.kdfparams, ...params },
+            },
+        });
+
+        await expect(
+            decryptKeystore(withParams({ n: 2 ** 30 }), "a")
+        ).rejects.toThrow("Parámetros scrypt no soportados");
+        await expect(
+            decryptKeystore(withParams({ r: 64 }), "a")
+        ).rejects.toThrow("Parámetros scrypt no soportados");
+        await expect(
+            decryptKeystore(withParams({ dklen: 64 }), "a")
+        ).rejects.toThrow("Parámetros scrypt no soportados");
+        await expect(
+            decryptKeystore(keystore, "b", "Respaldo")
+        ).rejects.toThrow("Respaldo");
+    });
+
+    it("should migrate plaintext user wallets", async () => {
+        const { runtime, store } = createRuntime({ WALLET_MASTER_KEY: "k1" });
+        const privateKey = generatePrivateKey();
+        const address = privateKeyToAccount(privateKey).address;
+        store.set(
+            "user_wallet:user-1",
+            JSON.stringify({ address, privateKey, createdAt: 1 })
+        );
+
+        const { migrated } = await migrateUserWallets(runtime, ["user-1"]);
+
+        expect(migrated).toEqual(["user-1"]);
+        expect(store.get("user_wallet:user-1")).not.toContain(
+            privateKey.slice(2)
+        );
+        expect(store.get("user_wallet_index")).toEqual(["user-1"]);
+        expect(await unlockUserWallet(runtime, "user-1")).toBe(privateKey);
+    });
+
+    it("should migrate plaintext wallets missing from the index", async () => {
+        const { runtime, store } = createRuntime(
+            { WALLET_MASTER_KEY: "k1" },
+            { "room-1": ["agent", "user-1"], "room-2": ["agent", "user-2"] }
+        );
+        const privateKey = generatePrivateKey();
+        store.set(
+            "user_wallet:user-2",
+            JSON.stringify({
+                address: privateKeyToAccount(privateKey).address,
+                privateKey,
+                createdAt: 1,
+            })
+        );
+
+        const { migrated, failed } = await migrateUserWallets(runtime);
+
+        expect(migrated).toEqual(["user-2"]);
+        expect(failed).toEqual([]);
+        expect(store.get("user_wallet:user-2")).not.toContain(
+            privateKey.slice(2)
+        );
+        expect(store.get("user_wallet_index")).toEqual(["user-2"]);
+    });
+
+    it("should rotate the master key", async () => {
+        const { runtime, store, settings } = createRuntime({
+            WALLET_MASTER_KEY: "old",
+        });
+        const privateKey = generatePrivateKey();
+        store.set(
+            "user_wallet:user-1",
+            JSON.stringify({
+                address: privateKeyToAccount(privateKey).address,
+                privateKey,
+                createdAt: 1,
+            })
+        );
+        await migrateUserWallets(runtime, ["user-1"]);
+
+        const { rotated, failed } = await rotateMasterKey(
+            runtime,
+            "old",
+            "new"
+        );
+        expect(rotated).toEqual(["user-1"]);
+        expect(failed).toEqual([]);
+
+        settings.WALLET_MASTER_KEY = "new";
+        expect(await unlockUserWallet(runtime, "user-1")).toBe(privateKey);
+
+        // A second run is a no-op once every wallet uses the new key
+        const again = await rotateMasterKey(runtime, "old", "new");
+        expect(again.rotated).toEqual([]);
+        expect(again.failed).toEqual([]);
+    });
+
+    it("should encrypt archived wallets and rotate them", async () => {
+        const { runtime, store, settings } = createRuntime({
+            WALLET_MASTER_KEY: "old",
+        });
+        const privateKey = generatePrivateKey();
+        const address = privateKeyToAccount(privateKey).address;
+        // A wallet that was never migrated
+        store.set(
+            "user_wallet:user-1",
+            JSON.stringify({ address, privateKey, createdAt: 1 })
+        );
+
+        expect(await archiveUserWallet(runtime, "user-1")).toBe(address);
+        const archiveKey = `user_wallet_archive:user-1:${address}`;
+        expect(store.get(archiveKey)).not.toContain(privateKey.slice(2));
+        expect(store.get("user_wallet_archive_index")).toEqual([
+            `user-1:${address}`,
+        ]);
+
+        const { rotated, failed } = await rotateMasterKey(
+            runtime,
+            "old",
+            "new"
+        );
+        expect(rotated).toEqual(["user-1", `user-1:${address}`]);
+        expect(failed).toEqual([]);
+
+        settings.WALLET_MASTER_KEY = "new";
+        expect(await unlockArchivedWallet(runtime, "user-1", address)).toBe(
+            privateKey
+        );
+    });
+});
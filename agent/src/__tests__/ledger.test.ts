@@ -0,0 +1,68 @@
+import { describe, it, expect } from "@jest/globals";
+import {
+    TransactionNotFoundError,
+    TransactionReceiptNotFoundError,
+    type Hash,
+    type PublicClient,
+} from "viem";
+import { getTransactionState } from "../../services/ledger";
+
+const HASH = `0x${"ab".repeat(32)}` as Hash;
+
+// Public client whose receipt and transaction lookups fail with the given
+// errors, or succeed when none is given
+function createClient(errors: { receipt?: Error; transaction?: Error }) {
+    return {
+        getTransactionReceipt: async () => {
+            if (errors.receipt) throw errors.receipt;
+            return { status: "success" };
+        },
+        getTransaction: async () => {
+            if (errors.transaction) throw errors.transaction;
+            return { hash: HASH };
+        },
+    } as unknown as PublicClient;
+}
+
+describe("Ledger", () => {
+    it("should only report a transaction dropped when the node lost it", async () => {
+        const noReceipt = new TransactionReceiptNotFoundError({ hash: HASH });
+
+        expect(await getTransactionState(createClient({}), HASH)).toBe(
+            "mined"
+        );
+        expect(
+            await getTransactionState(
+                createClient({ receipt: noReceipt }),
+                HASH
+            )
+        ).toBe("pending");
+        expect(
+            await getTransactionState(
+                createClient({
+                    receipt: noReceipt,
+                    transaction: new TransactionNotFoundError({ hash: HASH }),
+                }),
+                HASH
+            )
+        ).toBe("dropped");
+    });
+
+    it("should not treat RPC errors as dropped transactions", async () => {
+        const rpcDown = new Error("fetch failed");
+        const noReceipt = new TransactionReceiptNotFoundError({ hash: HASH });
+
+        expect(
+            await getTransactionState(createClient({ receipt: rpcDown }), HASH)
+        ).toBe("unknown");
+        expect(
+            await getTransactionState(
+                createClient({
+                    receipt: noReceipt,
+                    transaction: rpcDown,
+                }),
+                HASH
+            )
+        ).toBe("unknown");
+    });
+});
@@ -0,0 +1,307 @@
+import type { IAgentRuntime } from "@elizaos/core";
+import { describe, it, expect } from "@jest/globals";
+import { parseEther, type Address } from "viem";
+import {
+    canTransition,
+    createOrder,
+    fulfilOrder,
+    getOrder,
+    listOrders,
+    refundOrder,
+    requestRefund,
+    transitionOrder,
+    updateOrder,
+} from "../../services/orders";
+import { createInvoice } from "../../services/invoices";
+import { parseRefundReason } from "../../actions/requestRefund";
+import { createMerchant, MERCHANT } from "./helpers/merchant";
+import { createTestRuntime } from "./helpers/runtime";
+
+const PAYER = "0x2222222222222222222222222222222222222222" as Address;
+
+async function newOrder(
+    runtime: IAgentRuntime,
+    overrides: { userId?: string; token?: "AISHOP" | "MNT" } = {}
+) {
+    return createOrder(runtime, {
+        userId: overrides.userId ?? "user-1",
+        roomId: "room-1",
+        items: [],
+        token: overrides.token ?? "MNT",
+        total: "2",
+        merchant: MERCHANT,
+    });
+}
+
+async function paidOrder(runtime: IAgentRuntime) {
+    const order = await newOrder(runtime);
+    await transitionOrder(runtime, order.id, "awaiting_payment");
+    return (
+        await transitionOrder(runtime, order.id, "paid", {
+            txHash: "0xpaid",
+            payer: PAYER,
+            paidAt: Date.now(),
+        })
+    ).order;
+}
+
+describe("Order lifecycle", () => {
+    it("should only allow transitions of the order lifecycle", async () => {
+        expect(canTransition("created", "awaiting_payment")).toBe(true);
+        expect(canTransition("paid", "fulfilled")).toBe(true);
+        expect(canTransition("fulfilled", "refunded")).toBe(true);
+        expect(canTransition("created", "paid")).toBe(false);
+        expect(canTransition("cancelled", "awaiting_payment")).toBe(false);
+        expect(canTransition("refunded", "refunded")).toBe(false);
+
+        const { runtime } = createTestRuntime();
+        const order = await newOrder(runtime);
+        const skipped = await transitionOrder(runtime, order.id, "fulfilled");
+        expect(skipped.error).toContain("no puede pasar a entregado");
+        expect((await getOrder(runtime, order.id))?.status).toBe("created");
+    });
+
+    it("should list orders by user, status and refund requests", async () => {
+        const { runtime } = createTestRuntime();
+        const first = await newOrder(runtime);
+        const other = await newOrder(runtime, { userId: "user-2" });
+        const paid = await paidOrder(runtime);
+
+        expect(
+            (await listOrders(runtime, { userId: "user-1" })).map((o) => o.id)
+        ).toEqual([paid?.id, first.id]);
+        expect(
+            (await listOrders(runtime, { status: "created" })).map((o) => o.id)
+        ).toEqual([other.id, first.id]);
+
+        await requestRefund(runtime, paid?.id as string);
+        expect(
+            (await listOrders(runtime, { refundRequested: true })).map(
+                (o) => o.id
+            )
+        ).toEqual([paid?.id]);
+    });
+
+    it("should notify the room when an order is fulfilled", async () => {
+        const { runtime, messages } = createTestRuntime();
+        const order = await paidOrder(runtime);
+
+        const fulfilled = await fulfilOrder(runtime, order?.id as string);
+        expect(fulfilled.order).toMatchObject({ status: "fulfilled" });
+        expect(fulfilled.order?.fulfilledAt).toBeDefined();
+        expect(messages).toHaveLength(1);
+        expect(messages[0].roomId).toBe("room-1");
+    });
+
+    it("should index every order created at the same time", async () => {
+        const { runtime } = createTestRuntime();
+        const orders = await Promise.all(
+            ["user-1", "user-2", "user-3"].map((userId) =>
+                newOrder(runtime, { userId })
+            )
+        );
+
+        expect(
+            (await listOrders(runtime)).map((order) => order.id).sort()
+        ).toEqual(orders.map((order) => order.id).sort());
+    });
+});
+
+describe("Refunds", () => {
+    it("should parse the refund reason", () => {
+        expect(
+            parseRefundReason(
+                "Reembolso del pedido ORD-K7QX2MAB porque llegó roto"
+            )
+        ).toBe("llegó roto");
+        expect(parseRefundReason("cancel order ORD-K7QX2MAB")).toBeUndefined();
+    });
+
+    it("should cancel unpaid orders and record requests for paid ones", async () => {
+        const { runtime } = createTestRuntime();
+        const unpaid = await newOrder(runtime);
+        const cancelled = await requestRefund(runtime, unpaid.id);
+        expect(cancelled).toMatchObject({
+            cancelled: true,
+            order: { status: "cancelled" },
+        });
+
+        const paid = await paidOrder(runtime);
+        const requested = await requestRefund(
+            runtime,
+            paid?.id as string,
+            "talla incorrecta"
+        );
+        expect(requested.cancelled).toBe(false);
+        expect(requested.order?.status).toBe("paid");
+        expect(requested.order?.refundRequest?.reason).toBe(
+            "talla incorrecta"
+        );
+        expect(
+            (await requestRefund(runtime, paid?.id as string)).error
+        ).toContain("Ya solicitaste");
+    });
+
+    it("should send the payment back from the merchant wallet", async () => {
+        const { runtime, messages, ledger } = createTestRuntime();
+        const { merchant, sent } = createMerchant();
+        const order = await paidOrder(runtime);
+
+        const refunded = await refundOrder(
+            runtime,
+            order?.id as string,
+            "llegó roto",
+            merchant
+        );
+
+        expect(sent).toEqual([
+            expect.objectContaining({ to: PAYER, value: parseEther("2") }),
+        ]);
+        expect(refunded.order).toMatchObject({
+            status: "refunded",
+            refund: {
+                amount: "2",
+                to: PAYER,
+                txHash: "0xtx1",
+                reason: "llegó roto",
+            },
+        });
+        expect(ledger).toEqual([
+            expect.objectContaining({
+                action: "REFUND",
+                from: MERCHANT,
+                to: PAYER,
+                hash: "0xtx1",
+            }),
+        ]);
+        expect(messages[0].content.text).toContain("0xtx1");
+
+        // A refunded order cannot be refunded again
+        const again = await refundOrder(
+            runtime,
+            order?.id as string,
+            undefined,
+            merchant
+        );
+        expect(again.error).toContain("no se puede reembolsar");
+        expect(sent).toHaveLength(1);
+    });
+
+    it("should refund the full invoice amount of orders paid by invoice", async () => {
+        const { runtime } = createTestRuntime();
+        const { merchant, sent } = createMerchant();
+        const order = await newOrder(runtime);
+        const invoice = await createInvoice(runtime, {
+            userId: "user-1",
+            roomId: "room-1",
+            token: "MNT",
+            decimals: 18,
+            amount: order.total,
+            merchant: MERCHANT,
+            orderId: order.id,
+            fromBlock: 100n,
+        });
+        await transitionOrder(runtime, order.id, "awaiting_payment", {
+            invoiceId: invoice.id,
+        });
+        await transitionOrder(runtime, order.id, "paid", { payer: PAYER });
+
+        const refunded = await refundOrder(
+            runtime,
+            order.id,
+            undefined,
+            merchant
+        );
+
+        // The reference decimals were charged too
+        expect(refunded.order?.refund?.amount).toBe(invoice.amount);
+        expect(sent).toEqual([
+            expect.objectContaining({
+                to: PAYER,
+                value: parseEther(invoice.amount),
+            }),
+        ]);
+    });
+
+    it("should keep the order paid when the refund fails or cannot be sent", async () => {
+        const { runtime } = createTestRuntime();
+        const order = await paidOrder(runtime);
+        const id = order?.id as string;
+
+        const failed = await refundOrder(
+            runtime,
+            id,
+            undefined,
+            createMerchant({ receiptStatus: "reverted" }).merchant
+        );
+        expect(failed.error).toContain("falló");
+        expect((await getOrder(runtime, id))?.status).toBe("paid");
+
+        await updateOrder(runtime, id, { refund: undefined, payer: undefined });
+        const unknownPayer = await refundOrder(
+            runtime,
+            id,
+            undefined,
+            createMerchant().merchant
+        );
+        expect(unknownPayer.error).toContain("No se conoce la wallet");
+    });
+
+    it("should only send a lost refund again once the node dropped it", async () => {
+        const { runtime } = createTestRuntime();
+        const order = await paidOrder(runtime);
+        const id = order?.id as string;
+        const lost = {
+            amount: "2",
+            to: PAYER,
+            txHash: "0xlost",
+            sentAt: Date.now(),
+        };
+        await updateOrder(runtime, id, { refund: lost });
+
+        const pending = createMerchant({ lookup: "pending" });
+        const waiting = await refundOrder(
+            runtime,
+            id,
+            undefined,
+            pending.merchant
+        );
+        expect(waiting.error).toContain("todavía no se ha confirmado");
+
+        // A recently sent refund may still reach the node
+        const dropped = createMerchant({ lookup: "dropped" });
+        const recent = await refundOrder(
+            runtime,
+            id,
+            undefined,
+            dropped.merchant
+        );
+        expect(recent.error).toContain("todavía no se ha confirmado");
+        expect(dropped.sent).toHaveLength(0);
+
+        await updateOrder(runtime, id, {
+            refund: { ...lost, sentAt: Date.now() - 60 * 60 * 1000 },
+        });
+        const stillPending = await refundOrder(
+            runtime,
+            id,
+            undefined,
+            pending.merchant
+        );
+        expect(stillPending.error).toContain("todavía no se ha confirmado");
+        expect(pending.sent).toHaveLength(0);
+
+        const resent = await refundOrder(
+            runtime,
+            id,
+            undefined,
+            dropped.merchant
+        );
+        expect(dropped.sent).toHaveLength(1);
+        expect(resent.order).toMatchObject({
+            status: "refunded",
+            refund: { txHash: "0xtx1" },
+        });
+    });
+
+});
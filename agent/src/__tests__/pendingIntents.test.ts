@@ -0,0 +1,177 @@
+import type { IAgentRuntime } from "@elizaos/core";
+import { describe, it, expect } from "@jest/globals";
+import {
+    cancelPendingIntent,
+    claimPendingIntent,
+    completePendingIntent,
+    createPendingIntent,
+    parseIntentReply,
+    pruneExpiredIntents,
+    recordIntentTransaction,
+} from "../../services/pendingIntents";
+import { createTestRuntime } from "./helpers/runtime";
+
+const quote = {
+    recipient: "0x1234567890abcdef1234567890abcdef12345678",
+    amount: "0.1",
+    symbol: "MNT",
+    estimatedGas: "21000",
+    estimatedFee: "0.00042",
+};
+
+function newIntent(runtime: IAgentRuntime, ttlMs?: number) {
+    return createPendingIntent(
+        runtime,
+        {
+            userId: "user-1",
+            roomId: "room-1",
+            action: "TRANSFER_MNT",
+            params: { to: quote.recipient, amount: quote.amount },
+            quote,
+        },
+        ttlMs
+    );
+}
+
+describe("Pending intents", () => {
+    it("should parse confirm and cancel replies", () => {
+        expect(parseIntentReply("confirmar k7qx2m")).toEqual({
+            code: "K7QX2M",
+            confirmed: true,
+        });
+        expect(parseIntentReply("Cancel K7QX2M")).toEqual({
+            code: "K7QX2M",
+            confirmed: false,
+        });
+        expect(parseIntentReply("confirmar")).toBeNull();
+        // Six-letter words are not codes: they need a digit from the alphabet
+        expect(parseIntentReply("confirmar pedido")).toBeNull();
+        expect(parseIntentReply("cancel policy")).toBeNull();
+        expect(parseIntentReply("confirmar K0QX2M")).toBeNull();
+    });
+
+    it("should generate codes that the reply parser accepts", async () => {
+        const { runtime } = createTestRuntime();
+        for (let i = 0; i < 20; i++) {
+            const intent = await newIntent(runtime);
+            expect(parseIntentReply(`confirmar ${intent.code}`)?.code).toBe(
+                intent.code
+            );
+        }
+    });
+
+    it("should only be claimed once by the same user and room", async () => {
+        const { runtime } = createTestRuntime();
+        const intent = await newIntent(runtime);
+
+        const otherRoom = await claimPendingIntent(
+            runtime,
+            "user-1",
+            "room-2",
+            intent.code
+        );
+        expect(otherRoom.intent).toBeUndefined();
+
+        const otherUser = await claimPendingIntent(
+            runtime,
+            "user-2",
+            "room-1",
+            intent.code
+        );
+        expect(otherUser.intent).toBeUndefined();
+
+        const claimed = await claimPendingIntent(
+            runtime,
+            "user-1",
+            "room-1",
+            intent.code.toLowerCase()
+        );
+        expect(claimed.intent?.status).toBe("executing");
+
+        // A replayed confirmation, e.g. after a restart, is rejected
+        const replay = await claimPendingIntent(
+            runtime,
+            "user-1",
+            "room-1",
+            intent.code
+        );
+        expect(replay.intent).toBeUndefined();
+
+        const done = await completePendingIntent(runtime, claimed.intent!, {
+            success: true,
+            txHash: "0xabc",
+        });
+        expect(done.status).toBe("executed");
+    });
+
+    it("should keep the sent transaction when the executor throws", async () => {
+        const { runtime } = createTestRuntime();
+        const intent = await newIntent(runtime);
+        const { intent: claimed } = await claimPendingIntent(
+            runtime,
+            "user-1",
+            "room-1",
+            intent.code
+        );
+
+        await recordIntentTransaction(runtime, claimed!, "0xabc");
+        // The receipt wait timed out, so the result has no hash
+        const failed = await completePendingIntent(runtime, claimed!, {
+            success: false,
+            error: "Timed out while waiting for transaction",
+        });
+
+        expect(failed.status).toBe("failed");
+        expect(failed.txHash).toBe("0xabc");
+        expect(failed.sentAt).toBeDefined();
+    });
+
+    it("should reject expired and cancelled intents", async () => {
+        const { runtime } = createTestRuntime();
+        const expired = await newIntent(runtime, -1);
+        const result = await claimPendingIntent(
+            runtime,
+            "user-1",
+            "room-1",
+            expired.code
+        );
+        expect(result.error).toContain("expiró");
+        // Left for the sweeper, which releases what it was holding
+        expect(
+            (await pruneExpiredIntents(runtime)).map((intent) => intent.code)
+        ).toEqual([expired.code]);
+
+        const intent = await newIntent(runtime);
+        expect(
+            await cancelPendingIntent(runtime, "user-1", "room-1", intent.code)
+        ).toBe(true);
+        const afterCancel = await claimPendingIntent(
+            runtime,
+            "user-1",
+            "room-1",
+            intent.code
+        );
+        expect(afterCancel.intent).toBeUndefined();
+    });
+
+    it("should prune expired intents from the cache", async () => {
+        const { runtime, store } = createTestRuntime();
+        const expired = await newIntent(runtime, -1);
+        const active = await newIntent(runtime);
+        const executing = await newIntent(runtime, -1);
+        store.set(`pending_intent:user-1:${executing.code}`, {
+            ...executing,
+            status: "executing",
+        });
+
+        const pruned = await pruneExpiredIntents(runtime);
+
+        expect(pruned.map((intent) => intent.code)).toEqual([expired.code]);
+        expect(store.has(`pending_intent:user-1:${expired.code}`)).toBe(false);
+        expect(store.has(`pending_intent:user-1:${active.code}`)).toBe(true);
+        expect(store.get("pending_intent_index")).toEqual([
+            `pending_intent:user-1:${active.code}`,
+            `pending_intent:user-1:${executing.code}`,
+        ]);
+    });
+});
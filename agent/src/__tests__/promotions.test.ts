@@ -0,0 +1,354 @@
+import type { IAgentRuntime, PromotionSettings } from "@elizaos/core";
+import { describe, it, expect } from "@jest/globals";
+import { parseUnits, type Address } from "viem";
+import {
+    applyCartCoupon,
+    calculateCashback,
+    creditCashback,
+    evaluateCoupon,
+    getAvailableCoupons,
+    getCashbackHistory,
+    recordCouponRedemption,
+} from "../../services/promotions";
+import {
+    createOrder,
+    refundOrder,
+    transitionOrder,
+    type Order,
+} from "../../services/orders";
+import { parseCouponCode } from "../../actions/applyCoupon";
+import type { WalletProvider } from "../../providers/wallet";
+import { createMerchant, MERCHANT } from "./helpers/merchant";
+import { createTestRuntime } from "./helpers/runtime";
+
+const PAYER = "0x2222222222222222222222222222222222222222" as Address;
+const AISHOP = "0x4444444444444444444444444444444444444444" as Address;
+
+const PROMOTIONS: PromotionSettings = {
+    coupons: [
+        { code: "VERANO10", type: "percentage", value: "10" },
+        {
+            code: "WELCOME5",
+            type: "fixed",
+            value: "5",
+            token: "AISHOP",
+            minTotal: "20",
+            maxUsesPerUser: 1,
+        },
+        { code: "UNICO", type: "percentage", value: "50", maxUses: 1 },
+        {
+            code: "VIEJO",
+            type: "percentage",
+            value: "10",
+            expiresAt: "2020-01-01T00:00:00Z",
+        },
+    ],
+    loyalty: { enabled: true, cashbackPercent: "2", maxCashbackPerOrder: "1" },
+};
+
+// Runtime with the AISHOP token in the registry and the character's
+// promotions
+function createRuntime(promotions: PromotionSettings = PROMOTIONS) {
+    return createTestRuntime({
+        character: { settings: { promotions } },
+        service: {
+            getToken: (chainId: number, symbol: string) =>
+                symbol === "AISHOP"
+                    ? {
+                          chainId,
+                          address: AISHOP,
+                          symbol: "AISHOP",
+                          name: "AI Shop",
+                          decimals: 18,
+                      }
+                    : undefined,
+        },
+    });
+}
+
+async function paidOrder(
+    runtime: IAgentRuntime,
+    overrides: Partial<Pick<Order, "token" | "total" | "coupon">> = {}
+) {
+    const order = await createOrder(runtime, {
+        userId: "user-1",
+        roomId: "room-1",
+        items: [],
+        token: overrides.token ?? "AISHOP",
+        total: overrides.total ?? "30",
+        merchant: MERCHANT,
+        coupon: overrides.coupon,
+    });
+    await transitionOrder(runtime, order.id, "awaiting_payment");
+    return (
+        await transitionOrder(runtime, order.id, "paid", {
+            payer: PAYER,
+            paidAt: Date.now(),
+        })
+    ).order as Order;
+}
+
+describe("Coupons", () => {
+    it("should parse configured and unknown coupon codes", () => {
+        const codes = ["VERANO10", "WELCOME5"];
+        expect(parseCouponCode("aplica verano10 porfa", codes)).toBe(
+            "VERANO10"
+        );
+        expect(parseCouponCode("usa el cupón NAVIDAD", codes)).toBe(
+            "NAVIDAD"
+        );
+        expect(parseCouponCode("quiero un cupón", codes)).toBeUndefined();
+    });
+
+    it("should compute percentage and fixed discounts", async () => {
+        const { runtime } = createRuntime();
+        expect(
+            await evaluateCoupon(runtime, "verano10", "user-1", "MNT", "12.5")
+        ).toMatchObject({ discount: "1.25" });
+        expect(
+            await evaluateCoupon(runtime, "WELCOME5", "user-1", "AISHOP", "30")
+        ).toMatchObject({ discount: "5" });
+    });
+
+    it("should refuse expired, unknown and inapplicable coupons", async () => {
+        const { runtime } = createRuntime();
+        const check = (code: string, token: string, total: string) =>
+            evaluateCoupon(runtime, code, "user-1", token, total);
+
+        expect((await check("VIEJO", "AISHOP", "30")).error).toContain(
+            "expiró"
+        );
+        expect((await check("NAVIDAD", "AISHOP", "30")).error).toContain(
+            "no existe"
+        );
+        expect((await check("WELCOME5", "MNT", "30")).error).toContain(
+            "solo se aplica a pagos en AISHOP"
+        );
+        expect((await check("WELCOME5", "AISHOP", "10")).error).toContain(
+            "compra mínima de 20"
+        );
+    });
+
+    it("should enforce global and per-user usage limits on paid orders", async () => {
+        const { runtime } = createRuntime();
+        const order = await paidOrder(runtime, {
+            coupon: { code: "WELCOME5", discount: "5" },
+        });
+        await recordCouponRedemption(runtime, order);
+        // Counting the same order again changes nothing
+        await recordCouponRedemption(runtime, order);
+
+        expect(
+            (
+                await evaluateCoupon(
+                    runtime,
+                    "WELCOME5",
+                    "user-1",
+                    "AISHOP",
+                    "30"
+                )
+            ).error
+        ).toContain("máximo de veces");
+        expect(
+            await evaluateCoupon(runtime, "WELCOME5", "user-2", "AISHOP", "30")
+        ).toMatchObject({ discount: "5" });
+
+        const single = await paidOrder(runtime, {
+            coupon: { code: "UNICO", discount: "15" },
+        });
+        await recordCouponRedemption(runtime, single);
+        expect(
+            (await evaluateCoupon(runtime, "UNICO", "user-2", "AISHOP", "30"))
+                .error
+        ).toContain("agotó");
+
+        expect(
+            (await getAvailableCoupons(runtime, "user-1")).map((c) => c.code)
+        ).toEqual(["VERANO10"]);
+        expect(
+            (await getAvailableCoupons(runtime, "user-2")).map((c) => [
+                c.code,
+                c.remainingUses,
+            ])
+        ).toEqual([
+            ["VERANO10", undefined],
+            ["WELCOME5", 1],
+        ]);
+    });
+
+    it("should reserve a use for each pending order and free it on cancel", async () => {
+        const { runtime } = createRuntime();
+        const data = {
+            userId: "user-1",
+            roomId: "room-1",
+            items: [],
+            token: "AISHOP" as const,
+            total: "25",
+            merchant: MERCHANT,
+            coupon: { code: "WELCOME5", discount: "5" },
+        };
+        const first = await createOrder(runtime, data);
+
+        // Both carts were quoted with the coupon, only one order can use it
+        await expect(createOrder(runtime, data)).rejects.toThrow(
+            "máximo de veces"
+        );
+        expect(
+            (
+                await evaluateCoupon(
+                    runtime,
+                    "WELCOME5",
+                    "user-1",
+                    "AISHOP",
+                    "30"
+                )
+            ).error
+        ).toContain("máximo de veces");
+
+        await transitionOrder(runtime, first.id, "cancelled");
+        expect(
+            await evaluateCoupon(runtime, "WELCOME5", "user-1", "AISHOP", "30")
+        ).toMatchObject({ discount: "5" });
+        const second = await createOrder(runtime, data);
+        expect(second.coupon?.code).toBe("WELCOME5");
+    });
+
+    it("should discount the cart total with the applied coupon", async () => {
+        const { runtime } = createRuntime();
+        const quote = { token: "AISHOP" as const, lines: [], total: "30" };
+        const cart = {
+            userId: "user-1",
+            roomId: "room-1",
+            items: [],
+            updatedAt: Date.now(),
+        };
+
+        expect(await applyCartCoupon(runtime, cart, quote)).toEqual({
+            quote,
+        });
+        const withCoupon = (coupon: string) =>
+            applyCartCoupon(runtime, { ...cart, coupon }, quote);
+        expect((await withCoupon("VERANO10")).quote).toMatchObject({
+            subtotal: "30",
+            total: "27",
+            coupon: { code: "VERANO10", discount: "3" },
+        });
+        expect((await withCoupon("VIEJO")).error).toContain("quitar cupón");
+    });
+});
+
+describe("Loyalty cashback", () => {
+    it("should pay a capped percentage of AISHOP orders only", () => {
+        const loyalty = PROMOTIONS.loyalty ?? {};
+        expect(
+            calculateCashback(loyalty, { token: "AISHOP", total: "30" })
+        ).toBe("0.6");
+        expect(
+            calculateCashback(loyalty, { token: "AISHOP", total: "100" })
+        ).toBe("1");
+        expect(calculateCashback(loyalty, { token: "MNT", total: "30" })).toBe(
+            null
+        );
+    });
+
+    it("should send the cashback from the merchant wallet once per order", async () => {
+        const { runtime, messages, ledger } = createRuntime();
+        const { merchant, transfers } = createMerchant();
+        const order = await paidOrder(runtime);
+
+        const record = await creditCashback(runtime, order, merchant);
+        expect(record).toMatchObject({
+            orderId: order.id,
+            amount: "0.6",
+            to: PAYER,
+            status: "sent",
+            txHash: "0xtx1",
+        });
+        expect(transfers).toEqual([
+            { to: PAYER, amount: parseUnits("0.6", 18) },
+        ]);
+        expect(ledger).toEqual([
+            expect.objectContaining({ action: "CASHBACK", from: MERCHANT }),
+        ]);
+        expect(messages[0].content.text).toContain("0.6 AISHOP");
+
+        expect(await creditCashback(runtime, order, merchant)).toBeNull();
+        expect(transfers).toHaveLength(1);
+    });
+
+    it("should record failed cashback and skip disabled programs", async () => {
+        const { runtime } = createRuntime();
+        const order = await paidOrder(runtime);
+
+        const failed = await creditCashback(
+            runtime,
+            order,
+            createMerchant({ receiptStatus: "reverted" }).merchant
+        );
+        expect(failed?.status).toBe("failed");
+        expect(
+            (await getCashbackHistory(runtime, "user-1")).map((e) => e.status)
+        ).toEqual(["failed"]);
+
+        const disabled = createRuntime({ coupons: [] }).runtime;
+        const other = await paidOrder(disabled);
+        expect(
+            await creditCashback(disabled, other, createMerchant().merchant)
+        ).toBeNull();
+    });
+
+    it("should retry failed cashback without paying it twice", async () => {
+        const { runtime, messages } = createRuntime();
+        const order = await paidOrder(runtime);
+        await creditCashback(
+            runtime,
+            order,
+            createMerchant({ receiptStatus: "reverted" }).merchant
+        );
+
+        // The reverted transfer is sent again
+        const retry = createMerchant({ minedStatus: "reverted" });
+        const sent = await creditCashback(runtime, order, retry.merchant);
+        expect(sent?.status).toBe("sent");
+        expect(retry.transfers).toHaveLength(1);
+        expect(messages).toHaveLength(1);
+
+        // A transfer that failed to confirm but was mined is not sent again
+        const other = await paidOrder(runtime);
+        const timeout = createMerchant();
+        timeout.merchant.getPublicClient = () =>
+            ({
+                waitForTransactionReceipt: async () => {
+                    throw new Error("Timed out while waiting for transaction");
+                },
+            }) as unknown as ReturnType<WalletProvider["getPublicClient"]>;
+        expect(
+            (await creditCashback(runtime, other, timeout.merchant))?.status
+        ).toBe("failed");
+
+        const mined = createMerchant();
+        expect(
+            await creditCashback(runtime, other, mined.merchant)
+        ).toMatchObject({ status: "sent", txHash: "0xtx1", error: undefined });
+        expect(mined.transfers).toHaveLength(0);
+    });
+
+    it("should deduct the cashback already sent from a refund", async () => {
+        const { runtime } = createRuntime();
+        const { merchant, transfers } = createMerchant();
+        const order = await paidOrder(runtime);
+        await creditCashback(runtime, order, merchant);
+
+        const refunded = await refundOrder(
+            runtime,
+            order.id,
+            undefined,
+            merchant
+        );
+        expect(refunded.order?.refund?.amount).toBe("29.4");
+        expect(transfers[1]).toEqual({
+            to: PAYER,
+            amount: parseUnits("29.4", 18),
+        });
+    });
+});
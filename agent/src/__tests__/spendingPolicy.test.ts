@@ -0,0 +1,89 @@
+import type { IAgentRuntime, SpendingPolicySettings } from "@elizaos/core";
+import { describe, it, expect } from "@jest/globals";
+import { SpendingPolicyService } from "../../services/spendingPolicy";
+
+const RECIPIENT = "0x1234567890abcdef1234567890abcdef12345678";
+
+// Minimal runtime with an in-memory cache and a character spending policy
+async function createService(spendingPolicy: SpendingPolicySettings) {
+    const store = new Map<string, unknown>();
+    const runtime = {
+        character: { settings: { spendingPolicy } },
+        cacheManager: {
+            get: async (key: string) => store.get(key),
+            set: async (key: string, value: unknown) => {
+                store.set(key, value);
+            },
+            delete: async (key: string) => {
+                store.delete(key);
+            },
+        },
+    } as unknown as IAgentRuntime;
+    const service = new SpendingPolicyService();
+    await service.initialize(runtime);
+    return service;
+}
+
+function request(amount: string, token = "MNT", recipient = RECIPIENT) {
+    return {
+        userId: "user-1",
+        action: "TRANSFER_MNT",
+        token,
+        amount,
+        decimals: 18,
+        recipient,
+    };
+}
+
+describe("SpendingPolicyService", () => {
+    it("should allow everything without a policy", async () => {
+        const service = await createService({});
+        expect(await service.checkSpending(request("1000"))).toEqual({
+            allowed: true,
+        });
+    });
+
+    it("should enforce per-transaction and per-token caps", async () => {
+        const service = await createService({
+            default: { maxPerTransaction: "1" },
+            tokens: { AISHOP: { maxPerTransaction: "100" } },
+        });
+        expect((await service.checkSpending(request("1.5"))).allowed).toBe(
+            false
+        );
+        expect(
+            (await service.checkSpending(request("50", "AISHOP"))).allowed
+        ).toBe(true);
+    });
+
+    it("should enforce rolling 24h limits", async () => {
+        const service = await createService({
+            tokens: { MNT: { maxPerDay: "1" } },
+            maxTransactionsPerDay: 3,
+        });
+        await service.recordSpending(request("0.6"));
+        const decision = await service.checkSpending(request("0.5"));
+        expect(decision.allowed).toBe(false);
+        expect(decision.reason).toContain("0.4");
+
+        await service.recordSpending(request("0.1"));
+        await service.recordSpending(request("0.1"));
+        expect((await service.checkSpending(request("0.1"))).reason).toContain(
+            "3 operaciones"
+        );
+    });
+
+    it("should apply recipient allow and deny lists", async () => {
+        const other = "0x000000000000000000000000000000000000dEaD";
+        const denied = await createService({ denylist: [other.toLowerCase()] });
+        expect(
+            (await denied.checkSpending(request("1", "MNT", other))).allowed
+        ).toBe(false);
+
+        const allowed = await createService({ allowlist: [RECIPIENT] });
+        expect((await allowed.checkSpending(request("1"))).allowed).toBe(true);
+        expect(
+            (await allowed.checkSpending(request("1", "MNT", other))).allowed
+        ).toBe(false);
+    });
+});
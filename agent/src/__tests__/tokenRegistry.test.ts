@@ -0,0 +1,165 @@
+import type { IAgentRuntime, TokenList } from "@elizaos/core";
+import { describe, it, expect } from "@jest/globals";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import type { PublicClient } from "viem";
+import { TokenRegistryService } from "../../services/tokenRegistry";
+
+const AISHOP = "0x0E02649Db4d1Aa8c202aA44EA99e3606d12a21b1";
+const USDC = "0x09Bc4E0D864854c6aFB6eB9A9cdF58aC190D0dF9";
+
+function tokenList(tokens: TokenList["tokens"]): TokenList {
+    return {
+        name: "Test",
+        timestamp: "2025-03-01T00:00:00.000Z",
+        version: { major: 1, minor: 0, patch: 0 },
+        tokens,
+    };
+}
+
+// Client that answers decimals() from a map of lowercase addresses
+function decimalsClient(decimals: Record<string, number>) {
+    return {
+        readContract: async ({ address }: { address: string }) => {
+            const value = decimals[address.toLowerCase()];
+            if (value === undefined) throw new Error("execution reverted");
+            return value;
+        },
+    } as unknown as PublicClient;
+}
+
+function runtimeWithSettings(settings: Record<string, string> = {}) {
+    return {
+        getSetting: (key: string) => settings[key] ?? null,
+    } as unknown as IAgentRuntime;
+}
+
+describe("TokenRegistryService", () => {
+    it("should resolve tokens per chain by symbol and address", () => {
+        const registry = new TokenRegistryService();
+        registry.addTokenList(
+            tokenList([
+                {
+                    chainId: 5003,
+                    address: AISHOP.toLowerCase(),
+                    symbol: "AISHOP",
+                    name: "AI Shop Agent",
+                    decimals: 18,
+                },
+                {
+                    chainId: 5000,
+                    address: USDC,
+                    symbol: "USDC",
+                    name: "USD Coin",
+                    decimals: 6,
+                },
+            ])
+        );
+
+        expect(registry.getToken(5003, "aishop")?.address).toBe(AISHOP);
+        expect(registry.getToken(5000, "AISHOP")).toBeUndefined();
+        expect(registry.getTokenByAddress(5000, USDC.toLowerCase())?.symbol).toBe(
+            "USDC"
+        );
+        expect(registry.getTokens(5003)).toHaveLength(1);
+        expect(registry.getTokens(1)).toEqual([]);
+    });
+
+    it("should load token lists from a directory", async () => {
+        const dir = fs.mkdtempSync(path.join(os.tmpdir(), "tokenlists-"));
+        fs.writeFileSync(
+            path.join(dir, "sepolia.tokenlist.json"),
+            JSON.stringify(
+                tokenList([
+                    {
+                        chainId: 5003,
+                        address: AISHOP,
+                        symbol: "AISHOP",
+                        name: "AI Shop Agent",
+                        decimals: 18,
+                    },
+                ])
+            )
+        );
+        fs.writeFileSync(path.join(dir, "README.md"), "not a list");
+
+        const registry = new TokenRegistryService([dir]);
+        await registry.initialize(
+            runtimeWithSettings({ TOKEN_LISTS_SKIP_VALIDATION: "true" })
+        );
+        expect(registry.getToken(5003, "AISHOP")?.decimals).toBe(18);
+
+        fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    it("should reject malformed token lists", () => {
+        const dir = fs.mkdtempSync(path.join(os.tmpdir(), "tokenlists-"));
+        const file = path.join(dir, "bad.json");
+        fs.writeFileSync(
+            file,
+            JSON.stringify(
+                tokenList([
+                    {
+                        chainId: 5003,
+                        address: "0x1234",
+                        symbol: "BAD",
+                        name: "Bad",
+                        decimals: 18,
+                    },
+                ])
+            )
+        );
+
+        expect(() => new TokenRegistryService().loadFromPath(file)).toThrow(
+            /Token inválido/
+        );
+        fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    it("should replace listed decimals with the on-chain value", async () => {
+        const registry = new TokenRegistryService([], () =>
+            decimalsClient({ [USDC.toLowerCase()]: 6 })
+        );
+        registry.addTokenList(
+            tokenList([
+                {
+                    chainId: 5000,
+                    address: "0x0000000000000000000000000000000000000000",
+                    symbol: "MNT",
+                    name: "Mantle",
+                    decimals: 18,
+                },
+                {
+                    chainId: 5000,
+                    address: USDC,
+                    symbol: "USDC",
+                    name: "USD Coin",
+                    decimals: 18,
+                },
+                {
+                    chainId: 5000,
+                    address: AISHOP,
+                    symbol: "AISHOP",
+                    name: "AI Shop Agent",
+                    decimals: 18,
+                },
+            ])
+        );
+
+        const mismatches = await registry.validateDecimals();
+
+        expect(mismatches).toEqual([
+            {
+                chainId: 5000,
+                symbol: "USDC",
+                address: USDC,
+                listed: 18,
+                onChain: 6,
+            },
+        ]);
+        expect(registry.getToken(5000, "USDC")?.decimals).toBe(6);
+        // Unreachable contracts keep the listed value
+        expect(registry.getToken(5000, "AISHOP")?.decimals).toBe(18);
+    });
+});
@@ -0,0 +1,405 @@
+import {
+    AgentRuntime,
+    ModelProviderName,
+    stringToUuid,
+    type Character,
+    type Content,
+    type ICacheManager,
+    type IDatabaseAdapter,
+    type LedgerEntry,
+    type Memory,
+    type UUID,
+} from "@elizaos/core";
+import { describe, it, expect, beforeAll, afterAll } from "@jest/globals";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import {
+    createPublicClient,
+    createWalletClient,
+    erc20Abi,
+    formatEther,
+    formatUnits,
+    http,
+    parseAbi,
+    parseEther,
+    parseUnits,
+    type Address,
+    type PublicClient,
+} from "viem";
+import { generatePrivateKey, privateKeyToAccount } from "viem/accounts";
+import {
+    DEVNET_AGENT_KEY,
+    DEVNET_FUNDED_KEY,
+    findDevnetNode,
+    startDevnet,
+    type Devnet,
+} from "./devnet/devnet";
+import testToken from "./devnet/TestToken.json";
+
+// Prueba de punta a punta de las acciones de wallet contra un nodo local
+// (anvil o ganache). Sin ninguno instalado la suite se omite.
+const devnetNode = findDevnetNode();
+const describeDevnet = devnetNode ? describe : describe.skip;
+
+const MANTLE_SEPOLIA_CHAIN_ID = 5003;
+// Destinatario sin fondos para comparar balances exactos
+const RECIPIENT = privateKeyToAccount(generatePrivateKey()).address;
+const TIMEOUT_MS = 120 * 1000;
+
+const testTokenConstructorAbi = parseAbi([
+    "constructor(string name_, string symbol_, uint256 supply)",
+]);
+
+// Adaptador en memoria con lo que usan las acciones de wallet
+function createDatabaseAdapter() {
+    const memories = new Map<string, Memory>();
+    const ledger: LedgerEntry[] = [];
+    const adapter = {
+        getMemoryById: async (id: string) => memories.get(id) ?? null,
+        createMemory: async (memory: Memory) => {
+            memories.set(memory.id as string, memory);
+        },
+        removeMemory: async (id: string) => {
+            memories.delete(id);
+        },
+        createLedgerEntry: async (entry: LedgerEntry) => {
+            ledger.push({ ...entry, id: stringToUuid(entry.hash) });
+            return true;
+        },
+        getLedgerEntries: async ({ userId }: { userId?: string }) =>
+            ledger.filter((entry) => !userId || entry.userId === userId),
+        updateLedgerEntryStatus: async () => {},
+    } as unknown as IDatabaseAdapter;
+    return { adapter, ledger };
+}
+
+function createCacheManager() {
+    const store = new Map<string, unknown>();
+    return {
+        get: async (key: string) => store.get(key),
+        set: async (key: string, value: unknown) => {
+            store.set(key, value);
+        },
+        delete: async (key: string) => {
+            store.delete(key);
+        },
+    } as unknown as ICacheManager;
+}
+
+describeDevnet("wallet actions on a local devnet", () => {
+    let devnet: Devnet;
+    let runtime: AgentRuntime;
+    let ledger: LedgerEntry[];
+    let chain: typeof import("../../config/chains").mantleSepoliaTestnet;
+    let publicClient: Pick<
+        PublicClient,
+        "getBalance" | "readContract" | "waitForTransactionReceipt"
+    >;
+    let tokenAddress: Address;
+    let tokenListDir: string;
+    let getUserWallet: typeof import("../../actions/createWallet").getUserWallet;
+
+    const userId = stringToUuid("devnet-user");
+    const sponsoredUserId = stringToUuid("devnet-sponsored-user");
+    const roomId = stringToUuid("devnet-room");
+
+    // Envía un mensaje del usuario y ejecuta la acción indicada, devolviendo
+    // las respuestas del agente
+    async function run(
+        text: string,
+        action: string,
+        user: UUID = userId
+    ): Promise<string[]> {
+        const replies: string[] = [];
+        const message: Memory = {
+            id: stringToUuid(`${Date.now()}-${Math.random()}`),
+            userId: user,
+            agentId: runtime.agentId,
+            roomId,
+            content: { text },
+        };
+        const response: Memory = {
+            ...message,
+            id: stringToUuid(`${Date.now()}-${Math.random()}`),
+            userId: runtime.agentId,
+            content: { text: "", action },
+        };
+        await runtime.processActions(
+            message,
+            [response],
+            undefined,
+            async (content: Content) => {
+                replies.push(content.text);
+                return [];
+            }
+        );
+        return replies;
+    }
+
+    // Pide la operación, toma el código del resumen y la confirma
+    async function runConfirmed(
+        text: string,
+        action: string,
+        user: UUID = userId
+    ): Promise<{ quote: string; replies: string[] }> {
+        const quote = (await run(text, action, user)).join("\n");
+        const code = quote.match(/confirmar ([A-Z0-9]{6})/)?.[1];
+        expect(code).toBeDefined();
+        const replies = await run(`confirmar ${code}`, "CONFIRM_TRANSACTION", user);
+        return { quote, replies };
+    }
+
+    // Crea la wallet del usuario con CREATE_WALLET y devuelve su dirección
+    async function createUserWallet(user: UUID): Promise<Address> {
+        const created = await run("Quiero crear una wallet", "CREATE_WALLET", user);
+        const wallet = await getUserWallet(runtime, user);
+        expect(wallet).not.toBeNull();
+        expect(created.join("\n")).toContain(wallet!.address);
+        return wallet!.address as Address;
+    }
+
+    // Fondea una dirección desde una cuenta del devnet
+    async function fund(address: Address, mnt: string, aishop: string) {
+        const funder = privateKeyToAccount(DEVNET_FUNDED_KEY);
+        const funderClient = createWalletClient({
+            account: funder,
+            chain,
+            transport: http(devnet.rpcUrl),
+        });
+        if (mnt !== "0") {
+            await publicClient.waitForTransactionReceipt({
+                hash: await funderClient.sendTransaction({
+                    to: address,
+                    value: parseEther(mnt),
+                    account: funder,
+                    chain,
+                    kzg: undefined,
+                }),
+            });
+        }
+        await publicClient.waitForTransactionReceipt({
+            hash: await funderClient.writeContract({
+                address: tokenAddress,
+                abi: erc20Abi,
+                functionName: "transfer",
+                args: [address, parseUnits(aishop, 18)],
+                account: funder,
+                chain,
+            }),
+        });
+    }
+
+    async function tokenBalance(address: Address): Promise<string> {
+        const balance = await publicClient.readContract({
+            address: tokenAddress,
+            abi: erc20Abi,
+            functionName: "balanceOf",
+            args: [address],
+        });
+        return formatUnits(balance, 18);
+    }
+
+    beforeAll(async () => {
+        devnet = await startDevnet(devnetNode!, MANTLE_SEPOLIA_CHAIN_ID);
+        // Debe definirse antes de cargar los módulos que leen la cadena
+        process.env.MANTLE_SEPOLIA_RPC_URL = devnet.rpcUrl;
+
+        const { mantleSepoliaTestnet } = await import("../../config/chains");
+        chain = mantleSepoliaTestnet;
+
+        // Desplegar el token de prueba que hace de AISHOP
+        const funder = privateKeyToAccount(DEVNET_FUNDED_KEY);
+        const walletClient = createWalletClient({
+            account: funder,
+            chain,
+            transport: http(devnet.rpcUrl),
+        });
+        publicClient = createPublicClient({
+            chain,
+            transport: http(devnet.rpcUrl),
+        });
+        const deployHash = await walletClient.deployContract({
+            abi: testTokenConstructorAbi,
+            bytecode: testToken.bytecode as `0x${string}`,
+            args: ["AI Shop Agent", "AISHOP", parseUnits("1000000", 18)],
+            account: funder,
+            chain,
+            kzg: undefined,
+        });
+        const receipt = await publicClient.waitForTransactionReceipt({
+            hash: deployHash,
+        });
+        tokenAddress = receipt.contractAddress as Address;
+
+        tokenListDir = fs.mkdtempSync(path.join(os.tmpdir(), "tokenlists-"));
+        fs.writeFileSync(
+            path.join(tokenListDir, "devnet.tokenlist.json"),
+            JSON.stringify({
+                name: "Devnet",
+                timestamp: new Date().toISOString(),
+                version: { major: 1, minor: 0, patch: 0 },
+                tokens: [
+                    {
+                        chainId: MANTLE_SEPOLIA_CHAIN_ID,
+                        address: "0x0000000000000000000000000000000000000000",
+                        symbol: "MNT",
+                        name: "Mantle",
+                        decimals: 18,
+                    },
+                    {
+                        chainId: MANTLE_SEPOLIA_CHAIN_ID,
+                        address: tokenAddress,
+                        symbol: "AISHOP",
+                        name: "AI Shop Agent",
+                        decimals: 18,
+                    },
+                ],
+            })
+        );
+
+        // Importaciones secuenciales: jest no enlaza bien módulos ESM en paralelo
+        const { createWalletAction, getUserWallet: loadUserWallet } =
+            await import("../../actions/createWallet");
+        const { checkBalanceAction } = await import("../../actions/checkBalance");
+        const { transferMNTAction } = await import("../../actions/transfer");
+        const { transferERC20Action } = await import(
+            "../../actions/transferERC20"
+        );
+        const { confirmIntentAction } = await import(
+            "../../actions/confirmIntent"
+        );
+        const { SpendingPolicyService } = await import(
+            "../../services/spendingPolicy"
+        );
+        const { TokenRegistryService } = await import(
+            "../../services/tokenRegistry"
+        );
+        getUserWallet = loadUserWallet;
+
+        const database = createDatabaseAdapter();
+        ledger = database.ledger;
+        const character = {
+            name: "DevnetAgent",
+            modelProvider: ModelProviderName.OPENAI,
+            plugins: [],
+            settings: {
+                secrets: {
+                    WALLET_MASTER_KEY: "devnet-master-key-for-tests",
+                    EVM_RPC_URL: devnet.rpcUrl,
+                    TOKEN_LISTS: tokenListDir,
+                    EVM_PRIVATE_KEY: DEVNET_AGENT_KEY,
+                    // Sin modelo disponible en las pruebas
+                    INTENT_PARSER: "regex",
+                },
+                gasSponsorship: {
+                    enabled: true,
+                    dripAmount: "0.01",
+                    maxDripsPerDay: 1,
+                },
+            },
+        } as unknown as Character;
+
+        runtime = new AgentRuntime({
+            character,
+            token: "test-token",
+            modelProvider: ModelProviderName.OPENAI,
+            databaseAdapter: database.adapter,
+            cacheManager: createCacheManager(),
+            actions: [
+                transferERC20Action,
+                transferMNTAction,
+                checkBalanceAction,
+                createWalletAction,
+                confirmIntentAction,
+            ],
+            services: [
+                new SpendingPolicyService(),
+                new TokenRegistryService(),
+            ],
+        });
+        for (const service of runtime.services.values()) {
+            await service.initialize(runtime);
+        }
+    }, TIMEOUT_MS);
+
+    afterAll(async () => {
+        await devnet?.stop();
+        if (tokenListDir) {
+            fs.rmSync(tokenListDir, { recursive: true, force: true });
+        }
+        delete process.env.MANTLE_SEPOLIA_RPC_URL;
+    });
+
+    it(
+        "should create, fund and spend a user wallet",
+        async () => {
+            // CREATE_WALLET
+            const userAddress = await createUserWallet(userId);
+            await fund(userAddress, "10", "1000");
+
+            // CHECK_BALANCE
+            const balance = (await run("Ver mi balance", "CHECK_BALANCE")).join(
+                "\n"
+            );
+            expect(balance).toContain("MNT: 10");
+            expect(balance).toContain("AISHOP: 1000");
+
+            // TRANSFER_MNT con confirmación
+            await runConfirmed(`Enviar 1.5 MNT a ${RECIPIENT}`, "TRANSFER_MNT");
+            const recipientBalance = await publicClient.getBalance({
+                address: RECIPIENT,
+            });
+            expect(formatEther(recipientBalance)).toBe("1.5");
+
+            // TRANSFER_ERC20 con confirmación
+            await runConfirmed(
+                `Transferir 250 AISHOP a ${RECIPIENT}`,
+                "TRANSFER_ERC20"
+            );
+            expect(await tokenBalance(RECIPIENT)).toBe("250");
+
+            // Ambas transferencias quedan en el ledger
+            expect(ledger.map((entry) => [entry.action, entry.token])).toEqual([
+                ["TRANSFER_MNT", "MNT"],
+                ["TRANSFER_ERC20", "AISHOP"],
+            ]);
+            expect(
+                ledger.every(
+                    (entry) =>
+                        entry.userId === userId &&
+                        entry.chainId === MANTLE_SEPOLIA_CHAIN_ID
+                )
+            ).toBe(true);
+        },
+        TIMEOUT_MS
+    );
+
+    it(
+        "should sponsor gas for a wallet without MNT",
+        async () => {
+            const userAddress = await createUserWallet(sponsoredUserId);
+            await fund(userAddress, "0", "100");
+
+            const { quote } = await runConfirmed(
+                `Enviar 40 AISHOP a ${RECIPIENT}`,
+                "TRANSFER_ERC20",
+                sponsoredUserId
+            );
+            expect(quote).toContain("lo cubre el agente");
+            expect(await tokenBalance(userAddress)).toBe("60");
+
+            const sponsored = ledger.filter(
+                (entry) => entry.userId === sponsoredUserId
+            );
+            expect(sponsored.map((entry) => entry.action)).toEqual([
+                "GAS_SPONSORSHIP",
+                "TRANSFER_ERC20",
+            ]);
+            expect(sponsored[0].from).toBe(
+                privateKeyToAccount(DEVNET_AGENT_KEY).address
+            );
+        },
+        TIMEOUT_MS
+    );
+});
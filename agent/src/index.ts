@@ -27,6 +27,45 @@ import { checkBalanceAction } from "../actions/checkBalance.ts";
 import { transferMNTAction } from "../actions/transfer.ts";
 import { transferERC20Action } from "../actions/transferERC20.ts";
 import { createWalletAction } from "../actions/createWallet.ts";
+import { importWalletAction } from "../actions/importWallet.ts";
+import { exportWalletAction } from "../actions/exportWallet.ts";
+import { recoverWalletAction } from "../actions/recoverWallet.ts";
+import {
+    confirmIntentAction,
+    releaseIntent,
+} from "../actions/confirmIntent.ts";
+import { transactionHistoryAction } from "../actions/transactionHistory.ts";
+import { addContactAction } from "../actions/addContact.ts";
+import { listContactsAction } from "../actions/listContacts.ts";
+import { removeContactAction } from "../actions/removeContact.ts";
+import { searchProductsAction } from "../actions/searchProducts.ts";
+import { productDetailsAction } from "../actions/productDetails.ts";
+import { addToCartAction } from "../actions/addToCart.ts";
+import { viewCartAction } from "../actions/viewCart.ts";
+import { removeFromCartAction } from "../actions/removeFromCart.ts";
+import {
+    checkoutAction,
+    reconcileCheckoutPayments,
+} from "../actions/checkout.ts";
+import { createInvoiceAction } from "../actions/createInvoice.ts";
+import { invoiceStatusAction } from "../actions/invoiceStatus.ts";
+import { myOrdersAction } from "../actions/myOrders.ts";
+import { orderStatusAction } from "../actions/orderStatus.ts";
+import { requestRefundAction } from "../actions/requestRefund.ts";
+import { applyCouponAction } from "../actions/applyCoupon.ts";
+import { myRewardsAction } from "../actions/myRewards.ts";
+import { productCatalogProvider } from "../providers/catalog.ts";
+import {
+    migrateUserWallets,
+    rotateMasterKey,
+} from "../services/keystore.ts";
+import { SpendingPolicyService } from "../services/spendingPolicy.ts";
+import { TokenRegistryService } from "../services/tokenRegistry.ts";
+import { ProductCatalogService } from "../services/catalog.ts";
+import { startLedgerPoller } from "../services/ledger.ts";
+import { startInvoiceWatcher } from "../services/invoices.ts";
+import { startIntentSweeper } from "../services/pendingIntents.ts";
+import { OrderService } from "../services/orders.ts";
 
 import fs from "fs";
 import net from "net";
@@ -661,9 +700,40 @@ export async function createAgent(
             transferMNTAction,
             checkBalanceAction,
             createWalletAction,
+            importWalletAction,
+            exportWalletAction,
+            recoverWalletAction,
+            confirmIntentAction,
+            transactionHistoryAction,
+            addContactAction,
+            listContactsAction,
+            removeContactAction,
+            searchProductsAction,
+            productDetailsAction,
+            addToCartAction,
+            viewCartAction,
+            removeFromCartAction,
+            checkoutAction,
+            createInvoiceAction,
+            invoiceStatusAction,
+            myOrdersAction,
+            orderStatusAction,
+            requestRefundAction,
+            applyCouponAction,
+            myRewardsAction,
         ],
-        providers: [],
+        providers: [productCatalogProvider],
         managers: [],
+        services: [
+            new SpendingPolicyService(),
+            new TokenRegistryService([
+                path.resolve(__dirname, "../config/tokenlists"),
+            ]),
+            new ProductCatalogService([
+                path.resolve(__dirname, "../config/catalog"),
+            ]),
+            new OrderService(),
+        ],
         fetch: logFetch,
         // verifiableInferenceAdapter,
     });
@@ -796,6 +866,43 @@ async function startAgent(
         // start services/plugins/process knowledge
         await runtime.initialize();
 
+        // encrypt any user wallets still stored with a plaintext private key
+        if (runtime.getSetting("WALLET_MASTER_KEY")) {
+            const { migrated, failed } = await migrateUserWallets(runtime);
+            if (migrated.length > 0 || failed.length > 0) {
+                elizaLogger.info(
+                    `User wallet migration: ${migrated.length} encrypted, ${failed.length} failed`
+                );
+            }
+
+            // re-encrypt with the new master key while a rotation is in progress
+            const previousKey = runtime.getSetting("WALLET_MASTER_KEY_PREVIOUS");
+            if (previousKey) {
+                const { rotated, failed: rotationFailed } =
+                    await rotateMasterKey(
+                        runtime,
+                        previousKey,
+                        runtime.getSetting("WALLET_MASTER_KEY")
+                    );
+                elizaLogger.info(
+                    `Master key rotation: ${rotated.length} re-encrypted, ${rotationFailed.length} failed`
+                );
+            }
+        } else {
+            elizaLogger.warn(
+                "WALLET_MASTER_KEY is not set; CREATE_WALLET cannot store user wallets"
+            );
+        }
+
+        // move ledger entries from pending to confirmed/failed, then settle
+        // the checkouts whose payment receipt never arrived
+        startLedgerPoller(runtime, reconcileCheckoutPayments);
+        // match incoming merchant payments to open invoices
+        startInvoiceWatcher(runtime);
+        // drop confirmation codes that expired without an answer and cancel
+        // the orders they were holding
+        startIntentSweeper(runtime, releaseIntent);
+
         // start assigned clients
         runtime.clients = await initializeClients(character, runtime);
 
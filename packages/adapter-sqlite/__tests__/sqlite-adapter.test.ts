@@ -1,4 +1,4 @@
-import type { UUID } from '@elizaos/core';
+import { LedgerStatus, type UUID } from '@elizaos/core';
 import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
 import { SqliteDatabaseAdapter } from '../src';
 import { load } from '../src/sqlite_vec';
@@ -156,6 +156,110 @@ describe('SqliteDatabaseAdapter', () => {
         });
     });
 
+    describe('ledger', () => {
+        const agentId = 'test-agent' as UUID;
+        const userId = 'test-user' as UUID;
+
+        it('should filter ledger entries by user and status', async () => {
+            const allMock = vi.fn().mockReturnValueOnce([]);
+            mockDb.prepare.mockReturnValueOnce({
+                all: allMock
+            });
+
+            await adapter.getLedgerEntries({
+                agentId,
+                userId,
+                status: LedgerStatus.PENDING,
+                count: 5
+            });
+
+            expect(mockDb.prepare).toHaveBeenCalledWith(
+                'SELECT * FROM ledger WHERE agentId = ? AND userId = ? AND status = ? ORDER BY createdAt DESC LIMIT ?'
+            );
+            expect(allMock).toHaveBeenCalledWith(agentId, userId, 'pending', 5);
+        });
+
+        it('should update status and keep the block number when missing', async () => {
+            const runMock = vi.fn();
+            mockDb.prepare.mockReturnValueOnce({
+                run: runMock
+            });
+
+            await adapter.updateLedgerEntryStatus({
+                hash: '0xabc',
+                status: LedgerStatus.FAILED
+            });
+
+            expect(runMock).toHaveBeenCalledWith('failed', null, '0xabc');
+        });
+    });
+
+    describe('getAccountsByName', () => {
+        it('should match the name or username ignoring case', async () => {
+            const allMock = vi.fn().mockReturnValueOnce([
+                { id: 'maria-id', name: 'Maria', username: 'maria_g', details: '{"summary":"x"}' }
+            ]);
+            mockDb.prepare.mockReturnValueOnce({ all: allMock });
+
+            const accounts = await adapter.getAccountsByName('maria');
+
+            expect(mockDb.prepare).toHaveBeenCalledWith(
+                'SELECT * FROM accounts WHERE name = ? COLLATE NOCASE OR username = ? COLLATE NOCASE'
+            );
+            expect(allMock).toHaveBeenCalledWith('maria', 'maria');
+            expect(accounts[0].details).toEqual({ summary: 'x' });
+        });
+    });
+
+    describe('contacts', () => {
+        const agentId = 'test-agent' as UUID;
+        const userId = 'test-user' as UUID;
+
+        it('should replace the address of a contact with the same name', async () => {
+            const runMock = vi.fn();
+            mockDb.prepare.mockReturnValueOnce({
+                run: runMock
+            });
+
+            await adapter.upsertContact({
+                id: 'contact-id' as UUID,
+                agentId,
+                userId,
+                name: 'Maria',
+                address: '0xabc',
+                createdAt: 1
+            });
+
+            expect(mockDb.prepare.mock.calls[0][0]).toContain(
+                'ON CONFLICT (agentId, userId, name) DO UPDATE SET address = excluded.address'
+            );
+            expect(runMock).toHaveBeenCalledWith('contact-id', agentId, userId, 'Maria', '0xabc', null, 1);
+        });
+
+        it('should return null when the contact does not exist', async () => {
+            mockDb.prepare.mockReturnValueOnce({
+                get: vi.fn().mockReturnValueOnce(undefined)
+            });
+
+            const result = await adapter.getContactByName({ agentId, userId, name: 'maria' });
+
+            expect(mockDb.prepare).toHaveBeenCalledWith(
+                'SELECT * FROM contacts WHERE agentId = ? AND userId = ? AND name = ?'
+            );
+            expect(result).toBeNull();
+        });
+
+        it('should report whether a contact was removed', async () => {
+            mockDb.prepare.mockReturnValueOnce({
+                run: vi.fn().mockReturnValueOnce({ changes: 0 })
+            });
+
+            const removed = await adapter.removeContact({ agentId, userId, name: 'Maria' });
+
+            expect(removed).toBe(false);
+        });
+    });
+
     describe('init and close', () => {
         it('should initialize the database with tables', async () => {
             await adapter.init();
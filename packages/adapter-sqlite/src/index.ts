@@ -19,6 +19,9 @@ import type {
     Relationship,
     UUID,
     RAGKnowledgeItem,
+    LedgerEntry,
+    LedgerStatus,
+    Contact,
     ChunkRow,
     Adapter,
     IAgentRuntime,
@@ -111,6 +114,20 @@ export class SqliteDatabaseAdapter
         return account;
     }
 
+    async getAccountsByName(name: string): Promise<Account[]> {
+        const sql =
+            "SELECT * FROM accounts WHERE name = ? COLLATE NOCASE OR username = ? COLLATE NOCASE";
+        const accounts = this.db.prepare(sql).all(name, name) as Account[];
+        for (const account of accounts) {
+            if (typeof account.details === "string") {
+                account.details = JSON.parse(
+                    account.details as unknown as string
+                );
+            }
+        }
+        return accounts;
+    }
+
     async createAccount(account: Account): Promise<boolean> {
         try {
             const sql =
@@ -1091,6 +1108,126 @@ export class SqliteDatabaseAdapter
             throw error;
         }
     }
+
+    async createLedgerEntry(entry: LedgerEntry): Promise<void> {
+        const sql = `INSERT INTO ledger (id, agentId, userId, roomId, action, chainId, "from", "to", token, amount, hash, status, blockNumber, createdAt)
+            VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`;
+        this.db
+            .prepare(sql)
+            .run(
+                entry.id ?? v4(),
+                entry.agentId,
+                entry.userId,
+                entry.roomId ?? null,
+                entry.action,
+                entry.chainId,
+                entry.from,
+                entry.to,
+                entry.token,
+                entry.amount,
+                entry.hash,
+                entry.status,
+                entry.blockNumber ?? null,
+                entry.createdAt ?? Date.now()
+            );
+    }
+
+    async getLedgerEntries(params: {
+        agentId: UUID;
+        userId?: UUID;
+        status?: LedgerStatus;
+        count?: number;
+    }): Promise<LedgerEntry[]> {
+        let sql = "SELECT * FROM ledger WHERE agentId = ?";
+        const queryParams: (string | number)[] = [params.agentId];
+
+        if (params.userId) {
+            sql += " AND userId = ?";
+            queryParams.push(params.userId);
+        }
+
+        if (params.status) {
+            sql += " AND status = ?";
+            queryParams.push(params.status);
+        }
+
+        sql += " ORDER BY createdAt DESC";
+
+        if (params.count) {
+            sql += " LIMIT ?";
+            queryParams.push(params.count);
+        }
+
+        return this.db.prepare(sql).all(...queryParams) as LedgerEntry[];
+    }
+
+    async updateLedgerEntryStatus(params: {
+        hash: string;
+        status: LedgerStatus;
+        blockNumber?: number | null;
+    }): Promise<void> {
+        const sql =
+            "UPDATE ledger SET status = ?, blockNumber = COALESCE(?, blockNumber) WHERE hash = ?";
+        this.db
+            .prepare(sql)
+            .run(params.status, params.blockNumber ?? null, params.hash);
+    }
+
+    async upsertContact(contact: Contact): Promise<void> {
+        const sql = `INSERT INTO contacts (id, agentId, userId, name, address, contactUserId, createdAt)
+            VALUES (?, ?, ?, ?, ?, ?, ?)
+            ON CONFLICT (agentId, userId, name) DO UPDATE SET address = excluded.address, contactUserId = excluded.contactUserId`;
+        this.db
+            .prepare(sql)
+            .run(
+                contact.id ?? v4(),
+                contact.agentId,
+                contact.userId,
+                contact.name,
+                contact.address,
+                contact.contactUserId ?? null,
+                contact.createdAt ?? Date.now()
+            );
+    }
+
+    async getContacts(params: {
+        agentId: UUID;
+        userId: UUID;
+    }): Promise<Contact[]> {
+        const sql =
+            "SELECT * FROM contacts WHERE agentId = ? AND userId = ? ORDER BY name";
+        return this.db
+            .prepare(sql)
+            .all(params.agentId, params.userId) as Contact[];
+    }
+
+    async getContactByName(params: {
+        agentId: UUID;
+        userId: UUID;
+        name: string;
+    }): Promise<Contact | null> {
+        const sql =
+            "SELECT * FROM contacts WHERE agentId = ? AND userId = ? AND name = ?";
+        const contact = this.db
+            .prepare(sql)
+            .get(params.agentId, params.userId, params.name) as
+            | Contact
+            | undefined;
+        return contact ?? null;
+    }
+
+    async removeContact(params: {
+        agentId: UUID;
+        userId: UUID;
+        name: string;
+    }): Promise<boolean> {
+        const sql =
+            "DELETE FROM contacts WHERE agentId = ? AND userId = ? AND name = ?";
+        const result = this.db
+            .prepare(sql)
+            .run(params.agentId, params.userId, params.name);
+        return result.changes > 0;
+    }
 }
 
 const sqliteDatabaseAdapter: Adapter = {
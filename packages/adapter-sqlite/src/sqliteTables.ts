@@ -108,6 +108,35 @@ CREATE TABLE IF NOT EXISTS "knowledge" (
     CHECK((isShared = 1 AND agentId IS NULL) OR (isShared = 0 AND agentId IS NOT NULL))
 );
 
+-- Table: ledger
+CREATE TABLE IF NOT EXISTS "ledger" (
+    "id" TEXT PRIMARY KEY,
+    "agentId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "roomId" TEXT,
+    "action" TEXT NOT NULL,
+    "chainId" INTEGER NOT NULL,
+    "from" TEXT NOT NULL,
+    "to" TEXT NOT NULL,
+    "token" TEXT NOT NULL,
+    "amount" TEXT NOT NULL,
+    "hash" TEXT NOT NULL UNIQUE,
+    "status" TEXT NOT NULL DEFAULT 'pending',
+    "blockNumber" INTEGER,
+    "createdAt" TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Table: contacts
+CREATE TABLE IF NOT EXISTS "contacts" (
+    "id" TEXT PRIMARY KEY,
+    "agentId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "name" TEXT NOT NULL COLLATE NOCASE,
+    "address" TEXT NOT NULL,
+    "contactUserId" TEXT,
+    "createdAt" TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
 -- Index: relationships_id_key
 CREATE UNIQUE INDEX IF NOT EXISTS "relationships_id_key" ON "relationships" ("id");
 
@@ -127,4 +156,15 @@ CREATE INDEX IF NOT EXISTS "knowledge_content_key" ON "knowledge"
 CREATE INDEX IF NOT EXISTS "knowledge_created_key" ON "knowledge" ("agentId", "createdAt");
 CREATE INDEX IF NOT EXISTS "knowledge_shared_key" ON "knowledge" ("isShared");
 
+-- Index: ledger
+CREATE INDEX IF NOT EXISTS "ledger_user_key" ON "ledger" ("agentId", "userId", "createdAt");
+CREATE INDEX IF NOT EXISTS "ledger_status_key" ON "ledger" ("agentId", "status");
+
+-- Index: contacts
+CREATE UNIQUE INDEX IF NOT EXISTS "contacts_name_key" ON "contacts" ("agentId", "userId", "name");
+
+-- Index: accounts
+CREATE INDEX IF NOT EXISTS "accounts_name_key" ON "accounts" ("name" COLLATE NOCASE);
+CREATE INDEX IF NOT EXISTS "accounts_username_key" ON "accounts" ("username" COLLATE NOCASE);
+
 COMMIT;`;
\ No newline at end of file
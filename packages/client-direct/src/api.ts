@@ -4,6 +4,7 @@ import bodyParser from "body-parser";
 import cors from "cors";
 import path from "path";
 import fs from "fs";
+import { timingSafeEqual } from "crypto";
 
 import {
     type AgentRuntime,
@@ -12,7 +13,10 @@ import {
     type UUID,
     validateCharacterConfig,
     ServiceType,
+    LedgerStatus,
     type Character,
+    type IOrderService,
+    type ShopOrderStatus,
 } from "@elizaos/core";
 
 // import type { TeeLogQuery, TeeLogService } from "@elizaos/plugin-tee-log";
@@ -23,10 +27,11 @@ import { validateUuid } from "@elizaos/core";
 interface UUIDParams {
     agentId: UUID;
     roomId?: UUID;
+    userId?: UUID;
 }
 
 function validateUUIDParams(
-    params: { agentId: string; roomId?: string },
+    params: { agentId: string; roomId?: string; userId?: string },
     res: express.Response
 ): UUIDParams | null {
     const agentId = validateUuid(params.agentId);
@@ -48,9 +53,90 @@ function validateUUIDParams(
         return { agentId, roomId };
     }
 
+    if (params.userId) {
+        const userId = validateUuid(params.userId);
+        if (!userId) {
+            res.status(400).json({
+                error: "Invalid UserId format. Expected to be a UUID: xxxxxxxx-xxxx-xxxx-xxxx-xxxxxxxxxxxx",
+            });
+            return null;
+        }
+        return { agentId, userId };
+    }
+
     return { agentId };
 }
 
+const SHOP_ORDER_STATUSES: ShopOrderStatus[] = [
+    "created",
+    "awaiting_payment",
+    "paid",
+    "fulfilled",
+    "cancelled",
+    "refunded",
+];
+
+// Admin routes require `Authorization: Bearer <token>` with the token from
+// the given setting (ORDERS_ADMIN_TOKEN, LEDGER_ADMIN_TOKEN). Without a
+// configured token the routes stay disabled.
+function authorizeAdmin(
+    runtime: AgentRuntime,
+    req: express.Request,
+    res: express.Response,
+    setting: string,
+    api: string
+): boolean {
+    const expected = runtime.getSetting(setting);
+    if (!expected) {
+        res.status(503).json({ error: `${api} API is not configured` });
+        return false;
+    }
+
+    const provided = (req.headers.authorization ?? "").replace(
+        /^Bearer\s+/i,
+        ""
+    );
+    const a = Buffer.from(provided);
+    const b = Buffer.from(expected);
+    if (a.length !== b.length || !timingSafeEqual(a, b)) {
+        res.status(401).json({ error: "Unauthorized" });
+        return false;
+    }
+    return true;
+}
+
+// Resolves the agent and its order service for the order admin routes,
+// answering the request itself when either is missing
+function getOrderAdminService(
+    agents: Map<string, AgentRuntime>,
+    req: express.Request,
+    res: express.Response
+): { runtime: AgentRuntime; orders: IOrderService } | null {
+    const { agentId } = validateUUIDParams(
+        req.params as { agentId: string },
+        res
+    ) ?? { agentId: null };
+    if (!agentId) return null;
+
+    const runtime = agents.get(agentId);
+    if (!runtime) {
+        res.status(404).json({ error: "Agent not found" });
+        return null;
+    }
+    if (
+        !authorizeAdmin(runtime, req, res, "ORDERS_ADMIN_TOKEN", "Order admin")
+    ) {
+        return null;
+    }
+
+    const orders = runtime.getService<IOrderService>(ServiceType.SHOP_ORDERS);
+    if (!orders) {
+        res.status(404).json({ error: "Agent has no order service" });
+        return null;
+    }
+    return { runtime, orders };
+}
+
 export function createApiRouter(
     agents: Map<string, IAgentRuntime>,
     directClient: DirectClient
@@ -308,6 +394,182 @@ export function createApiRouter(
         }
     });
 
+    router.get("/agents/:agentId/users/:userId/transactions", async (req, res) => {
+        const { agentId, userId } = validateUUIDParams(req.params, res) ?? {
+            agentId: null,
+            userId: null,
+        };
+        if (!agentId || !userId) return;
+
+        const runtime = agents.get(agentId);
+
+        if (!runtime) {
+            res.status(404).json({ error: "Agent not found" });
+            return;
+        }
+        // Wallet history of any user: only for the operator
+        if (
+            !authorizeAdmin(
+                runtime as AgentRuntime,
+                req,
+                res,
+                "LEDGER_ADMIN_TOKEN",
+                "Transaction history"
+            )
+        ) {
+            return;
+        }
+
+        const status = req.query.status as LedgerStatus | undefined;
+        if (status && !Object.values(LedgerStatus).includes(status)) {
+            res.status(400).json({
+                error: `Invalid status. Expected one of: ${Object.values(LedgerStatus).join(", ")}`,
+            });
+            return;
+        }
+
+        try {
+            const transactions = await runtime.databaseAdapter.getLedgerEntries({
+                agentId,
+                userId,
+                status,
+                count: Number.parseInt(req.query.count as string) || 50,
+            });
+            res.json({ agentId, userId, transactions });
+        } catch (error) {
+            console.error("Error fetching transactions:", error);
+            res.status(500).json({ error: "Failed to fetch transactions" });
+        }
+    });
+
+    router.get("/agents/:agentId/orders", async (req, res) => {
+        const service = getOrderAdminService(agents, req, res);
+        if (!service) return;
+
+        const status = req.query.status as ShopOrderStatus | undefined;
+        if (status && !SHOP_ORDER_STATUSES.includes(status)) {
+            res.status(400).json({
+                error: `Invalid status. Expected one of: ${SHOP_ORDER_STATUSES.join(", ")}`,
+            });
+            return;
+        }
+        const refundRequested = req.query.refundRequested as string | undefined;
+
+        try {
+            const orders = await service.orders.listOrders(service.runtime, {
+                status,
+                userId: req.query.userId as string | undefined,
+                refundRequested:
+                    refundRequested === undefined
+                        ? undefined
+                        : refundRequested === "true",
+            });
+            res.json({ agentId: service.runtime.agentId, orders });
+        } catch (error) {
+            console.error("Error fetching orders:", error);
+            res.status(500).json({ error: "Failed to fetch orders" });
+        }
+    });
+
+    router.get("/agents/:agentId/orders/:orderId", async (req, res) => {
+        const service = getOrderAdminService(agents, req, res);
+        if (!service) return;
+
+        try {
+            const order = await service.orders.getOrder(
+                service.runtime,
+                req.params.orderId
+            );
+            if (!order) {
+                res.status(404).json({ error: "Order not found" });
+                return;
+            }
+            res.json({ order });
+        } catch (error) {
+            console.error("Error fetching order:", error);
+            res.status(500).json({ error: "Failed to fetch order" });
+        }
+    });
+
+    router.post("/agents/:agentId/orders/:orderId/fulfil", async (req, res) => {
+        const service = getOrderAdminService(agents, req, res);
+        if (!service) return;
+
+        try {
+            const result = await service.orders.fulfilOrder(
+                service.runtime,
+                req.params.orderId
+            );
+            if (result.error) {
+                res.status(409).json({ error: result.error });
+                return;
+            }
+            res.json({ order: result.order });
+        } catch (error) {
+            console.error("Error fulfilling order:", error);
+            res.status(500).json({ error: "Failed to fulfil order" });
+        }
+    });
+
+    // Sends the payment back from the merchant wallet; the response carries
+    // the order with `refund.txHash` once the transaction is confirmed
+    router.post("/agents/:agentId/orders/:orderId/refund", async (req, res) => {
+        const service = getOrderAdminService(agents, req, res);
+        if (!service) return;
+
+        try {
+            const result = await service.orders.refundOrder(
+                service.runtime,
+                req.params.orderId,
+                typeof req.body?.reason === "string"
+                    ? req.body.reason
+                    : undefined
+            );
+            if (result.error) {
+                res.status(409).json({ error: result.error });
+                return;
+            }
+            res.json({ order: result.order });
+        } catch (error) {
+            console.error("Error refunding order:", error);
+            res.status(500).json({
+                error: "Failed to refund order",
+                details:
+                    error instanceof Error ? error.message : String(error),
+            });
+        }
+    });
+
+    // Sends back what an invoice received but could not charge: the excess of
+    // an overpayment, payments to expired invoices and payments for orders
+    // that were no longer awaiting them
+    router.post(
+        "/agents/:agentId/invoices/:invoiceId/refund",
+        async (req, res) => {
+            const service = getOrderAdminService(agents, req, res);
+            if (!service) return;
+
+            try {
+                const result = await service.orders.refundInvoice(
+                    service.runtime,
+                    req.params.invoiceId
+                );
+                if (result.error) {
+                    res.status(409).json({ error: result.error });
+                    return;
+                }
+                res.json({ refund: result.refund });
+            } catch (error) {
+                console.error("Error refunding invoice:", error);
+                res.status(500).json({
+                    error: "Failed to refund invoice",
+                    details:
+                        error instanceof Error ? error.message : String(error),
+                });
+            }
+        }
+    );
+
     // router.get("/tee/agents", async (req, res) => {
     //     try {
     //         const allAgents = [];
@@ -8,6 +8,9 @@ import {
     GoalStatus,
     type Participant,
     type Relationship,
+    type LedgerEntry,
+    type LedgerStatus,
+    type Contact,
     type UUID,
 } from "../src/types.ts";
 
@@ -150,6 +153,44 @@ class MockDatabaseAdapter extends DatabaseAdapter {
     getRelationships(_params: { userId: UUID }): Promise<Relationship[]> {
         throw new Error("Method not implemented.");
     }
+    createLedgerEntry(_entry: LedgerEntry): Promise<void> {
+        throw new Error("Method not implemented.");
+    }
+    getLedgerEntries(_params: {
+        agentId: UUID;
+        userId?: UUID;
+        status?: LedgerStatus;
+        count?: number;
+    }): Promise<LedgerEntry[]> {
+        throw new Error("Method not implemented.");
+    }
+    updateLedgerEntryStatus(_params: {
+        hash: string;
+        status: LedgerStatus;
+        blockNumber?: number | null;
+    }): Promise<void> {
+        throw new Error("Method not implemented.");
+    }
+    upsertContact(_contact: Contact): Promise<void> {
+        throw new Error("Method not implemented.");
+    }
+    getContacts(_params: { agentId: UUID; userId: UUID }): Promise<Contact[]> {
+        throw new Error("Method not implemented.");
+    }
+    getContactByName(_params: {
+        agentId: UUID;
+        userId: UUID;
+        name: string;
+    }): Promise<Contact | null> {
+        throw new Error("Method not implemented.");
+    }
+    removeContact(_params: {
+        agentId: UUID;
+        userId: UUID;
+        name: string;
+    }): Promise<boolean> {
+        throw new Error("Method not implemented.");
+    }
     db: any = {};
 
     // Mock method for getting memories by room IDs
@@ -215,6 +256,17 @@ class MockDatabaseAdapter extends DatabaseAdapter {
         } as Account;
     }
 
+    // Mock method for looking up accounts by name
+    async getAccountsByName(name: string): Promise<Account[]> {
+        return [
+            {
+                id: "user-id" as UUID,
+                username: "testuser",
+                name,
+            } as Account,
+        ];
+    }
+
     // Other methods stay the same...
     async createAccount(_account: Account): Promise<boolean> {
         return true;
@@ -320,6 +372,12 @@ describe("DatabaseAdapter Tests", () => {
         expect(account.username).toBe("testuser");
     });
 
+    it("should get accounts by name", async () => {
+        const accounts = await adapter.getAccountsByName("Test Account");
+        expect(accounts).toHaveLength(1);
+        expect(accounts[0].name).toBe("Test Account");
+    });
+
     it("should create a new account", async () => {
         const newAccount: Account = {
             id: "new-user-id" as UUID,
@@ -7,6 +7,9 @@ import type {
     Relationship,
     UUID,
     RAGKnowledgeItem,
+    LedgerEntry,
+    LedgerStatus,
+    Contact,
     Participant,
     IDatabaseAdapter,
 } from "./types.ts";
@@ -71,6 +74,13 @@ export abstract class DatabaseAdapter<DB = any> implements IDatabaseAdapter {
      */
     abstract getAccountById(userId: UUID): Promise<Account | null>;
 
+    /**
+     * Retrieves the accounts whose name or username matches, ignoring case.
+     * @param name The display name or username to look up.
+     * @returns A Promise that resolves to the matching accounts.
+     */
+    abstract getAccountsByName(name: string): Promise<Account[]>;
+
     /**
      * Creates a new account in the database.
      * @param account The account object to create.
@@ -435,6 +445,75 @@ export abstract class DatabaseAdapter<DB = any> implements IDatabaseAdapter {
      */
     abstract clearKnowledge(agentId: UUID, shared?: boolean): Promise<void>;
 
+    /**
+     * Records an agent-initiated transaction in the ledger.
+     * @param entry The ledger entry to create
+     * @returns Promise resolving when creation is complete
+     */
+    abstract createLedgerEntry(entry: LedgerEntry): Promise<void>;
+
+    /**
+     * Retrieves ledger entries, most recent first.
+     * @param params Agent, optional user and status filters and a maximum count
+     * @returns Promise resolving to an array of ledger entries
+     */
+    abstract getLedgerEntries(params: {
+        agentId: UUID;
+        userId?: UUID;
+        status?: LedgerStatus;
+        count?: number;
+    }): Promise<LedgerEntry[]>;
+
+    /**
+     * Updates the status and block number of a ledger entry by its hash.
+     * @param params The transaction hash, new status and block number
+     * @returns Promise resolving when the update is complete
+     */
+    abstract updateLedgerEntryStatus(params: {
+        hash: string;
+        status: LedgerStatus;
+        blockNumber?: number | null;
+    }): Promise<void>;
+
+    /**
+     * Creates a contact or replaces the address of the user's contact with the same name.
+     * @param contact The contact to save
+     * @returns Promise resolving when the contact is saved
+     */
+    abstract upsertContact(contact: Contact): Promise<void>;
+
+    /**
+     * Retrieves a user's contacts ordered by name.
+     * @param params The agent and the owner of the contact book
+     * @returns Promise resolving to an array of contacts
+     */
+    abstract getContacts(params: {
+        agentId: UUID;
+        userId: UUID;
+    }): Promise<Contact[]>;
+
+    /**
+     * Retrieves a user's contact by name, ignoring case.
+     * @param params The agent, the owner of the contact book and the contact name
+     * @returns Promise resolving to the contact or null if not found
+     */
+    abstract getContactByName(params: {
+        agentId: UUID;
+        userId: UUID;
+        name: string;
+    }): Promise<Contact | null>;
+
+    /**
+     * Removes a user's contact by name, ignoring case.
+     * @param params The agent, the owner of the contact book and the contact name
+     * @returns Promise resolving to true if a contact was removed
+     */
+    abstract removeContact(params: {
+        agentId: UUID;
+        userId: UUID;
+        name: string;
+    }): Promise<boolean>;
+
     /**
      * Executes an operation with circuit breaker protection.
      * @param operation A function that returns a Promise to be executed with circuit breaker protection
@@ -63,6 +63,50 @@ const PluginSchema = z.object({
     clients: z.array(z.any()).optional(),
 });
 
+const decimalAmount = z.string().regex(/^\d+(\.\d+)?$/);
+
+const TokenSpendingLimitsSchema = z.object({
+    maxPerTransaction: decimalAmount.optional(),
+    maxPerDay: decimalAmount.optional(),
+});
+
+const SpendingPolicySchema = z.object({
+    default: TokenSpendingLimitsSchema.optional(),
+    tokens: z.record(TokenSpendingLimitsSchema).optional(),
+    maxTransactionsPerDay: z.number().int().nonnegative().optional(),
+    allowlist: z.array(z.string()).optional(),
+    denylist: z.array(z.string()).optional(),
+});
+
+const GasSponsorshipSchema = z.object({
+    enabled: z.boolean().optional(),
+    dripAmount: decimalAmount.optional(),
+    maxDripsPerDay: z.number().int().nonnegative().optional(),
+    maxPerUserPerDay: decimalAmount.optional(),
+});
+
+const CouponSchema = z.object({
+    code: z.string().min(1),
+    type: z.enum(["percentage", "fixed"]),
+    value: decimalAmount,
+    token: z.string().optional(),
+    minTotal: decimalAmount.optional(),
+    maxUses: z.number().int().positive().optional(),
+    maxUsesPerUser: z.number().int().positive().optional(),
+    expiresAt: z.string().datetime({ offset: true }).optional(),
+});
+
+const PromotionsSchema = z.object({
+    coupons: z.array(CouponSchema).optional(),
+    loyalty: z
+        .object({
+            enabled: z.boolean().optional(),
+            cashbackPercent: decimalAmount.optional(),
+            maxCashbackPerOrder: decimalAmount.optional(),
+        })
+        .optional(),
+});
+
 // Main Character schema
 export const CharacterSchema = z.object({
     id: z.string().uuid().optional(),
@@ -114,6 +158,9 @@ export const CharacterSchema = z.object({
             })
             .optional(),
             embeddingModel: z.string().optional(),
+            spendingPolicy: SpendingPolicySchema.optional(),
+            gasSponsorship: GasSponsorshipSchema.optional(),
+            promotions: PromotionsSchema.optional(),
         })
         .optional(),
     clientConfig: z
@@ -102,6 +102,84 @@ export enum GoalStatus {
     IN_PROGRESS = "IN_PROGRESS",
 }
 
+/**
+ * Status of a transaction recorded in the ledger
+ */
+export enum LedgerStatus {
+    PENDING = "pending",
+    CONFIRMED = "confirmed",
+    FAILED = "failed",
+}
+
+/**
+ * On-chain transaction initiated by an agent on behalf of a user
+ */
+export interface LedgerEntry {
+    /** Optional unique identifier */
+    id?: UUID;
+
+    /** Agent that sent the transaction */
+    agentId: UUID;
+
+    /** User the transaction was sent for */
+    userId: UUID;
+
+    /** Room where the transaction was requested */
+    roomId?: UUID;
+
+    /** Name of the action that sent it (e.g. TRANSFER_MNT) */
+    action: string;
+
+    /** Chain the transaction was sent to */
+    chainId: number;
+
+    /** Sender and recipient addresses */
+    from: string;
+    to: string;
+
+    /** Token symbol and decimal amount in token units */
+    token: string;
+    amount: string;
+
+    /** Transaction hash */
+    hash: string;
+
+    /** Current status */
+    status: LedgerStatus;
+
+    /** Block that included the transaction, once known */
+    blockNumber?: number | null;
+
+    /** Creation timestamp in milliseconds */
+    createdAt?: number;
+}
+
+/**
+ * Named address saved in a user's contact book
+ */
+export interface Contact {
+    /** Optional unique identifier */
+    id?: UUID;
+
+    /** Agent the contact book belongs to */
+    agentId: UUID;
+
+    /** Owner of the contact book */
+    userId: UUID;
+
+    /** Name the user refers to the contact by, unique per user (case-insensitive) */
+    name: string;
+
+    /** Wallet address of the contact */
+    address: string;
+
+    /** Agent user that owns the address, when it is a wallet created by the agent */
+    contactUserId?: UUID | null;
+
+    /** Creation timestamp in milliseconds */
+    createdAt?: number;
+}
+
 /**
  * Represents a high-level goal composed of objectives
  */
@@ -865,6 +943,9 @@ export type Character = {
         };
         transcription?: TranscriptionProvider;
         ragKnowledge?: boolean;
+        spendingPolicy?: SpendingPolicySettings;
+        gasSponsorship?: GasSponsorshipSettings;
+        promotions?: PromotionSettings;
     };
 
     /** Optional client-specific config */
@@ -996,6 +1077,9 @@ export interface IDatabaseAdapter {
     /** Get account by ID */
     getAccountById(userId: UUID): Promise<Account | null>;
 
+    /** Get accounts whose name or username matches, ignoring case */
+    getAccountsByName(name: string): Promise<Account[]>;
+
     /** Create new account */
     createAccount(account: Account): Promise<boolean>;
 
@@ -1155,6 +1239,37 @@ export interface IDatabaseAdapter {
     createKnowledge(knowledge: RAGKnowledgeItem): Promise<void>;
     removeKnowledge(id: UUID): Promise<void>;
     clearKnowledge(agentId: UUID, shared?: boolean): Promise<void>;
+
+    createLedgerEntry(entry: LedgerEntry): Promise<void>;
+
+    getLedgerEntries(params: {
+        agentId: UUID;
+        userId?: UUID;
+        status?: LedgerStatus;
+        count?: number;
+    }): Promise<LedgerEntry[]>;
+
+    updateLedgerEntryStatus(params: {
+        hash: string;
+        status: LedgerStatus;
+        blockNumber?: number | null;
+    }): Promise<void>;
+
+    upsertContact(contact: Contact): Promise<void>;
+
+    getContacts(params: { agentId: UUID; userId: UUID }): Promise<Contact[]>;
+
+    getContactByName(params: {
+        agentId: UUID;
+        userId: UUID;
+        name: string;
+    }): Promise<Contact | null>;
+
+    removeContact(params: {
+        agentId: UUID;
+        userId: UUID;
+        name: string;
+    }): Promise<boolean>;
 }
 
 export interface IDatabaseCacheAdapter {
@@ -1510,6 +1625,263 @@ export interface IIrysService extends Service {
     ): Promise<UploadIrysResult>;
 }
 
+/**
+ * Limits for a single token, as decimal amounts in token units (e.g. "0.5")
+ */
+export interface TokenSpendingLimits {
+    /** Maximum amount of a single transaction */
+    maxPerTransaction?: string;
+    /** Maximum amount over a rolling 24 hour window */
+    maxPerDay?: string;
+}
+
+/**
+ * Spending rules for value-moving wallet actions, configured per character
+ */
+export interface SpendingPolicySettings {
+    /** Limits applied to tokens without an entry in `tokens` */
+    default?: TokenSpendingLimits;
+    /** Per-token limits keyed by symbol (e.g. "MNT", "AISHOP") */
+    tokens?: { [symbol: string]: TokenSpendingLimits };
+    /** Maximum number of transactions per user over a rolling 24 hours */
+    maxTransactionsPerDay?: number;
+    /** If set, only these recipient addresses are allowed */
+    allowlist?: string[];
+    /** Recipient addresses that are always refused */
+    denylist?: string[];
+}
+
+/**
+ * Gas sponsorship for user wallets, configured per character. When enabled
+ * the agent's funded wallet tops up a user wallet with native currency before
+ * a transaction it cannot pay gas for.
+ */
+export interface GasSponsorshipSettings {
+    enabled?: boolean;
+    /** Minimum native amount sent per top-up, as a decimal (e.g. "0.05") */
+    dripAmount?: string;
+    /** Maximum number of top-ups per user over a rolling 24 hours */
+    maxDripsPerDay?: number;
+    /** Maximum native amount sent to a user over a rolling 24 hours */
+    maxPerUserPerDay?: string;
+}
+
+/**
+ * Discount coupon redeemable at checkout
+ */
+export interface CouponSettings {
+    /** Code typed by the customer, case-insensitive */
+    code: string;
+    type: "percentage" | "fixed";
+    /** Percentage off (e.g. "10") or a decimal amount in `token` units */
+    value: string;
+    /** Payment token of a fixed discount; percentage coupons apply to any */
+    token?: string;
+    /** Minimum cart total in the payment token */
+    minTotal?: string;
+    /** Redemptions allowed across all customers */
+    maxUses?: number;
+    /** Redemptions allowed per customer */
+    maxUsesPerUser?: number;
+    /** ISO 8601 date after which the coupon is refused */
+    expiresAt?: string;
+}
+
+/**
+ * Loyalty program: AISHOP cashback sent from the merchant wallet once an
+ * order paid in AISHOP is confirmed
+ */
+export interface LoyaltySettings {
+    enabled?: boolean;
+    /** Percentage of the order total paid back (e.g. "2.5") */
+    cashbackPercent?: string;
+    /** Maximum cashback per order, in AISHOP */
+    maxCashbackPerOrder?: string;
+}
+
+/**
+ * Coupons and loyalty program of the shop, configured per character
+ */
+export interface PromotionSettings {
+    coupons?: CouponSettings[];
+    loyalty?: LoyaltySettings;
+}
+
+export interface SpendingRequest {
+    userId: string;
+    action: string;
+    token: string;
+    /** Decimal amount in token units */
+    amount: string;
+    decimals: number;
+    recipient?: string;
+}
+
+export interface SpendingDecision {
+    allowed: boolean;
+    reason?: string;
+}
+
+export interface ISpendingPolicyService extends Service {
+    checkSpending(request: SpendingRequest): Promise<SpendingDecision>;
+    recordSpending(request: SpendingRequest & { hash?: string }): Promise<void>;
+}
+
+/**
+ * Token entry in the Uniswap token-list format
+ * (https://github.com/Uniswap/token-lists). Native currencies use the zero
+ * address.
+ */
+export interface TokenListEntry {
+    chainId: number;
+    address: string;
+    symbol: string;
+    name: string;
+    decimals: number;
+    logoURI?: string;
+    tags?: string[];
+    extensions?: Record<string, string | number | boolean | null>;
+}
+
+/**
+ * Token list in the Uniswap token-list format
+ */
+export interface TokenList {
+    name: string;
+    timestamp: string;
+    version: {
+        major: number;
+        minor: number;
+        patch: number;
+    };
+    tokens: TokenListEntry[];
+    logoURI?: string;
+    keywords?: string[];
+}
+
+/**
+ * Registry of tokens per chain, shared by every plugin that resolves token
+ * symbols or addresses.
+ */
+export interface ITokenRegistryService extends Service {
+    getToken(chainId: number, symbol: string): TokenListEntry | undefined;
+    getTokenByAddress(
+        chainId: number,
+        address: string
+    ): TokenListEntry | undefined;
+    getTokens(chainId: number): TokenListEntry[];
+}
+
+/**
+ * Lifecycle states of a shop order
+ */
+export type ShopOrderStatus =
+    | "created"
+    | "awaiting_payment"
+    | "paid"
+    | "fulfilled"
+    | "cancelled"
+    | "refunded";
+
+/**
+ * Product line of a shop order, priced in the order's payment token
+ */
+export interface ShopOrderLine {
+    sku: string;
+    title: string;
+    quantity: number;
+    /** Decimal amounts in token units */
+    unitPrice: string;
+    subtotal: string;
+}
+
+/**
+ * Refund of a shop order, linked to the transaction that returned the funds
+ */
+export interface ShopOrderRefund {
+    /** Decimal amount in token units */
+    amount: string;
+    to: string;
+    txHash: string;
+    reason?: string;
+    /** When the refund transaction was sent */
+    sentAt?: number;
+    refundedAt?: number;
+}
+
+/**
+ * Order placed with the shop and paid in the agent's payment tokens
+ */
+export interface ShopOrder {
+    id: string;
+    userId: string;
+    roomId: string;
+    items: ShopOrderLine[];
+    token: string;
+    /** Decimal amount in token units */
+    total: string;
+    /** Address that receives the payment */
+    merchant: string;
+    status: ShopOrderStatus;
+    createdAt: number;
+    updatedAt: number;
+    /** Code of the pending intent that pays the order */
+    paymentCode?: string;
+    /** Invoice paid from an external wallet */
+    invoiceId?: string;
+    txHash?: string;
+    /** When the payment transaction was sent */
+    paymentSentAt?: number;
+    /** Wallet that paid the order; refunds are sent back to it */
+    payer?: string;
+    paidAt?: number;
+    fulfilledAt?: number;
+    cancelledAt?: number;
+    refundRequest?: {
+        reason?: string;
+        requestedAt: number;
+    };
+    refund?: ShopOrderRefund;
+    /** Coupon applied at checkout; `total` already has the discount */
+    coupon?: {
+        code: string;
+        /** Decimal amount in token units */
+        discount: string;
+    };
+}
+
+export interface ShopOrderFilter {
+    userId?: string;
+    status?: ShopOrderStatus;
+    refundRequested?: boolean;
+}
+
+/**
+ * Store of shop orders. Status changes follow the order lifecycle and a
+ * refund sends the payment back from the merchant wallet.
+ */
+export interface IOrderService extends Service {
+    listOrders(
+        runtime: IAgentRuntime,
+        filter?: ShopOrderFilter
+    ): Promise<ShopOrder[]>;
+    getOrder(runtime: IAgentRuntime, id: string): Promise<ShopOrder | null>;
+    fulfilOrder(
+        runtime: IAgentRuntime,
+        id: string
+    ): Promise<{ order: ShopOrder; error?: undefined } | { order?: undefined; error: string }>;
+    refundOrder(
+        runtime: IAgentRuntime,
+        id: string,
+        reason?: string
+    ): Promise<{ order: ShopOrder; error?: undefined } | { order?: undefined; error: string }>;
+    /** Sends back what an invoice received but could not be charged */
+    refundInvoice(
+        runtime: IAgentRuntime,
+        id: string
+    ): Promise<{ refund: ShopOrderRefund; error?: undefined } | { refund?: undefined; error: string }>;
+}
+
 export interface ITeeLogService extends Service {
     getInstance(): ITeeLogService;
     log(
@@ -1540,6 +1912,14 @@ export enum ServiceType {
     WEB_SEARCH = "web_search",
     EMAIL_AUTOMATION = "email_automation",
     NKN_CLIENT_SERVICE = "nkn_client_service",
+    SPENDING_POLICY = "spending_policy",
+    TOKEN_REGISTRY = "token_registry",
+    LENDING_MONITOR = "lending_monitor",
+    UNSTAKE_TRACKER = "unstake_tracker",
+    PORTFOLIO_SNAPSHOTS = "portfolio_snapshots",
+    ORDER_SCHEDULER = "order_scheduler",
+    PRODUCT_CATALOG = "product_catalog",
+    SHOP_ORDERS = "shop_orders",
 }
 
 export enum LoggingLevel {
@@ -0,0 +1,104 @@
+import type { IAgentRuntime } from "@elizaos/core";
+import { describe, expect, it } from "vitest";
+import {
+    NETWORK_PROFILES,
+    checkNetworkWrite,
+    getNetwork,
+} from "../src/config/networks";
+
+function createRuntime(settings: Record<string, string> = {}) {
+    return {
+        getSetting: (key: string) => settings[key] ?? null,
+    } as unknown as IAgentRuntime;
+}
+
+describe("getNetwork", () => {
+    it("should default to Mantle mainnet", () => {
+        const network = getNetwork(createRuntime());
+
+        expect(network).toBe(NETWORK_PROFILES.mainnet);
+        expect(network.rpcUrl).toBe("https://rpc.mantle.xyz");
+    });
+
+    it("should select the profile named by HIVEFI_NETWORK", () => {
+        expect(
+            getNetwork(createRuntime({ HIVEFI_NETWORK: "Sepolia" })).name
+        ).toBe("sepolia");
+        expect(getNetwork(createRuntime({ HIVEFI_NETWORK: "fork" }))).toBe(
+            NETWORK_PROFILES.fork
+        );
+    });
+
+    it("should override the RPC from the profile's own setting", () => {
+        const network = getNetwork(
+            createRuntime({
+                HIVEFI_NETWORK: "sepolia",
+                MANTLE_SEPOLIA_RPC_URL: "https://sepolia.example",
+                // Another profile's RPC setting is ignored
+                MANTLE_RPC_URL: "https://mainnet.example",
+            })
+        );
+
+        expect(network.rpcUrl).toBe("https://sepolia.example");
+        expect(network.chain).toBe(NETWORK_PROFILES.sepolia.chain);
+        // The shared profile is left untouched
+        expect(NETWORK_PROFILES.sepolia.rpcUrl).toBe(
+            "https://rpc.sepolia.mantle.xyz"
+        );
+    });
+
+    it("should refuse unknown networks", () => {
+        expect(() =>
+            getNetwork(createRuntime({ HIVEFI_NETWORK: "goerli" }))
+        ).toThrow(
+            'Unknown HIVEFI_NETWORK "goerli", expected one of: mainnet, sepolia, fork'
+        );
+    });
+});
+
+describe("checkNetworkWrite", () => {
+    it("should refuse mainnet writes unless explicitly allowed", () => {
+        expect(
+            checkNetworkWrite(createRuntime(), NETWORK_PROFILES.mainnet)
+        ).toEqual({
+            allowed: false,
+            reason: "Transactions on Mantle Mainnet are disabled. Set HIVEFI_ALLOW_MAINNET_WRITES=true to enable them.",
+        });
+        expect(
+            checkNetworkWrite(
+                createRuntime({ HIVEFI_ALLOW_MAINNET_WRITES: "yes" }),
+                NETWORK_PROFILES.mainnet
+            ).allowed
+        ).toBe(false);
+    });
+
+    it("should allow mainnet writes when enabled", () => {
+        expect(
+            checkNetworkWrite(
+                createRuntime({ HIVEFI_ALLOW_MAINNET_WRITES: "TRUE" }),
+                NETWORK_PROFILES.mainnet
+            )
+        ).toEqual({ allowed: true });
+    });
+
+    it("should always allow testnet and fork writes", () => {
+        expect(
+            checkNetworkWrite(createRuntime(), NETWORK_PROFILES.sepolia)
+        ).toEqual({ allowed: true });
+        expect(
+            checkNetworkWrite(createRuntime(), NETWORK_PROFILES.fork)
+        ).toEqual({ allowed: true });
+    });
+
+    it("should gate any mainnet target by its label", () => {
+        const write = checkNetworkWrite(createRuntime(), {
+            label: "Ethereum Mainnet",
+            mainnet: true,
+        });
+
+        expect(write.allowed).toBe(false);
+        expect(!write.allowed && write.reason).toContain(
+            "Transactions on Ethereum Mainnet are disabled"
+        );
+    });
+});
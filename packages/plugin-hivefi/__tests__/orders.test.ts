@@ -0,0 +1,173 @@
+import { describe, expect, it } from "vitest";
+import {
+    isTriggered,
+    parseOrderRequest,
+    type ScheduledOrder,
+} from "../src/utils/orders";
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+// A Wednesday, 15:00 UTC
+const NOW = Date.UTC(2025, 0, 1, 15);
+
+function createOrder(overrides: Partial<ScheduledOrder>): ScheduledOrder {
+    return {
+        id: "order-1",
+        userId: "00000000-0000-0000-0000-000000000001",
+        roomId: "00000000-0000-0000-0000-000000000002",
+        type: "limit",
+        fromSymbol: "MNT",
+        toSymbol: "USDT",
+        amount: "5",
+        status: "active",
+        executions: 0,
+        failures: 0,
+        createdAt: NOW,
+        updatedAt: NOW,
+        history: [],
+        ...overrides,
+    };
+}
+
+describe("parseOrderRequest", () => {
+    it("should parse a weekly DCA starting on the next such day", () => {
+        expect(
+            parseOrderRequest("Buy 10 USDT of MNT every Monday", NOW)
+        ).toEqual({
+            type: "dca",
+            fromSymbol: "USDT",
+            toSymbol: "MNT",
+            amount: "10",
+            intervalMs: 7 * DAY_MS,
+            schedule: "every Monday",
+            nextRunAt: Date.UTC(2025, 0, 6),
+        });
+        // Today's weekday runs right away
+        expect(
+            parseOrderRequest("buy 10 USDT of MNT every wednesday", NOW)
+                ?.nextRunAt
+        ).toBe(NOW);
+    });
+
+    it("should parse interval DCA schedules", () => {
+        expect(
+            parseOrderRequest("dca 5 usdc into meth every 2 days", NOW)
+        ).toMatchObject({
+            type: "dca",
+            fromSymbol: "USDC",
+            toSymbol: "METH",
+            intervalMs: 2 * DAY_MS,
+            schedule: "every 2 days",
+            nextRunAt: NOW,
+        });
+        expect(
+            parseOrderRequest("swap 1 MNT to USDT every hour", NOW)
+        ).toMatchObject({ intervalMs: HOUR_MS, schedule: "every hour" });
+    });
+
+    it("should reject DCA orders without a usable schedule or amount", () => {
+        expect(
+            parseOrderRequest("buy 10 USDT of MNT every fortnight", NOW)
+        ).toBeNull();
+        expect(
+            parseOrderRequest("buy 10 USDT of MNT every 0 days", NOW)
+        ).toBeNull();
+        expect(
+            parseOrderRequest("buy 0 USDT of MNT every day", NOW)
+        ).toBeNull();
+    });
+
+    it("should parse a limit sell", () => {
+        expect(
+            parseOrderRequest("sell 5 MNT for USDT when MNT is above 1.2")
+        ).toEqual({
+            type: "limit",
+            fromSymbol: "MNT",
+            toSymbol: "USDT",
+            amount: "5",
+            triggerSymbol: "MNT",
+            condition: "above",
+            triggerPrice: 1.2,
+        });
+    });
+
+    it("should parse a limit buy spending the quote token", () => {
+        expect(
+            parseOrderRequest("buy 100 USDT of MNT when MNT drops below 0.7")
+        ).toEqual({
+            type: "limit",
+            fromSymbol: "USDT",
+            toSymbol: "MNT",
+            amount: "100",
+            triggerSymbol: "MNT",
+            condition: "below",
+            triggerPrice: 0.7,
+        });
+        // "it" is the token being bought
+        expect(
+            parseOrderRequest("buy 100 USDT of MNT if it falls under $0.7")
+                ?.triggerSymbol
+        ).toBe("MNT");
+    });
+
+    it("should parse a stop-loss on the whole balance", () => {
+        expect(
+            parseOrderRequest("sell my METH if it drops below 2000")
+        ).toEqual({
+            type: "stop_loss",
+            fromSymbol: "METH",
+            toSymbol: "USDT",
+            amount: "all",
+            triggerSymbol: "METH",
+            condition: "below",
+            triggerPrice: 2000,
+        });
+        expect(
+            parseOrderRequest("sell all my METH when the price of ETH is under 1800")
+        ).toMatchObject({
+            type: "stop_loss",
+            amount: "all",
+            triggerSymbol: "ETH",
+        });
+    });
+
+    it("should reject incomplete conditional orders", () => {
+        // A buy must name what it buys
+        expect(
+            parseOrderRequest("buy 100 USDT when MNT is below 0.7")
+        ).toBeNull();
+        expect(
+            parseOrderRequest("sell 5 MNT when MNT is above 0")
+        ).toBeNull();
+        expect(parseOrderRequest("what is the price of MNT?")).toBeNull();
+    });
+});
+
+describe("isTriggered", () => {
+    it("should trigger above orders at or over the price", () => {
+        const order = createOrder({ condition: "above", triggerPrice: 1.2 });
+
+        expect(isTriggered(order, 1.19)).toBe(false);
+        expect(isTriggered(order, 1.2)).toBe(true);
+        expect(isTriggered(order, 1.5)).toBe(true);
+    });
+
+    it("should trigger below orders at or under the price", () => {
+        const order = createOrder({
+            type: "stop_loss",
+            condition: "below",
+            triggerPrice: 2000,
+        });
+
+        expect(isTriggered(order, 2000.01)).toBe(false);
+        expect(isTriggered(order, 2000)).toBe(true);
+        expect(isTriggered(order, 1500)).toBe(true);
+    });
+
+    it("should never trigger orders without a trigger price", () => {
+        const order = createOrder({ type: "dca", intervalMs: DAY_MS });
+
+        expect(isTriggered(order, 0)).toBe(false);
+        expect(isTriggered(order, Number.MAX_VALUE)).toBe(false);
+    });
+});
@@ -0,0 +1,187 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+    FixturePriceFeed,
+    MedianPriceFeed,
+    type PriceFeed,
+} from "../src/utils/priceFeed";
+
+// The HTTP backends are not under test
+vi.mock("../src/providers/coingecko", () => ({
+    fetchCoinGeckoPrices: vi.fn(),
+}));
+vi.mock("../src/providers/defillama", () => ({
+    fetchDefiLlamaPrices: vi.fn(),
+}));
+
+const NOW = Date.UTC(2025, 0, 1);
+const MAX_AGE_MS = 10 * 60 * 1000;
+
+const MNT = { symbol: "MNT" };
+const METH = { symbol: "METH" };
+
+// Backend that prices MNT as named, `ageMs` old
+function createFeed(name: string, usd: number, ageMs = 0): PriceFeed {
+    return {
+        name,
+        getPrices: async (tokens) =>
+            new Map(
+                tokens
+                    .filter((token) => token.symbol === "MNT")
+                    .map((token) => [
+                        token.symbol,
+                        {
+                            symbol: token.symbol,
+                            usd,
+                            source: name,
+                            timestamp: NOW - ageMs,
+                        },
+                    ])
+            ),
+    };
+}
+
+describe("MedianPriceFeed", () => {
+    beforeEach(() => {
+        vi.useFakeTimers();
+        vi.setSystemTime(NOW);
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+        vi.restoreAllMocks();
+    });
+
+    it("should return the median of the fresh quotes", async () => {
+        const feed = new MedianPriceFeed(
+            [createFeed("a", 1.0), createFeed("b", 1.2), createFeed("c", 5)],
+            MAX_AGE_MS
+        );
+
+        const quote = (await feed.getPrices([MNT])).get("MNT");
+
+        expect(quote).toEqual({
+            symbol: "MNT",
+            usd: 1.2,
+            source: "a+b+c",
+            timestamp: NOW,
+            stale: false,
+        });
+    });
+
+    it("should average the middle quotes of an even count", async () => {
+        const feed = new MedianPriceFeed(
+            [createFeed("a", 1.0), createFeed("b", 1.2)],
+            MAX_AGE_MS
+        );
+
+        const quote = (await feed.getPrices([MNT])).get("MNT");
+
+        expect(quote?.usd).toBeCloseTo(1.1);
+    });
+
+    it("should ignore stale quotes while a fresh one exists", async () => {
+        const feed = new MedianPriceFeed(
+            [
+                createFeed("fresh", 1.0),
+                createFeed("old", 3.0, MAX_AGE_MS + 1),
+                new FixturePriceFeed({ MNT: { usd: 4.0, timestamp: 0 } }),
+            ],
+            MAX_AGE_MS
+        );
+
+        const quote = (await feed.getPrices([MNT])).get("MNT");
+
+        expect(quote?.usd).toBe(1.0);
+        expect(quote?.source).toBe("fresh");
+        expect(quote?.stale).toBe(false);
+    });
+
+    it("should mark the quote stale when every backend is old", async () => {
+        const feed = new MedianPriceFeed(
+            [
+                createFeed("a", 1.0, MAX_AGE_MS + 1),
+                createFeed("b", 2.0, 2 * MAX_AGE_MS),
+            ],
+            MAX_AGE_MS
+        );
+
+        const quote = (await feed.getPrices([MNT])).get("MNT");
+
+        expect(quote?.usd).toBe(1.5);
+        expect(quote?.stale).toBe(true);
+        // The oldest quote dates the aggregate
+        expect(quote?.timestamp).toBe(NOW - 2 * MAX_AGE_MS);
+    });
+
+    it("should not trust a quote its backend already marked stale", async () => {
+        const staleBackend: PriceFeed = {
+            name: "stale",
+            getPrices: async () =>
+                new Map([
+                    [
+                        "MNT",
+                        {
+                            symbol: "MNT",
+                            usd: 9,
+                            source: "stale",
+                            timestamp: NOW,
+                            stale: true,
+                        },
+                    ],
+                ]),
+        };
+        const feed = new MedianPriceFeed(
+            [staleBackend, createFeed("fresh", 1.0)],
+            MAX_AGE_MS
+        );
+
+        const quote = (await feed.getPrices([MNT])).get("MNT");
+
+        expect(quote?.usd).toBe(1.0);
+    });
+
+    it("should skip a failing backend", async () => {
+        const errors = vi.spyOn(console, "error").mockImplementation(() => {});
+        const failing: PriceFeed = {
+            name: "down",
+            getPrices: async () => {
+                throw new Error("503 Service Unavailable");
+            },
+        };
+        const feed = new MedianPriceFeed(
+            [failing, createFeed("up", 1.0)],
+            MAX_AGE_MS
+        );
+
+        const quote = (await feed.getPrices([MNT])).get("MNT");
+
+        expect(quote?.usd).toBe(1.0);
+        expect(quote?.source).toBe("up");
+        expect(errors).toHaveBeenCalledWith(
+            "Price feed down failed:",
+            expect.any(Error)
+        );
+    });
+
+    it("should leave out tokens no backend can price", async () => {
+        vi.spyOn(console, "error").mockImplementation(() => {});
+        const failing: PriceFeed = {
+            name: "down",
+            getPrices: async () => {
+                throw new Error("timeout");
+            },
+        };
+        const feed = new MedianPriceFeed(
+            [failing, createFeed("a", 1.0)],
+            MAX_AGE_MS
+        );
+
+        const quotes = await feed.getPrices([MNT, METH]);
+
+        expect(quotes.has("MNT")).toBe(true);
+        expect(quotes.has("METH")).toBe(false);
+        expect(
+            (await new MedianPriceFeed([failing]).getPrices([MNT])).size
+        ).toBe(0);
+    });
+});
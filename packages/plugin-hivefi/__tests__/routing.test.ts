@@ -0,0 +1,202 @@
+import { describe, expect, it, vi } from "vitest";
+import { zeroAddress, type Address, type PublicClient } from "viem";
+import type { ERC20TokenConfig, TokenConfig } from "../src/config/tokens";
+import { RouteFinder } from "../src/utils/routing";
+
+const address = (byte: string) => `0x${byte.repeat(40)}` as Address;
+
+const CONTRACTS = { router: address("a"), factory: address("f") };
+
+const erc20 = (symbol: string, byte: string): ERC20TokenConfig => ({
+    type: "erc20",
+    symbol,
+    name: symbol,
+    decimals: 18,
+    address: address(byte),
+});
+
+const WMNT = erc20("WMNT", "1");
+const USDC = erc20("USDC", "2");
+const METH = erc20("METH", "3");
+const CMETH = erc20("CMETH", "4");
+const MNT: TokenConfig = {
+    type: "native",
+    symbol: "MNT",
+    name: "Mantle",
+    decimals: 18,
+};
+
+interface Pool {
+    tokens: [ERC20TokenConfig, ERC20TokenConfig];
+    reserves: [bigint, bigint];
+}
+
+// Client whose readContract answers factory, pair and router calls from the
+// given pools, like Merchant Moe would on chain
+function createClient(pools: Pool[], routerAmountOut?: bigint) {
+    const pairAddress = (index: number) => address((index + 5).toString(16));
+    const findPool = (pair: Address) =>
+        pools[pools.findIndex((_, index) => pairAddress(index) === pair)];
+
+    const readContract = vi.fn(async (call: any) => {
+        switch (call.functionName) {
+            case "getPair": {
+                const [tokenA, tokenB] = call.args as Address[];
+                const index = pools.findIndex(({ tokens }) =>
+                    tokens.every((token) =>
+                        [tokenA, tokenB].includes(token.address)
+                    )
+                );
+                return index >= 0 ? pairAddress(index) : zeroAddress;
+            }
+            case "getReserves":
+                return [...findPool(call.address).reserves, 0];
+            case "token0":
+                return findPool(call.address).tokens[0].address;
+            case "getAmountsOut": {
+                const [amountIn, path] = call.args as [bigint, Address[]];
+                return [
+                    amountIn,
+                    ...path.slice(2).map(() => 0n),
+                    routerAmountOut ?? 0n,
+                ];
+            }
+            default:
+                throw new Error(`Unexpected call ${call.functionName}`);
+        }
+    });
+    return { readContract };
+}
+
+const createFinder = (
+    client: ReturnType<typeof createClient>,
+    bases: ERC20TokenConfig[]
+) =>
+    new RouteFinder(
+        client as unknown as Pick<PublicClient, "readContract">,
+        WMNT,
+        bases,
+        CONTRACTS
+    );
+
+const E18 = 10n ** 18n;
+
+describe("RouteFinder", () => {
+    it("should quote the direct pair with fees and price impact", async () => {
+        const client = createClient(
+            [{ tokens: [METH, CMETH], reserves: [1000n * E18, 1000n * E18] }],
+            9n * E18
+        );
+        const finder = createFinder(client, [WMNT, USDC]);
+
+        const quote = await finder.quote(METH, CMETH, 10n * E18);
+
+        expect(quote.best.symbols).toEqual(["METH", "CMETH"]);
+        expect(quote.routes).toHaveLength(1);
+        // Output before impact is the mid price minus the 0.3% fee
+        expect(quote.best.idealAmountOut).toBe(9970000000000000000n);
+        // The router's answer replaces the local estimate
+        expect(quote.best.amountOut).toBe(9n * E18);
+        expect(quote.best.priceImpactBps).toBe(972);
+    });
+
+    it("should pick a multi-hop route when it pays out more", async () => {
+        const client = createClient(
+            [
+                // Shallow direct pool and deep pools through USDC
+                { tokens: [METH, CMETH], reserves: [10n * E18, 10n * E18] },
+                {
+                    tokens: [USDC, METH],
+                    reserves: [1_000_000n * E18, 1000n * E18],
+                },
+                {
+                    tokens: [USDC, CMETH],
+                    reserves: [1_000_000n * E18, 1000n * E18],
+                },
+            ],
+            9n * E18
+        );
+        const finder = createFinder(client, [WMNT, USDC]);
+
+        const quote = await finder.quote(METH, CMETH, 10n * E18);
+
+        expect(quote.best.symbols).toEqual(["METH", "USDC", "CMETH"]);
+        expect(quote.best.path).toEqual([
+            METH.address,
+            USDC.address,
+            CMETH.address,
+        ]);
+        expect(
+            quote.routes.map((route) => route.symbols.length)
+        ).toEqual([3, 2]);
+        expect(client.readContract).toHaveBeenLastCalledWith(
+            expect.objectContaining({
+                address: CONTRACTS.router,
+                functionName: "getAmountsOut",
+                args: [10n * E18, quote.best.path],
+            })
+        );
+    });
+
+    it("should orient reserves by token0", async () => {
+        // Same pool listed with CMETH as token0
+        const client = createClient(
+            [{ tokens: [CMETH, METH], reserves: [2000n * E18, 1000n * E18] }],
+            19n * E18
+        );
+        const finder = createFinder(client, []);
+
+        const quote = await finder.quote(METH, CMETH, 10n * E18);
+
+        // 10 METH at 2 CMETH each, minus the fee
+        expect(quote.best.idealAmountOut).toBe(19940000000000000000n);
+    });
+
+    it("should route native MNT as WMNT", async () => {
+        const client = createClient(
+            [{ tokens: [WMNT, USDC], reserves: [1000n * E18, 1000n * E18] }],
+            E18
+        );
+        const finder = createFinder(client, [WMNT, USDC]);
+
+        const quote = await finder.quote(MNT, USDC, E18);
+
+        expect(quote.best.path).toEqual([WMNT.address, USDC.address]);
+        await expect(finder.quote(MNT, WMNT, E18)).rejects.toThrow(
+            "Cannot swap MNT for WMNT through Merchant Moe"
+        );
+    });
+
+    it("should fail when no pool has liquidity", async () => {
+        const client = createClient([
+            { tokens: [METH, CMETH], reserves: [0n, 1000n * E18] },
+        ]);
+        const finder = createFinder(client, [WMNT, USDC]);
+
+        await expect(finder.quote(METH, CMETH, E18)).rejects.toThrow(
+            "No Merchant Moe liquidity found for METH → CMETH"
+        );
+    });
+
+    it("should skip pairs whose reads fail", async () => {
+        const client = createClient(
+            [{ tokens: [USDC, METH], reserves: [1000n * E18, 1000n * E18] }],
+            E18
+        );
+        const readContract = client.readContract.getMockImplementation();
+        client.readContract.mockImplementation(async (call: any) => {
+            if (call.functionName === "getReserves") {
+                throw new Error("RPC timeout");
+            }
+            return readContract?.(call);
+        });
+        const errors = vi.spyOn(console, "error").mockImplementation(() => {});
+        const finder = createFinder(client, [WMNT]);
+
+        await expect(finder.quote(USDC, METH, E18)).rejects.toThrow(
+            "No Merchant Moe liquidity found"
+        );
+        expect(errors).toHaveBeenCalled();
+        errors.mockRestore();
+    });
+});
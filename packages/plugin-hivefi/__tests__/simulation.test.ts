@@ -0,0 +1,113 @@
+import { describe, expect, it } from "vitest";
+import {
+    BaseError,
+    ContractFunctionRevertedError,
+    InsufficientFundsError,
+    encodeErrorResult,
+    parseAbi,
+    zeroAddress,
+} from "viem";
+import { decodeRevertReason } from "../src/utils/simulation";
+
+const ERC20_ERRORS_ABI = parseAbi([
+    "error ERC20InsufficientBalance(address sender, uint256 balance, uint256 needed)",
+    "error ERC20InsufficientAllowance(address spender, uint256 allowance, uint256 needed)",
+]);
+
+// A revert as viem reports it from simulateContract, wrapped in a call error
+function reverted(revert: { data?: `0x${string}`; message?: string }) {
+    return new BaseError("Contract call failed", {
+        cause: new ContractFunctionRevertedError({
+            abi: ERC20_ERRORS_ABI,
+            functionName: "swap",
+            ...revert,
+        }),
+    });
+}
+
+const revertString = (reason: string) =>
+    reverted({
+        data: encodeErrorResult({
+            abi: parseAbi(["error Error(string)"]),
+            errorName: "Error",
+            args: [reason],
+        }),
+    });
+
+describe("decodeRevertReason", () => {
+    it("should translate Lendle error codes", () => {
+        expect(decodeRevertReason(revertString("6"))).toBe(
+            "health factor would drop below 1"
+        );
+        expect(decodeRevertReason(revertString(" 11 "))).toBe(
+            "not enough collateral for this borrow, health factor would drop below 1"
+        );
+    });
+
+    it("should translate OpenZeppelin custom errors", () => {
+        const allowance = reverted({
+            data: encodeErrorResult({
+                abi: ERC20_ERRORS_ABI,
+                errorName: "ERC20InsufficientAllowance",
+                args: [zeroAddress, 0n, 1n],
+            }),
+        });
+        const balance = reverted({
+            data: encodeErrorResult({
+                abi: ERC20_ERRORS_ABI,
+                errorName: "ERC20InsufficientBalance",
+                args: [zeroAddress, 0n, 1n],
+            }),
+        });
+
+        expect(decodeRevertReason(allowance)).toBe("insufficient allowance");
+        expect(decodeRevertReason(balance)).toBe("insufficient token balance");
+    });
+
+    it("should translate known revert strings", () => {
+        expect(
+            decodeRevertReason(
+                revertString("MoeRouter: INSUFFICIENT_OUTPUT_AMOUNT")
+            )
+        ).toBe(
+            "output would be below the minimum received, the price moved beyond the slippage tolerance"
+        );
+        expect(
+            decodeRevertReason(
+                revertString("ERC20: transfer amount exceeds balance")
+            )
+        ).toBe("insufficient token balance");
+        expect(
+            decodeRevertReason(reverted({ message: "MoeRouter: EXPIRED" }))
+        ).toBe("the transaction deadline expired");
+    });
+
+    it("should pass unknown revert strings through", () => {
+        expect(decodeRevertReason(revertString("Pausable: paused"))).toBe(
+            "Pausable: paused"
+        );
+    });
+
+    it("should report missing native funds", () => {
+        const error = new BaseError("Transaction failed", {
+            cause: new InsufficientFundsError(),
+        });
+
+        expect(decodeRevertReason(error)).toBe(
+            "insufficient native balance for the value and gas"
+        );
+    });
+
+    it("should fall back to the error message", () => {
+        expect(decodeRevertReason(new BaseError("RPC request failed"))).toBe(
+            "RPC request failed"
+        );
+        expect(decodeRevertReason(new Error("deadline passed"))).toBe(
+            "the transaction deadline expired"
+        );
+        expect(decodeRevertReason(new Error("nonce too low"))).toBe(
+            "nonce too low"
+        );
+        expect(decodeRevertReason("boom")).toBe("unknown error");
+    });
+});
@@ -0,0 +1,77 @@
+import type { Action, Memory } from "@elizaos/core";
+import { cancelOrders, describeOrder } from "../utils/orders";
+
+export const cancelOrder: Action = {
+    name: "CANCEL_ORDER",
+    description: "Cancel one of the user's DCA, limit or stop-loss orders, or all of them",
+    examples: [
+        [
+            {
+                user: "user1",
+                content: {
+                    text: "Cancel order ord-m5x2k1abc",
+                },
+            },
+            {
+                user: "assistant",
+                content: {
+                    text: "Cancelled order ord-m5x2k1abc: DCA 10 USDT → MNT every Monday",
+                },
+            },
+        ],
+    ],
+    handler: async (runtime, message: Memory, _state, _options, callback) => {
+        try {
+            const text = message.content?.text ?? "";
+            const orderId = text.match(/\bord-[a-z0-9]+\b/i)?.[0]?.toLowerCase();
+            if (!orderId && !/\ball\b/i.test(text)) {
+                callback?.({
+                    text: "Which order should I cancel? Use: Cancel order <id>, or Cancel all orders. LIST_ORDERS shows the ids.",
+                });
+                return false;
+            }
+
+            const cancelled = await cancelOrders(
+                runtime,
+                message.userId,
+                orderId
+            );
+            if (cancelled.length === 0) {
+                callback?.({
+                    text: orderId
+                        ? `No active order ${orderId} found.`
+                        : "You have no active orders to cancel.",
+                    content: { cancelled: [] },
+                });
+                return false;
+            }
+
+            callback?.({
+                text: cancelled
+                    .map((order) => `Cancelled order ${order.id}: ${describeOrder(order)}`)
+                    .join("\n"),
+                content: { cancelled: cancelled.map((order) => order.id) },
+            });
+            return true;
+        } catch (error) {
+            console.error("Failed to cancel order:", error);
+            callback?.({
+                text: `Failed to cancel order: ${error instanceof Error ? error.message : "Unknown error"}`,
+                content: {
+                    error:
+                        error instanceof Error
+                            ? error.message
+                            : "Unknown error",
+                },
+            });
+            return false;
+        }
+    },
+    validate: async (_runtime, message: Memory) =>
+        /\b(cancel|stop|delete)\b/i.test(message.content?.text ?? "") &&
+        /\b(orders?|ord-[a-z0-9]+)\b/i.test(message.content?.text ?? ""),
+    similes: [
+        "like cancelling an open order",
+        "like stopping a recurring buy",
+    ],
+};
@@ -0,0 +1,130 @@
+import type { Action, Memory } from "@elizaos/core";
+import { getTokenBySymbol, getTokens } from "../config/tokens";
+import {
+    createOrder as saveOrder,
+    describeOrder,
+    parseOrderRequest,
+} from "../utils/orders";
+
+export const createOrder: Action = {
+    name: "CREATE_ORDER",
+    description:
+        "Create a recurring DCA order, a limit order or a stop-loss on Mantle, executed through Merchant Moe when due",
+    examples: [
+        [
+            {
+                user: "user1",
+                content: {
+                    text: "Buy 10 USDT of MNT every Monday",
+                },
+            },
+            {
+                user: "assistant",
+                content: {
+                    text: "Order ord-m5x2k1abc created: DCA 10 USDT → MNT every Monday. First run: 2025-01-13 00:00 UTC.",
+                },
+            },
+        ],
+        [
+            {
+                user: "user1",
+                content: {
+                    text: "Sell my METH if it drops below 2000",
+                },
+            },
+            {
+                user: "assistant",
+                content: {
+                    text: "Order ord-m5x2k9xyz created: Stop-loss: swap all METH → USDT when METH is below $2000.",
+                },
+            },
+        ],
+    ],
+    handler: async (runtime, message: Memory, _state, _options, callback) => {
+        try {
+            const request = parseOrderRequest(message.content?.text ?? "");
+            if (!request) {
+                callback?.({
+                    text: [
+                        "Could not parse the order. Try one of:",
+                        "• Buy 10 USDT of MNT every Monday",
+                        "• Sell 5 MNT for USDT when MNT is above 1.2",
+                        "• Sell my METH if it drops below 2000",
+                    ].join("\n"),
+                });
+                return false;
+            }
+
+            const unknown = [
+                request.fromSymbol,
+                request.toSymbol,
+                request.triggerSymbol,
+            ].filter(
+                (symbol): symbol is string =>
+                    !!symbol && !getTokenBySymbol(runtime, symbol)
+            );
+            if (unknown.length > 0) {
+                const supportedTokens = getTokens(runtime)
+                    .map((token) => token.symbol)
+                    .join(", ");
+                callback?.({
+                    text: `Invalid token symbol: ${unknown.join(", ")}. Supported tokens: ${supportedTokens}`,
+                });
+                return false;
+            }
+
+            // MNT also pays for gas, so its whole balance can't be swapped
+            if (
+                request.amount === "all" &&
+                getTokenBySymbol(runtime, request.fromSymbol)?.type === "native"
+            ) {
+                callback?.({
+                    text: `Please give an amount of ${request.fromSymbol} to swap, part of the balance is needed for gas.`,
+                });
+                return false;
+            }
+
+            const order = await saveOrder(runtime, message, request);
+            const lines = [`Order ${order.id} created: ${describeOrder(order)}.`];
+            if (order.nextRunAt) {
+                lines.push(
+                    `First run: ${new Date(order.nextRunAt).toISOString().slice(0, 16).replace("T", " ")} UTC.`
+                );
+            }
+            lines.push(
+                "I'll post here each time it executes. Use LIST_ORDERS to review it or cancel it with its id."
+            );
+
+            callback?.({
+                text: lines.join("\n"),
+                content: { order },
+            });
+            return true;
+        } catch (error) {
+            console.error("Failed to create order:", error);
+            callback?.({
+                text: `Failed to create order: ${error instanceof Error ? error.message : "Unknown error"}`,
+                content: {
+                    error:
+                        error instanceof Error
+                            ? error.message
+                            : "Unknown error",
+                },
+            });
+            return false;
+        }
+    },
+    validate: async (_runtime, message: Memory) => {
+        const text = message.content?.text ?? "";
+        return (
+            /\b(buy|sell|swap|spend|dca)\b/i.test(text) &&
+            (/\bevery\b/i.test(text) ||
+                /\b(when|if|once)\b.*\b(above|over|below|under)\b/i.test(text))
+        );
+    },
+    similes: [
+        "like setting up a recurring buy",
+        "like placing a limit order",
+        "like protecting a position with a stop-loss",
+    ],
+};
@@ -1,12 +1,14 @@
 import type { Action, Memory } from "@elizaos/core";
 import { parseUnits, type SendTransactionParameters } from "viem";
-import { mantleTestnetChain } from "../config/chains";
+import { checkNetworkWrite, formatTxLink } from "../config/networks";
 import { initWalletProvider } from "../providers/wallet";
+import { checkSpendingPolicy, recordSpending } from "../utils/spendingPolicy";
+import { recordLedgerEntry } from "../utils/ledger";
+import { formatSimulation, simulateTransaction } from "../utils/simulation";
 import {
-    TOKENS,
+    getERC20Tokens,
     getTokenBySymbol,
     isERC20Token,
-    type TokenSymbol,
 } from "../config/tokens";
 
 interface TransferEntities {
@@ -100,11 +102,11 @@ export const erc20Transfer: Action = {
             to = content[3].toLowerCase() as `0x${string}`;
 
             // Get token config and validate
-            const token = getTokenBySymbol(tokenSymbol as TokenSymbol);
+            // Tokens are resolved on the token list of the selected network
+            const token = getTokenBySymbol(runtime, tokenSymbol);
             if (!token || !isERC20Token(token)) {
-                const supportedTokens = Object.entries(TOKENS)
-                    .filter(([_, t]) => t.type === "erc20")
-                    .map(([symbol]) => symbol)
+                const supportedTokens = getERC20Tokens(runtime)
+                    .map((t) => t.symbol)
                     .join(", ");
                 callback?.({
                     text: `Invalid token symbol. Supported tokens: ${supportedTokens}`,
@@ -120,6 +122,23 @@ export const erc20Transfer: Action = {
                 return false;
             }
 
+            const spending = {
+                userId: message.userId,
+                action: "SEND_TOKEN_MANTLE",
+                token: tokenSymbol,
+                amount,
+                decimals: token.decimals,
+                recipient: to,
+            };
+            const decision = await checkSpendingPolicy(runtime, spending);
+            if (!decision.allowed) {
+                callback?.({
+                    text: `Transfer blocked by spending policy: ${decision.reason}`,
+                    content: { error: decision.reason },
+                });
+                return false;
+            }
+
             // Initialize wallet provider
             const provider = initWalletProvider(runtime);
             if (!provider) {
@@ -129,9 +148,19 @@ export const erc20Transfer: Action = {
                 return false;
             }
 
+            const network = provider.getNetwork();
+            const write = checkNetworkWrite(runtime, network);
+            if (!write.allowed) {
+                callback?.({
+                    text: `Transfer refused: ${write.reason}`,
+                    content: { error: write.reason, network: network.name },
+                });
+                return false;
+            }
+
             // Send initial confirmation
             callback?.({
-                text: `The transaction of ${amount} ${tokenSymbol} to ${to} on Mantle has been initiated. You will receive a confirmation once the transaction is complete.`,
+                text: `The transaction of ${amount} ${tokenSymbol} to ${to} on ${network.label} has been initiated. You will receive a confirmation once the transaction is complete.`,
             });
 
             // Get wallet client
@@ -147,18 +176,42 @@ export const erc20Transfer: Action = {
             // Construct data parameter
             const data = `0x${transferFunctionSignature}${"000000000000000000000000"}${cleanTo}${amountHex}`;
 
+            // Simulate first so a revert is reported before anything is sent
+            const simulation = await simulateTransaction(
+                provider.getPublicClient(),
+                {
+                    account: provider.getAccount(),
+                    to: token.address,
+                    data: data as `0x${string}`,
+                }
+            );
+
             // Send transaction
             const hash = await walletClient.sendTransaction({
-                chain: mantleTestnetChain,
+                chain: network.chain,
                 account: provider.getAccount(),
                 to: token.address,
                 data: data as `0x${string}`,
                 type: "legacy" as const,
             });
+            await recordSpending(runtime, { ...spending, hash });
+            await recordLedgerEntry(runtime, message, {
+                action: "SEND_TOKEN_MANTLE",
+                chainId: network.chain.id,
+                from: provider.getAddress(),
+                to,
+                token: tokenSymbol,
+                amount,
+                hash,
+            });
 
             callback?.({
-                text: `${amount} ${tokenSymbol} sent to ${to}\nTransaction Hash: ${hash}\nView on Explorer: https://explorer.mantle.xyz/tx/${hash}`,
-                content: { hash },
+                text: `${amount} ${tokenSymbol} sent to ${to} on ${network.label}\nTransaction Hash: ${hash}\n${formatTxLink(network, hash)}\n${formatSimulation(simulation)}`,
+                content: {
+                    hash,
+                    gas: simulation.gas.toString(),
+                    network: network.name,
+                },
             });
             return true;
         } catch (error) {
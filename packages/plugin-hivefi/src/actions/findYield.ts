@@ -0,0 +1,172 @@
+import type { Action, Memory } from "@elizaos/core";
+import type { Address } from "viem";
+import { getTokens } from "../config/tokens";
+import { initWalletProvider } from "../providers/wallet";
+import {
+    DEFAULT_MIN_TVL_USD,
+    filterYieldPools,
+    getIdleBalances,
+    getYieldPools,
+    parseYieldFilter,
+    suggestDeposits,
+    type YieldFilter,
+    type YieldPool,
+    type YieldSuggestion,
+} from "../utils/yields";
+import { MARKET_TOKENS } from "./lending/config";
+
+// Pools listed in the reply
+const TOP_POOLS = 8;
+
+function formatUsd(value: number): string {
+    return value.toLocaleString(undefined, {
+        style: "currency",
+        currency: "USD",
+    });
+}
+
+function formatTvl(tvl: number): string {
+    return tvl >= 1e9
+        ? `$${(tvl / 1e9).toFixed(2)}B`
+        : `$${(tvl / 1e6).toFixed(2)}M`;
+}
+
+function formatPool(pool: YieldPool, index: number): string {
+    const breakdown =
+        pool.apyReward > 0
+            ? ` (base ${pool.apyBase.toFixed(2)}% + rewards ${pool.apyReward.toFixed(2)}%)`
+            : "";
+    const chain = pool.chain.toLowerCase() === "mantle" ? "" : ` on ${pool.chain}`;
+    return `${index + 1}. ${pool.project} ${pool.symbol}${chain}: ${pool.apy.toFixed(2)}% APY${breakdown}, TVL ${formatTvl(pool.tvlUsd)}, ${pool.risk} risk`;
+}
+
+function formatSuggestion(suggestion: YieldSuggestion): string {
+    const { balance, pool } = suggestion;
+    const where = balance.chain === "ethereum" ? " on Ethereum" : "";
+    return `• ${balance.quantity.toLocaleString(undefined, { maximumFractionDigits: 6 })} ${balance.symbol}${where} (${formatUsd(balance.usdValue)}) is idle → ${pool.project} ${pool.symbol} at ${pool.apy.toFixed(2)}% APY, ~${formatUsd(suggestion.estimatedYearlyUsd)}/year. Say: "${suggestion.command}"`;
+}
+
+function describeFilter(filter: YieldFilter): string {
+    return [
+        filter.asset,
+        filter.maxRisk ? `${filter.maxRisk} risk` : null,
+        `TVL ≥ ${formatTvl(filter.minTvlUsd ?? DEFAULT_MIN_TVL_USD)}`,
+    ]
+        .filter(Boolean)
+        .join(", ");
+}
+
+export const findYield: Action = {
+    name: "FIND_YIELD",
+    description:
+        "Find yield opportunities on Mantle from DefiLlama, filtered by asset, risk and TVL, and suggest Lendle deposits or mETH staking for idle balances",
+    examples: [
+        [
+            {
+                user: "user1",
+                content: {
+                    text: "Find low risk USDC yield on Mantle",
+                },
+            },
+            {
+                user: "assistant",
+                content: {
+                    text: "Top Mantle yields (USDC, low risk, TVL ≥ $1.00M):\n1. lendle USDC: 4.85% APY, TVL $12.40M, low risk\n\nIdle balances you could put to work:\n• 250 USDC ($250.00) is idle → lendle USDC at 4.85% APY, ~$12.13/year. Say: \"Supply 250 USDC to Lendle\"",
+                },
+            },
+        ],
+    ],
+    handler: async (runtime, message: Memory, _state, _options, callback) => {
+        try {
+            const symbols = [
+                ...new Set([
+                    ...getTokens(runtime).map((token) => token.symbol),
+                    ...Object.keys(MARKET_TOKENS),
+                    "ETH",
+                ]),
+            ];
+            const filter = parseYieldFilter(
+                message.content?.text ?? "",
+                symbols
+            );
+            const pools = filterYieldPools(
+                await getYieldPools(runtime),
+                filter
+            );
+            if (pools.length === 0) {
+                callback?.({
+                    text: `No Mantle yield opportunities match (${describeFilter(filter)}). Try a lower TVL or a higher risk level.`,
+                    content: { pools: [], suggestions: [] },
+                });
+                return true;
+            }
+
+            const lines = [
+                `Top Mantle yields (${describeFilter(filter)}):`,
+                ...pools.slice(0, TOP_POOLS).map(formatPool),
+            ];
+
+            // Suggestions need the wallet, the pool list is useful without it
+            let suggestions: YieldSuggestion[] = [];
+            const provider = initWalletProvider(runtime);
+            if (provider) {
+                const balances = await getIdleBalances(
+                    runtime,
+                    provider.getAddress() as Address
+                );
+                suggestions = suggestDeposits(runtime, balances, pools);
+                lines.push(
+                    "",
+                    ...(suggestions.length > 0
+                        ? [
+                              "Idle balances you could put to work:",
+                              ...suggestions.map(formatSuggestion),
+                          ]
+                        : [
+                              "None of your idle balances match a Lendle market or mETH staking with these filters.",
+                          ])
+                );
+            }
+            lines.push(
+                "",
+                "APYs are variable and reported by DefiLlama; the risk grade is a rough guide, not an audit."
+            );
+
+            callback?.({
+                text: lines.join("\n"),
+                content: {
+                    filter,
+                    pools: pools.slice(0, TOP_POOLS),
+                    suggestions: suggestions.map((suggestion) => ({
+                        action: suggestion.action,
+                        command: suggestion.command,
+                        pool: suggestion.pool.id,
+                        apy: suggestion.pool.apy,
+                        estimatedYearlyUsd: suggestion.estimatedYearlyUsd,
+                    })),
+                },
+            });
+            return true;
+        } catch (error) {
+            console.error("Failed to find yield:", error);
+            callback?.({
+                text: `Failed to find yield: ${error instanceof Error ? error.message : "Unknown error"}`,
+                content: {
+                    error:
+                        error instanceof Error
+                            ? error.message
+                            : "Unknown error",
+                },
+            });
+            return false;
+        }
+    },
+    validate: async (_runtime, message: Memory) =>
+        /\b(yields?|apy|apr|earn|farm|farming)\b/i.test(
+            message.content?.text ?? ""
+        ),
+    similes: [
+        "like browsing DefiLlama yields for Mantle",
+        "like asking where idle funds can earn interest",
+    ],
+};
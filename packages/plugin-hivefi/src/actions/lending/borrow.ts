@@ -1,7 +1,15 @@
 import type { Action, Memory } from "@elizaos/core";
-import { createPublicClient, http, type Address } from "viem";
-import { mantleChain } from "../../config/chains";
+import type { Address } from "viem";
+import { checkNetworkWrite } from "../../config/networks";
 import { initWalletProvider } from "../../providers/wallet";
+import { recordLedgerEntry } from "../../utils/ledger";
+import { simulateContractWrite } from "../../utils/simulation";
+import { trackBorrower } from "../../services/healthMonitor";
+import {
+    getPriceFeed,
+    getUsdPrice,
+    toPriceFeedToken,
+} from "../../utils/priceFeed";
 import { LENDING_POOL_ABI } from "./config";
 import {
     parseAmountAndToken,
@@ -29,7 +37,7 @@ export const borrow: Action = {
             {
                 user: "assistant",
                 content: {
-                    text: "Let's proceed with borrowing 100 USDC from Lendle on the Mantle network. Please hold on while I process the transaction.",
+                    text: "Let's proceed with borrowing 100 USDC from Lendle on ${network.label}. Please hold on while I process the transaction.",
                 },
             },
         ],
@@ -46,11 +54,18 @@ export const borrow: Action = {
                 return false;
             }
 
+            const network = provider.getNetwork();
+            const write = checkNetworkWrite(runtime, network);
+            if (!write.allowed) {
+                callback?.({
+                    text: `Borrow refused: ${write.reason}`,
+                    content: { error: write.reason, network: network.name },
+                });
+                return false;
+            }
+
             const walletClient = provider.getWalletClient();
-            const publicClient = createPublicClient({
-                chain: mantleChain,
-                transport: http("https://rpc.mantle.xyz"),
-            });
+            const publicClient = provider.getPublicClient();
 
             // Parse the borrow request
             const content = message.content?.text?.toLowerCase();
@@ -75,17 +90,17 @@ export const borrow: Action = {
             const source = message.content.source;
             if (source !== "telegram" && source !== "discord") {
                 callback?.({
-                    text: `Let's proceed with borrowing ${amount} ${tokenSymbol} from Lendle on the Mantle network. Please hold on while I process the transaction.`,
+                    text: `Let's proceed with borrowing ${amount} ${tokenSymbol} from Lendle on ${network.label}. Please hold on while I process the transaction.`,
                 });
             }
 
             // Get token configuration and addresses
-            const token = getTokenConfig(tokenSymbol);
-            const lendingPool = getLendingPoolAddress();
+            const token = getTokenConfig(runtime, tokenSymbol);
+            const lendingPool = getLendingPoolAddress(network);
             const userAddress = provider.getAddress() as Address;
 
             // Convert amount to proper decimals
-            const amountInWei = parseTokenAmount(amount, tokenSymbol);
+            const amountInWei = parseTokenAmount(runtime, amount, tokenSymbol);
 
             // Get user account data to check borrowing capacity
             const [
@@ -112,7 +127,16 @@ export const borrow: Action = {
             });
 
             // Check if user can borrow
-            const borrowCheck = canBorrow(accountData, amount, tokenSymbol);
+            const price = await getUsdPrice(
+                getPriceFeed(runtime),
+                toPriceFeedToken(token)
+            );
+            const borrowCheck = canBorrow(
+                accountData,
+                amount,
+                tokenSymbol,
+                price?.usd
+            );
             if (!borrowCheck.canBorrow) {
                 callback?.({
                     text: borrowCheck.reason || "Cannot borrow at this time",
@@ -126,25 +150,46 @@ export const borrow: Action = {
                     text: `Borrowing ${amount} ${tokenSymbol} from Lendle...`,
                 });
 
+                const borrowCall = {
+                    address: lendingPool,
+                    abi: LENDING_POOL_ABI,
+                    functionName: "borrow",
+                    args: [token.address, amountInWei, 2, 0, userAddress], // interestRateMode 2 = variable rate
+                    chain: network.chain,
+                    account: provider.getAccount(),
+                } as const;
+                const simulation = await simulateContractWrite(
+                    publicClient,
+                    borrowCall
+                );
+
                 // Get the latest nonce for borrow transaction
                 const borrowNonce = await publicClient.getTransactionCount({
                     address: userAddress,
                 });
 
                 const borrowHash = await walletClient.writeContract({
-                    address: lendingPool,
-                    abi: LENDING_POOL_ABI,
-                    functionName: "borrow",
-                    args: [token.address, amountInWei, 2, 0, userAddress], // interestRateMode 2 = variable rate
-                    chain: mantleChain,
-                    account: provider.getAccount(),
+                    ...borrowCall,
                     nonce: borrowNonce,
                 });
 
+                await recordLedgerEntry(runtime, message, {
+                    action: "BORROW_LENDING",
+                    chainId: network.chain.id,
+                    from: userAddress,
+                    to: lendingPool,
+                    token: tokenSymbol,
+                    amount,
+                    hash: borrowHash,
+                });
+
                 await publicClient.waitForTransactionReceipt({
                     hash: borrowHash,
                 });
 
+                // Watch the new position's health factor from now on
+                await trackBorrower(runtime, message, userAddress);
+
                 // Get updated user account data
                 const [
                     newTotalCollateralETH,
@@ -163,6 +208,7 @@ export const borrow: Action = {
                 // Get borrowed balance
                 const borrowedBalance = await getDebtTokenBalance(
                     publicClient,
+                    lendingPool,
                     tokenSymbol,
                     userAddress,
                     false
@@ -183,10 +229,16 @@ export const borrow: Action = {
                         amount,
                         tokenSymbol,
                         borrowHash,
+                        network,
                         formattedData,
-                        formatTokenAmount(borrowedBalance, tokenSymbol)
+                        formatTokenAmount(runtime, borrowedBalance, tokenSymbol),
+                        simulation
                     ),
-                    content: { hash: borrowHash },
+                    content: {
+                        hash: borrowHash,
+                        gas: simulation.gas.toString(),
+                        network: network.name,
+                    },
                 });
 
                 return true;
@@ -258,4 +258,13 @@ export const DEBT_TOKEN_ABI = [{
     outputs: [{ name: "", type: "uint256" }],
     stateMutability: "view",
     type: "function"
-}] as const;
\ No newline at end of file
+}] as const;
+
+// Lendle PriceOracle ABI, prices share the base unit of getUserAccountData
+export const PRICE_ORACLE_ABI = [{
+    inputs: [{ name: "asset", type: "address" }],
+    name: "getAssetPrice",
+    outputs: [{ name: "", type: "uint256" }],
+    stateMutability: "view",
+    type: "function"
+}] as const;
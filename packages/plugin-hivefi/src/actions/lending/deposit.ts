@@ -1,9 +1,12 @@
 // WIP
 
 import type { Action, Memory } from "@elizaos/core";
-import { createPublicClient, http, type Address } from "viem";
-import { mantleChain } from "../../config/chains";
+import type { Address } from "viem";
+import { checkNetworkWrite } from "../../config/networks";
 import { initWalletProvider } from "../../providers/wallet";
+import { ensureAllowance } from "../../utils/allowances";
+import { recordLedgerEntry } from "../../utils/ledger";
+import { simulateContractWrite } from "../../utils/simulation";
 import { LENDING_POOL_ABI, ERC20_ABI } from "./config";
 import {
     parseAmountAndToken,
@@ -31,7 +34,7 @@ export const deposit: Action = {
             {
                 user: "assistant",
                 content: {
-                    text: "Let's proceed with supplying 100 USDC to Lendle on the Mantle network. Please hold on while I process the transaction.",
+                    text: "Let's proceed with supplying 100 USDC to Lendle on ${network.label}. Please hold on while I process the transaction.",
                 },
             },
         ],
@@ -48,11 +51,18 @@ export const deposit: Action = {
                 return false;
             }
 
+            const network = provider.getNetwork();
+            const write = checkNetworkWrite(runtime, network);
+            if (!write.allowed) {
+                callback?.({
+                    text: `Deposit refused: ${write.reason}`,
+                    content: { error: write.reason, network: network.name },
+                });
+                return false;
+            }
+
             const walletClient = provider.getWalletClient();
-            const publicClient = createPublicClient({
-                chain: mantleChain,
-                transport: http("https://rpc.mantle.xyz"),
-            });
+            const publicClient = provider.getPublicClient();
 
             // Parse the deposit request
             const content = message.content?.text?.toLowerCase();
@@ -77,17 +87,17 @@ export const deposit: Action = {
             const source = message.content.source;
             if (source !== "telegram" && source !== "discord") {
                 callback?.({
-                    text: `Let's proceed with supplying ${amount} ${tokenSymbol} to Lendle on the Mantle network. Please hold on while I process the transaction.`,
+                    text: `Let's proceed with supplying ${amount} ${tokenSymbol} to Lendle on ${network.label}. Please hold on while I process the transaction.`,
                 });
             }
 
             // Get token configuration
-            const token = getTokenConfig(tokenSymbol);
-            const lendingPool = getLendingPoolAddress();
+            const token = getTokenConfig(runtime, tokenSymbol);
+            const lendingPool = getLendingPoolAddress(network);
             const userAddress = provider.getAddress() as Address;
 
             // Convert amount to proper decimals
-            const amountInWei = parseTokenAmount(amount, tokenSymbol);
+            const amountInWei = parseTokenAmount(runtime, amount, tokenSymbol);
 
             // Check token balance
             const balance = await publicClient.readContract({
@@ -100,6 +110,7 @@ export const deposit: Action = {
             if (balance < amountInWei) {
                 callback?.({
                     text: `Insufficient ${tokenSymbol} balance. You have ${formatTokenAmount(
+                        runtime,
                         balance,
                         tokenSymbol
                     )} ${tokenSymbol}, but trying to deposit ${amount} ${tokenSymbol}`,
@@ -107,50 +118,27 @@ export const deposit: Action = {
                 return false;
             }
 
-            // Check and handle allowance
-            const allowance = await publicClient.readContract({
-                address: token.address,
-                abi: ERC20_ABI,
-                functionName: "allowance",
-                args: [userAddress, lendingPool],
-            });
-
-            if (allowance < amountInWei) {
-                try {
-                    callback?.({
-                        text: `Approving ${tokenSymbol} for Lendle...`,
-                    });
-
-                    // Get the latest nonce for approval transaction
-                    const approvalNonce =
-                        await publicClient.getTransactionCount({
-                            address: userAddress,
-                        });
-
-                    const approvalHash = await walletClient.writeContract({
-                        address: token.address,
-                        abi: ERC20_ABI,
-                        functionName: "approve",
-                        args: [lendingPool, amountInWei],
-                        chain: mantleChain,
-                        account: provider.getAccount(),
-                        nonce: approvalNonce,
-                    });
-
-                    await publicClient.waitForTransactionReceipt({
-                        hash: approvalHash,
-                    });
-
-                    callback?.({
-                        text: `${tokenSymbol} approved successfully for Lendle.`,
-                    });
-                } catch (error) {
-                    console.error("Approval failed:", error);
+            // Grant Lendle exactly the amount deposited if needed
+            try {
+                const grant = await ensureAllowance(runtime, message, {
+                    publicClient,
+                    walletClient,
+                    account: provider.getAccount(),
+                    token,
+                    spender: lendingPool,
+                    amount: amountInWei,
+                });
+                if (grant) {
                     callback?.({
-                        text: formatError(error),
+                        text: `${tokenSymbol} ${grant.method === "permit" ? "permit" : "approval"} for ${amount} ${tokenSymbol} granted to Lendle.`,
                     });
-                    return false;
                 }
+            } catch (error) {
+                console.error("Approval failed:", error);
+                callback?.({
+                    text: formatError(error),
+                });
+                return false;
             }
 
             // Deposit into Lendle
@@ -159,21 +147,39 @@ export const deposit: Action = {
                     text: `Depositing ${amount} ${tokenSymbol} into Lendle...`,
                 });
 
+                const depositCall = {
+                    address: lendingPool,
+                    abi: LENDING_POOL_ABI,
+                    functionName: "deposit",
+                    args: [token.address, amountInWei, userAddress, 0], // referralCode = 0
+                    chain: network.chain,
+                    account: provider.getAccount(),
+                } as const;
+                const simulation = await simulateContractWrite(
+                    publicClient,
+                    depositCall
+                );
+
                 // Get the latest nonce for deposit transaction
                 const depositNonce = await publicClient.getTransactionCount({
                     address: userAddress,
                 });
 
                 const depositHash = await walletClient.writeContract({
-                    address: lendingPool,
-                    abi: LENDING_POOL_ABI,
-                    functionName: "deposit",
-                    args: [token.address, amountInWei, userAddress, 0], // referralCode = 0
-                    chain: mantleChain,
-                    account: provider.getAccount(),
+                    ...depositCall,
                     nonce: depositNonce,
                 });
 
+                await recordLedgerEntry(runtime, message, {
+                    action: "DEPOSIT_LENDING",
+                    chainId: network.chain.id,
+                    from: userAddress,
+                    to: lendingPool,
+                    token: tokenSymbol,
+                    amount,
+                    hash: depositHash,
+                });
+
                 await publicClient.waitForTransactionReceipt({
                     hash: depositHash,
                 });
@@ -224,9 +230,15 @@ export const deposit: Action = {
                         amount,
                         tokenSymbol,
                         depositHash,
-                        formattedData
+                        network,
+                        formattedData,
+                        simulation
                     ),
-                    content: { hash: depositHash },
+                    content: {
+                        hash: depositHash,
+                        gas: simulation.gas.toString(),
+                        network: network.name,
+                    },
                 });
 
                 return true;
@@ -1,8 +1,16 @@
-import type { Action, Memory } from "@elizaos/core";
-import { createPublicClient, http, type Address } from 'viem';
-import { mantleChain } from '../../config/chains';
+import type {
+    Action,
+    HandlerCallback,
+    IAgentRuntime,
+    Memory
+} from "@elizaos/core";
+import type { Address } from 'viem';
+import { checkNetworkWrite } from '../../config/networks';
 import { initWalletProvider } from '../../providers/wallet';
-import { LENDING_POOL_ABI, ERC20_ABI } from './config';
+import { ensureAllowance } from '../../utils/allowances';
+import { recordLedgerEntry } from '../../utils/ledger';
+import { simulateContractWrite } from '../../utils/simulation';
+import { LENDING_POOL_ABI, ERC20_ABI, type MARKET_TOKENS } from './config';
 import {
     parseAmountAndToken,
     getLendingPoolAddress,
@@ -15,6 +23,186 @@ import {
     formatError
 } from './utils';
 
+/**
+ * Approve if needed and repay `amount` of a variable-rate Lendle debt from the
+ * wallet configured with EVM_PRIVATE_KEY. Shared by REPAY_LENDING and the
+ * repay-to-safety plans offered by the health monitor.
+ */
+export async function repayToLendle(
+    runtime: IAgentRuntime,
+    message: Memory,
+    tokenSymbol: keyof typeof MARKET_TOKENS,
+    amount: string,
+    callback?: HandlerCallback
+): Promise<boolean> {
+    // Initialize wallet provider
+    const provider = initWalletProvider(runtime);
+    if (!provider) {
+        callback?.({
+            text: "Wallet not configured. Please set EVM_PRIVATE_KEY in your environment variables.",
+        });
+        return false;
+    }
+
+    const network = provider.getNetwork();
+    const write = checkNetworkWrite(runtime, network);
+    if (!write.allowed) {
+        callback?.({
+            text: `Repay refused: ${write.reason}`,
+            content: { error: write.reason, network: network.name },
+        });
+        return false;
+    }
+
+    const walletClient = provider.getWalletClient();
+    const publicClient = provider.getPublicClient();
+
+    // Get token configuration and addresses
+    const token = getTokenConfig(runtime, tokenSymbol);
+    const lendingPool = getLendingPoolAddress(network);
+    const userAddress = provider.getAddress() as Address;
+
+    // Convert amount to proper decimals
+    const amountInWei = parseTokenAmount(runtime, amount, tokenSymbol);
+
+    // Check wallet balance
+    const balance = await publicClient.readContract({
+        address: token.address,
+        abi: ERC20_ABI,
+        functionName: 'balanceOf',
+        args: [userAddress]
+    });
+
+    if (balance < amountInWei) {
+        callback?.({
+            text: `Insufficient ${tokenSymbol} balance. You have ${formatTokenAmount(runtime, balance, tokenSymbol)} ${tokenSymbol}, but trying to repay ${amount} ${tokenSymbol}`,
+        });
+        return false;
+    }
+
+    // Check debt balance
+    const debtBalance = await getDebtTokenBalance(publicClient, lendingPool, tokenSymbol, userAddress, false);
+    if (debtBalance === 0n) {
+        callback?.({
+            text: `You don't have any ${tokenSymbol} debt to repay.`,
+        });
+        return false;
+    }
+
+    // Grant Lendle exactly the amount repaid if needed
+    try {
+        const grant = await ensureAllowance(runtime, message, {
+            publicClient,
+            walletClient,
+            account: provider.getAccount(),
+            token,
+            spender: lendingPool,
+            amount: amountInWei
+        });
+        if (grant) {
+            callback?.({
+                text: `${tokenSymbol} ${grant.method === 'permit' ? 'permit' : 'approval'} for ${amount} ${tokenSymbol} granted to Lendle.`,
+            });
+        }
+    } catch (error) {
+        console.error('Approval failed:', error);
+        callback?.({
+            text: formatError(error),
+        });
+        return false;
+    }
+
+    // Repay to Lendle
+    try {
+        callback?.({
+            text: `Repaying ${amount} ${tokenSymbol} to Lendle...`,
+        });
+
+        const repayCall = {
+            address: lendingPool,
+            abi: LENDING_POOL_ABI,
+            functionName: 'repay',
+            args: [token.address, amountInWei, 2, userAddress], // rateMode 2 = variable rate
+            chain: network.chain,
+            account: provider.getAccount()
+        } as const;
+        const simulation = await simulateContractWrite(publicClient, repayCall);
+
+        // Get the latest nonce for repay transaction
+        const repayNonce = await publicClient.getTransactionCount({
+            address: userAddress
+        });
+
+        const repayHash = await walletClient.writeContract({
+            ...repayCall,
+            nonce: repayNonce
+        });
+
+        await recordLedgerEntry(runtime, message, {
+            action: "REPAY_LENDING",
+            chainId: network.chain.id,
+            from: userAddress,
+            to: lendingPool,
+            token: tokenSymbol,
+            amount,
+            hash: repayHash
+        });
+
+        await publicClient.waitForTransactionReceipt({
+            hash: repayHash
+        });
+
+        // Get updated user account data
+        const [
+            totalCollateralETH,
+            totalDebtETH,
+            availableBorrowsETH,
+            currentLiquidationThreshold,
+            ltv,
+            healthFactor
+        ] = await publicClient.readContract({
+            address: lendingPool,
+            abi: LENDING_POOL_ABI,
+            functionName: 'getUserAccountData',
+            args: [userAddress]
+        });
+
+        // Get updated borrowed balance
+        const newDebtBalance = await getDebtTokenBalance(publicClient, lendingPool, tokenSymbol, userAddress, false);
+
+        const formattedData = formatUserAccountData({
+            totalCollateralETH,
+            totalDebtETH,
+            availableBorrowsETH,
+            currentLiquidationThreshold,
+            ltv,
+            healthFactor
+        });
+
+        callback?.({
+            text: formatBorrowRepayMessage(
+                'repay',
+                amount,
+                tokenSymbol,
+                repayHash,
+                network,
+                formattedData,
+                formatTokenAmount(runtime, newDebtBalance, tokenSymbol),
+                simulation
+            ),
+            content: { hash: repayHash, gas: simulation.gas.toString(), network: network.name },
+        });
+
+        return true;
+    } catch (error) {
+        console.error('Repay failed:', error);
+        callback?.({
+            text: formatError(error),
+        });
+        return false;
+    }
+}
+
 export const repay: Action = {
     name: "REPAY_LENDING",
     description: "Repay borrowed tokens to Lendle lending pools on Mantle",
@@ -37,21 +225,6 @@ export const repay: Action = {
     suppressInitialMessage: true,
     handler: async (runtime, message: Memory, state, options, callback) => {
         try {
-            // Initialize wallet provider
-            const provider = initWalletProvider(runtime);
-            if (!provider) {
-                callback?.({
-                    text: "Wallet not configured. Please set EVM_PRIVATE_KEY in your environment variables.",
-                });
-                return false;
-            }
-
-            const walletClient = provider.getWalletClient();
-            const publicClient = createPublicClient({
-                chain: mantleChain,
-                transport: http("https://rpc.mantle.xyz")
-            });
-
             // Parse the repay request
             const content = message.content?.text?.toLowerCase();
             if (!content) {
@@ -79,155 +252,7 @@ export const repay: Action = {
                 });
             }
 
-            // Get token configuration and addresses
-            const token = getTokenConfig(tokenSymbol);
-            const lendingPool = getLendingPoolAddress();
-            const userAddress = provider.getAddress() as Address;
-
-            // Convert amount to proper decimals
-            const amountInWei = parseTokenAmount(amount, tokenSymbol);
-
-            // Check wallet balance
-            const balance = await publicClient.readContract({
-                address: token.address,
-                abi: ERC20_ABI,
-                functionName: 'balanceOf',
-                args: [userAddress]
-            });
-
-            if (balance < amountInWei) {
-                callback?.({
-                    text: `Insufficient ${tokenSymbol} balance. You have ${formatTokenAmount(balance, tokenSymbol)} ${tokenSymbol}, but trying to repay ${amount} ${tokenSymbol}`,
-                });
-                return false;
-            }
-
-            // Check debt balance
-            const debtBalance = await getDebtTokenBalance(publicClient, tokenSymbol, userAddress, false);
-            if (debtBalance === 0n) {
-                callback?.({
-                    text: `You don't have any ${tokenSymbol} debt to repay.`,
-                });
-                return false;
-            }
-
-            // Check and handle allowance
-            const allowance = await publicClient.readContract({
-                address: token.address,
-                abi: ERC20_ABI,
-                functionName: 'allowance',
-                args: [userAddress, lendingPool]
-            });
-
-            if (allowance < amountInWei) {
-                try {
-                    callback?.({
-                        text: `Approving ${tokenSymbol} for Lendle...`,
-                    });
-
-                    // Get the latest nonce for approval transaction
-                    const approvalNonce = await publicClient.getTransactionCount({
-                        address: userAddress
-                    });
-
-                    const approvalHash = await walletClient.writeContract({
-                        address: token.address,
-                        abi: ERC20_ABI,
-                        functionName: 'approve',
-                        args: [lendingPool, amountInWei],
-                        chain: mantleChain,
-                        account: provider.getAccount(),
-                        nonce: approvalNonce
-                    });
-
-                    await publicClient.waitForTransactionReceipt({
-                        hash: approvalHash
-                    });
-
-                    callback?.({
-                        text: `${tokenSymbol} approved successfully for Lendle.`,
-                    });
-                } catch (error) {
-                    console.error('Approval failed:', error);
-                    callback?.({
-                        text: formatError(error),
-                    });
-                    return false;
-                }
-            }
-
-            // Repay to Lendle
-            try {
-                callback?.({
-                    text: `Repaying ${amount} ${tokenSymbol} to Lendle...`,
-                });
-
-                // Get the latest nonce for repay transaction
-                const repayNonce = await publicClient.getTransactionCount({
-                    address: userAddress
-                });
-
-                const repayHash = await walletClient.writeContract({
-                    address: lendingPool,
-                    abi: LENDING_POOL_ABI,
-                    functionName: 'repay',
-                    args: [token.address, amountInWei, 2, userAddress], // rateMode 2 = variable rate
-                    chain: mantleChain,
-                    account: provider.getAccount(),
-                    nonce: repayNonce
-                });
-
-                await publicClient.waitForTransactionReceipt({
-                    hash: repayHash
-                });
-
-                // Get updated user account data
-                const [
-                    totalCollateralETH,
-                    totalDebtETH,
-                    availableBorrowsETH,
-                    currentLiquidationThreshold,
-                    ltv,
-                    healthFactor
-                ] = await publicClient.readContract({
-                    address: lendingPool,
-                    abi: LENDING_POOL_ABI,
-                    functionName: 'getUserAccountData',
-                    args: [userAddress]
-                });
-
-                // Get updated borrowed balance
-                const newDebtBalance = await getDebtTokenBalance(publicClient, tokenSymbol, userAddress, false);
-
-                const formattedData = formatUserAccountData({
-                    totalCollateralETH,
-                    totalDebtETH,
-                    availableBorrowsETH,
-                    currentLiquidationThreshold,
-                    ltv,
-                    healthFactor
-                });
-
-                callback?.({
-                    text: formatBorrowRepayMessage(
-                        'repay',
-                        amount,
-                        tokenSymbol,
-                        repayHash,
-                        formattedData,
-                        formatTokenAmount(newDebtBalance, tokenSymbol)
-                    ),
-                    content: { hash: repayHash },
-                });
-
-                return true;
-            } catch (error) {
-                console.error('Repay failed:', error);
-                callback?.({
-                    text: formatError(error),
-                });
-                return false;
-            }
+            return await repayToLendle(runtime, message, tokenSymbol, amount, callback);
         } catch (error) {
             console.error('Operation failed:', error);
             callback?.({
@@ -0,0 +1,70 @@
+import type { Action, Memory } from "@elizaos/core";
+import { clearRepayPlan, getRepayPlan } from "../../services/healthMonitor";
+import { repayToLendle } from "./repay";
+import { formatError } from "./utils";
+
+export const repayToSafety: Action = {
+    name: "REPAY_TO_SAFETY",
+    description:
+        "Execute the repay-to-safety plan offered by a Lendle health factor alert",
+    examples: [
+        [
+            {
+                user: "user1",
+                content: {
+                    text: "Repay to safety",
+                },
+            },
+            {
+                user: "assistant",
+                content: {
+                    text: "Repaying 120.5 USDC to Lendle to bring your health factor back to 1.60...",
+                },
+            },
+        ],
+    ],
+    suppressInitialMessage: true,
+    handler: async (runtime, message: Memory, _state, _options, callback) => {
+        try {
+            const plan = await getRepayPlan(runtime, message.userId);
+            if (!plan || plan.roomId !== message.roomId) {
+                callback?.({
+                    text: "There is no pending repay-to-safety plan in this conversation. A new one is offered with the next health factor alert.",
+                });
+                return false;
+            }
+
+            // The plan runs once, even if the repay fails
+            await clearRepayPlan(runtime, message.userId);
+            callback?.({
+                text: `Repaying ${plan.amount} ${plan.tokenSymbol} to Lendle to bring your health factor back to ${plan.healthFactorAfter.toFixed(2)}...`,
+            });
+
+            return await repayToLendle(
+                runtime,
+                message,
+                plan.tokenSymbol,
+                plan.amount,
+                callback
+            );
+        } catch (error) {
+            console.error("Repay to safety failed:", error);
+            callback?.({
+                text: formatError(error),
+                content: {
+                    error:
+                        error instanceof Error
+                            ? error.message
+                            : "Unknown error",
+                },
+            });
+            return false;
+        }
+    },
+    validate: async (_runtime, message: Memory) =>
+        /\brepay\s+to\s+safety\b/i.test(message.content?.text ?? ""),
+    similes: [
+        "like paying down a loan before it gets liquidated",
+        "like following a margin call plan",
+    ],
+};
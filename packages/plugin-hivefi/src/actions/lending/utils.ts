@@ -1,8 +1,20 @@
+import type { IAgentRuntime } from "@elizaos/core";
 import { parseUnits, formatUnits, type PublicClient, type Address } from "viem";
-import { TOKENS } from "../../config/tokens";
-import type { TokenConfig } from "../../config/tokens";
 import {
-    LENDING_ADDRESSES,
+    formatTxLink,
+    getLendleContracts,
+    type NetworkProfile,
+} from "../../config/networks";
+import {
+    getTokenBySymbol,
+    type ERC20TokenConfig,
+} from "../../config/tokens";
+import {
+    SimulationError,
+    formatSimulation,
+    type SimulationResult,
+} from "../../utils/simulation";
+import {
     MARKET_TOKENS,
     ATOKEN_ABI,
     LENDING_POOL_ABI,
@@ -21,38 +33,49 @@ export function parseAmountAndToken(text: string): {
     return { amount, tokenSymbol };
 }
 
-export function formatTokenAmount(amount: bigint, tokenSymbol: string): string {
-    const token = TOKENS[tokenSymbol as keyof typeof TOKENS];
+export function formatTokenAmount(
+    runtime: IAgentRuntime,
+    amount: bigint,
+    tokenSymbol: string
+): string {
+    const token = getTokenBySymbol(runtime, tokenSymbol);
     if (!token) throw new Error(`Token ${tokenSymbol} not found`);
     return formatUnits(amount, token.decimals);
 }
 
-export function parseTokenAmount(amount: string, tokenSymbol: string): bigint {
-    const token = TOKENS[tokenSymbol as keyof typeof TOKENS];
+export function parseTokenAmount(
+    runtime: IAgentRuntime,
+    amount: string,
+    tokenSymbol: string
+): bigint {
+    const token = getTokenBySymbol(runtime, tokenSymbol);
     if (!token) throw new Error(`Token ${tokenSymbol} not found`);
     return parseUnits(amount, token.decimals);
 }
 
 export function getTokenConfig(
+    runtime: IAgentRuntime,
     symbol: string
-): TokenConfig & { type: "erc20"; address: Address } {
-    const token = TOKENS[symbol as keyof typeof TOKENS];
+): ERC20TokenConfig {
+    const token = getTokenBySymbol(runtime, symbol);
     if (!token) throw new Error(`Token ${symbol} not found`);
     if (token.type !== "erc20")
         throw new Error(`Token ${symbol} is not an ERC20 token`);
     return token;
 }
 
-export function getLendingPoolAddress(): Address {
-    return LENDING_ADDRESSES.LENDING_POOL;
+// Lendle deployments come from the network profile and throw where Lendle
+// is not deployed
+export function getLendingPoolAddress(network: NetworkProfile): Address {
+    return getLendleContracts(network).lendingPool;
 }
 
-export function getDataProviderAddress(): Address {
-    return LENDING_ADDRESSES.DATA_PROVIDER;
+export function getDataProviderAddress(network: NetworkProfile): Address {
+    return getLendleContracts(network).dataProvider;
 }
 
-export function getPriceOracleAddress(): Address {
-    return LENDING_ADDRESSES.PRICE_ORACLE;
+export function getPriceOracleAddress(network: NetworkProfile): Address {
+    return getLendleContracts(network).priceOracle;
 }
 
 // Helper to format user account data with additional balances
@@ -105,6 +128,10 @@ export async function getATokenBalance(
 
 // Helper to format error messages
 export function formatError(error: unknown): string {
+    // Simulation errors already carry a readable revert reason
+    if (error instanceof SimulationError) {
+        return error.message;
+    }
     if (error instanceof Error) {
         // Handle common error cases
         if (error.message.includes("insufficient allowance")) {
@@ -127,12 +154,15 @@ export function formatSuccessMessage(
     amount: string,
     tokenSymbol: string,
     txHash: string,
-    accountData: UserAccountData
+    network: NetworkProfile,
+    accountData: UserAccountData,
+    simulation?: SimulationResult
 ): string {
     return [
-        `Successfully ${action}ed ${amount} ${tokenSymbol} into Lendle`,
+        `Successfully ${action}ed ${amount} ${tokenSymbol} into Lendle on ${network.label}`,
         "",
-        `[View on Explorer](https://explorer.mantle.xyz/tx/${txHash})`,
+        formatTxLink(network, txHash),
+        ...(simulation ? [`🧪 ${formatSimulation(simulation)}`] : []),
         "",
         "📊 Position Summary",
         `💰 Total Collateral: ${Number(accountData.totalCollateralETH).toFixed(
@@ -151,13 +181,12 @@ export function formatSuccessMessage(
 // Helper to check debt token balance (borrowed amount)
 export async function getDebtTokenBalance(
     publicClient: PublicClient,
+    lendingPool: Address,
     _tokenSymbol: keyof typeof MARKET_TOKENS,
     userAddress: Address,
     _isStableRate = false
 ): Promise<bigint> {
     try {
-        const lendingPool = getLendingPoolAddress();
-
         // Get user account data from lending pool
         const [
             _totalCollateralETH,
@@ -187,16 +216,20 @@ export async function getDebtTokenBalance(
     }
 }
 
-// Helper to check if user can borrow
+// Helper to check if user can borrow. Available borrows are in USD, so the
+// amount is converted with `usdPrice` when the price feed has one
 export function canBorrow(
     accountData: UserAccountData,
     amount: string,
-    tokenSymbol: string
+    tokenSymbol: string,
+    usdPrice?: number
 ): {
     canBorrow: boolean;
     reason?: string;
 } {
     const borrowAmount = Number(amount);
+    const borrowValue =
+        usdPrice === undefined ? borrowAmount : borrowAmount * usdPrice;
     const availableToBorrow = Number(accountData.availableBorrowsETH);
     const healthFactor = Number(accountData.healthFactor);
 
@@ -207,7 +240,7 @@ export function canBorrow(
         };
     }
 
-    if (borrowAmount > availableToBorrow) {
+    if (borrowValue > availableToBorrow) {
         return {
             canBorrow: false,
             reason: `You can only borrow up to ${availableToBorrow} USD worth of ${tokenSymbol}`,
@@ -230,15 +263,18 @@ export function formatBorrowRepayMessage(
     amount: string,
     tokenSymbol: string,
     txHash: string,
+    network: NetworkProfile,
     accountData: UserAccountData,
-    _borrowedBalance?: string
+    _borrowedBalance?: string,
+    simulation?: SimulationResult
 ): string {
     return [
         `Successfully ${action}ed ${amount} ${tokenSymbol} ${
             action === "borrow" ? "from" : "to"
-        } Lendle`,
+        } Lendle on ${network.label}`,
         "",
-        `[View on Explorer](https://explorer.mantle.xyz/tx/${txHash})`,
+        formatTxLink(network, txHash),
+        ...(simulation ? [`🧪 ${formatSimulation(simulation)}`] : []),
         "",
         "📊 Position Summary",
         `💰 Total Collateral: ${Number(accountData.totalCollateralETH).toFixed(
@@ -1,7 +1,9 @@
 import type { Action, Memory } from "@elizaos/core";
-import { createPublicClient, http, type Address } from "viem";
-import { mantleChain } from "../../config/chains";
+import type { Address } from "viem";
+import { checkNetworkWrite } from "../../config/networks";
 import { initWalletProvider } from "../../providers/wallet";
+import { recordLedgerEntry } from "../../utils/ledger";
+import { simulateContractWrite } from "../../utils/simulation";
 import { LENDING_POOL_ABI, ERC20_ABI } from "./config";
 import {
     parseAmountAndToken,
@@ -29,7 +31,7 @@ export const withdraw: Action = {
             {
                 user: "assistant",
                 content: {
-                    text: "Let's proceed with withdrawing 0.01 USDC from Lendle on the Mantle network. Please hold on while I process the transaction.",
+                    text: "Let's proceed with withdrawing 0.01 USDC from Lendle on ${network.label}. Please hold on while I process the transaction.",
                 },
             },
         ],
@@ -46,11 +48,18 @@ export const withdraw: Action = {
                 return false;
             }
 
+            const network = provider.getNetwork();
+            const write = checkNetworkWrite(runtime, network);
+            if (!write.allowed) {
+                callback?.({
+                    text: `Withdraw refused: ${write.reason}`,
+                    content: { error: write.reason, network: network.name },
+                });
+                return false;
+            }
+
             const walletClient = provider.getWalletClient();
-            const publicClient = createPublicClient({
-                chain: mantleChain,
-                transport: http("https://rpc.mantle.xyz"),
-            });
+            const publicClient = provider.getPublicClient();
 
             // Parse the withdraw request
             const content = message.content?.text?.toLowerCase();
@@ -75,17 +84,17 @@ export const withdraw: Action = {
             const source = message.content.source;
             if (source !== "telegram" && source !== "discord") {
                 callback?.({
-                    text: `Let's proceed with withdrawing ${amount} ${tokenSymbol} from Lendle on the Mantle network. Please hold on while I process the transaction.`,
+                    text: `Let's proceed with withdrawing ${amount} ${tokenSymbol} from Lendle on ${network.label}. Please hold on while I process the transaction.`,
                 });
             }
 
             // Get token configuration
-            const token = getTokenConfig(tokenSymbol);
-            const lendingPool = getLendingPoolAddress();
+            const token = getTokenConfig(runtime, tokenSymbol);
+            const lendingPool = getLendingPoolAddress(network);
             const userAddress = provider.getAddress() as Address;
 
             // Convert amount to proper decimals
-            const amountInWei = parseTokenAmount(amount, tokenSymbol);
+            const amountInWei = parseTokenAmount(runtime, amount, tokenSymbol);
 
             // Check supplied balance
             const suppliedBalance = await getATokenBalance(
@@ -97,6 +106,7 @@ export const withdraw: Action = {
             if (suppliedBalance < amountInWei) {
                 callback?.({
                     text: `Insufficient ${tokenSymbol} supplied. You have ${formatTokenAmount(
+                        runtime,
                         suppliedBalance,
                         tokenSymbol
                     )} ${tokenSymbol} supplied, but trying to withdraw ${amount} ${tokenSymbol}`,
@@ -110,21 +120,40 @@ export const withdraw: Action = {
                     text: `Withdrawing ${amount} ${tokenSymbol} from Lendle...`,
                 });
 
+                // Catches withdrawals that would drop the health factor below 1
+                const withdrawCall = {
+                    address: lendingPool,
+                    abi: LENDING_POOL_ABI,
+                    functionName: "withdraw",
+                    args: [token.address, amountInWei, userAddress],
+                    chain: network.chain,
+                    account: provider.getAccount(),
+                } as const;
+                const simulation = await simulateContractWrite(
+                    publicClient,
+                    withdrawCall
+                );
+
                 // Get the latest nonce for withdraw transaction
                 const withdrawNonce = await publicClient.getTransactionCount({
                     address: userAddress,
                 });
 
                 const withdrawHash = await walletClient.writeContract({
-                    address: lendingPool,
-                    abi: LENDING_POOL_ABI,
-                    functionName: "withdraw",
-                    args: [token.address, amountInWei, userAddress],
-                    chain: mantleChain,
-                    account: provider.getAccount(),
+                    ...withdrawCall,
                     nonce: withdrawNonce,
                 });
 
+                await recordLedgerEntry(runtime, message, {
+                    action: "WITHDRAW_LENDING",
+                    chainId: network.chain.id,
+                    from: userAddress,
+                    to: lendingPool,
+                    token: tokenSymbol,
+                    amount,
+                    hash: withdrawHash,
+                });
+
                 await publicClient.waitForTransactionReceipt({
                     hash: withdrawHash,
                 });
@@ -175,9 +204,15 @@ export const withdraw: Action = {
                         amount,
                         tokenSymbol,
                         withdrawHash,
-                        formattedData
+                        network,
+                        formattedData,
+                        simulation
                     ),
-                    content: { hash: withdrawHash },
+                    content: {
+                        hash: withdrawHash,
+                        gas: simulation.gas.toString(),
+                        network: network.name,
+                    },
                 });
 
                 return true;
@@ -0,0 +1,108 @@
+import type { Action, Memory } from "@elizaos/core";
+import { formatUnits, type Address } from "viem";
+import { initWalletProvider } from "../providers/wallet";
+import { listAllowances, type Allowance } from "../utils/allowances";
+
+export function formatAllowance(allowance: Allowance): string {
+    const amount = allowance.unlimited
+        ? "unlimited"
+        : `${formatUnits(allowance.amount, allowance.token.decimals)} ${allowance.token.symbol}`;
+    const record = allowance.record;
+    const granted = record
+        ? ` (${record.method} ${new Date(record.updatedAt).toISOString().slice(0, 10)}, tx ${record.hash})`
+        : "";
+    return `• ${allowance.token.symbol} → ${allowance.spenderName}: ${amount}${granted}`;
+}
+
+export const listApprovals: Action = {
+    name: "LIST_APPROVALS",
+    description:
+        "List the ERC-20 allowances the agent wallet has outstanding toward Lendle, Merchant Moe and other spenders on Mantle",
+    examples: [
+        [
+            {
+                user: "user1",
+                content: {
+                    text: "Show my token approvals",
+                },
+            },
+            {
+                user: "assistant",
+                content: {
+                    text: "Outstanding approvals:\n• USDC → Lendle: 100 USDC (approve 2025-01-10, tx 0x...)\n• USDT → Merchant Moe: unlimited",
+                },
+            },
+        ],
+    ],
+    handler: async (runtime, _message: Memory, _state, _options, callback) => {
+        try {
+            const provider = initWalletProvider(runtime);
+            if (!provider) {
+                callback?.({
+                    text: "Wallet not configured. Please set EVM_PRIVATE_KEY in your environment variables.",
+                });
+                return false;
+            }
+
+            const network = provider.getNetwork();
+            const allowances = await listAllowances(
+                runtime,
+                provider.getPublicClient(),
+                provider.getAddress() as Address
+            );
+            if (allowances.length === 0) {
+                callback?.({
+                    text: `No outstanding approvals on ${network.label}. Every allowance of the wallet is zero.`,
+                    content: { approvals: [], network: network.name },
+                });
+                return true;
+            }
+
+            const unlimited = allowances.filter((allowance) => allowance.unlimited);
+            const lines = [
+                `Outstanding approvals on ${network.label}:`,
+                ...allowances.map(formatAllowance),
+            ];
+            if (unlimited.length > 0) {
+                lines.push(
+                    "",
+                    `${unlimited.length} unlimited approval${unlimited.length > 1 ? "s" : ""}, consider revoking them: Revoke <token> approval for <spender>`
+                );
+            }
+
+            callback?.({
+                text: lines.join("\n"),
+                content: {
+                    approvals: allowances.map((allowance) => ({
+                        token: allowance.token.symbol,
+                        spender: allowance.spender,
+                        spenderName: allowance.spenderName,
+                        amount: allowance.amount.toString(),
+                        unlimited: allowance.unlimited,
+                    })),
+                    network: network.name,
+                },
+            });
+            return true;
+        } catch (error) {
+            console.error("Failed to list approvals:", error);
+            callback?.({
+                text: `Failed to list approvals: ${error instanceof Error ? error.message : "Unknown error"}`,
+                content: {
+                    error:
+                        error instanceof Error
+                            ? error.message
+                            : "Unknown error",
+                },
+            });
+            return false;
+        }
+    },
+    validate: async (_runtime, message: Memory) =>
+        /\b(approvals?|allowances?)\b/i.test(message.content?.text ?? "") &&
+        !/\b(revoke|remove|cancel)\b/i.test(message.content?.text ?? ""),
+    similes: [
+        "like checking token approvals on a block explorer",
+        "like reviewing which contracts can spend your tokens",
+    ],
+};
@@ -0,0 +1,97 @@
+import type { Action, Memory } from "@elizaos/core";
+import {
+    describeOrder,
+    getUserOrders,
+    type ScheduledOrder,
+} from "../utils/orders";
+
+// Finished orders shown below the active ones
+const RECENT_CLOSED_ORDERS = 5;
+
+function formatDate(timestamp: number): string {
+    return new Date(timestamp).toISOString().slice(0, 16).replace("T", " ");
+}
+
+function formatOrder(order: ScheduledOrder): string {
+    const last = order.history[order.history.length - 1];
+    const details = [
+        order.status === "active" && order.nextRunAt
+            ? `next run ${formatDate(order.nextRunAt)} UTC`
+            : null,
+        order.executions > 0 ? `executed ${order.executions}x` : null,
+        last ? `last: ${last.type} ${formatDate(last.at)} UTC` : null,
+    ].filter(Boolean);
+    return `• ${order.id} [${order.status}] ${describeOrder(order)}${details.length > 0 ? ` (${details.join(", ")})` : ""}`;
+}
+
+export const listOrders: Action = {
+    name: "LIST_ORDERS",
+    description: "List the user's DCA, limit and stop-loss orders",
+    examples: [
+        [
+            {
+                user: "user1",
+                content: {
+                    text: "Show my orders",
+                },
+            },
+            {
+                user: "assistant",
+                content: {
+                    text: "Active orders:\n• ord-m5x2k1abc [active] DCA 10 USDT → MNT every Monday (next run 2025-01-13 00:00 UTC)",
+                },
+            },
+        ],
+    ],
+    handler: async (runtime, message: Memory, _state, _options, callback) => {
+        try {
+            const orders = await getUserOrders(runtime, message.userId);
+            const active = orders.filter((order) => order.status === "active");
+            const closed = orders
+                .filter((order) => order.status !== "active")
+                .sort((a, b) => b.updatedAt - a.updatedAt)
+                .slice(0, RECENT_CLOSED_ORDERS);
+
+            if (orders.length === 0) {
+                callback?.({
+                    text: "You have no orders. Try: Buy 10 USDT of MNT every Monday",
+                    content: { orders: [] },
+                });
+                return true;
+            }
+
+            const lines = [
+                active.length > 0 ? "Active orders:" : "You have no active orders.",
+                ...active.map(formatOrder),
+            ];
+            if (closed.length > 0) {
+                lines.push("", "Recent orders:", ...closed.map(formatOrder));
+            }
+
+            callback?.({
+                text: lines.join("\n"),
+                content: { orders: [...active, ...closed] },
+            });
+            return true;
+        } catch (error) {
+            console.error("Failed to list orders:", error);
+            callback?.({
+                text: `Failed to list orders: ${error instanceof Error ? error.message : "Unknown error"}`,
+                content: {
+                    error:
+                        error instanceof Error
+                            ? error.message
+                            : "Unknown error",
+                },
+            });
+            return false;
+        }
+    },
+    validate: async (_runtime, message: Memory) =>
+        /\borders?\b/i.test(message.content?.text ?? "") &&
+        /\b(list|show|my|active|open|status)\b/i.test(message.content?.text ?? ""),
+    similes: [
+        "like checking open orders on an exchange",
+        "like reviewing recurring buys",
+    ],
+};
@@ -0,0 +1,76 @@
+import type { Action, Memory } from "@elizaos/core";
+import { getUnstakeRequests } from "../services/unstakeTracker";
+
+export const listUnstakeRequests: Action = {
+    name: "LIST_UNSTAKE_REQUESTS",
+    description: "List the user's mETH unstake requests waiting to be claimed",
+    examples: [
+        [
+            {
+                user: "user1",
+                content: {
+                    text: "Show my pending unstake requests",
+                },
+            },
+            {
+                user: "assistant",
+                content: {
+                    text: "You have 1 pending unstake request:\n#1234: 1 mETH → 1.05 ETH (requested 2025-01-10)",
+                },
+            },
+        ],
+    ],
+    handler: async (runtime, message: Memory, _state, _options, callback) => {
+        try {
+            const requests = (await getUnstakeRequests(runtime)).filter(
+                (request) =>
+                    request.userId === message.userId &&
+                    request.status === "pending"
+            );
+
+            if (requests.length === 0) {
+                callback?.({
+                    text: "You have no pending mETH unstake requests.",
+                    content: { requests: [] },
+                });
+                return true;
+            }
+
+            const lines = requests.map(
+                (request) =>
+                    `#${request.requestId}: ${request.mETHLocked} mETH → ${request.ethRequested} ETH (requested ${new Date(request.createdAt).toISOString().slice(0, 10)})${
+                        request.error ? ` · last claim attempt failed: ${request.error}` : ""
+                    }`
+            );
+            callback?.({
+                text: [
+                    `You have ${requests.length} pending unstake request${requests.length === 1 ? "" : "s"}:`,
+                    ...lines,
+                    "",
+                    "Each request is claimed automatically once it is finalized.",
+                ].join("\n"),
+                content: { requests },
+            });
+            return true;
+        } catch (error) {
+            console.error("Failed to list unstake requests:", error);
+            callback?.({
+                text: `Failed to list unstake requests: ${error instanceof Error ? error.message : "Unknown error"}`,
+                content: {
+                    error:
+                        error instanceof Error
+                            ? error.message
+                            : "Unknown error",
+                },
+            });
+            return false;
+        }
+    },
+    validate: async (_runtime, message: Memory) =>
+        /\bunstak/i.test(message.content?.text ?? "") &&
+        /\b(list|show|pending|my|status)\b/i.test(message.content?.text ?? ""),
+    similes: [
+        "like checking on a pending withdrawal",
+        "like tracking an mETH unstake",
+    ],
+};
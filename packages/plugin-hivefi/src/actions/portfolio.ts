@@ -1,25 +1,27 @@
 import type { Action, Memory, State } from "@elizaos/core";
-import { formatEther, formatUnits, createPublicClient, http } from "viem";
-import { mantleChain } from "../config/chains";
+import { formatAddressLink } from "../config/networks";
 import { initWalletProvider } from "../providers/wallet";
-import { TOKENS, getERC20Tokens } from "../config/tokens";
-import axios from 'axios';
-
-// ABI for ERC20 balanceOf
-const ERC20_BALANCE_ABI = [{
-    "constant": true,
-    "inputs": [{ "name": "_owner", "type": "address" }],
-    "name": "balanceOf",
-    "outputs": [{ "name": "balance", "type": "uint256" }],
-    "type": "function"
-}] as const;
-
-interface TokenBalance {
-    symbol: string;
-    name: string;
-    balance: string;
-    usdPrice: number;
-    usdValue: number;
+import { refreshPortfolio, type HoldingKind } from "../utils/portfolio";
+import { PRICE_SOURCE_LABELS } from "../utils/priceFeed";
+
+const KIND_LABELS: Record<HoldingKind, string> = {
+    wallet: '',
+    lendle_supply: 'Supplied ',
+    lendle_debt: 'Borrowed ',
+    meth_staking: '',
+    meth_unstaking: 'Unstaking ',
+};
+
+function formatUsd(value: number): string {
+    return value.toLocaleString(undefined, {
+        style: 'currency',
+        currency: 'USD'
+    });
+}
+
+function formatSigned(usd: number, percent: number): string {
+    const sign = usd >= 0 ? '+' : '-';
+    return `${sign}${formatUsd(Math.abs(usd))} (${sign}${Math.abs(percent).toFixed(2)}%)`;
 }
 
 // Module-level response cache
@@ -37,7 +39,7 @@ setInterval(() => {
 
 export const portfolio: Action = {
     name: "SHOW_PORTFOLIO",
-    description: "Show your Mantle wallet portfolio with token balances and USD values",
+    description: "Show your Mantle portfolio in USD: wallet balances, Lendle positions, mETH staking, value change and PnL",
     examples: [
         [
             {
@@ -55,7 +57,7 @@ export const portfolio: Action = {
         ],
     ],
     suppressInitialMessage: true, // This prevents double responses in Telegram
-    handler: async (runtime, message: Memory, state: State | undefined, options, callback) => {
+    handler: async (runtime, message: Memory, state: State | undefined, _options, callback) => {
         if (!callback) return false;
         if (!state) return false;
 
@@ -81,10 +83,7 @@ export const portfolio: Action = {
             }
 
             const address = provider.getAddress() as `0x${string}`;
-            const publicClient = createPublicClient({
-                chain: mantleChain,
-                transport: http("https://rpc.mantle.xyz")
-            });
+            const network = provider.getNetwork();
 
             // For non-telegram clients, send an immediate acknowledgment
             if (!isTelegram) {
@@ -93,85 +92,51 @@ export const portfolio: Action = {
                 });
             }
 
-            // Fetch all data in parallel for better performance
-            const [mntBalance, erc20Tokens, pricesResponse] = await Promise.all([
-                publicClient.getBalance({ address }),
-                getERC20Tokens(),
-                axios.get('https://api.coingecko.com/api/v3/simple/price', {
-                    params: {
-                        ids: Object.values(TOKENS).map(t => t.coingeckoId).filter(Boolean).join(','),
-                        vs_currencies: 'usd'
-                    },
-                    timeout: 10000 // Increased timeout
-                }).catch(error => {
-                    console.error('Error fetching prices:', error);
-                    return { data: {} };
-                })
-            ]);
-
-            const mntBalanceFormatted = formatEther(mntBalance);
-            const tokenBalances: TokenBalance[] = [{
-                symbol: 'MNT',
-                name: TOKENS.MNT.name,
-                balance: mntBalanceFormatted,
-                usdPrice: pricesResponse.data?.[TOKENS.MNT.coingeckoId]?.usd || 0,
-                usdValue: Number(mntBalanceFormatted) * (pricesResponse.data?.[TOKENS.MNT.coingeckoId]?.usd || 0),
-            }];
-
-            // Fetch ERC20 balances
-            await Promise.all(erc20Tokens.map(async (token) => {
-                try {
-                    const balance = await publicClient.readContract({
-                        address: token.address,
-                        abi: ERC20_BALANCE_ABI,
-                        functionName: 'balanceOf',
-                        args: [address]
-                    }) as bigint;
-
-                    const formattedBalance = formatUnits(balance, token.decimals);
-                    if (Number(formattedBalance) > 0) {
-                        const usdPrice = pricesResponse.data?.[token.coingeckoId]?.usd || 0;
-                        tokenBalances.push({
-                            symbol: token.symbol,
-                            name: token.name,
-                            balance: formattedBalance,
-                            usdPrice,
-                            usdValue: Number(formattedBalance) * usdPrice,
+            const { valuation, changes, pnl } = await refreshPortfolio(runtime, address);
+
+            const section = (title: string, kinds: HoldingKind[]) => {
+                const holdings = valuation.holdings.filter(holding => kinds.includes(holding.kind));
+                if (holdings.length === 0) return [];
+                return [
+                    title,
+                    ...holdings.map(holding => {
+                        const balanceStr = holding.quantity.toLocaleString(undefined, {
+                            maximumFractionDigits: holding.symbol === 'USDT' || holding.symbol === 'USDC' ? 2 : 6
                         });
-                    }
-                } catch (error) {
-                    console.error(`Error fetching ${token.symbol} balance:`, error);
-                }
-            }));
+                        const valueStr = holding.usdPrice === null
+                            ? 'no price'
+                            : `${formatUsd(holding.usdValue)}${holding.staleUsdPrice ? ', stale price' : ''}`;
+                        return `• ${KIND_LABELS[holding.kind]}${holding.symbol} (${holding.name}): ${balanceStr} (${valueStr})`;
+                    }),
+                    '',
+                ];
+            };
 
-            const totalValue = tokenBalances.reduce((sum, token) => sum + token.usdValue, 0);
+            const sources = [...new Set(valuation.holdings
+                .flatMap(holding => holding.priceSource?.split('+') ?? []))]
+                .map(source => PRICE_SOURCE_LABELS[source] ?? source);
 
             // Format response
             const response = [
-                'Your Mantle Portfolio:',
-                '',
-                ...tokenBalances
-                    .filter(token => Number(token.balance) > 0)
-                    .map(token => {
-                        const balanceStr = Number(token.balance).toLocaleString(undefined, {
-                            maximumFractionDigits: token.symbol === 'USDT' || token.symbol === 'USDC' ? 2 : 6
-                        });
-                        const valueStr = token.usdValue.toLocaleString(undefined, {
-                            style: 'currency',
-                            currency: 'USD'
-                        });
-                        return `• ${token.symbol} (${token.name}): ${balanceStr} (${valueStr})`;
-                    }),
+                `Your Mantle Portfolio (${network.label}):`,
                 '',
-                `Total Portfolio Value: ${totalValue.toLocaleString(undefined, {
-                    style: 'currency',
-                    currency: 'USD'
-                })}`,
+                ...section('Wallet:', ['wallet']),
+                ...section('Lendle:', ['lendle_supply', 'lendle_debt']),
+                ...section('mETH staking:', ['meth_staking', 'meth_unstaking']),
+                `Total Portfolio Value: ${formatUsd(valuation.totalUsd)}`,
+                changes.length > 0
+                    ? `Change: ${changes.map(change => `${change.label} ${formatSigned(change.changeUsd, change.changePercent)}`).join(' · ')}`
+                    : 'Change: not enough history yet, snapshots are taken daily',
+                `Cost basis: ${formatUsd(pnl.costBasisUsd)} · Unrealized PnL: ${formatSigned(pnl.pnlUsd, pnl.pnlPercent)}`,
+                ...(valuation.unpriced.length > 0
+                    ? [`No price found for: ${valuation.unpriced.join(', ')} (excluded from the total)`]
+                    : []),
+                ...(sources.length > 0 ? [`Prices: median of ${sources.join(', ')}`] : []),
                 '',
-                `View on Explorer: https://explorer.mantle.xyz/address/${address}`
+                formatAddressLink(network, address)
             ].join('\n');
 
-            callback({ text: response });
+            callback({ text: response, content: { valuation, changes, pnl, network: network.name } });
             return true;
         } catch (error) {
             console.error("Error fetching portfolio:", error);
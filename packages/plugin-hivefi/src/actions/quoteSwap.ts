@@ -0,0 +1,128 @@
+import type { Action, Memory } from "@elizaos/core";
+import { formatUnits, parseUnits } from "viem";
+import { getNetwork } from "../config/networks";
+import { getTokenBySymbol, getTokens } from "../config/tokens";
+import {
+    RouteFinder,
+    formatPriceImpact,
+    formatRoute,
+    getMaxPriceImpact,
+} from "../utils/routing";
+import {
+    DEFAULT_SLIPPAGE,
+    describeSwapValue,
+    getMinAmountOut,
+    parseSwapRequest,
+} from "./swap";
+
+export const quoteSwap: Action = {
+    name: "QUOTE_SWAP",
+    description:
+        "Quote a Merchant Moe swap on Mantle through the best route without executing it",
+    examples: [
+        [
+            {
+                user: "user1",
+                content: {
+                    text: "Quote 100 MNT to USDC",
+                },
+            },
+            {
+                user: "assistant",
+                content: {
+                    text: "Quote for 100 MNT → USDC: ~71.52 USDC via MNT → USDC (price impact 0.05%)",
+                },
+            },
+        ],
+    ],
+    handler: async (runtime, message: Memory, _state, _options, callback) => {
+        try {
+            const request = parseSwapRequest(
+                (message.content?.text ?? "").replace(/\bquote\b/i, "")
+            );
+            if (!request) {
+                callback?.({
+                    text: "Could not parse quote details. Please use format: Quote <amount> <fromToken> for <toToken>",
+                });
+                return false;
+            }
+
+            const fromToken = getTokenBySymbol(runtime, request.fromSymbol);
+            const toToken = getTokenBySymbol(runtime, request.toSymbol);
+            if (!fromToken || !toToken) {
+                const supportedTokens = getTokens(runtime)
+                    .map((token) => token.symbol)
+                    .join(", ");
+                callback?.({
+                    text: `Invalid token symbol. Supported tokens: ${supportedTokens}`,
+                });
+                return false;
+            }
+
+            const quote = await RouteFinder.fromRuntime(runtime).quote(
+                fromToken,
+                toToken,
+                parseUnits(request.amount, fromToken.decimals)
+            );
+            const { best } = quote;
+            const network = getNetwork(runtime);
+            const maxPriceImpact = getMaxPriceImpact(runtime);
+            const format = (amount: bigint) =>
+                formatUnits(amount, toToken.decimals);
+
+            const lines = [
+                `Quote for ${request.amount} ${fromToken.symbol} → ${toToken.symbol}:`,
+                `Expected output: ${format(best.amountOut)} ${toToken.symbol}`,
+                `Minimum received (${DEFAULT_SLIPPAGE}% slippage): ${format(getMinAmountOut(best))} ${toToken.symbol}`,
+                `Route: ${formatRoute(quote)}`,
+                `Network: ${network.label}`,
+                `Price impact: ${formatPriceImpact(best.priceImpactBps)}`,
+            ];
+            const value = await describeSwapValue(
+                runtime,
+                fromToken,
+                toToken,
+                best
+            );
+            if (value) lines.push(`Value: ${value}`);
+            if (best.priceImpactBps > maxPriceImpact * 100) {
+                lines.push(
+                    `⚠️ Above the ${maxPriceImpact}% price impact limit, this swap would be refused.`
+                );
+            }
+
+            callback?.({
+                text: lines.join("\n"),
+                content: {
+                    fromToken: fromToken.symbol,
+                    toToken: toToken.symbol,
+                    amountIn: request.amount,
+                    amountOut: format(best.amountOut),
+                    minAmountOut: format(getMinAmountOut(best)),
+                    path: best.path,
+                    priceImpactBps: best.priceImpactBps,
+                    network: network.name,
+                },
+            });
+            return true;
+        } catch (error) {
+            console.error("Swap quote failed:", error);
+            callback?.({
+                text: `Swap quote failed: ${error instanceof Error ? error.message : "Unknown error"}`,
+                content: {
+                    error:
+                        error instanceof Error
+                            ? error.message
+                            : "Unknown error",
+                },
+            });
+            return false;
+        }
+    },
+    validate: async (_runtime, message: Memory) =>
+        /\b(quote|price|how much)\b/i.test(message.content?.text ?? ""),
+    similes: [
+        "like checking a swap price on Merchant Moe",
+        "like previewing a token swap on Mantle",
+    ],
+};
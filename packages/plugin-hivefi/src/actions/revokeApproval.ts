@@ -0,0 +1,187 @@
+import type { Action, Memory } from "@elizaos/core";
+import type { Address } from "viem";
+import { initWalletProvider } from "../providers/wallet";
+import { checkNetworkWrite, formatTxLink } from "../config/networks";
+import {
+    getKnownSpenders,
+    listAllowances,
+    revokeAllowance,
+    type Allowance,
+} from "../utils/allowances";
+import { formatSimulation } from "../utils/simulation";
+
+// Words users call the known spenders by
+const SPENDER_ALIASES: Array<[RegExp, string]> = [
+    [/\blendle\b/i, "Lendle"],
+    [/\b(merchant\s*moe|moe|router)\b/i, "Merchant Moe"],
+];
+
+/**
+ * Allowances the message points at: filtered by token symbol and by spender
+ * name or address. "all" with no token or spender selects every allowance.
+ */
+export function selectAllowances(
+    text: string,
+    allowances: Allowance[]
+): Allowance[] | null {
+    const address = text.match(/0x[a-fA-F0-9]{40}/)?.[0]?.toLowerCase();
+    const spenderName = SPENDER_ALIASES.find(([pattern]) =>
+        pattern.test(text)
+    )?.[1];
+    const symbols = allowances
+        .map((allowance) => allowance.token.symbol)
+        .filter((symbol) =>
+            new RegExp(
+                `\\b${symbol.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")}\\b`,
+                "i"
+            ).test(text)
+        );
+
+    if (!address && !spenderName && symbols.length === 0) {
+        return /\ball\b/i.test(text) ? allowances : null;
+    }
+    return allowances.filter(
+        (allowance) =>
+            (symbols.length === 0 ||
+                symbols.includes(allowance.token.symbol)) &&
+            (!spenderName || allowance.spenderName === spenderName) &&
+            (!address ||
+                allowance.spender.toLowerCase() === address ||
+                allowance.token.address.toLowerCase() === address)
+    );
+}
+
+export const revokeApproval: Action = {
+    name: "REVOKE_APPROVAL",
+    description:
+        "Revoke ERC-20 allowances of the agent wallet by setting them to zero, by token, by spender or all at once",
+    examples: [
+        [
+            {
+                user: "user1",
+                content: {
+                    text: "Revoke my USDC approval for Lendle",
+                },
+            },
+            {
+                user: "assistant",
+                content: {
+                    text: "Revoked USDC → Lendle\nTransaction Hash: 0x...",
+                },
+            },
+        ],
+        [
+            {
+                user: "user1",
+                content: {
+                    text: "Revoke all approvals",
+                },
+            },
+            {
+                user: "assistant",
+                content: {
+                    text: "Revoked USDC → Lendle\nRevoked USDT → Merchant Moe",
+                },
+            },
+        ],
+    ],
+    handler: async (runtime, message: Memory, _state, _options, callback) => {
+        try {
+            const provider = initWalletProvider(runtime);
+            if (!provider) {
+                callback?.({
+                    text: "Wallet not configured. Please set EVM_PRIVATE_KEY in your environment variables.",
+                });
+                return false;
+            }
+
+            const network = provider.getNetwork();
+            const write = checkNetworkWrite(runtime, network);
+            if (!write.allowed) {
+                callback?.({
+                    text: `Revoke refused: ${write.reason}`,
+                    content: { error: write.reason, network: network.name },
+                });
+                return false;
+            }
+
+            const publicClient = provider.getPublicClient();
+            const allowances = await listAllowances(
+                runtime,
+                publicClient,
+                provider.getAddress() as Address
+            );
+            const selected = selectAllowances(
+                message.content?.text ?? "",
+                allowances
+            );
+            if (!selected) {
+                callback?.({
+                    text: `Which approval should I revoke? Use: Revoke <token> approval for <spender>, or Revoke all approvals. Known spenders on ${network.label}: ${Object.keys(getKnownSpenders(network)).join(", ") || "none"}.`,
+                });
+                return false;
+            }
+            if (selected.length === 0) {
+                callback?.({
+                    text: "No matching outstanding approval found. LIST_APPROVALS shows the current ones.",
+                    content: { revoked: [] },
+                });
+                return false;
+            }
+
+            const clients = {
+                publicClient,
+                walletClient: provider.getWalletClient(),
+                account: provider.getAccount(),
+            };
+            const lines: string[] = [];
+            const revoked: string[] = [];
+            for (const allowance of selected) {
+                const label = `${allowance.token.symbol} → ${allowance.spenderName}`;
+                try {
+                    const { hash, simulation } = await revokeAllowance(
+                        runtime,
+                        message,
+                        clients,
+                        allowance,
+                        network.chain
+                    );
+                    revoked.push(hash);
+                    lines.push(
+                        `Revoked ${label} on ${network.label}\nTransaction Hash: ${hash}\n${formatTxLink(network, hash)}\n${formatSimulation(simulation)}`
+                    );
+                } catch (error) {
+                    console.error(`Failed to revoke ${label}:`, error);
+                    lines.push(
+                        `Failed to revoke ${label}: ${error instanceof Error ? error.message : "Unknown error"}`
+                    );
+                }
+            }
+
+            callback?.({
+                text: lines.join("\n"),
+                content: { revoked },
+            });
+            return revoked.length > 0;
+        } catch (error) {
+            console.error("Failed to revoke approval:", error);
+            callback?.({
+                text: `Failed to revoke approval: ${error instanceof Error ? error.message : "Unknown error"}`,
+                content: {
+                    error:
+                        error instanceof Error
+                            ? error.message
+                            : "Unknown error",
+                },
+            });
+            return false;
+        }
+    },
+    validate: async (_runtime, message: Memory) =>
+        /\b(revoke|remove|cancel)\b/i.test(message.content?.text ?? "") &&
+        /\b(approvals?|allowances?)\b/i.test(message.content?.text ?? ""),
+    similes: [
+        "like revoking token approvals on a block explorer",
+        "like removing a contract's permission to spend tokens",
+    ],
+};
@@ -1,191 +1,73 @@
-// WIP
 import type { Action, Memory } from "@elizaos/core";
+import { parseEther, formatEther } from "viem";
+import { ethereumChain } from "../config/chains";
+import { checkNetworkWrite } from "../config/networks";
+import { checkSpendingPolicy, recordSpending } from "../utils/spendingPolicy";
+import { recordLedgerEntry } from "../utils/ledger";
 import {
-    parseEther,
-    type Address,
-    createPublicClient,
-    http,
-    formatEther
-} from "viem";
-import { mantleChain } from "../config/chains";
-import { initWalletProvider } from "../providers/wallet";
-
-// Staking contract addresses
-const STAKING_ADDRESS = "0xe3cBd06D7dadB3F4e6557bAb7EdD924CD1489E8f" as const;
-const UNSTAKE_MANAGER_ADDRESS = "0x38fDF7b489316e03eD8754ad339cb5c4483FDcf9" as const;
-
-// Staking ABI
-const STAKING_ABI = [{
-    "inputs": [
-        { "name": "minMETHAmount", "type": "uint256" }
-    ],
-    "name": "stake",
-    "outputs": [],
-    "stateMutability": "payable",
-    "type": "function"
-}, {
-    "inputs": [
-        { "name": "methAmount", "type": "uint128" },
-        { "name": "minETHAmount", "type": "uint128" }
-    ],
-    "name": "unstakeRequest",
-    "outputs": [
-        { "name": "", "type": "uint256" }
-    ],
-    "stateMutability": "nonpayable",
-    "type": "function"
-}, {
-    "inputs": [
-        { "name": "requestId", "type": "uint256" }
-    ],
-    "name": "claimUnstakeRequest",
-    "outputs": [],
-    "stateMutability": "nonpayable",
-    "type": "function"
-}, {
-    "inputs": [
-        { "name": "unstakeRequestID", "type": "uint256" }
-    ],
-    "name": "unstakeRequestInfo",
-    "outputs": [
-        { "name": "", "type": "bool" },
-        { "name": "", "type": "uint256" }
-    ],
-    "stateMutability": "view",
-    "type": "function"
-}, {
-    "inputs": [
-        { "name": "ethAmount", "type": "uint256" }
-    ],
-    "name": "ethToMETH",
-    "outputs": [
-        { "name": "", "type": "uint256" }
-    ],
-    "stateMutability": "view",
-    "type": "function"
-}] as const;
+    formatSimulation,
+    simulateContractWrite,
+    type SimulationResult
+} from "../utils/simulation";
+import {
+    METH_STAKING_ADDRESS,
+    STAKING_ABI,
+    STAKING_NETWORK,
+    STAKING_SLIPPAGE_BPS,
+    initStakingClients,
+    withStakingSlippage,
+    type StakingClients
+} from "../utils/staking";
 
 class StakingAction {
-    private publicClient;
-
-    constructor(private walletProvider: ReturnType<typeof initWalletProvider>) {
-        this.publicClient = createPublicClient({
-            chain: mantleChain,
-            transport: http("https://rpc.mantle.xyz")
-        });
-    }
+    constructor(private clients: StakingClients) {}
 
     async getExpectedMETHAmount(ethAmount: bigint): Promise<bigint> {
         try {
-            const mETHAmount = await this.publicClient.readContract({
-                address: STAKING_ADDRESS,
+            return await this.clients.publicClient.readContract({
+                address: METH_STAKING_ADDRESS,
                 abi: STAKING_ABI,
                 functionName: 'ethToMETH',
                 args: [ethAmount]
-            }) as bigint;
-            return mETHAmount;
+            });
         } catch (error) {
             console.error("Error getting expected mETH amount:", error);
             throw error;
         }
     }
 
-    async stake(amount: string): Promise<{ hash: string }> {
-        if (!this.walletProvider) throw new Error("Wallet not initialized");
-
-        const walletClient = this.walletProvider.getWalletClient();
-        const value = parseEther(amount);
-
-        // Calculate minimum mETH amount with 1% slippage
-        const expectedMETH = await this.getExpectedMETHAmount(value);
-        const minMETHAmount = expectedMETH * 99n / 100n; // 1% slippage
-
-        // Execute stake
-        const hash = await walletClient.writeContract({
-            address: STAKING_ADDRESS,
+    async stake(
+        value: bigint,
+        minMETHAmount: bigint
+    ): Promise<{ hash: `0x${string}`; simulation: SimulationResult }> {
+        // Execute stake, reverts if the contract would mint less than minMETHAmount
+        const stakeCall = {
+            address: METH_STAKING_ADDRESS,
             abi: STAKING_ABI,
             functionName: 'stake',
             args: [minMETHAmount],
-            chain: mantleChain,
+            chain: ethereumChain,
             value,
-            account: this.walletProvider.getAccount()
-        });
-
-        await this.publicClient.waitForTransactionReceipt({
-            hash,
-            timeout: 60000
-        });
-
-        return { hash };
-    }
-
-    async unstake(methAmount: string, minETHAmount: string): Promise<{ hash: string; requestId: bigint }> {
-        if (!this.walletProvider) throw new Error("Wallet not initialized");
-
-        const walletClient = this.walletProvider.getWalletClient();
-
-        // Parse amounts to correct format
-        const methValue = parseEther(methAmount);
-        const minEthValue = parseEther(minETHAmount);
-
-        // Execute unstake request
-        const hash = await walletClient.writeContract({
-            address: STAKING_ADDRESS,
-            abi: STAKING_ABI,
-            functionName: 'unstakeRequest',
-            args: [BigInt(methValue), BigInt(minEthValue)],
-            chain: mantleChain,
-            account: this.walletProvider.getAccount()
-        });
+            account: this.clients.account
+        } as const;
+        const simulation = await simulateContractWrite(this.clients.publicClient, stakeCall);
+        const hash = await this.clients.walletClient.writeContract(stakeCall);
 
-        const receipt = await this.publicClient.waitForTransactionReceipt({
-            hash,
-            timeout: 60000
-        });
-
-        // Get requestId from logs
-        const requestId = 0n; // TODO: Parse from logs
-        return { hash, requestId };
-    }
-
-    async checkUnstakeStatus(requestId: bigint): Promise<{ isFinalized: boolean; filledAmount: bigint }> {
-        const [isFinalized, filledAmount] = await this.publicClient.readContract({
-            address: STAKING_ADDRESS,
-            abi: STAKING_ABI,
-            functionName: 'unstakeRequestInfo',
-            args: [requestId]
-        }) as [boolean, bigint];
-
-        return { isFinalized, filledAmount };
-    }
-
-    async claimUnstake(requestId: bigint): Promise<{ hash: string }> {
-        if (!this.walletProvider) throw new Error("Wallet not initialized");
-
-        const walletClient = this.walletProvider.getWalletClient();
-
-        // Execute claim
-        const hash = await walletClient.writeContract({
-            address: STAKING_ADDRESS,
-            abi: STAKING_ABI,
-            functionName: 'claimUnstakeRequest',
-            args: [requestId],
-            chain: mantleChain,
-            account: this.walletProvider.getAccount()
-        });
-
-        await this.publicClient.waitForTransactionReceipt({
+        const receipt = await this.clients.publicClient.waitForTransactionReceipt({
             hash,
             timeout: 60000
         });
+        if (receipt.status !== "success") {
+            throw new Error(`Stake transaction reverted: ${hash}`);
+        }
 
-        return { hash };
+        return { hash, simulation };
     }
 }
 
 export const stake: Action = {
     name: "STAKE_ETH",
-    description: "Stake ETH to receive mETH on Mantle network",
+    description: "Stake ETH on Ethereum to receive mETH (Mantle Staked Ether)",
     examples: [
         [
             {
@@ -197,7 +79,7 @@ export const stake: Action = {
             {
                 user: "assistant",
                 content: {
-                    text: "The staking transaction has been initiated. You will receive mETH once the transaction is complete.",
+                    text: "Staking 1 ETH for approximately 0.95 mETH (minimum 0.94 mETH)...",
                 },
             },
             {
@@ -208,7 +90,7 @@ export const stake: Action = {
             },
         ],
     ],
-    handler: async (runtime, message: Memory, state, options, callback) => {
+    handler: async (runtime, message: Memory, _state, _options, callback) => {
         try {
             // Parse the stake request
             const content = message.content?.text?.toLowerCase().match(
@@ -224,33 +106,68 @@ export const stake: Action = {
 
             const [_, amount] = content;
 
+            const write = checkNetworkWrite(runtime, STAKING_NETWORK);
+            if (!write.allowed) {
+                callback?.({
+                    text: `Stake refused: ${write.reason}`,
+                    content: { error: write.reason },
+                });
+                return false;
+            }
+
+            const spending = {
+                userId: message.userId,
+                action: "STAKE_ETH",
+                token: "ETH",
+                amount,
+                decimals: 18,
+            };
+            const decision = await checkSpendingPolicy(runtime, spending);
+            if (!decision.allowed) {
+                callback?.({
+                    text: `Stake blocked by spending policy: ${decision.reason}`,
+                    content: { error: decision.reason },
+                });
+                return false;
+            }
+
             // Initialize wallet and staking action
-            const provider = initWalletProvider(runtime);
-            if (!provider) {
+            const clients = initStakingClients(runtime);
+            if (!clients) {
                 callback?.({
                     text: "Wallet not configured. Please set EVM_PRIVATE_KEY in your environment variables.",
                 });
                 return false;
             }
 
-            const stakingAction = new StakingAction(provider);
+            const stakingAction = new StakingAction(clients);
 
-            // Get expected mETH amount
+            // Quote the mETH to receive and protect it against rate changes
             const ethAmount = parseEther(amount);
             const expectedMETH = await stakingAction.getExpectedMETHAmount(ethAmount);
-            const expectedMETHFormatted = formatEther(expectedMETH);
+            const minMETHAmount = withStakingSlippage(expectedMETH);
 
             // Send initial confirmation with expected mETH amount
             callback?.({
-                text: `Staking ${amount} ETH for approximately ${expectedMETHFormatted} mETH (with 1% slippage protection)...`,
+                text: `Staking ${amount} ETH for approximately ${formatEther(expectedMETH)} mETH (minimum ${formatEther(minMETHAmount)} mETH, ${Number(STAKING_SLIPPAGE_BPS) / 100}% slippage)...`,
             });
 
             // Execute stake
-            const result = await stakingAction.stake(amount);
+            const result = await stakingAction.stake(ethAmount, minMETHAmount);
+            await recordSpending(runtime, { ...spending, hash: result.hash });
+            await recordLedgerEntry(runtime, message, {
+                action: "STAKE_ETH",
+                chainId: ethereumChain.id,
+                from: clients.account.address,
+                to: METH_STAKING_ADDRESS,
+                token: "ETH",
+                amount,
+                hash: result.hash,
+            });
 
             callback?.({
-                text: `Successfully staked ${amount} ETH for mETH\nTransaction Hash: ${result.hash}\nView on Explorer: https://explorer.mantle.xyz/tx/${result.hash}`,
-                content: { hash: result.hash },
+                text: `Successfully staked ${amount} ETH for mETH\nTransaction Hash: ${result.hash}\nView on Explorer: https://etherscan.io/tx/${result.hash}\n${formatSimulation(result.simulation, "ETH")}`,
+                content: { hash: result.hash, gas: result.simulation.gas.toString() },
             });
 
             return true;
@@ -269,4 +186,4 @@ export const stake: Action = {
         "like converting ETH to mETH for staking",
         "like participating in Mantle's ETH staking",
     ],
-};
\ No newline at end of file
+};
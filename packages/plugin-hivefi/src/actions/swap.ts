@@ -1,22 +1,109 @@
-import type { Action, Memory } from "@elizaos/core";
+import type {
+    Action,
+    HandlerCallback,
+    IAgentRuntime,
+    Memory
+} from "@elizaos/core";
 import {
+    formatUnits,
     parseUnits,
     type Address,
-    createPublicClient,
-    http
+    type PublicClient
 } from "viem";
-import { mantleChain } from "../config/chains";
+import {
+    checkNetworkWrite,
+    createNetworkClient,
+    formatTxLink,
+    getMerchantMoeContracts,
+    getNetwork,
+    type NetworkProfile
+} from "../config/networks";
 import { initWalletProvider } from "../providers/wallet";
+import { checkSpendingPolicy, recordSpending } from "../utils/spendingPolicy";
+import { ensureAllowance } from "../utils/allowances";
+import { recordLedgerEntry } from "../utils/ledger";
+import {
+    RouteFinder,
+    formatPriceImpact,
+    formatRoute,
+    getMaxPriceImpact,
+    type SwapRoute
+} from "../utils/routing";
 import {
-    TOKENS,
     getTokenBySymbol,
+    getTokens,
     isERC20Token,
     type TokenConfig
 } from "../config/tokens";
+import { getPriceFeed, toPriceFeedToken } from "../utils/priceFeed";
+import {
+    formatSimulation,
+    simulateContractWrite,
+    type SimulationResult
+} from "../utils/simulation";
+
+export const DEFAULT_SLIPPAGE = 0.5; // percent
+
+// Parses "Swap <amount> <fromToken> for <toToken>"
+export function parseSwapRequest(
+    text: string
+): { amount: string; fromSymbol: string; toSymbol: string } | null {
+    const match = text.toLowerCase().match(
+        /(?:swap\s+|)([\d.]+)\s*([a-z]+)\s*(?:for|to|into|)\s*([a-z]+)/i
+    );
+    if (!match) return null;
+    const [, amount, fromSymbol, toSymbol] = match;
+    return { amount, fromSymbol, toSymbol };
+}
+
+// Lowest output accepted by the router for a quoted route
+export function getMinAmountOut(
+    route: SwapRoute,
+    slippage = DEFAULT_SLIPPAGE
+): bigint {
+    return route.amountOut * BigInt(Math.floor((100 - slippage) * 100)) / 10000n;
+}
 
-// Merchant Moe Router and Factory addresses
-const MOE_ROUTER_ADDRESS = "0xeaee7ee68874218c3558b40063c42b82d3e7232a" as const;
-const MOE_FACTORY_ADDRESS = "0x5bef015ca9424a7c07b68490616a4c1f094bedec" as const;
+/**
+ * USD value of both sides of a quoted swap from the price feed, e.g.
+ * "$100.00 → $99.41 (-0.59% vs market)". Null when either token is unpriced,
+ * since the value line is informational and must not block a swap.
+ */
+export async function describeSwapValue(
+    runtime: IAgentRuntime,
+    fromToken: TokenConfig,
+    toToken: TokenConfig,
+    route: SwapRoute
+): Promise<string | null> {
+    try {
+        const prices = await getPriceFeed(runtime).getPrices([
+            toPriceFeedToken(fromToken),
+            toPriceFeedToken(toToken),
+        ]);
+        const fromPrice = prices.get(fromToken.symbol);
+        const toPrice = prices.get(toToken.symbol);
+        if (!fromPrice || !toPrice) return null;
+
+        const valueIn =
+            Number(formatUnits(route.amountIn, fromToken.decimals)) *
+            fromPrice.usd;
+        const valueOut =
+            Number(formatUnits(route.amountOut, toToken.decimals)) *
+            toPrice.usd;
+        const format = (value: number) =>
+            value.toLocaleString(undefined, {
+                style: "currency",
+                currency: "USD",
+            });
+        const difference =
+            valueIn === 0 ? 0 : ((valueOut - valueIn) / valueIn) * 100;
+        const stale = fromPrice.stale || toPrice.stale ? ", stale price" : "";
+        return `${format(valueIn)} → ${format(valueOut)} (${difference >= 0 ? "+" : ""}${difference.toFixed(2)}% vs market${stale})`;
+    } catch (error) {
+        console.error("Error valuing swap:", error);
+        return null;
+    }
+}
 
 // Router ABI for the specific functions we need
 const ROUTER_ABI = [{
@@ -54,126 +141,51 @@ const ROUTER_ABI = [{
     "outputs": [],
     "stateMutability": "nonpayable",
     "type": "function"
-}, {
-    "inputs": [
-        { "name": "amountIn", "type": "uint256" },
-        { "name": "path", "type": "address[]" }
-    ],
-    "name": "getAmountsOut",
-    "outputs": [{ "name": "amounts", "type": "uint256[]" }],
-    "stateMutability": "view",
-    "type": "function"
-}] as const;
-
-// ERC20 ABI for approvals
-const ERC20_ABI = [{
-    "inputs": [
-        { "name": "spender", "type": "address" },
-        { "name": "amount", "type": "uint256" }
-    ],
-    "name": "approve",
-    "outputs": [{ "name": "", "type": "bool" }],
-    "stateMutability": "nonpayable",
-    "type": "function"
 }] as const;
 
 class SwapAction {
-    private publicClient;
-
-    constructor(private walletProvider: ReturnType<typeof initWalletProvider>) {
-        this.publicClient = createPublicClient({
-            chain: mantleChain,
-            transport: http("https://rpc.mantle.xyz")
-        });
-    }
-
-    private async approveIfNeeded(
-        tokenAddress: Address,
-        amount: bigint,
-        spender: Address
-    ): Promise<void> {
-        if (!this.walletProvider) throw new Error("Wallet not initialized");
-
-        const walletClient = this.walletProvider.getWalletClient();
-        console.log("Approving token spend");
-
-        const approvalHash = await walletClient.writeContract({
-            address: tokenAddress,
-            abi: ERC20_ABI,
-            functionName: 'approve',
-            args: [spender, amount],
-            chain: mantleChain,
-            account: this.walletProvider.getAccount()
-        });
-
-        console.log("Waiting for approval:", approvalHash);
-        await this.publicClient.waitForTransactionReceipt({
-            hash: approvalHash,
-            timeout: 30000
-        });
-    }
-
-    private async getAmountOut(
-        amountIn: bigint,
-        path: Address[]
-    ): Promise<bigint> {
-        const amounts = await this.publicClient.readContract({
-            address: MOE_ROUTER_ADDRESS,
-            abi: ROUTER_ABI,
-            functionName: 'getAmountsOut',
-            args: [amountIn, path]
-        }) as bigint[];
-
-        return amounts[amounts.length - 1];
+    private publicClient: PublicClient;
+    private network: NetworkProfile;
+    private router: Address;
+
+    constructor(
+        private walletProvider: ReturnType<typeof initWalletProvider>,
+        private runtime: IAgentRuntime,
+        private message: Pick<Memory, "userId" | "roomId">
+    ) {
+        this.network = getNetwork(runtime);
+        this.publicClient = createNetworkClient(this.network);
+        this.router = getMerchantMoeContracts(this.network).router;
     }
 
     async swap(
         fromToken: TokenConfig,
         toToken: TokenConfig,
-        amount: string,
-        slippage = 0.5 // 0.5% default slippage
-    ): Promise<{ hash: string }> {
+        route: SwapRoute,
+        slippage = DEFAULT_SLIPPAGE
+    ): Promise<{ hash: string; simulation: SimulationResult }> {
         if (!this.walletProvider) throw new Error("Wallet not initialized");
 
         const walletClient = this.walletProvider.getWalletClient();
         const fromAddress = this.walletProvider.getAddress() as `0x${string}`;
 
-        // Parse amount with correct decimals
-        const amountIn = parseUnits(amount, fromToken.decimals);
-
-        // Get token addresses
-        let fromTokenAddress: `0x${string}`;
-        let toTokenAddress: `0x${string}`;
-
-        const wmnt = TOKENS.WMNT;
-        if (!isERC20Token(wmnt)) throw new Error("WMNT token not configured correctly");
-        const wmntAddress = wmnt.address as `0x${string}`;
-
-        if (isERC20Token(fromToken)) {
-            fromTokenAddress = fromToken.address as `0x${string}`;
-        } else {
-            fromTokenAddress = wmntAddress;
-        }
-
-        if (isERC20Token(toToken)) {
-            toTokenAddress = toToken.address as `0x${string}`;
-        } else {
-            toTokenAddress = wmntAddress;
-        }
-
-        // Construct path
-        const path: `0x${string}`[] = [fromTokenAddress, toTokenAddress];
-
-        // Get expected output amount
-        const expectedOut = await this.getAmountOut(amountIn, path);
-        const minOut = expectedOut * BigInt(Math.floor((100 - slippage) * 100)) / 10000n;
+        const { amountIn, path } = route;
+        const minOut = getMinAmountOut(route, slippage);
 
         // Set deadline to 20 minutes from now
         const deadline = BigInt(Math.floor(Date.now() / 1000) + 1200);
 
-        // If input token is not native MNT, approve first
+        // If input token is not native MNT, grant the router exactly amountIn
         if (isERC20Token(fromToken)) {
-            await this.approveIfNeeded(fromToken.address, amountIn, MOE_ROUTER_ADDRESS);
+            await ensureAllowance(this.runtime, this.message, {
+                publicClient: this.publicClient,
+                walletClient,
+                account: this.walletProvider.getAccount(),
+                token: fromToken,
+                spender: this.router,
+                amount: amountIn,
+                chain: this.network.chain
+            });
         }
 
         // Determine which swap function to use
@@ -185,15 +197,27 @@ class SwapAction {
 
         const value = fromToken.type === 'native' ? amountIn : 0n;
 
+        // Simulate first so reverts such as slippage surface before sending
+        const simulation = await simulateContractWrite(this.publicClient, {
+            address: this.router,
+            abi: ROUTER_ABI,
+            functionName,
+            args: functionName === 'swapExactNativeForTokensSupportingFeeOnTransferTokens'
+                ? [minOut, path, fromAddress, deadline]
+                : [amountIn, minOut, path, fromAddress, deadline],
+            value,
+            account: this.walletProvider.getAccount()
+        });
+
         // Execute swap
         const hash = await walletClient.writeContract({
-            address: MOE_ROUTER_ADDRESS,
+            address: this.router,
             abi: ROUTER_ABI,
             functionName,
             args: functionName === 'swapExactNativeForTokensSupportingFeeOnTransferTokens'
                 ? [minOut, path, fromAddress, deadline]
                 : [amountIn, minOut, path, fromAddress, deadline],
-            chain: mantleChain,
+            chain: this.network.chain,
             value,
             account: this.walletProvider.getAccount()
         });
@@ -203,8 +227,146 @@ class SwapAction {
             timeout: 60000
         });
 
-        return { hash };
+        return { hash, simulation };
+    }
+}
+
+export type SwapExecution =
+    | { success: true; hash: string; amountOut: string; route: string }
+    | { success: false; error: string };
+
+/**
+ * Quote, check and execute a Merchant Moe swap for the message's user. Shared
+ * by SWAP_MANTLE and scheduled orders; refusals are reported through the
+ * callback and returned, transaction failures throw.
+ */
+export async function executeSwap(
+    runtime: IAgentRuntime,
+    message: Pick<Memory, "userId" | "roomId">,
+    {
+        amount,
+        fromSymbol,
+        toSymbol
+    }: { amount: string; fromSymbol: string; toSymbol: string },
+    callback?: HandlerCallback
+): Promise<SwapExecution> {
+    // Get token configs
+    const fromToken = getTokenBySymbol(runtime, fromSymbol);
+    const toToken = getTokenBySymbol(runtime, toSymbol);
+
+    if (!fromToken || !toToken) {
+        const supportedTokens = getTokens(runtime)
+            .map((token) => token.symbol)
+            .join(", ");
+        callback?.({
+            text: `Invalid token symbol. Supported tokens: ${supportedTokens}`,
+        });
+        return { success: false, error: `Unsupported token: ${!fromToken ? fromSymbol : toSymbol}` };
+    }
+
+    // Swaps spend the input token, so limits apply to it
+    const spending = {
+        userId: message.userId,
+        action: "SWAP_MANTLE",
+        token: fromToken.symbol,
+        amount,
+        decimals: fromToken.decimals,
+    };
+    const decision = await checkSpendingPolicy(runtime, spending);
+    if (!decision.allowed) {
+        callback?.({
+            text: `Swap blocked by spending policy: ${decision.reason}`,
+            content: { error: decision.reason },
+        });
+        return { success: false, error: `Blocked by spending policy: ${decision.reason}` };
+    }
+
+    // Initialize wallet and swap action
+    const provider = initWalletProvider(runtime);
+    if (!provider) {
+        callback?.({
+            text: "Wallet not configured. Please set EVM_PRIVATE_KEY in your environment variables.",
+        });
+        return { success: false, error: "Wallet not configured" };
+    }
+
+    const network = provider.getNetwork();
+    const write = checkNetworkWrite(runtime, network);
+    if (!write.allowed) {
+        callback?.({
+            text: `Swap refused: ${write.reason}`,
+            content: { error: write.reason, network: network.name },
+        });
+        return { success: false, error: write.reason };
+    }
+
+    // Pick the best route and refuse trades that move the price too much
+    const quote = await RouteFinder.fromRuntime(runtime).quote(
+        fromToken,
+        toToken,
+        parseUnits(amount, fromToken.decimals)
+    );
+    const maxPriceImpact = getMaxPriceImpact(runtime);
+    const priceImpact = formatPriceImpact(quote.best.priceImpactBps);
+    if (quote.best.priceImpactBps > maxPriceImpact * 100) {
+        const reason = `Price impact of ${priceImpact} exceeds the ${maxPriceImpact}% limit. Try a smaller amount.`;
+        callback?.({
+            text: `Swap refused: ${reason}`,
+            content: { error: reason },
+        });
+        return { success: false, error: reason };
     }
+
+    const swapAction = new SwapAction(provider, runtime, message);
+    const expectedOut = formatUnits(
+        quote.best.amountOut,
+        toToken.decimals
+    );
+
+    const value = await describeSwapValue(
+        runtime,
+        fromToken,
+        toToken,
+        quote.best
+    );
+
+    // Send initial confirmation
+    callback?.({
+        text: `Swapping ${amount} ${fromToken.symbol} for ~${expectedOut} ${toToken.symbol} via ${formatRoute(quote)} on ${network.label} (price impact ${priceImpact})${value ? `\nValue: ${value}` : ""}...`,
+    });
+
+    // Execute swap
+    const result = await swapAction.swap(
+        fromToken,
+        toToken,
+        quote.best
+    );
+    await recordSpending(runtime, { ...spending, hash: result.hash });
+    await recordLedgerEntry(runtime, message, {
+        action: "SWAP_MANTLE",
+        chainId: network.chain.id,
+        from: provider.getAddress(),
+        to: getMerchantMoeContracts(network).router,
+        token: fromToken.symbol,
+        amount,
+        hash: result.hash,
+    });
+
+    callback?.({
+        text: `Successfully swapped ${amount} ${fromToken.symbol} for ${toToken.symbol} via ${formatRoute(quote)} on ${network.label}\nTransaction Hash: ${result.hash}\n${formatTxLink(network, result.hash)}\n${formatSimulation(result.simulation)}`,
+        content: {
+            hash: result.hash,
+            gas: result.simulation.gas.toString(),
+            network: network.name,
+        },
+    });
+
+    return {
+        success: true,
+        hash: result.hash,
+        amountOut: expectedOut,
+        route: formatRoute(quote),
+    };
 }
 
 export const swap: Action = {
@@ -227,17 +389,15 @@ export const swap: Action = {
             {
                 user: "assistant",
                 content: {
-                    text: "0.1 MNT swapped for USDT: {hash}",
+                    text: "0.1 MNT swapped for USDT via MNT → USDT: {hash}",
                 },
             },
         ],
     ],
-    handler: async (runtime, message: Memory, state, options, callback) => {
+    handler: async (runtime, message: Memory, _state, _options, callback) => {
         try {
             // Parse the swap request
-            const content = message.content?.text?.toLowerCase().match(
-                /(?:swap\s+|)([\d.]+)\s*([a-z]+)\s*(?:for|to|)\s*([a-z]+)/i
-            );
+            const content = parseSwapRequest(message.content?.text ?? "");
 
             if (!content) {
                 callback?.({
@@ -246,45 +406,8 @@ export const swap: Action = {
                 return false;
             }
 
-            const [_, amount, fromTokenSymbol, toTokenSymbol] = content;
-
-            // Get token configs
-            const fromToken = getTokenBySymbol(fromTokenSymbol.toUpperCase());
-            const toToken = getTokenBySymbol(toTokenSymbol.toUpperCase());
-
-            if (!fromToken || !toToken) {
-                const supportedTokens = Object.keys(TOKENS).join(", ");
-                callback?.({
-                    text: `Invalid token symbol. Supported tokens: ${supportedTokens}`,
-                });
-                return false;
-            }
-
-            // Initialize wallet and swap action
-            const provider = initWalletProvider(runtime);
-            if (!provider) {
-                callback?.({
-                    text: "Wallet not configured. Please set EVM_PRIVATE_KEY in your environment variables.",
-                });
-                return false;
-            }
-
-            const swapAction = new SwapAction(provider);
-
-            // Send initial confirmation
-            callback?.({
-                text: `Swapping ${amount} ${fromTokenSymbol.toUpperCase()} for ${toTokenSymbol.toUpperCase()}...`,
-            });
-
-            // Execute swap
-            const result = await swapAction.swap(fromToken, toToken, amount);
-
-            callback?.({
-                text: `Successfully swapped ${amount} ${fromTokenSymbol.toUpperCase()} for ${toTokenSymbol.toUpperCase()}\nTransaction Hash: ${result.hash}\nView on Explorer: https://explorer.mantle.xyz/tx/${result.hash}`,
-                content: { hash: result.hash },
-            });
-
-            return true;
+            const result = await executeSwap(runtime, message, content, callback);
+            return result.success;
         } catch (error) {
             console.error("Swap failed:", error);
             callback?.({
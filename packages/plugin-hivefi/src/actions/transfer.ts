@@ -1,7 +1,10 @@
 import type { Action, Memory } from "@elizaos/core";
 import { parseEther, type Chain } from "viem";
-import { mantleTestnetChain } from "../config/chains";
+import { checkNetworkWrite, formatTxLink } from "../config/networks";
 import { initWalletProvider } from "../providers/wallet";
+import { checkSpendingPolicy, recordSpending } from "../utils/spendingPolicy";
+import { recordLedgerEntry } from "../utils/ledger";
+import { formatSimulation, simulateTransaction } from "../utils/simulation";
 
 export const transfer: Action = {
     name: "SEND_MNT",
@@ -56,7 +59,25 @@ export const transfer: Action = {
             return false;
         }
 
+        const spending = {
+            userId: message.userId,
+            action: "SEND_MNT",
+            token: "MNT",
+            amount,
+            decimals: 18,
+            recipient: to,
+        };
+
         try {
+            const decision = await checkSpendingPolicy(runtime, spending);
+            if (!decision.allowed) {
+                callback?.({
+                    text: `Transfer blocked by spending policy: ${decision.reason}`,
+                    content: { error: decision.reason },
+                });
+                return false;
+            }
+
             // Initialize wallet provider
             const provider = initWalletProvider(runtime);
             if (!provider) {
@@ -66,9 +87,19 @@ export const transfer: Action = {
                 return false;
             }
 
+            const network = provider.getNetwork();
+            const write = checkNetworkWrite(runtime, network);
+            if (!write.allowed) {
+                callback?.({
+                    text: `Transfer refused: ${write.reason}`,
+                    content: { error: write.reason, network: network.name },
+                });
+                return false;
+            }
+
             // Send initial confirmation
             callback?.({
-                text: `The transaction of ${amount} MNT to the address ${to} has been initiated. You will receive a confirmation once the transaction is complete.`,
+                text: `The transaction of ${amount} MNT to the address ${to} on ${network.label} has been initiated. You will receive a confirmation once the transaction is complete.`,
             });
 
             // Get wallet client and balance
@@ -82,18 +113,37 @@ export const transfer: Action = {
                 return false;
             }
 
+            const simulation = await simulateTransaction(
+                provider.getPublicClient(),
+                { account: provider.getAccount(), to, value }
+            );
+
             // Send the transaction
             const walletClient = provider.getWalletClient();
             const hash = await walletClient.sendTransaction({
-                chain: mantleTestnetChain,
+                chain: network.chain,
                 account: provider.getAccount(),
                 to,
                 value,
             });
+            await recordSpending(runtime, { ...spending, hash });
+            await recordLedgerEntry(runtime, message, {
+                action: "SEND_MNT",
+                chainId: network.chain.id,
+                from: provider.getAddress(),
+                to,
+                token: "MNT",
+                amount,
+                hash,
+            });
 
             callback?.({
-                text: `${amount} MNT sent to ${to}\nTransaction Hash: ${hash}\nView on Explorer: https://explorer.mantle.xyz/tx/${hash}`,
-                content: { hash },
+                text: `${amount} MNT sent to ${to} on ${network.label}\nTransaction Hash: ${hash}\n${formatTxLink(network, hash)}\n${formatSimulation(simulation)}`,
+                content: {
+                    hash,
+                    gas: simulation.gas.toString(),
+                    network: network.name,
+                },
             });
             return true;
         } catch (error) {
@@ -1,213 +1,92 @@
-// WIP
 import type { Action, Memory } from "@elizaos/core";
+import { parseEther, formatEther, parseEventLogs } from "viem";
+import { ethereumChain } from "../config/chains";
+import { checkNetworkWrite } from "../config/networks";
+import { recordLedgerEntry } from "../utils/ledger";
 import {
-    parseEther,
-    type Address,
-    createPublicClient,
-    http,
-    formatEther,
-    parseUnits
-} from "viem";
-import { mantleChain } from "../config/chains";
-import { initWalletProvider } from "../providers/wallet";
-import { TOKENS, getTokenBySymbol } from "../config/tokens";
-
-// Contract addresses
-const STAKING_ADDRESS = "0xe3cBd06D7dadB3F4e6557bAb7EdD924CD1489E8f" as const;
-const UNSTAKE_MANAGER_ADDRESS = "0x38fDF7b489316e03eD8754ad339cb5c4483FDcf9" as const;
-
-// ABI for the unstake manager
-const UNSTAKE_MANAGER_ABI = [{
-    "inputs": [
-        { "name": "requestID", "type": "uint256" }
-    ],
-    "name": "requestInfo",
-    "outputs": [
-        { "name": "", "type": "bool" },
-        { "name": "", "type": "uint256" }
-    ],
-    "stateMutability": "view",
-    "type": "function"
-}, {
-    "inputs": [
-        { "name": "requestID", "type": "uint256" }
-    ],
-    "name": "requestByID",
-    "outputs": [{
-        "components": [
-            { "name": "blockNumber", "type": "uint64" },
-            { "name": "requester", "type": "address" },
-            { "name": "id", "type": "uint128" },
-            { "name": "mETHLocked", "type": "uint128" },
-            { "name": "ethRequested", "type": "uint128" },
-            { "name": "cumulativeETHRequested", "type": "uint128" }
-        ],
-        "name": "",
-        "type": "tuple"
-    }],
-    "stateMutability": "view",
-    "type": "function"
-}] as const;
-
-// ABI for the staking contract's unstake functions
-const STAKING_UNSTAKE_ABI = [{
-    "inputs": [
-        { "name": "methAmount", "type": "uint128" },
-        { "name": "minETHAmount", "type": "uint128" }
-    ],
-    "name": "unstakeRequest",
-    "outputs": [
-        { "name": "", "type": "uint256" }
-    ],
-    "stateMutability": "nonpayable",
-    "type": "function"
-}, {
-    "inputs": [
-        { "name": "requestId", "type": "uint256" }
-    ],
-    "name": "claimUnstakeRequest",
-    "outputs": [],
-    "stateMutability": "nonpayable",
-    "type": "function"
-}, {
-    "inputs": [
-        { "name": "mETHAmount", "type": "uint256" }
-    ],
-    "name": "mETHToETH",
-    "outputs": [
-        { "name": "", "type": "uint256" }
-    ],
-    "stateMutability": "view",
-    "type": "function"
-}] as const;
+    formatSimulation,
+    simulateContractWrite,
+    type SimulationResult
+} from "../utils/simulation";
+import {
+    METH_STAKING_ADDRESS,
+    STAKING_ABI,
+    STAKING_NETWORK,
+    STAKING_SLIPPAGE_BPS,
+    initStakingClients,
+    withStakingSlippage,
+    type StakingClients
+} from "../utils/staking";
+import { trackUnstakeRequest } from "../services/unstakeTracker";
 
 class UnstakeAction {
-    private publicClient;
-
-    constructor(private walletProvider: ReturnType<typeof initWalletProvider>) {
-        this.publicClient = createPublicClient({
-            chain: mantleChain,
-            transport: http("https://rpc.mantle.xyz")
-        });
-    }
+    constructor(private clients: StakingClients) {}
 
     async getExpectedETHAmount(mETHAmount: bigint): Promise<bigint> {
         try {
-            const ethAmount = await this.publicClient.readContract({
-                address: STAKING_ADDRESS,
-                abi: STAKING_UNSTAKE_ABI,
+            return await this.clients.publicClient.readContract({
+                address: METH_STAKING_ADDRESS,
+                abi: STAKING_ABI,
                 functionName: 'mETHToETH',
                 args: [mETHAmount]
-            }) as bigint;
-            return ethAmount;
+            });
         } catch (error) {
             console.error("Error getting expected ETH amount:", error);
             throw error;
         }
     }
 
-    async unstake(methAmount: string): Promise<{ hash: string; requestId: bigint }> {
-        if (!this.walletProvider) throw new Error("Wallet not initialized");
-
-        const walletClient = this.walletProvider.getWalletClient();
-        const methValue = parseEther(methAmount);
-
-        // Calculate expected ETH amount with 1% slippage
-        const expectedETH = await this.getExpectedETHAmount(methValue);
-        const minETHAmount = expectedETH * 99n / 100n; // 1% slippage
-
-        // Execute unstake request
-        const hash = await walletClient.writeContract({
-            address: STAKING_ADDRESS,
-            abi: STAKING_UNSTAKE_ABI,
+    async unstake(
+        methValue: bigint,
+        minETHAmount: bigint
+    ): Promise<{
+        hash: `0x${string}`;
+        requestId: bigint;
+        ethRequested: bigint;
+        simulation: SimulationResult;
+    }> {
+        // Execute unstake request, reverts below minETHAmount
+        const unstakeCall = {
+            address: METH_STAKING_ADDRESS,
+            abi: STAKING_ABI,
             functionName: 'unstakeRequest',
-            args: [BigInt(methValue), BigInt(minETHAmount)],
-            chain: mantleChain,
-            account: this.walletProvider.getAccount()
-        });
-
-        const receipt = await this.publicClient.waitForTransactionReceipt({
+            args: [methValue, minETHAmount],
+            chain: ethereumChain,
+            account: this.clients.account
+        } as const;
+        const simulation = await simulateContractWrite(this.clients.publicClient, unstakeCall);
+        const hash = await this.clients.walletClient.writeContract(unstakeCall);
+
+        const receipt = await this.clients.publicClient.waitForTransactionReceipt({
             hash,
             timeout: 60000
         });
+        if (receipt.status !== "success") {
+            throw new Error(`Unstake request reverted: ${hash}`);
+        }
 
-        // Get requestId from UnstakeRequestCreated event
-        const requestId = this.parseRequestIdFromLogs(receipt.logs);
-        return { hash, requestId };
-    }
-
-    async checkUnstakeStatus(requestId: bigint): Promise<{ isFinalized: boolean; filledAmount: bigint }> {
-        const [isFinalized, filledAmount] = await this.publicClient.readContract({
-            address: UNSTAKE_MANAGER_ADDRESS,
-            abi: UNSTAKE_MANAGER_ABI,
-            functionName: 'requestInfo',
-            args: [requestId]
-        }) as [boolean, bigint];
-
-        return { isFinalized, filledAmount };
-    }
-
-    async getUnstakeRequest(requestId: bigint): Promise<{
-        blockNumber: bigint;
-        requester: string;
-        id: bigint;
-        mETHLocked: bigint;
-        ethRequested: bigint;
-        cumulativeETHRequested: bigint;
-    }> {
-        const request = await this.publicClient.readContract({
-            address: UNSTAKE_MANAGER_ADDRESS,
-            abi: UNSTAKE_MANAGER_ABI,
-            functionName: 'requestByID',
-            args: [requestId]
+        // The request id is only available from the UnstakeRequested event
+        const [event] = parseEventLogs({
+            abi: STAKING_ABI,
+            eventName: 'UnstakeRequested',
+            logs: receipt.logs
         });
-
-        // Cast the response to the correct type
-        const [blockNumber, requester, id, mETHLocked, ethRequested, cumulativeETHRequested] = request as unknown as [bigint, string, bigint, bigint, bigint, bigint];
+        if (!event) {
+            throw new Error(`No UnstakeRequested event found in ${hash}`);
+        }
 
         return {
-            blockNumber,
-            requester,
-            id,
-            mETHLocked,
-            ethRequested,
-            cumulativeETHRequested
-        };
-    }
-
-    async claimUnstake(requestId: bigint): Promise<{ hash: string }> {
-        if (!this.walletProvider) throw new Error("Wallet not initialized");
-
-        const walletClient = this.walletProvider.getWalletClient();
-
-        // Execute claim
-        const hash = await walletClient.writeContract({
-            address: STAKING_ADDRESS,
-            abi: STAKING_UNSTAKE_ABI,
-            functionName: 'claimUnstakeRequest',
-            args: [requestId],
-            chain: mantleChain,
-            account: this.walletProvider.getAccount()
-        });
-
-        await this.publicClient.waitForTransactionReceipt({
             hash,
-            timeout: 60000
-        });
-
-        return { hash };
-    }
-
-    private parseRequestIdFromLogs(logs: readonly { topics: readonly string[]; data: string }[]): bigint {
-        // Find UnstakeRequestCreated event and parse requestId
-        // TODO: Implement proper log parsing
-        return 0n;
+            requestId: event.args.id,
+            ethRequested: event.args.ethAmount,
+            simulation
+        };
     }
 }
 
 export const unstake: Action = {
     name: "UNSTAKE_METH",
-    description: "Unstake mETH to receive ETH on Mantle network",
+    description: "Request to unstake mETH for ETH on Ethereum; the ETH is claimed automatically once finalized",
     examples: [
         [
             {
@@ -230,7 +109,7 @@ export const unstake: Action = {
             },
         ],
     ],
-    handler: async (runtime, message: Memory, state, options, callback) => {
+    handler: async (runtime, message: Memory, _state, _options, callback) => {
         try {
             // Parse the unstake request
             const content = message.content?.text?.toLowerCase().match(
@@ -246,40 +125,70 @@ export const unstake: Action = {
 
             const [_, amount] = content;
 
+            const write = checkNetworkWrite(runtime, STAKING_NETWORK);
+            if (!write.allowed) {
+                callback?.({
+                    text: `Unstake refused: ${write.reason}`,
+                    content: { error: write.reason },
+                });
+                return false;
+            }
+
             // Initialize wallet and unstaking action
-            const provider = initWalletProvider(runtime);
-            if (!provider) {
+            const clients = initStakingClients(runtime);
+            if (!clients) {
                 callback?.({
                     text: "Wallet not configured. Please set EVM_PRIVATE_KEY in your environment variables.",
                 });
                 return false;
             }
 
-            const unstakeAction = new UnstakeAction(provider);
+            const unstakeAction = new UnstakeAction(clients);
 
-            // Get expected ETH amount
+            // Quote the ETH to receive and protect it against rate changes
             const methAmount = parseEther(amount);
             const expectedETH = await unstakeAction.getExpectedETHAmount(methAmount);
-            const expectedETHFormatted = formatEther(expectedETH);
+            const minETHAmount = withStakingSlippage(expectedETH);
 
             // Send initial confirmation with expected ETH amount
             callback?.({
-                text: `Unstaking ${amount} mETH for approximately ${expectedETHFormatted} ETH (with 1% slippage protection)...`,
+                text: `Unstaking ${amount} mETH for approximately ${formatEther(expectedETH)} ETH (minimum ${formatEther(minETHAmount)} ETH, ${Number(STAKING_SLIPPAGE_BPS) / 100}% slippage)...`,
             });
 
             // Execute unstake
-            const result = await unstakeAction.unstake(amount);
+            const result = await unstakeAction.unstake(methAmount, minETHAmount);
+            await recordLedgerEntry(runtime, message, {
+                action: "UNSTAKE_METH",
+                chainId: ethereumChain.id,
+                from: clients.account.address,
+                to: METH_STAKING_ADDRESS,
+                token: "mETH",
+                amount,
+                hash: result.hash,
+            });
+            await trackUnstakeRequest(runtime, message, {
+                requestId: result.requestId.toString(),
+                requester: clients.account.address,
+                mETHLocked: amount,
+                ethRequested: formatEther(result.ethRequested),
+                hash: result.hash,
+            });
 
             callback?.({
                 text: [
                     `Successfully created unstake request for ${amount} mETH`,
                     `Transaction Hash: ${result.hash}`,
                     `Request ID: ${result.requestId}`,
-                    `View on Explorer: https://explorer.mantle.xyz/tx/${result.hash}`,
+                    `View on Explorer: https://etherscan.io/tx/${result.hash}`,
+                    formatSimulation(result.simulation, "ETH"),
                     "",
-                    "Note: Your request will be finalized after a certain number of blocks. Once finalized, you can claim your ETH."
+                    `Your request will be finalized after a number of blocks. I'll claim your ${formatEther(result.ethRequested)} ETH automatically and let you know here.`
                 ].join('\n'),
-                content: { hash: result.hash, requestId: result.requestId },
+                content: {
+                    hash: result.hash,
+                    requestId: result.requestId.toString(),
+                    gas: result.simulation.gas.toString()
+                },
             });
 
             return true;
@@ -298,4 +207,4 @@ export const unstake: Action = {
         "like converting mETH back to ETH",
         "like exiting from Mantle's ETH staking",
     ],
-};
\ No newline at end of file
+};
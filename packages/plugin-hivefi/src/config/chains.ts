@@ -34,3 +34,21 @@ export const mantleTestnetChain = {
         default: { name: "Explorer", url: "https://sepolia.mantlescan.xyz/" },
     },
 } as const satisfies Chain;
+
+// mETH staking lives on Ethereum mainnet
+export const ethereumChain = {
+    id: 1,
+    name: "Ethereum",
+    nativeCurrency: {
+        decimals: 18,
+        name: "Ether",
+        symbol: "ETH",
+    },
+    rpcUrls: {
+        default: { http: ["https://eth.llamarpc.com"] },
+        public: { http: ["https://eth.llamarpc.com"] },
+    },
+    blockExplorers: {
+        default: { name: "Etherscan", url: "https://etherscan.io" },
+    },
+} as const satisfies Chain;
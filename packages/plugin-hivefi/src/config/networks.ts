@@ -0,0 +1,190 @@
+import type { IAgentRuntime } from "@elizaos/core";
+import {
+    createPublicClient,
+    http,
+    type Address,
+    type Chain,
+    type PublicClient,
+} from "viem";
+import { LENDING_ADDRESSES } from "../actions/lending/config";
+import { mantleChain, mantleTestnetChain } from "./chains";
+
+export type NetworkName = "mainnet" | "sepolia" | "fork";
+
+export const DEFAULT_NETWORK: NetworkName = "mainnet";
+
+export interface LendleContracts {
+    lendingPool: Address;
+    dataProvider: Address;
+    priceOracle: Address;
+}
+
+export interface MerchantMoeContracts {
+    router: Address;
+    factory: Address;
+}
+
+/**
+ * Everything that changes with the network HiveFi acts on. A profile picks
+ * the chain, RPC, explorer, token list and protocol deployments together so
+ * they can't drift apart.
+ */
+export interface NetworkProfile {
+    name: NetworkName;
+    label: string;
+    chain: Chain;
+    rpcUrl: string;
+    // Setting that overrides rpcUrl for this profile
+    rpcSetting: string;
+    // Without an explorer (local fork) replies show the bare hash
+    explorerUrl?: string;
+    // Chain id of the token list tokens are resolved from
+    tokenListChainId: number;
+    // Writes hit real funds and need HIVEFI_ALLOW_MAINNET_WRITES
+    mainnet: boolean;
+    contracts: {
+        lendle?: LendleContracts;
+        merchantMoe?: MerchantMoeContracts;
+    };
+}
+
+const MAINNET_LENDLE: LendleContracts = {
+    lendingPool: LENDING_ADDRESSES.LENDING_POOL,
+    dataProvider: LENDING_ADDRESSES.DATA_PROVIDER,
+    priceOracle: LENDING_ADDRESSES.PRICE_ORACLE,
+};
+
+const MAINNET_MERCHANT_MOE: MerchantMoeContracts = {
+    router: "0xeaee7ee68874218c3558b40063c42b82d3e7232a",
+    factory: "0x5bef015ca9424a7c07b68490616a4c1f094bedec",
+};
+
+export const NETWORK_PROFILES: Record<NetworkName, NetworkProfile> = {
+    mainnet: {
+        name: "mainnet",
+        label: "Mantle Mainnet",
+        chain: mantleChain,
+        rpcUrl: "https://rpc.mantle.xyz",
+        rpcSetting: "MANTLE_RPC_URL",
+        explorerUrl: "https://explorer.mantle.xyz",
+        tokenListChainId: mantleChain.id,
+        mainnet: true,
+        contracts: {
+            lendle: MAINNET_LENDLE,
+            merchantMoe: MAINNET_MERCHANT_MOE,
+        },
+    },
+    // Lendle and Merchant Moe have no Sepolia deployment
+    sepolia: {
+        name: "sepolia",
+        label: "Mantle Sepolia Testnet",
+        chain: mantleTestnetChain,
+        rpcUrl: "https://rpc.sepolia.mantle.xyz",
+        rpcSetting: "MANTLE_SEPOLIA_RPC_URL",
+        explorerUrl: "https://sepolia.mantlescan.xyz",
+        tokenListChainId: mantleTestnetChain.id,
+        mainnet: false,
+        contracts: {},
+    },
+    // A local fork of mainnet (anvil, hardhat) keeps the chain id and every
+    // mainnet deployment, but its transactions never reach the real chain
+    fork: {
+        name: "fork",
+        label: "Mantle Mainnet fork (local)",
+        chain: {
+            ...mantleChain,
+            name: "Mantle Mainnet fork",
+            rpcUrls: {
+                default: { http: ["http://127.0.0.1:8545"] },
+                public: { http: ["http://127.0.0.1:8545"] },
+            },
+        },
+        rpcUrl: "http://127.0.0.1:8545",
+        rpcSetting: "MANTLE_FORK_RPC_URL",
+        tokenListChainId: mantleChain.id,
+        mainnet: false,
+        contracts: {
+            lendle: MAINNET_LENDLE,
+            merchantMoe: MAINNET_MERCHANT_MOE,
+        },
+    },
+};
+
+/**
+ * The profile selected by HIVEFI_NETWORK, with the RPC overridden by the
+ * profile's own setting when set.
+ */
+export function getNetwork(runtime: IAgentRuntime): NetworkProfile {
+    const name = (
+        runtime.getSetting("HIVEFI_NETWORK") || DEFAULT_NETWORK
+    ).toLowerCase();
+    if (!(name in NETWORK_PROFILES)) {
+        throw new Error(
+            `Unknown HIVEFI_NETWORK "${name}", expected one of: ${Object.keys(NETWORK_PROFILES).join(", ")}`
+        );
+    }
+    const profile = NETWORK_PROFILES[name as NetworkName];
+    const rpcUrl = runtime.getSetting(profile.rpcSetting);
+    return rpcUrl ? { ...profile, rpcUrl } : profile;
+}
+
+export function createNetworkClient(network: NetworkProfile): PublicClient {
+    return createPublicClient({
+        chain: network.chain,
+        transport: http(network.rpcUrl),
+    }) as PublicClient;
+}
+
+/**
+ * Writes are refused on mainnet unless HIVEFI_ALLOW_MAINNET_WRITES is true.
+ * Testnet and fork writes are always allowed.
+ */
+export function checkNetworkWrite(
+    runtime: IAgentRuntime,
+    network: Pick<NetworkProfile, "label" | "mainnet">
+): { allowed: true } | { allowed: false; reason: string } {
+    if (
+        !network.mainnet ||
+        runtime.getSetting("HIVEFI_ALLOW_MAINNET_WRITES")?.toLowerCase() ===
+            "true"
+    ) {
+        return { allowed: true };
+    }
+    return {
+        allowed: false,
+        reason: `Transactions on ${network.label} are disabled. Set HIVEFI_ALLOW_MAINNET_WRITES=true to enable them.`,
+    };
+}
+
+export function getLendleContracts(network: NetworkProfile): LendleContracts {
+    const lendle = network.contracts.lendle;
+    if (!lendle) {
+        throw new Error(`Lendle is not available on ${network.label}`);
+    }
+    return lendle;
+}
+
+export function getMerchantMoeContracts(
+    network: NetworkProfile
+): MerchantMoeContracts {
+    const merchantMoe = network.contracts.merchantMoe;
+    if (!merchantMoe) {
+        throw new Error(`Merchant Moe is not available on ${network.label}`);
+    }
+    return merchantMoe;
+}
+
+export function formatTxLink(network: NetworkProfile, hash: string): string {
+    return network.explorerUrl
+        ? `View on Explorer: ${network.explorerUrl}/tx/${hash}`
+        : `Network: ${network.label} (no explorer)`;
+}
+
+export function formatAddressLink(
+    network: NetworkProfile,
+    address: string
+): string {
+    return network.explorerUrl
+        ? `View on Explorer: ${network.explorerUrl}/address/${address}`
+        : `Network: ${network.label} (no explorer)`;
+}
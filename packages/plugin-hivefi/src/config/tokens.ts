@@ -1,10 +1,17 @@
-import type { Address } from "viem";
+import {
+    ServiceType,
+    type IAgentRuntime,
+    type ITokenRegistryService,
+    type TokenListEntry,
+} from "@elizaos/core";
+import { zeroAddress, type Address } from "viem";
+import { getNetwork } from "./networks";
 
 interface BaseTokenConfig {
     symbol: string;
     name: string;
     decimals: number;
-    coingeckoId: string;
+    coingeckoId?: string;
 }
 
 interface NativeTokenConfig extends BaseTokenConfig {
@@ -17,87 +24,77 @@ interface ERC20TokenConfig extends BaseTokenConfig {
 }
 
 type TokenConfig = NativeTokenConfig | ERC20TokenConfig;
-export type { TokenConfig };
+export type { TokenConfig, ERC20TokenConfig };
 
-type TokensConfig = {
-    [K in string]: TokenConfig;
-};
+/**
+ * Tokens are resolved through the token registry service registered by the
+ * agent, which loads Uniswap-format token lists per chain. Without one no
+ * token is known and token actions report the symbol as unsupported. Lookups
+ * default to the token list of the selected network profile.
+ */
+export function getTokenRegistry(
+    runtime: IAgentRuntime
+): ITokenRegistryService | null {
+    return runtime.getService<ITokenRegistryService>(
+        ServiceType.TOKEN_REGISTRY
+    );
+}
 
-export const TOKENS: TokensConfig = {
-    MNT: {
-        type: "native",
-        symbol: "MNT",
-        name: "Mantle",
-        decimals: 18,
-        coingeckoId: "mantle",
-    },
-    USDT: {
-        type: "erc20",
-        symbol: "USDT",
-        name: "Tether USD",
-        address: "0x201EBa5CC46D216Ce6DC03F6a759e8E766e956aE" as Address,
-        decimals: 6,
-        coingeckoId: "tether",
-    },
-    USDC: {
-        type: "erc20",
-        symbol: "USDC",
-        name: "USD Coin",
-        address: "0x09Bc4E0D864854c6aFB6eB9A9cdF58aC190D0dF9" as Address,
-        decimals: 6,
-        coingeckoId: "usd-coin",
-    },
-    METH: {
-        type: "erc20",
-        symbol: "METH",
-        name: "Mantle ETH",
-        address: "0xcDA86A272531e8640cD7F1a92c01839911B90bb0" as Address,
-        decimals: 18,
-        coingeckoId: "ethereum", // Using ETH price for METH
-    },
-    CMETH: {
-        type: "erc20",
-        symbol: "CMETH",
-        name: "Compound Mantle ETH",
-        address: "0xE6829d9a7eE3040e1276Fa75293Bde931859e8fA" as Address,
-        decimals: 18,
-        coingeckoId: "ethereum", // Using ETH price for CMETH
-    },
-    WMNT: {
-        type: "erc20",
-        symbol: "AISHOP",
-        name: "AI Shop Agent",
-        address: "0x0E02649Db4d1Aa8c202aA44EA99e3606d12a21b1" as Address,
-        decimals: 18,
-        coingeckoId: "aishop-mantle",
-    },
-    WBTC: {
+// Token lists mark the native currency with the zero address
+function toTokenConfig(token: TokenListEntry): TokenConfig {
+    const coingeckoId =
+        typeof token.extensions?.coingeckoId === "string"
+            ? token.extensions.coingeckoId
+            : undefined;
+    if (token.address.toLowerCase() === zeroAddress) {
+        return {
+            type: "native",
+            symbol: token.symbol,
+            name: token.name,
+            decimals: token.decimals,
+            coingeckoId,
+        };
+    }
+    return {
         type: "erc20",
-        symbol: "WBTC",
-        name: "Wrapped Bitcoin",
-        address: "0xCAbAE6f6Ea1ecaB08Ad02fE02ce9A44F09aebfA2" as Address,
-        decimals: 8,
-        coingeckoId: "wrapped-bitcoin",
-    },
-} as const;
-
-export type TokenSymbol = keyof typeof TOKENS;
+        symbol: token.symbol,
+        name: token.name,
+        address: token.address as Address,
+        decimals: token.decimals,
+        coingeckoId,
+    };
+}
 
 // Helper functions to get token data
-export function getTokenBySymbol(symbol: TokenSymbol): TokenConfig {
-    return TOKENS[symbol];
+export function getTokens(
+    runtime: IAgentRuntime,
+    chainId: number = getNetwork(runtime).tokenListChainId
+): TokenConfig[] {
+    return (getTokenRegistry(runtime)?.getTokens(chainId) ?? []).map(
+        toTokenConfig
+    );
+}
+
+export function getTokenBySymbol(
+    runtime: IAgentRuntime,
+    symbol: string,
+    chainId: number = getNetwork(runtime).tokenListChainId
+): TokenConfig | undefined {
+    const token = getTokenRegistry(runtime)?.getToken(chainId, symbol);
+    return token ? toTokenConfig(token) : undefined;
 }
 
 export function getTokenByAddress(
-    address: string
+    runtime: IAgentRuntime,
+    address: string,
+    chainId: number = getNetwork(runtime).tokenListChainId
 ): ERC20TokenConfig | undefined {
-    const normalizedAddress = address.toLowerCase();
-    const token = Object.values(TOKENS).find(
-        (token) =>
-            token.type === "erc20" &&
-            token.address.toLowerCase() === normalizedAddress
+    const token = getTokenRegistry(runtime)?.getTokenByAddress(
+        chainId,
+        address
     );
-    return token?.type === "erc20" ? token : undefined;
+    const config = token ? toTokenConfig(token) : undefined;
+    return config?.type === "erc20" ? config : undefined;
 }
 
 // Helper to check if a token is ERC20
@@ -106,20 +103,9 @@ export function isERC20Token(token: TokenConfig): token is ERC20TokenConfig {
 }
 
 // Get all ERC20 tokens
-export function getERC20Tokens(): ERC20TokenConfig[] {
-    return Object.values(TOKENS).filter(isERC20Token);
-}
-
-// Derived maps for specific use cases
-export const TOKEN_ADDRESSES: Record<string, Address> = {};
-export const TOKEN_DECIMALS: Record<string, number> = {};
-export const COINGECKO_IDS: Record<string, string> = {};
-
-// Initialize the derived maps
-for (const [symbol, token] of Object.entries(TOKENS)) {
-    if (token.type === "erc20") {
-        TOKEN_ADDRESSES[symbol] = token.address;
-    }
-    TOKEN_DECIMALS[symbol] = token.decimals;
-    COINGECKO_IDS[symbol] = token.coingeckoId;
+export function getERC20Tokens(
+    runtime: IAgentRuntime,
+    chainId: number = getNetwork(runtime).tokenListChainId
+): ERC20TokenConfig[] {
+    return getTokens(runtime, chainId).filter(isERC20Token);
 }
@@ -1,12 +1,20 @@
 import { IAgentRuntime } from "@elizaos/core";
 import { z } from "zod";
-
-const MANTLE_PUBLIC_RPC = "https://rpc.mantle.xyz";
+import {
+    DEFAULT_NETWORK,
+    NETWORK_PROFILES,
+    type NetworkName,
+} from "./config/networks";
 
 export const mantleEnvSchema = z.object({
     MANTLE_ADDRESS: z.string().min(1, "Mantle address is required"),
     MANTLE_PRIVATE_KEY: z.string().min(1, "Mantle private key is required"),
+    HIVEFI_NETWORK: z.enum(
+        Object.keys(NETWORK_PROFILES) as [NetworkName, ...NetworkName[]]
+    ),
+    // RPC of the selected network
     MANTLE_RPC_URL: z.string().min(1, "Mantle RPC URL is required"),
+    HIVEFI_ALLOW_MAINNET_WRITES: z.boolean(),
 });
 
 export type MantleConfig = z.infer<typeof mantleEnvSchema>;
@@ -15,6 +23,12 @@ export async function validateMantleConfig(
     runtime: IAgentRuntime
 ): Promise<MantleConfig> {
     try {
+        const network = (
+            runtime.getSetting("HIVEFI_NETWORK") ||
+            process.env.HIVEFI_NETWORK ||
+            DEFAULT_NETWORK
+        ).toLowerCase();
+        const profile = NETWORK_PROFILES[network as NetworkName];
         const config = {
             MANTLE_ADDRESS:
                 runtime.getSetting("MANTLE_ADDRESS") ||
@@ -22,10 +36,17 @@ export async function validateMantleConfig(
             MANTLE_PRIVATE_KEY:
                 runtime.getSetting("MANTLE_PRIVATE_KEY") ||
                 process.env.MANTLE_PRIVATE_KEY,
-            MANTLE_RPC_URL:
-                runtime.getSetting("MANTLE_RPC_URL") ||
-                process.env.MANTLE_RPC_URL ||
-                MANTLE_PUBLIC_RPC,
+            HIVEFI_NETWORK: network,
+            MANTLE_RPC_URL: profile
+                ? runtime.getSetting(profile.rpcSetting) ||
+                  process.env[profile.rpcSetting] ||
+                  profile.rpcUrl
+                : undefined,
+            HIVEFI_ALLOW_MAINNET_WRITES:
+                (
+                    runtime.getSetting("HIVEFI_ALLOW_MAINNET_WRITES") ||
+                    process.env.HIVEFI_ALLOW_MAINNET_WRITES
+                )?.toLowerCase() === "true",
         };
 
         return mantleEnvSchema.parse(config);
@@ -6,10 +6,25 @@ import { transfer } from "./actions/transfer";
 import { erc20Transfer } from "./actions/erc20Transfer";
 import { portfolio } from "./actions/portfolio";
 import { swap } from "./actions/swap";
+import { stake } from "./actions/stake";
+import { unstake } from "./actions/unstake";
+import { listUnstakeRequests } from "./actions/listUnstakeRequests";
+import { quoteSwap } from "./actions/quoteSwap";
+import { findYield } from "./actions/findYield";
+import { createOrder } from "./actions/createOrder";
+import { listOrders } from "./actions/listOrders";
+import { cancelOrder } from "./actions/cancelOrder";
+import { listApprovals } from "./actions/listApprovals";
+import { revokeApproval } from "./actions/revokeApproval";
 import { deposit } from "./actions/lending/deposit";
 import { withdraw } from "./actions/lending/withdraw";
 import { borrow } from "./actions/lending/borrow";
 import { repay } from "./actions/lending/repay";
+import { repayToSafety } from "./actions/lending/repayToSafety";
+import { LendingHealthMonitor } from "./services/healthMonitor";
+import { UnstakeClaimTracker } from "./services/unstakeTracker";
+import { PortfolioSnapshotService } from "./services/portfolioSnapshots";
+import { OrderScheduler } from "./services/orderScheduler";
 
 export const hivefiPlugin: Plugin = {
     name: "hivefi",
@@ -19,16 +34,33 @@ export const hivefiPlugin: Plugin = {
         erc20Transfer,
         portfolio,
         swap,
+        quoteSwap,
+        findYield,
+        createOrder,
+        listOrders,
+        cancelOrder,
+        listApprovals,
+        revokeApproval,
+        stake,
+        unstake,
+        listUnstakeRequests,
         deposit,
         withdraw,
         borrow,
-        repay
+        repay,
+        repayToSafety
     ],
     evaluators: [],
     providers: [
         coinGeckoProvider,
         defiLlamaProvider,
         walletProvider
+    ],
+    services: [
+        new LendingHealthMonitor(),
+        new UnstakeClaimTracker(),
+        new PortfolioSnapshotService(),
+        new OrderScheduler(),
     ]
 };
 
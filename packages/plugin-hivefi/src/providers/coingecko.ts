@@ -18,30 +18,38 @@ const TRACKED_TOKENS = [
 
 type TokenInfo = (typeof TRACKED_TOKENS)[number];
 
-interface CoinGeckoPrice {
+export interface CoinGeckoPrice {
     usd: number;
     usd_24h_change?: number;
     usd_market_cap?: number;
     last_updated_at?: number;
 }
 
-interface CoinGeckoPriceResponse {
+export interface CoinGeckoPriceResponse {
     [key: string]: CoinGeckoPrice;
 }
 
-// Cache configuration
+// Cache configuration, per CoinGecko id so the provider and the portfolio
+// engine share prices
 const CACHE_DURATION = 300 * 1000; // 300 seconds to avoid rate limits
-let marketDataCache: {
-    data: CoinGeckoPriceResponse | null;
-    timestamp: number;
-} = {
-    data: null,
-    timestamp: 0,
-};
+const marketDataCache = new Map<
+    string,
+    { data: CoinGeckoPrice; timestamp: number }
+>();
 
 // Helper function to check if cache is valid
-function isCacheValid(): boolean {
-    return Date.now() - marketDataCache.timestamp < CACHE_DURATION;
+function isCacheValid(id: string): boolean {
+    const cached = marketDataCache.get(id);
+    return !!cached && Date.now() - cached.timestamp < CACHE_DURATION;
+}
+
+function fromCache(ids: string[]): CoinGeckoPriceResponse {
+    const cached: CoinGeckoPriceResponse = {};
+    for (const id of ids) {
+        const entry = marketDataCache.get(id);
+        if (entry) cached[id] = entry.data;
+    }
+    return cached;
 }
 
 // Format currency with appropriate decimal places
@@ -66,20 +74,24 @@ function formatPriceChange(value: number | undefined): string {
     return `${sign}${value.toFixed(2)}%`;
 }
 
-async function fetchMarketData(
-    tokens: TokenInfo[]
+/**
+ * USD prices for CoinGecko ids, served from the shared cache when fresh.
+ * When rate limited, expired cache entries are returned instead.
+ */
+export async function fetchCoinGeckoPrices(
+    ids: string[]
 ): Promise<CoinGeckoPriceResponse> {
-    if (isCacheValid() && marketDataCache.data) {
-        return marketDataCache.data;
+    const missing = ids.filter((id) => !isCacheValid(id));
+    if (missing.length === 0) {
+        return fromCache(ids);
     }
 
     try {
-        const ids = tokens.map((t) => t.id).join(",");
         const response = await axios.get<CoinGeckoPriceResponse>(
             `${BASE_URL}/simple/price`,
             {
                 params: {
-                    ids,
+                    ids: missing.join(","),
                     vs_currencies: "usd",
                     include_24h_change: true,
                     include_market_cap: true,
@@ -98,17 +110,18 @@ async function fetchMarketData(
         }
 
         // Update cache
-        marketDataCache = {
-            data: response.data,
-            timestamp: Date.now(),
-        };
+        const timestamp = Date.now();
+        for (const [id, data] of Object.entries(response.data)) {
+            marketDataCache.set(id, { data, timestamp });
+        }
 
-        return response.data;
+        return fromCache(ids);
     } catch (error) {
         if (axios.isAxiosError(error) && error.response?.status === 429) {
             // If rate limited and we have cache, return cache even if expired
-            if (marketDataCache.data) {
-                return marketDataCache.data;
+            const cached = fromCache(ids);
+            if (Object.keys(cached).length > 0) {
+                return cached;
             }
             throw new Error(
                 "Rate limited by CoinGecko API and no cached data available"
@@ -119,6 +132,12 @@ async function fetchMarketData(
     }
 }
 
+async function fetchMarketData(
+    tokens: TokenInfo[]
+): Promise<CoinGeckoPriceResponse> {
+    return fetchCoinGeckoPrices(tokens.map((t) => t.id));
+}
+
 export const coinGeckoProvider: Provider = {
     async get(
         _runtime: IAgentRuntime,
@@ -141,6 +141,110 @@ async function fetchTVLData(): Promise<TVLMetrics> {
     }
 }
 
+export interface DefiLlamaPrice {
+    price: number;
+    symbol?: string;
+    // Unix seconds of the last price update
+    timestamp: number;
+    confidence?: number;
+}
+
+// Prices are keyed by DefiLlama coin id, e.g. "mantle:0x..." or "coingecko:mantle"
+const PRICE_CACHE_DURATION = 60 * 1000;
+const priceCache = new Map<string, { data: DefiLlamaPrice; timestamp: number }>();
+
+/**
+ * Current USD prices from the DefiLlama coins API, cached per coin id.
+ */
+export async function fetchDefiLlamaPrices(
+    coins: string[]
+): Promise<Record<string, DefiLlamaPrice>> {
+    const missing = coins.filter((coin) => {
+        const cached = priceCache.get(coin);
+        return !cached || Date.now() - cached.timestamp >= PRICE_CACHE_DURATION;
+    });
+
+    if (missing.length > 0) {
+        try {
+            const response = await axios.get<{
+                coins: Record<string, DefiLlamaPrice>;
+            }>(
+                `https://coins.llama.fi/prices/current/${missing.join(",")}`,
+                { timeout: 5000 }
+            );
+            const timestamp = Date.now();
+            for (const [coin, data] of Object.entries(
+                response.data?.coins ?? {}
+            )) {
+                priceCache.set(coin, { data, timestamp });
+            }
+        } catch (error) {
+            if (error instanceof Error) {
+                throw new Error(
+                    `Failed to fetch DefiLlama prices: ${error.message}`
+                );
+            }
+            throw new Error("Failed to fetch DefiLlama prices");
+        }
+    }
+
+    const prices: Record<string, DefiLlamaPrice> = {};
+    for (const coin of coins) {
+        const cached = priceCache.get(coin);
+        if (cached) prices[coin] = cached.data;
+    }
+    return prices;
+}
+
+// Pool entry of the DefiLlama yields API
+export interface DefiLlamaYieldPool {
+    pool: string;
+    chain: string;
+    project: string;
+    symbol: string;
+    tvlUsd: number;
+    apy: number | null;
+    apyBase?: number | null;
+    apyReward?: number | null;
+    stablecoin?: boolean;
+    ilRisk?: string;
+    exposure?: string;
+    underlyingTokens?: string[] | null;
+}
+
+const YIELDS_CACHE_DURATION = 10 * 60 * 1000;
+let yieldsCache: { data: DefiLlamaYieldPool[]; timestamp: number } | null =
+    null;
+
+/**
+ * Every pool tracked by the DefiLlama yields API, cached for ten minutes as
+ * the response covers all chains.
+ */
+export async function fetchDefiLlamaYields(): Promise<DefiLlamaYieldPool[]> {
+    if (yieldsCache && Date.now() - yieldsCache.timestamp < YIELDS_CACHE_DURATION) {
+        return yieldsCache.data;
+    }
+
+    try {
+        const response = await axios.get<{ data: DefiLlamaYieldPool[] }>(
+            "https://yields.llama.fi/pools",
+            { timeout: 15000 }
+        );
+        yieldsCache = {
+            data: response.data?.data ?? [],
+            timestamp: Date.now(),
+        };
+        return yieldsCache.data;
+    } catch (error) {
+        if (error instanceof Error) {
+            throw new Error(
+                `Failed to fetch DefiLlama yields: ${error.message}`
+            );
+        }
+        throw new Error("Failed to fetch DefiLlama yields");
+    }
+}
+
 export const defiLlamaProvider: Provider = {
     async get(
         _runtime: IAgentRuntime,
@@ -1,36 +1,45 @@
 import {
-    createPublicClient,
     createWalletClient,
     http,
     formatEther,
     type PublicClient,
     type WalletClient,
-    type Chain,
 } from "viem";
 import { privateKeyToAccount } from "viem/accounts";
 import type { Provider, IAgentRuntime, Memory, State } from "@elizaos/core";
-import { mantleTestnetChain } from "../config/chains";
+import {
+    checkNetworkWrite,
+    createNetworkClient,
+    formatAddressLink,
+    getNetwork,
+    type NetworkProfile,
+} from "../config/networks";
 
 class WalletProvider {
     private account: ReturnType<typeof privateKeyToAccount>;
     private publicClient: PublicClient;
     private walletClient: WalletClient;
 
-    constructor(privateKey: `0x${string}`, rpcUrl = "https://rpc.sepolia.mantle.xyz") {
+    constructor(
+        privateKey: `0x${string}`,
+        private network: NetworkProfile
+    ) {
         this.account = privateKeyToAccount(privateKey);
 
-        this.publicClient = createPublicClient({
-            chain: mantleTestnetChain,
-            transport: http(rpcUrl),
-        });
+        this.publicClient = createNetworkClient(network);
 
         this.walletClient = createWalletClient({
             account: this.account,
-            chain: mantleTestnetChain,
-            transport: http(rpcUrl),
+            chain: network.chain,
+            transport: http(network.rpcUrl),
         });
     }
 
+    // Network profile the wallet reads from and sends to
+    getNetwork(): NetworkProfile {
+        return this.network;
+    }
+
     getAddress(): string {
         return this.account.address;
     }
@@ -54,6 +63,11 @@ class WalletProvider {
     getWalletClient(): WalletClient {
         return this.walletClient;
     }
+
+    // Reads and simulations against the RPC the wallet sends through
+    getPublicClient(): PublicClient {
+        return this.publicClient;
+    }
 }
 
 export function initWalletProvider(
@@ -69,22 +83,13 @@ export function initWalletProvider(
         const normalizedKey = privateKey.startsWith("0x")
             ? (privateKey as `0x${string}`)
             : (`0x${privateKey}` as `0x${string}`);
-        const rpcUrl =
-            runtime.getSetting("EVM_RPC_URL") || "https://rpc.sepolia.mantle.xyz";
-
-        return new WalletProvider(normalizedKey, rpcUrl);
+        return new WalletProvider(normalizedKey, getNetwork(runtime));
     } catch (error) {
         console.error("Error initializing wallet provider:", error);
         return null;
     }
 }
 
-// Create a public client for read-only operations
-const publicClient = createPublicClient({
-    chain: mantleTestnetChain,
-    transport: http("https://rpc.sepolia.mantle.xyz"),
-});
-
 // Export the provider for use in the plugin
 export const walletProvider: Provider = {
     async get(
@@ -99,13 +104,17 @@ export const walletProvider: Provider = {
             if (addressMatch) {
                 const address = addressMatch[0].toLowerCase() as `0x${string}`;
                 try {
-                    const balance = await publicClient.getBalance({ address });
+                    const network = getNetwork(runtime);
+                    const balance = await createNetworkClient(
+                        network
+                    ).getBalance({ address });
                     return [
                         "Mantle Address Information:",
+                        `Network: ${network.label}`,
                         `Address: ${address}`,
                         `Balance: ${formatEther(balance)} MNT`,
                         "",
-                        `View on Explorer: https://explorer.mantle.xyz/address/${address}`,
+                        formatAddressLink(network, address),
                     ].join("\n");
                 } catch (error) {
                     console.error("Error fetching balance:", error);
@@ -125,7 +134,7 @@ export const walletProvider: Provider = {
                     "EVM_PRIVATE_KEY: This should be a 64-character hexadecimal string set in your environment variables. It's crucial for wallet access.",
                     "",
                     "2.",
-                    "EVM_RPC_URL: This should be set to https://rpc.mantle.xyz, which is the default endpoint for Mantle transactions.",
+                    "HIVEFI_NETWORK: mainnet, sepolia or fork. The RPC comes from the network profile and can be overridden with MANTLE_RPC_URL, MANTLE_SEPOLIA_RPC_URL or MANTLE_FORK_RPC_URL.",
                     "",
                     "If both are configured correctly and the issue persists, there might be a need to double-check your environment setup or restart your application to ensure all settings are applied. Let me know if you need further help!",
                 ].join("\n");
@@ -134,13 +143,18 @@ export const walletProvider: Provider = {
             try {
                 const address = provider.getAddress();
                 const balance = await provider.getBalance();
+                const network = provider.getNetwork();
+                const write = checkNetworkWrite(runtime, network);
                 return [
                     "Mantle Wallet Information:",
+                    `Network: ${network.label}`,
                     `Address: ${address}`,
                     `Balance: ${balance} MNT`,
                     "",
-                    "Your wallet is properly configured and ready for transactions.",
-                    `View on Explorer: https://explorer.mantle.xyz/address/${address}`,
+                    write.allowed
+                        ? "Your wallet is properly configured and ready for transactions."
+                        : `Your wallet is read-only: ${write.reason}`,
+                    formatAddressLink(network, address),
                 ].join("\n");
             } catch (error) {
                 console.error("Error in wallet provider:", error);
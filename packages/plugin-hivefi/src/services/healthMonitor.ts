@@ -0,0 +1,472 @@
+import {
+    elizaLogger,
+    Service,
+    ServiceType,
+    stringToUuid,
+    type IAgentRuntime,
+    type Memory,
+    type UUID,
+} from "@elizaos/core";
+import {
+    formatUnits,
+    parseUnits,
+    type Address,
+    type PublicClient,
+} from "viem";
+import {
+    createNetworkClient,
+    getLendleContracts,
+    getNetwork,
+    type LendleContracts,
+} from "../config/networks";
+import { getTokenBySymbol, isERC20Token } from "../config/tokens";
+import {
+    DEBT_TOKEN_ABI,
+    ERC20_ABI,
+    LENDING_POOL_ABI,
+    MARKET_TOKENS,
+    PRICE_ORACLE_ABI,
+} from "../actions/lending/config";
+
+export const LENDLE_BORROWERS_KEY = "lendle_borrowers";
+export const REPAY_PLAN_PREFIX = "lendle_repay_plan:";
+export const HEALTH_POLL_INTERVAL_MS = 60 * 1000;
+const REPAY_PLAN_TTL_MS = 30 * 60 * 1000;
+
+// Repay plans add this margin (1%) for interest accrued before they execute
+const REPAY_BUFFER_BPS = 10100n;
+
+const DEFAULT_THRESHOLDS: HealthThresholds = {
+    warning: 1.5,
+    critical: 1.1,
+    target: 1.6,
+};
+
+type HealthClient = Pick<PublicClient, "readContract">;
+
+export type HealthLevel = "ok" | "warning" | "critical";
+
+export interface HealthThresholds {
+    warning: number;
+    critical: number;
+    // Health factor a repay-to-safety plan brings the position back to
+    target: number;
+}
+
+// A wallet that borrowed through BORROW_LENDING and the room to alert
+export interface TrackedBorrower {
+    address: Address;
+    userId: UUID;
+    roomId: UUID;
+    level: HealthLevel;
+}
+
+export interface RepayPlan {
+    userId: UUID;
+    roomId: UUID;
+    address: Address;
+    tokenSymbol: keyof typeof MARKET_TOKENS;
+    amount: string;
+    walletBalance: string;
+    healthFactor: number;
+    healthFactorAfter: number;
+    createdAt: number;
+    expiresAt: number;
+}
+
+interface AccountHealth {
+    totalCollateral: bigint;
+    totalDebt: bigint;
+    liquidationThreshold: bigint;
+    healthFactor: number;
+}
+
+/**
+ * Thresholds come from LENDLE_HF_WARNING, LENDLE_HF_CRITICAL and
+ * LENDLE_HF_TARGET, defaulting to 1.5, 1.1 and 1.6.
+ */
+export function getHealthThresholds(runtime: IAgentRuntime): HealthThresholds {
+    const read = (key: string, fallback: number) => {
+        const value = Number(runtime.getSetting(key));
+        return Number.isFinite(value) && value > 1 ? value : fallback;
+    };
+    return {
+        warning: read("LENDLE_HF_WARNING", DEFAULT_THRESHOLDS.warning),
+        critical: read("LENDLE_HF_CRITICAL", DEFAULT_THRESHOLDS.critical),
+        target: read("LENDLE_HF_TARGET", DEFAULT_THRESHOLDS.target),
+    };
+}
+
+export function getHealthLevel(
+    healthFactor: number,
+    thresholds: HealthThresholds
+): HealthLevel {
+    if (healthFactor < thresholds.critical) return "critical";
+    if (healthFactor < thresholds.warning) return "warning";
+    return "ok";
+}
+
+const LEVEL_SEVERITY: Record<HealthLevel, number> = {
+    ok: 0,
+    warning: 1,
+    critical: 2,
+};
+
+/**
+ * Start monitoring the wallet that just borrowed. Alerts go to the room the
+ * borrow was requested from.
+ */
+export async function trackBorrower(
+    runtime: IAgentRuntime,
+    message: Memory,
+    address: Address
+): Promise<void> {
+    try {
+        const borrowers = await getTrackedBorrowers(runtime);
+        const others = borrowers.filter(
+            (borrower) =>
+                borrower.userId !== message.userId ||
+                borrower.address.toLowerCase() !== address.toLowerCase()
+        );
+        await runtime.cacheManager.set(LENDLE_BORROWERS_KEY, [
+            ...others,
+            {
+                address,
+                userId: message.userId,
+                roomId: message.roomId,
+                level: "ok",
+            },
+        ]);
+    } catch (error) {
+        console.error("Failed to track Lendle borrower:", error);
+    }
+}
+
+export async function getTrackedBorrowers(
+    runtime: IAgentRuntime
+): Promise<TrackedBorrower[]> {
+    return (
+        (await runtime.cacheManager.get<TrackedBorrower[]>(
+            LENDLE_BORROWERS_KEY
+        )) ?? []
+    );
+}
+
+export async function getRepayPlan(
+    runtime: IAgentRuntime,
+    userId: UUID
+): Promise<RepayPlan | null> {
+    const plan = await runtime.cacheManager.get<RepayPlan>(
+        `${REPAY_PLAN_PREFIX}${userId}`
+    );
+    return plan && plan.expiresAt > Date.now() ? plan : null;
+}
+
+export async function clearRepayPlan(
+    runtime: IAgentRuntime,
+    userId: UUID
+): Promise<void> {
+    await runtime.cacheManager.delete(`${REPAY_PLAN_PREFIX}${userId}`);
+}
+
+async function getAccountHealth(
+    publicClient: HealthClient,
+    lendle: LendleContracts,
+    address: Address
+): Promise<AccountHealth> {
+    const [
+        totalCollateral,
+        totalDebt,
+        _availableBorrows,
+        liquidationThreshold,
+        _ltv,
+        healthFactor,
+    ] = await publicClient.readContract({
+        address: lendle.lendingPool,
+        abi: LENDING_POOL_ABI,
+        functionName: "getUserAccountData",
+        args: [address],
+    });
+    return {
+        totalCollateral,
+        totalDebt,
+        liquidationThreshold,
+        healthFactor: Number(formatUnits(healthFactor, 18)),
+    };
+}
+
+// Health factor once the debt (in the oracle base unit) drops to `debt`
+function healthFactorFor(health: AccountHealth, debt: bigint): number {
+    if (debt <= 0n) return Number.POSITIVE_INFINITY;
+    const adjustedCollateral =
+        (health.totalCollateral * health.liquidationThreshold) / 10000n;
+    return Number(formatUnits((adjustedCollateral * 10n ** 18n) / debt, 18));
+}
+
+/**
+ * Plan a repayment of the largest variable-rate debt, valued with the Lendle
+ * PRICE_ORACLE, that brings the health factor back to `targetHealthFactor`.
+ * When that debt alone is not enough the plan repays all of it.
+ */
+export async function computeRepayPlan(
+    runtime: IAgentRuntime,
+    publicClient: HealthClient,
+    address: Address,
+    targetHealthFactor: number
+): Promise<Omit<
+    RepayPlan,
+    "userId" | "roomId" | "createdAt" | "expiresAt"
+> | null> {
+    const lendle = getLendleContracts(getNetwork(runtime));
+    const health = await getAccountHealth(publicClient, lendle, address);
+    const target = parseUnits(targetHealthFactor.toFixed(4), 18);
+    const maxDebt =
+        (health.totalCollateral * health.liquidationThreshold * 10n ** 18n) /
+        (10000n * target);
+    if (health.totalDebt <= maxDebt) return null;
+    const repayValue = health.totalDebt - maxDebt;
+
+    let largest: {
+        symbol: keyof typeof MARKET_TOKENS;
+        debt: bigint;
+        value: bigint;
+        price: bigint;
+        decimals: number;
+    } | null = null;
+    for (const symbol of Object.keys(MARKET_TOKENS) as Array<
+        keyof typeof MARKET_TOKENS
+    >) {
+        const token = getTokenBySymbol(runtime, symbol);
+        if (!token || !isERC20Token(token)) continue;
+
+        const market = MARKET_TOKENS[symbol];
+        const debt = await publicClient.readContract({
+            address: market.variableDebtToken,
+            abi: DEBT_TOKEN_ABI,
+            functionName: "balanceOf",
+            args: [address],
+        });
+        if (debt === 0n) continue;
+
+        const price = await publicClient.readContract({
+            address: lendle.priceOracle,
+            abi: PRICE_ORACLE_ABI,
+            functionName: "getAssetPrice",
+            args: [market.underlying],
+        });
+        const value = (debt * price) / 10n ** BigInt(token.decimals);
+        if (!largest || value > largest.value) {
+            largest = { symbol, debt, value, price, decimals: token.decimals };
+        }
+    }
+    if (!largest || largest.price === 0n) return null;
+
+    const unit = 10n ** BigInt(largest.decimals);
+    let amount =
+        (((repayValue * unit + largest.price - 1n) / largest.price) *
+            REPAY_BUFFER_BPS) /
+        10000n;
+    if (amount > largest.debt) amount = largest.debt;
+
+    const walletBalance = await publicClient.readContract({
+        address: MARKET_TOKENS[largest.symbol].underlying,
+        abi: ERC20_ABI,
+        functionName: "balanceOf",
+        args: [address],
+    });
+
+    return {
+        address,
+        tokenSymbol: largest.symbol,
+        amount: formatUnits(amount, largest.decimals),
+        walletBalance: formatUnits(walletBalance, largest.decimals),
+        healthFactor: health.healthFactor,
+        healthFactorAfter: healthFactorFor(
+            health,
+            health.totalDebt - (amount * largest.price) / unit
+        ),
+    };
+}
+
+export function formatHealthAlert(
+    borrower: TrackedBorrower,
+    healthFactor: number,
+    thresholds: HealthThresholds,
+    plan: RepayPlan | null
+): string {
+    const lines = [
+        borrower.level === "critical"
+            ? `🚨 Your Lendle position is close to liquidation: health factor ${healthFactor.toFixed(2)} (critical below ${thresholds.critical}).`
+            : `⚠️ Your Lendle health factor dropped to ${healthFactor.toFixed(2)} (warning below ${thresholds.warning}).`,
+        `Wallet: ${borrower.address}`,
+    ];
+    if (plan) {
+        const healthAfter = Number.isFinite(plan.healthFactorAfter)
+            ? plan.healthFactorAfter.toFixed(2)
+            : "∞";
+        lines.push(
+            "",
+            `Repay-to-safety plan: repay ${plan.amount} ${plan.tokenSymbol} to bring the health factor to ${healthAfter}.`
+        );
+        if (Number(plan.walletBalance) < Number(plan.amount)) {
+            lines.push(
+                `Your wallet only holds ${plan.walletBalance} ${plan.tokenSymbol}, top it up before confirming.`
+            );
+        }
+        lines.push(`Reply "repay to safety" to execute it.`);
+    } else {
+        lines.push("", "Deposit collateral or repay debt to avoid liquidation.");
+    }
+    return lines.join("\n");
+}
+
+/**
+ * Polls the health factor of every wallet with open Lendle borrows and posts
+ * a warning into the borrower's room each time it crosses a lower threshold,
+ * together with a repay-to-safety plan the user can run with one reply.
+ */
+export class LendingHealthMonitor extends Service {
+    private runtime: IAgentRuntime | null = null;
+    private timer: ReturnType<typeof setInterval> | null = null;
+    private running = false;
+
+    constructor(
+        private intervalMs = HEALTH_POLL_INTERVAL_MS,
+        // Defaults to a client for the selected network
+        private publicClient?: HealthClient
+    ) {
+        super();
+    }
+
+    static get serviceType(): ServiceType {
+        return ServiceType.LENDING_MONITOR;
+    }
+
+    async initialize(runtime: IAgentRuntime): Promise<void> {
+        this.runtime = runtime;
+        this.publicClient ??= createNetworkClient(getNetwork(runtime));
+        if (this.timer) return;
+        this.timer = setInterval(async () => {
+            if (this.running) return;
+            this.running = true;
+            try {
+                await this.checkBorrowers();
+            } catch (error) {
+                elizaLogger.error("Error polling Lendle health factors:", error);
+            } finally {
+                this.running = false;
+            }
+        }, this.intervalMs);
+    }
+
+    stop(): void {
+        if (this.timer) clearInterval(this.timer);
+        this.timer = null;
+    }
+
+    // Returns the number of alerts posted
+    async checkBorrowers(): Promise<number> {
+        const runtime = this.runtime;
+        const publicClient = this.publicClient;
+        if (!runtime || !publicClient) {
+            throw new Error("LendingHealthMonitor is not initialized");
+        }
+        // Nothing to monitor where Lendle is not deployed
+        const lendle = getNetwork(runtime).contracts.lendle;
+        if (!lendle) return 0;
+
+        const thresholds = getHealthThresholds(runtime);
+        const borrowers = await getTrackedBorrowers(runtime);
+        const stillBorrowing: TrackedBorrower[] = [];
+        let alerts = 0;
+
+        for (const borrower of borrowers) {
+            let health: AccountHealth;
+            try {
+                health = await getAccountHealth(
+                    publicClient,
+                    lendle,
+                    borrower.address
+                );
+            } catch (error) {
+                console.error("Failed to read Lendle account data:", error);
+                stillBorrowing.push(borrower);
+                continue;
+            }
+            // Fully repaid positions are no longer monitored
+            if (health.totalDebt === 0n) continue;
+
+            const level = getHealthLevel(health.healthFactor, thresholds);
+            const updated = { ...borrower, level };
+            stillBorrowing.push(updated);
+
+            if (LEVEL_SEVERITY[level] > LEVEL_SEVERITY[borrower.level]) {
+                await this.alert(
+                    runtime,
+                    publicClient,
+                    updated,
+                    health.healthFactor,
+                    thresholds
+                );
+                alerts++;
+            }
+        }
+
+        await runtime.cacheManager.set(LENDLE_BORROWERS_KEY, stillBorrowing);
+        return alerts;
+    }
+
+    private async alert(
+        runtime: IAgentRuntime,
+        publicClient: HealthClient,
+        borrower: TrackedBorrower,
+        healthFactor: number,
+        thresholds: HealthThresholds
+    ): Promise<void> {
+        let plan: RepayPlan | null = null;
+        try {
+            const computed = await computeRepayPlan(
+                runtime,
+                publicClient,
+                borrower.address,
+                thresholds.target
+            );
+            if (computed) {
+                const createdAt = Date.now();
+                plan = {
+                    ...computed,
+                    userId: borrower.userId,
+                    roomId: borrower.roomId,
+                    createdAt,
+                    expiresAt: createdAt + REPAY_PLAN_TTL_MS,
+                };
+                await runtime.cacheManager.set(
+                    `${REPAY_PLAN_PREFIX}${borrower.userId}`,
+                    plan
+                );
+            }
+        } catch (error) {
+            console.error("Failed to compute repay-to-safety plan:", error);
+        }
+
+        await runtime.messageManager.createMemory({
+            id: stringToUuid(
+                `lendle-health-${borrower.userId}-${borrower.address}-${Date.now()}`
+            ),
+            userId: runtime.agentId,
+            agentId: runtime.agentId,
+            roomId: borrower.roomId,
+            content: {
+                text: formatHealthAlert(
+                    borrower,
+                    healthFactor,
+                    thresholds,
+                    plan
+                ),
+                action: "LENDLE_HEALTH_ALERT",
+                source: "hivefi",
+            },
+            createdAt: Date.now(),
+        });
+    }
+}
@@ -0,0 +1,224 @@
+import {
+    elizaLogger,
+    Service,
+    ServiceType,
+    stringToUuid,
+    type IAgentRuntime,
+} from "@elizaos/core";
+import { erc20Abi, formatUnits, type Address } from "viem";
+import { executeSwap } from "../actions/swap";
+import { formatTxLink, getNetwork } from "../config/networks";
+import { getTokenBySymbol, isERC20Token } from "../config/tokens";
+import { initWalletProvider } from "../providers/wallet";
+import {
+    MAX_ORDER_FAILURES,
+    addOrderEvent,
+    describeOrder,
+    getOrders,
+    isTriggered,
+    saveOrders,
+    type ScheduledOrder,
+} from "../utils/orders";
+import {
+    getPriceFeed,
+    toPriceFeedToken,
+    type PriceQuotes,
+} from "../utils/priceFeed";
+
+export const ORDER_POLL_INTERVAL_MS = 60 * 1000;
+
+/**
+ * Evaluates active orders on a timer. DCA orders run when their next run is
+ * due; limit and stop-loss orders run once the price feed crosses their
+ * trigger. Every order executes through the SWAP_MANTLE logic, so spending
+ * policies and price impact limits apply, and each attempt is appended to the
+ * order history and posted to the room the order was created from.
+ */
+export class OrderScheduler extends Service {
+    private runtime: IAgentRuntime | null = null;
+    private timer: ReturnType<typeof setInterval> | null = null;
+    private running = false;
+
+    constructor(private intervalMs = ORDER_POLL_INTERVAL_MS) {
+        super();
+    }
+
+    static get serviceType(): ServiceType {
+        return ServiceType.ORDER_SCHEDULER;
+    }
+
+    async initialize(runtime: IAgentRuntime): Promise<void> {
+        this.runtime = runtime;
+        if (this.timer) return;
+        this.timer = setInterval(async () => {
+            if (this.running) return;
+            this.running = true;
+            try {
+                await this.evaluateOrders();
+            } catch (error) {
+                elizaLogger.error("Error evaluating orders:", error);
+            } finally {
+                this.running = false;
+            }
+        }, this.intervalMs);
+    }
+
+    stop(): void {
+        if (this.timer) clearInterval(this.timer);
+        this.timer = null;
+    }
+
+    // Returns the number of orders executed
+    async evaluateOrders(now = Date.now()): Promise<number> {
+        const runtime = this.runtime;
+        if (!runtime) throw new Error("OrderScheduler is not initialized");
+
+        const orders = (await getOrders(runtime)).filter(
+            (order) => order.status === "active"
+        );
+        if (orders.length === 0) return 0;
+
+        const prices = await this.getTriggerPrices(runtime, orders);
+        let executed = 0;
+        for (const order of orders) {
+            if (order.type === "dca") {
+                if ((order.nextRunAt ?? 0) > now) continue;
+                if (await this.execute(runtime, order)) executed++;
+                // Skip runs missed while the agent was down instead of
+                // catching up on all of them at once
+                const interval = order.intervalMs ?? Number.POSITIVE_INFINITY;
+                let next = (order.nextRunAt ?? now) + interval;
+                while (next <= now) next += interval;
+                order.nextRunAt = next;
+                continue;
+            }
+
+            const quote = prices.get(order.triggerSymbol ?? "");
+            // A stale price must not trigger a trade
+            if (!quote || quote.stale || !isTriggered(order, quote.usd)) {
+                continue;
+            }
+            addOrderEvent(order, {
+                type: "triggered",
+                detail: `${order.triggerSymbol} at $${quote.usd} is ${order.condition} $${order.triggerPrice}`,
+                price: quote.usd,
+            });
+            if (await this.execute(runtime, order, quote.usd)) {
+                order.status = "filled";
+                executed++;
+            } else if (order.failures >= MAX_ORDER_FAILURES) {
+                order.status = "failed";
+                await this.notify(
+                    runtime,
+                    order,
+                    `Order ${order.id} was stopped after ${order.failures} failed attempts.`
+                );
+            }
+        }
+
+        await saveOrders(runtime, orders);
+        return executed;
+    }
+
+    private async getTriggerPrices(
+        runtime: IAgentRuntime,
+        orders: ScheduledOrder[]
+    ): Promise<PriceQuotes> {
+        const symbols = new Set(
+            orders
+                .map((order) => order.triggerSymbol)
+                .filter((symbol): symbol is string => !!symbol)
+        );
+        const tokens = [...symbols].flatMap((symbol) => {
+            const token = getTokenBySymbol(runtime, symbol);
+            return token ? [{ ...toPriceFeedToken(token), symbol }] : [];
+        });
+        if (tokens.length === 0) return new Map();
+        return getPriceFeed(runtime).getPrices(tokens);
+    }
+
+    // Amount to swap, resolving "all" to the wallet balance of an ERC20
+    private async resolveAmount(
+        runtime: IAgentRuntime,
+        order: ScheduledOrder
+    ): Promise<string> {
+        if (order.amount !== "all") return order.amount;
+
+        const token = getTokenBySymbol(runtime, order.fromSymbol);
+        const provider = initWalletProvider(runtime);
+        if (!token || !isERC20Token(token) || !provider) {
+            throw new Error(`Cannot read the ${order.fromSymbol} balance`);
+        }
+        const balance = await provider.getPublicClient().readContract({
+            address: token.address,
+            abi: erc20Abi,
+            functionName: "balanceOf",
+            args: [provider.getAddress() as Address],
+        });
+        if (balance === 0n) {
+            throw new Error(`No ${order.fromSymbol} balance left to swap`);
+        }
+        return formatUnits(balance, token.decimals);
+    }
+
+    // Returns true when the swap went through
+    private async execute(
+        runtime: IAgentRuntime,
+        order: ScheduledOrder,
+        price?: number
+    ): Promise<boolean> {
+        let error: string;
+        try {
+            const amount = await this.resolveAmount(runtime, order);
+            const result = await executeSwap(runtime, order, {
+                amount,
+                fromSymbol: order.fromSymbol,
+                toSymbol: order.toSymbol,
+            });
+            if (result.success) {
+                order.executions++;
+                order.failures = 0;
+                addOrderEvent(order, {
+                    type: "executed",
+                    detail: `Swapped ${amount} ${order.fromSymbol} for ~${result.amountOut} ${order.toSymbol} via ${result.route}`,
+                    price,
+                    hash: result.hash,
+                });
+                await this.notify(
+                    runtime,
+                    order,
+                    `✅ Order ${order.id} executed (${describeOrder(order)}): swapped ${amount} ${order.fromSymbol} for ~${result.amountOut} ${order.toSymbol}.\nTransaction Hash: ${result.hash}\n${formatTxLink(getNetwork(runtime), result.hash)}`
+                );
+                return true;
+            }
+            error = result.error;
+        } catch (caught) {
+            console.error(`Failed to execute order ${order.id}:`, caught);
+            error = caught instanceof Error ? caught.message : "Unknown error";
+        }
+
+        order.failures++;
+        addOrderEvent(order, { type: "failed", detail: error, price });
+        await this.notify(
+            runtime,
+            order,
+            `⚠️ Order ${order.id} (${describeOrder(order)}) could not be executed: ${error}`
+        );
+        return false;
+    }
+
+    private async notify(
+        runtime: IAgentRuntime,
+        order: ScheduledOrder,
+        text: string
+    ): Promise<void> {
+        await runtime.messageManager.createMemory({
+            id: stringToUuid(`hivefi-order-${order.id}-${Date.now()}`),
+            userId: runtime.agentId,
+            agentId: runtime.agentId,
+            roomId: order.roomId,
+            content: { text, action: "EXECUTE_ORDER", source: "hivefi" },
+            createdAt: Date.now(),
+        });
+    }
+}
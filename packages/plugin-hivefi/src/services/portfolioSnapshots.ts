@@ -0,0 +1,71 @@
+import {
+    elizaLogger,
+    Service,
+    ServiceType,
+    type IAgentRuntime,
+} from "@elizaos/core";
+import type { Address } from "viem";
+import { initWalletProvider } from "../providers/wallet";
+import { getSnapshots, refreshPortfolio } from "../utils/portfolio";
+
+export const PORTFOLIO_SNAPSHOT_INTERVAL_MS = 60 * 60 * 1000;
+
+/**
+ * Takes one portfolio snapshot per UTC day for the agent wallet so the 24h,
+ * 7d and 30d changes in SHOW_PORTFOLIO have history even when nobody asks
+ * for the portfolio that day.
+ */
+export class PortfolioSnapshotService extends Service {
+    private runtime: IAgentRuntime | null = null;
+    private timer: ReturnType<typeof setInterval> | null = null;
+    private running = false;
+
+    constructor(private intervalMs = PORTFOLIO_SNAPSHOT_INTERVAL_MS) {
+        super();
+    }
+
+    static get serviceType(): ServiceType {
+        return ServiceType.PORTFOLIO_SNAPSHOTS;
+    }
+
+    async initialize(runtime: IAgentRuntime): Promise<void> {
+        this.runtime = runtime;
+        if (this.timer) return;
+        this.timer = setInterval(async () => {
+            if (this.running) return;
+            this.running = true;
+            try {
+                await this.snapshotIfDue();
+            } catch (error) {
+                elizaLogger.error("Error taking portfolio snapshot:", error);
+            } finally {
+                this.running = false;
+            }
+        }, this.intervalMs);
+    }
+
+    stop(): void {
+        if (this.timer) clearInterval(this.timer);
+        this.timer = null;
+    }
+
+    // Returns true when a snapshot was taken
+    async snapshotIfDue(): Promise<boolean> {
+        const runtime = this.runtime;
+        if (!runtime) {
+            throw new Error("PortfolioSnapshotService is not initialized");
+        }
+
+        const provider = initWalletProvider(runtime);
+        if (!provider) return false;
+        const address = provider.getAddress() as Address;
+
+        const today = new Date().toISOString().slice(0, 10);
+        const snapshots = await getSnapshots(runtime, address);
+        if (snapshots.some((snapshot) => snapshot.date === today)) {
+            return false;
+        }
+        await refreshPortfolio(runtime, address);
+        return true;
+    }
+}
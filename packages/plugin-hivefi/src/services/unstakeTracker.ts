@@ -0,0 +1,227 @@
+import {
+    elizaLogger,
+    Service,
+    ServiceType,
+    stringToUuid,
+    type IAgentRuntime,
+    type Memory,
+    type UUID,
+} from "@elizaos/core";
+import { formatEther, type Address } from "viem";
+import { ethereumChain } from "../config/chains";
+import { checkNetworkWrite } from "../config/networks";
+import { recordLedgerEntry } from "../utils/ledger";
+import {
+    METH_STAKING_ADDRESS,
+    STAKING_NETWORK,
+    claimUnstakeRequest,
+    getUnstakeRequestInfo,
+    initStakingClients,
+} from "../utils/staking";
+
+export const UNSTAKE_REQUESTS_KEY = "meth_unstake_requests";
+export const UNSTAKE_POLL_INTERVAL_MS = 5 * 60 * 1000;
+
+export type UnstakeRequestStatus = "pending" | "claimed";
+
+// An mETH unstake request created by UNSTAKE_METH, persisted until claimed
+export interface TrackedUnstakeRequest {
+    // uint256 request id, kept as a string to survive JSON caches
+    requestId: string;
+    userId: UUID;
+    roomId: UUID;
+    requester: Address;
+    mETHLocked: string;
+    ethRequested: string;
+    hash: string;
+    status: UnstakeRequestStatus;
+    createdAt: number;
+    claimHash?: string;
+    claimedAt?: number;
+    error?: string;
+}
+
+export async function getUnstakeRequests(
+    runtime: IAgentRuntime
+): Promise<TrackedUnstakeRequest[]> {
+    return (
+        (await runtime.cacheManager.get<TrackedUnstakeRequest[]>(
+            UNSTAKE_REQUESTS_KEY
+        )) ?? []
+    );
+}
+
+export async function trackUnstakeRequest(
+    runtime: IAgentRuntime,
+    message: Memory,
+    request: Pick<
+        TrackedUnstakeRequest,
+        "requestId" | "requester" | "mETHLocked" | "ethRequested" | "hash"
+    >
+): Promise<void> {
+    try {
+        const requests = await getUnstakeRequests(runtime);
+        await runtime.cacheManager.set(UNSTAKE_REQUESTS_KEY, [
+            ...requests.filter(
+                (existing) => existing.requestId !== request.requestId
+            ),
+            {
+                ...request,
+                userId: message.userId,
+                roomId: message.roomId,
+                status: "pending",
+                createdAt: Date.now(),
+            },
+        ]);
+    } catch (error) {
+        console.error("Failed to track unstake request:", error);
+    }
+}
+
+/**
+ * Polls `unstakeRequestInfo` for every pending mETH unstake request and claims
+ * the ETH with `claimUnstakeRequest` once the request is finalized, posting
+ * the result into the room the unstake was requested from.
+ */
+export class UnstakeClaimTracker extends Service {
+    private runtime: IAgentRuntime | null = null;
+    private timer: ReturnType<typeof setInterval> | null = null;
+    private running = false;
+
+    constructor(private intervalMs = UNSTAKE_POLL_INTERVAL_MS) {
+        super();
+    }
+
+    static get serviceType(): ServiceType {
+        return ServiceType.UNSTAKE_TRACKER;
+    }
+
+    async initialize(runtime: IAgentRuntime): Promise<void> {
+        this.runtime = runtime;
+        if (this.timer) return;
+        this.timer = setInterval(async () => {
+            if (this.running) return;
+            this.running = true;
+            try {
+                await this.claimFinalized();
+            } catch (error) {
+                elizaLogger.error("Error polling mETH unstake requests:", error);
+            } finally {
+                this.running = false;
+            }
+        }, this.intervalMs);
+    }
+
+    stop(): void {
+        if (this.timer) clearInterval(this.timer);
+        this.timer = null;
+    }
+
+    // Returns the number of requests claimed
+    async claimFinalized(): Promise<number> {
+        const runtime = this.runtime;
+        if (!runtime) throw new Error("UnstakeClaimTracker is not initialized");
+
+        const requests = await getUnstakeRequests(runtime);
+        if (!requests.some((request) => request.status === "pending")) {
+            return 0;
+        }
+        const clients = initStakingClients(runtime);
+        if (!clients) return 0;
+        // Claims are Ethereum mainnet writes and follow the same switch as
+        // every other HiveFi write
+        const write = checkNetworkWrite(runtime, STAKING_NETWORK);
+
+        let claimed = 0;
+        for (const request of requests) {
+            if (request.status !== "pending") continue;
+            // Only the wallet that requested the unstake can claim it
+            if (
+                request.requester.toLowerCase() !==
+                clients.account.address.toLowerCase()
+            ) {
+                continue;
+            }
+
+            const requestId = BigInt(request.requestId);
+            try {
+                const info = await getUnstakeRequestInfo(
+                    clients.publicClient,
+                    requestId
+                );
+                if (!info.isFinalized) continue;
+
+                if (!write.allowed) {
+                    // Tell the user once that the request is ready to claim
+                    if (request.error !== write.reason) {
+                        request.error = write.reason;
+                        await this.notify(
+                            runtime,
+                            request,
+                            `⏸️ Unstake request #${request.requestId} is finalized but was not claimed: ${write.reason}`
+                        );
+                    }
+                    continue;
+                }
+
+                const { hash } = await claimUnstakeRequest(clients, requestId);
+                Object.assign(request, {
+                    status: "claimed",
+                    claimHash: hash,
+                    claimedAt: Date.now(),
+                });
+                await recordLedgerEntry(runtime, request, {
+                    action: "CLAIM_UNSTAKE",
+                    chainId: ethereumChain.id,
+                    from: clients.account.address,
+                    to: METH_STAKING_ADDRESS,
+                    token: "ETH",
+                    amount: formatEther(info.claimableAmount),
+                    hash,
+                });
+                await this.notify(
+                    runtime,
+                    request,
+                    `✅ Unstake request #${request.requestId} was finalized and ${formatEther(info.claimableAmount)} ETH has been claimed.\nTransaction Hash: ${hash}\nView on Explorer: https://etherscan.io/tx/${hash}`
+                );
+                claimed++;
+            } catch (error) {
+                // A failed claim is retried on the next poll
+                console.error(
+                    `Failed to claim unstake request ${request.requestId}:`,
+                    error
+                );
+                request.error =
+                    error instanceof Error ? error.message : "Unknown error";
+            }
+        }
+
+        // Merge with requests tracked while this poll was running
+        const latest = await getUnstakeRequests(runtime);
+        const updated = new Map(
+            requests.map((request) => [request.requestId, request])
+        );
+        await runtime.cacheManager.set(
+            UNSTAKE_REQUESTS_KEY,
+            latest.map((request) => updated.get(request.requestId) ?? request)
+        );
+        return claimed;
+    }
+
+    private async notify(
+        runtime: IAgentRuntime,
+        request: TrackedUnstakeRequest,
+        text: string
+    ): Promise<void> {
+        await runtime.messageManager.createMemory({
+            id: stringToUuid(
+                `meth-unstake-claim-${request.requestId}-${Date.now()}`
+            ),
+            userId: runtime.agentId,
+            agentId: runtime.agentId,
+            roomId: request.roomId,
+            content: { text, action: "CLAIM_UNSTAKE", source: "hivefi" },
+            createdAt: Date.now(),
+        });
+    }
+}
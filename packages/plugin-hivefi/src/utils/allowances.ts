@@ -0,0 +1,465 @@
+import type { IAgentRuntime, Memory } from "@elizaos/core";
+import {
+    erc20Abi,
+    maxUint256,
+    parseAbi,
+    parseSignature,
+    type Account,
+    type Address,
+    type Chain,
+    type Hash,
+    type PublicClient,
+    type WalletClient,
+} from "viem";
+import { getNetwork, type NetworkProfile } from "../config/networks";
+import { getERC20Tokens, type ERC20TokenConfig } from "../config/tokens";
+import { recordLedgerEntry } from "./ledger";
+import {
+    SimulationError,
+    simulateContractWrite,
+    type SimulationResult,
+} from "./simulation";
+
+export const APPROVALS_KEY = "hivefi_approvals";
+
+// Permit signatures the agent could not submit in time are worthless after this
+export const PERMIT_DEADLINE_SECONDS = 20 * 60;
+
+// Allowances above this are shown as unlimited
+const UNLIMITED_THRESHOLD = maxUint256 / 2n;
+
+// Contracts HiveFi actions grant allowances to on the network
+export function getKnownSpenders(
+    network: NetworkProfile
+): Record<string, Address> {
+    const { lendle, merchantMoe } = network.contracts;
+    return {
+        ...(lendle ? { Lendle: lendle.lendingPool } : {}),
+        ...(merchantMoe ? { "Merchant Moe": merchantMoe.router } : {}),
+    };
+}
+
+const PERMIT_ABI = parseAbi([
+    "function permit(address owner, address spender, uint256 value, uint256 deadline, uint8 v, bytes32 r, bytes32 s)",
+    "function nonces(address owner) view returns (uint256)",
+    "function DOMAIN_SEPARATOR() view returns (bytes32)",
+    "function version() view returns (string)",
+]);
+
+export type ApprovalMethod = "approve" | "permit" | "revoke";
+
+export interface ApprovalRecord {
+    owner: Address;
+    chainId: number;
+    tokenSymbol: string;
+    tokenAddress: Address;
+    spender: Address;
+    spenderName: string;
+    // Allowance granted, in token base units
+    amount: string;
+    method: ApprovalMethod;
+    hash: Hash;
+    updatedAt: number;
+}
+
+export interface Allowance {
+    token: Pick<ERC20TokenConfig, "symbol" | "address" | "decimals">;
+    spender: Address;
+    spenderName: string;
+    amount: bigint;
+    unlimited: boolean;
+    // Last approval the agent sent for this token and spender, if any
+    record?: ApprovalRecord;
+}
+
+export interface AllowanceRequest {
+    publicClient: PublicClient;
+    walletClient: WalletClient;
+    account: Account;
+    token: Pick<ERC20TokenConfig, "symbol" | "address">;
+    spender: Address;
+    amount: bigint;
+    chain?: Chain;
+}
+
+export interface AllowanceGrant {
+    method: Exclude<ApprovalMethod, "revoke">;
+    hash: Hash;
+    simulation: SimulationResult;
+}
+
+export function getSpenderName(
+    network: NetworkProfile,
+    spender: Address
+): string {
+    const known = Object.entries(getKnownSpenders(network)).find(
+        ([, address]) => address.toLowerCase() === spender.toLowerCase()
+    );
+    return known ? known[0] : spender;
+}
+
+function recordKey(
+    record: Pick<ApprovalRecord, "owner" | "tokenAddress" | "spender">
+): string {
+    return [record.owner, record.tokenAddress, record.spender]
+        .join(":")
+        .toLowerCase();
+}
+
+export async function getApprovalRecords(
+    runtime: IAgentRuntime,
+    owner?: Address
+): Promise<ApprovalRecord[]> {
+    const records =
+        (await runtime.cacheManager.get<ApprovalRecord[]>(APPROVALS_KEY)) ??
+        [];
+    return owner
+        ? records.filter(
+              (record) => record.owner.toLowerCase() === owner.toLowerCase()
+          )
+        : records;
+}
+
+// Keeps only the latest approval per owner, token and spender
+export async function recordApproval(
+    runtime: IAgentRuntime,
+    record: ApprovalRecord
+): Promise<void> {
+    const records = await getApprovalRecords(runtime);
+    const key = recordKey(record);
+    await runtime.cacheManager.set(APPROVALS_KEY, [
+        ...records.filter((existing) => recordKey(existing) !== key),
+        record,
+    ]);
+}
+
+async function readAllowance(
+    publicClient: Pick<PublicClient, "readContract">,
+    token: Address,
+    owner: Address,
+    spender: Address
+): Promise<bigint> {
+    return publicClient.readContract({
+        address: token,
+        abi: erc20Abi,
+        functionName: "allowance",
+        args: [owner, spender],
+    });
+}
+
+/**
+ * EIP-2612 support is detected from `nonces` and `DOMAIN_SEPARATOR`. Tokens
+ * without a `version()` getter almost always sign with version "1"; a wrong
+ * guess only makes the permit simulation revert.
+ */
+async function getPermitDomain(
+    publicClient: PublicClient,
+    token: Address,
+    owner: Address
+): Promise<{ name: string; version: string; nonce: bigint } | null> {
+    try {
+        const [name, nonce] = await Promise.all([
+            publicClient.readContract({
+                address: token,
+                abi: erc20Abi,
+                functionName: "name",
+            }),
+            publicClient.readContract({
+                address: token,
+                abi: PERMIT_ABI,
+                functionName: "nonces",
+                args: [owner],
+            }),
+            publicClient.readContract({
+                address: token,
+                abi: PERMIT_ABI,
+                functionName: "DOMAIN_SEPARATOR",
+            }),
+        ]);
+        const version = await publicClient
+            .readContract({
+                address: token,
+                abi: PERMIT_ABI,
+                functionName: "version",
+            })
+            .catch(() => "1");
+        return { name, version, nonce };
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Neither the Lendle pool nor the Moe router take a permit in the call
+ * itself, so the agent submits the signed permit to the token. The allowance
+ * is exact either way, and a permit that is not mined before its deadline can
+ * no longer be used. Returns null when the token has no usable permit.
+ */
+async function permit(
+    request: AllowanceRequest,
+    chain: Chain
+): Promise<AllowanceGrant | null> {
+    const { publicClient, walletClient, account, token, spender, amount } =
+        request;
+    const domain = await getPermitDomain(
+        publicClient,
+        token.address,
+        account.address
+    );
+    if (!domain) return null;
+
+    const deadline = BigInt(
+        Math.floor(Date.now() / 1000) + PERMIT_DEADLINE_SECONDS
+    );
+    const signature = await walletClient.signTypedData({
+        account,
+        domain: {
+            name: domain.name,
+            version: domain.version,
+            chainId: chain.id,
+            verifyingContract: token.address,
+        },
+        types: {
+            Permit: [
+                { name: "owner", type: "address" },
+                { name: "spender", type: "address" },
+                { name: "value", type: "uint256" },
+                { name: "nonce", type: "uint256" },
+                { name: "deadline", type: "uint256" },
+            ],
+        },
+        primaryType: "Permit",
+        message: {
+            owner: account.address,
+            spender,
+            value: amount,
+            nonce: domain.nonce,
+            deadline,
+        },
+    });
+    const { r, s, v, yParity } = parseSignature(signature);
+
+    const permitCall = {
+        address: token.address,
+        abi: PERMIT_ABI,
+        functionName: "permit",
+        args: [
+            account.address,
+            spender,
+            amount,
+            deadline,
+            Number(v ?? BigInt(yParity + 27)),
+            r,
+            s,
+        ],
+        chain,
+        account,
+    } as const;
+    let simulation: SimulationResult;
+    try {
+        simulation = await simulateContractWrite(publicClient, permitCall);
+    } catch (error) {
+        if (error instanceof SimulationError) {
+            console.warn(
+                `Permit rejected by ${token.symbol}, falling back to approve:`,
+                error.reason
+            );
+            return null;
+        }
+        throw error;
+    }
+    const hash = await walletClient.writeContract(permitCall);
+    return { method: "permit", hash, simulation };
+}
+
+/**
+ * Make sure `spender` may pull `amount` of `token` from the agent wallet.
+ * Grants exactly the amount needed, through an EIP-2612 permit when the token
+ * supports one and an `approve` otherwise, waits for it to be mined and
+ * records it so LIST_APPROVALS can show it. Returns null when the current
+ * allowance already covers the amount.
+ */
+export async function ensureAllowance(
+    runtime: IAgentRuntime,
+    message: Pick<Memory, "userId" | "roomId">,
+    request: AllowanceRequest
+): Promise<AllowanceGrant | null> {
+    const { publicClient, walletClient, account, token, spender, amount } =
+        request;
+    const network = getNetwork(runtime);
+    const chain = request.chain ?? network.chain;
+    const allowance = await readAllowance(
+        publicClient,
+        token.address,
+        account.address,
+        spender
+    );
+    if (allowance >= amount) return null;
+
+    let grant = await permit(request, chain);
+    if (!grant) {
+        const approval = {
+            address: token.address,
+            abi: erc20Abi,
+            functionName: "approve",
+            args: [spender, amount],
+            chain,
+            account,
+        } as const;
+        const simulation = await simulateContractWrite(publicClient, approval);
+        const hash = await walletClient.writeContract(approval);
+        grant = { method: "approve", hash, simulation };
+    }
+
+    const receipt = await publicClient.waitForTransactionReceipt({
+        hash: grant.hash,
+        timeout: 60000,
+    });
+    if (receipt.status !== "success") {
+        throw new Error(`Approval of ${token.symbol} reverted: ${grant.hash}`);
+    }
+
+    await recordApproval(runtime, {
+        owner: account.address,
+        chainId: chain.id,
+        tokenSymbol: token.symbol,
+        tokenAddress: token.address,
+        spender,
+        spenderName: getSpenderName(network, spender),
+        amount: amount.toString(),
+        method: grant.method,
+        hash: grant.hash,
+        updatedAt: Date.now(),
+    });
+    await recordLedgerEntry(runtime, message, {
+        action: grant.method === "permit" ? "PERMIT_TOKEN" : "APPROVE_TOKEN",
+        chainId: chain.id,
+        from: account.address,
+        to: spender,
+        token: token.symbol,
+        amount: amount.toString(),
+        hash: grant.hash,
+    });
+    return grant;
+}
+
+/**
+ * Current allowances of the wallet toward the known spenders and any spender
+ * the agent approved before, on the selected network. Only non-zero
+ * allowances are returned.
+ */
+export async function listAllowances(
+    runtime: IAgentRuntime,
+    publicClient: PublicClient,
+    owner: Address
+): Promise<Allowance[]> {
+    const network = getNetwork(runtime);
+    const records = (await getApprovalRecords(runtime, owner)).filter(
+        (record) => record.chainId === network.chain.id
+    );
+    const candidates = new Map<string, Omit<Allowance, "amount" | "unlimited">>();
+    const spenders = Object.entries(getKnownSpenders(network));
+    for (const token of getERC20Tokens(runtime)) {
+        for (const [spenderName, spender] of spenders) {
+            candidates.set(
+                recordKey({ owner, tokenAddress: token.address, spender }),
+                { token, spender, spenderName }
+            );
+        }
+    }
+    for (const record of records) {
+        const key = recordKey(record);
+        candidates.set(key, {
+            token: candidates.get(key)?.token ?? {
+                symbol: record.tokenSymbol,
+                address: record.tokenAddress,
+                decimals: 18,
+            },
+            spender: record.spender,
+            spenderName: record.spenderName,
+            record,
+        });
+    }
+
+    const allowances = await Promise.all(
+        [...candidates.values()].map(async (candidate) => {
+            try {
+                const amount = await readAllowance(
+                    publicClient,
+                    candidate.token.address,
+                    owner,
+                    candidate.spender
+                );
+                return {
+                    ...candidate,
+                    amount,
+                    unlimited: amount >= UNLIMITED_THRESHOLD,
+                };
+            } catch (error) {
+                console.error(
+                    `Failed to read ${candidate.token.symbol} allowance for ${candidate.spenderName}:`,
+                    error
+                );
+                return null;
+            }
+        })
+    );
+    return allowances.filter(
+        (allowance): allowance is Allowance =>
+            !!allowance && allowance.amount > 0n
+    );
+}
+
+/**
+ * Set the allowance to zero, after a simulation, and record the revocation.
+ */
+export async function revokeAllowance(
+    runtime: IAgentRuntime,
+    message: Pick<Memory, "userId" | "roomId">,
+    clients: Pick<AllowanceRequest, "publicClient" | "walletClient" | "account">,
+    allowance: Allowance,
+    chain: Chain = getNetwork(runtime).chain
+): Promise<{ hash: Hash; simulation: SimulationResult }> {
+    const { publicClient, walletClient, account } = clients;
+    const revocation = {
+        address: allowance.token.address,
+        abi: erc20Abi,
+        functionName: "approve",
+        args: [allowance.spender, 0n],
+        chain,
+        account,
+    } as const;
+    const simulation = await simulateContractWrite(publicClient, revocation);
+    const hash = await walletClient.writeContract(revocation);
+
+    const receipt = await publicClient.waitForTransactionReceipt({
+        hash,
+        timeout: 60000,
+    });
+    if (receipt.status !== "success") {
+        throw new Error(`Revocation of ${allowance.token.symbol} reverted: ${hash}`);
+    }
+
+    await recordApproval(runtime, {
+        owner: account.address,
+        chainId: chain.id,
+        tokenSymbol: allowance.token.symbol,
+        tokenAddress: allowance.token.address,
+        spender: allowance.spender,
+        spenderName: allowance.spenderName,
+        amount: "0",
+        method: "revoke",
+        hash,
+        updatedAt: Date.now(),
+    });
+    await recordLedgerEntry(runtime, message, {
+        action: "REVOKE_APPROVAL",
+        chainId: chain.id,
+        from: account.address,
+        to: allowance.spender,
+        token: allowance.token.symbol,
+        amount: "0",
+        hash,
+    });
+    return { hash, simulation };
+}
@@ -0,0 +1,33 @@
+import {
+    LedgerStatus,
+    type IAgentRuntime,
+    type LedgerEntry,
+    type Memory,
+} from "@elizaos/core";
+
+/**
+ * Record a transaction sent by a HiveFi action in the agent ledger as pending.
+ * The agent's receipt poller moves it to confirmed or failed. Ledger errors are
+ * logged and never fail a transaction that was already broadcast.
+ */
+export async function recordLedgerEntry(
+    runtime: IAgentRuntime,
+    message: Pick<Memory, "userId" | "roomId">,
+    entry: Pick<
+        LedgerEntry,
+        "action" | "chainId" | "from" | "to" | "token" | "amount" | "hash"
+    >
+): Promise<void> {
+    try {
+        await runtime.databaseAdapter.createLedgerEntry({
+            ...entry,
+            agentId: runtime.agentId,
+            userId: message.userId,
+            roomId: message.roomId,
+            status: LedgerStatus.PENDING,
+            createdAt: Date.now(),
+        });
+    } catch (error) {
+        console.error("Failed to record ledger entry:", error);
+    }
+}
@@ -0,0 +1,286 @@
+import type { IAgentRuntime, Memory, UUID } from "@elizaos/core";
+
+export const ORDERS_KEY = "hivefi_orders";
+// Limit and stop-loss orders are failed after this many failed executions
+export const MAX_ORDER_FAILURES = 3;
+// Quote token for "sell my METH if it drops below X" without a target token
+export const DEFAULT_ORDER_QUOTE_SYMBOL = "USDT";
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+const WEEKDAYS = [
+    "sunday",
+    "monday",
+    "tuesday",
+    "wednesday",
+    "thursday",
+    "friday",
+    "saturday",
+];
+
+export type OrderType = "dca" | "limit" | "stop_loss";
+export type OrderStatus = "active" | "filled" | "cancelled" | "failed";
+export type OrderCondition = "above" | "below";
+
+// Audit trail entry, appended on every state change or execution attempt
+export interface OrderEvent {
+    at: number;
+    type: "created" | "triggered" | "executed" | "failed" | "cancelled";
+    detail: string;
+    price?: number;
+    hash?: string;
+}
+
+export interface ScheduledOrder {
+    id: string;
+    userId: UUID;
+    roomId: UUID;
+    type: OrderType;
+    fromSymbol: string;
+    toSymbol: string;
+    // Amount of fromSymbol to swap, "all" sells the whole balance
+    amount: string;
+    // DCA schedule
+    intervalMs?: number;
+    schedule?: string;
+    nextRunAt?: number;
+    // Limit and stop-loss trigger, a USD price of triggerSymbol
+    triggerSymbol?: string;
+    condition?: OrderCondition;
+    triggerPrice?: number;
+    status: OrderStatus;
+    executions: number;
+    failures: number;
+    createdAt: number;
+    updatedAt: number;
+    history: OrderEvent[];
+}
+
+export type OrderRequest = Pick<
+    ScheduledOrder,
+    | "type"
+    | "fromSymbol"
+    | "toSymbol"
+    | "amount"
+    | "intervalMs"
+    | "schedule"
+    | "nextRunAt"
+    | "triggerSymbol"
+    | "condition"
+    | "triggerPrice"
+>;
+
+// First run of a weekday schedule: 00:00 UTC on the next such day, or now
+function nextWeekday(day: number, now: number): number {
+    const today = new Date(now);
+    const offset = (day - today.getUTCDay() + 7) % 7;
+    if (offset === 0) return now;
+    return (
+        Date.UTC(
+            today.getUTCFullYear(),
+            today.getUTCMonth(),
+            today.getUTCDate()
+        ) +
+        offset * DAY_MS
+    );
+}
+
+function parseSchedule(
+    text: string,
+    now: number
+): Pick<OrderRequest, "intervalMs" | "schedule" | "nextRunAt"> | null {
+    const weekday = WEEKDAYS.findIndex((day) => text.startsWith(day));
+    if (weekday >= 0) {
+        return {
+            intervalMs: 7 * DAY_MS,
+            schedule: `every ${WEEKDAYS[weekday][0].toUpperCase()}${WEEKDAYS[weekday].slice(1)}`,
+            nextRunAt: nextWeekday(weekday, now),
+        };
+    }
+
+    const match = text.match(/^(\d+\s*)?(hour|day|week)s?\b/);
+    if (!match) return null;
+    const count = Number(match[1] ?? 1);
+    if (count <= 0) return null;
+    const unit = match[2];
+    const unitMs = unit === "hour" ? HOUR_MS : unit === "day" ? DAY_MS : 7 * DAY_MS;
+    return {
+        intervalMs: count * unitMs,
+        schedule: count === 1 ? `every ${unit}` : `every ${count} ${unit}s`,
+        nextRunAt: now,
+    };
+}
+
+/**
+ * Parses order requests such as
+ * - "buy 10 USDT of MNT every Monday" (DCA, spends 10 USDT on MNT weekly)
+ * - "sell 5 MNT for USDT when MNT is above 1.2" (limit)
+ * - "buy 100 USDT of MNT when MNT drops below 0.7" (limit)
+ * - "sell my METH if it drops below 2000" (stop-loss on the whole balance)
+ */
+export function parseOrderRequest(
+    text: string,
+    now = Date.now()
+): OrderRequest | null {
+    const normalized = text.toLowerCase().replace(/\s+/g, " ").trim();
+
+    const dca = normalized.match(
+        /\b(?:buy|swap|spend|dca)\s+([\d.]+)\s*([a-z]+)\s+(?:of|for|into|to|on)\s+([a-z]+)\s+every\s+(.+)$/
+    );
+    if (dca) {
+        const [, amount, fromSymbol, toSymbol, scheduleText] = dca;
+        const schedule = parseSchedule(scheduleText, now);
+        if (!schedule || !(Number(amount) > 0)) return null;
+        return {
+            type: "dca",
+            fromSymbol: fromSymbol.toUpperCase(),
+            toSymbol: toSymbol.toUpperCase(),
+            amount,
+            ...schedule,
+        };
+    }
+
+    const conditional = normalized.match(
+        /\b(buy|sell)\s+(all(?: my)?|my|[\d.]+)\s*([a-z]+)(?:\s+(?:of|for|with|to|into)\s+([a-z]+))?\s+(?:when|if|once)\s+(?:the price of\s+)?(it|[a-z]+)(?:'s)?\s+(?:price\s+)?(?:is\s+|goes\s+|drops\s+|falls\s+|rises\s+|trades\s+)?(above|over|below|under)\s+\$?([\d.]+)/
+    );
+    if (!conditional) return null;
+    const [, side, amountText, token, otherToken, subject, conditionText, priceText] =
+        conditional;
+    const amount = /^[\d.]+$/.test(amountText) ? amountText : "all";
+    const triggerPrice = Number(priceText);
+    if (!(triggerPrice > 0) || (amount !== "all" && !(Number(amount) > 0))) {
+        return null;
+    }
+
+    // A buy needs to name what it buys, a sell defaults to the quote token
+    if (side === "buy" && !otherToken) return null;
+
+    const condition: OrderCondition =
+        conditionText === "above" || conditionText === "over" ? "above" : "below";
+    // "sell 5 X for Y" swaps X into Y and "buy 100 Y of X" spends Y on X, so
+    // the amount token is always the one swapped from
+    const fromSymbol = token.toUpperCase();
+    const toSymbol = (otherToken ?? DEFAULT_ORDER_QUOTE_SYMBOL).toUpperCase();
+    const traded = side === "sell" ? fromSymbol : toSymbol;
+    return {
+        type: side === "sell" && condition === "below" ? "stop_loss" : "limit",
+        fromSymbol,
+        toSymbol,
+        amount,
+        triggerSymbol: subject === "it" ? traded : subject.toUpperCase(),
+        condition,
+        triggerPrice,
+    };
+}
+
+export function isTriggered(order: ScheduledOrder, price: number): boolean {
+    if (order.triggerPrice === undefined) return false;
+    return order.condition === "above"
+        ? price >= order.triggerPrice
+        : price <= order.triggerPrice;
+}
+
+export function describeOrder(order: ScheduledOrder): string {
+    const amount =
+        order.amount === "all"
+            ? `all ${order.fromSymbol}`
+            : `${order.amount} ${order.fromSymbol}`;
+    if (order.type === "dca") {
+        return `DCA ${amount} → ${order.toSymbol} ${order.schedule}`;
+    }
+    const label = order.type === "stop_loss" ? "Stop-loss" : "Limit";
+    return `${label}: swap ${amount} → ${order.toSymbol} when ${order.triggerSymbol} is ${order.condition} $${order.triggerPrice}`;
+}
+
+export function addOrderEvent(
+    order: ScheduledOrder,
+    event: Omit<OrderEvent, "at">
+): void {
+    order.history.push({ ...event, at: Date.now() });
+    order.updatedAt = Date.now();
+}
+
+export async function getOrders(
+    runtime: IAgentRuntime
+): Promise<ScheduledOrder[]> {
+    return (await runtime.cacheManager.get<ScheduledOrder[]>(ORDERS_KEY)) ?? [];
+}
+
+export async function getUserOrders(
+    runtime: IAgentRuntime,
+    userId: UUID
+): Promise<ScheduledOrder[]> {
+    return (await getOrders(runtime)).filter(
+        (order) => order.userId === userId
+    );
+}
+
+export async function createOrder(
+    runtime: IAgentRuntime,
+    message: Pick<Memory, "userId" | "roomId">,
+    request: OrderRequest
+): Promise<ScheduledOrder> {
+    const now = Date.now();
+    const order: ScheduledOrder = {
+        ...request,
+        id: `ord-${now.toString(36)}${Math.random().toString(36).slice(2, 5)}`,
+        userId: message.userId,
+        roomId: message.roomId,
+        status: "active",
+        executions: 0,
+        failures: 0,
+        createdAt: now,
+        updatedAt: now,
+        history: [],
+    };
+    addOrderEvent(order, { type: "created", detail: describeOrder(order) });
+    await runtime.cacheManager.set(ORDERS_KEY, [
+        ...(await getOrders(runtime)),
+        order,
+    ]);
+    return order;
+}
+
+// Cancels the user's active orders matching `orderId`, or all of them
+export async function cancelOrders(
+    runtime: IAgentRuntime,
+    userId: UUID,
+    orderId?: string
+): Promise<ScheduledOrder[]> {
+    const orders = await getOrders(runtime);
+    const cancelled = orders.filter(
+        (order) =>
+            order.userId === userId &&
+            order.status === "active" &&
+            (!orderId || order.id === orderId)
+    );
+    for (const order of cancelled) {
+        order.status = "cancelled";
+        addOrderEvent(order, {
+            type: "cancelled",
+            detail: "Cancelled by the user",
+        });
+    }
+    if (cancelled.length > 0) {
+        await runtime.cacheManager.set(ORDERS_KEY, orders);
+    }
+    return cancelled;
+}
+
+/**
+ * Write orders updated by the scheduler back, merged with orders created or
+ * cancelled while it was running. A cancellation always wins.
+ */
+export async function saveOrders(
+    runtime: IAgentRuntime,
+    updated: ScheduledOrder[]
+): Promise<void> {
+    const byId = new Map(updated.map((order) => [order.id, order]));
+    const latest = await getOrders(runtime);
+    await runtime.cacheManager.set(
+        ORDERS_KEY,
+        latest.map((order) =>
+            order.status === "active" ? (byId.get(order.id) ?? order) : order
+        )
+    );
+}
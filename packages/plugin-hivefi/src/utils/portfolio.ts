@@ -0,0 +1,441 @@
+import type { IAgentRuntime } from "@elizaos/core";
+import { erc20Abi, formatUnits, type Address, type PublicClient } from "viem";
+import { createNetworkClient, getNetwork } from "../config/networks";
+import { getERC20Tokens, getTokenBySymbol } from "../config/tokens";
+import { DEBT_TOKEN_ABI, MARKET_TOKENS } from "../actions/lending/config";
+import { getUnstakeRequests } from "../services/unstakeTracker";
+import {
+    METH_STAKING_ADDRESS,
+    STAKING_ABI,
+    createEthereumClient,
+} from "./staking";
+import { getPriceFeed, type PriceFeed, type PriceFeedToken } from "./priceFeed";
+
+export const PORTFOLIO_SNAPSHOTS_PREFIX = "portfolio_snapshots:";
+export const PORTFOLIO_COST_BASIS_PREFIX = "portfolio_cost_basis:";
+const SNAPSHOT_RETENTION_DAYS = 90;
+const DAY_MS = 24 * 60 * 60 * 1000;
+// A snapshot up to this much younger than the period still counts for it
+const SNAPSHOT_TOLERANCE_MS = 2 * 60 * 60 * 1000;
+
+const ETH_COINGECKO_ID = "ethereum";
+
+export const CHANGE_PERIODS = [
+    { label: "24h", days: 1 },
+    { label: "7d", days: 7 },
+    { label: "30d", days: 30 },
+] as const;
+
+type PortfolioClient = Pick<PublicClient, "getBalance" | "readContract">;
+
+export type HoldingKind =
+    | "wallet"
+    | "lendle_supply"
+    | "lendle_debt"
+    | "meth_staking"
+    | "meth_unstaking";
+
+export interface PortfolioHolding {
+    kind: HoldingKind;
+    symbol: string;
+    name: string;
+    quantity: number;
+    usdPrice: number | null;
+    // Debt positions have a negative value
+    usdValue: number;
+    // Price feed backends the price came from, see PRICE_SOURCE_LABELS
+    priceSource?: string;
+    // No backend had a recent enough price
+    staleUsdPrice?: boolean;
+}
+
+export interface PortfolioValuation {
+    address: Address;
+    timestamp: number;
+    holdings: PortfolioHolding[];
+    totalUsd: number;
+    // Held symbols without a CoinGecko or oracle price, left out of the total
+    unpriced: string[];
+}
+
+export interface PortfolioSnapshot {
+    // UTC day, YYYY-MM-DD
+    date: string;
+    timestamp: number;
+    totalUsd: number;
+}
+
+// Average cost of the net quantity (assets minus debt) held per symbol
+export type CostBasis = Record<string, { quantity: number; costUsd: number }>;
+
+export interface PortfolioChange {
+    label: (typeof CHANGE_PERIODS)[number]["label"];
+    changeUsd: number;
+    changePercent: number;
+}
+
+export interface PortfolioPnl {
+    costBasisUsd: number;
+    pnlUsd: number;
+    pnlPercent: number;
+}
+
+interface Position {
+    kind: HoldingKind;
+    token: PriceFeedToken & { name: string };
+    quantity: number;
+}
+
+async function getWalletPositions(
+    runtime: IAgentRuntime,
+    publicClient: PortfolioClient,
+    address: Address
+): Promise<Position[]> {
+    const positions: Position[] = [];
+    const mnt = getTokenBySymbol(runtime, "MNT");
+    const mntBalance = await publicClient.getBalance({ address });
+    positions.push({
+        kind: "wallet",
+        token: mnt ?? { symbol: "MNT", name: "Mantle" },
+        quantity: Number(formatUnits(mntBalance, 18)),
+    });
+
+    await Promise.all(
+        getERC20Tokens(runtime).map(async (token) => {
+            try {
+                const balance = await publicClient.readContract({
+                    address: token.address,
+                    abi: erc20Abi,
+                    functionName: "balanceOf",
+                    args: [address],
+                });
+                positions.push({
+                    kind: "wallet",
+                    token,
+                    quantity: Number(formatUnits(balance, token.decimals)),
+                });
+            } catch (error) {
+                console.error(`Error fetching ${token.symbol} balance:`, error);
+            }
+        })
+    );
+    return positions;
+}
+
+// Supplied (aToken) and borrowed (stable + variable debt token) balances
+async function getLendlePositions(
+    runtime: IAgentRuntime,
+    publicClient: PortfolioClient,
+    address: Address
+): Promise<Position[]> {
+    const positions: Position[] = [];
+    await Promise.all(
+        (Object.keys(MARKET_TOKENS) as Array<keyof typeof MARKET_TOKENS>).map(
+            async (symbol) => {
+                const token = getTokenBySymbol(runtime, symbol);
+                if (!token) return;
+                const market = MARKET_TOKENS[symbol];
+                try {
+                    const [supplied, stableDebt, variableDebt] =
+                        await Promise.all(
+                            [
+                                market.aToken,
+                                market.stableDebtToken,
+                                market.variableDebtToken,
+                            ].map((tokenAddress) =>
+                                publicClient.readContract({
+                                    address: tokenAddress,
+                                    abi: DEBT_TOKEN_ABI,
+                                    functionName: "balanceOf",
+                                    args: [address],
+                                })
+                            )
+                        );
+                    positions.push(
+                        {
+                            kind: "lendle_supply",
+                            token,
+                            quantity: Number(
+                                formatUnits(supplied, token.decimals)
+                            ),
+                        },
+                        {
+                            kind: "lendle_debt",
+                            token,
+                            quantity: Number(
+                                formatUnits(
+                                    stableDebt + variableDebt,
+                                    token.decimals
+                                )
+                            ),
+                        }
+                    );
+                } catch (error) {
+                    console.error(
+                        `Error fetching Lendle ${symbol} position:`,
+                        error
+                    );
+                }
+            }
+        )
+    );
+    return positions;
+}
+
+// mETH held on Ethereum plus ETH waiting in unstake requests
+async function getStakingPositions(
+    runtime: IAgentRuntime,
+    address: Address
+): Promise<Position[]> {
+    const meth = getTokenBySymbol(runtime, "METH") ?? {
+        symbol: "mETH",
+        name: "Mantle Staked Ether",
+    };
+    const positions: Position[] = [];
+    try {
+        const ethereumClient = createEthereumClient(runtime);
+        const methToken = await ethereumClient.readContract({
+            address: METH_STAKING_ADDRESS,
+            abi: STAKING_ABI,
+            functionName: "mETH",
+        });
+        const balance = await ethereumClient.readContract({
+            address: methToken,
+            abi: erc20Abi,
+            functionName: "balanceOf",
+            args: [address],
+        });
+        positions.push({
+            kind: "meth_staking",
+            token: meth,
+            quantity: Number(formatUnits(balance, 18)),
+        });
+    } catch (error) {
+        console.error("Error fetching mETH staking balance:", error);
+    }
+
+    const unstaking = (await getUnstakeRequests(runtime))
+        .filter(
+            (request) =>
+                request.status === "pending" &&
+                request.requester.toLowerCase() === address.toLowerCase()
+        )
+        .reduce((sum, request) => sum + Number(request.ethRequested), 0);
+    positions.push({
+        kind: "meth_unstaking",
+        token: { symbol: "ETH", name: "Ether", coingeckoId: ETH_COINGECKO_ID },
+        quantity: unstaking,
+    });
+    return positions;
+}
+
+export async function valuePortfolio(
+    runtime: IAgentRuntime,
+    address: Address,
+    publicClient: PortfolioClient = createNetworkClient(getNetwork(runtime)),
+    priceFeed: PriceFeed = getPriceFeed(runtime, publicClient)
+): Promise<PortfolioValuation> {
+    const positions = (
+        await Promise.all([
+            getWalletPositions(runtime, publicClient, address),
+            // Lendle positions only exist where Lendle is deployed
+            getNetwork(runtime).contracts.lendle
+                ? getLendlePositions(runtime, publicClient, address)
+                : [],
+            getStakingPositions(runtime, address),
+        ])
+    )
+        .flat()
+        .filter((position) => position.quantity > 0);
+
+    const prices = await priceFeed.getPrices(
+        positions.map((position) => position.token)
+    );
+
+    const holdings = positions.map((position): PortfolioHolding => {
+        const price = prices.get(position.token.symbol);
+        const sign = position.kind === "lendle_debt" ? -1 : 1;
+        return {
+            kind: position.kind,
+            symbol: position.token.symbol,
+            name: position.token.name,
+            quantity: position.quantity,
+            usdPrice: price?.usd ?? null,
+            usdValue: price ? sign * position.quantity * price.usd : 0,
+            priceSource: price?.source,
+            staleUsdPrice: price?.stale,
+        };
+    });
+
+    return {
+        address,
+        timestamp: Date.now(),
+        holdings,
+        totalUsd: holdings.reduce((sum, holding) => sum + holding.usdValue, 0),
+        unpriced: [
+            ...new Set(
+                holdings
+                    .filter((holding) => holding.usdPrice === null)
+                    .map((holding) => holding.symbol)
+            ),
+        ],
+    };
+}
+
+function snapshotsKey(address: Address): string {
+    return `${PORTFOLIO_SNAPSHOTS_PREFIX}${address.toLowerCase()}`;
+}
+
+function costBasisKey(address: Address): string {
+    return `${PORTFOLIO_COST_BASIS_PREFIX}${address.toLowerCase()}`;
+}
+
+export async function getSnapshots(
+    runtime: IAgentRuntime,
+    address: Address
+): Promise<PortfolioSnapshot[]> {
+    return (
+        (await runtime.cacheManager.get<PortfolioSnapshot[]>(
+            snapshotsKey(address)
+        )) ?? []
+    );
+}
+
+// Stores the valuation as the snapshot of its UTC day, replacing earlier ones
+export async function recordSnapshot(
+    runtime: IAgentRuntime,
+    valuation: PortfolioValuation
+): Promise<PortfolioSnapshot[]> {
+    const date = new Date(valuation.timestamp).toISOString().slice(0, 10);
+    const since = valuation.timestamp - SNAPSHOT_RETENTION_DAYS * DAY_MS;
+    const snapshots = [
+        ...(await getSnapshots(runtime, valuation.address)).filter(
+            (snapshot) => snapshot.date !== date && snapshot.timestamp > since
+        ),
+        { date, timestamp: valuation.timestamp, totalUsd: valuation.totalUsd },
+    ].sort((a, b) => a.timestamp - b.timestamp);
+    await runtime.cacheManager.set(snapshotsKey(valuation.address), snapshots);
+    return snapshots;
+}
+
+// Change against the latest snapshot at least each period old
+export function computeChanges(
+    snapshots: PortfolioSnapshot[],
+    current: PortfolioValuation
+): PortfolioChange[] {
+    const changes: PortfolioChange[] = [];
+    for (const period of CHANGE_PERIODS) {
+        const cutoff =
+            current.timestamp - period.days * DAY_MS + SNAPSHOT_TOLERANCE_MS;
+        const past = snapshots
+            .filter((snapshot) => snapshot.timestamp <= cutoff)
+            .at(-1);
+        if (!past) continue;
+        const changeUsd = current.totalUsd - past.totalUsd;
+        changes.push({
+            label: period.label,
+            changeUsd,
+            changePercent:
+                past.totalUsd === 0 ? 0 : (changeUsd / past.totalUsd) * 100,
+        });
+    }
+    return changes;
+}
+
+/**
+ * Roll the average-cost basis forward to this valuation. Quantity added since
+ * the previous valuation is booked at the current price, and quantity removed
+ * releases cost proportionally.
+ */
+export function applyCostBasis(
+    previous: CostBasis,
+    valuation: PortfolioValuation
+): CostBasis {
+    const net = new Map<string, { quantity: number; usdPrice: number | null }>();
+    for (const holding of valuation.holdings) {
+        const entry = net.get(holding.symbol) ?? {
+            quantity: 0,
+            usdPrice: holding.usdPrice,
+        };
+        entry.quantity +=
+            holding.kind === "lendle_debt" ? -holding.quantity : holding.quantity;
+        net.set(holding.symbol, entry);
+    }
+
+    const next: CostBasis = {};
+    for (const [symbol, { quantity, usdPrice }] of net) {
+        if (quantity <= 0) continue;
+        const before = previous[symbol] ?? { quantity: 0, costUsd: 0 };
+        if (usdPrice === null) {
+            // Without a price the basis cannot move, keep it as it was
+            if (before.quantity > 0) next[symbol] = before;
+            continue;
+        }
+        const costUsd =
+            quantity >= before.quantity
+                ? before.costUsd + (quantity - before.quantity) * usdPrice
+                : before.costUsd * (quantity / before.quantity);
+        next[symbol] = { quantity, costUsd };
+    }
+    return next;
+}
+
+export async function updateCostBasis(
+    runtime: IAgentRuntime,
+    valuation: PortfolioValuation
+): Promise<CostBasis> {
+    const previous =
+        (await runtime.cacheManager.get<CostBasis>(
+            costBasisKey(valuation.address)
+        )) ?? {};
+    const next = applyCostBasis(previous, valuation);
+    await runtime.cacheManager.set(costBasisKey(valuation.address), next);
+    return next;
+}
+
+// Unrealized PnL of the priced net holdings against their cost basis
+export function computePnl(
+    costBasis: CostBasis,
+    valuation: PortfolioValuation
+): PortfolioPnl {
+    let costBasisUsd = 0;
+    let marketValueUsd = 0;
+    for (const [symbol, entry] of Object.entries(costBasis)) {
+        const price = valuation.holdings.find(
+            (holding) => holding.symbol === symbol
+        )?.usdPrice;
+        if (price === null || price === undefined) continue;
+        costBasisUsd += entry.costUsd;
+        marketValueUsd += entry.quantity * price;
+    }
+    const pnlUsd = marketValueUsd - costBasisUsd;
+    return {
+        costBasisUsd,
+        pnlUsd,
+        pnlPercent: costBasisUsd === 0 ? 0 : (pnlUsd / costBasisUsd) * 100,
+    };
+}
+
+/**
+ * Value the wallet, store today's snapshot and roll the cost basis forward.
+ * Used by SHOW_PORTFOLIO and the daily snapshot service.
+ */
+export async function refreshPortfolio(
+    runtime: IAgentRuntime,
+    address: Address,
+    publicClient?: PortfolioClient
+): Promise<{
+    valuation: PortfolioValuation;
+    changes: PortfolioChange[];
+    pnl: PortfolioPnl;
+}> {
+    const valuation = await valuePortfolio(runtime, address, publicClient);
+    // Past changes are measured before today's snapshot replaces older ones
+    const changes = computeChanges(
+        await getSnapshots(runtime, address),
+        valuation
+    );
+    await recordSnapshot(runtime, valuation);
+    const costBasis = await updateCostBasis(runtime, valuation);
+    return { valuation, changes, pnl: computePnl(costBasis, valuation) };
+}
@@ -0,0 +1,330 @@
+import type { IAgentRuntime } from "@elizaos/core";
+import { readFileSync } from "node:fs";
+import type { Address, PublicClient } from "viem";
+import { createNetworkClient, getNetwork } from "../config/networks";
+import type { TokenConfig } from "../config/tokens";
+import { MARKET_TOKENS, PRICE_ORACLE_ABI } from "../actions/lending/config";
+import { fetchCoinGeckoPrices } from "../providers/coingecko";
+import { fetchDefiLlamaPrices } from "../providers/defillama";
+
+export const DEFAULT_PRICE_FEEDS = ["coingecko", "defillama", "lendle_oracle"];
+export const DEFAULT_PRICE_MAX_AGE_SECONDS = 600;
+
+export const PRICE_SOURCE_LABELS: Record<string, string> = {
+    coingecko: "CoinGecko",
+    defillama: "DefiLlama",
+    lendle_oracle: "Lendle oracle",
+    fixture: "price fixture",
+};
+
+// What a backend needs to identify a token, any field may be unused
+export interface PriceFeedToken {
+    symbol: string;
+    address?: Address;
+    coingeckoId?: string;
+}
+
+export interface PriceQuote {
+    symbol: string;
+    usd: number;
+    // Backend name, or names joined with "+" for aggregated quotes
+    source: string;
+    // Milliseconds since epoch of the underlying price update
+    timestamp: number;
+    stale?: boolean;
+}
+
+// Quotes keyed by token symbol; tokens a feed cannot price are left out
+export type PriceQuotes = Map<string, PriceQuote>;
+
+export interface PriceFeed {
+    readonly name: string;
+    getPrices(tokens: PriceFeedToken[]): Promise<PriceQuotes>;
+}
+
+export function toPriceFeedToken(token: TokenConfig): PriceFeedToken {
+    return {
+        symbol: token.symbol,
+        address: token.type === "erc20" ? token.address : undefined,
+        coingeckoId: token.coingeckoId,
+    };
+}
+
+export async function getUsdPrice(
+    feed: PriceFeed,
+    token: PriceFeedToken
+): Promise<PriceQuote | undefined> {
+    return (await feed.getPrices([token])).get(token.symbol);
+}
+
+export class CoinGeckoPriceFeed implements PriceFeed {
+    readonly name = "coingecko";
+
+    async getPrices(tokens: PriceFeedToken[]): Promise<PriceQuotes> {
+        const quotes: PriceQuotes = new Map();
+        const ids = [
+            ...new Set(
+                tokens
+                    .map((token) => token.coingeckoId)
+                    .filter((id): id is string => !!id)
+            ),
+        ];
+        if (ids.length === 0) return quotes;
+
+        const prices = await fetchCoinGeckoPrices(ids);
+        for (const token of tokens) {
+            const price = token.coingeckoId
+                ? prices[token.coingeckoId]
+                : undefined;
+            if (typeof price?.usd !== "number") continue;
+            quotes.set(token.symbol, {
+                symbol: token.symbol,
+                usd: price.usd,
+                source: this.name,
+                timestamp: price.last_updated_at
+                    ? price.last_updated_at * 1000
+                    : Date.now(),
+            });
+        }
+        return quotes;
+    }
+}
+
+export class DefiLlamaPriceFeed implements PriceFeed {
+    readonly name = "defillama";
+
+    async getPrices(tokens: PriceFeedToken[]): Promise<PriceQuotes> {
+        const quotes: PriceQuotes = new Map();
+        // Mantle contract prices first, CoinGecko ids for native and L1 assets
+        const coins = new Map<string, string>();
+        for (const token of tokens) {
+            if (token.address) {
+                coins.set(token.symbol, `mantle:${token.address}`);
+            } else if (token.coingeckoId) {
+                coins.set(token.symbol, `coingecko:${token.coingeckoId}`);
+            }
+        }
+        if (coins.size === 0) return quotes;
+
+        const prices = await fetchDefiLlamaPrices([...new Set(coins.values())]);
+        for (const [symbol, coin] of coins) {
+            // DefiLlama lowercases addresses in its response keys
+            const price = prices[coin] ?? prices[coin.toLowerCase()];
+            if (typeof price?.price !== "number") continue;
+            quotes.set(symbol, {
+                symbol,
+                usd: price.price,
+                source: this.name,
+                timestamp: price.timestamp * 1000,
+            });
+        }
+        return quotes;
+    }
+}
+
+/**
+ * Lendle PRICE_ORACLE prices for its market tokens. The oracle quotes every
+ * asset in the same base unit, so prices are taken relative to USDC at $1.
+ */
+export class LendleOraclePriceFeed implements PriceFeed {
+    readonly name = "lendle_oracle";
+
+    constructor(
+        private publicClient: Pick<PublicClient, "readContract">,
+        private priceOracle: Address
+    ) {}
+
+    async getPrices(tokens: PriceFeedToken[]): Promise<PriceQuotes> {
+        const quotes: PriceQuotes = new Map();
+        const markets = tokens
+            .map((token) => token.symbol.toUpperCase())
+            .filter(
+                (symbol): symbol is keyof typeof MARKET_TOKENS =>
+                    symbol in MARKET_TOKENS
+            );
+        if (markets.length === 0) return quotes;
+
+        const usdcPrice = await this.readPrice(MARKET_TOKENS.USDC.underlying);
+        if (usdcPrice === 0n) return quotes;
+        const timestamp = Date.now();
+        for (const token of tokens) {
+            const symbol = token.symbol.toUpperCase();
+            if (!(symbol in MARKET_TOKENS)) continue;
+            const price = await this.readPrice(
+                MARKET_TOKENS[symbol as keyof typeof MARKET_TOKENS].underlying
+            );
+            quotes.set(token.symbol, {
+                symbol: token.symbol,
+                usd: Number(price) / Number(usdcPrice),
+                source: this.name,
+                timestamp,
+            });
+        }
+        return quotes;
+    }
+
+    private readPrice(asset: Address): Promise<bigint> {
+        return this.publicClient.readContract({
+            address: this.priceOracle,
+            abi: PRICE_ORACLE_ABI,
+            functionName: "getAssetPrice",
+            args: [asset],
+        });
+    }
+}
+
+export type PriceFixture = Record<
+    string,
+    number | { usd: number; timestamp?: number }
+>;
+
+/**
+ * Fixed prices keyed by symbol, for offline runs and tests. Plain numbers are
+ * always fresh; entries with a timestamp age like live quotes.
+ */
+export class FixturePriceFeed implements PriceFeed {
+    readonly name = "fixture";
+
+    constructor(private fixture: PriceFixture) {}
+
+    static fromFile(path: string): FixturePriceFeed {
+        return new FixturePriceFeed(
+            JSON.parse(readFileSync(path, "utf8")) as PriceFixture
+        );
+    }
+
+    async getPrices(tokens: PriceFeedToken[]): Promise<PriceQuotes> {
+        const quotes: PriceQuotes = new Map();
+        const entries = new Map(
+            Object.entries(this.fixture).map(([symbol, entry]) => [
+                symbol.toUpperCase(),
+                entry,
+            ])
+        );
+        for (const token of tokens) {
+            const entry = entries.get(token.symbol.toUpperCase());
+            if (entry === undefined) continue;
+            quotes.set(token.symbol, {
+                symbol: token.symbol,
+                usd: typeof entry === "number" ? entry : entry.usd,
+                source: this.name,
+                timestamp:
+                    typeof entry === "number"
+                        ? Date.now()
+                        : (entry.timestamp ?? Date.now()),
+            });
+        }
+        return quotes;
+    }
+}
+
+function median(values: number[]): number {
+    const sorted = [...values].sort((a, b) => a - b);
+    const middle = Math.floor(sorted.length / 2);
+    return sorted.length % 2 === 1
+        ? sorted[middle]
+        : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+/**
+ * Queries every backend and returns the median of the fresh quotes per
+ * token. Quotes older than `maxAgeMs` are ignored while a fresh one exists;
+ * when all are old the median of those is returned marked `stale`. A failing
+ * backend is skipped so one API outage does not stop pricing.
+ */
+export class MedianPriceFeed implements PriceFeed {
+    readonly name = "median";
+
+    constructor(
+        private feeds: PriceFeed[],
+        private maxAgeMs = DEFAULT_PRICE_MAX_AGE_SECONDS * 1000
+    ) {}
+
+    async getPrices(tokens: PriceFeedToken[]): Promise<PriceQuotes> {
+        const results = await Promise.all(
+            this.feeds.map(async (feed) => {
+                try {
+                    return await feed.getPrices(tokens);
+                } catch (error) {
+                    console.error(`Price feed ${feed.name} failed:`, error);
+                    return new Map() as PriceQuotes;
+                }
+            })
+        );
+
+        const quotes: PriceQuotes = new Map();
+        const now = Date.now();
+        for (const token of tokens) {
+            const candidates = results
+                .map((result) => result.get(token.symbol))
+                .filter((quote): quote is PriceQuote => !!quote);
+            if (candidates.length === 0) continue;
+
+            const fresh = candidates.filter(
+                (quote) => !quote.stale && now - quote.timestamp <= this.maxAgeMs
+            );
+            const used = fresh.length > 0 ? fresh : candidates;
+            quotes.set(token.symbol, {
+                symbol: token.symbol,
+                usd: median(used.map((quote) => quote.usd)),
+                source: used.map((quote) => quote.source).join("+"),
+                timestamp: Math.min(...used.map((quote) => quote.timestamp)),
+                stale: fresh.length === 0,
+            });
+        }
+        return quotes;
+    }
+}
+
+/**
+ * The price feed configured for the runtime. PRICE_FEED_FIXTURE points at a
+ * JSON fixture and replaces every live backend; otherwise PRICE_FEEDS lists
+ * the backends to aggregate and PRICE_MAX_AGE_SECONDS sets the staleness
+ * limit.
+ */
+export function getPriceFeed(
+    runtime: IAgentRuntime,
+    publicClient?: Pick<PublicClient, "readContract">
+): PriceFeed {
+    const fixture = runtime.getSetting("PRICE_FEED_FIXTURE");
+    if (fixture) {
+        return FixturePriceFeed.fromFile(fixture);
+    }
+
+    const setting = runtime.getSetting("PRICE_FEEDS");
+    const names = setting
+        ? setting.split(",").map((name) => name.trim().toLowerCase())
+        : DEFAULT_PRICE_FEEDS;
+    const feeds = names.flatMap((name): PriceFeed[] => {
+        switch (name) {
+            case "coingecko":
+                return [new CoinGeckoPriceFeed()];
+            case "defillama":
+                return [new DefiLlamaPriceFeed()];
+            case "lendle_oracle": {
+                // Skipped on networks without a Lendle deployment
+                const network = getNetwork(runtime);
+                const lendle = network.contracts.lendle;
+                return lendle
+                    ? [
+                          new LendleOraclePriceFeed(
+                              publicClient ?? createNetworkClient(network),
+                              lendle.priceOracle
+                          ),
+                      ]
+                    : [];
+            }
+            default:
+                console.error(`Unknown price feed: ${name}`);
+                return [];
+        }
+    });
+
+    const maxAge = Number(runtime.getSetting("PRICE_MAX_AGE_SECONDS"));
+    return new MedianPriceFeed(
+        feeds,
+        (Number.isFinite(maxAge) && maxAge > 0
+            ? maxAge
+            : DEFAULT_PRICE_MAX_AGE_SECONDS) * 1000
+    );
+}
@@ -0,0 +1,325 @@
+import type { IAgentRuntime } from "@elizaos/core";
+import {
+    parseAbi,
+    zeroAddress,
+    type Address,
+    type PublicClient,
+} from "viem";
+import {
+    createNetworkClient,
+    getMerchantMoeContracts,
+    getNetwork,
+    type MerchantMoeContracts,
+} from "../config/networks";
+import {
+    getTokenBySymbol,
+    isERC20Token,
+    type ERC20TokenConfig,
+    type TokenConfig,
+} from "../config/tokens";
+
+// Intermediate tokens a route may hop through, in preference order
+export const ROUTING_BASE_SYMBOLS = ["WMNT", "USDC", "USDT", "METH"];
+
+// Merchant Moe pairs charge 0.3% on the input of every hop
+const FEE_NUMERATOR = 997n;
+const FEE_DENOMINATOR = 1000n;
+
+export const DEFAULT_MAX_PRICE_IMPACT = 3; // percent
+
+const FACTORY_ABI = parseAbi([
+    "function getPair(address tokenA, address tokenB) view returns (address)",
+]);
+
+const PAIR_ABI = parseAbi([
+    "function getReserves() view returns (uint112 reserve0, uint112 reserve1, uint32 blockTimestampLast)",
+    "function token0() view returns (address)",
+]);
+
+const ROUTER_QUOTE_ABI = parseAbi([
+    "function getAmountsOut(uint256 amountIn, address[] path) view returns (uint256[] amounts)",
+]);
+
+type RoutingClient = Pick<PublicClient, "readContract">;
+
+interface PairState {
+    address: Address;
+    token0: Address;
+    reserve0: bigint;
+    reserve1: bigint;
+}
+
+interface PairReserves {
+    pair: Address;
+    reserveIn: bigint;
+    reserveOut: bigint;
+}
+
+export interface SwapRoute {
+    path: Address[];
+    symbols: string[];
+    amountIn: bigint;
+    amountOut: bigint;
+    // Output at the current mid price after LP fees, before price impact
+    idealAmountOut: bigint;
+    // Price impact in basis points (100 = 1%)
+    priceImpactBps: number;
+}
+
+export interface SwapQuote {
+    fromToken: TokenConfig;
+    toToken: TokenConfig;
+    best: SwapRoute;
+    // Every route with liquidity, best output first
+    routes: SwapRoute[];
+}
+
+// Client on the network profile the swaps are routed on
+export function createRoutingClient(runtime: IAgentRuntime): PublicClient {
+    return createNetworkClient(getNetwork(runtime));
+}
+
+/**
+ * Price impact threshold in percent from SWAP_MAX_PRICE_IMPACT. Swaps whose
+ * best route moves the price further are refused.
+ */
+export function getMaxPriceImpact(runtime: IAgentRuntime): number {
+    const setting = Number(runtime.getSetting("SWAP_MAX_PRICE_IMPACT"));
+    return Number.isFinite(setting) && setting > 0
+        ? setting
+        : DEFAULT_MAX_PRICE_IMPACT;
+}
+
+export function formatPriceImpact(priceImpactBps: number): string {
+    return `${(priceImpactBps / 100).toFixed(2)}%`;
+}
+
+// Route as the user named it, e.g. "MNT → USDC → mETH"
+export function formatRoute(quote: SwapQuote): string {
+    const symbols = [...quote.best.symbols];
+    symbols[0] = quote.fromToken.symbol;
+    symbols[symbols.length - 1] = quote.toToken.symbol;
+    return symbols.join(" → ");
+}
+
+// Native MNT is routed as WMNT
+function resolveRoutingToken(
+    token: TokenConfig,
+    wrappedNative: ERC20TokenConfig
+): ERC20TokenConfig {
+    return isERC20Token(token) ? token : wrappedNative;
+}
+
+function getAmountOut(
+    amountIn: bigint,
+    reserveIn: bigint,
+    reserveOut: bigint
+): bigint {
+    const amountInWithFee = amountIn * FEE_NUMERATOR;
+    return (
+        (amountInWithFee * reserveOut) /
+        (reserveIn * FEE_DENOMINATOR + amountInWithFee)
+    );
+}
+
+/**
+ * Finds the Merchant Moe route with the best output between two tokens.
+ * Candidate paths go directly or through up to two of the base tokens
+ * (WMNT/USDC/USDT/METH). Outputs are computed from the pair reserves read
+ * through the factory, and the best route is confirmed with the router.
+ */
+export class RouteFinder {
+    private pairs = new Map<string, PairState | null>();
+
+    constructor(
+        private publicClient: RoutingClient,
+        private wrappedNative: ERC20TokenConfig,
+        private bases: ERC20TokenConfig[],
+        private contracts: MerchantMoeContracts
+    ) {}
+
+    static fromRuntime(
+        runtime: IAgentRuntime,
+        publicClient: RoutingClient = createRoutingClient(runtime)
+    ): RouteFinder {
+        const contracts = getMerchantMoeContracts(getNetwork(runtime));
+        const wrappedNative = getTokenBySymbol(runtime, "WMNT");
+        if (!wrappedNative || !isERC20Token(wrappedNative)) {
+            throw new Error("WMNT token not configured correctly");
+        }
+        const bases = ROUTING_BASE_SYMBOLS.map((symbol) =>
+            getTokenBySymbol(runtime, symbol)
+        ).filter(
+            (token): token is ERC20TokenConfig =>
+                !!token && isERC20Token(token)
+        );
+        return new RouteFinder(publicClient, wrappedNative, bases, contracts);
+    }
+
+    async quote(
+        fromToken: TokenConfig,
+        toToken: TokenConfig,
+        amountIn: bigint
+    ): Promise<SwapQuote> {
+        const from = resolveRoutingToken(fromToken, this.wrappedNative);
+        const to = resolveRoutingToken(toToken, this.wrappedNative);
+        if (from.address.toLowerCase() === to.address.toLowerCase()) {
+            throw new Error(
+                `Cannot swap ${fromToken.symbol} for ${toToken.symbol} through Merchant Moe`
+            );
+        }
+
+        this.pairs.clear();
+        const routes: SwapRoute[] = [];
+        for (const candidate of this.candidatePaths(from, to)) {
+            const route = await this.simulate(candidate, amountIn);
+            if (route) routes.push(route);
+        }
+        routes.sort((a, b) =>
+            b.amountOut > a.amountOut ? 1 : b.amountOut < a.amountOut ? -1 : 0
+        );
+
+        if (routes.length === 0 || routes[0].amountOut === 0n) {
+            throw new Error(
+                `No Merchant Moe liquidity found for ${fromToken.symbol} → ${toToken.symbol}`
+            );
+        }
+
+        // The router is the source of truth for what the swap will pay out
+        const best = routes[0];
+        const amounts = await this.publicClient.readContract({
+            address: this.contracts.router,
+            abi: ROUTER_QUOTE_ABI,
+            functionName: "getAmountsOut",
+            args: [amountIn, best.path],
+        });
+        best.amountOut = amounts[amounts.length - 1];
+        best.priceImpactBps = priceImpactBps(
+            best.amountOut,
+            best.idealAmountOut
+        );
+
+        return { fromToken, toToken, best, routes };
+    }
+
+    private candidatePaths(
+        from: ERC20TokenConfig,
+        to: ERC20TokenConfig
+    ): ERC20TokenConfig[][] {
+        const key = (token: ERC20TokenConfig) => token.address.toLowerCase();
+        const intermediates = this.bases.filter(
+            (base) => key(base) !== key(from) && key(base) !== key(to)
+        );
+
+        // Direct, one and two intermediate hops (at most three pairs)
+        const paths: ERC20TokenConfig[][] = [[from, to]];
+        for (const first of intermediates) {
+            paths.push([from, first, to]);
+            for (const second of intermediates) {
+                if (key(second) !== key(first)) {
+                    paths.push([from, first, second, to]);
+                }
+            }
+        }
+        return paths;
+    }
+
+    private async simulate(
+        tokens: ERC20TokenConfig[],
+        amountIn: bigint
+    ): Promise<SwapRoute | null> {
+        let amountOut = amountIn;
+        let idealNumerator = amountIn;
+        let idealDenominator = 1n;
+
+        for (let i = 0; i < tokens.length - 1; i++) {
+            const reserves = await this.getReserves(
+                tokens[i].address,
+                tokens[i + 1].address
+            );
+            if (!reserves) return null;
+
+            amountOut = getAmountOut(
+                amountOut,
+                reserves.reserveIn,
+                reserves.reserveOut
+            );
+            idealNumerator *= reserves.reserveOut * FEE_NUMERATOR;
+            idealDenominator *= reserves.reserveIn * FEE_DENOMINATOR;
+        }
+
+        const idealAmountOut = idealNumerator / idealDenominator;
+        return {
+            path: tokens.map((token) => token.address),
+            symbols: tokens.map((token) => token.symbol),
+            amountIn,
+            amountOut,
+            idealAmountOut,
+            priceImpactBps: priceImpactBps(amountOut, idealAmountOut),
+        };
+    }
+
+    // Reserves are read once per pair and quote, then oriented tokenIn → tokenOut
+    private async getReserves(
+        tokenIn: Address,
+        tokenOut: Address
+    ): Promise<PairReserves | null> {
+        const key = [tokenIn, tokenOut]
+            .map((address) => address.toLowerCase())
+            .sort()
+            .join(":");
+        if (!this.pairs.has(key)) {
+            this.pairs.set(key, await this.readPair(tokenIn, tokenOut));
+        }
+
+        const pair = this.pairs.get(key);
+        if (!pair) return null;
+        const inIsToken0 = pair.token0.toLowerCase() === tokenIn.toLowerCase();
+        return {
+            pair: pair.address,
+            reserveIn: inIsToken0 ? pair.reserve0 : pair.reserve1,
+            reserveOut: inIsToken0 ? pair.reserve1 : pair.reserve0,
+        };
+    }
+
+    private async readPair(
+        tokenA: Address,
+        tokenB: Address
+    ): Promise<PairState | null> {
+        try {
+            const address = await this.publicClient.readContract({
+                address: this.contracts.factory,
+                abi: FACTORY_ABI,
+                functionName: "getPair",
+                args: [tokenA, tokenB],
+            });
+            if (address === zeroAddress) return null;
+
+            const [[reserve0, reserve1], token0] = await Promise.all([
+                this.publicClient.readContract({
+                    address,
+                    abi: PAIR_ABI,
+                    functionName: "getReserves",
+                }),
+                this.publicClient.readContract({
+                    address,
+                    abi: PAIR_ABI,
+                    functionName: "token0",
+                }),
+            ]);
+            if (reserve0 === 0n || reserve1 === 0n) return null;
+
+            return { address, token0, reserve0, reserve1 };
+        } catch (error) {
+            console.error("Failed to read Merchant Moe pair:", error);
+            return null;
+        }
+    }
+}
+
+function priceImpactBps(amountOut: bigint, idealAmountOut: bigint): number {
+    if (idealAmountOut === 0n || amountOut >= idealAmountOut) return 0;
+    return Number(
+        ((idealAmountOut - amountOut) * 10000n) / idealAmountOut
+    );
+}
@@ -0,0 +1,184 @@
+import {
+    BaseError,
+    ContractFunctionRevertedError,
+    InsufficientFundsError,
+    formatEther,
+    parseAbi,
+    type Abi,
+    type Account,
+    type Address,
+    type Chain,
+    type EstimateContractGasParameters,
+    type Hex,
+    type PublicClient,
+    type SimulateContractParameters,
+} from "viem";
+
+// OpenZeppelin 5 custom errors, decoded whatever ABI the call uses
+const COMMON_ERRORS_ABI = parseAbi([
+    "error ERC20InsufficientBalance(address sender, uint256 balance, uint256 needed)",
+    "error ERC20InsufficientAllowance(address spender, uint256 allowance, uint256 needed)",
+]);
+
+// Lendle reverts with the Aave v2 validation error codes
+const LENDLE_ERRORS: Record<string, string> = {
+    "1": "amount must be greater than 0",
+    "2": "the Lendle reserve is not active",
+    "3": "the Lendle reserve is frozen",
+    "4": "not enough liquidity available in the Lendle reserve",
+    "5": "amount exceeds your available Lendle balance",
+    "6": "health factor would drop below 1",
+    "7": "borrowing is not enabled for this asset",
+    "8": "invalid interest rate mode",
+    "9": "you have no collateral deposited",
+    "10": "health factor is already below 1",
+    "11": "not enough collateral for this borrow, health factor would drop below 1",
+    "12": "stable rate borrowing is not enabled for this asset",
+    "13": "collateral is the same as the borrowed asset",
+    "14": "amount is above the maximum stable rate loan size",
+    "15": "you have no debt of this type to repay",
+    "16": "an explicit amount is needed to repay on behalf of another address",
+    "17": "no stable rate loan in this reserve",
+    "18": "no variable rate loan in this reserve",
+    "19": "the underlying balance is 0",
+    "20": "the deposit is already used as collateral",
+};
+
+const REVERT_PATTERNS: Array<[RegExp, string]> = [
+    [/allowance/i, "insufficient allowance"],
+    [
+        /exceeds balance|insufficient balance|TRANSFER_FROM_FAILED/i,
+        "insufficient token balance",
+    ],
+    [
+        /INSUFFICIENT_OUTPUT_AMOUNT|InsufficientAmountOut|too little received/i,
+        "output would be below the minimum received, the price moved beyond the slippage tolerance",
+    ],
+    [/EXPIRED|deadline/i, "the transaction deadline expired"],
+];
+
+export interface ContractWrite {
+    address: Address;
+    abi: Abi | readonly unknown[];
+    functionName: string;
+    args?: readonly unknown[];
+    value?: bigint;
+    account: Account;
+    chain?: Chain;
+}
+
+export interface TransactionWrite {
+    account: Account;
+    to: Address;
+    value?: bigint;
+    data?: Hex;
+}
+
+export interface SimulationResult {
+    // Decoded return value of the call, when it has one
+    result?: unknown;
+    gas: bigint;
+    gasPrice: bigint;
+    // gas * gasPrice in wei of the native token
+    fee: bigint;
+}
+
+/**
+ * Raised when a write would revert, with the reason in plain words so
+ * actions can pass the message straight to the user.
+ */
+export class SimulationError extends Error {
+    constructor(
+        readonly reason: string,
+        readonly cause?: unknown
+    ) {
+        super(`Transaction would revert: ${reason}`);
+        this.name = "SimulationError";
+    }
+}
+
+function translateReason(reason: string): string {
+    const trimmed = reason.trim();
+    if (LENDLE_ERRORS[trimmed]) return LENDLE_ERRORS[trimmed];
+    for (const [pattern, message] of REVERT_PATTERNS) {
+        if (pattern.test(trimmed)) return message;
+    }
+    return trimmed;
+}
+
+export function decodeRevertReason(error: unknown): string {
+    if (error instanceof BaseError) {
+        if (error.walk((cause) => cause instanceof InsufficientFundsError)) {
+            return "insufficient native balance for the value and gas";
+        }
+        const reverted = error.walk(
+            (cause) => cause instanceof ContractFunctionRevertedError
+        ) as ContractFunctionRevertedError | null;
+        if (reverted) {
+            const errorName = reverted.data?.errorName;
+            if (errorName === "ERC20InsufficientAllowance") {
+                return "insufficient allowance";
+            }
+            if (errorName === "ERC20InsufficientBalance") {
+                return "insufficient token balance";
+            }
+            const reason = reverted.reason ?? errorName;
+            if (reason) return translateReason(reason);
+        }
+        return translateReason(error.shortMessage);
+    }
+    if (error instanceof Error) return translateReason(error.message);
+    return "unknown error";
+}
+
+/**
+ * Run a contract write through eth_call and estimate its gas. Throws a
+ * SimulationError with a readable revert reason when the call would fail.
+ */
+export async function simulateContractWrite(
+    publicClient: PublicClient,
+    write: ContractWrite
+): Promise<SimulationResult> {
+    const params = {
+        ...write,
+        abi: [...write.abi, ...COMMON_ERRORS_ABI],
+    };
+    try {
+        const { result } = await publicClient.simulateContract(
+            params as unknown as SimulateContractParameters
+        );
+        const [gas, gasPrice] = await Promise.all([
+            publicClient.estimateContractGas(
+                params as unknown as EstimateContractGasParameters
+            ),
+            publicClient.getGasPrice(),
+        ]);
+        return { result, gas, gasPrice, fee: gas * gasPrice };
+    } catch (error) {
+        throw new SimulationError(decodeRevertReason(error), error);
+    }
+}
+
+// Same as simulateContractWrite for plain transactions such as MNT transfers
+export async function simulateTransaction(
+    publicClient: PublicClient,
+    transaction: TransactionWrite
+): Promise<SimulationResult> {
+    try {
+        await publicClient.call(transaction);
+        const [gas, gasPrice] = await Promise.all([
+            publicClient.estimateGas(transaction),
+            publicClient.getGasPrice(),
+        ]);
+        return { gas, gasPrice, fee: gas * gasPrice };
+    } catch (error) {
+        throw new SimulationError(decodeRevertReason(error), error);
+    }
+}
+
+export function formatSimulation(
+    simulation: SimulationResult,
+    nativeSymbol = "MNT"
+): string {
+    return `Simulation passed · est. gas ${simulation.gas.toLocaleString()} (~${Number(formatEther(simulation.fee)).toPrecision(3)} ${nativeSymbol})`;
+}
@@ -0,0 +1,37 @@
+import {
+    ServiceType,
+    type IAgentRuntime,
+    type ISpendingPolicyService,
+    type SpendingDecision,
+    type SpendingRequest,
+} from "@elizaos/core";
+
+/**
+ * Spending rules are owned by the agent that registers the spending policy
+ * service. Without one (plugin used standalone) every request is allowed.
+ */
+export function getSpendingPolicy(
+    runtime: IAgentRuntime
+): ISpendingPolicyService | null {
+    return runtime.getService<ISpendingPolicyService>(
+        ServiceType.SPENDING_POLICY
+    );
+}
+
+export async function checkSpendingPolicy(
+    runtime: IAgentRuntime,
+    request: SpendingRequest
+): Promise<SpendingDecision> {
+    const policy = getSpendingPolicy(runtime);
+    if (!policy) {
+        return { allowed: true };
+    }
+    return policy.checkSpending(request);
+}
+
+export async function recordSpending(
+    runtime: IAgentRuntime,
+    request: SpendingRequest & { hash?: string }
+): Promise<void> {
+    await getSpendingPolicy(runtime)?.recordSpending(request);
+}
@@ -0,0 +1,132 @@
+import type { IAgentRuntime } from "@elizaos/core";
+import {
+    createPublicClient,
+    createWalletClient,
+    http,
+    parseAbi,
+    type PrivateKeyAccount,
+    type PublicClient,
+    type WalletClient,
+} from "viem";
+import { privateKeyToAccount } from "viem/accounts";
+import { ethereumChain } from "../config/chains";
+import { simulateContractWrite, type SimulationResult } from "./simulation";
+
+// mETH staking contract on Ethereum mainnet
+export const METH_STAKING_ADDRESS =
+    "0xe3cBd06D7dadB3F4e6557bAb7EdD924CD1489E8f" as const;
+
+export const STAKING_ABI = parseAbi([
+    "function stake(uint256 minMETHAmount) payable",
+    "function unstakeRequest(uint128 methAmount, uint128 minETHAmount) returns (uint256)",
+    "function claimUnstakeRequest(uint256 unstakeRequestID)",
+    "function unstakeRequestInfo(uint256 unstakeRequestID) view returns (bool, uint256)",
+    "function ethToMETH(uint256 ethAmount) view returns (uint256)",
+    "function mETHToETH(uint256 mETHAmount) view returns (uint256)",
+    "function mETH() view returns (address)",
+    "event UnstakeRequested(uint256 indexed id, address indexed staker, uint256 ethAmount, uint256 mETHLocked)",
+]);
+
+// mETH staking always runs on Ethereum mainnet, whatever HIVEFI_NETWORK
+// selects, so its writes need HIVEFI_ALLOW_MAINNET_WRITES too
+export const STAKING_NETWORK = { label: "Ethereum Mainnet", mainnet: true };
+
+// Stakes and unstakes accept at most 1% less than the contract quote
+export const STAKING_SLIPPAGE_BPS = 100n;
+
+export interface StakingClients {
+    publicClient: PublicClient;
+    walletClient: WalletClient;
+    account: PrivateKeyAccount;
+}
+
+export function withStakingSlippage(quote: bigint): bigint {
+    return (quote * (10000n - STAKING_SLIPPAGE_BPS)) / 10000n;
+}
+
+function ethereumTransport(runtime: IAgentRuntime) {
+    return http(
+        runtime.getSetting("ETHEREUM_RPC_URL") ||
+            ethereumChain.rpcUrls.default.http[0]
+    );
+}
+
+// Read-only Ethereum client, e.g. for mETH balances held on L1
+export function createEthereumClient(runtime: IAgentRuntime): PublicClient {
+    return createPublicClient({
+        chain: ethereumChain,
+        transport: ethereumTransport(runtime),
+    }) as PublicClient;
+}
+
+/**
+ * Clients for the staking contract on Ethereum, signing with EVM_PRIVATE_KEY.
+ * ETHEREUM_RPC_URL overrides the public RPC.
+ */
+export function initStakingClients(
+    runtime: IAgentRuntime
+): StakingClients | null {
+    const privateKey = runtime.getSetting("EVM_PRIVATE_KEY");
+    if (!privateKey) {
+        console.error("EVM_PRIVATE_KEY is not set");
+        return null;
+    }
+
+    const account = privateKeyToAccount(
+        privateKey.startsWith("0x")
+            ? (privateKey as `0x${string}`)
+            : (`0x${privateKey}` as `0x${string}`)
+    );
+    return {
+        publicClient: createEthereumClient(runtime),
+        walletClient: createWalletClient({
+            account,
+            chain: ethereumChain,
+            transport: ethereumTransport(runtime),
+        }),
+        account,
+    };
+}
+
+export async function getUnstakeRequestInfo(
+    publicClient: Pick<PublicClient, "readContract">,
+    requestId: bigint
+): Promise<{ isFinalized: boolean; claimableAmount: bigint }> {
+    const [isFinalized, claimableAmount] = await publicClient.readContract({
+        address: METH_STAKING_ADDRESS,
+        abi: STAKING_ABI,
+        functionName: "unstakeRequestInfo",
+        args: [requestId],
+    });
+    return { isFinalized, claimableAmount };
+}
+
+export async function claimUnstakeRequest(
+    clients: StakingClients,
+    requestId: bigint
+): Promise<{ hash: `0x${string}`; simulation: SimulationResult }> {
+    const claimCall = {
+        address: METH_STAKING_ADDRESS,
+        abi: STAKING_ABI,
+        functionName: "claimUnstakeRequest",
+        args: [requestId],
+        chain: ethereumChain,
+        account: clients.account,
+    } as const;
+    // Claiming before finalization reverts, surface that before sending
+    const simulation = await simulateContractWrite(
+        clients.publicClient,
+        claimCall
+    );
+    const hash = await clients.walletClient.writeContract(claimCall);
+
+    const receipt = await clients.publicClient.waitForTransactionReceipt({
+        hash,
+        timeout: 60000,
+    });
+    if (receipt.status !== "success") {
+        throw new Error(`Claim of unstake request ${requestId} reverted`);
+    }
+
+    return { hash, simulation };
+}
@@ -0,0 +1,294 @@
+import type { IAgentRuntime } from "@elizaos/core";
+import { readFileSync } from "node:fs";
+import { formatEther, type Address } from "viem";
+import { MARKET_TOKENS } from "../actions/lending/config";
+import { getTokenBySymbol } from "../config/tokens";
+import {
+    fetchDefiLlamaYields,
+    type DefiLlamaYieldPool,
+} from "../providers/defillama";
+import { valuePortfolio } from "./portfolio";
+import { getPriceFeed, getUsdPrice } from "./priceFeed";
+import { createEthereumClient } from "./staking";
+
+export const DEFAULT_MIN_TVL_USD = 1_000_000;
+// Idle balances worth less than this are not worth a deposit transaction
+export const MIN_IDLE_USD = 10;
+// ETH kept on Ethereum for the gas of the stake and later transactions
+export const ETH_GAS_RESERVE = 0.01;
+
+// DefiLlama project slugs HiveFi has deposit actions for
+export const LENDLE_PROJECT = "lendle";
+export const METH_PROJECT = "meth-protocol";
+
+export type YieldRisk = "low" | "medium" | "high";
+const RISK_ORDER: YieldRisk[] = ["low", "medium", "high"];
+
+export interface YieldPool {
+    id: string;
+    project: string;
+    chain: string;
+    symbol: string;
+    tvlUsd: number;
+    apy: number;
+    apyBase: number;
+    apyReward: number;
+    stablecoin: boolean;
+    risk: YieldRisk;
+}
+
+export interface YieldFilter {
+    asset?: string;
+    maxRisk?: YieldRisk;
+    minTvlUsd?: number;
+}
+
+export interface IdleBalance {
+    symbol: string;
+    chain: "mantle" | "ethereum";
+    quantity: number;
+    usdValue: number;
+}
+
+export interface YieldSuggestion {
+    balance: IdleBalance;
+    pool: YieldPool;
+    action: "DEPOSIT_LENDING" | "STAKE_ETH";
+    // Message that runs the action, e.g. "Supply 100 USDC to Lendle"
+    command: string;
+    amount: number;
+    estimatedYearlyUsd: number;
+}
+
+// Wrapped and native forms earn in the same pools
+const ASSET_ALIASES: Record<string, string> = {
+    WMNT: "MNT",
+    WETH: "ETH",
+    CMETH: "METH",
+};
+
+function normalizeAsset(symbol: string): string {
+    const upper = symbol.toUpperCase();
+    return ASSET_ALIASES[upper] ?? upper;
+}
+
+/**
+ * A rough risk grade from what DefiLlama reports: single-asset pools without
+ * impermanent loss are low risk unless most of the APY is reward emissions,
+ * pools exposed to IL or paying outsized APYs are high risk.
+ */
+export function classifyRisk(pool: DefiLlamaYieldPool): YieldRisk {
+    const apy = pool.apy ?? 0;
+    const reward = pool.apyReward ?? 0;
+    if (pool.ilRisk === "yes" || apy > 50) return "high";
+    if (pool.exposure === "multi" || (apy > 0 && reward / apy > 0.5)) {
+        return "medium";
+    }
+    return "low";
+}
+
+function toYieldPool(pool: DefiLlamaYieldPool): YieldPool {
+    return {
+        id: pool.pool,
+        project: pool.project,
+        chain: pool.chain,
+        symbol: pool.symbol,
+        tvlUsd: pool.tvlUsd,
+        apy: pool.apy ?? 0,
+        apyBase: pool.apyBase ?? 0,
+        apyReward: pool.apyReward ?? 0,
+        stablecoin: pool.stablecoin ?? false,
+        risk: classifyRisk(pool),
+    };
+}
+
+/**
+ * Mantle pools plus mETH staking, which lives on Ethereum. YIELD_FIXTURE
+ * points at a JSON file of yields API pools used instead of the live API.
+ */
+export async function getYieldPools(
+    runtime: IAgentRuntime
+): Promise<YieldPool[]> {
+    const fixture = runtime.getSetting("YIELD_FIXTURE");
+    const pools = fixture
+        ? (JSON.parse(readFileSync(fixture, "utf8")) as DefiLlamaYieldPool[])
+        : await fetchDefiLlamaYields();
+    return pools
+        .filter(
+            (pool) =>
+                pool.chain.toLowerCase() === "mantle" ||
+                pool.project === METH_PROJECT
+        )
+        .map(toYieldPool);
+}
+
+export function poolHasAsset(pool: YieldPool, asset: string): boolean {
+    const wanted = normalizeAsset(asset);
+    return pool.symbol
+        .split(/[-/ ]+/)
+        .some((symbol) => normalizeAsset(symbol) === wanted);
+}
+
+// Matching pools, highest APY first
+export function filterYieldPools(
+    pools: YieldPool[],
+    filter: YieldFilter
+): YieldPool[] {
+    const maxRisk = RISK_ORDER.indexOf(filter.maxRisk ?? "high");
+    const minTvlUsd = filter.minTvlUsd ?? DEFAULT_MIN_TVL_USD;
+    return pools
+        .filter(
+            (pool) =>
+                pool.apy > 0 &&
+                pool.tvlUsd >= minTvlUsd &&
+                RISK_ORDER.indexOf(pool.risk) <= maxRisk &&
+                (!filter.asset || poolHasAsset(pool, filter.asset))
+        )
+        .sort((a, b) => b.apy - a.apy);
+}
+
+const UNIT_MULTIPLIERS: Record<string, number> = { k: 1e3, m: 1e6, b: 1e9 };
+
+function parseUsdAmount(value: string, unit?: string): number {
+    return Number(value) * (UNIT_MULTIPLIERS[unit?.toLowerCase() ?? ""] ?? 1);
+}
+
+/**
+ * Filters from a message such as "Low risk USDC yields over $5M TVL".
+ * `symbols` are the token symbols the asset is picked from.
+ */
+export function parseYieldFilter(
+    text: string,
+    symbols: string[]
+): YieldFilter {
+    const filter: YieldFilter = {};
+    const asset = symbols.find((symbol) =>
+        new RegExp(
+            `\\b${symbol.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")}\\b`,
+            "i"
+        ).test(text)
+    );
+    if (asset) filter.asset = asset.toUpperCase();
+
+    if (/\b(low[- ]risk|safe|safest|conservative)\b/i.test(text)) {
+        filter.maxRisk = "low";
+    } else if (/\b(medium[- ]risk|moderate)\b/i.test(text)) {
+        filter.maxRisk = "medium";
+    }
+
+    // "TVL over $5M" or "over $5M TVL"
+    const tvl =
+        text.match(
+            /\btvl\s*(?:over|above|of at least|at least|>=?)?\s*\$?([\d.]+)\s*([kmb])?\b/i
+        ) ??
+        text.match(
+            /\b(?:over|above|at least)\s*\$?([\d.]+)\s*([kmb])?\s*(?:of\s+)?tvl\b/i
+        );
+    if (tvl) filter.minTvlUsd = parseUsdAmount(tvl[1], tvl[2]);
+    return filter;
+}
+
+/**
+ * Balances not earning anything: Mantle wallet tokens and ETH on Ethereum,
+ * which can be staked for mETH. Lendle supplies and staked mETH already earn.
+ */
+export async function getIdleBalances(
+    runtime: IAgentRuntime,
+    address: Address
+): Promise<IdleBalance[]> {
+    const valuation = await valuePortfolio(runtime, address);
+    const balances: IdleBalance[] = valuation.holdings
+        .filter((holding) => holding.kind === "wallet")
+        .map((holding) => ({
+            symbol: holding.symbol,
+            chain: "mantle",
+            quantity: holding.quantity,
+            usdValue: holding.usdValue,
+        }));
+
+    try {
+        const eth = Number(
+            formatEther(
+                await createEthereumClient(runtime).getBalance({ address })
+            )
+        );
+        if (eth > 0) {
+            const quote = await getUsdPrice(getPriceFeed(runtime), {
+                symbol: "ETH",
+                coingeckoId: "ethereum",
+            });
+            balances.push({
+                symbol: "ETH",
+                chain: "ethereum",
+                quantity: eth,
+                usdValue: quote ? eth * quote.usd : 0,
+            });
+        }
+    } catch (error) {
+        console.error("Error fetching Ethereum ETH balance:", error);
+    }
+    return balances;
+}
+
+// Rounded down so the suggested amount never exceeds the balance
+function floorAmount(amount: number): number {
+    return Math.floor(amount * 1e6) / 1e6;
+}
+
+/**
+ * Map idle balances to the best matching pool HiveFi can deposit into:
+ * Lendle markets through DEPOSIT_LENDING and mETH through STAKE_ETH.
+ */
+export function suggestDeposits(
+    runtime: IAgentRuntime,
+    balances: IdleBalance[],
+    pools: YieldPool[]
+): YieldSuggestion[] {
+    const suggestions: YieldSuggestion[] = [];
+    for (const balance of balances) {
+        if (balance.usdValue < MIN_IDLE_USD) continue;
+
+        if (balance.chain === "ethereum") {
+            const pool = pools.find((pool) => pool.project === METH_PROJECT);
+            const amount = floorAmount(balance.quantity - ETH_GAS_RESERVE);
+            if (!pool || amount <= 0) continue;
+            suggestions.push({
+                balance,
+                pool,
+                action: "STAKE_ETH",
+                command: `Stake ${amount} ETH`,
+                amount,
+                estimatedYearlyUsd:
+                    (balance.usdValue * (amount / balance.quantity) * pool.apy) /
+                    100,
+            });
+            continue;
+        }
+
+        // Lendle deposits take the ERC20, native MNT stays for gas
+        const symbol = balance.symbol.toUpperCase();
+        if (
+            !(symbol in MARKET_TOKENS) ||
+            getTokenBySymbol(runtime, symbol)?.type !== "erc20"
+        ) {
+            continue;
+        }
+        const pool = pools.find(
+            (pool) =>
+                pool.project === LENDLE_PROJECT && poolHasAsset(pool, symbol)
+        );
+        const amount = floorAmount(balance.quantity);
+        if (!pool || amount <= 0) continue;
+        suggestions.push({
+            balance,
+            pool,
+            action: "DEPOSIT_LENDING",
+            command: `Supply ${amount} ${symbol} to Lendle`,
+            amount,
+            estimatedYearlyUsd: (balance.usdValue * pool.apy) / 100,
+        });
+    }
+    return suggestions.sort(
+        (a, b) => b.estimatedYearlyUsd - a.estimatedYearlyUsd
+    );
+}